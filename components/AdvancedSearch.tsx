@@ -1,12 +1,94 @@
-import React, { useState, useEffect, useRef, FC, KeyboardEvent, MouseEvent } from 'react';
-import { useNavigate, Navigate } from 'react-router-dom';
-import { MagnifyingGlassIcon, FunnelIcon, XIcon, ClockIcon, CalendarIcon, VideoCameraIcon, AdjustmentsHorizontalIcon } from '@heroicons/react/24/outline';
-
-const AdvancedSearch = () => {
-    return (
-        <div className={"p}-4">
-            <h2>AdvancedSearch - Temporarily Simplified</h2>
-            <p>This component has been temporarily simplified due to syntax errors.</p>
-            <p>Original functionality will be restored soon.</p>
-        </div>
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+
+import { sortOptions, type SortByType } from './SortFilterPanel';
+import { FILTER_GROUPS } from '../src/features/search/components/AdvancedSearchFilters';
+import type { SearchFilterValues } from '../src/types/search';
+
+export interface AdvancedSearchProps {
+  initialQuery?: string;
+  className?: string;
+}
+
+/**
+ * A search form with every filter up front. Submitting opens the results
+ * page with the query, filters and sort order in its URL.
+ */
+const AdvancedSearch: React.FC<AdvancedSearchProps> = ({ initialQuery = '', className = '' }) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState(initialQuery);
+  const [filters, setFilters] = useState<SearchFilterValues>({});
+  const [sortBy, setSortBy] = useState<SortByType>('relevance');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const params = new URLSearchParams({ q: query.trim() });
+    for (const [name, value] of Object.entries(filters)) {
+      if (value) {
+        params.set(name, value);
+      }
+    }
+    if (sortBy !== 'relevance') {
+      params.set('sortBy', sortBy);
+    }
+    navigate(`/search?${params}`);
+  };
+
+  const selectClass = 'w-full rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm dark:border-gray-600 dark:bg-gray-800';
+
+  return (
+    <form onSubmit={handleSubmit} className={`space-y-4 ${className}`}>
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={event => setQuery(event.target.value)}
+          placeholder="Search videos"
+          aria-label="Search videos"
+          className="flex-1 rounded-full border border-gray-300 px-4 py-2 dark:border-gray-600 dark:bg-gray-800"
+        />
+        <button type="submit" className="rounded-full bg-gray-100 px-4 hover:bg-gray-200 dark:bg-gray-700" aria-label="Search">
+          <MagnifyingGlassIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+        {FILTER_GROUPS.map(group => (
+          <label key={group.key} className="text-xs font-medium text-gray-500">
+            {group.label}
+            <select
+              value={filters[group.key] ?? ''}
+              onChange={event => setFilters(previous => ({ ...previous, [group.key]: event.target.value || undefined }))}
+              className={selectClass}
+            >
+              <option value="">Any</option>
+              {group.options.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+        <label className="text-xs font-medium text-gray-500">
+          Sort by
+          <select value={sortBy} onChange={event => setSortBy(event.target.value as SortByType)} className={selectClass}>
+            {sortOptions.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Put words in quotes to match them exactly, for example <code>&quot;react hooks&quot;</code>, and prefix a word or
+        phrase with a minus to leave it out, for example <code>tutorial -beginner</code>.
+      </p>
+    </form>
+  );
+};
+
 export default AdvancedSearch;
@@ -1,13 +1,286 @@
-import React, { MouseEvent, KeyboardEvent, FC, useState, useEffect, useCallback, useRef } from 'react';
-import { PlayIcon, PauseIcon, SpeakerWaveIcon, SpeakerXIcon, ArrowsPointingOutIcon, ArrowsPointingInIcon, Cog6ToothIcon, ForwardIcon, BackwardIcon, ChevronUpIcon } from '@heroicons/react/24/outline';
-import { useVideoPlayer } from '../src/hooks/index.ts';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { useAdaptiveStreaming } from '../src/hooks/useAdaptiveStreaming';
+import { useCaptions } from '../src/hooks/useCaptions';
+import { useStoryboard } from '../src/hooks/useStoryboard';
+import { getChapterAt } from '../utils/chapterParser';
+import { formatTime, getVideoCaptions, getVideoChapters, getVideoQualityOptions } from '../utils/playerUtils';
+
+import CaptionMenu from './CaptionMenu';
+import CaptionOverlay from './CaptionOverlay';
+import ChapterProgressBar from './ChapterProgressBar';
+import PerformanceDashboard from './PerformanceDashboard';
+import VideoQualitySelector from './VideoQualitySelector';
+
 import type { Video } from '../src/types/core.ts';
+import type { PlaybackStats } from '../utils/adaptiveStreaming';
+import type { VideoCaption, VideoChapter } from '../utils/playerUtils';
+
+export interface AdvancedVideoPlayerProps {
+ video?: Video;
+ /** Overrides the video's own source; HLS (.m3u8) and DASH (.mpd) manifests play adaptively */
+ src?: string;
+ /** Overrides the video's own subtitle tracks */
+ captions?: VideoCaption[];
+ /** Overrides the chapters parsed from the video's description */
+ chapters?: VideoChapter[];
+ /** WebVTT thumbnail index for seek previews; defaults to the video's storyboard */
+ storyboardUrl?: string;
+ autoplay?: boolean;
+ muted?: boolean;
+ className?: string;
+ /** Shows the buffer-health overlay */
+ showStats?: boolean;
+ onStatsChange?: (stats: PlaybackStats) => void;
+ onTimeUpdate?: (currentTime: number) => void;
+ onEnded?: () => void;
+}
+
+const SEEK_STEP_SECONDS = 10;
+
+const AdvancedVideoPlayer: React.FC<AdvancedVideoPlayerProps> = ({
+ video,
+ src,
+ captions,
+ chapters,
+ storyboardUrl,
+ autoplay = false,
+ muted = false,
+ className = '',
+ showStats = false,
+ onStatsChange,
+ onTimeUpdate,
+ onEnded }) => {
+ const containerRef = useRef<HTMLDivElement>(null);
+ const videoRef = useRef<HTMLVideoElement>(null);
+ const [isPlaying, setIsPlaying] = useState(false);
+ const [currentTime, setCurrentTime] = useState(0);
+ const [duration, setDuration] = useState(0);
+ const [bufferedEnd, setBufferedEnd] = useState(0);
+ const [volume, setVolume] = useState(muted ? 0 : 100);
+ const [playbackRate, setPlaybackRate] = useState(1);
+ const [isFullscreen, setIsFullscreen] = useState(false);
+
+ const source = src ?? video?.manifestUrl ?? video?.videoUrl;
+ const { renditions, currentRendition, quality, setQuality, stats, error } = useAdaptiveStreaming(videoRef, source);
+
+ // The selector renders its own "Auto" entry
+ const qualities = useMemo(
+ () => getVideoQualityOptions({}, renditions).filter(option => option.value !== 'auto'),
+ [renditions]);
+ const currentLabel = qualities.find(option => option.value === currentRendition?.id)?.label;
+
+ const videoChapters = useMemo(
+ () => chapters ?? (video && duration ? getVideoChapters(video, duration) : []),
+ [chapters, video, duration]);
+ const currentChapter = getChapterAt(videoChapters, currentTime);
+ const storyboard = useStoryboard(storyboardUrl ?? video?.storyboardUrl);
+
+ const captionTracks = useMemo(() => captions ?? getVideoCaptions(video), [captions, video]);
+ const {
+ tracks,
+ activeTrackId,
+ setActiveTrack,
+ track: captionTrack,
+ activeCues,
+ loading: captionsLoading,
+ settings: captionSettings,
+ updateSettings: updateCaptionSettings } = useCaptions(captionTracks, currentTime);
+ const lastTrackIdRef = useRef<string | null>(null);
+
+ const toggleCaptions = useCallback(() => {
+ if (activeTrackId) {
+ lastTrackIdRef.current = activeTrackId;
+ setActiveTrack(null);
+ } else {
+ setActiveTrack(lastTrackIdRef.current ?? tracks[0]?.id ?? null);
+ }
+ }, [activeTrackId, setActiveTrack, tracks]);
+
+ useEffect(() => {
+ if (stats) {
+ onStatsChange?.(stats);
+ }
+ }, [stats, onStatsChange]);
+
+ useEffect(() => {
+ const handleFullscreenChange = () => setIsFullscreen(document.fullscreenElement === containerRef.current);
+ document.addEventListener('fullscreenchange', handleFullscreenChange);
+ return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+ }, []);
+
+ const togglePlay = useCallback(() => {
+ const element = videoRef.current;
+ if (!element) {
+ return;
+ }
+ if (element.paused) {
+ element.play().catch(() => setIsPlaying(false));
+ } else {
+ element.pause();
+ }
+ }, []);
+
+ const seekBy = useCallback((seconds: number) => {
+ const element = videoRef.current;
+ if (element) {
+ element.currentTime = Math.min(Math.max(0, element.currentTime + seconds), element.duration || 0);
+ }
+ }, []);
+
+ const seekTo = useCallback((time: number) => {
+ if (videoRef.current) {
+ videoRef.current.currentTime = time;
+ setCurrentTime(time);
+ }
+ }, []);
+
+ const handleVolumeChange = useCallback((next: number) => {
+ const element = videoRef.current;
+ setVolume(next);
+ if (element) {
+ element.volume = next / 100;
+ element.muted = next === 0;
+ }
+ }, []);
+
+ const handleSpeedChange = useCallback((rate: number) => {
+ setPlaybackRate(rate);
+ if (videoRef.current) {
+ videoRef.current.playbackRate = rate;
+ }
+ }, []);
+
+ const toggleFullscreen = useCallback(() => {
+ if (document.fullscreenElement) {
+ void document.exitFullscreen();
+ } else {
+ void containerRef.current?.requestFullscreen();
+ }
+ }, []);
+
+ const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+ switch (event.key) {
+ case ' ':
+ case 'k':
+ event.preventDefault();
+ togglePlay();
+ break;
+ case 'ArrowLeft':
+ case 'j':
+ seekBy(-SEEK_STEP_SECONDS);
+ break;
+ case 'ArrowRight':
+ case 'l':
+ seekBy(SEEK_STEP_SECONDS);
+ break;
+ case 'f':
+ toggleFullscreen();
+ break;
+ case 'm':
+ handleVolumeChange(volume === 0 ? 100 : 0);
+ break;
+ case 'c':
+ toggleCaptions();
+ break;
+ }
+ };
+
+ return (
+ <div
+ ref={containerRef}
+ className={`relative bg-black aspect-video group ${className}`}
+ tabIndex={0}
+ onKeyDown={handleKeyDown}
+ >
+ <video
+ ref={videoRef}
+ className="w-full h-full"
+ poster={video?.thumbnailUrl || video?.thumbnail}
+ autoPlay={autoplay}
+ muted={muted}
+ playsInline
+ onClick={togglePlay}
+ onPlay={() => setIsPlaying(true)}
+ onPause={() => setIsPlaying(false)}
+ onLoadedMetadata={(event) => setDuration(event.currentTarget.duration)}
+ onDurationChange={(event) => setDuration(event.currentTarget.duration)}
+ onTimeUpdate={(event) => {
+ setCurrentTime(event.currentTarget.currentTime);
+ onTimeUpdate?.(event.currentTarget.currentTime);
+ }}
+ onProgress={(event) => {
+ const { buffered, currentTime: time } = event.currentTarget;
+ for (let i = 0; i < buffered.length; i++) {
+ if (buffered.start(i) <= time && time <= buffered.end(i)) {
+ setBufferedEnd(buffered.end(i));
+ return;
+ }
+ }
+ }}
+ onEnded={onEnded}
+ />
+
+ <CaptionOverlay
+ cues={activeCues}
+ styles={captionTrack?.styles}
+ regions={captionTrack?.regions}
+ settings={captionSettings}
+ currentTime={currentTime}
+ />
+
+ {error && (
+ <div className="absolute inset-0 flex items-center justify-center bg-black/70 text-white text-sm p-4 text-center">
+ {error.message}
+ </div>
+ )}
+
+ <div className="absolute bottom-0 inset-x-0 bg-gradient-to-t from-black/80 to-transparent px-3 pt-6 pb-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+ <div className="flex items-center gap-2 text-white text-xs mb-1">
+ <ChapterProgressBar
+ className="flex-1"
+ chapters={videoChapters}
+ currentTime={currentTime}
+ duration={duration}
+ bufferedEnd={bufferedEnd}
+ storyboard={storyboard}
+ onSeek={seekTo}
+ />
+ <span className="tabular-nums">
+ {formatTime(currentTime)} / {formatTime(duration)}
+ </span>
+ {currentChapter && <span className="max-w-[30%] truncate">• {currentChapter.title}</span>}
+ </div>
+ <div className="flex items-center gap-2">
+ <VideoQualitySelector
+ className="flex-1"
+ qualities={qualities}
+ currentQuality={quality}
+ onQualityChange={setQuality}
+ {...(currentLabel && { autoQualityLabel: currentLabel })}
+ currentSpeed={playbackRate}
+ onSpeedChange={handleSpeedChange}
+ volume={volume}
+ onVolumeChange={handleVolumeChange}
+ isPlaying={isPlaying}
+ onPlayPause={togglePlay}
+ isFullscreen={isFullscreen}
+ onFullscreenToggle={toggleFullscreen}
+ />
+ <CaptionMenu
+ tracks={tracks}
+ activeTrackId={activeTrackId}
+ onTrackChange={setActiveTrack}
+ settings={captionSettings}
+ onSettingsChange={updateCaptionSettings}
+ loading={captionsLoading}
+ />
+ </div>
+ </div>
+
+ {showStats && <PerformanceDashboard isVisible position="top-right" playbackStats={stats} />}
+ </div>
+ );
+};
 
-const AdvancedVideoPlayer = () => {
-    return (
-        <div className={"p}-4">
-            <h2>AdvancedVideoPlayer - Temporarily Simplified</h2>
-            <p>This component has been temporarily simplified due to syntax errors.</p>
-            <p>Original functionality will be restored soon.</p>
-        </div>
 export default AdvancedVideoPlayer;
@@ -0,0 +1,275 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+
+import {
+ formatTimestamp,
+ getCaptionFormat,
+ parseCaptions,
+ parseTimestamp,
+ serializeCaptions,
+ stripCueMarkup } from '../utils/captionParser';
+
+import type { CaptionCue, CaptionFormat, CaptionTrackData, CueSettings } from '../utils/captionParser';
+
+export interface CaptionEditorProps {
+ track: CaptionTrackData;
+ onChange: (track: CaptionTrackData) => void;
+ currentTime: number;
+ duration: number;
+ onSeek?: (time: number) => void;
+ /** Base name for exported files */
+ fileName?: string;
+ className?: string;
+}
+
+type Placement = 'bottom' | 'middle' | 'top' | 'custom';
+
+const DEFAULT_CUE_DURATION = 3;
+
+function getPlacement(settings: CueSettings): Placement {
+ if (settings.line === undefined) {
+ return 'bottom';
+ }
+ if (!settings.lineIsPercent && settings.line === 0) {
+ return 'top';
+ }
+ if (settings.lineIsPercent && settings.line === 50) {
+ return 'middle';
+ }
+ return 'custom';
+}
+
+function withPlacement(settings: CueSettings, placement: Placement): CueSettings {
+ const rest = { ...settings };
+ delete rest.line;
+ delete rest.lineIsPercent;
+ delete rest.lineAlign;
+ switch (placement) {
+ case 'top':
+ return { ...rest, line: 0, lineIsPercent: false };
+ case 'middle':
+ return { ...rest, line: 50, lineIsPercent: true, lineAlign: 'center' };
+ case 'bottom':
+ return rest;
+ default:
+ return settings;
+ }
+}
+
+function withAlign(settings: CueSettings, align: string): CueSettings {
+ const rest = { ...settings };
+ delete rest.align;
+ return align === 'center' ? rest : { ...rest, align: align as CueSettings['align'] };
+}
+
+function downloadText(text: string, fileName: string, type: string): void {
+ const url = URL.createObjectURL(new Blob([text], { type }));
+ const link = document.createElement('a');
+ link.href = url;
+ link.download = fileName;
+ link.click();
+ URL.revokeObjectURL(url);
+}
+
+/** Timestamp field that only commits valid `hh:mm:ss.ttt` values */
+const TimestampInput: React.FC<{ value: number; onCommit: (value: number) => void; label: string }> = ({ value, onCommit, label }) => {
+ const [draft, setDraft] = useState(formatTimestamp(value));
+
+ useEffect(() => setDraft(formatTimestamp(value)), [value]);
+
+ const commit = () => {
+ const parsed = parseTimestamp(draft);
+ if (Number.isNaN(parsed)) {
+ setDraft(formatTimestamp(value));
+ } else if (parsed !== value) {
+ onCommit(parsed);
+ }
+ };
+
+ return (
+ <input
+ type="text"
+ value={draft}
+ aria-label={label}
+ onChange={(event) => setDraft(event.target.value)}
+ onBlur={commit}
+ onKeyDown={(event) => event.key === 'Enter' && commit()}
+ className="w-28 px-2 py-1 text-xs font-mono border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+ />
+ );
+};
+
+/**
+ * Edits a caption track cue by cue. Tracks can be imported from and exported
+ * to both WebVTT and SRT; styling and regions from an imported WebVTT file are
+ * kept as-is and written back on WebVTT export.
+ */
+const CaptionEditor: React.FC<CaptionEditorProps> = ({
+ track,
+ onChange,
+ currentTime,
+ duration,
+ onSeek,
+ fileName = 'captions',
+ className = '' }) => {
+ const fileInputRef = useRef<HTMLInputElement>(null);
+ const [importError, setImportError] = useState<string | null>(null);
+
+ const problems = useMemo(() => track.cues.map((cue, index) => {
+ if (cue.endTime <= cue.startTime) {
+ return 'Ends before it starts';
+ }
+ if (duration && cue.startTime >= duration) {
+ return 'Starts after the video ends';
+ }
+ const previous = track.cues[index - 1];
+ if (previous && previous.endTime > cue.startTime && cue.settings.line === undefined && previous.settings.line === undefined) {
+ return 'Overlaps the previous caption';
+ }
+ return null;
+ }), [track.cues, duration]);
+
+ const setCues = (cues: CaptionCue[]) => {
+ onChange({ ...track, cues: [...cues].sort((a, b) => a.startTime - b.startTime || a.endTime - b.endTime) });
+ };
+
+ const updateCue = (index: number, updates: Partial<CaptionCue>) => {
+ setCues(track.cues.map((cue, i) => (i === index ? { ...cue, ...updates } : cue)));
+ };
+
+ const addCue = () => {
+ const startTime = currentTime;
+ const endTime = duration ? Math.min(startTime + DEFAULT_CUE_DURATION, duration) : startTime + DEFAULT_CUE_DURATION;
+ setCues([...track.cues, { startTime, endTime: endTime > startTime ? endTime : startTime + 1, text: '', settings: {} }]);
+ };
+
+ const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+ const file = event.target.files?.[0];
+ event.target.value = '';
+ if (!file) {
+ return;
+ }
+ try {
+ const imported = parseCaptions(await file.text(), getCaptionFormat(file.name));
+ if (!imported.cues.length) {
+ throw new Error('No captions found in this file');
+ }
+ setImportError(null);
+ onChange(imported);
+ } catch (error) {
+ setImportError(error instanceof Error ? error.message : 'Could not read this file');
+ }
+ };
+
+ const handleExport = (format: CaptionFormat) => {
+ downloadText(
+ serializeCaptions(track, format),
+ `${fileName}.${format}`,
+ format === 'vtt' ? 'text/vtt' : 'application/x-subrip');
+ };
+
+ const buttonClass = 'px-3 py-1.5 text-sm rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50';
+ const selectClass = 'px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white';
+
+ return (
+ <div className={`space-y-4 ${className}`}>
+ <div className="flex items-center justify-between">
+ <h3 className="font-medium text-gray-900 dark:text-white">Captions</h3>
+ <span className="text-xs text-gray-500">{track.cues.length} cues</span>
+ </div>
+
+ <div className="flex flex-wrap gap-2">
+ <button type="button" className={buttonClass} onClick={addCue}>
+ Add at {formatTimestamp(currentTime).slice(3, 8)}
+ </button>
+ <button type="button" className={buttonClass} onClick={() => fileInputRef.current?.click()}>
+ Import
+ </button>
+ <button type="button" className={buttonClass} onClick={() => handleExport('vtt')} disabled={!track.cues.length}>
+ Export .vtt
+ </button>
+ <button type="button" className={buttonClass} onClick={() => handleExport('srt')} disabled={!track.cues.length}>
+ Export .srt
+ </button>
+ <input ref={fileInputRef} type="file" accept=".vtt,.srt,text/vtt" className="hidden" onChange={handleImport} />
+ </div>
+
+ {importError && <p className="text-sm text-red-600">{importError}</p>}
+
+ <ol className="space-y-3 max-h-96 overflow-y-auto">
+ {track.cues.map((cue, index) => {
+ const isActive = cue.startTime <= currentTime && currentTime < cue.endTime;
+ const placement = getPlacement(cue.settings);
+ return (
+ <li
+ key={`${index}-${cue.startTime}`}
+ className={`p-3 rounded border space-y-2 ${isActive ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'border-gray-200 dark:border-gray-700'}`}
+ >
+ <div className="flex flex-wrap items-center gap-2">
+ <TimestampInput label="Start time" value={cue.startTime} onCommit={(startTime) => updateCue(index, { startTime })} />
+ <span className="text-gray-400">→</span>
+ <TimestampInput label="End time" value={cue.endTime} onCommit={(endTime) => updateCue(index, { endTime })} />
+ {onSeek && (
+ <button type="button" className="text-xs text-blue-600 hover:underline" onClick={() => onSeek(cue.startTime)}>
+ Jump
+ </button>
+ )}
+ <button
+ type="button"
+ className="ml-auto text-xs text-red-600 hover:underline"
+ onClick={() => setCues(track.cues.filter((_, i) => i !== index))}
+ >
+ Delete
+ </button>
+ </div>
+
+ <textarea
+ value={cue.text}
+ rows={2}
+ placeholder="Caption text"
+ aria-label="Caption text"
+ onChange={(event) => updateCue(index, { text: event.target.value })}
+ className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+ />
+
+ <div className="flex flex-wrap items-center gap-2">
+ <select
+ className={selectClass}
+ value={placement}
+ aria-label="Placement"
+ onChange={(event) => updateCue(index, { settings: withPlacement(cue.settings, event.target.value as Placement) })}
+ >
+ <option value="bottom">Bottom</option>
+ <option value="middle">Middle</option>
+ <option value="top">Top</option>
+ {placement === 'custom' && <option value="custom">Custom</option>}
+ </select>
+ <select
+ className={selectClass}
+ value={cue.settings.align === 'start' ? 'left' : cue.settings.align === 'end' ? 'right' : cue.settings.align ?? 'center'}
+ aria-label="Alignment"
+ onChange={(event) => updateCue(index, { settings: withAlign(cue.settings, event.target.value) })}
+ >
+ <option value="left">Left</option>
+ <option value="center">Center</option>
+ <option value="right">Right</option>
+ </select>
+ {problems[index] && <span className="text-xs text-amber-600">{problems[index]}</span>}
+ {!problems[index] && cue.text !== stripCueMarkup(cue.text) && (
+ <span className="text-xs text-gray-500">Styled</span>
+ )}
+ </div>
+ </li>
+ );
+ })}
+ </ol>
+
+ {!track.cues.length && (
+ <p className="text-sm text-gray-500 dark:text-gray-400">
+ No captions yet. Add one at the playhead or import a WebVTT or SRT file.
+ </p>
+ )}
+ </div>
+ );
+};
+
+export default CaptionEditor;
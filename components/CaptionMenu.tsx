@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+import type { CaptionDisplaySettings } from '../src/hooks/useCaptions';
+import type { VideoCaption } from '../utils/playerUtils';
+
+export interface CaptionMenuProps {
+ tracks: VideoCaption[];
+ activeTrackId: string | null;
+ onTrackChange: (id: string | null) => void;
+ settings: CaptionDisplaySettings;
+ onSettingsChange: (updates: Partial<CaptionDisplaySettings>) => void;
+ loading?: boolean;
+ className?: string;
+}
+
+const FONT_SCALES = [
+ { label: '50%', value: 0.5 },
+ { label: '75%', value: 0.75 },
+ { label: '100%', value: 1 },
+ { label: '150%', value: 1.5 },
+ { label: '200%', value: 2 }];
+
+const BACKGROUND_OPACITIES = [
+ { label: 'None', value: 0 },
+ { label: '25%', value: 0.25 },
+ { label: '50%', value: 0.5 },
+ { label: '75%', value: 0.75 },
+ { label: '100%', value: 1 }];
+
+/**
+ * "CC" control: picks the caption track (or turns captions off) and adjusts
+ * caption size and background opacity.
+ */
+const CaptionMenu: React.FC<CaptionMenuProps> = ({
+ tracks,
+ activeTrackId,
+ onTrackChange,
+ settings,
+ onSettingsChange,
+ loading = false,
+ className = '' }) => {
+ const [isOpen, setIsOpen] = useState(false);
+ const menuRef = useRef<HTMLDivElement>(null);
+
+ useEffect(() => {
+ if (!isOpen) {
+ return;
+ }
+ const handleClickOutside = (event: MouseEvent) => {
+ if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+ setIsOpen(false);
+ }
+ };
+ document.addEventListener('mousedown', handleClickOutside);
+ return () => document.removeEventListener('mousedown', handleClickOutside);
+ }, [isOpen]);
+
+ if (!tracks.length) {
+ return null;
+ }
+
+ const optionClass = (selected: boolean) =>
+ `w-full text-left px-3 py-1.5 rounded hover:bg-white/10 ${selected ? 'text-red-400' : ''}`;
+
+ return (
+ <div ref={menuRef} className={`relative ${className}`}>
+ <button
+ type="button"
+ onClick={() => setIsOpen(open => !open)}
+ className={`px-1.5 py-0.5 text-xs font-bold rounded border ${activeTrackId ? 'border-white bg-white text-black' : 'border-white/70 text-white'}`}
+ aria-label="Captions"
+ aria-pressed={!!activeTrackId}
+ aria-expanded={isOpen}
+ >
+ CC
+ </button>
+
+ {isOpen && (
+ <div className="absolute bottom-full right-0 mb-2 w-56 rounded-lg bg-black/90 text-white text-sm p-2 space-y-3" role="menu">
+ <div>
+ <div className="px-3 pb-1 text-xs uppercase text-gray-400">Subtitles/CC {loading && '…'}</div>
+ <button type="button" className={optionClass(activeTrackId === null)} onClick={() => onTrackChange(null)}>
+ Off
+ </button>
+ {tracks.map(track => (
+ <button
+ key={track.id}
+ type="button"
+ className={optionClass(activeTrackId === track.id)}
+ onClick={() => onTrackChange(track.id)}
+ >
+ {track.label}
+ </button>
+ ))}
+ </div>
+
+ <label className="flex items-center justify-between px-3">
+ <span>Font size</span>
+ <select
+ className="bg-gray-800 rounded px-1 py-0.5"
+ value={settings.fontScale}
+ onChange={(event) => onSettingsChange({ fontScale: Number(event.target.value) })}
+ >
+ {FONT_SCALES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+ </select>
+ </label>
+
+ <label className="flex items-center justify-between px-3">
+ <span>Background</span>
+ <select
+ className="bg-gray-800 rounded px-1 py-0.5"
+ value={settings.backgroundOpacity}
+ onChange={(event) => onSettingsChange({ backgroundOpacity: Number(event.target.value) })}
+ >
+ {BACKGROUND_OPACITIES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+ </select>
+ </label>
+ </div>
+ )}
+ </div>
+ );
+};
+
+export default CaptionMenu;
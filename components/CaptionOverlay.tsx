@@ -0,0 +1,230 @@
+import React, { memo } from 'react';
+
+import { CUE_COLOR_CLASSES, parseCueText } from '../utils/captionParser';
+
+import type { CaptionDisplaySettings } from '../src/hooks/useCaptions';
+import type { CaptionCue, CaptionRegion, CueNode, CueSettings, CueStyleRule } from '../utils/captionParser';
+
+export interface CaptionOverlayProps {
+ cues: CaptionCue[];
+ styles?: CueStyleRule[];
+ regions?: CaptionRegion[];
+ settings: CaptionDisplaySettings;
+ /** Drives karaoke-style `<00:00:01.000>` timestamps inside cues */
+ currentTime: number;
+}
+
+/** Caption text height as a share of the video height, before the user's scale */
+const BASE_FONT_SIZE_CQH = 5;
+const LINE_HEIGHT_EM = 1.4;
+
+type TagNode = Extract<CueNode, { type: 'tag' }>;
+
+function toReactStyle(declarations: Record<string, string>): React.CSSProperties {
+ const style: Record<string, string> = {};
+ for (const [property, value] of Object.entries(declarations)) {
+ style[property.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase())] = value;
+ }
+ return style as React.CSSProperties;
+}
+
+function matchesSelector(selector: string, node: TagNode): boolean {
+ const voice = /^v\[voice="?([^"\]]*)"?\]$/.exec(selector);
+ if (voice) {
+ return node.name === 'v' && node.annotation === voice[1];
+ }
+ const [tag, ...classes] = selector.split('.');
+ if (tag && tag !== node.name) {
+ return false;
+ }
+ return classes.every(cls => node.classes.includes(cls));
+}
+
+function nodeStyle(node: TagNode, rules: CueStyleRule[]): React.CSSProperties {
+ const style: React.CSSProperties = {};
+ switch (node.name) {
+ case 'b':
+ style.fontWeight = 'bold';
+ break;
+ case 'i':
+ style.fontStyle = 'italic';
+ break;
+ case 'u':
+ style.textDecoration = 'underline';
+ break;
+ case 'font':
+ if (node.annotation) {
+ style.color = node.annotation;
+ }
+ break;
+ }
+ for (const cls of node.classes) {
+ if (CUE_COLOR_CLASSES[cls]) {
+ style.color = CUE_COLOR_CLASSES[cls];
+ } else if (cls.startsWith('bg_') && CUE_COLOR_CLASSES[cls.slice(3)]) {
+ style.backgroundColor = CUE_COLOR_CLASSES[cls.slice(3)];
+ }
+ }
+ for (const rule of rules) {
+ if (rule.selector && matchesSelector(rule.selector, node)) {
+ Object.assign(style, toReactStyle(rule.declarations));
+ }
+ }
+ return style;
+}
+
+function renderNodes(nodes: CueNode[], rules: CueStyleRule[], currentTime: number, keyPrefix = ''): React.ReactNode[] {
+ // Text after a timestamp that has not been reached yet is dimmed
+ let isFuture = false;
+ return nodes.map((node, index) => {
+ const key = `${keyPrefix}${index}`;
+ if (node.type === 'timestamp') {
+ isFuture = node.time > currentTime;
+ return null;
+ }
+ if (node.type === 'text') {
+ return isFuture ? <span key={key} style={{ opacity: 0.6 }}>{node.text}</span> : node.text;
+ }
+ const children = renderNodes(node.children, rules, currentTime, `${key}-`);
+ const style = { ...nodeStyle(node, rules), ...(isFuture && { opacity: 0.6 }) };
+ if (node.name === 'ruby') {
+ return <ruby key={key} style={style}>{children}</ruby>;
+ }
+ if (node.name === 'rt') {
+ return <rt key={key} style={style}>{children}</rt>;
+ }
+ return (
+ <span key={key} style={style} {...(node.name === 'lang' && node.annotation && { lang: node.annotation })}>
+ {children}
+ </span>
+ );
+ });
+}
+
+/** Resolves `align` to the physical side for left-to-right text */
+function textAlign(settings: CueSettings): 'left' | 'center' | 'right' {
+ switch (settings.align) {
+ case 'start':
+ case 'left':
+ return 'left';
+ case 'end':
+ case 'right':
+ return 'right';
+ default:
+ return 'center';
+ }
+}
+
+/**
+ * Absolute box for a cue that sets its own line or position, following the
+ * WebVTT layout rules for horizontal text: `position` anchors the box
+ * according to `positionAlign`, and `line` places it from the top (or the
+ * bottom for negative line numbers).
+ */
+function cueBoxStyle(settings: CueSettings): React.CSSProperties {
+ const size = settings.size ?? 100;
+ const align = textAlign(settings);
+ const position = settings.position ?? (align === 'left' ? 0 : align === 'right' ? 100 : 50);
+ const positionAlign = settings.positionAlign ?? (align === 'left' ? 'line-left' : align === 'right' ? 'line-right' : 'center');
+ let left = position - (positionAlign === 'center' ? size / 2 : positionAlign === 'line-right' ? size : 0);
+ left = Math.min(Math.max(0, left), 100 - size);
+
+ const style: React.CSSProperties = { position: 'absolute', left: `${left}%`, width: `${size}%`, textAlign: align };
+ if (settings.vertical) {
+ style.writingMode = settings.vertical === 'rl' ? 'vertical-rl' : 'vertical-lr';
+ }
+ if (settings.line === undefined) {
+ style.bottom = '5%';
+ } else if (settings.lineIsPercent) {
+ const shift = settings.lineAlign === 'center' ? -50 : settings.lineAlign === 'end' ? -100 : 0;
+ style.top = `${settings.line}%`;
+ style.transform = `translateY(${shift}%)`;
+ } else if (settings.line >= 0) {
+ style.top = `${settings.line * LINE_HEIGHT_EM}em`;
+ } else {
+ style.bottom = `${(-settings.line - 1) * LINE_HEIGHT_EM}em`;
+ }
+ return style;
+}
+
+function hasPlacement(settings: CueSettings): boolean {
+ return settings.line !== undefined || settings.position !== undefined || settings.size !== undefined || !!settings.vertical;
+}
+
+/**
+ * Renders the active cues over the video. Cues without placement settings
+ * stack at the bottom like native captions; positioned cues and cues in a
+ * region get their own boxes.
+ */
+const CaptionOverlay: React.FC<CaptionOverlayProps> = ({ cues, styles = [], regions = [], settings, currentTime }) => {
+ if (!cues.length) {
+ return null;
+ }
+
+ const cueRule = styles.filter(rule => !rule.selector).reduce<React.CSSProperties>(
+ (style, rule) => ({ ...style, ...toReactStyle(rule.declarations) }),
+ {});
+ const textStyle: React.CSSProperties = {
+ backgroundColor: `rgba(0, 0, 0, ${settings.backgroundOpacity})`,
+ color: '#ffffff',
+ padding: '0.1em 0.3em',
+ whiteSpace: 'pre-line',
+ boxDecorationBreak: 'clone',
+ WebkitBoxDecorationBreak: 'clone',
+ ...cueRule
+ };
+ const renderCue = (cue: CaptionCue) => (
+ <span style={textStyle}>{renderNodes(parseCueText(cue.text), styles, currentTime)}</span>
+ );
+
+ const regionsById = new Map(regions.map(region => [region.id, region]));
+ const flowing = cues.filter(cue => !hasPlacement(cue.settings) && !regionsById.has(cue.settings.region ?? ''));
+ const positioned = cues.filter(cue => hasPlacement(cue.settings) && !regionsById.has(cue.settings.region ?? ''));
+ const regionCues = regions
+ .map(region => ({ region, cues: cues.filter(cue => cue.settings.region === region.id) }))
+ .filter(group => group.cues.length);
+
+ return (
+ <div
+ className="absolute inset-0 pointer-events-none overflow-hidden"
+ style={{ containerType: 'size', fontSize: `${BASE_FONT_SIZE_CQH * settings.fontScale}cqh`, lineHeight: LINE_HEIGHT_EM }}
+ aria-live="polite"
+ >
+ {flowing.length > 0 && (
+ <div className="absolute inset-x-0 bottom-[5%] flex flex-col items-center gap-1 px-[5%]">
+ {flowing.map(cue => (
+ <div key={`${cue.id ?? ''}${cue.startTime}`} style={{ textAlign: textAlign(cue.settings) }} className="max-w-full">
+ {renderCue(cue)}
+ </div>
+ ))}
+ </div>
+ )}
+ {positioned.map(cue => (
+ <div key={`${cue.id ?? ''}${cue.startTime}`} style={cueBoxStyle(cue.settings)}>
+ {renderCue(cue)}
+ </div>
+ ))}
+ {regionCues.map(({ region, cues: inRegion }) => (
+ <div
+ key={region.id}
+ className="absolute flex flex-col justify-end overflow-hidden"
+ style={{
+ width: `${region.width}%`,
+ height: `${region.lines * LINE_HEIGHT_EM}em`,
+ left: `${region.viewportAnchor[0]}%`,
+ top: `${region.viewportAnchor[1]}%`,
+ transform: `translate(-${region.regionAnchor[0]}%, -${region.regionAnchor[1]}%)`
+ }}
+ >
+ {inRegion.slice(-region.lines).map(cue => (
+ <div key={`${cue.id ?? ''}${cue.startTime}`} style={{ textAlign: textAlign(cue.settings) }}>
+ {renderCue(cue)}
+ </div>
+ ))}
+ </div>
+ ))}
+ </div>
+ );
+};
+
+export default memo(CaptionOverlay);
@@ -0,0 +1,172 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+
+import { getChapterAt } from '../utils/chapterParser';
+import { formatTime } from '../utils/playerUtils';
+import { getStoryboardFrame } from '../utils/storyboard';
+
+import StoryboardPreview from './StoryboardPreview';
+
+import type { VideoChapter } from '../utils/playerUtils';
+import type { StoryboardFrame } from '../utils/storyboard';
+
+export interface ChapterProgressBarProps {
+ chapters: VideoChapter[];
+ currentTime: number;
+ duration: number;
+ /** End of the buffered range containing the playhead, in seconds */
+ bufferedEnd?: number;
+ /** Frames from the video's storyboard, shown while hovering */
+ storyboard?: StoryboardFrame[];
+ onSeek: (time: number) => void;
+ className?: string;
+}
+
+const KEYBOARD_STEP_SECONDS = 5;
+
+/**
+ * Seek bar split into one segment per chapter. Hovering shows the storyboard
+ * frame, time and chapter title under the pointer; without chapters it is a
+ * single segment.
+ */
+const ChapterProgressBar: React.FC<ChapterProgressBarProps> = ({
+ chapters,
+ currentTime,
+ duration,
+ bufferedEnd = 0,
+ storyboard = [],
+ onSeek,
+ className = '' }) => {
+ const trackRef = useRef<HTMLDivElement>(null);
+ const [hoverTime, setHoverTime] = useState<number | null>(null);
+ const [isDragging, setIsDragging] = useState(false);
+
+ const segments = useMemo(() => {
+ if (!duration) {
+ return [];
+ }
+ if (!chapters.length) {
+ return [{ start: 0, end: duration, title: '' }];
+ }
+ return chapters.map(chapter => ({ ...chapter, end: Math.min(chapter.end, duration) }));
+ }, [chapters, duration]);
+
+ const timeAt = useCallback((clientX: number) => {
+ const rect = trackRef.current?.getBoundingClientRect();
+ if (!rect || !rect.width) {
+ return 0;
+ }
+ return Math.min(Math.max(0, (clientX - rect.left) / rect.width), 1) * duration;
+ }, [duration]);
+
+ const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+ event.currentTarget.setPointerCapture(event.pointerId);
+ setIsDragging(true);
+ onSeek(timeAt(event.clientX));
+ };
+
+ const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+ const time = timeAt(event.clientX);
+ setHoverTime(time);
+ if (isDragging) {
+ onSeek(time);
+ }
+ };
+
+ const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+ const chapterStarts = chapters.map(chapter => chapter.start);
+ let target: number | undefined;
+ switch (event.key) {
+ case 'ArrowLeft':
+ target = currentTime - KEYBOARD_STEP_SECONDS;
+ break;
+ case 'ArrowRight':
+ target = currentTime + KEYBOARD_STEP_SECONDS;
+ break;
+ case 'PageUp':
+ target = chapterStarts.find(start => start > currentTime + 0.5);
+ break;
+ case 'PageDown':
+ // Back to the start of this chapter, or the previous one if we are at its start
+ target = [...chapterStarts].reverse().find(start => start < currentTime - 1) ?? 0;
+ break;
+ case 'Home':
+ target = 0;
+ break;
+ case 'End':
+ target = duration;
+ break;
+ default:
+ return;
+ }
+ event.preventDefault();
+ event.stopPropagation();
+ if (target !== undefined) {
+ onSeek(Math.min(Math.max(0, target), duration));
+ }
+ };
+
+ const hoverChapter = hoverTime === null ? null : getChapterAt(chapters, hoverTime);
+ const hoverFrame = hoverTime === null ? null : getStoryboardFrame(storyboard, hoverTime);
+ const currentChapter = getChapterAt(chapters, currentTime);
+ const percent = (time: number) => (duration ? (time / duration) * 100 : 0);
+
+ return (
+ <div
+ ref={trackRef}
+ className={`relative h-4 flex items-center cursor-pointer group/progress touch-none ${className}`}
+ role="slider"
+ tabIndex={0}
+ aria-label="Seek"
+ aria-valuemin={0}
+ aria-valuemax={Math.floor(duration)}
+ aria-valuenow={Math.floor(currentTime)}
+ aria-valuetext={`${formatTime(currentTime)}${currentChapter ? `, ${currentChapter.title}` : ''}`}
+ onPointerDown={handlePointerDown}
+ onPointerMove={handlePointerMove}
+ onPointerUp={() => setIsDragging(false)}
+ onPointerLeave={() => !isDragging && setHoverTime(null)}
+ onKeyDown={handleKeyDown}
+ >
+ <div className="flex w-full gap-0.5">
+ {segments.map(segment => {
+ const length = segment.end - segment.start;
+ const played = Math.min(Math.max(0, currentTime - segment.start), length);
+ const buffered = Math.min(Math.max(0, bufferedEnd - segment.start), length);
+ const isHovered = hoverTime !== null && hoverTime >= segment.start && hoverTime < segment.end;
+ return (
+ <div
+ key={segment.start}
+ className={`relative bg-white/30 overflow-hidden transition-[height] ${isHovered ? 'h-2' : 'h-1 group-hover/progress:h-1.5'}`}
+ style={{ width: `${percent(length)}%` }}
+ >
+ <div className="absolute inset-y-0 left-0 bg-white/40" style={{ width: `${(buffered / length) * 100}%` }} />
+ <div className="absolute inset-y-0 left-0 bg-red-600" style={{ width: `${(played / length) * 100}%` }} />
+ </div>
+ );
+ })}
+ </div>
+
+ <div
+ className="absolute top-1/2 w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-red-600 scale-0 group-hover/progress:scale-100 transition-transform"
+ style={{ left: `${percent(currentTime)}%` }}
+ />
+
+ {hoverTime !== null && (
+ <div
+ className="absolute bottom-full mb-2 -translate-x-1/2 px-2 py-1 rounded bg-black/80 text-white text-xs text-center whitespace-nowrap pointer-events-none"
+ style={{ left: `${Math.min(Math.max(percent(hoverTime), hoverFrame ? 12 : 5), hoverFrame ? 88 : 95)}%` }}
+ >
+ {hoverFrame ? (
+ <StoryboardPreview frame={hoverFrame} width={160} className="rounded mb-1 border border-white/20" />
+ ) : hoverChapter?.thumbnailUrl && (
+ <img src={hoverChapter.thumbnailUrl} alt="" className="w-32 aspect-video object-cover rounded mb-1" />
+ )}
+ {hoverChapter && <div className="font-medium max-w-[12rem] truncate">{hoverChapter.title}</div>}
+ <div className="tabular-nums">{formatTime(hoverTime)}</div>
+ </div>
+ )}
+ </div>
+ );
+};
+
+export default ChapterProgressBar;
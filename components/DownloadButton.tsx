@@ -0,0 +1,69 @@
+import React, { FC } from 'react';
+
+import { ArrowDownTrayIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+
+import { useOfflineDownloads } from '../src/hooks/useOfflineDownloads';
+
+import type { Video } from '../src/types/core.ts';
+
+interface DownloadButtonProps {
+ video: Video;
+ className?: string;
+}
+
+/**
+ * Saves the video for offline viewing and shows its progress. Only videos
+ * with a progressive source (`videoUrl`) can be downloaded; adaptive-only
+ * videos render nothing.
+ */
+const DownloadButton: FC<DownloadButtonProps> = ({ video, className = '' }) => {
+ const { getDownload, download, pause, resume, error } = useOfflineDownloads();
+ const current = getDownload(video.id);
+
+ if (!video.videoUrl) {
+ return null;
+ }
+
+ const handleClick = () => {
+ if (!current) {
+ download({
+ videoId: video.id,
+ title: video.title,
+ thumbnail: video.thumbnailUrl || video.thumbnail,
+ channelName: video.channelName || video.channelTitle,
+ duration: video.duration,
+ sourceUrl: video.videoUrl as string
+ });
+ } else if (current.status === 'downloading' || current.status === 'queued') {
+ pause(video.id);
+ } else if (current.status === 'paused' || current.status === 'error') {
+ resume(video.id);
+ }
+ };
+
+ let label = 'Download';
+ if (current?.status === 'complete') {
+ label = 'Downloaded';
+ } else if (current?.status === 'downloading' || current?.status === 'queued') {
+ label = current.size ? `${Math.floor((current.downloadedBytes / current.size) * 100)}%` : 'Downloading';
+ } else if (current?.status === 'paused') {
+ label = 'Paused';
+ } else if (current?.status === 'error') {
+ label = 'Retry';
+ }
+
+ return (
+ <button
+ onClick={handleClick}
+ disabled={current?.status === 'complete'}
+ className={`flex items-center space-x-1.5 bg-neutral-100 dark:bg-neutral-800 hover:bg-neutral-200 dark:hover:bg-neutral-700 text-neutral-800 dark:text-neutral-50 px-3 py-2 rounded-full text-sm font-medium transition-colors disabled:cursor-default ${className}`}
+ title={error || current?.error || (current?.status === 'complete' ? 'Available offline in your library' : 'Download for offline viewing')}
+ aria-label={current?.status === 'complete' ? 'Downloaded' : 'Download video'}
+ >
+ {current?.status === 'complete' ? <CheckCircleIcon className="w-4 h-4" /> : <ArrowDownTrayIcon className="w-4 h-4" />}
+ <span className="text-xs">{label}</span>
+ </button>
+ );
+};
+
+export default DownloadButton;
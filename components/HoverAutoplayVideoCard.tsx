@@ -2,6 +2,11 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { formatDistanceToNow } from 'date-fns';
 
+import { useStoryboard } from '../src/hooks/useStoryboard';
+import { getStoryboardFrame } from '../utils/storyboard';
+
+import StoryboardPreview from './StoryboardPreview';
+
 export interface HoverAutoplayVideoCardProps {
   video: {
     id: string;
@@ -10,131 +15,175 @@ export interface HoverAutoplayVideoCardProps {
     duration: string;
     views: number;
     uploadedAt: string;
+    /** WebVTT thumbnail index; lets the card preview frames without playing */
+    storyboardUrl?: string;
     channel: {
       name: string;
       avatar: string;
+    };
+  };
+  /** Play a muted preview on hover. When false, hovering scrubs the storyboard instead. */
+  autoplay?: boolean;
   className?: string;
-
 }
-const HoverAutoplayVideoCard: React.FC<HoverAutoplayVideoCardProps> = ({ video, className = '' }) => {
+
+const HoverAutoplayVideoCard: React.FC<HoverAutoplayVideoCardProps> = ({ video, autoplay = true, className = '' }) => {
   const [isHovered, setIsHovered] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [showControls, setShowControls] = useState(false);
   const [isMuted, setIsMuted] = useState(true);
-  const [currentTime, setCurrentTime] = useState(0);
+  // Pointer position across the thumbnail, 0–1, for storyboard scrubbing
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const hoverTimeoutRef = useRef<NodeJS.Timeout>();
-  const playTimeoutRef = useRef<NodeJS.Timeout>();
+  const hoverTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  // Only fetched once the card is hovered, and only when it will be used
+  const storyboard = useStoryboard(video.storyboardUrl, !autoplay && isHovered);
+  const storyboardDuration = storyboard.length ? storyboard[storyboard.length - 1].endTime : 0;
+  const scrubFrame = scrubPosition === null ? null : getStoryboardFrame(storyboard, scrubPosition * storyboardDuration);
 
   const formatViews = (views: number): string => {
     if (views >= 1000000) {
       return `${(views / 1000000).toFixed(1)}M views`;
     } else if (views >= 1000) {
       return `${(views / 1000).toFixed(1)}K views`;
+    }
     return `${views} views`;
+  };
 
   const formatDuration = (duration: string): string => {
     return duration;
+  };
 
   const getTimeAgo = (date: string): string => {
     try {
       return formatDistanceToNow(new Date(date), { addSuffix: true });
     } catch {
       return '1 day ago';
+    }
+  };
 
   const handleMouseEnter = () => {
     setIsHovered(true);
-    
+    if (!autoplay) {
+      return;
+    }
+
     // Clear any existing timeouts
     if (hoverTimeoutRef.current) {
       clearTimeout(hoverTimeoutRef.current);
-    
+    }
+
     // Start autoplay after a delay
-    hoverTimeoutRef.current = setTimeout(() => {)
+    hoverTimeoutRef.current = setTimeout(() => {
       setIsPlaying(true);
       if (videoRef.current) {
-        videoRef.current.play().catch(() => {)
+        videoRef.current.play().catch(() => {
           // Handle autoplay failure silently
+        });
+      }
     }, 1000);
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (autoplay) {
+      return;
+    }
+    const rect = event.currentTarget.getBoundingClientRect();
+    setScrubPosition(rect.width ? Math.min(Math.max(0, (event.clientX - rect.left) / rect.width), 1) : 0);
+  };
 
   const handleMouseLeave = () => {
     setIsHovered(false);
     setIsPlaying(false);
     setShowControls(false);
-    
+    setScrubPosition(null);
+
     // Clear timeouts
     if (hoverTimeoutRef.current) {
       clearTimeout(hoverTimeoutRef.current);
-    if (playTimeoutRef.current) {
-      clearTimeout(playTimeoutRef.current);
-    
+    }
+
     // Pause video
     if (videoRef.current) {
       videoRef.current.pause();
       videoRef.current.currentTime = 0;
+    }
+  };
 
-  const handleTimeUpdate = () => {
-    if (videoRef.current) {
-      setCurrentTime(videoRef.current.currentTime);
-
-  useEffect(() => {)
+  useEffect(() => {
     return () => {
       if (hoverTimeoutRef.current) {
         clearTimeout(hoverTimeoutRef.current);
-      if (playTimeoutRef.current) {
-        clearTimeout(playTimeoutRef.current);
+      }
+    };
   }, []);
 
   return (
-    <div>
+    <div
       className={`group cursor-pointer ${className}`}
       onMouseEnter={handleMouseEnter}
-      onMouseLeave={handleMouseLeave} />
+      onMouseLeave={handleMouseLeave}
+    >
       <Link to={`/watch?v=${video.id}`} className="block">
-        <div className="relative bg-gray-100 rounded-lg overflow-hidden aspect-video">
+        <div className="relative bg-gray-100 rounded-lg overflow-hidden aspect-video" onMouseMove={handleMouseMove}>
           {/* Thumbnail */}
-          <img />
+          <img
             src={video.thumbnail}
             alt={video.title}
             className="w-full h-full object-cover"
- / />
-          
+          />
+
+          {/* Storyboard scrubbing when autoplay is off */}
+          {scrubFrame && (
+            <>
+              <StoryboardPreview frame={scrubFrame} className="absolute inset-0 !h-full" />
+              <div className="absolute bottom-0 left-0 h-1 bg-red-600" style={{ width: `${(scrubPosition ?? 0) * 100}%` }} />
+            </>
+          )}
+
           {/* Video overlay for autoplay */}
-          {isPlaying && ()
-            <video>
+          {isPlaying && (
+            <video
               ref={videoRef}
               className="absolute inset-0 w-full h-full object-cover"
               muted={isMuted}
-              onTimeUpdate={handleTimeUpdate}
               onMouseEnter={() => setShowControls(true)}
-              onMouseLeave={() => setShowControls(false)} />
+              onMouseLeave={() => setShowControls(false)}
+            >
               <source src={`/api/videos/${video.id}/preview`} type="video/mp4" />
             </video>
+          )}
+
           {/* Duration */}
           <div className="absolute bottom-2 right-2 bg-black bg-opacity-75 text-white text-xs px-1.5 py-0.5 rounded">
             {formatDuration(video.duration)}
           </div>
+
           {/* Video controls overlay */}
-          {showControls && isPlaying && ()
+          {showControls && isPlaying && (
             <div className="absolute inset-0 bg-black bg-opacity-25 flex items-center justify-center">
               <button
-          onClick={(e) => {
+                onClick={(e) => {
                   e.preventDefault();
                   setIsMuted(!isMuted);
+                }}
                 className="bg-black bg-opacity-50 text-white p-2 rounded-full hover:bg-opacity-75 transition-opacity"
               >
-                {isMuted ? '🔇' : '🔊', }
+                {isMuted ? '🔇' : '🔊'}
               </button>
             </div>
+          )}
         </div>
+
         {/* Video info */}
         <div className="mt-3 flex gap-3">
-          <img />
+          <img
             src={video.channel.avatar}
             alt={video.channel.name}
             className="w-9 h-9 rounded-full flex-shrink-0"
- / />
-          
+          />
+
           <div className="flex-1 min-w-0">
             <h3 className="text-sm font-medium line-clamp-2 text-gray-900 group-hover:text-gray-700">
               {video.title}
@@ -151,4 +200,7 @@ const HoverAutoplayVideoCard: React.FC<HoverAutoplayVideoCardProps> = ({ video,
         </div>
       </Link>
     </div>
+  );
+};
+
 export default HoverAutoplayVideoCard;
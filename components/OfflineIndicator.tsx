@@ -1,61 +1,93 @@
 import React, { FC, useState, useEffect } from 'react';
 
-import { ExclamationTriangleIcon, WifiIcon } from '@heroicons/react/24/outline';
+import { ArrowDownTrayIcon, ArrowPathIcon, ExclamationTriangleIcon, WifiIcon } from '@heroicons/react/24/outline';
+import { Link } from 'react-router-dom';
+
+import { useOfflineDownloads } from '../src/hooks/useOfflineDownloads';
+import { usePendingActions } from '../src/hooks/usePendingActions';
 
 interface OfflineIndicatorProps {
  className?: string;
+}
 
-const OfflineIndicator: FC<OfflineIndicatorProps> = ({ className = '' }: any) => {
+const OfflineIndicator: FC<OfflineIndicatorProps> = ({ className = '' }) => {
  const [isOnline, setIsOnline] = useState(navigator.onLine);
- const [showOfflineMessage, setShowOfflineMessage] = useState<boolean>(false);
+ const [showOfflineMessage, setShowOfflineMessage] = useState<boolean>(!navigator.onLine);
+ const { downloads } = useOfflineDownloads();
+ const availableOffline = downloads.filter(download => download.status === 'complete').length;
+ const pendingActions = usePendingActions();
 
- useEffect(() => {)
+ useEffect(() => {
  const handleOnline = () => {
  setIsOnline(true);
- setShowOfflineMessage(false);
+ };
 
  const handleOffline = () => {
  setIsOnline(false);
  setShowOfflineMessage(true);
+ };
 
- window.addEventListener('online', handleOnline as EventListener);
- window.addEventListener('offline', handleOffline as EventListener);
-
- // Initial check;
- setIsOnline(navigator.onLine);
- if (!navigator.onLine) {
- setShowOfflineMessage(true);
+ window.addEventListener('online', handleOnline);
+ window.addEventListener('offline', handleOffline);
 
  return () => {
- window.removeEventListener('online', handleOnline as EventListener);
- window.removeEventListener('offline', handleOffline as EventListener);
- }}, []);
+ window.removeEventListener('online', handleOnline);
+ window.removeEventListener('offline', handleOffline);
+ };
+ }, []);
 
- // Auto-hide offline message after 5 seconds when back online;
- useEffect(() => {)
+ // Auto-hide the "Back Online" message after 3 seconds
+ useEffect(() => {
  if (isOnline && showOfflineMessage) {
- const timer = setTimeout((() => {))
- setShowOfflineMessage(false);
- }) as any, 3000);
+ const timer = setTimeout(() => setShowOfflineMessage(false), 3000);
  return () => clearTimeout(timer);
+ }
  return undefined;
  }, [isOnline, showOfflineMessage]);
 
- if (isOnline && !showOfflineMessage) {
+ if (isOnline && !showOfflineMessage && !pendingActions) {
  return null;
+ }
+
+ const pendingBadge = pendingActions > 0 && (
+ <div
+ className="flex items-center space-x-1 px-3 py-1 bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200 rounded-full text-sm"
+ title="Likes, subscriptions, playlist changes and comments made offline are sent when you reconnect"
+ >
+ <ArrowPathIcon className={`w-4 h-4 ${isOnline ? 'animate-spin' : ''}`} />
+ <span>{pendingActions} {pendingActions === 1 ? 'change' : 'changes'} {isOnline ? 'syncing' : 'waiting to sync'}</span>
+ </div>
+ );
 
  return (
- <div className={`flex items-center space-x-2 ${className}`}>
- {!isOnline ? ()
- <div className={"fle}x items-center space-x-2 px-3 py-1 bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200 rounded-full text-sm">
- <ExclamationTriangleIcon className={"w}-4 h-4" />
- <span className={"font}-medium">Offline</span>
-// FIXED:  </div>
- ) : (;
- <div className={"fle}x items-center space-x-2 px-3 py-1 bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200 rounded-full text-sm">
- <WifiIcon className={"w}-4 h-4" />
- <span className={"font}-medium">Back Online</span>
-// FIXED:  </div>
-// FIXED:  </div>
-
-export default OfflineIndicator;
\ No newline at end of file
+ <div className={`flex items-center space-x-2 ${className}`} role="status">
+ {!isOnline ? (
+ <>
+ <div className="flex items-center space-x-2 px-3 py-1 bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200 rounded-full text-sm">
+ <ExclamationTriangleIcon className="w-4 h-4" />
+ <span className="font-medium">Offline</span>
+ </div>
+ {availableOffline > 0 && (
+ <Link
+ to="/library#downloads"
+ className="flex items-center space-x-1 px-3 py-1 bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 rounded-full text-sm hover:bg-gray-200 dark:hover:bg-gray-700"
+ >
+ <ArrowDownTrayIcon className="w-4 h-4" />
+ <span>{availableOffline} {availableOffline === 1 ? 'video' : 'videos'} available offline</span>
+ </Link>
+ )}
+ {pendingBadge}
+ </>
+ ) : showOfflineMessage ? (
+ <div className="flex items-center space-x-2 px-3 py-1 bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200 rounded-full text-sm">
+ <WifiIcon className="w-4 h-4" />
+ <span className="font-medium">Back Online</span>
+ </div>
+ ) : (
+ pendingBadge
+ )}
+ </div>
+ );
+};
+
+export default OfflineIndicator;
@@ -1,117 +1,145 @@
-import React, { useState, useEffect } from 'react';
+import React, { useMemo } from 'react';
+
+import type { HighlightSegment, SearchResult } from '../src/types/search';
 
 export interface OptimizedSearchResultsProps {
   query: string;
-  onResultSelect?: (result: any) => void;
-
+  results: SearchResult[];
+  total?: number;
+  loading?: boolean;
+  error?: Error | null;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  onResultSelect?: (result: SearchResult) => void;
 }
-const OptimizedSearchResults: React.FC<OptimizedSearchResultsProps> = ({ query, onResultSelect }) => {
-  const [results, setResults] = useState<any[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {)
-    if (!query) {
-      setResults([]);
-      return;
+/** Text with the words that matched the query marked */
+export const Highlighted: React.FC<{ segments: HighlightSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, i) =>
+      segment.match ? (
+        <mark key={i} className="bg-transparent font-semibold text-inherit">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={i}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
 
-    const searchResults = async () => {
-      setLoading(true);
-      setError(null);
-      
-      try {
-        // Mock search results - replace with actual API call
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        const mockResults = [;
-          {
-            id: '1',
-            type: 'video',
-            title: `Sample video for "${query}"`,
-            description: 'This is a sample video description',
-            thumbnail: 'https://via.placeholder.com/320x180',
-            duration: '10:30',
-            views: 15000,
-            uploadedAt: new Date().toISOString(),
-            channel: {
-              name: 'Sample Channel',
-              avatar: 'https://via.placeholder.com/32x32'
-          {
-            id: '2',
-            type: 'channel',
-            title: `Sample channel for "${query}"`,
-            description: 'This is a sample channel description',
-            avatar: 'https://via.placeholder.com/64x64',
-            subscribers: 50000;
-        
-        setResults(mockResults);
-      } catch (err) {
-        setError('Failed to search. Please try again.');
-      } finally {
-        setLoading(false);
+const formatDuration = (duration: string | number) => {
+  if (typeof duration === 'string') {
+    return duration;
+  }
+  const minutes = Math.floor(duration / 60);
+  return `${minutes}:${String(Math.round(duration % 60)).padStart(2, '0')}`;
+};
 
-    searchResults();
-  }, [query]);
+const formatViews = (views: string | number | undefined) => {
+  const count = typeof views === 'number' ? views : Number(String(views ?? 0).replace(/\D/g, ''));
+  return new Intl.NumberFormat(undefined, { notation: 'compact' }).format(count);
+};
+
+const OptimizedSearchResults: React.FC<OptimizedSearchResultsProps> = ({
+  query,
+  results,
+  total,
+  loading = false,
+  error = null,
+  hasMore = false,
+  onLoadMore,
+  onResultSelect,
+}) => {
+  // Cursor pages can overlap when the index changes between requests, so
+  // show each video once, keeping its first position.
+  const uniqueResults = useMemo(() => {
+    const seen = new Set<string>();
+    return results.filter(result => {
+      if (seen.has(result.id)) {
+        return false;
+      }
+      seen.add(result.id);
+      return true;
+    });
+  }, [results]);
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center py-8">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
-      </div>
   if (error) {
     return (
       <div className="text-center py-8">
-        <p className="text-red-600">{error}</p>
+        <p className="text-red-600">{error.message}</p>
       </div>
-  if (results.length === 0 && query) {
+    );
+  }
+
+  if (uniqueResults.length === 0) {
+    if (loading) {
+      return (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+        </div>
+      );
+    }
     return (
       <div className="text-center py-8">
-        <p className="text-gray-500">No results found for "{query}"</p>
+        <p className="text-gray-500">{query ? `No results found for "${query}"` : 'No videos match these filters'}</p>
+        <p className="mt-2 text-sm text-gray-400">Try fewer words, different filters, or removing excluded terms.</p>
       </div>
+    );
+  }
+
   return (
     <div className="space-y-4">
-      {results.map((result) => ())
-          <div
+      {total !== undefined && <p className="text-sm text-gray-500">About {total.toLocaleString()} results</p>}
+      {uniqueResults.map(result => (
+        <div
           key={result.id}
-          className="flex gap-4 p-4 hover:bg-gray-50 rounded-lg cursor-pointer"
+          role="button"
+          tabIndex={0}
+          className="flex gap-4 p-2 hover:bg-gray-50 dark:hover:bg-gray-800 rounded-lg cursor-pointer"
           onClick={() => onResultSelect?.(result)}
+          onKeyDown={event => event.key === 'Enter' && onResultSelect?.(result)}
         >
-          {result.type === 'video' ? ()
-            <>
-              <div className="flex-shrink-0">
-                <img />
-                  src={result.thumbnail}
-                  alt={result.title}
-                  className="w-40 h-24 object-cover rounded"
- / />
-              </div>
-              <div className="flex-1">
-                <h3 className="font-medium text-lg mb-1">{result.title}</h3>
-                <p className="text-sm text-gray-600 mb-2">{result.description}</p>
-                <div className="flex items-center gap-2 text-sm text-gray-500">
-                  <span>{result.views.toLocaleString()} views</span>
+          <div className="relative flex-shrink-0">
+            <img src={result.thumbnailUrl} alt="" className="w-64 aspect-video object-cover rounded-lg bg-gray-200" loading="lazy" />
+            <span className="absolute bottom-1 right-1 rounded bg-black/80 px-1 text-xs text-white">
+              {result.isLive ? 'LIVE' : formatDuration(result.duration)}
+            </span>
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="font-medium text-lg mb-1 line-clamp-2">
+              <Highlighted segments={result.highlights.title} />
+            </h3>
+            <div className="flex items-center gap-2 text-xs text-gray-500 mb-2">
+              <span>{formatViews(result.views)} views</span>
+              {(result.uploadedAt || result.publishedAt) && (
+                <>
                   <span>•</span>
-                  <span>{result.channel.name}</span>
-                </div>
-              </div>
-            < />
-          ) : (;
-            <>
-              <div className="flex-shrink-0">
-                <img />
-                  src={result.avatar}
-                  alt={result.title}
-                  className="w-16 h-16 rounded-full"
- / />
-              </div>
-              <div className="flex-1">
-                <h3 className="font-medium text-lg mb-1">{result.title}</h3>
-                <p className="text-sm text-gray-600 mb-2">{result.description}</p>
-                <p className="text-sm text-gray-500">
-                  {result.subscribers?.toLocaleString()} subscribers
-                </p>
-              </div>
-            < />
+                  <span>{new Date(result.uploadedAt || result.publishedAt || '').toLocaleDateString()}</span>
+                </>
+              )}
+            </div>
+            {result.channelName && <p className="text-xs text-gray-500 mb-2">{result.channelName}</p>}
+            <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
+              <Highlighted segments={result.highlights.description} />
+            </p>
+          </div>
         </div>
+      ))}
+      {hasMore && (
+        <div className="flex justify-center py-4">
+          <button
+            type="button"
+            onClick={onLoadMore}
+            disabled={loading}
+            className="rounded-full border border-gray-300 px-4 py-2 text-sm hover:bg-gray-100 disabled:opacity-50 dark:border-gray-600 dark:hover:bg-gray-800"
+          >
+            {loading ? 'Loading…' : 'Show more results'}
+          </button>
+        </div>
+      )}
     </div>
+  );
+};
+
 export default OptimizedSearchResults;
@@ -1,151 +1,232 @@
-import React, { FC, useState, useEffect, useCallback, memo } from 'react';
+import React, { useState, useEffect, memo } from 'react';
 
-import { performanceMonitor } from '../utils / performance';
+import { performanceMonitor } from '../utils/performanceMonitor';
 
-export interface PerformanceMetric {}
- name: string;,
+import type { PlaybackStats } from '../utils/adaptiveStreaming';
+
+export interface PerformanceMetric {
+ name: string;
  value: number;
- timestamp: number;,
- type: "render" | 'api' | 'user - interaction' | 'navigation';
+ timestamp: number;
+ type: 'render' | 'api' | 'user-interaction' | 'navigation';
+}
 
-export interface PerformanceDashboardProps {}
+export interface PerformanceDashboardProps {
  isVisible?: boolean;
- position?: 'top - right' | 'top - left' | 'bottom - right' | 'bottom - left';
-
-const PerformanceDashboard: React.FC < PerformanceDashboardProps> = memo(({, }))
+ position?: 'top-right' | 'top-left' | 'bottom-right' | 'bottom-left';
+ /** Buffer health from the adaptive streaming player, shown when provided */
+ playbackStats?: PlaybackStats | null;
+}
+
+const metricType = (name: string): PerformanceMetric['type'] => {
+ if (name.includes('render')) {
+ return 'render';
+ }
+ if (name.includes('api')) {
+ return 'api';
+ }
+ if (name.includes('click') || name.includes('hover')) {
+ return 'user-interaction';
+ }
+ return 'navigation';
+};
+
+const getTypeColor = (type: PerformanceMetric['type']) => {
+ switch (type) {
+ case 'render':
+ return 'text-blue-600';
+ case 'api':
+ return 'text-green-600';
+ case 'user-interaction':
+ return 'text-purple-600';
+ case 'navigation':
+ return 'text-orange-600';
+ default:
+ return 'text-gray-600';
+ }
+};
+
+const getPositionClasses = (position: NonNullable<PerformanceDashboardProps['position']>) => {
+ switch (position) {
+ case 'top-left':
+ return 'top-4 left-4';
+ case 'bottom-left':
+ return 'bottom-4 left-4';
+ case 'bottom-right':
+ return 'bottom-4 right-4';
+ default:
+ return 'top-4 right-4';
+ }
+};
+
+const bufferHealthColor = (health: PlaybackStats['bufferHealth']) => {
+ switch (health) {
+ case 'stalled':
+ return 'text-red-400';
+ case 'low':
+ return 'text-yellow-400';
+ default:
+ return 'text-green-400';
+ }
+};
+
+const PerformanceDashboard: React.FC<PerformanceDashboardProps> = memo(({
  isVisible = false,
- position = 'top - right' }) => {}
- const [metrics, setMetrics] = useState < PerformanceMetric[]>([]);
- const [isExpanded, setIsExpanded] = useState < boolean>(false);
+ position = 'top-right',
+ playbackStats }) => {
+ const [metrics, setMetrics] = useState<PerformanceMetric[]>([]);
+ const [isExpanded, setIsExpanded] = useState<boolean>(false);
 
- useEffect(() => {}) => {
- if (!isVisible) {}
+ useEffect(() => {
+ if (!isVisible) {
  return;
+ }
 
- const interval = setInterval((() => {}))
- const allMetrics = performanceMonitor.getMetrics();
- const formattedMetrics: PerformanceMetric[] = Object.entries(allMetrics).map(([name) as any, value]) => ({}) => {
- name,
- value: typeof value === 'number' ? value : 0,
- timestamp: Date.now(),
- type: name.includes('render') ? 'render' :;
- name.includes('api') ? 'api' :;
- name.includes('click') || name.includes('hover') ? 'user - interaction' : 'navigation' }));
-
- setMetrics(formattedMetrics.slice(-20)); // Keep last 20 metrics;
+ const interval = setInterval(() => {
+ const formattedMetrics: PerformanceMetric[] = performanceMonitor.getMetrics().map(metric => ({
+ name: metric.name,
+ value: typeof metric.value === 'number' ? metric.value : 0,
+ timestamp: metric.timestamp,
+ type: metricType(metric.name)
+ }));
+
+ setMetrics(formattedMetrics.slice(-20)); // Keep last 20 metrics
  }, 1000);
 
  return () => clearInterval(interval);
  }, [isVisible]);
 
- const getPositionClasses = () => {}
- switch (position) {}
- case 'top - left':
- return 'top - 4 left - 4';
- case 'bottom - left':
- return 'bottom - 4 left - 4';
- case 'bottom - right':
- return 'bottom - 4 right - 4';
- default: return 'top - 4 right - 4';
-
- const getTypeColor = (type: any) => {, }
- switch (type) {}
- case 'render':
- return 'text - blue - 600';
- case 'api':
- return 'text - green - 600';
- case 'user - interaction':
- return 'text - purple - 600';
- case 'navigation':
- return 'text - orange - 600';
- default: return 'text - gray - 600';
-
- const averageRenderTime = metrics;
- .filter((m) => m.type === 'render');
- .reduce((sum, m) => sum + m.value, 0) / Math.max(metrics.filter((m) => m.type === 'render').length, 1);
+ const renderMetrics = metrics.filter(m => m.type === 'render');
+ const averageRenderTime = renderMetrics.reduce((sum, m) => sum + m.value, 0) / Math.max(renderMetrics.length, 1);
 
- const apiCallsCount = metrics.filter((m) => m.type === 'api').length;
+ const apiCallsCount = metrics.filter(m => m.type === 'api').length;
 
- if (!isVisible) {}
+ if (!isVisible) {
  return null;
+ }
 
  return (
- <div className={`fixed ${getPositionClasses()} z - 50 font - mono text - xs`}>
- <div className={"b}g - black bg - opacity - 90 text - white rounded - lg p - 3 min - w - 64 shadow - lg">
+ <div className={`fixed ${getPositionClasses(position)} z-50 font-mono text-xs`}>
+ <div className="bg-black bg-opacity-90 text-white rounded-lg p-3 min-w-64 shadow-lg">
  {/* Header */}
- <div className={"fle}x items - center justify - between mb - 2">
- <h3 className={"fon}t - semibold">Performance Monitor</h3>
- <button />
-// FIXED:  onClick={() => setIsExpanded(!isExpanded: React.MouseEvent), }
-// FIXED:  className={"tex}t - gray - 300 hover:text - white"
+ <div className="flex items-center justify-between mb-2">
+ <h3 className="font-semibold">Performance Monitor</h3>
+ <button
+ onClick={() => setIsExpanded(!isExpanded)}
+ className="text-gray-300 hover:text-white"
  >
- {isExpanded ? '−' : '+', }
-// FIXED:  </button>
-// FIXED:  </div>
+ {isExpanded ? '−' : '+'}
+ </button>
+ </div>
 
  {/* Summary Stats */}
- <div className={"gri}d grid - cols - 2 gap - 2 mb - 3 text - xs">
- <div className={"b}g - blue - 900 bg - opacity - 50 p - 2 rounded">
- <div className={"tex}t - blue - 300">Avg Render</div>
-<div className={"fon}t - bold">{averageRenderTime.toFixed(1)}ms</div>
-// FIXED:  </div>
- <div className={"b}g - green - 900 bg - opacity - 50 p - 2 rounded">
- <div className={"tex}t - green - 300">API Calls</div>
-<div className={"fon}t - bold">{apiCallsCount}</div>
-// FIXED:  </div>
-// FIXED:  </div>
+ <div className="grid grid-cols-2 gap-2 mb-3 text-xs">
+ <div className="bg-blue-900 bg-opacity-50 p-2 rounded">
+ <div className="text-blue-300">Avg Render</div>
+ <div className="font-bold">{averageRenderTime.toFixed(1)}ms</div>
+ </div>
+ <div className="bg-green-900 bg-opacity-50 p-2 rounded">
+ <div className="text-green-300">API Calls</div>
+ <div className="font-bold">{apiCallsCount}</div>
+ </div>
+ </div>
+
+ {/* Playback */}
+ {playbackStats && (
+ <div className="mb-3 p-2 bg-gray-800 rounded">
+ <div className="flex justify-between">
+ <span className="text-gray-300">Buffer</span>
+ <span className={bufferHealthColor(playbackStats.bufferHealth)}>
+ {playbackStats.bufferAhead.toFixed(1)}s / {playbackStats.bufferTarget}s ({playbackStats.bufferHealth})
+ </span>
+ </div>
+ <div className="w-full bg-gray-700 rounded h-1 my-1">
+ <div
+ className="bg-green-500 h-1 rounded"
+ style={{ width: `${Math.min(100, (playbackStats.bufferAhead / playbackStats.bufferTarget) * 100)}%` }}
+ />
+ </div>
+ <div className="flex justify-between">
+ <span className="text-gray-300">Bandwidth</span>
+ <span>{(playbackStats.estimatedBandwidth / 1_000_000).toFixed(2)} Mbps</span>
+ </div>
+ <div className="flex justify-between">
+ <span className="text-gray-300">Rendition</span>
+ <span>
+ {playbackStats.currentRendition?.height ? `${playbackStats.currentRendition.height}p` : playbackStats.currentRendition?.id || '—'}
+ {playbackStats.autoQuality ? ' (auto)' : ''}
+ </span>
+ </div>
+ <div className="flex justify-between">
+ <span className="text-gray-300">Switches / stalls</span>
+ <span>
+ {playbackStats.switchCount} / {playbackStats.stallCount} ({(playbackStats.stallDuration / 1000).toFixed(1)}s)
+ </span>
+ </div>
+ <div className="flex justify-between">
+ <span className="text-gray-300">Dropped frames</span>
+ <span>
+ {playbackStats.droppedFrames} / {playbackStats.totalFrames}
+ </span>
+ </div>
+ </div>
+ )}
 
  {/* Detailed Metrics */}
- {isExpanded && (}) => {
- <div className={"spac}e - y - 1 max - h - 64 overflow - y - auto">
- <div className={"fon}t - semibold mb - 2 text - gray - 300">Recent Metrics:</div>
- {metrics.length === 0 ? (}) => {
- <div className={"tex}t - gray - 400">No metrics available</div>
- ) : (;
- metrics.slice().reverse().map((metric, index) => (;))
-          <div key={index} className={"fle}x justify - between items - center py - 1 border - b border - gray - 700">
- <span className={`${getTypeColor(metric.type)} truncate max - w - 32`}>
+ {isExpanded && (
+ <div className="space-y-1 max-h-64 overflow-y-auto">
+ <div className="font-semibold mb-2 text-gray-300">Recent Metrics:</div>
+ {metrics.length === 0 ? (
+ <div className="text-gray-400">No metrics available</div>
+ ) : (
+ metrics.slice().reverse().map(metric => (
+ <div key={`${metric.name}-${metric.timestamp}`} className="flex justify-between items-center py-1 border-b border-gray-700">
+ <span className={`${getTypeColor(metric.type)} truncate max-w-32`}>
  {metric.name}
-// FIXED:  </span>
- <span className={"tex}t - white font - mono">
- {metric.value.toFixed(1)}ms;
-// FIXED:  </span>
-// FIXED:  </div>
-// FIXED:  </div>
+ </span>
+ <span className="text-white font-mono">
+ {metric.value.toFixed(1)}ms
+ </span>
+ </div>
+ ))
+ )}
+ </div>
+ )}
 
  {/* Performance Tips */}
- {isExpanded && averageRenderTime > 100 && (}) => {
- <div className={"m}t - 3 p - 2 bg - yellow - 900 bg - opacity - 50 rounded">
- <div className={"tex}t - yellow - 300 font - semibold">⚠️ Performance Warning</div>
- <div className={"tex}t - yellow - 200 text - xs">
- Average render time is high. Consider:;
- <ul className={"lis}t - disc list - inside mt - 1">
- <li > Adding React.memo to components</li>
- <li > Using useCallback for event handlers</li>
- <li > Implementing virtual scrolling</li>
-// FIXED:  </ul>
-// FIXED:  </div>
-// FIXED:  </div>
+ {isExpanded && averageRenderTime > 100 && (
+ <div className="mt-3 p-2 bg-yellow-900 bg-opacity-50 rounded">
+ <div className="text-yellow-300 font-semibold">⚠️ Performance Warning</div>
+ <div className="text-yellow-200 text-xs">
+ Average render time is high. Consider:
+ <ul className="list-disc list-inside mt-1">
+ <li>Adding React.memo to components</li>
+ <li>Using useCallback for event handlers</li>
+ <li>Implementing virtual scrolling</li>
+ </ul>
+ </div>
+ </div>
+ )}
 
  {/* Controls */}
- <div className={"fle}x justify - between mt - 3 pt - 2 border - t border - gray - 700">
- <button />
-// FIXED:  onClick={() => performanceMonitor.clearMetrics(), }
-// FIXED:  className={"tex}t - xs text - red - 400 hover:text - red - 300"
+ <div className="flex justify-between mt-3 pt-2 border-t border-gray-700">
+ <button
+ onClick={() => performanceMonitor.clearMetrics()}
+ className="text-xs text-red-400 hover:text-red-300"
  >
- Clear;
-// FIXED:  </button>
- <button />
-// FIXED:  onClick={() => {, }
- const metrics = performanceMonitor.getMetrics();
- (console).table(metrics);
-// FIXED:  className={"tex}t - xs text - blue - 400 hover:text - blue - 300"
+ Clear
+ </button>
+ <button
+ onClick={() => console.table(performanceMonitor.getMetrics())}
+ className="text-xs text-blue-400 hover:text-blue-300"
  >
- Log Report;
-// FIXED:  </button>
-// FIXED:  </div>
-// FIXED:  </div>
-// FIXED:  </div>
+ Log Report
+ </button>
+ </div>
+ </div>
+ </div>
+ );
+});
 
 PerformanceDashboard.displayName = 'PerformanceDashboard';
 
@@ -0,0 +1,34 @@
+import React from 'react';
+
+import type { RecommendationFeedbackAction } from '../src/features/recommendations/hooks/useRecommendations';
+
+interface RecommendationFeedbackToastProps {
+ feedback: RecommendationFeedbackAction | null;
+ onUndo: () => void;
+ onDismiss: () => void;
+}
+
+/** Confirms "Not interested" feedback, with a way to take it back */
+const RecommendationFeedbackToast: React.FC<RecommendationFeedbackToastProps> = ({ feedback, onUndo, onDismiss }) => {
+ if (!feedback) {
+ return null;
+ }
+
+ const message = feedback.type === 'not-interested'
+ ? 'Video removed. We’ll tune your recommendations.'
+ : `We won’t recommend videos from ${feedback.video.channelName || 'this channel'} anymore.`;
+
+ return (
+ <div role="status" className="fixed bottom-6 left-6 z-50 flex items-center gap-4 rounded-lg bg-gray-900 px-4 py-3 text-sm text-white shadow-lg dark:bg-gray-100 dark:text-gray-900">
+ <span>{message}</span>
+ <button type="button" onClick={onUndo} className="font-medium text-blue-400 hover:text-blue-300 dark:text-blue-600">
+ Undo
+ </button>
+ <button type="button" onClick={onDismiss} aria-label="Dismiss" className="text-gray-400 hover:text-white dark:hover:text-gray-900">
+ ×
+ </button>
+ </div>
+ );
+};
+
+export default RecommendationFeedbackToast;
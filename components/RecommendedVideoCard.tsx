@@ -0,0 +1,152 @@
+import React, { memo, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { EllipsisVerticalIcon, EyeSlashIcon, NoSymbolIcon } from '@heroicons/react/24/outline';
+
+import type { RecommendationReason, RecommendedVideo } from '../src/types/recommendation';
+
+interface RecommendedVideoCardProps {
+ video: RecommendedVideo;
+ /** `compact` for the watch page sidebar, `grid` for the home page */
+ layout?: 'compact' | 'grid';
+ /** Feedback actions are only offered when these are given */
+ onNotInterested?: (video: RecommendedVideo) => void;
+ onBlockChannel?: (video: RecommendedVideo) => void;
+ onSelect?: (video: RecommendedVideo) => void;
+}
+
+const REASON_LABELS: Record<RecommendationReason, string> = {
+ similar: 'Similar to what you watch',
+ 'watched-together': 'Viewers also watched',
+ channel: 'From a channel you watch',
+ new: 'New',
+ popular: 'Popular'
+};
+
+const formatViews = (views: RecommendedVideo['views']) => {
+ const count = typeof views === 'string' ? Number(views.replace(/\D/g, '')) : views;
+ return count === undefined || Number.isNaN(count)
+ ? null
+ : `${new Intl.NumberFormat(undefined, { notation: 'compact' }).format(count)} views`;
+};
+
+const formatDuration = (duration: RecommendedVideo['duration']) =>
+ typeof duration === 'number' ? `${Math.floor(duration / 60)}:${String(duration % 60).padStart(2, '0')}` : duration;
+
+/**
+ * A recommended video with a menu to say "Not interested" or "Don't
+ * recommend channel". The menu closes on Escape or a click elsewhere.
+ */
+const RecommendedVideoCard: React.FC<RecommendedVideoCardProps> = ({
+ video,
+ layout = 'compact',
+ onNotInterested,
+ onBlockChannel,
+ onSelect
+}) => {
+ const [menuOpen, setMenuOpen] = useState(false);
+ const menuRef = useRef<HTMLDivElement>(null);
+ const compact = layout === 'compact';
+ const href = `/watch?v=${encodeURIComponent(video.id)}`;
+ const duration = video.isLive ? 'LIVE' : formatDuration(video.duration);
+ const hasMenu = Boolean(onNotInterested || onBlockChannel);
+
+ useEffect(() => {
+ if (!menuOpen) {
+ return;
+ }
+ const close = (event: MouseEvent | KeyboardEvent) => {
+ if (event instanceof KeyboardEvent ? event.key === 'Escape' : !menuRef.current?.contains(event.target as Node)) {
+ setMenuOpen(false);
+ }
+ };
+ document.addEventListener('mousedown', close);
+ document.addEventListener('keydown', close);
+ return () => {
+ document.removeEventListener('mousedown', close);
+ document.removeEventListener('keydown', close);
+ };
+ }, [menuOpen]);
+
+ const handleClick = (event: React.MouseEvent) => {
+ if (onSelect) {
+ event.preventDefault();
+ onSelect(video);
+ }
+ };
+
+ const choose = (action?: (video: RecommendedVideo) => void) => {
+ setMenuOpen(false);
+ action?.(video);
+ };
+
+ return (
+ <div className={`group relative flex ${compact ? 'gap-2 p-1' : 'flex-col gap-3'} rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800`}>
+ <Link to={href} onClick={handleClick} className="relative flex-shrink-0">
+ <img
+ src={video.thumbnailUrl}
+ alt=""
+ loading="lazy"
+ className={`${compact ? 'w-[168px] h-[94px] rounded-md' : 'w-full aspect-video rounded-xl'} object-cover bg-gray-200 dark:bg-gray-700`}
+ />
+ {duration && (
+ <span className="absolute bottom-1 right-1 rounded bg-black/80 px-1 text-xs text-white">{duration}</span>
+ )}
+ </Link>
+
+ <div className={`flex flex-1 min-w-0 gap-3 ${compact ? '' : 'px-1 pb-2'}`}>
+ {!compact && video.channelAvatar && (
+ <img src={video.channelAvatar} alt="" className="w-9 h-9 rounded-full flex-shrink-0" loading="lazy" />
+ )}
+ <Link to={href} onClick={handleClick} className="flex-1 min-w-0 pr-6">
+ <p className={`${compact ? 'text-sm' : 'text-base'} font-medium text-gray-900 dark:text-white line-clamp-2`}>{video.title}</p>
+ {video.channelName && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 truncate">{video.channelName}</p>}
+ <p className="text-xs text-gray-500 dark:text-gray-400">{formatViews(video.views)}</p>
+ <p className="text-xs text-gray-400 dark:text-gray-500">{REASON_LABELS[video.reason]}</p>
+ </Link>
+ </div>
+
+ {hasMenu && (
+ <div ref={menuRef} className={`absolute right-0 ${compact ? 'top-1' : 'bottom-2'}`}>
+ <button
+ type="button"
+ aria-label="More actions"
+ aria-haspopup="menu"
+ aria-expanded={menuOpen}
+ onClick={() => setMenuOpen(open => !open)}
+ className="p-1 rounded-full text-gray-600 dark:text-gray-300 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-gray-200 dark:hover:bg-gray-700"
+ >
+ <EllipsisVerticalIcon className="w-5 h-5" />
+ </button>
+ {menuOpen && (
+ <div role="menu" className="absolute right-0 z-20 mt-1 w-56 rounded-lg bg-white dark:bg-gray-800 py-2 shadow-lg ring-1 ring-black/10">
+ {onNotInterested && (
+ <button
+ type="button"
+ role="menuitem"
+ onClick={() => choose(onNotInterested)}
+ className="flex w-full items-center gap-3 px-4 py-2 text-left text-sm text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700"
+ >
+ <EyeSlashIcon className="w-5 h-5" />
+ Not interested
+ </button>
+ )}
+ {onBlockChannel && video.channelId && (
+ <button
+ type="button"
+ role="menuitem"
+ onClick={() => choose(onBlockChannel)}
+ className="flex w-full items-center gap-3 px-4 py-2 text-left text-sm text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700"
+ >
+ <NoSymbolIcon className="w-5 h-5" />
+ Don&apos;t recommend channel
+ </button>
+ )}
+ </div>
+ )}
+ </div>
+ )}
+ </div>
+ );
+};
+
+export default memo(RecommendedVideoCard);
@@ -1,221 +1,309 @@
+import React, { useMemo } from 'react';
+
+import { BellIcon } from '@heroicons/react/24/outline';
 import { Link } from 'react-router-dom';
-import React, { FC, type React } from 'react';
-import type { Video } from '../types.ts';
-import type { Channel } from '../types.ts';
-import { Link } from 'react - router - dom';
 
-import { BellIcon } from '@heroicons / react / 24 / outline';
+import { getChapterAt, parseChapters } from '../utils/chapterParser';
+import { formatCount } from '../utils/numberUtils';
+import { formatTime } from '../utils/playerUtils';
+
+import { SummarizeIcon } from './icons/SummarizeIcon';
 
-import { formatCount } from '../utils / numberUtils';
+import type { VideoChapter } from '../utils/playerUtils';
 
-import { SummarizeIcon } from './icons / SummarizeIcon';
-export interface Channel {}
- id: string;,
+export interface Channel {
+ id: string;
  name: string;
- avatarUrl: string;,
- subscriberCount: string; isVerified: boolean;
+ avatarUrl: string;
+ subscriberCount: string;
+ isVerified: boolean;
+}
 
-export interface Video {}
- id: string;,
+export interface Video {
+ id: string;
  title: string;
- description: string;,
- views: string; uploadedAt: string;
+ description: string;
+ views: string;
+ uploadedAt: string;
+}
 
-export interface RefactoredVideoDescriptionProps {}
- video: Video;,
+export interface RefactoredVideoDescriptionProps {
+ video: Video;
  channel: Channel | null;
- isSubscribed: boolean;,
+ isSubscribed: boolean;
  showFullDescription: boolean;
  summary?: string;
  summaryError?: string;
- isSummarizing: boolean;,
+ isSummarizing: boolean;
  canSummarize: boolean;
- onSubscribe: () => void;,
- onToggleDescription: () => void; onSummarizeDescription: () => void;
+ onSubscribe: () => void;
+ onToggleDescription: () => void;
+ onSummarizeDescription: () => void;
+ /** Overrides the chapters parsed from the description */
+ chapters?: VideoChapter[];
+ /** Playback position, used to highlight the current chapter */
+ currentTime?: number;
+ /** Enables the chapter list; called with the chapter start in seconds */
+ onSeekTo?: (seconds: number) => void;
+}
 
 /**
- * Refactored Video Description Component;
+ * Refactored Video Description Component
  *
- * This component demonstrates improved patterns: * - Extracted reusable sub - components;
- * - Better separation of concerns;
- * - Consistent styling patterns;
- * - Improved accessibility;
- * - Cleaner component composition;
+ * This component demonstrates improved patterns:
+ * - Extracted reusable sub-components
+ * - Better separation of concerns
+ * - Consistent styling patterns
+ * - Improved accessibility
+ * - Cleaner component composition
  */
 
 // Reusable Channel Info Component
-export interface ChannelInfoProps {}
- channel: Channel | null;,
- isSubscribed: boolean; onSubscribe: () => void;
+export interface ChannelInfoProps {
+ channel: Channel | null;
+ isSubscribed: boolean;
+ onSubscribe: () => void;
+}
 
-const ChannelInfo: React.FC < ChannelInfoProps> = ({ channel, isSubscribed, onSubscribe }: any) => {}
+const ChannelInfo: React.FC<ChannelInfoProps> = ({ channel, isSubscribed, onSubscribe }) => {
  const channelLink = channel ? `/channel/${encodeURIComponent(channel.name)}` : '#';
 
  return (
- <div className={"fle}x items - center justify - between mb - 4">
- <div className={"fle}x items - center space - x - 3">
- <Link to={channelLink} className={"fle}x - shrink - 0" />
- <img;>
-// FIXED:  src={channel ? .avatarUrl || 'https : //picsum.photos / seed / defaultChannel / 40 / 40', }
-// FIXED:  alt={`${channel?.name || 'Unknown'} channel avatar`, }
-// FIXED:  className="w - 10 h - 10 rounded - full object - cover ring - 2 ring - gray - 200 dark:ring - gray - 700" /> />
-// FIXED:  </Link>
-
- <div className={"mi}n - w - 0 flex - grow">
- <Link;>
+ <div className="flex items-center justify-between mb-4">
+ <div className="flex items-center space-x-3">
+ <Link to={channelLink} className="flex-shrink-0">
+ <img
+ src={channel?.avatarUrl || 'https://picsum.photos/seed/defaultChannel/40/40'}
+ alt={`${channel?.name || 'Unknown'} channel avatar`}
+ className="w-10 h-10 rounded-full object-cover ring-2 ring-gray-200 dark:ring-gray-700"
+ />
+ </Link>
+
+ <div className="min-w-0 flex-grow">
+ <Link
  to={channelLink}
-// FIXED:  className={"tex}t - sm font - semibold text - gray - 900 dark:text - gray - 100 hover:text - blue - 600 dark:hover:text - blue - 400 transition - colors block truncate" />
+ className="text-sm font-semibold text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400 transition-colors block truncate"
+ >
  {channel?.name || 'Unknown Channel'}
- {channel?.isVerified && (}) => {
- <span className={"m}l - 1 text - blue - 500" title="Verified channel">✓</span>
-// FIXED:  </Link>
- <p className={"tex}t - xs text - gray - 600 dark:text - gray - 400">
- {channel?.subscriberCount}
- ? `${formatCount(parseInt(channel.subscriberCount.replace(/[^0 - 9]/g, ''), 10))} subscribers`;
- : 'No subscriber data';
-// FIXED:  </p>
-// FIXED:  </div>
-// FIXED:  </div>
-
- <div className={"fle}x items - center space - x - 2">
+ {channel?.isVerified && (
+ <span className="ml-1 text-blue-500" title="Verified channel">✓</span>
+ )}
+ </Link>
+ <p className="text-xs text-gray-600 dark:text-gray-400">
+ {channel?.subscriberCount
+ ? `${formatCount(parseInt(channel.subscriberCount.replace(/[^0-9]/g, ''), 10))} subscribers`
+ : 'No subscriber data'}
+ </p>
+ </div>
+ </div>
+
+ <div className="flex items-center space-x-2">
  <SubscribeButton isSubscribed={isSubscribed} onSubscribe={onSubscribe} />
  {isSubscribed && <NotificationButton />}
-// FIXED:  </div>
-// FIXED:  </div>
+ </div>
+ </div>
+ );
+};
 
 // Reusable Subscribe Button Component
-export interface SubscribeButtonProps {}
- isSubscribed: boolean; onSubscribe: () => void;
+export interface SubscribeButtonProps {
+ isSubscribed: boolean;
+ onSubscribe: () => void;
+}
 
-const SubscribeButton: React.FC < SubscribeButtonProps> = ({ isSubscribed, onSubscribe }: any) => {}
+const SubscribeButton: React.FC<SubscribeButtonProps> = ({ isSubscribed, onSubscribe }) => {
  return (
- <button />
-// FIXED:  onClick={(e: React.MouseEvent) => onSubscribe(e), }
-// FIXED:  className={`px - 4 py - 2 rounded - full text - sm font - medium transition - all duration - 200 transform hover:scale - 105 ${, }
- isSubscribed;
- ? 'bg - gray - 200 dark:bg - gray - 700 text - gray - 800 dark:text - gray - 200 hover:bg - gray - 300 dark:hover:bg - gray - 600';
- : 'bg - red - 600 text - white hover:bg - red - 700 shadow - lg hover:shadow - xl'
+ <button
+ onClick={onSubscribe}
+ className={`px-4 py-2 rounded-full text-sm font-medium transition-all duration-200 transform hover:scale-105 ${
+ isSubscribed
+ ? 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'
+ : 'bg-red-600 text-white hover:bg-red-700 shadow-lg hover:shadow-xl'
  }`}
-// FIXED:  aria - pressed={isSubscribed, }
+ aria-pressed={isSubscribed}
  >
- {isSubscribed ? 'Subscribed' : 'Subscribe', }
-// FIXED:  </button>
+ {isSubscribed ? 'Subscribed' : 'Subscribe'}
+ </button>
+ );
+};
 
-// Reusable Notification Button Component;
-const NotificationButton: React.FC = () => {, }
+// Reusable Notification Button Component
+const NotificationButton: React.FC = () => {
  return (
- <button>
-// FIXED:  className="p - 2 rounded - full hover:bg - gray - 200 dark:hover:bg - gray - 700 text - gray - 700 dark:text - gray - 300 transition - colors"
-// FIXED:  aria - label="Manage notifications for this channel"
- title="Notifications" />
- <BellIcon className="w - 5 h - 5" />
-// FIXED:  </button>
+ <button
+ className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 transition-colors"
+ aria-label="Manage notifications for this channel"
+ title="Notifications"
+ >
+ <BellIcon className="w-5 h-5" />
+ </button>
+ );
+};
 
 // Reusable Description Content Component
-export interface DescriptionContentProps {}
- video: Video;,
- showFullDescription: boolean; onToggleDescription: () => void;
+export interface DescriptionContentProps {
+ video: Video;
+ showFullDescription: boolean;
+ onToggleDescription: () => void;
+}
 
-const DescriptionContent: React.FC < DescriptionContentProps> = ({, }) => {
+const DescriptionContent: React.FC<DescriptionContentProps> = ({
  video,
  showFullDescription,
- onToggleDescription }) => {}
+ onToggleDescription }) => {
  const shouldShowToggle = video.description.length > 150 || video.description.includes('\n');
 
  return (
- <div className={"spac}e - y - 2">
+ <div className="space-y-2">
  {/* Video Metadata */}
- <div className={"tex}t - sm font - medium text - gray - 800 dark:text - gray - 200">
- {video.uploadedAt} • {video.views.split(' ')[0]} views;
-// FIXED:  </div>
+ <div className="text-sm font-medium text-gray-800 dark:text-gray-200">
+ {video.uploadedAt} • {video.views.split(' ')[0]} views
+ </div>
 
  {/* Description Text */}
- <div>
-// FIXED:  className={`text - gray - 700 dark:text - gray - 300 whitespace - pre - wrap leading - relaxed cursor - pointer transition - all duration - 300 ${, }
- !showFullDescription ? 'max - h - 20 overflow - hidden' : ''
- }`} />
-// FIXED:  onClick={(e: React.MouseEvent) => onToggleDescription(e), }
- role="button";
+ <div
+ className={`text-gray-700 dark:text-gray-300 whitespace-pre-wrap leading-relaxed cursor-pointer transition-all duration-300 ${
+ !showFullDescription ? 'max-h-20 overflow-hidden' : ''
+ }`}
+ onClick={onToggleDescription}
+ role="button"
  tabIndex={0}
- onKeyDown={(e: any) => {, }
- if (e.key === 'Enter' || e.key === ' ') {}
+ onKeyDown={(e) => {
+ if (e.key === 'Enter' || e.key === ' ') {
  e.preventDefault();
  onToggleDescription();
-// FIXED:  aria - expanded={showFullDescription, }
-// FIXED:  aria - controls="video - description - content"
+ }
+ }}
+ aria-expanded={showFullDescription}
+ aria-controls="video-description-content"
  >
- <div className={"tex}t - sm" id="video - description - content">
+ <div className="text-sm" id="video-description-content">
  {video.description}
-// FIXED:  </div>
-// FIXED:  </div>
+ </div>
+ </div>
 
  {/* Show More / Less Button */}
- {shouldShowToggle && (}) => {
- <button />
-// FIXED:  onClick={(e: React.MouseEvent) => onToggleDescription(e), }
-// FIXED:  className={"tex}t - gray - 800 dark:text - gray - 200 hover:text - blue - 600 dark:hover:text - blue - 400 font - semibold text - sm transition - colors"
+ {shouldShowToggle && (
+ <button
+ onClick={onToggleDescription}
+ className="text-gray-800 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400 font-semibold text-sm transition-colors"
  >
- {showFullDescription ? 'Show less' : '...Show more', }
-// FIXED:  </button>
-// FIXED:  </div>
+ {showFullDescription ? 'Show less' : '...Show more'}
+ </button>
+ )}
+ </div>
+ );
+};
+
+// Reusable Chapter List Component
+export interface ChapterListProps {
+ chapters: VideoChapter[];
+ currentTime?: number;
+ onSeekTo: (seconds: number) => void;
+}
+
+const ChapterList: React.FC<ChapterListProps> = ({ chapters, currentTime, onSeekTo }) => {
+ const currentChapter = currentTime === undefined ? null : getChapterAt(chapters, currentTime);
+
+ return (
+ <nav aria-label="Chapters" className="space-y-2">
+ <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Chapters</h3>
+ <ol className="flex space-x-3 overflow-x-auto pb-2">
+ {chapters.map((chapter, index) => {
+ const isCurrent = chapter === currentChapter;
+ return (
+ <li key={chapter.start} className="flex-shrink-0 w-40">
+ <button
+ onClick={() => onSeekTo(chapter.start)}
+ className={`w-full text-left rounded-lg p-2 transition-colors ${
+ isCurrent
+ ? 'bg-blue-100 dark:bg-blue-900/40 ring-1 ring-blue-400'
+ : 'bg-white dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+ }`}
+ aria-current={isCurrent ? 'step' : undefined}
+ >
+ {chapter.thumbnailUrl && (
+ <img src={chapter.thumbnailUrl} alt="" className="w-full aspect-video object-cover rounded mb-2" />
+ )}
+ <span className="block text-xs text-gray-500 dark:text-gray-400">
+ {index + 1}. {formatTime(chapter.start)}
+ </span>
+ <span className="block text-sm font-medium text-gray-900 dark:text-gray-100 line-clamp-2">
+ {chapter.title}
+ </span>
+ </button>
+ </li>
+ );
+ })}
+ </ol>
+ </nav>
+ );
+};
 
 // Reusable AI Summary Section Component
-export interface AISummarySectionProps {}
- canSummarize: boolean;,
+export interface AISummarySectionProps {
+ canSummarize: boolean;
  isSummarizing: boolean;
  summary?: string;
- summaryError?: string; onSummarizeDescription: () => void;
+ summaryError?: string;
+ onSummarizeDescription: () => void;
+}
 
-const AISummarySection: React.FC < AISummarySectionProps> = ({, }) => {
+const AISummarySection: React.FC<AISummarySectionProps> = ({
  canSummarize,
  isSummarizing,
  summary,
  summaryError,
- onSummarizeDescription }) => {}
- if (!canSummarize) {}
-return null;
+ onSummarizeDescription }) => {
+ if (!canSummarize) {
+ return null;
+ }
 
  return (
- <div className={"spac}e - y - 3">
+ <div className="space-y-3">
  {/* Summarize Button */}
- <button />
-// FIXED:  onClick={(e: React.MouseEvent) => onSummarizeDescription(e), }
-// FIXED:  disabled={isSummarizing, }
-// FIXED:  className={"fle}x items - center space - x - 2 bg - gradient - to - r from - blue - 500 / 10 to - purple - 500 / 10 hover:from - blue - 500 / 20 hover:to - purple - 500 / 20 text - blue - 700 dark:text - blue - 300 px - 4 py - 2.5 rounded - full text - sm font - medium transition - all duration - 200 disabled:opacity - 60 disabled:cursor - not - allowed transform hover:scale - 105"
-// FIXED:  aria - label="Summarize video description with AI"
- title="Summarize with AI";
+ <button
+ onClick={onSummarizeDescription}
+ disabled={isSummarizing}
+ className="flex items-center space-x-2 bg-gradient-to-r from-blue-500/10 to-purple-500/10 hover:from-blue-500/20 hover:to-purple-500/20 text-blue-700 dark:text-blue-300 px-4 py-2.5 rounded-full text-sm font-medium transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed transform hover:scale-105"
+ aria-label="Summarize video description with AI"
+ title="Summarize with AI"
  >
- <SummarizeIcon className="w - 5 h - 5" />
+ <SummarizeIcon className="w-5 h-5" />
  <span>{isSummarizing ? 'Summarizing...' : '✨ Summarize Description'}</span>
-// FIXED:  </button>
+ </button>
 
  {/* Error State */}
- {summaryError && (}) => {
- <div className="p - 3 bg - red - 50 dark:bg - red - 900 / 30 border border - red - 200 dark:border - red - 700 / 50 rounded - lg" role="alert">
- <div className={"fle}x items - start space - x - 2">
- <span className={"tex}t - red - 500 text - lg">⚠️</span>
+ {summaryError && (
+ <div className="p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-700/50 rounded-lg" role="alert">
+ <div className="flex items-start space-x-2">
+ <span className="text-red-500 text-lg">⚠️</span>
  <div>
- <p className={"tex}t - sm font - medium text - red - 800 dark:text - red - 200">Error</p>
- <p className={"tex}t - sm text - red - 700 dark:text - red - 300">{summaryError}</p>
-// FIXED:  </div>
-// FIXED:  </div>
-// FIXED:  </div>
+ <p className="text-sm font-medium text-red-800 dark:text-red-200">Error</p>
+ <p className="text-sm text-red-700 dark:text-red-300">{summaryError}</p>
+ </div>
+ </div>
+ </div>
+ )}
 
  {/* Summary Display */}
- {summary && (}) => {
- <div className="p - 4 bg - gradient - to - r from - blue - 50 to - purple - 50 dark:from - blue - 900 / 40 dark:to - purple - 900 / 40 border border - blue - 200 dark:border - blue - 700 / 60 rounded - lg">
- <h3 className={"tex}t - sm font - semibold text - blue - 800 dark:text - blue - 200 mb - 2 flex items - center">
- <SummarizeIcon className="w - 5 h - 5 mr - 2 text - blue - 600 dark:text - blue - 400" />
- AI Generated Summary;
-// FIXED:  </h3>
- <p className={"tex}t - sm text - gray - 700 dark:text - gray - 200 leading - relaxed whitespace - pre - wrap">
+ {summary && (
+ <div className="p-4 bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-900/40 dark:to-purple-900/40 border border-blue-200 dark:border-blue-700/60 rounded-lg">
+ <h3 className="text-sm font-semibold text-blue-800 dark:text-blue-200 mb-2 flex items-center">
+ <SummarizeIcon className="w-5 h-5 mr-2 text-blue-600 dark:text-blue-400" />
+ AI Generated Summary
+ </h3>
+ <p className="text-sm text-gray-700 dark:text-gray-200 leading-relaxed whitespace-pre-wrap">
  {summary}
-// FIXED:  </p>
-// FIXED:  </div>
-// FIXED:  </div>
+ </p>
+ </div>
+ )}
+ </div>
+ );
+};
 
-// Main Refactored Component;
-const RefactoredVideoDescription: React.FC < RefactoredVideoDescriptionProps> = ({, }) => {
+// Main Refactored Component
+const RefactoredVideoDescription: React.FC<RefactoredVideoDescriptionProps> = ({
  video,
  channel,
  isSubscribed,
@@ -226,29 +314,49 @@ const RefactoredVideoDescription: React.FC < RefactoredVideoDescriptionProps> =
  canSummarize,
  onSubscribe,
  onToggleDescription,
- onSummarizeDescription }) => {}
+ onSummarizeDescription,
+ chapters,
+ currentTime,
+ onSeekTo }) => {
+ const videoChapters = useMemo(
+ () => chapters ?? parseChapters(video.description).chapters,
+ [chapters, video.description]);
+
  return (
- <div className={"b}g - gray - 100 dark:bg - gray - 800 rounded - xl p - 4 mt - 4 shadow - sm border border - gray - 200 dark:border - gray - 700">
+ <div className="bg-gray-100 dark:bg-gray-800 rounded-xl p-4 mt-4 shadow-sm border border-gray-200 dark:border-gray-700">
  {/* Channel Information */}
- <ChannelInfo;>
+ <ChannelInfo
  channel={channel}
  isSubscribed={isSubscribed}
- onSubscribe={onSubscribe} />; />
+ onSubscribe={onSubscribe}
+ />
 
  {/* Video Description */}
- <DescriptionContent;>
+ <DescriptionContent
  video={video}
  showFullDescription={showFullDescription}
- onToggleDescription={onToggleDescription} />; />
+ onToggleDescription={onToggleDescription}
+ />
+
+ {/* Chapters */}
+ {onSeekTo && videoChapters.length > 0 && (
+ <div className="mt-4">
+ <ChapterList chapters={videoChapters} {...(currentTime !== undefined && { currentTime })} onSeekTo={onSeekTo} />
+ </div>
+ )}
 
  {/* AI Summary Section */}
- <div className={"m}t - 4">
- <AISummarySection;>
+ <div className="mt-4">
+ <AISummarySection
  canSummarize={canSummarize}
  isSummarizing={isSummarizing}
  summary={summary || ''}
  summaryError={summaryError || ''}
- onSummarizeDescription={onSummarizeDescription} />; />
-// FIXED:  </div>
-// FIXED:  </div>
+ onSummarizeDescription={onSummarizeDescription}
+ />
+ </div>
+ </div>
+ );
+};
+
 export default RefactoredVideoDescription;
@@ -1,208 +1,199 @@
+import React, { memo, useCallback, useEffect, useId, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import React, { MouseEvent, ChangeEvent, FormEvent, FC, useState, useEffect, useCallback, useRef, memo } from 'react';
-import { useNavigate } from 'react - router - dom';
-
-import { XIcon as XMarkSolidIcon } from '@heroicons / react / 24 / solid'; // For remove button;
-const XIconSolid = XMarkSolidIcon;
-
-import { getSearchSuggestions, saveRecentSearch, getRecentSearches, removeRecentSearch, clearAllRecentSearches } from '../services / realVideoService';
-
-import ClockIcon from './icons / ClockIcon'; // For recent searches;
-import SearchIcon from './icons / SearchIcon';
-import SearchSuggestions from 'SearchSuggestions';
-
-const SearchBar: React.FC = memo(() => {, }) => {
- const [query, setQuery] = useState < string>('');
- const [suggestions, setSuggestions] = useState < string[]>([]);
- const [recentSearches, setRecentSearches] = useState < string[]>([]);
- const [showSuggestions, setShowSuggestions] = useState < boolean>(false);
- const [showRecentSearches, setShowRecentSearches] = useState < boolean>(false);
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+
+import SearchSuggestions, { suggestionOptionId } from './SearchSuggestions';
+import { useAuth } from '../contexts/AuthContext';
+import { useAppStore } from '../store';
+import { searchSuggestionService } from '../src/features/search/services/searchSuggestionService';
+import type { SearchSuggestion } from '../src/types/search';
+
+// Wait for a pause in typing before asking for suggestions
+const SUGGEST_DEBOUNCE_MS = 150;
+
+/**
+ * Search box with autocomplete. Suggestions come from the user's search
+ * history, trending queries and video titles; with the box empty it shows
+ * recent and trending searches.
+ *
+ * Keyboard: Up/Down move through suggestions (previewing each in the box),
+ * Enter searches for the highlighted one, Escape closes the list and
+ * Shift+Delete removes a highlighted history entry.
+ */
+const SearchBar: React.FC = memo(() => {
  const navigate = useNavigate();
- const searchBarRef = useRef < HTMLDivElement>(null);
- const inputRef = useRef < HTMLInputElement>(null);
-
- const loadRecentSearches = useCallback(async (): Promise<any> < void> => {, }) => {
- const fetchedRecent = await getRecentSearches();
- setRecentSearches(fetchedRecent);
- if (fetchedRecent.length > 0) {}
- setShowRecentSearches(true);
- setShowSuggestions(false); // Ensure suggestions are hidden;
- } else {}
- setShowRecentSearches(false);
+ const listId = useId();
+ const inputRef = useRef<HTMLInputElement>(null);
+ const containerRef = useRef<HTMLDivElement>(null);
+
+ const userId = useAuth().user?.id ?? null;
+ const suggestions = useAppStore(state => state.search.suggestions);
+ const setSuggestions = useAppStore(state => state.setSearchSuggestions);
+
+ const [query, setQuery] = useState('');
+ const [open, setOpen] = useState(false);
+ const [activeIndex, setActiveIndex] = useState(-1);
+
+ useEffect(() => {
+ searchSuggestionService.setUser(userId);
+ }, [userId]);
+
+ useEffect(() => {
+ if (!open) {
+ return;
+ }
+ const controller = new AbortController();
+ const timer = setTimeout(() => {
+ searchSuggestionService
+ .getSuggestions(query, controller.signal)
+ .then(next => {
+ setSuggestions(next);
+ setActiveIndex(-1);
+ })
+ .catch(() => {
+ // Suggestions are a nicety; searching still works without them
+ });
+ }, SUGGEST_DEBOUNCE_MS);
+ return () => {
+ clearTimeout(timer);
+ controller.abort();
+ };
+ }, [query, open, userId, setSuggestions]);
+
+ useEffect(() => {
+ const handleClickOutside = (event: MouseEvent) => {
+ if (!containerRef.current?.contains(event.target as Node)) {
+ setOpen(false);
+ }
+ };
+ document.addEventListener('mousedown', handleClickOutside);
+ return () => document.removeEventListener('mousedown', handleClickOutside);
  }, []);
 
- const fetchSuggestionsDebounced = useCallback(async (currentQuery): Promise<any> < any> => {, }) => {
- if (currentQuery.trim().length > 1) {}
- const fetched = await getSearchSuggestions(currentQuery);
- setSuggestions(fetched);
- setShowSuggestions(fetched.length > 0);
- setShowRecentSearches(false); // Hide recent searches when showing suggestions;
- } else {}
- setSuggestions([]);
- setShowSuggestions(false);
- // If query becomes empty, try to show recent searches;
- if (currentQuery.trim().length === 0 && inputRef.current === document.activeElement) {}
- loadRecentSearches().catch(console.error);
-}, [loadRecentSearches]);
-
- useEffect(() => {}) => {
- const debounceTimer = setTimeout((() => {}))
- fetchSuggestionsDebounced(query).catch(console.error);
- }) as any, 300);
-
- return () => clearTimeout(debounceTimer);
- }, [query, fetchSuggestionsDebounced]);
-
- const handleSearch = (searchQuery: any) => {, }
- if (searchQuery.trim()) {}
- const trimmedQuery = searchQuery.trim();
- setQuery(trimmedQuery);
- setShowSuggestions(false);
- setShowRecentSearches(false);
-
- saveRecentSearch(trimmedQuery).catch(console.error);
- navigate(`/search?q="${encodeURIComponent(trimmedQuery)}`);";
- if (inputRef.current) {}
-inputRef.current.blur();
-} // Optionally blur input after search;
-
- const handleSubmit = (e: React.FormEvent < HTMLFormElement>) => {, }
- e.preventDefault();
- handleSearch(query);
-
- const handleSuggestionClick = (suggestion: React.MouseEvent | React.ChangeEvent | React.FormEvent) => {, }
- handleSearch(suggestion);
-
- const handleInputFocus = () => {}
- if (query.trim() === '') {}
- loadRecentSearches().catch(console.error);
- } else if (suggestions.length > 0) {}
- setShowSuggestions(true);
- setShowRecentSearches(false);
-
- const handleInputChange = (e: React.ChangeEvent < HTMLInputElement>) => {, }
- const newQuery = e.target.value;
- setQuery(newQuery);
- if (newQuery.trim() === '') {}
- loadRecentSearches().catch(console.error); // Load recent if input becomes empty;
- } else {}
- setShowRecentSearches(false); // Hide recent if user starts typing;
- // Suggestions will be handled by the debounced useEffect;
-
- const handleRemoveRecentSearch = async (searchToRemove,)
- e: React.MouseEvent): Promise<any> < any> => {, }
- e.stopPropagation(); // Prevent click on list item;
- const updatedSearches = await removeRecentSearch(searchToRemove);
- setRecentSearches(updatedSearches);
- if (updatedSearches.length === 0) {}
- setShowRecentSearches(false);
-
- const handleClearAllRecent = async (e: React.MouseEvent): Promise<any> < any> => {, }
- e.stopPropagation();
- await clearAllRecentSearches();
- setRecentSearches([]);
- setShowRecentSearches(false);
-
- useEffect(() => {}) => {
- const handleClickOutside = (event: MouseEvent) => {, }
- if (searchBarRef.current && !searchBarRef.current.contains(event.target as Node)) {}
- setShowSuggestions(false);
- setShowRecentSearches(false);
- document.addEventListener('mousedown', handleClickOutside as EventListener);
- return () => {}
- document.removeEventListener('mousedown', handleClickOutside as EventListener);
- }}, []);
-
- const isDropdownOpen = (showSuggestions && suggestions.length > 0) || (showRecentSearches && recentSearches.length > 0);
-
- const inputBorderRadiusClass = isDropdownOpen;
- ? 'rounded - t - xl rounded - b - none border - b - transparent dark:border - b - transparent';
- : 'rounded - l - full';
-
- const buttonBorderRadiusClass = isDropdownOpen;
- ? 'rounded - tr - xl rounded - br - none border - b - transparent dark:border - b - transparent';
- : 'rounded - r - full';
+ const search = useCallback((text: string) => {
+ const trimmed = text.trim();
+ if (!trimmed) {
+ return;
+ }
+ setQuery(trimmed);
+ setOpen(false);
+ setActiveIndex(-1);
+ searchSuggestionService.recordQuery(trimmed).catch(() => {
+ // Only affects future suggestions
+ });
+ navigate(`/search?q=${encodeURIComponent(trimmed)}`);
+ inputRef.current?.blur();
+ }, [navigate]);
+
+ const removeFromHistory = useCallback(async (suggestion: SearchSuggestion) => {
+ if (!suggestion.historyId) {
+ return;
+ }
+ setSuggestions(suggestions.filter(item => item.historyId !== suggestion.historyId));
+ setActiveIndex(-1);
+ await searchSuggestionService.deleteHistoryEntry(suggestion.historyId).catch(() => {
+ // Gone on the next fetch if the server deleted it after all
+ });
+ }, [suggestions, setSuggestions]);
+
+ const clearHistory = useCallback(async () => {
+ setSuggestions(suggestions.filter(item => item.source !== 'history'));
+ setActiveIndex(-1);
+ await searchSuggestionService.clearHistory().catch(() => undefined);
+ }, [suggestions, setSuggestions]);
+
+ const visible = open && suggestions.length > 0;
+ const active = visible && activeIndex >= 0 ? suggestions[activeIndex] : undefined;
+
+ const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+ const count = suggestions.length;
+ switch (event.key) {
+ case 'ArrowDown':
+ event.preventDefault();
+ if (!open) {
+ setOpen(true);
+ } else if (count) {
+ setActiveIndex(index => (index + 1 >= count ? -1 : index + 1));
+ }
+ break;
+ case 'ArrowUp':
+ if (visible) {
+ event.preventDefault();
+ setActiveIndex(index => (index <= -1 ? count - 1 : index - 1));
+ }
+ break;
+ case 'Escape':
+ if (visible) {
+ event.preventDefault();
+ setOpen(false);
+ setActiveIndex(-1);
+ }
+ break;
+ case 'Delete':
+ if (event.shiftKey && active?.source === 'history') {
+ event.preventDefault();
+ removeFromHistory(active);
+ }
+ break;
+ default:
+ break;
+ }
+ };
+
+ const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+ event.preventDefault();
+ search(active ? active.text : query);
+ };
 
  return (
- <div ref={searchBarRef} className={"fle}x - grow max - w - xl mx - 1 sm:mx - 2 md:mx - 4 relative">
- <form onSubmit={(e: React.FormEvent) => handleSubmit(e)} className={"fle}x items - center w - full" role="search">
- <input;>
+ <div ref={containerRef} className="flex-grow max-w-xl mx-1 sm:mx-2 md:mx-4 relative">
+ <form onSubmit={handleSubmit} className="flex items-center w-full" role="search">
+ <input
  ref={inputRef}
-// FIXED:  type="search"
-// FIXED:  value={query} />
-// FIXED:  onChange={(e: React.ChangeEvent) => handleInputChange(e), }
- onFocus={handleInputFocus}
-// FIXED:  placeholder="Search"
-// FIXED:  className={`w - full pl - 3 sm:pl - 4 pr - 8 sm:pr - 10 py - 2 sm:py - 2.5 bg - white border border - neutral - 300 , }
- dark:bg - neutral - 900 dark:border - neutral - 700,
- focus:ring - 1 focus:ring - blue - 500 focus:border - blue - 500 focus:bg - white dark:focus:bg - black;
- outline - none text - neutral - 900 dark:text - neutral - 50 placeholder - neutral - 500 dark:placeholder - neutral - 400 text - sm shadow - sm;
- transition - all duration - 100 ease - in - out
- ${inputBorderRadiusClass}
- `}
-// FIXED:  aria - label="Search YouTube"
-// FIXED:  aria - autocomplete="list"
-// FIXED:  aria - controls={, }
- (() => {}) => {
- if (showSuggestions) {}
- return 'search - suggestions - listbox';
- if (showRecentSearches) {}
- return 'recent - searches - listbox';
- return undefined;
- })() />
- <button>
-// FIXED:  type="submit"
-// FIXED:  className={`px - 3 sm:px - 4 md:px - 5 py - 2 sm:py - 2.5 bg - neutral - 100 hover:bg - neutral - 200 dark:bg - neutral - 700 dark:hover:bg - neutral - 600 , }
- border border - neutral - 300 dark:border - neutral - 700 border - l - 0; 
- flex items - center justify - center transition - all duration - 100 ease - in - out min - w-[44px]
- ${buttonBorderRadiusClass}
- `}
-// FIXED:  aria - label="Perform search" />
- <SearchIcon className="w - 4 h - 4 sm:w - 5 sm:h - 5 text - neutral - 600 dark:text - neutral - 300" />
-// FIXED:  </button>
-// FIXED:  </form>
- {showSuggestions && suggestions.length > 0 && (}) => {
- <div id="search - suggestions - listbox">
- <SearchSuggestions;>
- suggestions={suggestions} />
- onSuggestionClick={(e: React.MouseEvent) => handleSuggestionClick(e), }
- isVisible={showSuggestions} />
-// FIXED:  </div>
- {showRecentSearches && recentSearches.length > 0 && (}) => {
- <ul;>
-// FIXED:  id="recent - searches - listbox"
-// FIXED:  className={"absolut}e top - full left - 0 right - 0 mt - 0.5 bg - white dark:bg - neutral - 800 border border - neutral - 300 dark:border - neutral - 700 rounded - b - xl shadow - 2xl z-[101] py - 1 overflow - y - auto max - h - 80 animate - fade - in - fast"
-// FIXED:  aria - label="Recent searches" />
- {recentSearches.map((searchTerm: any) => (, }))
- <li key={searchTerm} className={"fle}x items - center justify - between px - 4 py - 2.5 text - sm text - neutral - 800 dark:text - neutral - 100 hover:bg - neutral - 100 dark:hover:bg - neutral - 700 / 70 transition - colors group">
- <button />
-// FIXED:  onClick={() => handleSearch(searchTerm: React.MouseEvent), }
-// FIXED:  className={"fle}x items - center flex - grow text - left"
- >
- <ClockIcon className="w - 4 h - 4 mr - 3 text - neutral - 500 dark:text - neutral - 400 flex - shrink - 0" />
- <span>{searchTerm}</span>
-// FIXED:  </button>
- <button />
-// FIXED:  onClick={(e: React.MouseEvent) => {, }
- handleRemoveRecentSearch(searchTerm, e).catch(console.error);
-// FIXED:  className="p - 1 rounded - full hover:bg - neutral - 200 dark:hover:bg - neutral - 600 opacity - 0 group - hover:opacity - 100 transition - opacity"
-// FIXED:  aria - label={`Remove ${searchTerm} from recent searches`, }
- title="Remove";
- >
- <XIcon className="w - 4 h - 4 text - neutral - 500 dark:text - neutral - 400" />
-// FIXED:  </button>
-// FIXED:  </li>
- <li className={"borde}r - t border - neutral - 200 dark:border - neutral - 700 / 70 mt - 1 pt - 1">
- <button />
-// FIXED:  onClick={(e: React.MouseEvent) => {, }
- handleClearAllRecent(e).catch(console.error);
-// FIXED:  className="w - full text - center px - 4 py - 2 text - xs font - medium text - sky - 600 dark:text - sky - 400 hover:bg - neutral - 100 dark:hover:bg - neutral - 700 / 70 transition - colors"
+ type="search"
+ role="combobox"
+ value={active ? active.text : query}
+ onChange={event => {
+ setQuery(event.target.value);
+ setActiveIndex(-1);
+ setOpen(true);
+ }}
+ onFocus={() => setOpen(true)}
+ onKeyDown={handleKeyDown}
+ placeholder="Search"
+ autoComplete="off"
+ aria-label="Search"
+ aria-autocomplete="list"
+ aria-expanded={visible}
+ aria-controls={listId}
+ aria-activedescendant={active ? suggestionOptionId(listId, activeIndex) : undefined}
+ className={`w-full pl-3 sm:pl-4 pr-8 py-2 sm:py-2.5 bg-white border border-neutral-300 dark:bg-neutral-900 dark:border-neutral-700 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none text-neutral-900 dark:text-neutral-50 placeholder-neutral-500 text-sm shadow-sm ${
+ visible ? 'rounded-tl-xl' : 'rounded-l-full'
+ }`}
+ />
+ <button
+ type="submit"
+ className={`px-3 sm:px-4 md:px-5 py-2 sm:py-2.5 bg-neutral-100 hover:bg-neutral-200 dark:bg-neutral-700 dark:hover:bg-neutral-600 border border-l-0 border-neutral-300 dark:border-neutral-700 flex items-center justify-center min-w-[44px] ${
+ visible ? 'rounded-tr-xl' : 'rounded-r-full'
+ }`}
+ aria-label="Perform search"
  >
- Clear all recent searches;
-// FIXED:  </button>
-// FIXED:  </li>
-// FIXED:  </ul>
-// FIXED:  </div>
+ <MagnifyingGlassIcon className="w-4 h-4 sm:w-5 sm:h-5 text-neutral-600 dark:text-neutral-300" />
+ </button>
+ </form>
+ {visible && (
+ <SearchSuggestions
+ id={listId}
+ suggestions={suggestions}
+ activeIndex={activeIndex}
+ onSelect={suggestion => search(suggestion.text)}
+ onRemove={userId ? removeFromHistory : undefined}
+ onClearHistory={userId && !query.trim() ? clearHistory : undefined}
+ />
+ )}
+ </div>
+ );
+});
 
 SearchBar.displayName = 'SearchBar';
 export default SearchBar;
@@ -1,29 +1,94 @@
-import React, { MouseEvent, ChangeEvent, FormEvent, FC } from 'react';
-import SearchIcon from 'icons/SearchIcon';
+import React from 'react';
+import { ArrowTrendingUpIcon, ClockIcon, MagnifyingGlassIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+import type { SearchSuggestion } from '../src/types/search';
 
 interface SearchSuggestionsProps {
- suggestions: string;
- onSuggestionClick: (suggestion: React.MouseEvent | React.ChangeEvent | React.FormEvent) => void; isVisible: boolean;
+ id: string;
+ suggestions: SearchSuggestion[];
+ activeIndex: number;
+ onSelect: (suggestion: SearchSuggestion) => void;
+ onRemove?: (suggestion: SearchSuggestion) => void;
+ onClearHistory?: () => void;
+}
+
+export const suggestionOptionId = (listId: string, index: number) => `${listId}-option-${index}`;
+
+const SourceIcon: React.FC<{ source: SearchSuggestion['source'] }> = ({ source }) => {
+ const className = 'w-4 h-4 mr-3 text-neutral-500 dark:text-neutral-400 flex-shrink-0';
+ if (source === 'history') {
+ return <ClockIcon className={className} />;
+ }
+ if (source === 'trending') {
+ return <ArrowTrendingUpIcon className={className} />;
+ }
+ return <MagnifyingGlassIcon className={className} />;
+};
 
-const SearchSuggestions: React.FC<SearchSuggestionsProps> = ({ suggestions, onSuggestionClick, isVisible }: any) => {
- if (!isVisible || suggestions.length === 0) {
+/**
+ * The search bar's suggestion listbox. The input keeps focus throughout
+ * (it owns `aria-activedescendant`), so mouse presses don't blur it.
+ */
+const SearchSuggestions: React.FC<SearchSuggestionsProps> = ({
+ id,
+ suggestions,
+ activeIndex,
+ onSelect,
+ onRemove,
+ onClearHistory
+}) => {
+ if (suggestions.length === 0) {
  return null;
+ }
 
  return (
- <ul;>
-// FIXED:  className={"absolut}e top-full left-0 right-0 mt-0.5 bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-b-xl shadow-2xl z-[101] py-1 overflow-y-auto max-h-80 animate-fade-in-fast"
-// FIXED:  aria-label="Search suggestions" />
- {suggestions.map((suggestion,))
- index) => (;
-          <li key={index}>
- <button />
-// FIXED:  onClick={() => onSuggestionClick(suggestion), }
-// FIXED:  className={"w}-full text-left px-4 py-2.5 text-sm text-neutral-800 dark:text-neutral-100 hover:bg-neutral-100 dark:hover:bg-neutral-700/70 transition-colors flex items-center"
+ <div
+ className="absolute top-full left-0 right-0 mt-0.5 bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-b-xl shadow-2xl z-[101] py-1"
+ onMouseDown={event => event.preventDefault()}
+ >
+ <ul id={id} role="listbox" aria-label="Search suggestions" className="overflow-y-auto max-h-80">
+ {suggestions.map((suggestion, index) => (
+ <li
+ key={`${suggestion.source}-${suggestion.historyId ?? suggestion.text}`}
+ id={suggestionOptionId(id, index)}
+ role="option"
+ aria-selected={index === activeIndex}
+ onClick={() => onSelect(suggestion)}
+ className={`group flex items-center px-4 py-2 text-sm cursor-pointer ${
+ index === activeIndex ? 'bg-neutral-100 dark:bg-neutral-700/70' : 'hover:bg-neutral-100 dark:hover:bg-neutral-700/70'
+ } ${suggestion.source === 'history' ? 'text-purple-800 dark:text-purple-300' : 'text-neutral-800 dark:text-neutral-100'}`}
+ >
+ <SourceIcon source={suggestion.source} />
+ <span className="flex-grow truncate">{suggestion.text}</span>
+ {suggestion.source === 'history' && onRemove && (
+ <button
+ type="button"
+ tabIndex={-1}
+ onClick={event => {
+ event.stopPropagation();
+ onRemove(suggestion);
+ }}
+ className="ml-2 p-1 rounded-full text-xs text-neutral-500 hover:bg-neutral-200 dark:hover:bg-neutral-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+ aria-label={`Remove ${suggestion.text} from search history`}
+ title="Remove (Shift+Delete)"
+ >
+ <XMarkIcon className="w-4 h-4" />
+ </button>
+ )}
+ </li>
+ ))}
+ </ul>
+ {onClearHistory && suggestions.some(suggestion => suggestion.source === 'history') && (
+ <button
+ type="button"
+ onClick={onClearHistory}
+ className="w-full border-t border-neutral-200 dark:border-neutral-700 mt-1 pt-2 pb-1 text-center text-xs font-medium text-sky-600 dark:text-sky-400 hover:underline"
  >
- <SearchIcon className={"w}-4 h-4 mr-3 text-neutral-500 dark:text-neutral-400 flex-shrink-0" />
- <span>{suggestion}</span>
-// FIXED:  </button>
-// FIXED:  </li>
-// FIXED:  </ul>
+ Clear search history
+ </button>
+ )}
+ </div>
+ );
+};
 
-export default SearchSuggestions;
\ No newline at end of file
+export default SearchSuggestions;
@@ -1,92 +1,100 @@
-import React, { MouseEvent, FC, useState, useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { AdjustmentsHorizontalIcon } from '@heroicons/react/24/outline';
+import { CheckIcon } from '@heroicons/react/24/solid';
 
-import { CheckIcon as CheckSolidIcon } from '@heroicons / react / 24 / solid';
-const CheckIconSolid = CheckSolidIcon;
+import AdvancedSearchFilters from '../src/features/search/components/AdvancedSearchFilters';
+import type { SearchFacets, SearchFilterValues, SearchSortBy } from '../src/types/search';
 
-import AdjustmentsHorizontalIcon from './icons / AdjustmentsHorizontalIcon';
+export type SortByType = SearchSortBy;
 
-export type SortByType = 'relevance' | 'uploadDate' | 'viewCount';
+export const sortOptions: Array<{ value: SortByType; label: string }> = [
+ { value: 'relevance', label: 'Relevance' },
+ { value: 'uploadDate', label: 'Upload date' },
+ { value: 'viewCount', label: 'View count' }
+];
 
-export const sortOptions: Array<{ value: SortByType; label: string }> = [;
- { value: 'relevance',}
- label: 'Relevance' },
- { value: 'uploadDate',}
- label: 'Upload date' },
- { value: 'viewCount',}
- label: 'View count' }];
-
-export interface SortFilterPanelProps {}
- currentSortBy: SortByType;,
+export interface SortFilterPanelProps {
+ currentSortBy: SortByType;
  onSortChange: (newSortBy: SortByType) => void;
+ filters: SearchFilterValues;
+ onFiltersChange: (filters: SearchFilterValues) => void;
+ facets?: SearchFacets;
  disabled?: boolean;
+}
 
-const SortFilterPanel: React.FC < SortFilterPanelProps> = ({ currentSortBy, onSortChange, disabled }: any) => {}
- const [showPanel, setShowPanel] = useState < boolean>(false);
- const buttonRef = useRef < HTMLButtonElement>(null);
- const panelRef = useRef < HTMLDivElement>(null);
-
- useEffect(() => {}) => {
- const handleClickOutside = (event: MouseEvent) => {, }
- if (;)
- panelRef.current &&;
- !panelRef.current.contains(event.target as Node) &&;
- buttonRef.current &&;
- !buttonRef.current.contains(event.target as Node);
- ) {}
- setShowPanel(false);
- if (showPanel) {}
- document.addEventListener('mousedown', handleClickOutside as EventListener);
- return () => {}
- document.removeEventListener('mousedown', handleClickOutside as EventListener);
- }}, [showPanel]);
+const SortFilterPanel: React.FC<SortFilterPanelProps> = ({ currentSortBy, onSortChange, filters, onFiltersChange, facets, disabled }) => {
+ const [showPanel, setShowPanel] = useState(false);
+ const buttonRef = useRef<HTMLButtonElement>(null);
+ const panelRef = useRef<HTMLDivElement>(null);
 
- const handleSortOptionClick = (newSortBy: SortByType) => {, }
- onSortChange(newSortBy);
+ useEffect(() => {
+ if (!showPanel) {
+ return;
+ }
+ const handleClickOutside = (event: MouseEvent) => {
+ const target = event.target as Node;
+ if (!panelRef.current?.contains(target) && !buttonRef.current?.contains(target)) {
  setShowPanel(false);
+ }
+ };
+ document.addEventListener('mousedown', handleClickOutside);
+ return () => document.removeEventListener('mousedown', handleClickOutside);
+ }, [showPanel]);
 
- if (disabled) {}
-return null;
+ const activeFilters = Object.values(filters).filter(Boolean).length;
 
  return (
- <div className={"relative}">
- <button>
- ref={buttonRef} />
-// FIXED:  onClick={() => setShowPanel(prev => !prev: React.MouseEvent), }
-// FIXED:  className={"fle}x items - center text - sm font - medium text - neutral - 700 dark:text - neutral - 300 hover:bg - neutral - 100 dark:hover:bg - neutral - 800 px - 3 py - 1.5 rounded - md border border - neutral - 300 dark:border - neutral - 700 transition - colors disabled:opacity - 50 disabled:cursor - not - allowed"
-// FIXED:  aria - expanded={showPanel, }
-// FIXED:  aria - haspopup="true"
-// FIXED:  aria - controls="sort - options - panel"
-// FIXED:  id="filter - button"
- title="Sort search results";
-// FIXED:  disabled={disabled, }
+ <div className="relative">
+ <button
+ ref={buttonRef}
+ type="button"
+ onClick={() => setShowPanel(open => !open)}
+ disabled={disabled}
+ aria-expanded={showPanel}
+ className="flex items-center gap-2 rounded-full px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 disabled:opacity-50 dark:text-gray-200 dark:hover:bg-gray-800"
  >
- <AdjustmentsHorizontalIcon className="w - 4 h - 4 mr - 1.5" />
- Sort by;
-// FIXED:  </button>
- {showPanel && (}) => {
- <div>
+ <AdjustmentsHorizontalIcon className="h-5 w-5" />
+ Filters
+ {activeFilters > 0 && (
+ <span className="rounded-full bg-gray-900 px-1.5 text-xs text-white dark:bg-white dark:text-gray-900">{activeFilters}</span>
+ )}
+ </button>
+
+ {showPanel && (
+ <div
  ref={panelRef}
-// FIXED:  id="sort - options - panel"
-// FIXED:  className={"absolut}e top - full right - 0 mt - 1.5 w - 48 bg - white dark:bg - neutral - 800 border border - neutral - 200 dark:border - neutral - 700 rounded - lg shadow - xl z - 30 py - 1 animate - fade - in - fast"
- role="menu";
-// FIXED:  aria - orientation="vertical"
-// FIXED:  aria - labelledby="filter - button" />
- {sortOptions.map((option) => (}))
+ className="absolute left-0 z-20 mt-2 w-[min(90vw,48rem)] rounded-lg border border-gray-200 bg-white p-4 shadow-lg dark:border-gray-700 dark:bg-gray-900"
+ >
+ <div className="grid gap-6 sm:grid-cols-[10rem_1fr]">
+ <section>
+ <h4 className="mb-2 border-b border-gray-200 pb-2 text-xs font-medium uppercase text-gray-500 dark:border-gray-700">Sort by</h4>
+ <ul>
+ {sortOptions.map(option => (
+ <li key={option.value}>
  <button
-          key={option.value} />
-// FIXED:  onClick={() => handleSortOptionClick(option.value: React.MouseEvent), }
-// FIXED:  className={`w - full text - left px - 3 py - 2 text - sm flex items - center justify - between, }
- ${currentSortBy === option.value}
- ? 'bg - sky - 50 dark:bg - sky - 500 / 10 text - sky - 700 dark:text - sky - 300 font - medium';
- : 'text - neutral - 700 dark:text - neutral - 200 hover:bg - neutral - 100 dark:hover:bg - neutral - 700 / 70'
- } transition - colors`}
- role="menuitemradio";
-// FIXED:  aria - checked={currentSortBy === option.value, }
+ type="button"
+ onClick={() => onSortChange(option.value)}
+ aria-pressed={currentSortBy === option.value}
+ className="flex w-full items-center justify-between py-1 text-left text-sm text-gray-700 hover:text-gray-900 dark:text-gray-200"
  >
- <span>{option.label}</span>
- {currentSortBy === option.value && <CheckIcon className="w - 4 h - 4 text - sky - 600 dark:text - sky - 400" />, }
-// FIXED:  </button>
-// FIXED:  </div>
-// FIXED:  </div>
+ {option.label}
+ {currentSortBy === option.value && <CheckIcon className="h-4 w-4" />}
+ </button>
+ </li>
+ ))}
+ </ul>
+ </section>
+ <AdvancedSearchFilters filters={filters} facets={facets} onChange={onFiltersChange} />
+ </div>
+ {activeFilters > 0 && (
+ <button type="button" onClick={() => onFiltersChange({})} className="mt-4 text-sm text-blue-600 hover:underline">
+ Clear filters
+ </button>
+ )}
+ </div>
+ )}
+ </div>
+ );
+};
 
-export default SortFilterPanel;
\ No newline at end of file
+export default SortFilterPanel;
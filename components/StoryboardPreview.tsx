@@ -0,0 +1,35 @@
+import React, { memo } from 'react';
+
+import type { StoryboardFrame } from '../utils/storyboard';
+
+export interface StoryboardPreviewProps {
+ frame: StoryboardFrame;
+ /** Rendered width in pixels; omit to fill the parent's width */
+ width?: number;
+ className?: string;
+}
+
+/** Percentage background offset that puts a `size`-wide cell at `offset` in view */
+const spritePosition = (offset: number, size: number, sheetSize: number) =>
+ sheetSize > size ? `${(offset / (sheetSize - size)) * 100}%` : '0%';
+
+/**
+ * One storyboard frame cut out of its sprite sheet. Sizes are relative to the
+ * frame, so it scales to any width while keeping the frame's aspect ratio.
+ */
+const StoryboardPreview: React.FC<StoryboardPreviewProps> = ({ frame, width, className = '' }) => (
+ <div
+ className={className}
+ aria-hidden="true"
+ style={{
+ width: width ?? '100%',
+ aspectRatio: `${frame.width} / ${frame.height}`,
+ backgroundImage: `url("${frame.url}")`,
+ backgroundRepeat: 'no-repeat',
+ backgroundSize: `${(frame.sheetWidth / frame.width) * 100}% ${(frame.sheetHeight / frame.height) * 100}%`,
+ backgroundPosition: `${spritePosition(frame.x, frame.width, frame.sheetWidth)} ${spritePosition(frame.y, frame.height, frame.sheetHeight)}`
+ }}
+ />
+);
+
+export default memo(StoryboardPreview);
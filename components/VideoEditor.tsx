@@ -1,143 +1,212 @@
-import React, { MouseEvent, FC, useState, useEffect, useRef, memo } from 'react';
+import React, { useState, useEffect, useMemo, useRef, memo } from 'react';
 
-import type { Video } from '../types.ts';
+import { PlayIcon, PauseIcon, ScissorsIcon, SpeakerWaveIcon, SpeakerXMarkIcon, DocumentTextIcon, AdjustmentsHorizontalIcon, CloudArrowDownIcon, LanguageIcon } from '@heroicons/react/24/outline';
 
-import { PlayIcon, PauseIcon, ScissorsIcon, SpeakerWaveIcon, SpeakerXIcon, DocumentTextIcon, AdjustmentsHorizontalIcon, CloudArrowDownIcon } from '@heroicons / react / 24 / outline';
+import CaptionEditor from './CaptionEditor';
 
-export interface VideoClip {}
- id: string;,
+import type { CaptionTrackData } from '../utils/captionParser';
+
+export interface VideoClip {
+ id: string;
  startTime: number;
- endTime: number;,
+ endTime: number;
  duration: number;
  thumbnail: string;
+}
 
-export interface AudioTrack {}
- id: string;,
+export interface AudioTrack {
+ id: string;
  name: string;
- url: string;,
+ url: string;
  volume: number;
- startTime: number;,
+ startTime: number;
  duration: number;
+}
 
-export interface TextOverlay {}
- id: string;,
+export interface TextOverlay {
+ id: string;
  text: string;
- x: number;,
+ x: number;
  y: number;
- fontSize: number;,
+ fontSize: number;
  color: string;
- fontFamily: string;,
+ fontFamily: string;
  startTime: number;
  endTime: number;
  animation?: 'fade' | 'slide' | 'bounce';
+}
 
-export interface VideoFilter {}
- id: string;,
+export interface VideoFilter {
+ id: string;
  name: string;
- type: "brightness" | 'contrast' | 'saturation' | 'blur' | 'sepia' | 'grayscale';,
+ type: 'brightness' | 'contrast' | 'saturation' | 'blur' | 'sepia' | 'grayscale';
  value: number;
+}
+
+export interface VideoEditMetadata {
+ clips: VideoClip[];
+ audioTracks: AudioTrack[];
+ textOverlays: TextOverlay[];
+ filters: VideoFilter[];
+ captions: CaptionTrackData;
+ trimStart: number;
+ trimEnd: number;
+ duration: number;
+}
 
-export interface VideoEditorProps {}
- videoFile: File;,
- onSave: (editedVideo: Blob,)
- metadata) => void;
+export interface VideoEditorProps {
+ videoFile: File;
+ onSave: (editedVideo: Blob, metadata: VideoEditMetadata) => void;
  onCancel: () => void;
  className?: string;
+}
+
+type EditorTab = 'trim' | 'audio' | 'text' | 'filters' | 'effects' | 'captions';
+
+const FILTER_TYPES: Array<VideoFilter['type']> = ['brightness', 'contrast', 'saturation', 'blur', 'sepia', 'grayscale'];
+
+const TABS: Array<{ id: EditorTab; icon: typeof ScissorsIcon; label: string }> = [
+ { id: 'trim', icon: ScissorsIcon, label: 'Trim' },
+ { id: 'text', icon: DocumentTextIcon, label: 'Text' },
+ { id: 'filters', icon: AdjustmentsHorizontalIcon, label: 'Filters' },
+ { id: 'captions', icon: LanguageIcon, label: 'Captions' }
+];
+
+const CONTROL_BUTTON_CLASSES = 'p-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200';
+const LABEL_CLASSES = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+const generateThumbnail = (time: number): string =>
+ // In a real implementation, this would capture a frame from the video
+ `https://picsum.photos/160/90?random=${Math.floor(time)}`;
+
+const defaultFilterValue = (type: VideoFilter['type']): number => {
+ switch (type) {
+ case 'brightness':
+ case 'contrast':
+ case 'saturation':
+ return 100;
+ case 'blur':
+ return 0;
+ default:
+ return 50;
+ }
+};
+
+const formatTime = (time: number): string => {
+ const minutes = Math.floor(time / 60);
+ const seconds = Math.floor(time % 60);
+ return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
 
-const VideoEditor: React.FC < VideoEditorProps> = ({, }) => {
+const VideoEditor: React.FC<VideoEditorProps> = ({
  videoFile,
  onSave,
  onCancel,
- className = '' }) => {}
- const [isPlaying, setIsPlaying] = useState < boolean>(false);
- const [currentTime, setCurrentTime] = useState < number>(0);
- const [duration, setDuration] = useState < number>(0);
+ className = '' }) => {
+ const [isPlaying, setIsPlaying] = useState<boolean>(false);
+ const [currentTime, setCurrentTime] = useState<number>(0);
+ const [duration, setDuration] = useState<number>(0);
  const [volume, setVolume] = useState(100);
- const [isMuted, setIsMuted] = useState < boolean>(false);
- const [activeTab, setActiveTab] = useState<'trim' | 'audio' | 'text' | 'filters' | 'effects'>('trim');
+ const [isMuted, setIsMuted] = useState<boolean>(false);
+ const [activeTab, setActiveTab] = useState<EditorTab>('trim');
 
- // Editing state;
- const [clips, setClips] = useState < VideoClip[]>([]);
- const [audioTracks] = useState < AudioTrack[]>([]);
- const [textOverlays, setTextOverlays] = useState < TextOverlay[]>([]);
- const [filters, setFilters] = useState < VideoFilter[]>([]);
- const [trimStart, setTrimStart] = useState < number>(0);
- const [trimEnd, setTrimEnd] = useState < number>(0);
+ // Editing state
+ const [clips, setClips] = useState<VideoClip[]>([]);
+ const [audioTracks] = useState<AudioTrack[]>([]);
+ const [textOverlays, setTextOverlays] = useState<TextOverlay[]>([]);
+ const [filters, setFilters] = useState<VideoFilter[]>([]);
+ const [captionTrack, setCaptionTrack] = useState<CaptionTrackData>({ format: 'vtt', cues: [], styles: [], regions: [] });
+ const [trimStart, setTrimStart] = useState<number>(0);
+ const [trimEnd, setTrimEnd] = useState<number>(0);
 
- // UI state;
- const [selectedText, setSelectedText] = useState < string | null>(null);
- const [isProcessing, setIsProcessing] = useState < boolean>(false);
+ // UI state
+ const [selectedText, setSelectedText] = useState<string | null>(null);
+ const [isProcessing, setIsProcessing] = useState<boolean>(false);
 
- const videoRef = useRef < HTMLVideoElement>(null);
- const canvasRef = useRef < HTMLCanvasElement>(null);
- const timelineRef = useRef < HTMLDivElement>(null);
+ const videoRef = useRef<HTMLVideoElement>(null);
+ const canvasRef = useRef<HTMLCanvasElement>(null);
+ const timelineRef = useRef<HTMLDivElement>(null);
 
- const videoUrl = URL.createObjectURL(videoFile);
+ const videoUrl = useMemo(() => URL.createObjectURL(videoFile), [videoFile]);
 
- useEffect(() => {}) => {
+ useEffect(() => () => URL.revokeObjectURL(videoUrl), [videoUrl]);
+
+ useEffect(() => {
  const video = videoRef.current;
- if (!video) {}
-return;
+ if (!video) {
+ return;
+ }
 
- const handleLoadedMetadata = () => {}
+ const handleLoadedMetadata = () => {
  setDuration(video.duration);
  setTrimEnd(video.duration);
 
- // Create initial clip;
- const initialClip: VideoClip = {,}
+ // Create initial clip
+ setClips([{
  id: 'main',
  startTime: 0,
  endTime: video.duration,
  duration: video.duration,
- thumbnail: generateThumbnail(0) };
- setClips([initialClip]);
+ thumbnail: generateThumbnail(0)
+ }]);
+ };
 
- const handleTimeUpdate = () => {}
+ const handleTimeUpdate = () => {
  setCurrentTime(video.currentTime);
+ };
 
- video.addEventListener('loadedmetadata', handleLoadedMetadata as EventListener);
- video.addEventListener('timeupdate', handleTimeUpdate as EventListener);
+ video.addEventListener('loadedmetadata', handleLoadedMetadata);
+ video.addEventListener('timeupdate', handleTimeUpdate);
 
- return () => {}
- video.removeEventListener('loadedmetadata', handleLoadedMetadata as EventListener);
- video.removeEventListener('timeupdate', handleTimeUpdate as EventListener);
- }}, []);
+ return () => {
+ video.removeEventListener('loadedmetadata', handleLoadedMetadata);
+ video.removeEventListener('timeupdate', handleTimeUpdate);
+ };
+ }, []);
 
- const generateThumbnail = (time): (string) => {, }
- // In a real implementation, this would capture a frame from the video;
- return `https://picsum.photos / 160 / 90?random="${Math.floor(time)}`;"
+ useEffect(() => {
+ if (videoRef.current) {
+ videoRef.current.volume = volume / 100;
+ }
+ }, [volume]);
 
- const togglePlay = () => {}
+ const togglePlay = () => {
  const video = videoRef.current;
- if (!video) {}
-return;
+ if (!video) {
+ return;
+ }
 
- if (isPlaying) {}
+ if (isPlaying) {
  video.pause();
- } else {}
- video.play();
+ } else {
+ video.play().catch(() => setIsPlaying(false));
+ }
  setIsPlaying(!isPlaying);
+ };
 
- const seekTo = (time: any) => {, }
+ const seekTo = (time: number) => {
  const video = videoRef.current;
- if (!video) {}
-return;
+ if (!video) {
+ return;
+ }
 
  video.currentTime = Math.max(0, Math.min(time, duration));
  setCurrentTime(video.currentTime);
+ };
 
- const handleTimelineClick = (e: React.MouseEvent) => {, }
+ const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
  const timeline = timelineRef.current;
- if (!timeline) {}
-return;
+ if (!timeline) {
+ return;
+ }
 
  const rect = timeline.getBoundingClientRect();
  const clickX = e.clientX - rect.left;
- const newTime = (clickX / rect.width) * duration;
- seekTo(newTime);
+ seekTo((clickX / rect.width) * duration);
+ };
 
- const addTextOverlay = () => {}
- const newText: TextOverlay = {,}
+ const addTextOverlay = () => {
+ const newText: TextOverlay = {
  id: `text-${Date.now()}`,
  text: 'New Text',
  x: 50,
@@ -147,439 +216,464 @@ return;
  fontFamily: 'Arial',
  startTime: currentTime,
  endTime: currentTime + 5,
- animation: 'fade' };
- setTextOverlays(prev => [...prev as any, newText]);
+ animation: 'fade'
+ };
+ setTextOverlays(prev => [...prev, newText]);
  setSelectedText(newText.id);
+ };
 
- const updateTextOverlay = (id: string | number, updates: Partial < TextOverlay>) => {}
- setTextOverlays(prev => prev.map((text: string) =>;))
- text.id === id ? { ...text as any, ...updates } : text));
+ const updateTextOverlay = (id: string, updates: Partial<TextOverlay>) => {
+ setTextOverlays(prev => prev.map(text => (text.id === id ? { ...text, ...updates } : text)));
+ };
 
- const deleteTextOverlay = (id: any) => {, }
- setTextOverlays(prev => prev.filter((text: string) => text.id !== id));
+ const deleteTextOverlay = (id: string) => {
+ setTextOverlays(prev => prev.filter(text => text.id !== id));
  setSelectedText(null);
+ };
 
- const addFilter = (type: VideoFilter['type']) => {, }
- const newFilter: VideoFilter = {,}
+ const addFilter = (type: VideoFilter['type']) => {
+ const newFilter: VideoFilter = {
  id: `filter-${Date.now()}`,
  name: type.charAt(0).toUpperCase() + type.slice(1),
  type,
- value: type === 'brightness' || type === 'contrast' ? 100 :;
- type === 'saturation' ? 100 :;
- type === 'blur' ? 0 : 50 };
- setFilters(prev => [...prev as any, newFilter]);
+ value: defaultFilterValue(type)
+ };
+ setFilters(prev => [...prev, newFilter]);
+ };
 
- const updateFilter = (id: string | number, value: string | number) => {}
- setFilters(prev => prev.map((filter) =>;))
- filter.id === id ? { ...filter as any, value } : filter));
+ const updateFilter = (id: string, value: number) => {
+ setFilters(prev => prev.map(filter => (filter.id === id ? { ...filter, value } : filter)));
+ };
 
- const removeFilter = (id: any) => {, }
- setFilters(prev => prev.filter((filter) => filter.id !== id));
+ const removeFilter = (id: string) => {
+ setFilters(prev => prev.filter(filter => filter.id !== id));
+ };
 
- const trimVideo = () => {}
- const newClip: VideoClip = {,}
+ const trimVideo = () => {
+ setClips([{
  id: `clip-${Date.now()}`,
  startTime: trimStart,
  endTime: trimEnd,
  duration: trimEnd - trimStart,
- thumbnail: generateThumbnail(trimStart) };
- setClips([newClip]);
+ thumbnail: generateThumbnail(trimStart)
+ }]);
+ };
 
- const exportVideo = async (): Promise<any> < void> => {, }
+ const exportVideo = async (): Promise<void> => {
  setIsProcessing(true);
 
- try {}
- // In a real implementation, this would use WebCodecs API or similar;
- // to actually process the video with all the applied effects;
+ try {
+ // In a real implementation, this would use WebCodecs API or similar
+ // to actually process the video with all the applied effects
 
- // Simulate processing time;
- await new Promise<any>(resolve => setTimeout((resolve) as any, 3000));
+ // Simulate processing time
+ await new Promise<void>(resolve => setTimeout(resolve, 3000));
 
- // Create a mock processed video blob;
- const processedBlob = new Blob([videoFile], { type: 'video / mp4' });
+ // Create a mock processed video blob
+ const processedBlob = new Blob([videoFile], { type: 'video/mp4' });
 
- const metadata: object = {, }
+ onSave(processedBlob, {
  clips,
  audioTracks,
  textOverlays,
  filters,
+ captions: captionTrack,
  trimStart,
  trimEnd,
- duration: trimEnd - trimStart };
-
- onSave(processedBlob, metadata);
- } catch (error) {}
- (console).error('Error exporting video:', error);
- } finally {}
+ duration: trimEnd - trimStart
+ });
+ } catch (error) {
+ console.error('Error exporting video:', error);
+ } finally {
  setIsProcessing(false);
+ }
+ };
 
- const formatTime = (time): (string) => {, }
- const minutes = Math.floor(time / 60);
- const seconds = Math.floor(time % 60);
- return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+ const percentOf = (time: number) => (duration > 0 ? (time / duration) * 100 : 0);
 
- const renderTimeline = () => (;)
-          <div className={"b}g - gray - 100 dark:bg - gray - 800 p - 4 rounded - lg">
- <div className={"fle}x items - center justify - between mb - 4">
- <h3 className={"fon}t - medium text - gray - 900 dark:text - white">Timeline</h3>
- <div className={"tex}t - sm text - gray - 600 dark:text - gray - 400">
+ const renderTimeline = () => (
+ <div className="bg-gray-100 dark:bg-gray-800 p-4 rounded-lg">
+ <div className="flex items-center justify-between mb-4">
+ <h3 className="font-medium text-gray-900 dark:text-white">Timeline</h3>
+ <div className="text-sm text-gray-600 dark:text-gray-400">
  {formatTime(currentTime)} / {formatTime(duration)}
-// FIXED:  </div>
-// FIXED:  </div>
+ </div>
+ </div>
 
- <div>
+ <div
  ref={timelineRef}
-// FIXED:  className={"relativ}e h - 16 bg - gray - 200 dark:bg - gray - 700 rounded cursor - pointer" />
-// FIXED:  onClick={(e: React.MouseEvent) => handleTimelineClick(e), }
+ className="relative h-16 bg-gray-200 dark:bg-gray-700 rounded cursor-pointer"
+ onClick={handleTimelineClick}
  >
  {/* Timeline track */}
- <div className={"absolut}e inset - 0 flex">
- {clips.map((clip, index) => (}))
+ <div className="absolute inset-0 flex">
+ {clips.map((clip, index) => (
  <div
-          key={clip.id}
-// FIXED:  className={"b}g - blue - 500 h - full flex items - center justify - center text - white text - xs"
-// FIXED:  style={{,}
- left: `${(clip.startTime / duration) * 100}%`,
- width: `${(clip.duration / duration) * 100}%` } />
+ key={clip.id}
+ className="bg-blue-500 h-full flex items-center justify-center text-white text-xs"
+ style={{
+ left: `${percentOf(clip.startTime)}%`,
+ width: `${percentOf(clip.duration)}%`
+ }}
+ >
  Clip {index + 1}
-// FIXED:  </div>
-// FIXED:  </div>
+ </div>
+ ))}
+ </div>
 
  {/* Playhead */}
- <div>
-// FIXED:  className={"absolut}e top - 0 bottom - 0 w - 0.5 bg - red - 500 z - 10"
-// FIXED:  style={{ left: `${(currentTime / duration) * 100}%` } />
- <div className={"absolut}e -top - 2 -left - 2 w - 4 h - 4 bg - red - 500 rounded - full" />
-// FIXED:  </div>
+ <div
+ className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-10"
+ style={{ left: `${percentOf(currentTime)}%` }}
+ >
+ <div className="absolute -top-2 -left-2 w-4 h-4 bg-red-500 rounded-full" />
+ </div>
 
  {/* Trim markers */}
- {activeTab === 'trim' && (}) => {
- <><< /> /><< /> /><< /> />
- <div>
-// FIXED:  className={"absolut}e top - 0 bottom - 0 w - 1 bg - green - 500 cursor - ew - resize"
-// FIXED:  style={{ left: `${(trimStart / duration) * 100}%` } /> />
- <div>
-// FIXED:  className={"absolut}e top - 0 bottom - 0 w - 1 bg - green - 500 cursor - ew - resize"
-// FIXED:  style={{ left: `${(trimEnd / duration) * 100}%` } /> />
-// FIXED:  < />
-// FIXED:  </div>
+ {activeTab === 'trim' && (
+ <>
+ <div
+ className="absolute top-0 bottom-0 w-1 bg-green-500 cursor-ew-resize"
+ style={{ left: `${percentOf(trimStart)}%` }}
+ />
+ <div
+ className="absolute top-0 bottom-0 w-1 bg-green-500 cursor-ew-resize"
+ style={{ left: `${percentOf(trimEnd)}%` }}
+ />
+ </>
+ )}
+ </div>
 
  {/* Controls */}
- <div className={"fle}x items - center justify - center space - x - 4 mt - 4">
- <button />
-// FIXED:  onClick={(e: React.MouseEvent) => togglePlay(e), }
-// FIXED:  className="p - 2 bg - blue - 600 text - white rounded - full hover:bg - blue - 700"
- >
- {isPlaying ? (}) => {
- <PauseIcon className="w - 5 h - 5" />
- ) : (;
- <PlayIcon className="w - 5 h - 5" />
-// FIXED:  </button>
-
- <button />
-// FIXED:  onClick={() => seekTo(currentTime - 10: React.MouseEvent), }
-// FIXED:  className="p - 2 text - gray - 600 dark:text - gray - 400 hover:text - gray - 800 dark:hover:text - gray - 200"
+ <div className="flex items-center justify-center space-x-4 mt-4">
+ <button
+ onClick={togglePlay}
+ className="p-2 bg-blue-600 text-white rounded-full hover:bg-blue-700"
+ aria-label={isPlaying ? 'Pause' : 'Play'}
  >
+ {isPlaying ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+ </button>
+
+ <button onClick={() => seekTo(currentTime - 10)} className={CONTROL_BUTTON_CLASSES} aria-label="Back 10 seconds">
  ⏪
-// FIXED:  </button>
+ </button>
 
- <button />
-// FIXED:  onClick={() => seekTo(currentTime + 10: React.MouseEvent), }
-// FIXED:  className="p - 2 text - gray - 600 dark:text - gray - 400 hover:text - gray - 800 dark:hover:text - gray - 200"
- >
+ <button onClick={() => seekTo(currentTime + 10)} className={CONTROL_BUTTON_CLASSES} aria-label="Forward 10 seconds">
  ⏩
-// FIXED:  </button>
-
- <button />
-// FIXED:  onClick={() => setIsMuted(!isMuted: React.MouseEvent), }
-// FIXED:  className="p - 2 text - gray - 600 dark:text - gray - 400 hover:text - gray - 800 dark:hover:text - gray - 200"
- >
- {isMuted ? (}) => {
- <SpeakerXIcon className="w - 5 h - 5" />
- ) : (;
- <SpeakerWaveIcon className="w - 5 h - 5" />
-// FIXED:  </button>
-
- <input;>
-// FIXED:  type="range"
- min="0";
- max="100";
-// FIXED:  value={volume} />
-// FIXED:  onChange={(e: React.ChangeEvent) => setVolume(parseInt(e.target.value, 10))}
-// FIXED:  className="w - 20" />
-// FIXED:  </div>
-// FIXED:  </div>
-
- const renderTrimPanel = () => (;)
-          <div className={"spac}e - y - 4">
- <h3 className={"fon}t - medium text - gray - 900 dark:text - white">Trim Video</h3>
- <div className={"spac}e - y - 3">
+ </button>
+
+ <button onClick={() => setIsMuted(!isMuted)} className={CONTROL_BUTTON_CLASSES} aria-label={isMuted ? 'Unmute' : 'Mute'}>
+ {isMuted ? <SpeakerXMarkIcon className="w-5 h-5" /> : <SpeakerWaveIcon className="w-5 h-5" />}
+ </button>
+
+ <input
+ type="range"
+ min="0"
+ max="100"
+ value={volume}
+ onChange={e => setVolume(parseInt(e.target.value, 10))}
+ className="w-20"
+ aria-label="Volume"
+ />
+ </div>
+ </div>
+ );
+
+ const renderTrimPanel = () => (
+ <div className="space-y-4">
+ <h3 className="font-medium text-gray-900 dark:text-white">Trim Video</h3>
+ <div className="space-y-3">
  <div>
- <label htmlFor="trim - start - time" className={"bloc}k text - sm font - medium text - gray - 700 dark:text - gray - 300 mb - 1">
- Start Time;
-// FIXED:  </label>
- <input;>
-// FIXED:  type="range"
-// FIXED:  id="trim - start - time"
- min="0";
+ <label htmlFor="trim-start-time" className={LABEL_CLASSES}>
+ Start Time
+ </label>
+ <input
+ type="range"
+ id="trim-start-time"
+ min="0"
  max={duration}
- step="0.1";
-// FIXED:  value={trimStart} />
-// FIXED:  onChange={(e: React.ChangeEvent) => setTrimStart(parseFloat(e.target.value)), }
-// FIXED:  className="w - full" />
- <div className={"tex}t - sm text - gray - 600 dark:text - gray - 400">
+ step="0.1"
+ value={trimStart}
+ onChange={e => setTrimStart(parseFloat(e.target.value))}
+ className="w-full"
+ />
+ <div className="text-sm text-gray-600 dark:text-gray-400">
  {formatTime(trimStart)}
-// FIXED:  </div>
-// FIXED:  </div>
+ </div>
+ </div>
 
  <div>
- <label htmlFor="trim - end - time" className={"bloc}k text - sm font - medium text - gray - 700 dark:text - gray - 300 mb - 1">
- End Time;
-// FIXED:  </label>
- <input;>
-// FIXED:  type="range"
-// FIXED:  id="trim - end - time"
- min="0";
+ <label htmlFor="trim-end-time" className={LABEL_CLASSES}>
+ End Time
+ </label>
+ <input
+ type="range"
+ id="trim-end-time"
+ min="0"
  max={duration}
- step="0.1";
-// FIXED:  value={trimEnd} />
-// FIXED:  onChange={(e: React.ChangeEvent) => setTrimEnd(parseFloat(e.target.value)), }
-// FIXED:  className="w - full" />
- <div className={"tex}t - sm text - gray - 600 dark:text - gray - 400">
+ step="0.1"
+ value={trimEnd}
+ onChange={e => setTrimEnd(parseFloat(e.target.value))}
+ className="w-full"
+ />
+ <div className="text-sm text-gray-600 dark:text-gray-400">
  {formatTime(trimEnd)}
-// FIXED:  </div>
-// FIXED:  </div>
-// FIXED:  </div>
-
- <div className={"b}g - gray - 50 dark:bg - gray - 800 p - 3 rounded">
- <p className={"tex}t - sm text - gray - 600 dark:text - gray - 400">,
- Duration: {formatTime(trimEnd - trimStart), }
-// FIXED:  </p>
-// FIXED:  </div>
-
- <button />
-// FIXED:  onClick={(e: React.MouseEvent) => trimVideo(e), }
-// FIXED:  className="w - full bg - blue - 600 text - white py - 2 rounded hover:bg - blue - 700"
+ </div>
+ </div>
+ </div>
+
+ <div className="bg-gray-50 dark:bg-gray-800 p-3 rounded">
+ <p className="text-sm text-gray-600 dark:text-gray-400">
+ Duration: {formatTime(trimEnd - trimStart)}
+ </p>
+ </div>
+
+ <button
+ onClick={trimVideo}
+ className="w-full bg-blue-600 text-white py-2 rounded hover:bg-blue-700"
  >
- Apply Trim;
-// FIXED:  </button>
-// FIXED:  </div>
-
- const renderTextPanel = () => (;)
-          <div className={"spac}e - y - 4">
- <div className={"fle}x items - center justify - between">
- <h3 className={"fon}t - medium text - gray - 900 dark:text - white">Text Overlays</h3>
- <button />
-// FIXED:  onClick={(e: React.MouseEvent) => addTextOverlay(e), }
-// FIXED:  className={"p}x - 3 py - 1 bg - blue - 600 text - white rounded text - sm hover:bg - blue - 700"
+ Apply Trim
+ </button>
+ </div>
+ );
+
+ const renderTextEditor = () => {
+ const text = textOverlays.find(t => t.id === selectedText);
+ if (!text) {
+ return null;
+ }
+
+ return (
+ <div className="border-t pt-4 space-y-3">
+ <h4 className="font-medium text-gray-900 dark:text-white">Edit Text</h4>
+ <input
+ type="text"
+ value={text.text}
+ onChange={e => updateTextOverlay(text.id, { text: e.target.value })}
+ className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+ placeholder="Enter text"
+ />
+
+ <div className="grid grid-cols-2 gap-3">
+ <div>
+ <label htmlFor="text-font-size" className={LABEL_CLASSES}>
+ Font Size
+ </label>
+ <input
+ type="range"
+ id="text-font-size"
+ min="12"
+ max="72"
+ value={text.fontSize}
+ onChange={e => updateTextOverlay(text.id, { fontSize: parseInt(e.target.value, 10) })}
+ className="w-full"
+ />
+ </div>
+
+ <div>
+ <label htmlFor="text-color" className={LABEL_CLASSES}>
+ Color
+ </label>
+ <input
+ type="color"
+ id="text-color"
+ value={text.color}
+ onChange={e => updateTextOverlay(text.id, { color: e.target.value })}
+ className="w-full h-8 rounded"
+ />
+ </div>
+ </div>
+ </div>
+ );
+ };
+
+ const renderTextPanel = () => (
+ <div className="space-y-4">
+ <div className="flex items-center justify-between">
+ <h3 className="font-medium text-gray-900 dark:text-white">Text Overlays</h3>
+ <button
+ onClick={addTextOverlay}
+ className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
  >
- Add Text;
-// FIXED:  </button>
-// FIXED:  </div>
+ Add Text
+ </button>
+ </div>
 
- <div className={"spac}e - y - 3">
- {textOverlays.map((text: string) => (, }))
+ <div className="space-y-3">
+ {textOverlays.map(text => (
  <div
-          key={text.id}
-// FIXED:  className={`p - 3 border rounded cursor - pointer ${, }
- selectedText === text.id;
- ? 'border - blue - 500 bg - blue - 50 dark:bg - blue - 900 / 20';
- : 'border - gray - 200 dark:border - gray - 700'
- }`} />
-// FIXED:  onClick={() => setSelectedText(text.id: React.MouseEvent), }
+ key={text.id}
+ className={`p-3 border rounded cursor-pointer ${
+ selectedText === text.id
+ ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+ : 'border-gray-200 dark:border-gray-700'
+ }`}
+ onClick={() => setSelectedText(text.id)}
  >
- <div className={"fle}x items - center justify - between">
- <span className={"fon}t - medium text - gray - 900 dark:text - white">
+ <div className="flex items-center justify-between">
+ <span className="font-medium text-gray-900 dark:text-white">
  {text.text}
-// FIXED:  </span>
- <button />
-// FIXED:  onClick={(e: React.MouseEvent) => {, }
+ </span>
+ <button
+ onClick={e => {
  e.stopPropagation();
  deleteTextOverlay(text.id);
-// FIXED:  className={"tex}t - red - 500 hover:text - red - 700"
+ }}
+ className="text-red-500 hover:text-red-700"
+ aria-label="Delete text"
  >
  ×
-// FIXED:  </button>
-// FIXED:  </div>
-<div className={"tex}t - sm text - gray - 600 dark:text - gray - 400 mt - 1">
+ </button>
+ </div>
+ <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
  {formatTime(text.startTime)} - {formatTime(text.endTime)}
-// FIXED:  </div>
-// FIXED:  </div>
-// FIXED:  </div>
-
- {selectedText && (}) => {
- <div className={"borde}r - t pt - 4 space - y - 3">
- <h4 className={"fon}t - medium text - gray - 900 dark:text - white">Edit Text</h4>
- {(() => {}) => {
- const text = textOverlays.find(t => t.id === selectedText);
- if (!text) {}
-return null;
-
- return (
- <div className={"spac}e - y - 3">
- <input;>
-// FIXED:  type="text"
-// FIXED:  value={text.text} />
-// FIXED:  onChange={(e: any) => updateTextOverlay(text.id, { text: e.target.value })}
-// FIXED:  className="w - full px - 3 py - 2 border border - gray - 300 dark:border - gray - 600 rounded bg - white dark:bg - gray - 800 text - gray - 900 dark:text - white"
-// FIXED:  placeholder="Enter text" />
-
- <div className={"gri}d grid - cols - 2 gap - 3">
- <div>
- <label htmlFor="text - font - size" className={"bloc}k text - sm font - medium text - gray - 700 dark:text - gray - 300 mb - 1">
- Font Size;
-// FIXED:  </label>
- <input;>
-// FIXED:  type="range"
-// FIXED:  id="text - font - size"
- min="12";
- max="72";
-// FIXED:  value={text.fontSize} />
-// FIXED:  onChange={(e: any) => updateTextOverlay(text.id, { fontSize: parseInt(e.target.value, 10) })}
-// FIXED:  className="w - full" />
-// FIXED:  </div>
-
- <div>
- <label htmlFor="text - color" className={"bloc}k text - sm font - medium text - gray - 700 dark:text - gray - 300 mb - 1">
- Color;
-// FIXED:  </label>
- <input;>
-// FIXED:  type="color"
-// FIXED:  id="text - color"
-// FIXED:  value={text.color} />
-// FIXED:  onChange={(e: any) => updateTextOverlay(text.id, { color: e.target.value })}
-// FIXED:  className="w - full h - 8 rounded" />
-// FIXED:  </div>
-// FIXED:  </div>
-// FIXED:  </div>
- })()}
-// FIXED:  </div>
-// FIXED:  </div>
-
- const renderFiltersPanel = () => (;)
-          <div className={"spac}e - y - 4">
- <div className={"fle}x items - center justify - between">
- <h3 className={"fon}t - medium text - gray - 900 dark:text - white">Filters & Effects</h3>
-// FIXED:  </div>
-
- <div className={"gri}d grid - cols - 2 gap - 2">
- {['brightness', 'contrast', 'saturation', 'blur', 'sepia', 'grayscale'].map((filterType) => (}))
+ </div>
+ </div>
+ ))}
+ </div>
+
+ {selectedText && renderTextEditor()}
+ </div>
+ );
+
+ const renderFiltersPanel = () => (
+ <div className="space-y-4">
+ <div className="flex items-center justify-between">
+ <h3 className="font-medium text-gray-900 dark:text-white">Filters & Effects</h3>
+ </div>
+
+ <div className="grid grid-cols-2 gap-2">
+ {FILTER_TYPES.map(filterType => (
  <button
-          key={filterType} />
-// FIXED:  onClick={() => addFilter(filterType as VideoFilter['type']: React.MouseEvent), }
-// FIXED:  className={"p}x - 3 py - 2 border border - gray - 300 dark:border - gray - 600 rounded text - sm hover:bg - gray - 50 dark:hover:bg - gray - 700"
+ key={filterType}
+ onClick={() => addFilter(filterType)}
+ className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded text-sm hover:bg-gray-50 dark:hover:bg-gray-700"
  >
  {filterType.charAt(0).toUpperCase() + filterType.slice(1)}
-// FIXED:  </button>
-// FIXED:  </div>
-
- <div className={"spac}e - y - 3">
- {filters.map((filter) => (}))
- <div key={filter.id} className="p - 3 border border - gray - 200 dark:border - gray - 700 rounded">
- <div className={"fle}x items - center justify - between mb - 2">
- <span className={"fon}t - medium text - gray - 900 dark:text - white">
+ </button>
+ ))}
+ </div>
+
+ <div className="space-y-3">
+ {filters.map(filter => (
+ <div key={filter.id} className="p-3 border border-gray-200 dark:border-gray-700 rounded">
+ <div className="flex items-center justify-between mb-2">
+ <span className="font-medium text-gray-900 dark:text-white">
  {filter.name}
-// FIXED:  </span>
- <button />
-// FIXED:  onClick={() => removeFilter(filter.id: React.MouseEvent), }
-// FIXED:  className={"tex}t - red - 500 hover:text - red - 700"
+ </span>
+ <button
+ onClick={() => removeFilter(filter.id)}
+ className="text-red-500 hover:text-red-700"
+ aria-label={`Remove ${filter.name}`}
  >
  ×
-// FIXED:  </button>
-// FIXED:  </div>
- <input;>
-// FIXED:  type="range"
- min="0";
- max={filter.type === 'blur' ? 10 : 200, }
-// FIXED:  value={filter.value} />
-// FIXED:  onChange={(e: React.ChangeEvent) => updateFilter(filter.id, parseInt(e.target.value, 10))}
-// FIXED:  className="w - full" />
- <div className={"tex}t - sm text - gray - 600 dark:text - gray - 400 mt - 1">
- {filter.value}{filter.type === 'blur' ? 'px' : '%', }
-// FIXED:  </div>
-// FIXED:  </div>
-// FIXED:  </div>
-// FIXED:  </div>
+ </button>
+ </div>
+ <input
+ type="range"
+ min="0"
+ max={filter.type === 'blur' ? 10 : 200}
+ value={filter.value}
+ onChange={e => updateFilter(filter.id, parseInt(e.target.value, 10))}
+ className="w-full"
+ />
+ <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+ {filter.value}{filter.type === 'blur' ? 'px' : '%'}
+ </div>
+ </div>
+ ))}
+ </div>
+ </div>
+ );
 
  return (
- <div className={`max - w - 7xl mx - auto p - 6 ${className}`}>
- <div className={"gri}d grid - cols - 1 lg:grid - cols - 4 gap - 6">
+ <div className={`max-w-7xl mx-auto p-6 ${className}`}>
+ <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
  {/* Video Preview */}
- <div className={"lg}:col - span - 3 space - y - 6">
- <div className={"b}g - black rounded - lg overflow - hidden aspect - video">
- <video;>
+ <div className="lg:col-span-3 space-y-6">
+ <div className="bg-black rounded-lg overflow-hidden aspect-video">
+ <video
  ref={videoRef}
-// FIXED:  src={videoUrl, }
-// FIXED:  className="w - full h - full object - contain"
- muted={isMuted} />
+ src={videoUrl}
+ className="w-full h-full object-contain"
+ muted={isMuted}
  onPlay={() => setIsPlaying(true)}
- onPause={() => setIsPlaying(false)} />
- <canvas ref={canvasRef} className={"hidden}" />
-// FIXED:  </div>
+ onPause={() => setIsPlaying(false)}
+ />
+ <canvas ref={canvasRef} className="hidden" />
+ </div>
 
  {renderTimeline()}
-// FIXED:  </div>
+ </div>
 
  {/* Editing Panel */}
- <div className={"spac}e - y - 6">
+ <div className="space-y-6">
  {/* Tab Navigation */}
- <div className={"fle}x flex - wrap gap - 1 bg - gray - 100 dark:bg - gray - 800 p - 1 rounded - lg">
- {[}
- { id: 'trim',}
- icon: ScissorsIcon, label: 'Trim' },
- { id: 'text',}
- icon: DocumentTextIcon, label: 'Text' },
- { id: 'filters',}
- icon: AdjustmentsHorizontalIcon, label: 'Filters' }].map((tab) => (;))
-          <button
-          key={tab.id} />
-// FIXED:  onClick={() => setActiveTab(tab.id as any: React.MouseEvent), }
-// FIXED:  className={`flex - 1 flex items - center justify - center space - x - 1 px - 3 py - 2 rounded text - sm font - medium transition - colors ${, }
- activeTab === tab.id;
- ? 'bg - white dark:bg - gray - 700 text - gray - 900 dark:text - white shadow - sm';
- : 'text - gray - 600 dark:text - gray - 400 hover:text - gray - 900 dark:hover:text - white'
+ <div className="flex flex-wrap gap-1 bg-gray-100 dark:bg-gray-800 p-1 rounded-lg">
+ {TABS.map(tab => (
+ <button
+ key={tab.id}
+ onClick={() => setActiveTab(tab.id)}
+ className={`flex-1 flex items-center justify-center space-x-1 px-3 py-2 rounded text-sm font-medium transition-colors ${
+ activeTab === tab.id
+ ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+ : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
  }`}
  >
- <tab.icon className="w - 4 h - 4" />
+ <tab.icon className="w-4 h-4" />
  <span>{tab.label}</span>
-// FIXED:  </button>
-// FIXED:  </div>
+ </button>
+ ))}
+ </div>
 
  {/* Tab Content */}
- <div className={"b}g - white dark:bg - gray - 800 border border - gray - 200 dark:border - gray - 700 rounded - lg p - 4">
+ <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
  {activeTab === 'trim' && renderTrimPanel()}
  {activeTab === 'text' && renderTextPanel()}
  {activeTab === 'filters' && renderFiltersPanel()}
-// FIXED:  </div>
+ {activeTab === 'captions' && (
+ <CaptionEditor
+ track={captionTrack}
+ onChange={setCaptionTrack}
+ currentTime={currentTime}
+ duration={duration}
+ onSeek={seekTo}
+ fileName={videoFile.name.replace(/\.[^.]+$/, '')}
+ />
+ )}
+ </div>
 
  {/* Action Buttons */}
- <div className={"spac}e - y - 3">
- <button />
-// FIXED:  onClick={(e: React.MouseEvent) => exportVideo(e), }
-// FIXED:  disabled={isProcessing, }
-// FIXED:  className="w - full bg - green - 600 text - white py - 3 rounded - lg hover:bg - green - 700 disabled:opacity - 50 disabled:cursor - not - allowed flex items - center justify - center space - x - 2"
+ <div className="space-y-3">
+ <button
+ onClick={() => void exportVideo()}
+ disabled={isProcessing}
+ className="w-full bg-green-600 text-white py-3 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
  >
- {isProcessing ? (}) => {
- <><< /> /><< /> /><< /> />
- <div className="w - 4 h - 4 border - 2 border - white border - t - transparent rounded - full animate - spin" />
- <span > Processing...</span>
-// FIXED:  < />
- ) : (;
- <><< /> /><< /> /><< /> />
- <CloudArrowDownIcon className="w - 5 h - 5" />
- <span > Export Video</span>
-// FIXED:  < />
-// FIXED:  </button>
-
- <button />
-// FIXED:  onClick={(e: React.MouseEvent) => onCancel(e), }
-// FIXED:  className="w - full border border - gray - 300 dark:border - gray - 600 text - gray - 700 dark:text - gray - 300 py - 3 rounded - lg hover:bg - gray - 50 dark:hover:bg - gray - 700"
+ {isProcessing ? (
+ <>
+ <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+ <span>Processing...</span>
+ </>
+ ) : (
+ <>
+ <CloudArrowDownIcon className="w-5 h-5" />
+ <span>Export Video</span>
+ </>
+ )}
+ </button>
+
+ <button
+ onClick={onCancel}
+ className="w-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 py-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
  >
- Cancel;
-// FIXED:  </button>
-// FIXED:  </div>
-// FIXED:  </div>
-// FIXED:  </div>
-// FIXED:  </div>
+ Cancel
+ </button>
+ </div>
+ </div>
+ </div>
+ </div>
+ );
+};
 
 export default memo(VideoEditor);
@@ -1,12 +1,38 @@
-import React, { FC } from 'react';
+import React from 'react';
+
 interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
  variant?: 'primary' | 'secondary' | 'danger' | 'ghost' | 'link';
  size?: 'xs' | 'sm' | 'md' | 'lg';
  isLoading?: boolean;
  leftIcon?: React.ReactNode;
  rightIcon?: React.ReactNode;
+}
+
+const baseClasses = 'inline-flex items-center justify-center font-medium rounded-full transition-colors duration-150 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-sky-500 disabled:opacity-50 disabled:cursor-not-allowed';
+
+const variantClasses = {
+ primary: 'bg-sky-600 text-white hover:bg-sky-700',
+ secondary: 'bg-neutral-100 text-neutral-900 hover:bg-neutral-200 dark:bg-neutral-800 dark:text-neutral-100 dark:hover:bg-neutral-700',
+ danger: 'bg-red-600 text-white hover:bg-red-700',
+ ghost: 'bg-transparent text-neutral-700 hover:bg-neutral-100 dark:text-neutral-200 dark:hover:bg-neutral-800',
+ link: 'bg-transparent text-sky-600 hover:underline dark:text-sky-400'
+};
+
+const sizeClasses = {
+ xs: 'px-2.5 py-1 text-xs',
+ sm: 'px-3 py-1.5 text-sm',
+ md: 'px-4 py-2 text-sm',
+ lg: 'px-5 py-2.5 text-base'
+};
 
-const Button: React.FC<ButtonProps> = ({)
+const iconSizeClasses = {
+ xs: 'w-3.5 h-3.5',
+ sm: 'w-4 h-4',
+ md: 'w-5 h-5',
+ lg: 'w-5 h-5'
+};
+
+const Button: React.FC<ButtonProps> = ({
  children,
  variant = 'primary',
  size = 'md',
@@ -15,40 +41,31 @@ const Button: React.FC<ButtonProps> = ({)
  rightIcon,
  className = '',
  disabled,
- ...props;
-}) => {const iconSizeClasses = {
- xs: 'w-3.5 h-3.5',
- sm: 'w-4 h-4',
- md: 'w-5 h-5',
- lg: 'w-5 h-5' };
-
- return (
- <button>
- type="button";
+ ...props
+}) => (
+ <button
+ type="button"
  className={`${baseClasses} ${variantClasses[variant]} ${sizeClasses[size]} ${className}`}
  disabled={disabled || isLoading}
- {...props} />
- {isLoading && ()
- <svg>
-  className={`animate-spin h-5 w-5 ${children ? (leftIcon ? 'mr-2' : '-ml-1 mr-2') : ''} text-current`, }
-  xmlns="http://www.w3.org/2000/svg"
- fill="none";
- viewBox="0 0 24 24"; />
- <circle>
-  className="opacity-25"
-  cx="12";
-  cy="12";
-  r="10";
-  stroke="currentColor";
-  strokeWidth="4" / />
-        <path>
-          className="opacity-75"
-          fill="currentColor";
-          d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z";
- / />
-      </svg>
- {leftIcon && !isLoading && <span className={`${children ? 'mr-2' : ''} ${iconSizeClasses[size]}`}>{leftIcon}</span>, }
+ {...props}>
+ {isLoading && (
+ <svg
+ className={`animate-spin h-5 w-5 ${children ? (leftIcon ? 'mr-2' : '-ml-1 mr-2') : ''} text-current`}
+ xmlns="http://www.w3.org/2000/svg"
+ fill="none"
+ viewBox="0 0 24 24"
+ aria-hidden="true">
+ <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+ <path
+ className="opacity-75"
+ fill="currentColor"
+ d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+ </svg>
+ )}
+ {leftIcon && !isLoading && <span className={`${children ? 'mr-2' : ''} ${iconSizeClasses[size]}`}>{leftIcon}</span>}
  {children}
- {rightIcon && !isLoading && <span className={`${children ? 'ml-2' : ''} ${iconSizeClasses[size]}`}>{rightIcon}</span>, }
+ {rightIcon && !isLoading && <span className={`${children ? 'ml-2' : ''} ${iconSizeClasses[size]}`}>{rightIcon}</span>}
  </button>
-export default Button;
\ No newline at end of file
+);
+
+export default Button;
@@ -1,19 +1,24 @@
-import React, { FC } from 'react';
+import React from 'react';
+
 interface SummarizeIconProps {
  className?: string;
+}
 
-export const SummarizeIcon: React.FC<SummarizeIconProps> = ({ className = 'w-6 h-6' }: any) => {
+export const SummarizeIcon: React.FC<SummarizeIconProps> = ({ className = 'w-6 h-6' }) => {
  return (
- <svg;>
-// FIXED:  className={className, }
- fill="none";
- stroke="currentColor";
- viewBox="0 0 24 24";
- xmlns="http://www.w3.org/2000/svg" />
- <path;>
- strokeLinecap="round";
- strokeLinejoin="round";
+ <svg
+ className={className}
+ fill="none"
+ stroke="currentColor"
+ viewBox="0 0 24 24"
+ xmlns="http://www.w3.org/2000/svg">
+ <path
+ strokeLinecap="round"
+ strokeLinejoin="round"
  strokeWidth={2}
- d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />; />
-// FIXED:  </svg>
-export default SummarizeIcon;
\ No newline at end of file
+ d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+ </svg>
+ );
+};
+
+export default SummarizeIcon;
@@ -25,6 +25,7 @@ export { default as YouTubePlayer } from './YouTubePlayer';
 export { default as VideoDescription } from './VideoDescription';
 export { default as RefactoredVideoDescription } from './RefactoredVideoDescription';
 export { default as VideoActions } from './VideoActions';
+export { default as DownloadButton } from './DownloadButton';
 
 // Navigation and Search;
 export { default as SearchBar } from './SearchBar';
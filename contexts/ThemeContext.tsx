@@ -75,7 +75,7 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
   const value = {
     theme,
     setTheme,
-    actualTheme;
+    actualTheme
   };
 
   return (
@@ -13,6 +13,13 @@ const CACHE_DURATION = {
  API: 5 * 60 * 1000, // 5 minutes
 };
 
+// Offline downloads; must match src/utils/offlineStorage.ts
+const OFFLINE_DB_NAME = 'youtubex-offline';
+const OFFLINE_DB_VERSION = 1;
+const OFFLINE_DOWNLOADS_STORE = 'downloads';
+const OFFLINE_CHUNKS_STORE = 'chunks';
+const OFFLINE_VIDEO_PATH = '/offline/videos/';
+
 // Static assets to cache immediately
 const STATIC_ASSETS = [
  '/',
@@ -97,10 +104,13 @@ self.addEventListener('fetch', (event) => {
  } catch (err) {
  console.error('[SW] Handler threw error. Returning fallback Response.', err);
  return new Response('Network error', { status: 503, statusText: 'Service Unavailable' });
+ }
  };
 
  // Handle different types of requests
- if (isStaticAsset(url)) {
+ if (isOfflineVideoRequest(url)) {
+ event.respondWith(withResponseGuard(handleOfflineVideoRequest(request, url)));
+ } else if (isStaticAsset(url)) {
  event.respondWith(withResponseGuard(handleStaticAsset(request)));
  } else if (isImageRequest(url)) {
  event.respondWith(withResponseGuard(handleImageRequest(request)));
@@ -111,9 +121,13 @@ self.addEventListener('fetch', (event) => {
  } else {
  event.respondWith(withResponseGuard(handleDynamicRequest(request)));
  }
- };
 });
 
+// Check if request is for a video saved for offline viewing
+function isOfflineVideoRequest(url) {
+ return url.origin === self.location.origin && url.pathname.startsWith(OFFLINE_VIDEO_PATH);
+}
+
 // Check if request is for static assets
 function isStaticAsset(url) {
  return (
@@ -331,6 +345,107 @@ async function handleDynamicRequest(request) {
  }
 }
 
+// Open the offline downloads database without creating it; the page owns the schema
+function openOfflineDatabase() {
+ return new Promise((resolve, reject) => {
+ const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+ request.onupgradeneeded = () => {
+ // Nothing has been downloaded yet
+ request.transaction.abort();
+ };
+ request.onsuccess = () => resolve(request.result);
+ request.onerror = () => reject(request.error);
+ });
+}
+
+function idbRequest(request) {
+ return new Promise((resolve, reject) => {
+ request.onsuccess = () => resolve(request.result);
+ request.onerror = () => reject(request.error);
+ });
+}
+
+// Parse a single "bytes=start-end" range against a file of `size` bytes
+function parseRangeHeader(header, size) {
+ const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+ if (!match || (!match[1] && !match[2])) {
+ return null;
+ }
+ let start;
+ let end;
+ if (!match[1]) {
+ // Suffix range: the last N bytes
+ start = Math.max(0, size - Number(match[2]));
+ end = size - 1;
+ } else {
+ start = Number(match[1]);
+ end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+ }
+ return start <= end && start < size ? { start, end } : null;
+}
+
+// Serve a downloaded video from IndexedDB, honouring Range so the player can seek
+async function handleOfflineVideoRequest(request, url) {
+ const videoId = decodeURIComponent(url.pathname.slice(OFFLINE_VIDEO_PATH.length));
+ let db;
+ try {
+ db = await openOfflineDatabase();
+ } catch (error) {
+ return new Response('Video not downloaded', { status: 404 });
+ }
+
+ try {
+ const download = await idbRequest(
+ db.transaction(OFFLINE_DOWNLOADS_STORE).objectStore(OFFLINE_DOWNLOADS_STORE).get(videoId)
+ );
+ if (!download || download.status !== 'complete') {
+ return new Response('Video not downloaded', { status: 404 });
+ }
+ if (download.expiresAt && download.expiresAt <= Date.now()) {
+ return new Response('Download expired', { status: 410 });
+ }
+
+ const size = download.size;
+ const rangeHeader = request.headers.get('range');
+ const range = rangeHeader ? parseRangeHeader(rangeHeader, size) : { start: 0, end: size - 1 };
+ if (!range) {
+ return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+ }
+
+ // Chunk blobs are read lazily, so listing them all is cheap; only the overlapping slices are sent
+ const chunkStore = db.transaction(OFFLINE_CHUNKS_STORE).objectStore(OFFLINE_CHUNKS_STORE);
+ const chunks = await idbRequest(
+ chunkStore.getAll(IDBKeyRange.bound([videoId, 0], [videoId, Infinity]))
+ );
+ const parts = [];
+ let offset = 0;
+ for (const chunk of chunks) {
+ const chunkEnd = offset + chunk.data.size;
+ if (chunkEnd > range.start && offset <= range.end) {
+ parts.push(chunk.data.slice(Math.max(0, range.start - offset), Math.min(chunk.data.size, range.end + 1 - offset)));
+ }
+ offset = chunkEnd;
+ if (offset > range.end) {
+ break;
+ }
+ }
+ const body = new Blob(parts, { type: download.mimeType });
+ const headers = {
+ 'Content-Type': download.mimeType,
+ 'Content-Length': String(body.size),
+ 'Accept-Ranges': 'bytes'
+ };
+
+ if (!rangeHeader) {
+ return new Response(body, { status: 200, headers });
+ }
+ headers['Content-Range'] = `bytes ${range.start}-${range.end}/${size}`;
+ return new Response(body, { status: 206, statusText: 'Partial Content', headers });
+ } finally {
+ db.close();
+ }
+}
+
 // Check if cached response is expired
 function isExpired(response, maxAge) {
  const dateHeader = response.headers.get('date');
@@ -382,26 +497,61 @@ async function syncVideoUploads() {
  }
 }
 
-// Sync user actions (likes, comments, etc.)
+// Sync user actions (likes, comments, etc.) queued by src/utils/syncOutbox.ts.
+// Actions go out oldest first; a transient failure stops the run so later
+// actions cannot overtake it, and throwing makes the browser retry the sync.
 async function syncUserActions() {
- try {
  const pendingActions = await getPendingActions();
+ let settled = 0;
 
+ try {
  for (const action of pendingActions) {
+ let response;
  try {
- await fetch(action.endpoint, {
+ response = await fetch(action.url, {
  method: action.method,
- headers: { 'Content-Type': 'application/json' },
- body: JSON.stringify(action.data)
+ headers: {
+ 'Content-Type': 'application/json',
+ 'Idempotency-Key': action.id,
+ 'X-Occurred-At': new Date(action.occurredAt).toISOString(),
+ ...action.headers
+ },
+ body: action.body === undefined ? undefined : JSON.stringify(action.body)
  });
-
- await removePendingAction(action.id);
  } catch (error) {
-   console.error('[SW] Failed to sync action:', error);
-  }
+ await retryPendingAction(action, error.message || 'Network error');
+ throw error;
+ }
+
+ const body = response.status === 204 ? undefined : await response.json().catch(() => undefined);
+ if (response.ok) {
+ await removePendingAction(action, { outcome: 'confirmed', status: response.status, response: body });
+ settled++;
+ continue;
+ }
+
+ const inFlight = response.status === 409 && response.headers.has('Retry-After');
+ if (inFlight || response.status === 408 || response.status === 429 || response.status >= 500) {
+ if (await retryPendingAction(action, `HTTP ${response.status}`)) {
+ settled++;
+ continue;
+ }
+ throw new Error(`Action ${action.id} failed with HTTP ${response.status}`);
+ }
+
+ // A conflict with a newer change, or a request the server will never accept
+ await removePendingAction(action, {
+ outcome: 'rejected',
+ status: response.status,
+ response: body,
+ error: (body && body.message) || `HTTP ${response.status}`
+ });
+ settled++;
+ }
+ } finally {
+ if (settled) {
+ await notifyOutboxClients();
  }
- } catch (error) {
-  console.error('[SW] Action sync failed:', error);
  }
 }
 
@@ -477,13 +627,71 @@ async function removePendingUpload(id) {
  // Implementation would remove upload from IndexedDB
 }
 
+// Outbox database; must match src/utils/syncOutbox.ts
+const OUTBOX_DB_NAME = 'youtubex-sync';
+const OUTBOX_DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+const OUTBOX_RESULTS_STORE = 'results';
+const OUTBOX_MAX_ATTEMPTS = 5;
+
+function openOutboxDatabase() {
+ return new Promise((resolve, reject) => {
+ const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+ request.onupgradeneeded = () => {
+ const db = request.result;
+ db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+ db.createObjectStore(OUTBOX_RESULTS_STORE, { keyPath: 'id' });
+ };
+ request.onsuccess = () => resolve(request.result);
+ request.onerror = () => reject(request.error);
+ });
+}
+
 async function getPendingActions() {
- // Implementation would use IndexedDB to get pending actions
- return [];
+ const db = await openOutboxDatabase();
+ try {
+ const actions = await idbRequest(db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE).getAll());
+ return actions.sort((a, b) => a.occurredAt - b.occurredAt);
+ } finally {
+ db.close();
+ }
 }
 
-async function removePendingAction(id) {
- // Implementation would remove action from IndexedDB
+// Remove a settled action and record its outcome for the page to apply (e.g. roll back)
+async function removePendingAction(action, result) {
+ const db = await openOutboxDatabase();
+ try {
+ const transaction = db.transaction([OUTBOX_STORE, OUTBOX_RESULTS_STORE], 'readwrite');
+ transaction.objectStore(OUTBOX_STORE).delete(action.id);
+ transaction.objectStore(OUTBOX_RESULTS_STORE).put({ id: action.id, action, settledAt: Date.now(), ...result });
+ await new Promise((resolve, reject) => {
+ transaction.oncomplete = resolve;
+ transaction.onerror = () => reject(transaction.error);
+ });
+ } finally {
+ db.close();
+ }
+}
+
+// Count a failed attempt; returns true if the action was given up on instead
+async function retryPendingAction(action, error) {
+ const attempts = action.attempts + 1;
+ if (attempts >= OUTBOX_MAX_ATTEMPTS) {
+ await removePendingAction(action, { outcome: 'rejected', error });
+ return true;
+ }
+ const db = await openOutboxDatabase();
+ try {
+ await idbRequest(
+ db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).put({ ...action, attempts, lastError: error })
+ );
+ } finally {
+ db.close();
+ }
+ return false;
 }
 
-console.log('[SW] Service worker loaded successfully');
\ No newline at end of file
+async function notifyOutboxClients() {
+ const clientList = await self.clients.matchAll({ type: 'window' });
+ clientList.forEach((client) => client.postMessage({ type: 'outbox-settled' }));
+}
@@ -0,0 +1,294 @@
+// Analytics collector: batched AnalyticsService events, deduplicated by ID and kept in per-day files for querying
+import fs from 'fs';
+import path from 'path';
+import express from 'express';
+
+import { DATA_DIR } from './storage.js';
+
+export const EVENTS_DIR = path.join(DATA_DIR, 'analytics-events');
+export const EVENT_CATEGORIES = ['user_action', 'performance', 'error', 'navigation', 'video', 'engagement'];
+
+const MAX_BATCH_SIZE = 500;
+const MAX_ID_LENGTH = 100;
+const MAX_NAME_LENGTH = 100;
+// Serialized `properties`; anything bigger is almost certainly a bug in the caller
+const MAX_PROPERTIES_BYTES = 8 * 1024;
+// Room for a full batch at the largest allowed `properties`, plus the event's other fields
+export const MAX_BODY_BYTES = MAX_BATCH_SIZE * (MAX_PROPERTIES_BYTES + 1024);
+// Clocks drift; events from further ahead than this are refused
+const MAX_CLOCK_SKEW_MS = 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_QUERY_DAYS = 366;
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 1000;
+
+const sendError = (res, status, error, message) =>
+ res.status(status).json({ error, message, timestamp: new Date().toISOString() });
+
+const dayOf = (timestamp) => new Date(timestamp).toISOString().slice(0, 10);
+const isDay = (value) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+const isShortString = (value, max) => typeof value === 'string' && value.length > 0 && value.length <= max;
+
+/** Problems with one `AnalyticsEvent`, empty when it is valid */
+export const validateEvent = (event, { now = Date.now(), retentionDays = Infinity } = {}) => {
+ if (!isPlainObject(event)) {
+ return ['event must be an object'];
+ }
+ const errors = [];
+ if (!isShortString(event.id, MAX_ID_LENGTH)) {
+ errors.push(`id must be a non-empty string of at most ${MAX_ID_LENGTH} characters`);
+ }
+ if (!isShortString(event.name, MAX_NAME_LENGTH)) {
+ errors.push(`name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`);
+ }
+ if (!isShortString(event.sessionId, MAX_ID_LENGTH)) {
+ errors.push('sessionId must be a non-empty string');
+ }
+ if (event.userId !== undefined && event.userId !== null && !isShortString(event.userId, MAX_ID_LENGTH)) {
+ errors.push('userId must be a string when present');
+ }
+ if (!EVENT_CATEGORIES.includes(event.category)) {
+ errors.push(`category must be one of: ${EVENT_CATEGORIES.join(', ')}`);
+ }
+ if (!Number.isFinite(event.timestamp)) {
+ errors.push('timestamp must be milliseconds since the epoch');
+ } else if (event.timestamp > now + MAX_CLOCK_SKEW_MS) {
+ errors.push('timestamp is in the future');
+ } else if (event.timestamp < now - retentionDays * DAY_MS) {
+ errors.push(`timestamp is older than ${retentionDays} days`);
+ }
+ if (event.properties !== undefined) {
+ if (!isPlainObject(event.properties)) {
+ errors.push('properties must be an object');
+ } else if (Buffer.byteLength(JSON.stringify(event.properties)) > MAX_PROPERTIES_BYTES) {
+ errors.push(`properties must serialize to at most ${MAX_PROPERTIES_BYTES} bytes`);
+ }
+ }
+ return errors;
+};
+
+/**
+ * Builds the collector that `AnalyticsService.flush` sends to.
+ *
+ * `POST /analytics/events` takes `{ events, session }` batches, from fetch
+ * or `navigator.sendBeacon`. Each event is validated on its own: valid ones
+ * are stored, invalid ones are reported back by index and not retried, and
+ * events already stored (same `id`) are counted as duplicates, so clients
+ * can safely resend a batch they are unsure about.
+ *
+ * Events are appended to `<DATA_DIR>/analytics-events/<YYYY-MM-DD>.jsonl` by
+ * the UTC day they happened on, and files older than `retentionDays` are
+ * removed. `GET /analytics/events` filters them and `GET /analytics/daily`
+ * counts them per day, e.g. `video` and `engagement` events for dashboards.
+ * With an `apiKey`, every route requires it as a bearer token (or `?key=`,
+ * since beacons cannot set headers).
+ */
+export const createAnalyticsCollector = ({ apiKey = null, retentionDays = 90, dir = EVENTS_DIR } = {}) => {
+ // Every stored event ID, for deduplication
+ const seen = new Set();
+ // day -> parsed events, dropped whenever the day's file changes
+ const cache = new Map();
+
+ const fileFor = (day) => path.join(dir, `${day}.jsonl`);
+ const storedDays = () =>
+ fs.existsSync(dir) ? fs.readdirSync(dir).filter(file => file.endsWith('.jsonl')).map(file => file.slice(0, -6)).sort() : [];
+
+ const readDay = (day) => {
+ if (!cache.has(day)) {
+ let events = [];
+ try {
+ events = fs.readFileSync(fileFor(day), 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line));
+ } catch {
+ // No events that day
+ }
+ cache.set(day, events);
+ }
+ return cache.get(day);
+ };
+
+ const prune = () => {
+ const oldest = dayOf(Date.now() - retentionDays * DAY_MS);
+ for (const day of storedDays().filter(day => day < oldest)) {
+ readDay(day).forEach(event => seen.delete(event.id));
+ cache.delete(day);
+ fs.rmSync(fileFor(day), { force: true });
+ }
+ };
+
+ for (const day of storedDays()) {
+ readDay(day).forEach(event => seen.add(event.id));
+ cache.delete(day);
+ }
+ prune();
+ const pruneTimer = setInterval(prune, DAY_MS);
+ pruneTimer.unref?.();
+
+ const ingest = (events, session) => {
+ const now = Date.now();
+ const byDay = new Map();
+ const rejected = [];
+ let duplicates = 0;
+
+ events.forEach((event, index) => {
+ const errors = validateEvent(event, { now, retentionDays });
+ if (errors.length) {
+ rejected.push({ index, id: typeof event?.id === 'string' ? event.id : null, errors });
+ return;
+ }
+ if (seen.has(event.id)) {
+ duplicates += 1;
+ return;
+ }
+ seen.add(event.id);
+ const day = dayOf(event.timestamp);
+ if (!byDay.has(day)) {
+ byDay.set(day, []);
+ }
+ byDay.get(day).push({
+ id: event.id,
+ name: event.name,
+ category: event.category,
+ timestamp: event.timestamp,
+ sessionId: event.sessionId,
+ userId: event.userId ?? null,
+ properties: event.properties ?? {},
+ userAgent: typeof session?.userAgent === 'string' ? session.userAgent.slice(0, 300) : null,
+ receivedAt: now
+ });
+ });
+
+ if (byDay.size) {
+ fs.mkdirSync(dir, { recursive: true });
+ }
+ for (const [day, stored] of byDay) {
+ fs.appendFileSync(fileFor(day), stored.map(event => `${JSON.stringify(event)}\n`).join(''));
+ cache.delete(day);
+ }
+ return { accepted: events.length - rejected.length - duplicates, duplicates, rejected };
+ };
+
+ // Days from `from` to `to` (inclusive), defaulting to the last week
+ const dayRange = (query) => {
+ const to = query.to || dayOf(Date.now());
+ if (!isDay(to)) {
+ return null;
+ }
+ const from = query.from || dayOf(Date.parse(to) - 6 * DAY_MS);
+ if (!isDay(from) || from > to) {
+ return null;
+ }
+ const days = [];
+ for (let time = Date.parse(from); time <= Date.parse(to) && days.length < MAX_QUERY_DAYS; time += DAY_MS) {
+ days.push(dayOf(time));
+ }
+ return days;
+ };
+
+ const list = (value) => (value ? String(value).split(',').map(item => item.trim()).filter(Boolean) : []);
+
+ const matcher = (query) => {
+ const categories = list(query.category);
+ const names = list(query.name);
+ return (event) =>
+ (!categories.length || categories.includes(event.category)) &&
+ (!names.length || names.includes(event.name)) &&
+ (!query.sessionId || event.sessionId === query.sessionId) &&
+ (!query.userId || event.userId === query.userId) &&
+ (!query.videoId || event.properties.videoId === query.videoId);
+ };
+
+ const authorize = (req, res, next) => {
+ if (!apiKey) {
+ return next();
+ }
+ const header = req.get('authorization') || '';
+ const key = header.startsWith('Bearer ') ? header.slice(7) : req.query.key;
+ if (key !== apiKey) {
+ return sendError(res, 401, 'Unauthorized', 'A valid analytics API key is required');
+ }
+ next();
+ };
+
+ const router = express.Router();
+ router.use('/analytics', authorize);
+
+ // Beacons arrive as text/plain unless the page sent a typed Blob. A full batch is bigger than the app-wide
+ // JSON parser allows, so this router has to be mounted ahead of it
+ const parseBody = [express.json({ limit: MAX_BODY_BYTES }), express.text({ type: 'text/plain', limit: MAX_BODY_BYTES })];
+ router.post('/analytics/events', parseBody, (req, res) => {
+ let body = req.body;
+ if (typeof body === 'string') {
+ try {
+ body = JSON.parse(body);
+ } catch {
+ return sendError(res, 400, 'Bad request', 'Body must be JSON');
+ }
+ }
+ if (!Array.isArray(body?.events)) {
+ return sendError(res, 400, 'Bad request', 'events must be an array');
+ }
+ if (body.events.length > MAX_BATCH_SIZE) {
+ return sendError(res, 413, 'Payload too large', `Send at most ${MAX_BATCH_SIZE} events per batch`);
+ }
+ res.json(ingest(body.events, body.session));
+ });
+
+ // Stored events, newest first; filters are comma-separated lists where that makes sense
+ router.get('/analytics/events', (req, res) => {
+ const days = dayRange(req.query);
+ if (!days) {
+ return sendError(res, 400, 'Bad request', 'from and to must be YYYY-MM-DD, with from not after to');
+ }
+ const limit = Math.min(MAX_QUERY_LIMIT, Math.max(1, Number(req.query.limit) || DEFAULT_QUERY_LIMIT));
+ const matches = days.flatMap(day => readDay(day)).filter(matcher(req.query)).sort((a, b) => b.timestamp - a.timestamp);
+ res.json({ events: matches.slice(0, limit), total: matches.length });
+ });
+
+ // Per-day counts for dashboards, broken down by event name (or `groupBy=videoId`)
+ router.get('/analytics/daily', (req, res) => {
+ const days = dayRange(req.query);
+ if (!days) {
+ return sendError(res, 400, 'Bad request', 'from and to must be YYYY-MM-DD, with from not after to');
+ }
+ const groupBy = req.query.groupBy === 'videoId' ? 'videoId' : 'name';
+ const matches = matcher(req.query);
+ res.json({
+ from: days[0],
+ to: days[days.length - 1],
+ groupBy,
+ days: days.map(day => {
+ const events = readDay(day).filter(matches);
+ const groups = {};
+ for (const event of events) {
+ const key = (groupBy === 'name' ? event.name : event.properties.videoId) ?? 'unknown';
+ groups[key] = (groups[key] || 0) + 1;
+ }
+ return {
+ date: day,
+ total: events.length,
+ sessions: new Set(events.map(event => event.sessionId)).size,
+ users: new Set(events.map(event => event.userId).filter(Boolean)).size,
+ groups
+ };
+ })
+ });
+ });
+
+ // Body parser failures would otherwise reach the app's error handler as 500s, which clients retry
+ router.use('/analytics', (err, req, res, next) => {
+ if (err.type === 'entity.too.large') {
+ return sendError(res, 413, 'Payload too large', `Send at most ${MAX_BODY_BYTES} bytes per batch`);
+ }
+ if (err.type === 'entity.parse.failed') {
+ return sendError(res, 400, 'Bad request', 'Body must be JSON');
+ }
+ next(err);
+ });
+
+ return {
+ router,
+ ingest,
+ close: () => clearInterval(pruneTimer)
+ };
+};
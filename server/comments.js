@@ -0,0 +1,262 @@
+// Comment threads API: create, edit, delete, reply, like, pin and creator hearts
+import express from 'express';
+
+import { createJsonStore, generateId } from './storage.js';
+
+const MAX_COMMENT_LENGTH = 10000;
+const SORT_ORDERS = ['top', 'newest'];
+const MAX_LIMIT = 100;
+
+const getUserId = (req) => req.get('x-user-id') || req.body?.authorId || 'anonymous';
+
+const sendError = (res, status, error, message) =>
+ res.status(status).json({ error, message, timestamp: new Date().toISOString() });
+
+const validateContent = (content) => {
+ if (typeof content !== 'string' || !content.trim()) {
+ return 'Comment content is required';
+ }
+ if (content.length > MAX_COMMENT_LENGTH) {
+ return `Comment content must be at most ${MAX_COMMENT_LENGTH} characters`;
+ }
+ return null;
+};
+
+const topScore = (comment, replyCount) => comment.likedBy.length + replyCount * 2;
+
+/**
+ * Builds the comments router.
+ *
+ * `getVideoOwnerId(videoId)` resolves the channel that owns a video; only
+ * that user may pin comments or heart them as the creator.
+ */
+export const createCommentsRouter = ({ getVideoOwnerId, store = createJsonStore('comments', { comments: [] }) }) => {
+ const router = express.Router();
+ const comments = () => store.data.comments;
+
+ const findComment = (id) => comments().find(c => c.id === id);
+ const childrenOf = (id) => comments().filter(c => c.parentId === id);
+ const countReplies = (id) =>
+ childrenOf(id).reduce((total, child) => total + 1 + countReplies(child.id), 0);
+
+ const serialize = (comment, viewerId) => {
+ const replies = childrenOf(comment.id)
+ .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+ .map(reply => serialize(reply, viewerId));
+
+ return {
+ id: comment.id,
+ videoId: comment.videoId,
+ parentId: comment.parentId,
+ authorId: comment.deleted ? null : comment.authorId,
+ authorName: comment.deleted ? '[deleted]' : comment.authorName,
+ authorAvatar: comment.deleted ? '' : comment.authorAvatar,
+ content: comment.deleted ? '' : comment.content,
+ createdAt: comment.createdAt,
+ updatedAt: comment.updatedAt,
+ isEdited: comment.edited,
+ isDeleted: comment.deleted,
+ isPinned: comment.pinned,
+ isHearted: comment.heartedByCreator,
+ likes: comment.likedBy.length,
+ isLiked: comment.likedBy.includes(viewerId),
+ replyCount: countReplies(comment.id),
+ replies
+ };
+ };
+
+ // Removes a comment, or tombstones it when replies still hang off it
+ const removeComment = (comment) => {
+ if (childrenOf(comment.id).length > 0) {
+ Object.assign(comment, { deleted: true, pinned: false, content: '', updatedAt: new Date().toISOString() });
+ return;
+ }
+
+ store.data.comments = comments().filter(c => c.id !== comment.id);
+
+ const parent = comment.parentId && findComment(comment.parentId);
+ if (parent?.deleted) {
+ removeComment(parent);
+ }
+ };
+
+ const isCreator = (req, comment) => getUserId(req) === getVideoOwnerId(comment.videoId);
+
+ router.get('/videos/:id/comments', (req, res) => {
+ const { sort = 'top', limit = 20 } = req.query;
+ if (!SORT_ORDERS.includes(sort)) {
+ return sendError(res, 400, 'Bad request', `sort must be one of: ${SORT_ORDERS.join(', ')}`);
+ }
+ const pageSize = Number(limit);
+ if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_LIMIT) {
+ return sendError(res, 400, 'Bad request', `limit must be an integer from 1 to ${MAX_LIMIT}`);
+ }
+
+ const viewerId = getUserId(req);
+ const threads = comments()
+ .filter(c => c.videoId === req.params.id && !c.parentId)
+ .map(c => ({ comment: c, replyCount: countReplies(c.id) }));
+
+ threads.sort((a, b) => {
+ if (a.comment.pinned !== b.comment.pinned) {
+ return a.comment.pinned ? -1 : 1;
+ }
+ if (sort === 'top') {
+ const diff = topScore(b.comment, b.replyCount) - topScore(a.comment, a.replyCount);
+ if (diff !== 0) {
+ return diff;
+ }
+ }
+ return b.comment.createdAt.localeCompare(a.comment.createdAt);
+ });
+
+ const total = comments().filter(c => c.videoId === req.params.id && !c.deleted).length;
+ const page = threads.slice(0, pageSize).map(({ comment }) => serialize(comment, viewerId));
+
+ res.json({ comments: page, total, sort });
+ });
+
+ const createComment = (req, res, videoId, parentId) => {
+ const { content, authorName, authorAvatar = '' } = req.body || {};
+ const validationError = validateContent(content);
+ if (validationError) {
+ return sendError(res, 400, 'Bad request', validationError);
+ }
+
+ if (parentId) {
+ const parent = findComment(parentId);
+ if (!parent || parent.videoId !== videoId) {
+ return sendError(res, 404, 'Not found', `Parent comment ${parentId} does not exist on this video`);
+ }
+ if (parent.deleted) {
+ return sendError(res, 409, 'Conflict', 'Cannot reply to a deleted comment');
+ }
+ }
+
+ const now = new Date().toISOString();
+ const authorId = getUserId(req);
+ const comment = {
+ id: generateId('comment'),
+ videoId,
+ parentId,
+ authorId,
+ authorName: authorName || authorId,
+ authorAvatar,
+ content: content.trim(),
+ createdAt: now,
+ updatedAt: now,
+ edited: false,
+ deleted: false,
+ pinned: false,
+ heartedByCreator: false,
+ likedBy: []
+ };
+
+ comments().push(comment);
+ store.save();
+ res.status(201).json(serialize(comment, authorId));
+ };
+
+ router.post('/videos/:id/comments', (req, res) => {
+ createComment(req, res, req.params.id, req.body?.parentId || null);
+ });
+
+ router.post('/comments/:id/replies', (req, res) => {
+ const parent = findComment(req.params.id);
+ if (!parent) {
+ return sendError(res, 404, 'Not found', `Comment ${req.params.id} does not exist`);
+ }
+ createComment(req, res, parent.videoId, parent.id);
+ });
+
+ router.patch('/comments/:id', (req, res) => {
+ const comment = findComment(req.params.id);
+ if (!comment || comment.deleted) {
+ return sendError(res, 404, 'Not found', `Comment ${req.params.id} does not exist`);
+ }
+ if (comment.authorId !== getUserId(req)) {
+ return sendError(res, 403, 'Forbidden', 'Only the author can edit this comment');
+ }
+
+ const validationError = validateContent(req.body?.content);
+ if (validationError) {
+ return sendError(res, 400, 'Bad request', validationError);
+ }
+
+ comment.content = req.body.content.trim();
+ comment.edited = true;
+ comment.updatedAt = new Date().toISOString();
+ store.save();
+ res.json(serialize(comment, getUserId(req)));
+ });
+
+ router.delete('/comments/:id', (req, res) => {
+ const comment = findComment(req.params.id);
+ if (!comment || comment.deleted) {
+ return sendError(res, 404, 'Not found', `Comment ${req.params.id} does not exist`);
+ }
+ if (comment.authorId !== getUserId(req) && !isCreator(req, comment)) {
+ return sendError(res, 403, 'Forbidden', 'Only the author or the video creator can delete this comment');
+ }
+
+ removeComment(comment);
+ store.save();
+ res.status(204).end();
+ });
+
+ router.post('/comments/:id/like', (req, res) => {
+ const comment = findComment(req.params.id);
+ if (!comment || comment.deleted) {
+ return sendError(res, 404, 'Not found', `Comment ${req.params.id} does not exist`);
+ }
+
+ const userId = getUserId(req);
+ const liked = req.body?.liked ?? !comment.likedBy.includes(userId);
+ comment.likedBy = comment.likedBy.filter(id => id !== userId);
+ if (liked) {
+ comment.likedBy.push(userId);
+ }
+ store.save();
+ res.json(serialize(comment, userId));
+ });
+
+ router.post('/comments/:id/pin', (req, res) => {
+ const comment = findComment(req.params.id);
+ if (!comment || comment.deleted) {
+ return sendError(res, 404, 'Not found', `Comment ${req.params.id} does not exist`);
+ }
+ if (comment.parentId) {
+ return sendError(res, 400, 'Bad request', 'Only top-level comments can be pinned');
+ }
+ if (!isCreator(req, comment)) {
+ return sendError(res, 403, 'Forbidden', 'Only the video creator can pin comments');
+ }
+
+ const pinned = req.body?.pinned ?? !comment.pinned;
+ // A video has at most one pinned comment
+ comments()
+ .filter(c => c.videoId === comment.videoId)
+ .forEach(c => {
+ c.pinned = false;
+ });
+ comment.pinned = pinned;
+ store.save();
+ res.json(serialize(comment, getUserId(req)));
+ });
+
+ router.post('/comments/:id/heart', (req, res) => {
+ const comment = findComment(req.params.id);
+ if (!comment || comment.deleted) {
+ return sendError(res, 404, 'Not found', `Comment ${req.params.id} does not exist`);
+ }
+ if (!isCreator(req, comment)) {
+ return sendError(res, 403, 'Forbidden', 'Only the video creator can heart comments');
+ }
+
+ comment.heartedByCreator = req.body?.hearted ?? !comment.heartedByCreator;
+ store.save();
+ res.json(serialize(comment, getUserId(req)));
+ });
+
+ return router;
+};
@@ -5,19 +5,80 @@ import cors from 'cors';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
+import { createAnalyticsCollector } from './analyticsCollector.js';
+import { createCommentsRouter } from './comments.js';
+import { createIdempotencyMiddleware } from './idempotency.js';
+import { createIngestService } from './ingest.js';
+import { createLibraryRouter, createLibraryStore, isSubscribed } from './library.js';
+import { attachLiveChat } from './liveChat.js';
+import { createLiveInteractions } from './liveInteractions.js';
+import { createLiveStreamRouter } from './liveStreams.js';
+import { InvalidPageTokenError, paginate, parseMaxResults } from './pagination.js';
+import { createMockPaymentProvider } from './payments.js';
+import { createNotificationService } from './notifications.js';
+import { MEDIA_DIR, createProcessingService } from './processing.js';
+import { createRecommendationService } from './recommendations.js';
+import { createReplayService } from './replays.js';
+import { DURATION_BUCKETS, SORT_ORDERS, UPLOAD_DATE_WINDOWS, VIDEO_TYPES, createSearchIndex } from './searchIndex.js';
+import { createSearchSuggestionService } from './searchSuggestions.js';
+import { createRestreamService } from './restream.js';
+import { createStreamAnalyticsService } from './streamAnalytics.js';
+import { createStreamScheduleService } from './streamSchedule.js';
+import { createSuperChatRouter } from './superChats.js';
+import { createUploadRouter } from './uploads.js';
+import { createWhipRouter } from './whip.js';
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
 const PORT = process.env.PORT || 8000;
 
+// Finished uploads are queued for probing, thumbnails and transcoding
+const processing = createProcessingService();
+
+// Resumable uploads (tus) manage their own CORS handling, so mount them first
+app.use('/api/upload', createUploadRouter({ onComplete: processing.handleUploadComplete }));
+
 // Middleware
 app.use(cors());
+// Events sent by the app's AnalyticsService, queryable per day for dashboards. Batches are bigger than
+// the default JSON limit, so the collector parses its own bodies and has to come before express.json()
+app.use('/api', createAnalyticsCollector({ apiKey: process.env.ANALYTICS_API_KEY }).router);
 app.use(express.json());
+// Replayed offline actions carry an Idempotency-Key; repeats get the first response
+app.use('/api', createIdempotencyMiddleware());
 app.use(express.static('public'));
+app.use('/media', express.static(MEDIA_DIR));
 
 // Mock data generators
+// Mock records are seeded from their id so repeated requests (and page
+// cursors pointing into them) see the same values.
+const MOCK_EPOCH = Date.now();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hashString = (value) => {
+ let hash = 2166136261;
+ for (let i = 0; i < value.length; i++) {
+ hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+ }
+ return hash >>> 0;
+};
+
+const seededRandom = (seed) => {
+ let state = hashString(String(seed));
+ return () => {
+ state = (state + 0x6d2b79f5) >>> 0;
+ let t = state;
+ t = Math.imul(t ^ (t >>> 15), t | 1);
+ t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+ return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+ };
+};
+
 const generateMockVideo = (id) => {
+ const random = seededRandom(id);
+
  const titles = [
  'Amazing Nature Documentary',
  'Coding Tutorial: React Hooks',
@@ -36,30 +97,68 @@ const generateMockVideo = (id) => {
  'TechReviewer', 'FitnessPro', 'ArtStudio', 'GameZone', 'ScienceHub'
  ];
 
- const index = parseInt(id, 10) % titles.length;
- const views = Math.floor(Math.random() * 1000000) + 1000;
+ const tags = [
+ ['wildlife', 'documentary', 'planet earth'],
+ ['react', 'javascript', 'programming', 'web development'],
+ ['travel', 'tokyo', 'vlog'],
+ ['recipe', 'cooking', 'kitchen'],
+ ['concert', 'live music', 'guitar'],
+ ['smartphone', 'unboxing', 'gadgets'],
+ ['workout', 'fitness', 'hiit'],
+ ['procreate', 'illustration', 'drawing'],
+ ['gameplay', 'esports', 'highlights'],
+ ['physics', 'education', 'science']
+ ];
+
+ const numericId = parseInt(id, 10);
+ const index = (Number.isNaN(numericId) ? hashString(id) : numericId) % titles.length;
+ const views = Math.floor(random() * 1000000) + 1000;
  const likes = Math.floor(views * 0.05);
 
  return {
  id,
  title: titles[index],
- description: `An amazing video about ${titles[index].toLowerCase()}`,
+ description: `An amazing video about ${titles[index].toLowerCase()} from ${channels[index]}`,
+ tags: tags[index],
  thumbnailUrl: `https://picsum.photos/320/180?random=${id}`,
  videoUrl: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4',
- duration: `${Math.floor(Math.random() * 20) + 1}:${Math.floor(Math.random() * 60).toString().padStart(2, '0')}`,
+ duration: `${Math.floor(random() * 20) + 1}:${Math.floor(random() * 60).toString().padStart(2, '0')}`,
  views: views.toLocaleString(),
  likes,
  dislikes: Math.floor(likes * 0.1),
- uploadedAt: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000).toISOString(),
+ uploadedAt: new Date(MOCK_EPOCH - random() * 365 * DAY_MS).toISOString(),
  channelId: `channel-${index}`,
  channelName: channels[index],
  channelAvatar: `https://picsum.photos/40/40?random=channel-${index}`,
- channelVerified: Math.random() > 0.7,
- category: ['Gaming', 'Music', 'Education', 'Entertainment', 'Technology'][Math.floor(Math.random() * 5)],
- isLive: Math.random() > 0.95
+ channelVerified: random() > 0.7,
+ category: ['Gaming', 'Music', 'Education', 'Entertainment', 'Technology'][Math.floor(random() * 5)],
+ isLive: random() > 0.95
  };
 };
 
+const CATALOG_SIZE = 200;
+const videoCatalog = Array.from({ length: CATALOG_SIZE }, (_, i) => generateMockVideo(i.toString()));
+
+const SHORTS_CATALOG_SIZE = 50;
+const shortsCatalog = Array.from({ length: SHORTS_CATALOG_SIZE }, (_, i) => ({
+ ...generateMockVideo(`short-${i}`),
+ duration: Math.floor(seededRandom(`short-duration-${i}`)() * 60) + 15, // 15-75 seconds
+ hashtags: ['#shorts', '#viral', '#trending'],
+ isShort: true
+}));
+
+const newestFirst = (dateField) => (item) => [-Date.parse(item[dateField]), item.id ?? item.channelId];
+
+// Shapes a `paginate()` result for list endpoints, keeping the legacy
+// `<key>`/`total` fields alongside the YouTube-style page fields.
+const pageResponse = (key, page) => ({
+ [key]: page.items,
+ total: page.pageInfo.totalResults,
+ pageInfo: page.pageInfo,
+ ...(page.nextPageToken && { nextPageToken: page.nextPageToken }),
+ ...(page.prevPageToken && { prevPageToken: page.prevPageToken })
+});
+
 // API Routes
 
 // Health check
@@ -69,76 +168,51 @@ app.get('/api/health', (req, res) => {
 
 // Videos
 app.get('/api/videos', (req, res) => {
- const { limit = 20, category, search } = req.query;
- const videos = Array.from({ length: parseInt(limit, 10) }, (_, i) => generateMockVideo(i.toString()));
+ const { category, search, pageToken } = req.query;
 
- let filteredVideos = videos;
+ let filteredVideos = videoCatalog;
 
  if (category && category !== 'all') {
- filteredVideos = videos.filter(v => v.category.toLowerCase() === category.toLowerCase());
+ filteredVideos = filteredVideos.filter(v => v.category.toLowerCase() === category.toLowerCase());
  }
 
  if (search) {
- filteredVideos = videos.filter(v => 
+ filteredVideos = filteredVideos.filter(v => 
  v.title.toLowerCase().includes(search.toLowerCase()) ||
  v.description.toLowerCase().includes(search.toLowerCase())
  );
  }
 
- res.json({ videos: filteredVideos, total: filteredVideos.length });
+ const page = paginate(filteredVideos, {
+ pageToken,
+ maxResults: parseMaxResults(req.query),
+ sortKey: newestFirst('uploadedAt'),
+ scope: `videos:${category || ''}:${search || ''}`
+ });
+
+ res.json(pageResponse('videos', page));
 });
 
 app.get('/api/videos/:id', (req, res) => {
- const video = generateMockVideo(req.params.id);
+ const video = processing.getVideo(req.params.id) || generateMockVideo(req.params.id);
  res.json(video);
 });
 
+// Studio: uploaded videos and their processing jobs
+app.use('/api', processing.router);
+
 // Shorts
 app.get('/api/shorts', (req, res) => {
  const { limit = 10 } = req.query;
- const shorts = Array.from({ length: parseInt(limit, 10) }, (_, i) => ({
- ...generateMockVideo(`short-${i}`),
- duration: Math.floor(Math.random() * 60) + 15, // 15-75 seconds
- hashtags: ['#shorts', '#viral', '#trending'],
- isShort: true
- }));
+ const shorts = shortsCatalog.slice(0, parseInt(limit, 10));
 
  res.json({ shorts, total: shorts.length });
 });
 
 // Comments
-app.get('/api/videos/:id/comments', (req, res) => {
- const { limit = 20 } = req.query;
- const videoId = req.params.id;
-
- const authors = [
- 'VideoLover123', 'TechEnthusiast', 'NatureFan', 'MusicAddict', 'Gamer4Life'
- ];
-
- const commentTexts = [
- 'This is absolutely amazing! Thanks for sharing.',
- 'Great content as always. Keep up the excellent work!',
- 'I learned so much from this video. Very informative.',
- 'The quality of this content is outstanding.',
- 'This deserves way more views. Underrated channel!'
- ];
-
- const comments = Array.from({ length: parseInt(limit, 10) }, (_, i) => ({
- id: `comment-${videoId}-${i}`,
- content: commentTexts[i % commentTexts.length],
- authorId: `user-${i}`,
- authorName: authors[i % authors.length],
- authorAvatar: `https://picsum.photos/32/32?random=user-${i}`,
- authorVerified: Math.random() > 0.8,
- timestamp: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000).toISOString(),
- likes: Math.floor(Math.random() * 100),
- dislikes: Math.floor(Math.random() * 10),
- isLiked: false,
- replies: []
- }));
-
- res.json({ comments, total: comments.length });
-});
+app.use('/api', createCommentsRouter({
+ getVideoOwnerId: (videoId) => generateMockVideo(videoId).channelId
+}));
 
 // Channels
 app.get('/api/channels/:id', (req, res) => {
@@ -163,83 +237,289 @@ app.get('/api/channels/:id', (req, res) => {
 });
 
 // Search
-app.get('/api/search', (req, res) => {
- const { q: query, limit = 20, type = 'video' } = req.query;
+const searchIndex = createSearchIndex();
+
+// "m:ss" or "h:mm:ss" as seconds; uploads already store seconds
+const durationSeconds = (duration) =>
+ typeof duration === 'number' ? duration : String(duration).split(':').reduce((total, part) => total * 60 + Number(part), 0);
+
+const toSearchDocument = (video, type) => ({
+ id: video.id,
+ title: video.title,
+ description: video.description,
+ tags: [...(video.tags || []), ...(video.hashtags || []).map(tag => tag.replace(/^#/, ''))],
+ channelName: video.channelName || '',
+ category: video.category || '',
+ type,
+ durationSeconds: durationSeconds(video.duration || 0),
+ uploadedAt: video.uploadedAt || video.publishedAt,
+ viewCount: Number(String(video.views ?? 0).replace(/\D/g, '')),
+ item: video
+});
 
- if (type === 'video') {
- const videos = Array.from({ length: parseInt(limit, 10) }, (_, i) => generateMockVideo(`search-${i}`));
- const filteredVideos = query 
- ? videos.filter(v => v.title.toLowerCase().includes(query.toLowerCase()))
- : videos;
+videoCatalog.forEach(video => searchIndex.upsert(toSearchDocument(video, video.isLive ? 'live' : 'video')));
+shortsCatalog.forEach(video => searchIndex.upsert(toSearchDocument(video, 'short')));
 
- res.json({ results: filteredVideos, total: filteredVideos.length, type: 'video' });
+// Public uploads become searchable once processed; unchanged ones are skipped by the index
+const syncUploadsIntoSearch = () => {
+ for (const video of processing.listVideos()) {
+ if (video.visibility === 'public' && video.uploadStatus === 'processed') {
+ searchIndex.upsert(toSearchDocument(video, video.isShorts ? 'short' : 'video'));
  } else {
- res.json({ results: [], total: 0, type });
+ searchIndex.remove(video.id);
  }
+ }
+};
+
+const SEARCH_FILTERS = {
+ duration: Object.keys(DURATION_BUCKETS),
+ uploadDate: Object.keys(UPLOAD_DATE_WINDOWS),
+ videoType: VIDEO_TYPES,
+ sortBy: SORT_ORDERS
+};
+
+app.get('/api/search', (req, res) => {
+ const { q: query = '', type = 'video', pageToken, category, sortBy = 'relevance' } = req.query;
+
+ if (type !== 'video') {
+ return res.json({ results: [], total: 0, pageInfo: { totalResults: 0, resultsPerPage: parseMaxResults(req.query) }, type });
+ }
+
+ for (const [name, allowed] of Object.entries(SEARCH_FILTERS)) {
+ if (req.query[name] !== undefined && !allowed.includes(req.query[name])) {
+ return res.status(400).json({
+ error: 'Bad request',
+ message: `${name} must be one of: ${allowed.join(', ')}`,
+ timestamp: new Date().toISOString()
+ });
+ }
+ }
+
+ syncUploadsIntoSearch();
+ const filters = { duration: req.query.duration, uploadDate: req.query.uploadDate, videoType: req.query.videoType, category };
+ const { hits, facets } = searchIndex.search(query, { filters, sortBy });
+
+ const page = paginate(hits, {
+ pageToken,
+ maxResults: parseMaxResults(req.query),
+ sortKey: (hit) => hit.sortKey,
+ scope: `search:${JSON.stringify({ query, sortBy, ...filters })}`
+ });
+
+ res.json({
+ ...pageResponse('results', {
+ ...page,
+ items: page.items.map(({ item, score, highlights }) => ({ ...item, score, highlights }))
+ }),
+ facets,
+ type: 'video'
+ });
 });
 
+// Autocomplete from what people search for and what the catalog is called
+app.use('/api', createSearchSuggestionService({
+ getTitles: () => [...videoCatalog, ...shortsCatalog].map(video => video.title)
+}).router);
+
+// Home and watch page recommendations, with "Not interested" feedback
+app.use('/api', createRecommendationService({
+ getCandidates: () => [
+ ...videoCatalog,
+ ...processing.listVideos().filter(video => video.visibility === 'public' && video.uploadStatus === 'processed' && !video.isShorts)
+ ],
+ getVideo: (id) => processing.getVideo(id) || generateMockVideo(id)
+}).router);
+
 // Trending
+const trendingVideos = [...videoCatalog]
+ .sort((a, b) => b.likes - a.likes)
+ .slice(0, 100)
+ .map((video, i) => ({ ...video, trending: true, trendingRank: i + 1 }));
+
 app.get('/api/trending', (req, res) => {
- const { limit = 20, category = 'all' } = req.query;
- const videos = Array.from({ length: parseInt(limit, 10) }, (_, i) => ({
- ...generateMockVideo(`trending-${i}`),
- trending: true,
- trendingRank: i + 1
- }));
-
- res.json({ videos, total: videos.length });
+ const { category = 'all', pageToken } = req.query;
+ const videos = category === 'all'
+ ? trendingVideos
+ : trendingVideos.filter(v => v.category.toLowerCase() === category.toLowerCase());
+
+ const page = paginate(videos, {
+ pageToken,
+ maxResults: parseMaxResults(req.query),
+ sortKey: (video) => [video.trendingRank, video.id],
+ scope: `trending:${category}`
+ });
+
+ res.json(pageResponse('videos', page));
 });
 
 // Subscriptions
-app.get('/api/subscriptions', (req, res) => {
- const subscriptions = Array.from({ length: 10 }, (_, i) => ({
+const subscriptionCatalog = Array.from({ length: 40 }, (_, i) => {
+ const random = seededRandom(`subscription-${i}`);
+ return {
  channelId: `channel-${i}`,
  channelName: `Channel ${i + 1}`,
  channelAvatar: `https://picsum.photos/40/40?random=channel-${i}`,
- subscribedAt: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000).toISOString(),
- notificationsEnabled: Math.random() > 0.5
- }));
+ subscribedAt: new Date(MOCK_EPOCH - random() * 365 * DAY_MS).toISOString(),
+ notificationsEnabled: random() > 0.5
+ };
+});
+
+app.get('/api/subscriptions', (req, res) => {
+ const page = paginate(subscriptionCatalog, {
+ pageToken: req.query.pageToken,
+ maxResults: parseMaxResults(req.query),
+ sortKey: newestFirst('subscribedAt'),
+ scope: 'subscriptions'
+ });
 
- res.json({ subscriptions, total: subscriptions.length });
+ res.json(pageResponse('subscriptions', page));
 });
 
 // Playlists
-app.get('/api/playlists', (req, res) => {
- const playlists = Array.from({ length: 5 }, (_, i) => ({
+const playlistCatalog = Array.from({ length: 25 }, (_, i) => {
+ const random = seededRandom(`playlist-${i}`);
+ return {
  id: `playlist-${i}`,
  title: `My Playlist ${i + 1}`,
  description: `A collection of my favorite videos ${i + 1}`,
  thumbnailUrl: `https://picsum.photos/320/180?random=playlist-${i}`,
- videoCount: Math.floor(Math.random() * 50) + 5,
- visibility: Math.random() > 0.5 ? 'public' : 'private',
- createdAt: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000).toISOString()
- }));
-
- res.json({ playlists, total: playlists.length });
+ videoCount: Math.floor(random() * 50) + 5,
+ visibility: random() > 0.5 ? 'public' : 'private',
+ createdAt: new Date(MOCK_EPOCH - random() * 365 * DAY_MS).toISOString()
+ };
 });
 
-// Upload endpoint
-app.post('/api/upload', (req, res) => {
- // Simulate upload process
- const uploadId = `upload-${Date.now()}`;
-
- res.json({
- uploadId,
- status: 'processing',
- progress: 0,
- message: 'Upload started'
+app.get('/api/playlists', (req, res) => {
+ const page = paginate(playlistCatalog, {
+ pageToken: req.query.pageToken,
+ maxResults: parseMaxResults(req.query),
+ sortKey: newestFirst('createdAt'),
+ scope: 'playlists'
  });
+
+ res.json(pageResponse('playlists', page));
 });
 
-// Upload progress
-app.get('/api/upload/:id/progress', (req, res) => {
- const progress = Math.min(100, Math.floor(Math.random() * 100) + 1);
+// Likes, subscriptions and playlist items, written by the client's sync outbox
+const libraryStore = createLibraryStore();
+app.use('/api', createLibraryRouter({
+ store: libraryStore,
+ // Playlists created in the app (`playlist_<timestamp>`) are local-only, so accept their items too
+ playlistExists: (id) => id.startsWith('playlist_') || playlistCatalog.some(playlist => playlist.id === id)
+}));
+
+// Each user's notification inbox; reminders for scheduled streams arrive here
+const notifications = createNotificationService();
+app.use('/api', notifications.router);
+
+// Polls and Q&A run over the live chat socket, with votes cast over HTTP as the
+// signed-in user; closed polls and answered questions stay with the stream's replay
+const liveInteractions = createLiveInteractions();
+app.use('/api', liveInteractions.router);
+
+// Super Chats and memberships go through the mock payment provider and show up in chat
+let liveChat = null;
+let liveStreams = null;
+// Streams created in the app belong to their creator; mock streams to the mock video's channel
+const getStreamOwnerId = (streamId) => liveStreams?.getOwnerId(streamId) ?? generateMockVideo(streamId).channelId;
+
+// Encoders publish over RTMP with the stream key; viewers learn over the chat socket when the stream starts and ends.
+// Each broadcast is also forwarded to the creator's other platforms while it lasts, and recorded
+// into a video with its chat replay when the stream has recording on
+let ingest = null;
+let schedule = null;
+const restream = createRestreamService({ getStreamOwnerId, isLive: (streamId) => Boolean(ingest?.isLive(streamId)) });
+const replays = createReplayService({
+ processing,
+ getStream: (streamId) => liveStreams?.getStream(streamId) ?? null,
+ getStreamOwnerId,
+ getViewerCount: (streamId) => liveChat?.getViewerCount(streamId) ?? 0,
+ getInteractions: liveInteractions.getArchive
+});
+// Per-second viewers, chat, revenue and joins/leaves while a stream is live, for the creator's dashboard
+const streamAnalytics = createStreamAnalyticsService({
+ getStreamOwnerId,
+ getStream: (streamId) => liveStreams?.getStream(streamId) ?? null,
+ getViewerCount: (streamId) => liveChat?.getViewerCount(streamId) ?? 0
+});
+ingest = createIngestService({
+ getStreamOwnerId,
+ onPublish: (streamId, playback) => {
+ liveStreams?.markLive(streamId, playback.startedAt);
+ schedule?.handleLive(streamId);
+ restream.start(streamId);
+ replays.start(streamId, playback.startedAt);
+ streamAnalytics.start(streamId, playback.startedAt);
+ liveChat?.broadcast(streamId, { type: 'stream', ...playback });
+ },
+ onUnpublish: (streamId, playback) => {
+ liveStreams?.markEnded(streamId, { endedAt: playback.endedAt });
+ restream.stop(streamId);
+ replays.stop(streamId, playback.endedAt);
+ streamAnalytics.stop(streamId, playback.endedAt);
+ liveChat?.broadcast(streamId, { type: 'stream', ...playback });
+ },
+ onMessage: (streamId, message) => {
+ restream.write(streamId, message);
+ replays.write(streamId, message);
+ }
+});
+liveStreams = createLiveStreamRouter({ ingest });
+app.use('/api', liveStreams.router);
+// Viewers can ask to be reminded before a scheduled stream; streams that never start are ended
+schedule = createStreamScheduleService({
+ liveStreams,
+ notify: notifications.notify,
+ isLive: (streamId) => ingest.isLive(streamId)
+});
+app.use('/api', schedule.router);
+app.use('/api', ingest.router);
+app.use('/api', restream.router);
+app.use('/api', replays.router);
+app.use('/api', streamAnalytics.router);
+// The browser studio publishes over WebRTC; sessions are relayed into the RTMP ingest
+app.use('/api', createWhipRouter({ ingest }).router);
+
+app.use('/api', createSuperChatRouter({
+ getStreamOwnerId,
+ getStream: (streamId) => liveStreams?.getStream(streamId) ?? null,
+ payments: createMockPaymentProvider(),
+ isBlocked: (streamId, userId) => Boolean(liveChat?.isRestricted(streamId, userId)),
+ onEntry: (entry, superChat) => {
+ if (entry.type === 'super_chat') {
+ streamAnalytics.recordRevenue(entry.streamId, entry.amountUsd);
+ }
+ liveChat?.publish(entry.streamId, {
+ userId: entry.userId,
+ username: entry.username,
+ message: entry.message,
+ type: entry.type,
+ ...(entry.type === 'membership' ? { membership: entry.membership } : { superChat })
+ });
+ },
+ onGoal: (streamId, goal) => liveChat?.broadcast(streamId, { type: 'goal', goal })
+}));
+
+// Recorded broadcasts come from the replay service; mock streams get a replay built from the mock video
+app.get('/api/live/streams/:id/replay', (req, res) => {
+ const replay = replays.getLatest(req.params.id);
+ if (replay) {
+ return res.json(replay);
+ }
+ const video = generateMockVideo(req.params.id);
+ const [minutes, seconds] = video.duration.split(':').map(Number);
 
  res.json({
- uploadId: req.params.id,
- progress,
- status: progress === 100 ? 'completed' : 'processing',
- message: progress === 100 ? 'Upload completed' : `Processing... ${progress}%`
+ id: `replay-${video.id}`,
+ streamId: video.id,
+ title: video.title,
+ description: video.description,
+ thumbnailUrl: video.thumbnailUrl,
+ videoUrl: video.videoUrl,
+ duration: minutes * 60 + seconds,
+ createdAt: video.uploadedAt,
+ views: Number(video.views.replace(/\D/g, '')),
+ ...liveInteractions.getArchive(video.id)
  });
 });
 
@@ -266,6 +546,22 @@ app.get('/api/placeholder/video', (req, res) => {
 
 // Error handling middleware
 app.use((err, req, res, next) => {
+ if (err instanceof InvalidPageTokenError) {
+ return res.status(400).json({
+ error: 'invalidPageToken',
+ message: err.message,
+ timestamp: new Date().toISOString()
+ });
+ }
+ // Bodies over a parser's limit are the client's to shrink, not a server failure to retry
+ if (err.type === 'entity.too.large') {
+ return res.status(413).json({
+ error: 'Payload too large',
+ message: err.message,
+ timestamp: new Date().toISOString()
+ });
+ }
+
  console.error('API Error:', err);
  res.status(500).json({ 
  error: 'Internal server error', 
@@ -284,7 +580,16 @@ app.use((req, res) => {
 });
 
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
  });
 
+ingest.listen();
+
+// Live chat shares the HTTP server; streams are owned like videos, by channel id
+liveChat = attachLiveChat(server, {
+ getStreamOwnerId,
+ isSubscribed: (userId, channelId) => isSubscribed(libraryStore, userId, channelId),
+ extensions: [liveInteractions, streamAnalytics, replays]
+});
+
 export default app;
@@ -0,0 +1,81 @@
+// Idempotency-Key support so clients can safely replay queued writes
+import { createJsonStore } from './storage.js';
+
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEYS = 5000;
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Remembers the response to every mutating request that carries an
+ * `Idempotency-Key` header and replays it for repeats of that key, so a write
+ * retried after a lost response (or replayed by background sync) applies once.
+ * Keys are scoped to the caller and the request line; reusing a key for a
+ * different request is rejected. Only completed responses are stored; server
+ * errors are not, so those requests can be retried.
+ */
+export const createIdempotencyMiddleware = ({ store = createJsonStore('idempotency', { entries: {} }) } = {}) => {
+ const inFlight = new Set();
+
+ const prune = () => {
+ const now = Date.now();
+ const entries = Object.entries(store.data.entries)
+ .filter(([, entry]) => now - entry.createdAt < KEY_TTL_MS)
+ .sort((a, b) => b[1].createdAt - a[1].createdAt)
+ .slice(0, MAX_KEYS);
+ store.data.entries = Object.fromEntries(entries);
+ };
+
+ return (req, res, next) => {
+ const key = req.get('idempotency-key');
+ if (!key || !MUTATING_METHODS.includes(req.method)) {
+ return next();
+ }
+
+ const scopedKey = `${req.get('x-user-id') || 'anonymous'}:${key}`;
+ const fingerprint = `${req.method} ${req.originalUrl}`;
+ const existing = store.data.entries[scopedKey];
+
+ if (existing) {
+ if (existing.fingerprint !== fingerprint) {
+ return res.status(422).json({
+ error: 'Unprocessable entity',
+ message: 'Idempotency-Key was already used for a different request',
+ timestamp: new Date().toISOString()
+ });
+ }
+ res.set('Idempotent-Replayed', 'true');
+ return existing.body === undefined ? res.status(existing.status).end() : res.status(existing.status).json(existing.body);
+ }
+
+ if (inFlight.has(scopedKey)) {
+ // Retry-After tells clients this is transient, unlike a conflict with newer data
+ res.set('Retry-After', '1');
+ return res.status(409).json({
+ error: 'Conflict',
+ message: 'A request with this Idempotency-Key is still being processed',
+ timestamp: new Date().toISOString()
+ });
+ }
+ inFlight.add(scopedKey);
+
+ let body;
+ const json = res.json.bind(res);
+ res.json = (payload) => {
+ body = payload;
+ return json(payload);
+ };
+
+ res.on('finish', () => {
+ inFlight.delete(scopedKey);
+ if (res.statusCode >= 500) {
+ return;
+ }
+ store.data.entries[scopedKey] = { fingerprint, status: res.statusCode, body, createdAt: Date.now() };
+ prune();
+ store.save();
+ });
+ res.on('close', () => inFlight.delete(scopedKey));
+
+ next();
+ };
+};
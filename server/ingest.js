@@ -0,0 +1,466 @@
+// Live ingest: stream keys, an RTMP endpoint repackaged to HLS, and ingest health
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import express from 'express';
+
+import { MEDIA_DIR, hasBinary } from './processing.js';
+import { AUDIO, DATA, VIDEO, createRtmpServer, decodeAmf0 } from './rtmp.js';
+import { createJsonStore } from './storage.js';
+
+export const RTMP_PORT = Number(process.env.RTMP_PORT) || 1935;
+export const RTMP_APP = 'live';
+export const LIVE_MEDIA_DIR = path.join(MEDIA_DIR, 'live');
+
+const LIVE_SEGMENT_SECONDS = 2;
+// Health is measured over a sliding window
+const HEALTH_WINDOW_MS = 5000;
+// Keyframes should come at least every 4 seconds, ideally every 2
+const MAX_KEYFRAME_INTERVAL_SECONDS = 4;
+const IDEAL_KEYFRAME_INTERVAL_SECONDS = 2;
+// Assumed until the encoder's metadata says otherwise
+const DEFAULT_BANDWIDTH = 3000000;
+
+// FLV codec ids
+const FLV_CODEC_AVC = 7;
+const FLV_SOUND_AAC = 10;
+
+const getUserId = (req) => req.get('x-user-id') || null;
+
+const sendError = (res, status, error, message) =>
+ res.status(status).json({ error, message, timestamp: new Date().toISOString() });
+
+const generateStreamKey = () => `live_${crypto.randomBytes(16).toString('hex')}`;
+
+const hex = (byte) => byte.toString(16).padStart(2, '0');
+
+export const FLV_HEADER = Buffer.from([0x46, 0x4c, 0x56, 0x01, 0x05, 0x00, 0x00, 0x00, 0x09, 0x00, 0x00, 0x00, 0x00]);
+
+/** One FLV tag followed by its PreviousTagSize */
+export const flvTag = ({ type, timestamp, payload }) => {
+ const tag = Buffer.alloc(11 + payload.length + 4);
+ tag[0] = type;
+ tag.writeUIntBE(payload.length, 1, 3);
+ tag.writeUIntBE(timestamp & 0xffffff, 4, 3);
+ tag[7] = (timestamp >>> 24) & 0xff;
+ payload.copy(tag, 11);
+ tag.writeUInt32BE(11 + payload.length, 11 + payload.length);
+ return tag;
+};
+
+/**
+ * Tracks what a publisher sends: codecs from the sequence headers, frame
+ * timing, keyframes and throughput. Dropped frames are estimated from gaps
+ * in the video timestamps against the encoder's declared frame rate.
+ */
+const createHealthMonitor = () => {
+ const state = {
+ startedAt: new Date().toISOString(),
+ lastDataAt: Date.now(),
+ metadata: {},
+ videoCodec: null,
+ audioCodec: null,
+ totalFrames: 0,
+ droppedFrames: 0,
+ keyframeIntervalSeconds: null,
+ lastKeyframeAt: null,
+ lastVideoTimestamp: null,
+ // { at, bytes, frames, dropped } per message within the window
+ samples: []
+ };
+
+ const frameDurationMs = () => {
+ const fps = Number(state.metadata.framerate || state.metadata.fps);
+ return fps > 0 ? 1000 / fps : null;
+ };
+
+ const onVideo = (timestamp, payload) => {
+ const frameType = payload[0] >> 4;
+ const codecId = payload[0] & 0x0f;
+ const isAvc = codecId === FLV_CODEC_AVC;
+ if (isAvc && payload[1] === 0) {
+ // AVCDecoderConfigurationRecord: profile, compatibility and level follow the version byte
+ state.videoCodec = `avc1.${hex(payload[6])}${hex(payload[7])}${hex(payload[8])}`;
+ return { frames: 0, dropped: 0 };
+ }
+ if (isAvc && payload[1] !== 1) {
+ return { frames: 0, dropped: 0 };
+ }
+ if (!isAvc && !state.videoCodec) {
+ state.videoCodec = `flv-${codecId}`;
+ }
+
+ let dropped = 0;
+ const expected = frameDurationMs();
+ if (expected && state.lastVideoTimestamp !== null) {
+ const gap = timestamp - state.lastVideoTimestamp;
+ if (gap > expected * 1.5) {
+ dropped = Math.round(gap / expected) - 1;
+ }
+ }
+ state.lastVideoTimestamp = timestamp;
+
+ if (frameType === 1) {
+ if (state.lastKeyframeAt !== null) {
+ state.keyframeIntervalSeconds = Math.round((timestamp - state.lastKeyframeAt) / 100) / 10;
+ }
+ state.lastKeyframeAt = timestamp;
+ }
+ state.totalFrames++;
+ state.droppedFrames += dropped;
+ return { frames: 1, dropped };
+ };
+
+ const onAudio = (payload) => {
+ if ((payload[0] >> 4) === FLV_SOUND_AAC && payload[1] === 0) {
+ // AudioSpecificConfig starts with the 5-bit object type
+ state.audioCodec = `mp4a.40.${payload[2] >> 3}`;
+ } else if ((payload[0] >> 4) !== FLV_SOUND_AAC && !state.audioCodec) {
+ state.audioCodec = `flv-${payload[0] >> 4}`;
+ }
+ };
+
+ return {
+ state,
+
+ record({ type, timestamp, payload }) {
+ const now = Date.now();
+ state.lastDataAt = now;
+ let counts = { frames: 0, dropped: 0 };
+ if (type === VIDEO && payload.length > 1) {
+ counts = onVideo(timestamp, payload);
+ } else if (type === AUDIO && payload.length > 1) {
+ onAudio(payload);
+ } else if (type === DATA) {
+ try {
+ const [name, metadata] = decodeAmf0(payload);
+ if (name === 'onMetaData' && metadata && typeof metadata === 'object') {
+ state.metadata = metadata;
+ }
+ } catch {
+ // Unreadable metadata only costs us the declared frame rate and size
+ }
+ }
+ state.samples.push({ at: now, bytes: payload.length, ...counts });
+ while (state.samples.length && state.samples[0].at < now - HEALTH_WINDOW_MS) {
+ state.samples.shift();
+ }
+ },
+
+ /** `issues` lists what to fix; `health` grades it like `LiveStreamStats.streamHealth` */
+ report(hlsError = null) {
+ const now = Date.now();
+ const recent = state.samples.filter(sample => sample.at >= now - HEALTH_WINDOW_MS);
+ const windowSeconds = Math.min(HEALTH_WINDOW_MS, now - Date.parse(state.startedAt)) / 1000 || 1;
+ const bytes = recent.reduce((total, sample) => total + sample.bytes, 0);
+ const frames = recent.reduce((total, sample) => total + sample.frames, 0);
+ const dropped = recent.reduce((total, sample) => total + sample.dropped, 0);
+ const bitrateKbps = Math.round((bytes * 8) / windowSeconds / 1000);
+ const declaredKbps = Number(state.metadata.videodatarate || 0) + Number(state.metadata.audiodatarate || 0);
+ const dropRate = frames + dropped > 0 ? dropped / (frames + dropped) : 0;
+ const silentSeconds = Math.round((now - state.lastDataAt) / 1000);
+
+ const issues = [];
+ let health = 'excellent';
+ const downgrade = (grade, issue) => {
+ const order = ['excellent', 'good', 'fair', 'poor'];
+ if (order.indexOf(grade) > order.indexOf(health)) {
+ health = grade;
+ }
+ if (issue) {
+ issues.push(issue);
+ }
+ };
+
+ if (silentSeconds >= HEALTH_WINDOW_MS / 1000) {
+ downgrade('poor', `No data received for ${silentSeconds} seconds`);
+ }
+ if (hlsError) {
+ downgrade('poor', `Repackaging to HLS failed: ${hlsError}`);
+ }
+ if (dropRate > 0.05) {
+ downgrade('poor', `${Math.round(dropRate * 100)}% of frames dropped before reaching the server`);
+ } else if (dropRate > 0.01) {
+ downgrade('fair', `${Math.round(dropRate * 100)}% of frames dropped before reaching the server`);
+ }
+ if (state.keyframeIntervalSeconds > MAX_KEYFRAME_INTERVAL_SECONDS) {
+ downgrade('fair', `Keyframes every ${state.keyframeIntervalSeconds}s; set the keyframe interval to ${IDEAL_KEYFRAME_INTERVAL_SECONDS}s`);
+ } else if (state.keyframeIntervalSeconds > IDEAL_KEYFRAME_INTERVAL_SECONDS) {
+ downgrade('good');
+ }
+ if (declaredKbps > 0 && bitrateKbps < declaredKbps * 0.5 && windowSeconds >= HEALTH_WINDOW_MS / 1000) {
+ downgrade('fair', `Receiving ${bitrateKbps} Kbps of the ${Math.round(declaredKbps)} Kbps the encoder is set to`);
+ }
+ if (state.videoCodec && !state.videoCodec.startsWith('avc1')) {
+ downgrade('poor', 'Video must be H.264 to be played back');
+ }
+
+ return {
+ health,
+ issues,
+ startedAt: state.startedAt,
+ lastDataAt: new Date(state.lastDataAt).toISOString(),
+ bitrateKbps,
+ framesPerSecond: Math.round((frames / windowSeconds) * 10) / 10,
+ keyframeIntervalSeconds: state.keyframeIntervalSeconds,
+ droppedFrames: state.droppedFrames,
+ totalFrames: state.totalFrames,
+ video: {
+ codec: state.videoCodec,
+ width: Number(state.metadata.width) || null,
+ height: Number(state.metadata.height) || null
+ },
+ audio: { codec: state.audioCodec },
+ encoder: state.metadata.encoder ? String(state.metadata.encoder) : null
+ };
+ }
+ };
+};
+
+/**
+ * Pipes a publisher's FLV into ffmpeg, which repackages it (no re-encode) as
+ * an event HLS playlist of fMP4 segments under `LIVE_MEDIA_DIR/<streamId>`.
+ * The master playlist is written here once the codecs are known, so the
+ * player can set up Media Source Extensions before the first segment.
+ */
+const createHlsPackager = (streamId, monitor) => {
+ const outputDir = path.join(LIVE_MEDIA_DIR, streamId);
+ fs.rmSync(outputDir, { recursive: true, force: true });
+ fs.mkdirSync(outputDir, { recursive: true });
+
+ const packager = { outputDir, error: null, masterWritten: false, write: () => {}, end: () => {} };
+ if (!hasBinary('ffmpeg')) {
+ packager.error = 'ffmpeg is not installed';
+ return packager;
+ }
+
+ const child = spawn('ffmpeg', [
+ '-v', 'error', '-f', 'flv', '-i', 'pipe:0',
+ '-c', 'copy',
+ '-f', 'hls',
+ '-hls_time', String(LIVE_SEGMENT_SECONDS),
+ '-hls_playlist_type', 'event',
+ '-hls_segment_type', 'fmp4',
+ '-hls_fmp4_init_filename', 'init.mp4',
+ '-hls_segment_filename', path.join(outputDir, 'segment_%05d.m4s'),
+ path.join(outputDir, 'index.m3u8')
+ ], { stdio: ['pipe', 'ignore', 'pipe'] });
+
+ let stderr = '';
+ child.stderr.on('data', (chunk) => {
+ stderr = (stderr + chunk).slice(-2000);
+ });
+ child.stdin.on('error', () => {
+ // EPIPE once ffmpeg has exited; the exit code says why
+ });
+ child.on('error', (error) => {
+ packager.error = error.message;
+ });
+ child.on('close', (code) => {
+ if (code !== 0 && code !== null && !packager.error) {
+ packager.error = stderr.trim().split('\n').pop() || `ffmpeg exited with code ${code}`;
+ }
+ });
+ child.stdin.write(FLV_HEADER);
+
+ packager.write = (message) => {
+ if (!child.stdin.destroyed) {
+ child.stdin.write(flvTag(message));
+ }
+ const { videoCodec, audioCodec, metadata } = monitor.state;
+ if (!packager.masterWritten && videoCodec?.startsWith('avc1') && message.type === VIDEO) {
+ const declaredKbps = Number(metadata.videodatarate || 0) + Number(metadata.audiodatarate || 0);
+ const bandwidth = declaredKbps > 0 ? Math.round(declaredKbps * 1000) : DEFAULT_BANDWIDTH;
+ const resolution = metadata.width && metadata.height ? `,RESOLUTION=${metadata.width}x${metadata.height}` : '';
+ const codecs = [videoCodec, audioCodec?.startsWith('mp4a') ? audioCodec : null].filter(Boolean).join(',');
+ fs.writeFileSync(
+ path.join(outputDir, 'master.m3u8'),
+ `#EXTM3U\n#EXT-X-VERSION:7\n#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth}${resolution},CODECS="${codecs}"\nindex.m3u8\n`
+ );
+ packager.masterWritten = true;
+ }
+ };
+ // Closing stdin lets ffmpeg finish the last segment and append #EXT-X-ENDLIST
+ packager.end = () => child.stdin.end();
+ return packager;
+};
+
+/**
+ * Builds the live ingest service.
+ *
+ * Each stream has at most one stream key, created, rotated and revoked by the
+ * stream's owner (`getStreamOwnerId(streamId)`). Encoders publish to
+ * `rtmp://<host>:RTMP_PORT/live` with the key as the stream name; the feed is
+ * repackaged to HLS at `/media/live/<streamId>/master.m3u8` for viewers, and
+ * its health is reported to the owner.
+ *
+ * Rotating a key leaves a running broadcast alone and only refuses the old
+ * key from then on; revoking also disconnects the encoder.
+ *
+ * `onPublish(streamId, playback)` and `onUnpublish(streamId, playback)` report
+ * a stream going live and ending; `onMessage(streamId, message)` sees every
+ * audio, video and data message in between.
+ */
+export const createIngestService = ({
+ getStreamOwnerId,
+ onPublish = () => {},
+ onUnpublish = () => {},
+ onMessage = () => {},
+ store = createJsonStore('stream-keys', { streams: {} })
+}) => {
+ // streamId -> { monitor, packager, close } while a publisher is connected
+ const sessions = new Map();
+ // streamId -> when its last broadcast ended
+ const endedAt = new Map();
+
+ const findStreamByKey = (key) =>
+ Object.keys(store.data.streams).find(streamId => store.data.streams[streamId].key === key) || null;
+
+ const playbackFor = (streamId) => {
+ const session = sessions.get(streamId);
+ const outputDir = path.join(LIVE_MEDIA_DIR, streamId);
+ const playable = fs.existsSync(path.join(outputDir, 'master.m3u8')) && fs.existsSync(path.join(outputDir, 'index.m3u8'));
+ return {
+ streamId,
+ status: session ? 'live' : endedAt.has(streamId) ? 'ended' : 'offline',
+ playbackUrl: playable ? `/media/live/${streamId}/master.m3u8` : null,
+ startedAt: session?.monitor.state.startedAt ?? null,
+ endedAt: endedAt.get(streamId) ?? null
+ };
+ };
+
+ const healthFor = (streamId) => {
+ const session = sessions.get(streamId);
+ return session ? { ...session.monitor.report(session.packager.error), status: 'live' } : { status: playbackFor(streamId).status, health: null, issues: [] };
+ };
+
+ const issueKey = (streamId) => {
+ const previous = store.data.streams[streamId];
+ store.data.streams[streamId] = {
+ key: generateStreamKey(),
+ createdAt: new Date().toISOString(),
+ ...(previous && { rotatedAt: new Date().toISOString() })
+ };
+ store.save();
+ return store.data.streams[streamId];
+ };
+
+ const disconnect = (streamId) => sessions.get(streamId)?.close();
+
+ const revokeKey = (streamId) => {
+ delete store.data.streams[streamId];
+ store.save();
+ disconnect(streamId);
+ };
+
+ const rtmpServer = createRtmpServer({
+ onPublish: ({ app, streamName, close }) => {
+ if (app !== RTMP_APP) {
+ throw new Error(`Publish to the "${RTMP_APP}" application`);
+ }
+ const streamId = findStreamByKey(streamName);
+ if (!streamId) {
+ return null;
+ }
+ if (sessions.has(streamId)) {
+ throw new Error('This stream is already receiving a broadcast');
+ }
+
+ const monitor = createHealthMonitor();
+ const packager = createHlsPackager(streamId, monitor);
+ sessions.set(streamId, { monitor, packager, close });
+ endedAt.delete(streamId);
+ onPublish(streamId, playbackFor(streamId));
+
+ return {
+ onMessage: (message) => {
+ monitor.record(message);
+ packager.write(message);
+ onMessage(streamId, message);
+ },
+ onClose: () => {
+ packager.end();
+ sessions.delete(streamId);
+ endedAt.set(streamId, new Date().toISOString());
+ onUnpublish(streamId, playbackFor(streamId));
+ }
+ };
+ }
+ });
+ rtmpServer.on('error', (error) => console.error('RTMP server error:', error.message));
+
+ const ingestFor = (req, streamId) => {
+ const key = store.data.streams[streamId];
+ return {
+ streamId,
+ serverUrl: `rtmp://${req.hostname}:${RTMP_PORT}/${RTMP_APP}`,
+ streamKey: key?.key ?? null,
+ keyCreatedAt: key?.createdAt ?? null,
+ ...playbackFor(streamId),
+ health: healthFor(streamId)
+ };
+ };
+
+ const requireOwner = (req, res, streamId) => {
+ if (!getUserId(req) || getUserId(req) !== getStreamOwnerId(streamId)) {
+ sendError(res, 403, 'Forbidden', 'Only the stream owner can manage its ingest');
+ return false;
+ }
+ return true;
+ };
+
+ const router = express.Router();
+
+ router.get('/live/streams/:id/ingest', (req, res) => {
+ if (requireOwner(req, res, req.params.id)) {
+ res.json(ingestFor(req, req.params.id));
+ }
+ });
+
+ // Creates the stream key, or replaces it
+ router.post('/live/streams/:id/ingest/key', (req, res) => {
+ if (requireOwner(req, res, req.params.id)) {
+ issueKey(req.params.id);
+ res.status(201).json(ingestFor(req, req.params.id));
+ }
+ });
+
+ router.delete('/live/streams/:id/ingest/key', (req, res) => {
+ if (requireOwner(req, res, req.params.id)) {
+ revokeKey(req.params.id);
+ res.status(204).end();
+ }
+ });
+
+ router.get('/live/streams/:id/ingest/health', (req, res) => {
+ if (requireOwner(req, res, req.params.id)) {
+ res.json(healthFor(req.params.id));
+ }
+ });
+
+ router.get('/live/streams/:id/playback', (req, res) => {
+ res.json(playbackFor(req.params.id));
+ });
+
+ return {
+ router,
+ /** Starts accepting RTMP publishers */
+ listen: (port = RTMP_PORT) => rtmpServer.listen(port),
+ /** Where to publish and the stream key, as the owner sees them */
+ getIngest: ingestFor,
+ /** The stream a key publishes to, or null for unknown and revoked keys */
+ findStreamByKey,
+ issueKey,
+ revokeKey,
+ disconnect,
+ getPlayback: playbackFor,
+ isLive: (streamId) => sessions.has(streamId),
+ close: () => {
+ for (const session of sessions.values()) {
+ session.close();
+ }
+ rtmpServer.close();
+ }
+ };
+};
@@ -0,0 +1,224 @@
+// Persistent background job queue with retries and a dead-letter state
+import { createJsonStore, generateId } from './storage.js';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 5000;
+const DEFAULT_JOB_TIMEOUT_MS = 30 * 60 * 1000;
+
+export class JobTimeoutError extends Error {
+ constructor(timeoutMs) {
+ super(`Job exceeded its time limit of ${timeoutMs}ms`);
+ this.name = 'JobTimeoutError';
+ }
+}
+
+/**
+ * Creates a queue that runs registered step pipelines one job at a time.
+ *
+ * A job type is a list of `{ name, run(context) }` steps. Each step's return
+ * value is stored on the job, and a retried job skips the steps that already
+ * succeeded. A failed attempt is retried with exponential backoff; after
+ * `maxAttempts` the job moves to `dead` and stays there until retried by hand.
+ * Every step has a time limit, after which the attempt's `signal` is aborted and
+ * the attempt counts as failed, so a hung step cannot hold up the rest of the
+ * queue. The limit is `jobTimeoutMs` unless the step sets `timeoutMs`, either
+ * as a number or as a function of the step context for work that scales with
+ * the input.
+ *
+ * Jobs live in `<DATA_DIR>/jobs.json`; jobs that were running when the server
+ * stopped go back to `queued` on startup.
+ */
+export const createJobQueue = ({
+ store = createJsonStore('jobs', { jobs: {} }),
+ concurrency = 1,
+ maxAttempts = DEFAULT_MAX_ATTEMPTS,
+ retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+ jobTimeoutMs = DEFAULT_JOB_TIMEOUT_MS,
+ onUpdate = () => {}
+} = {}) => {
+ const pipelines = new Map();
+ const running = new Set();
+ let timer = null;
+
+ const jobs = () => store.data.jobs;
+
+ const touch = (job, changes) => {
+ Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+ store.save();
+ onUpdate(job);
+ };
+
+ for (const job of Object.values(jobs())) {
+ if (job.status === 'running') {
+ job.status = 'queued';
+ job.runAt = new Date().toISOString();
+ }
+ }
+ store.save();
+
+ const nextRunnable = () => {
+ const now = Date.now();
+ return Object.values(jobs())
+ .filter(job => (job.status === 'queued' || job.status === 'retrying') && !running.has(job.id) && Date.parse(job.runAt) <= now)
+ .sort((a, b) => Date.parse(a.runAt) - Date.parse(b.runAt))[0];
+ };
+
+ const schedule = () => {
+ clearTimeout(timer);
+ const pending = Object.values(jobs()).filter(job => job.status === 'queued' || job.status === 'retrying');
+ if (pending.length === 0) {
+ return;
+ }
+ const soonest = Math.min(...pending.map(job => Date.parse(job.runAt)));
+ timer = setTimeout(tick, Math.max(0, soonest - Date.now()));
+ timer.unref?.();
+ };
+
+ const withTimeout = (promise, controller, timeoutMs) => {
+ let timeout;
+ const expired = new Promise((_, reject) => {
+ timeout = setTimeout(() => {
+ controller.abort();
+ reject(new JobTimeoutError(timeoutMs));
+ }, timeoutMs);
+ });
+ return Promise.race([promise, expired]).finally(() => clearTimeout(timeout));
+ };
+
+ const runSteps = async (job, steps, controller) => {
+ for (const [index, step] of steps.entries()) {
+ if (step.name in job.results) {
+ continue;
+ }
+
+ touch(job, { step: step.name, progress: index / steps.length });
+ const context = {
+ job,
+ payload: job.payload,
+ results: job.results,
+ signal: controller.signal,
+ reportProgress: (fraction) => {
+ const progress = (index + Math.min(1, Math.max(0, fraction))) / steps.length;
+ // Progress callbacks can be very chatty (ffmpeg); only persist whole percents
+ if (Math.floor(progress * 100) !== Math.floor(job.progress * 100)) {
+ touch(job, { progress });
+ }
+ }
+ };
+ const timeoutMs = typeof step.timeoutMs === 'function' ? step.timeoutMs(context) : step.timeoutMs ?? jobTimeoutMs;
+ const result = await withTimeout(step.run(context), controller, timeoutMs);
+ job.results[step.name] = result ?? null;
+ touch(job, { progress: (index + 1) / steps.length });
+ }
+ };
+
+ const run = async (job) => {
+ running.add(job.id);
+ const controller = new AbortController();
+ touch(job, { status: 'running', attempts: job.attempts + 1, startedAt: new Date().toISOString(), error: null });
+
+ try {
+ await runSteps(job, pipelines.get(job.type) || [], controller);
+ touch(job, { status: 'completed', step: null, progress: 1, finishedAt: new Date().toISOString() });
+ } catch (error) {
+ const message = error instanceof Error ? error.message : String(error);
+ const failure = { attempt: job.attempts, step: job.step, message, at: new Date().toISOString() };
+
+ if (job.attempts >= job.maxAttempts) {
+ touch(job, { status: 'dead', error: message, failures: [...job.failures, failure], finishedAt: failure.at });
+ } else {
+ const delay = retryDelayMs * 2 ** (job.attempts - 1);
+ touch(job, {
+ status: 'retrying',
+ error: message,
+ failures: [...job.failures, failure],
+ runAt: new Date(Date.now() + delay).toISOString()
+ });
+ }
+ } finally {
+ running.delete(job.id);
+ tick();
+ }
+ };
+
+ function tick() {
+ while (running.size < concurrency) {
+ const job = nextRunnable();
+ if (!job) {
+ break;
+ }
+ run(job);
+ }
+ schedule();
+ }
+
+ return {
+ /**
+ * Registers the steps that make up jobs of `type`.
+ */
+ register(type, steps) {
+ pipelines.set(type, steps);
+ tick();
+ },
+
+ /**
+ * Adds a job and starts it if the queue has room. Pass `options.id` (from
+ * `generateId('job')`) when the caller has to record the id before the
+ * job's first updates arrive.
+ */
+ enqueue(type, payload, options = {}) {
+ const now = new Date().toISOString();
+ const job = {
+ id: options.id ?? generateId('job'),
+ type,
+ payload,
+ status: 'queued',
+ attempts: 0,
+ maxAttempts: options.maxAttempts ?? maxAttempts,
+ step: null,
+ progress: 0,
+ results: {},
+ error: null,
+ failures: [],
+ runAt: now,
+ createdAt: now,
+ updatedAt: now,
+ startedAt: null,
+ finishedAt: null
+ };
+ jobs()[job.id] = job;
+ store.save();
+ onUpdate(job);
+ tick();
+ return job;
+ },
+
+ /**
+ * Puts a dead (or waiting-to-retry) job back at the front of the queue with
+ * a fresh attempt budget. Returns null if the job cannot be retried.
+ */
+ retry(id) {
+ const job = jobs()[id];
+ if (!job || !['dead', 'retrying'].includes(job.status)) {
+ return null;
+ }
+ touch(job, { status: 'queued', attempts: 0, error: null, runAt: new Date().toISOString(), finishedAt: null });
+ tick();
+ return job;
+ },
+
+ get(id) {
+ return jobs()[id] || null;
+ },
+
+ list({ status, type } = {}) {
+ return Object.values(jobs())
+ .filter(job => (!status || job.status === status) && (!type || job.type === type))
+ .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+ },
+
+ stop() {
+ clearTimeout(timer);
+ }
+ };
+};
@@ -0,0 +1,101 @@
+// Per-user library API: liked videos, channel subscriptions and playlist items
+import express from 'express';
+
+import { createJsonStore } from './storage.js';
+
+const getUserId = (req) => req.get('x-user-id') || 'anonymous';
+
+const sendError = (res, status, error, message, extra = {}) =>
+ res.status(status).json({ error, message, ...extra, timestamp: new Date().toISOString() });
+
+/**
+ * When the client made the change. Queued offline actions arrive late, so the
+ * action time rather than the arrival time decides which write wins.
+ */
+const getOccurredAt = (req) => {
+ const header = req.get('x-occurred-at');
+ const time = header ? Date.parse(header) : NaN;
+ return Number.isNaN(time) ? Date.now() : time;
+};
+
+export const createLibraryStore = () => createJsonStore('library', { users: {}, playlists: {} });
+
+/** Whether `userId` currently subscribes to `channelId` according to `store`. */
+export const isSubscribed = (store, userId, channelId) =>
+ Boolean(store.data.users[userId]?.subscriptions[channelId]?.active);
+
+/**
+ * Builds the library router. Every write is a PUT (add) or DELETE (remove) of
+ * one relation, so repeating it is harmless. Each relation remembers when it
+ * last changed; a write older than that which would flip it back is refused
+ * with 409 and the current state, letting a device that was offline learn it
+ * lost to a newer change made elsewhere.
+ *
+ * `playlistExists(id)` decides which playlists accept items.
+ */
+export const createLibraryRouter = ({ playlistExists = () => true, store = createLibraryStore() } = {}) => {
+ const router = express.Router();
+
+ const userLibrary = (userId) => {
+ store.data.users[userId] ??= { likes: {}, subscriptions: {} };
+ return store.data.users[userId];
+ };
+
+ const activeKeys = (relations) => Object.keys(relations).filter(key => relations[key].active);
+
+ // Applies a PUT/DELETE to `relations[key]`, answering with the resulting state
+ const setRelation = (req, res, relations, key, active, describe) => {
+ const occurredAt = getOccurredAt(req);
+ const current = relations[key];
+
+ if (current && current.active !== active && current.updatedAt > occurredAt) {
+ return sendError(res, 409, 'Conflict', 'A newer change to this item has already been applied', {
+ current: describe(current.active)
+ });
+ }
+
+ if (!current || current.active !== active) {
+ relations[key] = { active, updatedAt: occurredAt };
+ store.save();
+ }
+ res.json(describe(active));
+ };
+
+ router.get('/me/library', (req, res) => {
+ const library = userLibrary(getUserId(req));
+ res.json({
+ likedVideoIds: activeKeys(library.likes),
+ subscribedChannelIds: activeKeys(library.subscriptions)
+ });
+ });
+
+ for (const [method, active] of [['put', true], ['delete', false]]) {
+ router[method]('/me/likes/:videoId', (req, res) => {
+ const { videoId } = req.params;
+ setRelation(req, res, userLibrary(getUserId(req)).likes, videoId, active, liked => ({ videoId, liked }));
+ });
+
+ router[method]('/me/subscriptions/:channelId', (req, res) => {
+ const { channelId } = req.params;
+ setRelation(req, res, userLibrary(getUserId(req)).subscriptions, channelId, active, subscribed => ({
+ channelId,
+ subscribed
+ }));
+ });
+
+ router[method]('/playlists/:id/videos/:videoId', (req, res) => {
+ const { id, videoId } = req.params;
+ if (!playlistExists(id)) {
+ return sendError(res, 404, 'Not found', `Playlist ${id} does not exist`);
+ }
+ store.data.playlists[id] ??= {};
+ setRelation(req, res, store.data.playlists[id], videoId, active, inPlaylist => ({
+ playlistId: id,
+ videoId,
+ inPlaylist
+ }));
+ });
+ }
+
+ return router;
+};
@@ -0,0 +1,465 @@
+// Live chat over WebSocket: history on join, chat settings and moderation
+import { WebSocket, WebSocketServer } from 'ws';
+
+import { createJsonStore, generateId } from './storage.js';
+
+export const LIVE_CHAT_PATH = '/api/live/chat';
+
+const MAX_MESSAGE_LENGTH = 200;
+const HISTORY_SIZE = 100;
+const STORED_MESSAGES = 500;
+const MAX_TIMEOUT_MINUTES = 24 * 60;
+const CHAT_MODES = ['live', 'top', 'off'];
+
+const DEFAULT_SETTINGS = { chatMode: 'live', slowMode: 0, subscribersOnly: false };
+
+const send = (socket, payload) => {
+ if (socket.readyState === WebSocket.OPEN) {
+ socket.send(JSON.stringify(payload));
+ }
+};
+
+const sendError = (socket, code, message, extra = {}) => send(socket, { type: 'error', code, message, ...extra });
+
+/**
+ * Attaches the chat to `server` at `LIVE_CHAT_PATH?streamId=…&userId=…&username=…`.
+ *
+ * Viewers receive the latest messages when they join and every message,
+ * moderation action and settings change afterwards. `getStreamOwnerId(streamId)`
+ * names the channel that owns a stream; its owner and the moderators it
+ * appoints may change settings and delete, time out or ban. Subscribers-only
+ * chat asks `isSubscribed(userId, channelId)`, and the verified badge
+ * `isVerified(userId)`; guests are never verified.
+ *
+ * In `top` mode, messages from viewers without standing (not the owner,
+ * a moderator, verified or subscribed) reach only their author.
+ *
+ * `extensions` add features that share the socket, such as polls. Each
+ * provides `handlers` keyed by message type, called with a context for the
+ * sending viewer, and may define `init({ broadcast })` and `onJoin(context)`.
+ * `onConnect(context)` and `onDisconnect(context)` see each socket arrive
+ * and leave (`onJoin` also runs when a viewer asks to sync),
+ * `onMessage(streamId, message)` sees every message posted to the chat and
+ * `onDelete(streamId, messageIds)` the ones moderators remove.
+ */
+export const attachLiveChat = (server, {
+ getStreamOwnerId,
+ isSubscribed = () => false,
+ isVerified = () => false,
+ extensions = [],
+ store = createJsonStore('live-chat', { streams: {} })
+}) => {
+ const wss = new WebSocketServer({ noServer: true });
+ // streamId -> Set of sockets; each socket carries its viewer in `socket.viewer`
+ const rooms = new Map();
+ // `${streamId}:${userId}` -> time of the last accepted message, for slow mode
+ const lastMessageAt = new Map();
+
+ const streamState = (streamId) => {
+ store.data.streams[streamId] ??= {
+ settings: { ...DEFAULT_SETTINGS },
+ messages: [],
+ moderators: [],
+ bans: [],
+ timeouts: {}
+ };
+ return store.data.streams[streamId];
+ };
+
+ const roleOf = (streamId, userId) => {
+ if (userId === getStreamOwnerId(streamId)) {
+ return 'owner';
+ }
+ return streamState(streamId).moderators.includes(userId) ? 'moderator' : 'viewer';
+ };
+
+ const hasStanding = (viewer, streamId) =>
+ viewer.role !== 'viewer' || viewer.isVerified || isSubscribed(viewer.userId, getStreamOwnerId(streamId));
+
+ const broadcast = (streamId, payload, filter = () => true) => {
+ for (const socket of rooms.get(streamId) || []) {
+ if (filter(socket.viewer)) {
+ send(socket, payload);
+ }
+ }
+ };
+
+ const badgesFor = (viewer, streamId) => {
+ const badges = [];
+ if (viewer.role === 'owner') {
+ badges.push({ type: 'owner', label: 'Owner' });
+ } else if (viewer.role === 'moderator') {
+ badges.push({ type: 'moderator', label: 'Moderator' });
+ }
+ if (viewer.isVerified) {
+ badges.push({ type: 'verified', label: 'Verified' });
+ }
+ if (isSubscribed(viewer.userId, getStreamOwnerId(streamId))) {
+ badges.push({ type: 'subscriber', label: 'Subscriber' });
+ }
+ return badges;
+ };
+
+ // Messages a viewer may see: removed ones are dropped, and in top chat so are others' low-standing ones
+ const visibleTo = (viewer, streamId, message) =>
+ !message.deleted && (message.topChat !== false || streamState(streamId).settings.chatMode !== 'top' || message.userId === viewer.userId);
+
+ const publicMessage = ({ topChat, ...message }) => message;
+
+ const timeoutRemaining = (state, userId) => Math.max(0, (state.timeouts[userId] || 0) - Date.now());
+
+ const isRestricted = (streamId, userId) => {
+ const state = streamState(streamId);
+ return state.bans.includes(userId) || timeoutRemaining(state, userId) > 0;
+ };
+
+ const storeMessage = (streamId, message) => {
+ const state = streamState(streamId);
+ state.messages.push(message);
+ state.messages = state.messages.slice(-STORED_MESSAGES);
+ store.save();
+ broadcast(streamId, { type: 'message', message: publicMessage(message) }, other => visibleTo(other, streamId, message));
+ for (const extension of extensions) {
+ extension.onMessage?.(streamId, publicMessage(message));
+ }
+ };
+
+ const handleChatMessage = (socket, data) => {
+ const { viewer, streamId } = socket;
+ const state = streamState(streamId);
+ const { settings } = state;
+ const isStaff = viewer.role !== 'viewer';
+
+ if (state.bans.includes(viewer.userId)) {
+ return sendError(socket, 'banned', 'You have been banned from this chat');
+ }
+ const timedOut = timeoutRemaining(state, viewer.userId);
+ if (timedOut) {
+ return sendError(socket, 'timed_out', 'You are timed out', { retryAfter: Math.ceil(timedOut / 1000) });
+ }
+ if (settings.chatMode === 'off' && !isStaff) {
+ return sendError(socket, 'chat_off', 'Chat is turned off');
+ }
+ if (settings.subscribersOnly && !isStaff && !isSubscribed(viewer.userId, getStreamOwnerId(streamId))) {
+ return sendError(socket, 'subscribers_only', 'Only subscribers can chat right now');
+ }
+
+ const text = typeof data.message === 'string' ? data.message.trim() : '';
+ if (!text || text.length > MAX_MESSAGE_LENGTH) {
+ return sendError(socket, 'invalid', `Messages must be 1 to ${MAX_MESSAGE_LENGTH} characters`);
+ }
+
+ const slowKey = `${streamId}:${viewer.userId}`;
+ const waitMs = settings.slowMode * 1000 - (Date.now() - (lastMessageAt.get(slowKey) || 0));
+ if (settings.slowMode > 0 && !isStaff && waitMs > 0) {
+ return sendError(socket, 'slow_mode', `Slow mode is on; wait ${Math.ceil(waitMs / 1000)}s`, {
+ retryAfter: Math.ceil(waitMs / 1000)
+ });
+ }
+ lastMessageAt.set(slowKey, Date.now());
+
+ const message = {
+ id: generateId('msg'),
+ clientId: typeof data.clientId === 'string' ? data.clientId : undefined,
+ userId: viewer.userId,
+ username: viewer.username,
+ message: text,
+ timestamp: new Date().toISOString(),
+ type: 'message',
+ isModerator: viewer.role === 'moderator',
+ isOwner: viewer.role === 'owner',
+ isVerified: viewer.isVerified,
+ badges: badgesFor(viewer, streamId),
+ topChat: hasStanding(viewer, streamId)
+ };
+ storeMessage(streamId, message);
+ };
+
+ const handleModeration = (socket, data) => {
+ const { viewer, streamId } = socket;
+ if (viewer.role === 'viewer') {
+ return sendError(socket, 'forbidden', 'Only moderators can do that');
+ }
+
+ const state = streamState(streamId);
+ const target = data.messageId ? state.messages.find(m => m.id === data.messageId) : null;
+ const userId = data.userId || target?.userId;
+ if (!userId || (data.type === 'delete' && !target)) {
+ return sendError(socket, 'invalid', 'Moderation needs a message or a user');
+ }
+ if (roleOf(streamId, userId) === 'owner' || (roleOf(streamId, userId) === 'moderator' && viewer.role !== 'owner')) {
+ return sendError(socket, 'forbidden', 'You cannot moderate this user');
+ }
+
+ const action = {
+ type: data.type,
+ userId,
+ moderatorId: viewer.userId,
+ reason: typeof data.reason === 'string' ? data.reason.slice(0, 200) : '',
+ timestamp: new Date().toISOString()
+ };
+ let removed = [];
+
+ switch (data.type) {
+ case 'delete':
+ removed = [target];
+ action.messageId = target.id;
+ break;
+ case 'timeout': {
+ const minutes = Math.min(Math.max(1, Number(data.duration) || 5), MAX_TIMEOUT_MINUTES);
+ state.timeouts[userId] = Date.now() + minutes * 60 * 1000;
+ action.duration = minutes;
+ removed = state.messages.filter(m => m.userId === userId && !m.deleted);
+ break;
+ }
+ case 'ban':
+ if (!state.bans.includes(userId)) {
+ state.bans.push(userId);
+ }
+ removed = state.messages.filter(m => m.userId === userId && !m.deleted);
+ break;
+ case 'warn':
+ break;
+ case 'approve':
+ // Lifts a ban or timeout
+ state.bans = state.bans.filter(id => id !== userId);
+ delete state.timeouts[userId];
+ break;
+ default:
+ return sendError(socket, 'invalid', `Unknown moderation action ${data.type}`);
+ }
+
+ for (const message of removed) {
+ message.deleted = true;
+ message.deletedBy = viewer.userId;
+ }
+ store.save();
+
+ broadcast(streamId, { type: 'moderation', action, messageIds: removed.map(m => m.id) });
+ if (removed.length) {
+ for (const extension of extensions) {
+ extension.onDelete?.(streamId, removed.map(m => m.id));
+ }
+ }
+ // Tell the affected viewer directly, e.g. so their composer can lock
+ const notices = {
+ ban: { code: 'banned', message: 'You have been banned from this chat' },
+ timeout: { code: 'timed_out', message: 'You are timed out', retryAfter: action.duration * 60 },
+ warn: { code: 'warned', message: action.reason || 'A moderator has warned you' }
+ };
+ const notice = notices[data.type];
+ if (notice) {
+ broadcast(streamId, { type: 'notice', ...notice }, other => other.userId === userId);
+ }
+ };
+
+ const handleSettings = (socket, data) => {
+ const { viewer, streamId } = socket;
+ if (viewer.role === 'viewer') {
+ return sendError(socket, 'forbidden', 'Only moderators can change chat settings');
+ }
+
+ const { settings } = streamState(streamId);
+ const next = data.settings || {};
+ if (next.chatMode !== undefined) {
+ if (!CHAT_MODES.includes(next.chatMode)) {
+ return sendError(socket, 'invalid', `chatMode must be one of: ${CHAT_MODES.join(', ')}`);
+ }
+ settings.chatMode = next.chatMode;
+ }
+ if (next.slowMode !== undefined) {
+ settings.slowMode = Math.min(Math.max(0, Math.floor(Number(next.slowMode) || 0)), 300);
+ }
+ if (next.subscribersOnly !== undefined) {
+ settings.subscribersOnly = Boolean(next.subscribersOnly);
+ }
+ store.save();
+
+ broadcast(streamId, { type: 'settings', settings });
+ // Switching in or out of top chat changes which messages each viewer sees
+ if (next.chatMode !== undefined) {
+ for (const other of rooms.get(streamId) || []) {
+ sendHistory(other);
+ }
+ }
+ };
+
+ const handleModerators = (socket, data) => {
+ const { viewer, streamId } = socket;
+ if (viewer.role !== 'owner') {
+ return sendError(socket, 'forbidden', 'Only the owner can appoint moderators');
+ }
+ const state = streamState(streamId);
+ state.moderators = state.moderators.filter(id => id !== data.userId);
+ if (data.enabled) {
+ state.moderators.push(data.userId);
+ }
+ store.save();
+
+ for (const other of rooms.get(streamId) || []) {
+ if (other.viewer.userId === data.userId) {
+ other.viewer.role = roleOf(streamId, data.userId);
+ sendHistory(other);
+ }
+ }
+ };
+
+ function sendHistory(socket) {
+ const { viewer, streamId } = socket;
+ const state = streamState(streamId);
+ const messages = state.messages
+ .filter(message => visibleTo(viewer, streamId, message))
+ .slice(-HISTORY_SIZE)
+ .map(publicMessage);
+ send(socket, {
+ type: 'history',
+ messages,
+ settings: state.settings,
+ role: viewer.role,
+ viewers: rooms.get(streamId)?.size || 0
+ });
+ }
+
+ // What extension handlers get to know about, and answer, the sending viewer
+ const contextFor = (socket) => ({
+ streamId: socket.streamId,
+ viewer: socket.viewer,
+ send: (payload) => send(socket, payload),
+ error: (code, message, extra) => sendError(socket, code, message, extra),
+ broadcast: (payload, filter) => broadcast(socket.streamId, payload, filter),
+ isRestricted: () => isRestricted(socket.streamId, socket.viewer.userId)
+ });
+
+ const extensionHandler = (type) => extensions.find(extension => extension.handlers?.[type])?.handlers[type];
+
+ for (const extension of extensions) {
+ extension.init?.({ broadcast });
+ }
+
+ // Everything a viewer needs on joining, also re-sent on request ('sync')
+ const sendState = (socket) => {
+ sendHistory(socket);
+ for (const extension of extensions) {
+ extension.onJoin?.(contextFor(socket));
+ }
+ };
+
+ const broadcastViewerCount = (streamId) => {
+ broadcast(streamId, { type: 'viewers', count: rooms.get(streamId)?.size || 0 });
+ };
+
+ wss.on('connection', (socket, req) => {
+ const url = new URL(req.url, 'http://localhost');
+ const streamId = url.searchParams.get('streamId');
+ const isGuest = !url.searchParams.get('userId');
+ const userId = isGuest ? `guest-${generateId('viewer')}` : url.searchParams.get('userId');
+
+ socket.streamId = streamId;
+ socket.viewer = {
+ userId,
+ username: (url.searchParams.get('username') || userId).slice(0, 50),
+ isVerified: !isGuest && Boolean(isVerified(userId)),
+ isGuest,
+ role: roleOf(streamId, userId)
+ };
+
+ if (!rooms.has(streamId)) {
+ rooms.set(streamId, new Set());
+ }
+ rooms.get(streamId).add(socket);
+ for (const extension of extensions) {
+ extension.onConnect?.(contextFor(socket));
+ }
+ sendState(socket);
+ broadcastViewerCount(streamId);
+
+ socket.on('message', (raw) => {
+ let data;
+ try {
+ data = JSON.parse(raw.toString());
+ } catch {
+ return sendError(socket, 'invalid', 'Messages must be JSON');
+ }
+ switch (data.type) {
+ case 'message':
+ return handleChatMessage(socket, data);
+ case 'moderate':
+ return handleModeration(socket, { ...data, type: data.action });
+ case 'settings':
+ return handleSettings(socket, data);
+ case 'moderator':
+ return handleModerators(socket, data);
+ case 'sync':
+ return sendState(socket);
+ default: {
+ const handler = extensionHandler(data.type);
+ if (!handler) {
+ return sendError(socket, 'invalid', `Unknown message type ${data.type}`);
+ }
+ return handler(contextFor(socket), data);
+ }
+ }
+ });
+
+ socket.on('close', () => {
+ const room = rooms.get(streamId);
+ room?.delete(socket);
+ for (const extension of extensions) {
+ extension.onDisconnect?.(contextFor(socket));
+ }
+ if (room && room.size === 0) {
+ rooms.delete(streamId);
+ } else {
+ broadcastViewerCount(streamId);
+ }
+ });
+ });
+
+ server.on('upgrade', (req, socket, head) => {
+ const url = new URL(req.url, 'http://localhost');
+ if (url.pathname !== LIVE_CHAT_PATH) {
+ return;
+ }
+ if (!url.searchParams.get('streamId')) {
+ socket.write('HTTP/1.1 400 Bad Request\r\n\r\n');
+ socket.destroy();
+ return;
+ }
+ wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+ });
+
+ return {
+ /** Sockets currently watching a stream */
+ getViewerCount: (streamId) => rooms.get(streamId)?.size || 0,
+ /** Settings for a stream, e.g. to seed them from the stream's `LiveStreamSettings` */
+ getSettings: (streamId) => streamState(streamId).settings,
+ /** Whether `userId` is banned or timed out in the stream's chat */
+ isRestricted,
+ /**
+ * Posts a message that did not come from a socket, such as a paid Super
+ * Chat, to everyone in the stream. Paid messages skip chat restrictions.
+ */
+ publish: (streamId, message) => {
+ const stored = {
+ id: generateId('msg'),
+ timestamp: new Date().toISOString(),
+ type: 'message',
+ isModerator: false,
+ isOwner: false,
+ isVerified: false,
+ badges: [],
+ ...message
+ };
+ storeMessage(streamId, stored);
+ return publicMessage(stored);
+ },
+ /** Sends `payload` to every socket in the stream */
+ broadcast: (streamId, payload) => broadcast(streamId, payload),
+ close: () => {
+ for (const extension of extensions) {
+ extension.close?.();
+ }
+ wss.close();
+ }
+ };
+};
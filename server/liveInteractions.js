@@ -0,0 +1,338 @@
+// Live polls and Q&A, carried over the live chat socket
+import express from 'express';
+
+import { createJsonStore, generateId } from './storage.js';
+
+const MAX_POLL_OPTIONS = 6;
+const MIN_POLL_DURATION_MS = 10 * 1000;
+const MAX_POLL_DURATION_MS = 60 * 60 * 1000;
+const DEFAULT_POLL_DURATION_MS = 2 * 60 * 1000;
+const MAX_QUESTION_LENGTH = 300;
+// Votes arrive in bursts; results go out at most this often per poll
+const RESULTS_INTERVAL_MS = 500;
+
+const isStaff = (viewer) => viewer.role !== 'viewer';
+
+const getUserId = (req) => req.get('x-user-id') || null;
+
+const sendError = (res, status, error, message, extra = {}) =>
+ res.status(status).json({ error, message, ...extra, timestamp: new Date().toISOString() });
+
+const cleanText = (value, maxLength) => (typeof value === 'string' ? value.trim().slice(0, maxLength) : '');
+
+/** A poll as viewers see it: vote counts and percentages, no voter list */
+const publicPoll = ({ voters, endsAt, ...poll }) => {
+ const totalVotes = Object.keys(voters).length;
+ return {
+ ...poll,
+ totalVotes,
+ options: poll.options.map(option => ({
+ ...option,
+ percentage: totalVotes ? Math.round((option.votes / totalVotes) * 100) : 0
+ }))
+ };
+};
+
+const publicQuestion = ({ upvoters, hidden, ...question }) => ({ ...question, upvotes: upvoters.length });
+
+/**
+ * Polls and Q&A for live streams, as a live chat extension (see
+ * `attachLiveChat`). Hosts and moderators create polls that close on their own
+ * after `duration` ms or when closed early; everyone receives the running
+ * results. Votes come in through `router` rather than the socket, so each is
+ * counted once against the signed-in user (`X-User-Id`) and not an identity the
+ * socket was opened with. Viewers ask questions and upvote them; hosts answer,
+ * pin and remove them.
+ *
+ * Closed polls and answered questions make up the stream's archive, which
+ * `getArchive(streamId)` returns for its replay.
+ */
+export const createLiveInteractions = ({ store = createJsonStore('live-interactions', { streams: {} }) } = {}) => {
+ let broadcastTo = () => {};
+ const closeTimers = new Map();
+ const pendingResults = new Map();
+
+ const streamState = (streamId) => {
+ store.data.streams[streamId] ??= { polls: [], questions: [] };
+ return store.data.streams[streamId];
+ };
+
+ const findPoll = (streamId, pollId) => streamState(streamId).polls.find(poll => poll.id === pollId);
+ const findQuestion = (streamId, questionId) =>
+ streamState(streamId).questions.find(question => question.id === questionId && !question.hidden);
+
+ const broadcastPoll = (streamId, poll) => {
+ clearTimeout(pendingResults.get(poll.id));
+ pendingResults.delete(poll.id);
+ broadcastTo(streamId, { type: 'poll', poll: publicPoll(poll) });
+ };
+
+ const closePoll = (streamId, poll) => {
+ clearTimeout(closeTimers.get(poll.id));
+ closeTimers.delete(poll.id);
+ if (!poll.isActive) {
+ return;
+ }
+ poll.isActive = false;
+ poll.endedAt = new Date().toISOString();
+ store.save();
+ broadcastPoll(streamId, poll);
+ };
+
+ const scheduleClose = (streamId, poll) => {
+ const remaining = Math.max(0, poll.endsAt - Date.now());
+ closeTimers.set(poll.id, setTimeout(() => closePoll(streamId, poll), remaining));
+ };
+
+ const broadcastQuestion = (streamId, question) => {
+ broadcastTo(streamId, { type: 'question', question: publicQuestion(question) });
+ };
+
+ const handlers = {
+ 'poll:create': (ctx, data) => {
+ if (!isStaff(ctx.viewer)) {
+ return ctx.error('forbidden', 'Only the host and moderators can start polls');
+ }
+ const question = cleanText(data.question, 200);
+ const options = Array.isArray(data.options)
+ ? data.options.map(option => cleanText(option, 100)).filter(Boolean)
+ : [];
+ if (!question || options.length < 2 || options.length > MAX_POLL_OPTIONS) {
+ return ctx.error('invalid', `A poll needs a question and 2 to ${MAX_POLL_OPTIONS} options`);
+ }
+
+ const state = streamState(ctx.streamId);
+ // One poll at a time: starting a new one closes the previous
+ for (const poll of state.polls.filter(p => p.isActive)) {
+ closePoll(ctx.streamId, poll);
+ }
+
+ const duration = Math.min(
+ Math.max(Number(data.duration) || DEFAULT_POLL_DURATION_MS, MIN_POLL_DURATION_MS),
+ MAX_POLL_DURATION_MS
+ );
+ const now = Date.now();
+ const poll = {
+ id: generateId('poll'),
+ streamId: ctx.streamId,
+ question,
+ options: options.map(text => ({ id: generateId('opt'), text, votes: 0 })),
+ isActive: true,
+ createdAt: new Date(now).toISOString(),
+ duration,
+ endsAt: now + duration,
+ voters: {}
+ };
+ state.polls.push(poll);
+ store.save();
+ scheduleClose(ctx.streamId, poll);
+ broadcastPoll(ctx.streamId, poll);
+ },
+
+ 'poll:close': (ctx, data) => {
+ if (!isStaff(ctx.viewer)) {
+ return ctx.error('forbidden', 'Only the host and moderators can end polls');
+ }
+ const poll = findPoll(ctx.streamId, data.pollId);
+ if (!poll) {
+ return ctx.error('invalid', 'Unknown poll');
+ }
+ closePoll(ctx.streamId, poll);
+ },
+
+ 'question:ask': (ctx, data) => {
+ if (ctx.viewer.isGuest) {
+ return ctx.error('forbidden', 'Sign in to ask a question');
+ }
+ if (ctx.isRestricted()) {
+ return ctx.error('forbidden', 'You cannot ask questions in this stream right now');
+ }
+ const text = cleanText(data.question, MAX_QUESTION_LENGTH);
+ if (!text) {
+ return ctx.error('invalid', `Questions must be 1 to ${MAX_QUESTION_LENGTH} characters`);
+ }
+
+ const question = {
+ id: generateId('question'),
+ streamId: ctx.streamId,
+ userId: ctx.viewer.userId,
+ username: ctx.viewer.username,
+ question: text,
+ answered: false,
+ timestamp: new Date().toISOString(),
+ isHighlighted: false,
+ upvoters: []
+ };
+ streamState(ctx.streamId).questions.push(question);
+ store.save();
+ broadcastQuestion(ctx.streamId, question);
+ },
+
+ 'question:upvote': (ctx, data) => {
+ const question = findQuestion(ctx.streamId, data.questionId);
+ if (!question) {
+ return ctx.error('invalid', 'Unknown question');
+ }
+ if (ctx.viewer.isGuest) {
+ return ctx.error('forbidden', 'Sign in to upvote');
+ }
+ // Toggles, so a second upvote takes the first back
+ const { userId } = ctx.viewer;
+ question.upvoters = question.upvoters.includes(userId)
+ ? question.upvoters.filter(id => id !== userId)
+ : [...question.upvoters, userId];
+ store.save();
+ broadcastQuestion(ctx.streamId, question);
+ },
+
+ 'question:answer': (ctx, data) => {
+ if (!isStaff(ctx.viewer)) {
+ return ctx.error('forbidden', 'Only the host and moderators can answer questions');
+ }
+ const question = findQuestion(ctx.streamId, data.questionId);
+ if (!question) {
+ return ctx.error('invalid', 'Unknown question');
+ }
+ question.answered = data.answered !== false;
+ question.answer = cleanText(data.answer, 1000) || undefined;
+ question.answeredAt = question.answered ? new Date().toISOString() : undefined;
+ if (question.answered) {
+ question.isHighlighted = false;
+ }
+ store.save();
+ broadcastQuestion(ctx.streamId, question);
+ },
+
+ 'question:pin': (ctx, data) => {
+ if (!isStaff(ctx.viewer)) {
+ return ctx.error('forbidden', 'Only the host and moderators can pin questions');
+ }
+ const question = findQuestion(ctx.streamId, data.questionId);
+ if (!question) {
+ return ctx.error('invalid', 'Unknown question');
+ }
+ const pinned = data.pinned !== false;
+ // Only one question is pinned at a time
+ for (const other of streamState(ctx.streamId).questions) {
+ if (other.isHighlighted && other !== question && pinned) {
+ other.isHighlighted = false;
+ broadcastQuestion(ctx.streamId, other);
+ }
+ }
+ question.isHighlighted = pinned;
+ store.save();
+ broadcastQuestion(ctx.streamId, question);
+ },
+
+ 'question:remove': (ctx, data) => {
+ const question = findQuestion(ctx.streamId, data.questionId);
+ if (!question) {
+ return ctx.error('invalid', 'Unknown question');
+ }
+ if (!isStaff(ctx.viewer) && question.userId !== ctx.viewer.userId) {
+ return ctx.error('forbidden', 'You cannot remove this question');
+ }
+ // Kept, but out of the feed and the archive
+ question.hidden = true;
+ question.isHighlighted = false;
+ store.save();
+ broadcastTo(ctx.streamId, { type: 'question:removed', questionId: question.id });
+ }
+ };
+
+ // Polls that ended while the server was down are closed; the rest resume their countdown
+ for (const [streamId, state] of Object.entries(store.data.streams)) {
+ for (const poll of state.polls.filter(p => p.isActive)) {
+ if (poll.endsAt <= Date.now()) {
+ poll.isActive = false;
+ poll.endedAt = new Date(poll.endsAt).toISOString();
+ } else {
+ scheduleClose(streamId, poll);
+ }
+ }
+ }
+ store.save();
+
+ const router = express.Router();
+
+ router.post('/live/streams/:id/polls/:pollId/votes', (req, res) => {
+ const userId = getUserId(req);
+ if (!userId) {
+ return sendError(res, 401, 'Unauthorized', 'Sign in to vote');
+ }
+ const poll = findPoll(req.params.id, req.params.pollId);
+ if (!poll) {
+ return sendError(res, 404, 'Not found', 'Unknown poll');
+ }
+ if (!poll.isActive) {
+ return sendError(res, 409, 'Conflict', 'This poll has ended');
+ }
+ if (poll.voters[userId]) {
+ return sendError(res, 409, 'Conflict', 'You have already voted in this poll', { optionId: poll.voters[userId] });
+ }
+ const option = poll.options.find(o => o.id === req.body?.optionId);
+ if (!option) {
+ return sendError(res, 400, 'Bad request', 'Unknown poll option');
+ }
+
+ poll.voters[userId] = option.id;
+ option.votes += 1;
+ store.save();
+ if (!pendingResults.has(poll.id)) {
+ pendingResults.set(poll.id, setTimeout(() => broadcastPoll(req.params.id, poll), RESULTS_INTERVAL_MS));
+ }
+ res.status(201).json({ pollId: poll.id, optionId: option.id });
+ });
+
+ // Errors name the feature they came from ('poll' or 'question'), so chat can leave them alone
+ const scopedHandlers = Object.fromEntries(Object.entries(handlers).map(([type, handler]) => {
+ const feature = type.split(':')[0];
+ return [type, (ctx, data) => handler({
+ ...ctx,
+ error: (code, message, extra) => ctx.error(code, message, { ...extra, feature })
+ }, data)];
+ }));
+
+ return {
+ router,
+ handlers: scopedHandlers,
+
+ init: ({ broadcast }) => {
+ broadcastTo = broadcast;
+ },
+
+ /** Sends the stream's polls and questions to a viewer who just joined */
+ onJoin: (ctx) => {
+ const state = streamState(ctx.streamId);
+ const { userId } = ctx.viewer;
+ const votes = {};
+ for (const poll of state.polls) {
+ if (poll.voters[userId]) {
+ votes[poll.id] = poll.voters[userId];
+ }
+ }
+ const questions = state.questions.filter(question => !question.hidden);
+ ctx.send({ type: 'polls', polls: state.polls.map(publicPoll), votes });
+ ctx.send({
+ type: 'questions',
+ questions: questions.map(publicQuestion),
+ upvoted: questions.filter(question => question.upvoters.includes(userId)).map(question => question.id)
+ });
+ },
+
+ /** Closed polls and answered questions, for the stream's replay */
+ getArchive: (streamId) => {
+ const state = store.data.streams[streamId];
+ return {
+ polls: (state?.polls || []).filter(poll => !poll.isActive).map(publicPoll),
+ questions: (state?.questions || []).filter(question => question.answered && !question.hidden).map(publicQuestion)
+ };
+ },
+
+ close: () => {
+ for (const timer of [...closeTimers.values(), ...pendingResults.values()]) {
+ clearTimeout(timer);
+ }
+ }
+ };
+};
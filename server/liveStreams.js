@@ -0,0 +1,214 @@
+// Creator-owned live streams: create, edit and delete, with status from the ingest
+import express from 'express';
+
+import { createJsonStore, generateId } from './storage.js';
+
+const VISIBILITIES = ['public', 'unlisted', 'private'];
+const EDITABLE_FIELDS = ['title', 'description', 'category', 'tags', 'visibility', 'thumbnailUrl', 'scheduledStartTime', 'enableRecording'];
+
+const getUserId = (req) => req.get('x-user-id') || null;
+
+const sendError = (res, status, error, message) =>
+ res.status(status).json({ error, message, timestamp: new Date().toISOString() });
+
+/** Validated copies of the editable fields present in `body`; a string when one is invalid */
+const readFields = (body) => {
+ const fields = {};
+ for (const field of EDITABLE_FIELDS.filter(name => body[name] !== undefined)) {
+ const value = body[field];
+ if (field === 'tags') {
+ fields.tags = (Array.isArray(value) ? value : String(value).split(','))
+ .map(tag => String(tag).trim())
+ .filter(Boolean)
+ .slice(0, 30);
+ } else if (field === 'visibility') {
+ if (!VISIBILITIES.includes(value)) {
+ return `visibility must be one of: ${VISIBILITIES.join(', ')}`;
+ }
+ fields.visibility = value;
+ } else if (field === 'enableRecording') {
+ fields.enableRecording = value === true || value === 'true';
+ } else if (field === 'scheduledStartTime') {
+ if (value !== null && Number.isNaN(Date.parse(value))) {
+ return 'scheduledStartTime must be an ISO date';
+ }
+ fields.scheduledStartTime = value && new Date(value).toISOString();
+ } else {
+ fields[field] = String(value).trim().slice(0, field === 'description' ? 5000 : 100);
+ }
+ }
+ if (fields.title === '') {
+ return 'title cannot be empty';
+ }
+ return fields;
+};
+
+/**
+ * Builds the live stream router. Streams belong to the user who created them
+ * (`X-User-Id`); `getOwnerId(streamId)` answers for the rest of the server.
+ * A stream is `scheduled` until its first broadcast (`markLive`) and `ended`
+ * after it (`markEnded`), or when its slot passes without one.
+ *
+ * A new stream gets its stream key straight away. `ingest` supplies the key
+ * and live status; deleting a stream revokes its key.
+ */
+export const createLiveStreamRouter = ({ ingest, store = createJsonStore('live-streams', { streams: {} }) }) => {
+ const router = express.Router();
+ const streams = () => store.data.streams;
+
+ // The ingest knows best while it has seen the stream; after a restart a stream
+ // left `live` can only have ended
+ const statusOf = (stream) => {
+ const { status } = ingest.getPlayback(stream.id);
+ if (status !== 'offline') {
+ return status;
+ }
+ return stream.status === 'live' ? 'ended' : stream.status;
+ };
+
+ // Everyone sees the stream; its owner also gets where and how to publish
+ const present = (req, stream) => {
+ const view = { ...stream, status: statusOf(stream), playback: ingest.getPlayback(stream.id) };
+ if (getUserId(req) === stream.creatorId) {
+ const { serverUrl, streamKey } = ingest.getIngest(req, stream.id);
+ return { ...view, streamUrl: serverUrl, streamKey };
+ }
+ return view;
+ };
+
+ const findOwned = (req, res) => {
+ const stream = streams()[req.params.id];
+ if (!stream) {
+ sendError(res, 404, 'Not found', 'Live stream not found');
+ return null;
+ }
+ if (getUserId(req) !== stream.creatorId) {
+ sendError(res, 403, 'Forbidden', 'Only the stream owner can change this stream');
+ return null;
+ }
+ return stream;
+ };
+
+ router.post('/live/streams', (req, res) => {
+ const userId = getUserId(req);
+ if (!userId) {
+ return sendError(res, 401, 'Unauthorized', 'Sign in to create a live stream');
+ }
+ const fields = readFields(req.body || {});
+ if (typeof fields === 'string') {
+ return sendError(res, 400, 'Bad request', fields);
+ }
+ if (!fields.title) {
+ return sendError(res, 400, 'Bad request', 'title is required');
+ }
+
+ const now = new Date().toISOString();
+ const stream = {
+ id: generateId('stream'),
+ title: fields.title,
+ description: '',
+ category: 'General',
+ tags: [],
+ visibility: 'public',
+ thumbnailUrl: '',
+ scheduledStartTime: null,
+ enableRecording: true,
+ ...fields,
+ status: 'scheduled',
+ creatorId: userId,
+ creatorName: String(req.body.creatorName || userId).slice(0, 50),
+ createdAt: now,
+ updatedAt: now
+ };
+ streams()[stream.id] = stream;
+ store.save();
+ ingest.issueKey(stream.id);
+
+ res.status(201).json(present(req, stream));
+ });
+
+ // The signed-in creator's streams, newest first
+ router.get('/live/streams', (req, res) => {
+ const userId = getUserId(req);
+ if (!userId) {
+ return sendError(res, 401, 'Unauthorized', 'Sign in to see your live streams');
+ }
+ const mine = Object.values(streams())
+ .filter(stream => stream.creatorId === userId)
+ .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+ .map(stream => present(req, stream));
+ res.json({ streams: mine, total: mine.length });
+ });
+
+ router.get('/live/streams/:id', (req, res) => {
+ const stream = streams()[req.params.id];
+ if (!stream || (stream.visibility === 'private' && getUserId(req) !== stream.creatorId)) {
+ return sendError(res, 404, 'Not found', 'Live stream not found');
+ }
+ res.json(present(req, stream));
+ });
+
+ router.patch('/live/streams/:id', (req, res) => {
+ const stream = findOwned(req, res);
+ if (!stream) {
+ return;
+ }
+ const fields = readFields(req.body || {});
+ if (typeof fields === 'string') {
+ return sendError(res, 400, 'Bad request', fields);
+ }
+ Object.assign(stream, fields, { updatedAt: new Date().toISOString() });
+ // Rescheduling a stream that was missed puts it back on the schedule
+ if (fields.scheduledStartTime && stream.endReason === 'missed') {
+ Object.assign(stream, { status: 'scheduled', endReason: null, endedAt: null });
+ }
+ store.save();
+ res.json(present(req, stream));
+ });
+
+ // Cuts off the encoder; the stream key stays valid
+ router.post('/live/streams/:id/end', (req, res) => {
+ const stream = findOwned(req, res);
+ if (!stream) {
+ return;
+ }
+ ingest.disconnect(stream.id);
+ res.status(204).end();
+ });
+
+ router.delete('/live/streams/:id', (req, res) => {
+ const stream = findOwned(req, res);
+ if (!stream) {
+ return;
+ }
+ ingest.revokeKey(stream.id);
+ delete streams()[stream.id];
+ store.save();
+ res.status(204).end();
+ });
+
+ const setStatus = (streamId, status, fields = {}) => {
+ const stream = streams()[streamId];
+ if (!stream) {
+ return null;
+ }
+ Object.assign(stream, fields, { status, updatedAt: new Date().toISOString() });
+ store.save();
+ return stream;
+ };
+
+ return {
+ router,
+ /** Every stream made here */
+ getStreams: () => Object.values(streams()),
+ /** Records that a broadcast started, so the status survives a restart */
+ markLive: (streamId, startedAt = new Date().toISOString()) => setStatus(streamId, 'live', { actualStartTime: startedAt }),
+ /** `reason` is `missed` for a scheduled stream that never started */
+ markEnded: (streamId, { endedAt = new Date().toISOString(), reason = 'finished' } = {}) =>
+ setStatus(streamId, 'ended', { endedAt, endReason: reason }),
+ /** The creator of a stream made here, or null for streams this router does not know */
+ getOwnerId: (streamId) => streams()[streamId]?.creatorId ?? null,
+ /** A stream made here, or null */
+ getStream: (streamId) => streams()[streamId] ?? null
+ };
+};
@@ -0,0 +1,119 @@
+// In-app notifications: a per-user inbox other services post into
+import express from 'express';
+
+import { createJsonStore, generateId } from './storage.js';
+
+// Older notifications fall off the end of the inbox
+const MAX_PER_USER = 200;
+const PAGE_SIZE = 50;
+
+const getUserId = (req) => req.get('x-user-id') || null;
+
+const sendError = (res, status, error, message) =>
+ res.status(status).json({ error, message, timestamp: new Date().toISOString() });
+
+/**
+ * Builds the notification service. `notify(userId, notification)` adds to a
+ * user's inbox, newest first; a `dedupeKey` makes repeated calls for the same
+ * event (a reminder, say) add it only once. The router serves the signed-in
+ * user's inbox (`X-User-Id`).
+ */
+export const createNotificationService = ({ store = createJsonStore('notifications', { users: {} }) } = {}) => {
+ const inbox = (userId) => {
+ store.data.users[userId] ??= [];
+ return store.data.users[userId];
+ };
+
+ const notify = (userId, { type = 'system', title, message = '', actionUrl, thumbnail, metadata, dedupeKey }) => {
+ const notifications = inbox(userId);
+ if (dedupeKey && notifications.some(notification => notification.dedupeKey === dedupeKey)) {
+ return null;
+ }
+ const now = new Date().toISOString();
+ const notification = {
+ id: generateId('notification'),
+ type,
+ title,
+ message,
+ isRead: false,
+ ...(actionUrl && { actionUrl }),
+ ...(thumbnail && { thumbnail }),
+ ...(metadata && { metadata }),
+ ...(dedupeKey && { dedupeKey }),
+ createdAt: now,
+ updatedAt: now
+ };
+ notifications.unshift(notification);
+ notifications.splice(MAX_PER_USER);
+ store.save();
+ return notification;
+ };
+
+ const present = ({ dedupeKey: _dedupeKey, ...notification }) => notification;
+
+ const requireUser = (req, res) => {
+ const userId = getUserId(req);
+ if (!userId) {
+ sendError(res, 401, 'Unauthorized', 'Sign in to see your notifications');
+ }
+ return userId;
+ };
+
+ const router = express.Router();
+
+ // `?unread=true` leaves out what has been read
+ router.get('/notifications', (req, res) => {
+ const userId = requireUser(req, res);
+ if (!userId) {
+ return;
+ }
+ const notifications = inbox(userId);
+ const unreadCount = notifications.filter(notification => !notification.isRead).length;
+ const listed = req.query.unread === 'true' ? notifications.filter(notification => !notification.isRead) : notifications;
+ res.json({ notifications: listed.slice(0, PAGE_SIZE).map(present), unreadCount, total: listed.length });
+ });
+
+ router.post('/notifications/read-all', (req, res) => {
+ const userId = requireUser(req, res);
+ if (!userId) {
+ return;
+ }
+ const now = new Date().toISOString();
+ for (const notification of inbox(userId).filter(item => !item.isRead)) {
+ Object.assign(notification, { isRead: true, updatedAt: now });
+ }
+ store.save();
+ res.status(204).end();
+ });
+
+ router.post('/notifications/:id/read', (req, res) => {
+ const userId = requireUser(req, res);
+ if (!userId) {
+ return;
+ }
+ const notification = inbox(userId).find(item => item.id === req.params.id);
+ if (!notification) {
+ return sendError(res, 404, 'Not found', 'Notification not found');
+ }
+ Object.assign(notification, { isRead: true, updatedAt: new Date().toISOString() });
+ store.save();
+ res.json(present(notification));
+ });
+
+ router.delete('/notifications/:id', (req, res) => {
+ const userId = requireUser(req, res);
+ if (!userId) {
+ return;
+ }
+ const notifications = inbox(userId);
+ const index = notifications.findIndex(item => item.id === req.params.id);
+ if (index === -1) {
+ return sendError(res, 404, 'Not found', 'Notification not found');
+ }
+ notifications.splice(index, 1);
+ store.save();
+ res.status(204).end();
+ });
+
+ return { router, notify };
+};
@@ -0,0 +1,100 @@
+// Opaque cursor pagination modelled on the YouTube Data API pageToken semantics
+
+const DEFAULT_MAX_RESULTS = 20;
+const MAX_RESULTS_LIMIT = 50;
+
+export class InvalidPageTokenError extends Error {
+ constructor(message = 'The request specifies an invalid page token.') {
+ super(message);
+ this.name = 'InvalidPageTokenError';
+ }
+}
+
+export const compareKeys = (a, b) => {
+ for (let i = 0; i < Math.max(a.length, b.length); i++) {
+ if (a[i] === b[i]) {
+ continue;
+ }
+ if (a[i] === undefined) {
+ return -1;
+ }
+ if (b[i] === undefined) {
+ return 1;
+ }
+ return a[i] < b[i] ? -1 : 1;
+ }
+ return 0;
+};
+
+const encodeToken = (payload) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+const decodeToken = (token, scope) => {
+ let payload;
+ try {
+ payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+ } catch {
+ throw new InvalidPageTokenError();
+ }
+ if (!payload || !['next', 'prev'].includes(payload.d) || !Array.isArray(payload.k) || payload.s !== scope) {
+ throw new InvalidPageTokenError();
+ }
+ return payload;
+};
+
+/**
+ * Reads `maxResults` (or the legacy `limit`) from a query string.
+ */
+export const parseMaxResults = (query) => {
+ const requested = parseInt(query.maxResults ?? query.limit ?? DEFAULT_MAX_RESULTS, 10);
+ if (Number.isNaN(requested)) {
+ return DEFAULT_MAX_RESULTS;
+ }
+ return Math.min(MAX_RESULTS_LIMIT, Math.max(1, requested));
+};
+
+/**
+ * Returns one page of `items` plus opaque `nextPageToken`/`prevPageToken` cursors.
+ *
+ * Cursors encode the sort key of the boundary item rather than an offset, so
+ * items inserted or removed ahead of the cursor between requests neither
+ * repeat nor get skipped. `sortKey(item)` must return a tuple that totally
+ * orders the list ascending; include the item id as the final element.
+ * `scope` ties a token to one listing so it cannot be replayed against another.
+ */
+export const paginate = (items, { pageToken = null, maxResults, sortKey, scope }) => {
+ const sorted = [...items].sort((a, b) => compareKeys(sortKey(a), sortKey(b)));
+
+ let start = 0;
+ let end = Math.min(maxResults, sorted.length);
+
+ if (pageToken) {
+ const { d: direction, k: boundary } = decodeToken(pageToken, scope);
+ if (direction === 'next') {
+ start = sorted.findIndex(item => compareKeys(sortKey(item), boundary) > 0);
+ start = start === -1 ? sorted.length : start;
+ end = Math.min(start + maxResults, sorted.length);
+ } else {
+ end = sorted.findIndex(item => compareKeys(sortKey(item), boundary) >= 0);
+ end = end === -1 ? sorted.length : end;
+ start = Math.max(0, end - maxResults);
+ }
+ }
+
+ const page = sorted.slice(start, end);
+ const result = {
+ items: page,
+ pageInfo: {
+ totalResults: sorted.length,
+ resultsPerPage: maxResults
+ }
+ };
+
+ if (end < sorted.length && page.length > 0) {
+ result.nextPageToken = encodeToken({ d: 'next', s: scope, k: sortKey(page[page.length - 1]) });
+ }
+ if (start > 0 && page.length > 0) {
+ result.prevPageToken = encodeToken({ d: 'prev', s: scope, k: sortKey(page[0]) });
+ }
+
+ return result;
+};
@@ -0,0 +1,54 @@
+// Mock payment provider for the development server
+import { generateId } from './storage.js';
+
+export class PaymentError extends Error {
+ constructor(code, message) {
+ super(message);
+ this.name = 'PaymentError';
+ this.code = code;
+ }
+}
+
+// Test tokens with a fixed outcome; any other token is charged successfully
+const DECLINING_TOKENS = {
+ tok_chargeDeclined: ['card_declined', 'Your card was declined'],
+ tok_insufficientFunds: ['insufficient_funds', 'Your card has insufficient funds'],
+ tok_expiredCard: ['expired_card', 'Your card has expired']
+};
+
+/**
+ * Stands in for a card processor. `charge` resolves with a charge record or
+ * rejects with a `PaymentError`; the tokens in `DECLINING_TOKENS` decline the
+ * way a processor's test cards do. Amounts are in minor units (cents).
+ */
+export const createMockPaymentProvider = () => {
+ const charges = new Map();
+
+ return {
+ charge: async ({ amount, currency, source, description }) => {
+ if (!Number.isInteger(amount) || amount <= 0) {
+ throw new PaymentError('invalid_amount', 'Amount must be a positive number of cents');
+ }
+ if (!source) {
+ throw new PaymentError('missing_source', 'A payment token is required');
+ }
+ const decline = DECLINING_TOKENS[source];
+ if (decline) {
+ throw new PaymentError(...decline);
+ }
+
+ const charge = {
+ id: generateId('ch'),
+ amount,
+ currency: currency.toLowerCase(),
+ description,
+ status: 'succeeded',
+ created: new Date().toISOString()
+ };
+ charges.set(charge.id, charge);
+ return charge;
+ },
+
+ getCharge: (id) => charges.get(id) || null
+ };
+};
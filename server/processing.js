@@ -0,0 +1,590 @@
+// Video processing pipeline: probe, thumbnails, storyboard sprites and a transcoded rendition ladder
+import { spawn, spawnSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import express from 'express';
+
+import { createJobQueue } from './jobQueue.js';
+import { DATA_DIR, createJsonStore, generateId } from './storage.js';
+
+export const MEDIA_DIR = path.join(DATA_DIR, 'media');
+export const PROCESS_VIDEO_JOB = 'process-video';
+
+const THUMBNAIL_INTERVAL_SECONDS = 10;
+const MAX_THUMBNAILS = 20;
+const HLS_SEGMENT_SECONDS = 4;
+// Seek-preview sprite sheets: 160px-wide frames in 10x10 grids
+const STORYBOARD_TILE_WIDTH = 160;
+const STORYBOARD_COLUMNS = 10;
+const STORYBOARD_ROWS = 10;
+const STORYBOARD_MIN_INTERVAL_SECONDS = 2;
+const STORYBOARD_MAX_FRAMES = 300;
+// Transcodes are pinned to H.264 High@4.0 + AAC-LC so the manifest can advertise exact codecs
+const HLS_CODECS = 'avc1.640028,mp4a.40.2';
+// Each rung may take twice the running time of the source, and never less than half an hour
+const TRANSCODE_RUNG_MIN_TIMEOUT_MS = 30 * 60 * 1000;
+const TRANSCODE_REALTIME_FACTOR = 2;
+
+// Highest first; renditions taller than the source are skipped
+export const RENDITION_LADDER = [
+ { name: '1080p', height: 1080, videoBitrate: '5000k', audioBitrate: '192k' },
+ { name: '720p', height: 720, videoBitrate: '2800k', audioBitrate: '128k' },
+ { name: '480p', height: 480, videoBitrate: '1400k', audioBitrate: '128k' },
+ { name: '360p', height: 360, videoBitrate: '800k', audioBitrate: '96k' },
+ { name: '240p', height: 240, videoBitrate: '400k', audioBitrate: '64k' }
+];
+
+const binaries = new Map();
+
+/**
+ * Whether `name` (ffmpeg, ffprobe) can be run on this machine. Cached per process.
+ */
+export const hasBinary = (name) => {
+ if (!binaries.has(name)) {
+ const result = spawnSync(name, ['-version'], { stdio: 'ignore' });
+ binaries.set(name, result.status === 0);
+ }
+ return binaries.get(name);
+};
+
+export const runCommand = (command, args, { signal, onStdout } = {}) =>
+ new Promise((resolve, reject) => {
+ const child = spawn(command, args, { signal, stdio: ['ignore', 'pipe', 'pipe'] });
+ let stdout = '';
+ let stderr = '';
+ child.stdout.on('data', (chunk) => {
+ stdout += chunk;
+ onStdout?.(chunk.toString());
+ });
+ child.stderr.on('data', (chunk) => {
+ // Keep only the tail; ffmpeg can be very talkative
+ stderr = (stderr + chunk).slice(-4000);
+ });
+ child.on('error', reject);
+ child.on('close', (code) => {
+ if (code === 0) {
+ resolve(stdout);
+ } else {
+ reject(new Error(`${command} exited with code ${code}: ${stderr.trim().split('\n').pop()}`));
+ }
+ });
+ });
+
+const parseFrameRate = (rate = '0/1') => {
+ const [numerator, denominator] = rate.split('/').map(Number);
+ return denominator ? numerator / denominator : numerator;
+};
+
+const probeStep = {
+ name: 'probe',
+ async run({ payload, signal }) {
+ const stats = fs.statSync(payload.filePath);
+ const fallback = {
+ durationMs: 0,
+ sizeBytes: stats.size,
+ container: payload.fileType || 'application/octet-stream',
+ width: 0,
+ height: 0,
+ frameRateFps: 0,
+ videoCodec: null,
+ audioCodec: null,
+ bitrateBps: 0,
+ probed: false
+ };
+
+ if (!hasBinary('ffprobe')) {
+ return fallback;
+ }
+
+ const output = await runCommand('ffprobe', ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', payload.filePath], { signal });
+ const { format = {}, streams = [] } = JSON.parse(output);
+ const video = streams.find(stream => stream.codec_type === 'video');
+ const audio = streams.find(stream => stream.codec_type === 'audio');
+ if (!video) {
+ throw new Error('The uploaded file does not contain a video stream');
+ }
+
+ return {
+ ...fallback,
+ durationMs: Math.round(Number(format.duration || 0) * 1000),
+ container: format.format_name || fallback.container,
+ width: video.width || 0,
+ height: video.height || 0,
+ frameRateFps: parseFrameRate(video.avg_frame_rate),
+ videoCodec: video.codec_name || null,
+ audioCodec: audio?.codec_name || null,
+ bitrateBps: Number(format.bit_rate || 0),
+ probed: true
+ };
+ }
+};
+
+const thumbnailsStep = {
+ name: 'thumbnails',
+ async run({ payload, results, signal, reportProgress }) {
+ if (!hasBinary('ffmpeg')) {
+ return { skipped: 'ffmpeg is not installed', files: [] };
+ }
+
+ const outputDir = path.join(MEDIA_DIR, payload.videoId, 'thumbnails');
+ fs.mkdirSync(outputDir, { recursive: true });
+
+ const durationSeconds = results.probe.durationMs / 1000;
+ const interval = Math.max(THUMBNAIL_INTERVAL_SECONDS, durationSeconds / MAX_THUMBNAILS);
+ await runCommand('ffmpeg', [
+ '-y', '-v', 'error', '-i', payload.filePath,
+ '-vf', `fps=1/${interval.toFixed(3)},scale=320:-2`,
+ '-frames:v', String(MAX_THUMBNAILS),
+ path.join(outputDir, 'thumb_%03d.jpg')
+ ], { signal });
+ reportProgress(1);
+
+ const files = fs.readdirSync(outputDir).filter(file => file.endsWith('.jpg')).sort();
+ return {
+ intervalSeconds: interval,
+ files: files.map((file, index) => ({
+ url: `/media/${payload.videoId}/thumbnails/${file}`,
+ timeSeconds: Math.round(index * interval)
+ }))
+ };
+ }
+};
+
+const formatVttTimestamp = (seconds) => {
+ const totalMs = Math.round(seconds * 1000);
+ const pad = (value, width = 2) => String(value).padStart(width, '0');
+ return `${pad(Math.floor(totalMs / 3600000))}:${pad(Math.floor((totalMs % 3600000) / 60000))}:${pad(Math.floor((totalMs % 60000) / 1000))}.${pad(totalMs % 1000, 3)}`;
+};
+
+/**
+ * WebVTT thumbnail index for storyboard sprite sheets: one cue per frame whose
+ * payload is `<sheet>#xywh=x,y,w,h`. Sheet names are relative to the VTT file.
+ */
+export const buildStoryboardVtt = ({ sheets, intervalSeconds, frameCount, columns, rows, tileWidth, tileHeight, durationSeconds }) => {
+ const perSheet = columns * rows;
+ const cues = [];
+ for (let frame = 0; frame < frameCount; frame++) {
+ const start = frame * intervalSeconds;
+ const end = durationSeconds > 0 ? Math.min(start + intervalSeconds, durationSeconds) : start + intervalSeconds;
+ if (end <= start) {
+ break;
+ }
+ const cell = frame % perSheet;
+ const x = (cell % columns) * tileWidth;
+ const y = Math.floor(cell / columns) * tileHeight;
+ cues.push(`${formatVttTimestamp(start)} --> ${formatVttTimestamp(end)}\n${sheets[Math.floor(frame / perSheet)]}#xywh=${x},${y},${tileWidth},${tileHeight}`);
+ }
+ return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+};
+
+const storyboardStep = {
+ name: 'storyboard',
+ async run({ payload, results, signal, reportProgress }) {
+ const { durationMs, width, height, probed } = results.probe;
+ if (!hasBinary('ffmpeg') || !probed || !width || !height) {
+ return { skipped: 'ffmpeg is not installed', vttUrl: null };
+ }
+
+ const outputDir = path.join(MEDIA_DIR, payload.videoId, 'storyboard');
+ fs.rmSync(outputDir, { recursive: true, force: true });
+ fs.mkdirSync(outputDir, { recursive: true });
+
+ const durationSeconds = durationMs / 1000;
+ const intervalSeconds = Math.max(STORYBOARD_MIN_INTERVAL_SECONDS, durationSeconds / STORYBOARD_MAX_FRAMES);
+ const frameCount = Math.max(1, Math.ceil(durationSeconds / intervalSeconds));
+ const tileWidth = STORYBOARD_TILE_WIDTH;
+ // scale=160:-2 rounds the height to an even number
+ const tileHeight = Math.round((tileWidth * height) / width / 2) * 2;
+ // Shrink the grid for short videos so the only sheet has no padding; clients infer the sheet size from the index
+ const columns = Math.min(STORYBOARD_COLUMNS, frameCount);
+ const rows = Math.min(STORYBOARD_ROWS, Math.ceil(frameCount / columns));
+
+ await runCommand('ffmpeg', [
+ '-y', '-v', 'error', '-i', payload.filePath,
+ '-vf', `fps=1/${intervalSeconds.toFixed(3)},scale=${tileWidth}:-2,tile=${columns}x${rows}`,
+ '-q:v', '5',
+ path.join(outputDir, 'storyboard_%03d.jpg')
+ ], { signal });
+ reportProgress(1);
+
+ const sheets = fs.readdirSync(outputDir).filter(file => file.endsWith('.jpg')).sort();
+ const vtt = buildStoryboardVtt({
+ sheets,
+ intervalSeconds,
+ frameCount: Math.min(frameCount, sheets.length * columns * rows),
+ columns,
+ rows,
+ tileWidth,
+ tileHeight,
+ durationSeconds
+ });
+ fs.writeFileSync(path.join(outputDir, 'storyboard.vtt'), vtt);
+
+ return {
+ vttUrl: `/media/${payload.videoId}/storyboard/storyboard.vtt`,
+ intervalSeconds,
+ sheetCount: sheets.length
+ };
+ }
+};
+
+// A source below the lowest rung still gets one rendition at its own size
+const ladderFor = (sourceHeight) => {
+ const ladder = RENDITION_LADDER.filter(rung => rung.height <= sourceHeight);
+ return ladder.length > 0 ? ladder : [{ ...RENDITION_LADDER[RENDITION_LADDER.length - 1], height: sourceHeight }];
+};
+
+const transcodeStep = {
+ name: 'transcode',
+ // Long sources at full ladder size would blow a fixed limit on every attempt
+ timeoutMs: ({ results }) =>
+ ladderFor(results.probe.height || RENDITION_LADDER[0].height).length *
+ Math.max(TRANSCODE_RUNG_MIN_TIMEOUT_MS, results.probe.durationMs * TRANSCODE_REALTIME_FACTOR),
+ async run({ payload, results, signal, reportProgress }) {
+ const outputDir = path.join(MEDIA_DIR, payload.videoId);
+ fs.mkdirSync(outputDir, { recursive: true });
+
+ if (!hasBinary('ffmpeg')) {
+ // Serve the upload as-is so the video is still playable in development
+ const sourcePath = path.join(outputDir, 'source');
+ fs.rmSync(sourcePath, { force: true });
+ try {
+ fs.linkSync(payload.filePath, sourcePath);
+ } catch {
+ fs.copyFileSync(payload.filePath, sourcePath);
+ }
+ return {
+ skipped: 'ffmpeg is not installed',
+ renditions: [{ name: 'source', height: results.probe.height, url: `/media/${payload.videoId}/source`, mimeType: payload.fileType }]
+ };
+ }
+
+ const rungs = ladderFor(results.probe.height || RENDITION_LADDER[0].height);
+ const durationUs = results.probe.durationMs * 1000;
+ const renditions = [];
+
+ for (const [index, rung] of rungs.entries()) {
+ const fileName = `${rung.name}.mp4`;
+ await runCommand('ffmpeg', [
+ '-y', '-v', 'error', '-i', payload.filePath,
+ '-vf', `scale=-2:${rung.height}`,
+ '-c:v', 'libx264', '-preset', 'veryfast', '-profile:v', 'high', '-level', '4.0', '-b:v', rung.videoBitrate, '-maxrate', rung.videoBitrate, '-bufsize', rung.videoBitrate,
+ '-c:a', 'aac', '-b:a', rung.audioBitrate,
+ '-movflags', '+faststart',
+ '-progress', 'pipe:1', '-nostats',
+ path.join(outputDir, fileName)
+ ], {
+ signal,
+ onStdout: (chunk) => {
+ const match = /out_time_us=(\d+)/.exec(chunk);
+ if (match && durationUs > 0) {
+ reportProgress((index + Math.min(1, Number(match[1]) / durationUs)) / rungs.length);
+ }
+ }
+ });
+ renditions.push({ name: rung.name, height: rung.height, url: `/media/${payload.videoId}/${fileName}`, mimeType: 'video/mp4', bitrate: rung.videoBitrate });
+ reportProgress((index + 1) / rungs.length);
+ }
+
+ return { renditions };
+ }
+};
+
+const parseBitrate = (value = '0') => Number.parseInt(value, 10) * (value.endsWith('k') ? 1000 : 1);
+
+/**
+ * Repackages each transcoded rendition as fragmented-MP4 HLS (no re-encode)
+ * and writes a master playlist over them for adaptive playback.
+ */
+const packageStep = {
+ name: 'package',
+ async run({ payload, results, signal, reportProgress }) {
+ if (!hasBinary('ffmpeg') || results.transcode.skipped) {
+ return { skipped: 'ffmpeg is not installed', manifestUrl: null };
+ }
+
+ const outputDir = path.join(MEDIA_DIR, payload.videoId);
+ const renditions = results.transcode.renditions;
+ const variants = [];
+
+ for (const [index, rendition] of renditions.entries()) {
+ await runCommand('ffmpeg', [
+ '-y', '-v', 'error', '-i', path.join(outputDir, `${rendition.name}.mp4`),
+ '-c', 'copy',
+ '-f', 'hls',
+ '-hls_time', String(HLS_SEGMENT_SECONDS),
+ '-hls_playlist_type', 'vod',
+ '-hls_segment_type', 'fmp4',
+ '-hls_fmp4_init_filename', `${rendition.name}_init.mp4`,
+ '-hls_segment_filename', path.join(outputDir, `${rendition.name}_%04d.m4s`),
+ path.join(outputDir, `${rendition.name}.m3u8`)
+ ], { signal });
+
+ const { width: sourceWidth, height: sourceHeight } = results.probe;
+ const width = sourceHeight ? Math.round((sourceWidth * rendition.height) / sourceHeight / 2) * 2 : 0;
+ const audioRung = RENDITION_LADDER.find(rung => rung.name === rendition.name);
+ const bandwidth = parseBitrate(rendition.bitrate) + parseBitrate(audioRung?.audioBitrate);
+ variants.push(`#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},${width ? `RESOLUTION=${width}x${rendition.height},` : ''}CODECS="${HLS_CODECS}"\n${rendition.name}.m3u8`);
+ reportProgress((index + 1) / renditions.length);
+ }
+
+ fs.writeFileSync(path.join(outputDir, 'master.m3u8'), `#EXTM3U\n#EXT-X-VERSION:7\n${variants.join('\n')}\n`);
+ return { manifestUrl: `/media/${payload.videoId}/master.m3u8` };
+ }
+};
+
+export const PROCESSING_STEPS = [probeStep, thumbnailsStep, storyboardStep, transcodeStep, packageStep];
+
+const formatIsoDuration = (ms) => {
+ const total = Math.round(ms / 1000);
+ const hours = Math.floor(total / 3600);
+ const minutes = Math.floor((total % 3600) / 60);
+ const seconds = total % 60;
+ return `PT${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${seconds}S`;
+};
+
+/**
+ * Wires uploads to the processing queue and exposes Studio endpoints.
+ *
+ * Each finished upload becomes a video with `uploadStatus: 'uploaded'` and a
+ * `process-video` job. Job progress is mirrored onto the video's
+ * `processingDetails`; success sets `uploadStatus: 'processed'`, and a job
+ * that lands in the dead-letter state marks the video `failed`.
+ */
+export const createProcessingService = ({ store = createJsonStore('videos', { videos: {} }), queueOptions = {} } = {}) => {
+ const videos = () => store.data.videos;
+ const findByJob = (jobId) => Object.values(videos()).find(video => video.jobId === jobId);
+
+ const syncVideo = (job) => {
+ if (job.type !== PROCESS_VIDEO_JOB) {
+ return;
+ }
+ const video = findByJob(job.id);
+ if (!video) {
+ return;
+ }
+
+ const { probe, thumbnails, storyboard, transcode, package: packaged } = job.results;
+ video.processingDetails = {
+ processingStatus: { completed: 'succeeded', dead: 'failed' }[job.status] || 'processing',
+ processingProgress: {
+ partsTotal: String(PROCESSING_STEPS.length),
+ partsProcessed: String(Object.keys(job.results).length),
+ percent: Math.round(job.progress * 100),
+ currentStep: job.step
+ },
+ attempts: job.attempts,
+ lastError: job.error,
+ ...(job.status === 'dead' && { processingFailureReason: 'other' }),
+ thumbnailsAvailability: thumbnails?.files?.length ? 'available' : 'notAvailable'
+ };
+ video.jobStatus = job.status;
+
+ if (probe) {
+ video.duration = Math.round(probe.durationMs / 1000);
+ video.fileDetails = {
+ fileName: video.fileDetails.fileName,
+ fileSize: String(probe.sizeBytes),
+ fileType: 'video',
+ container: probe.container,
+ durationMs: String(probe.durationMs),
+ bitrateBps: String(probe.bitrateBps),
+ videoStreams: probe.width ? [{ widthPixels: probe.width, heightPixels: probe.height, frameRateFps: probe.frameRateFps, codec: probe.videoCodec }] : [],
+ audioStreams: probe.audioCodec ? [{ codec: probe.audioCodec }] : []
+ };
+ video.contentDetails = { ...video.contentDetails, duration: formatIsoDuration(probe.durationMs), definition: probe.height >= 720 ? 'hd' : 'sd' };
+ }
+ if (thumbnails?.files?.length) {
+ video.storyboardThumbnails = thumbnails.files;
+ if (!video.hasCustomThumbnail) {
+ video.thumbnailUrl = thumbnails.files[Math.floor(thumbnails.files.length / 2)].url;
+ }
+ }
+ if (storyboard?.vttUrl) {
+ video.storyboardUrl = storyboard.vttUrl;
+ }
+ if (transcode) {
+ video.renditions = transcode.renditions;
+ video.videoUrl = transcode.renditions[0]?.url;
+ }
+ if (packaged?.manifestUrl) {
+ video.manifestUrl = packaged.manifestUrl;
+ }
+
+ if (job.status === 'completed') {
+ video.uploadStatus = 'processed';
+ video.status = { ...video.status, uploadStatus: 'processed', failureReason: undefined };
+ } else if (job.status === 'dead') {
+ video.uploadStatus = 'failed';
+ video.status = { ...video.status, uploadStatus: 'failed', failureReason: 'conversion' };
+ }
+ store.save();
+ };
+
+ const queue = createJobQueue({ ...queueOptions, onUpdate: syncVideo });
+ queue.register(PROCESS_VIDEO_JOB, PROCESSING_STEPS);
+
+ const attachThumbnail = (upload) => {
+ const video = Object.values(videos()).find(v => v.uploadId === upload.metadata.videoUploadId);
+ if (!video) {
+ return;
+ }
+ const dir = path.join(MEDIA_DIR, video.id);
+ fs.mkdirSync(dir, { recursive: true });
+ fs.copyFileSync(upload.filePath, path.join(dir, 'custom-thumbnail'));
+ video.thumbnailUrl = `/media/${video.id}/custom-thumbnail`;
+ video.hasCustomThumbnail = true;
+ store.save();
+ };
+
+ /**
+ * Browser-generated storyboard (a single sprite sheet) for servers without
+ * ffmpeg. A storyboard produced by the pipeline takes precedence.
+ */
+ const attachStoryboard = (upload) => {
+ const video = Object.values(videos()).find(v => v.uploadId === upload.metadata.videoUploadId);
+ if (!video || video.storyboardUrl) {
+ return;
+ }
+ const readInt = (name, max) => {
+ const value = Number.parseInt(upload.metadata[name], 10);
+ return value > 0 && value <= max ? value : null;
+ };
+ const layout = {
+ frameCount: readInt('frameCount', STORYBOARD_COLUMNS * STORYBOARD_ROWS),
+ columns: readInt('columns', STORYBOARD_COLUMNS),
+ rows: readInt('rows', STORYBOARD_ROWS),
+ tileWidth: readInt('tileWidth', 640),
+ tileHeight: readInt('tileHeight', 640)
+ };
+ const intervalSeconds = Number(upload.metadata.intervalSeconds);
+ if (Object.values(layout).includes(null) || !(intervalSeconds > 0)) {
+ return;
+ }
+
+ const dir = path.join(MEDIA_DIR, video.id, 'storyboard');
+ fs.mkdirSync(dir, { recursive: true });
+ fs.copyFileSync(upload.filePath, path.join(dir, 'browser_001.jpg'));
+ fs.writeFileSync(path.join(dir, 'storyboard.vtt'), buildStoryboardVtt({
+ ...layout,
+ sheets: ['browser_001.jpg'],
+ intervalSeconds,
+ durationSeconds: Number(upload.metadata.durationSeconds) || 0
+ }));
+ video.storyboardUrl = `/media/${video.id}/storyboard/storyboard.vtt`;
+ store.save();
+ };
+
+ /**
+ * Creates a video for a media file on disk and queues its processing.
+ * `fields` (title, visibility, ...) go onto the video as they are.
+ */
+ const addVideo = ({ filePath, fileName, fileSize, fileType, fields }) => {
+ const now = new Date().toISOString();
+ const visibility = fields.visibility || 'private';
+ const video = {
+ id: generateId('video'),
+ title: 'Untitled video',
+ description: '',
+ category: '',
+ tags: [],
+ isShorts: false,
+ ...fields,
+ visibility,
+ duration: 0,
+ thumbnailUrl: '',
+ publishedAt: now,
+ uploadStatus: 'uploaded',
+ status: { uploadStatus: 'uploaded', privacyStatus: visibility },
+ fileDetails: { fileName, fileSize: String(fileSize) },
+ contentDetails: {},
+ processingDetails: { processingStatus: 'processing' },
+ renditions: [],
+ jobId: null
+ };
+ videos()[video.id] = video;
+
+ // The queue may start the job, and report on it, before enqueue returns
+ video.jobId = generateId('job');
+ queue.enqueue(PROCESS_VIDEO_JOB, { videoId: video.id, filePath, fileType }, { id: video.jobId });
+ return video;
+ };
+
+ /**
+ * Upload completion hook for `createUploadRouter({ onComplete })`.
+ */
+ const handleUploadComplete = (upload) => {
+ if (upload.metadata.role === 'thumbnail') {
+ attachThumbnail(upload);
+ return;
+ }
+ if (upload.metadata.role === 'storyboard') {
+ attachStoryboard(upload);
+ return;
+ }
+
+ const { metadata } = upload;
+ let tags = [];
+ try {
+ tags = metadata.tags ? JSON.parse(metadata.tags) : [];
+ } catch {
+ tags = [];
+ }
+
+ addVideo({
+ filePath: upload.filePath,
+ fileName: metadata.filename || upload.id,
+ fileSize: upload.length,
+ fileType: metadata.filetype,
+ fields: {
+ uploadId: upload.id,
+ title: metadata.title || metadata.filename || 'Untitled video',
+ description: metadata.description || '',
+ category: metadata.category || '',
+ tags,
+ visibility: metadata.visibility || 'private',
+ isShorts: metadata.isShorts === 'true'
+ }
+ });
+ };
+
+ const router = express.Router();
+
+ router.get('/studio/videos', (req, res) => {
+ const items = Object.values(videos()).sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+ res.json({ videos: items, total: items.length });
+ });
+
+ router.get('/studio/jobs', (req, res) => {
+ const jobs = queue.list({ status: req.query.status, type: req.query.type });
+ res.json({ jobs, total: jobs.length });
+ });
+
+ router.post('/studio/jobs/:id/retry', (req, res) => {
+ const job = queue.retry(req.params.id);
+ if (!job) {
+ return res.status(409).json({
+ error: 'Conflict',
+ message: 'Only dead or retrying jobs can be retried',
+ timestamp: new Date().toISOString()
+ });
+ }
+ const video = findByJob(job.id);
+ if (video && video.uploadStatus === 'failed') {
+ video.uploadStatus = 'uploaded';
+ video.status = { ...video.status, uploadStatus: 'uploaded' };
+ store.save();
+ }
+ res.json({ job });
+ });
+
+ return {
+ router,
+ queue,
+ handleUploadComplete,
+ addVideo,
+ syncVideo,
+ getVideo: (id) => videos()[id] || null,
+ listVideos: () => Object.values(videos())
+ };
+};
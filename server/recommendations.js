@@ -0,0 +1,387 @@
+// Recommendations: tag, embedding and co-watch similarity, channel affinity and freshness, re-ranked for channel diversity
+import express from 'express';
+
+import { tokenize } from './searchIndex.js';
+import { createJsonStore } from './storage.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How much each signal contributes to a candidate's score; each signal is in [0, 1] */
+export const SIGNAL_WEIGHTS = {
+ // Shared tags and category
+ content: 0.25,
+ // Hashed TF-IDF vectors of title, description and tags
+ embedding: 0.2,
+ // Watched by the same people around the same time
+ coWatch: 0.25,
+ channel: 0.1,
+ freshness: 0.1,
+ popularity: 0.1
+};
+
+const EMBEDDING_DIMENSIONS = 256;
+const FRESHNESS_HALF_LIFE_MS = 30 * DAY_MS;
+// Two videos one person watched within a day of each other count as watched together
+const CO_WATCH_WINDOW_MS = DAY_MS;
+const MAX_WATCHES = 200;
+// Recent watches that make up a viewer's taste; older ones count for less
+const PROFILE_SIZE = 20;
+const PROFILE_DECAY = 0.9;
+// Videos the viewer has seen are not ruled out, only pushed down
+const WATCHED_PENALTY = 0.3;
+// Each further video from a channel already in the list scores this much less...
+const CHANNEL_REPEAT_PENALTY = 0.5;
+// ...and no channel takes more than this share of the list
+const MAX_CHANNEL_SHARE = 0.25;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+const sendError = (res, status, error, message) =>
+ res.status(status).json({ error, message, timestamp: new Date().toISOString() });
+
+const getUserId = (req) => req.get('x-user-id') || null;
+
+const tagsOf = (video) =>
+ new Set([...(video.tags || []), ...(video.hashtags || [])].map(tag => String(tag).replace(/^#/, '').toLowerCase()));
+
+const viewsOf = (video) => Number(String(video.views ?? video.viewCount ?? 0).replace(/\D/g, '')) || 0;
+
+const jaccard = (a, b) => {
+ if (a.size === 0 || b.size === 0) {
+ return 0;
+ }
+ let shared = 0;
+ a.forEach(item => {
+ if (b.has(item)) {
+ shared++;
+ }
+ });
+ return shared / (a.size + b.size - shared);
+};
+
+/** Shared tags, plus a bonus for the same category */
+export const contentSimilarity = (a, b) =>
+ 0.7 * jaccard(tagsOf(a), tagsOf(b)) + (a.category && a.category === b.category ? 0.3 : 0);
+
+const hashToken = (token) => {
+ let hash = 2166136261;
+ for (let i = 0; i < token.length; i++) {
+ hash = Math.imul(hash ^ token.charCodeAt(i), 16777619);
+ }
+ return hash >>> 0;
+};
+
+/**
+ * Unit-length TF-IDF vectors for `videos`, with words hashed into a fixed
+ * number of dimensions so no vocabulary has to be kept. Words every video
+ * shares weigh nothing, so boilerplate in descriptions doesn't make
+ * everything look alike.
+ */
+export const buildEmbeddings = (videos) => {
+ const documents = videos.map(video => tokenize([video.title, video.description, ...tagsOf(video)].join(' ')));
+ const documentFrequency = new Map();
+ documents.forEach(tokens => new Set(tokens).forEach(token => documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1)));
+
+ const embeddings = new Map();
+ videos.forEach((video, i) => {
+ const vector = new Float64Array(EMBEDDING_DIMENSIONS);
+ for (const token of documents[i]) {
+ const hash = hashToken(token);
+ // The sign bit keeps colliding words from always adding up
+ const sign = hash & 0x80000000 ? -1 : 1;
+ vector[hash % EMBEDDING_DIMENSIONS] += sign * Math.log(videos.length / documentFrequency.get(token));
+ }
+ const norm = Math.hypot(...vector);
+ embeddings.set(video.id, norm > 0 ? vector.map(value => value / norm) : vector);
+ });
+ return embeddings;
+};
+
+export const cosine = (a, b) => {
+ if (!a || !b) {
+ return 0;
+ }
+ let dot = 0;
+ for (let i = 0; i < a.length; i++) {
+ dot += a[i] * b[i];
+ }
+ return Math.max(0, dot);
+};
+
+/**
+ * Picks `limit` videos best first, but each further video from a channel
+ * already picked has its score cut by `CHANNEL_REPEAT_PENALTY`, and a channel
+ * stops being picked at `MAX_CHANNEL_SHARE` of the list.
+ */
+export const diversify = (scored, limit) => {
+ const cap = Math.max(1, Math.ceil(limit * MAX_CHANNEL_SHARE));
+ const perChannel = new Map();
+ const pool = [...scored];
+ const picked = [];
+
+ while (picked.length < limit) {
+ let best = -1;
+ let bestScore = -Infinity;
+ pool.forEach((entry, i) => {
+ const count = perChannel.get(entry.video.channelId) || 0;
+ const adjusted = entry.score * CHANNEL_REPEAT_PENALTY ** count;
+ if (count < cap && adjusted > bestScore) {
+ best = i;
+ bestScore = adjusted;
+ }
+ });
+ if (best === -1) {
+ break;
+ }
+ const [entry] = pool.splice(best, 1);
+ perChannel.set(entry.video.channelId, (perChannel.get(entry.video.channelId) || 0) + 1);
+ picked.push(entry);
+ }
+ return picked;
+};
+
+const REASONS = {
+ content: 'similar',
+ embedding: 'similar',
+ coWatch: 'watched-together',
+ channel: 'channel',
+ freshness: 'new',
+ popularity: 'popular'
+};
+
+/**
+ * Builds the recommendation service for the home and watch pages.
+ *
+ * `GET /recommendations` ranks `getCandidates()` for the viewer. On the
+ * watch page (`?videoId=`) that video is the main seed, with the viewer's
+ * recent watches as lesser ones; on the home page the recent watches are
+ * the seeds. Candidates score by similarity to the seeds (tags and category,
+ * embeddings, and how often people who watched a seed watched the candidate
+ * within a day), the viewer's affinity for the channel, freshness and
+ * popularity, per `SIGNAL_WEIGHTS`. The list is then re-ranked so no single
+ * channel dominates it.
+ *
+ * Signed-in viewers report what they watch with `POST /me/watches`, which
+ * feeds both their own seeds and everyone's co-watch statistics, and can say
+ * they are not interested in a video (it disappears, and videos like it
+ * drop) or a whole channel (never recommended again). Feedback is a PUT or
+ * DELETE of one relation, like the rest of the `/me` library API.
+ */
+export const createRecommendationService = ({
+ getCandidates = () => [],
+ getVideo = (videoId) => null,
+ store = createJsonStore('recommendations', { watches: {}, feedback: {} })
+} = {}) => {
+ // userId -> [{ videoId, watchedAt }], newest first
+ const watches = () => store.data.watches;
+ // userId -> { notInterested: { videoId: at }, blockedChannels: { channelId: { channelName, at } } }
+ const feedback = () => store.data.feedback;
+
+ const watchesOf = (userId) => (userId ? watches()[userId] || [] : []);
+ const feedbackOf = (userId) => {
+ feedback()[userId] ??= { notInterested: {}, blockedChannels: {} };
+ return feedback()[userId];
+ };
+
+ // Co-watch counts are rebuilt lazily after new watches
+ let coWatch = null;
+ const coWatchStats = () => {
+ if (coWatch) {
+ return coWatch;
+ }
+ const pairs = new Map();
+ const watchers = new Map();
+ const bump = (a, b) => {
+ if (!pairs.has(a)) {
+ pairs.set(a, new Map());
+ }
+ pairs.get(a).set(b, (pairs.get(a).get(b) || 0) + 1);
+ };
+
+ for (const history of Object.values(watches())) {
+ const seenPairs = new Set();
+ new Set(history.map(watch => watch.videoId)).forEach(id => watchers.set(id, (watchers.get(id) || 0) + 1));
+ history.forEach((watch, i) => {
+ for (let j = i + 1; j < history.length && watch.watchedAt - history[j].watchedAt <= CO_WATCH_WINDOW_MS; j++) {
+ const [a, b] = [watch.videoId, history[j].videoId].sort();
+ // Each viewer counts once per pair, however often they rewatched
+ if (a !== b && !seenPairs.has(`${a}\n${b}`)) {
+ seenPairs.add(`${a}\n${b}`);
+ bump(a, b);
+ bump(b, a);
+ }
+ }
+ });
+ }
+ coWatch = { pairs, watchers };
+ return coWatch;
+ };
+
+ /** People who watched both, relative to how many watched each (cosine over viewers) */
+ const coWatchSimilarity = (a, b) => {
+ const { pairs, watchers } = coWatchStats();
+ const together = pairs.get(a)?.get(b) || 0;
+ return together ? together / Math.sqrt(watchers.get(a) * watchers.get(b)) : 0;
+ };
+
+ const recordWatch = (userId, videoId, now = Date.now()) => {
+ const history = watchesOf(userId).filter(watch => !(watch.videoId === videoId && now - watch.watchedAt < CO_WATCH_WINDOW_MS));
+ watches()[userId] = [{ videoId, watchedAt: now }, ...history].slice(0, MAX_WATCHES);
+ coWatch = null;
+ store.save();
+ };
+
+ const recommend = ({ userId = null, videoId = null, category = null, limit = DEFAULT_LIMIT, now = Date.now() } = {}) => {
+ const { notInterested, blockedChannels } = userId ? feedbackOf(userId) : { notInterested: {}, blockedChannels: {} };
+ const history = watchesOf(userId);
+ const watched = new Set(history.map(watch => watch.videoId));
+ const catalog = getCandidates();
+ const byId = new Map(catalog.map(video => [video.id, video]));
+ const lookup = (id) => byId.get(id) || getVideo(id);
+
+ // Seeds with weights: the video being watched, then recent watches fading with age
+ const seeds = [];
+ const current = videoId ? lookup(videoId) : null;
+ if (current) {
+ seeds.push({ video: current, weight: 1 });
+ }
+ const profileWeight = current ? 0.5 : 1;
+ [...new Set(history.map(watch => watch.videoId))]
+ .filter(id => id !== videoId)
+ .slice(0, PROFILE_SIZE)
+ .forEach((id, i) => {
+ const video = lookup(id);
+ if (video) {
+ seeds.push({ video, weight: profileWeight * PROFILE_DECAY ** i });
+ }
+ });
+
+ const dismissed = Object.keys(notInterested).map(lookup).filter(Boolean);
+ const embeddings = buildEmbeddings([...new Map([...catalog, ...seeds.map(seed => seed.video), ...dismissed].map(video => [video.id, video])).values()]);
+ const totalSeedWeight = seeds.reduce((sum, seed) => sum + seed.weight, 0);
+ const maxViews = Math.max(1, ...catalog.map(viewsOf));
+
+ const scored = catalog
+ .filter(video =>
+ video.id !== videoId
+ && !notInterested[video.id]
+ && !blockedChannels[video.channelId]
+ && (!category || String(video.category).toLowerCase() === category.toLowerCase())
+ )
+ .map(video => {
+ const strongest = (similarity) => Math.max(0, ...seeds.map(seed => seed.weight * similarity(seed.video, video)));
+ const publishedAt = Date.parse(video.uploadedAt || video.publishedAt);
+ const signals = {
+ content: strongest(contentSimilarity),
+ embedding: strongest((seed, candidate) => cosine(embeddings.get(seed.id), embeddings.get(candidate.id))),
+ coWatch: strongest((seed, candidate) => coWatchSimilarity(seed.id, candidate.id)),
+ channel: totalSeedWeight
+ ? seeds.filter(seed => seed.video.channelId === video.channelId).reduce((sum, seed) => sum + seed.weight, 0) / totalSeedWeight
+ : 0,
+ freshness: Number.isNaN(publishedAt) ? 0 : 0.5 ** (Math.max(0, now - publishedAt) / FRESHNESS_HALF_LIFE_MS),
+ popularity: Math.log1p(viewsOf(video)) / Math.log1p(maxViews)
+ };
+
+ const contributions = Object.entries(SIGNAL_WEIGHTS).map(([signal, weight]) => [signal, weight * signals[signal]]);
+ let score = contributions.reduce((sum, [, value]) => sum + value, 0);
+ // Videos like ones the viewer dismissed drop in proportion to the likeness
+ const likeDismissed = Math.max(0, ...dismissed.map(other => cosine(embeddings.get(other.id), embeddings.get(video.id))));
+ score *= 1 - 0.5 * likeDismissed;
+ if (watched.has(video.id)) {
+ score *= WATCHED_PENALTY;
+ }
+
+ const [topSignal] = contributions.reduce((top, entry) => (entry[1] > top[1] ? entry : top));
+ return { video, score, reason: REASONS[topSignal] };
+ })
+ .sort((a, b) => b.score - a.score || a.video.id.localeCompare(b.video.id));
+
+ return {
+ videos: diversify(scored, limit).map(({ video, score, reason }) => ({ ...video, score: Math.round(score * 10000) / 10000, reason })),
+ personalized: history.length > 0
+ };
+ };
+
+ const parseLimit = (value) => Math.min(MAX_LIMIT, Math.max(1, Number.parseInt(value, 10) || DEFAULT_LIMIT));
+
+ const requireUser = (req, res) => {
+ const userId = getUserId(req);
+ if (!userId) {
+ sendError(res, 401, 'Unauthorized', 'Sign in to personalise recommendations');
+ }
+ return userId;
+ };
+
+ const router = express.Router();
+
+ router.get('/recommendations', (req, res) => {
+ const { videoId = null, category = null } = req.query;
+ res.json(recommend({ userId: getUserId(req), videoId, category, limit: parseLimit(req.query.limit) }));
+ });
+
+ router.post('/me/watches', (req, res) => {
+ const userId = requireUser(req, res);
+ if (!userId) {
+ return;
+ }
+ const videoId = req.body?.videoId;
+ if (typeof videoId !== 'string' || !videoId) {
+ return sendError(res, 400, 'Bad request', 'videoId must be a non-empty string');
+ }
+ recordWatch(userId, videoId);
+ res.status(204).end();
+ });
+
+ router.get('/me/recommendation-feedback', (req, res) => {
+ const userId = requireUser(req, res);
+ if (!userId) {
+ return;
+ }
+ const { notInterested, blockedChannels } = feedbackOf(userId);
+ res.json({
+ notInterested: Object.entries(notInterested).map(([videoId, at]) => ({ videoId, createdAt: new Date(at).toISOString() })),
+ blockedChannels: Object.entries(blockedChannels).map(([channelId, entry]) => ({
+ channelId,
+ channelName: entry.channelName,
+ createdAt: new Date(entry.at).toISOString()
+ }))
+ });
+ });
+
+ for (const [method, active] of [['put', true], ['delete', false]]) {
+ router[method]('/me/not-interested/:videoId', (req, res) => {
+ const userId = requireUser(req, res);
+ if (!userId) {
+ return;
+ }
+ const { videoId } = req.params;
+ const { notInterested } = feedbackOf(userId);
+ if (active) {
+ notInterested[videoId] ??= Date.now();
+ } else {
+ delete notInterested[videoId];
+ }
+ store.save();
+ res.json({ videoId, notInterested: active });
+ });
+
+ router[method]('/me/blocked-channels/:channelId', (req, res) => {
+ const userId = requireUser(req, res);
+ if (!userId) {
+ return;
+ }
+ const { channelId } = req.params;
+ const { blockedChannels } = feedbackOf(userId);
+ if (active) {
+ const channelName = typeof req.body?.channelName === 'string' ? req.body.channelName.slice(0, 100) : '';
+ blockedChannels[channelId] ??= { channelName, at: Date.now() };
+ } else {
+ delete blockedChannels[channelId];
+ }
+ store.save();
+ res.json({ channelId, blocked: active });
+ });
+ }
+
+ return { router, recommend, recordWatch };
+};
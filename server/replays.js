@@ -0,0 +1,384 @@
+// Stream replays: broadcasts recorded into videos, with chat replay, viewer timeline and highlight clips
+import fs from 'fs';
+import path from 'path';
+import express from 'express';
+
+import { FLV_HEADER, flvTag } from './ingest.js';
+import { paginate } from './pagination.js';
+import { MEDIA_DIR, hasBinary, runCommand } from './processing.js';
+import { DATA_DIR, createJsonStore, generateId } from './storage.js';
+
+export const RECORDINGS_DIR = path.join(DATA_DIR, 'recordings');
+export const CUT_HIGHLIGHT_JOB = 'cut-highlight';
+
+// How often the viewer count is sampled for the replay's timeline
+const VIEWER_SAMPLE_MS = 15000;
+const MAX_HIGHLIGHT_SECONDS = 180;
+const HIGHLIGHT_TYPES = ['moment', 'super_chat', 'poll', 'qa', 'milestone'];
+const CHAT_PAGE_SIZE = 200;
+// Suggested highlights start a little before the moment itself
+const SUGGESTION_LEAD_SECONDS = 10;
+
+const getUserId = (req) => req.get('x-user-id') || null;
+
+const sendError = (res, status, error, message) =>
+ res.status(status).json({ error, message, timestamp: new Date().toISOString() });
+
+/** Copies a highlight out of the recording; stream copy, so it starts on the nearest keyframe */
+const cutStep = {
+ name: 'cut',
+ async run({ payload, signal }) {
+ if (!hasBinary('ffmpeg')) {
+ return { skipped: 'ffmpeg is not installed', clipUrl: null };
+ }
+ const outputDir = path.join(MEDIA_DIR, payload.videoId, 'highlights');
+ fs.mkdirSync(outputDir, { recursive: true });
+ await runCommand('ffmpeg', [
+ '-y', '-v', 'error',
+ '-ss', String(payload.start),
+ '-i', payload.recordingPath,
+ '-t', String(payload.end - payload.start),
+ '-c', 'copy',
+ '-movflags', '+faststart',
+ path.join(outputDir, `${payload.highlightId}.mp4`)
+ ], { signal });
+ return { clipUrl: `/media/${payload.videoId}/highlights/${payload.highlightId}.mp4` };
+ }
+};
+
+const offsetSeconds = (timestamp, startMs) => Math.max(0, Math.round((Date.parse(timestamp) - startMs) / 100) / 10);
+
+/** Moments worth clipping: paid messages and the viewer peak */
+const suggestHighlights = (chat, viewerTimeline) => {
+ const suggestions = chat
+ .filter(message => message.type === 'super_chat' && message.superChat)
+ .map(message => ({
+ timestamp: Math.max(0, message.offsetSeconds - SUGGESTION_LEAD_SECONDS),
+ type: 'super_chat',
+ title: `Super Chat from ${message.username}`,
+ description: message.message || ''
+ }));
+ const peak = viewerTimeline.reduce((best, sample) => (sample.viewers > (best?.viewers ?? 0) ? sample : best), null);
+ if (peak) {
+ suggestions.push({
+ timestamp: Math.max(0, peak.offsetSeconds - SUGGESTION_LEAD_SECONDS),
+ type: 'milestone',
+ title: `Peak of ${peak.viewers} viewers`,
+ description: ''
+ });
+ }
+ return suggestions.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Builds the replay service. While a stream created in the app is live and
+ * has `enableRecording`, its feed is written to an FLV file (between
+ * `start(streamId, startedAt)` and `stop(streamId, endedAt)`, with every
+ * `write(streamId, message)` in between). Chat is recorded alongside as it
+ * arrives: the service is a live chat extension, so `onMessage` adds each
+ * message and `onDelete` drops the ones moderators remove. When the stream
+ * ends, the recording goes through the normal processing pipeline as a new
+ * video, and a replay keeps the chat (each message with its offset into the
+ * video), the viewer timeline and the polls and questions.
+ *
+ * The stream's owner can cut highlights from the recording; each is a
+ * `cut-highlight` job on the processing queue.
+ */
+export const createReplayService = ({
+ processing,
+ getStream,
+ getStreamOwnerId,
+ getViewerCount = () => 0,
+ getInteractions = () => ({ polls: [], questions: [] }),
+ store = createJsonStore('stream-replays', { replays: {} })
+}) => {
+ processing.queue.register(CUT_HIGHLIGHT_JOB, [cutStep]);
+
+ // streamId -> the broadcast being recorded
+ const recordings = new Map();
+
+ const replays = () => store.data.replays;
+
+ const presentHighlight = (highlight) => {
+ const job = processing.queue.get(highlight.jobId);
+ const clipUrl = job?.results.cut?.clipUrl ?? null;
+ let clipStatus = 'processing';
+ if (!job || job.status === 'dead') {
+ clipStatus = 'failed';
+ } else if (job.status === 'completed') {
+ clipStatus = clipUrl ? 'ready' : 'unavailable';
+ }
+ return {
+ id: highlight.id,
+ timestamp: highlight.start,
+ duration: highlight.end - highlight.start,
+ title: highlight.title,
+ description: highlight.description,
+ type: highlight.type,
+ clipStatus,
+ clipUrl,
+ createdAt: highlight.createdAt
+ };
+ };
+
+ const present = (replay) => {
+ const video = processing.getVideo(replay.videoId);
+ return {
+ id: replay.id,
+ streamId: replay.streamId,
+ videoId: replay.videoId,
+ title: replay.title,
+ description: replay.description,
+ thumbnailUrl: video?.thumbnailUrl || '',
+ videoUrl: video?.manifestUrl || video?.videoUrl || null,
+ duration: video?.duration || replay.duration,
+ createdAt: replay.endedAt,
+ startedAt: replay.startedAt,
+ endedAt: replay.endedAt,
+ isProcessing: video?.uploadStatus !== 'processed',
+ polls: replay.polls,
+ questions: replay.questions,
+ stats: replay.stats,
+ highlights: replay.highlights.map(presentHighlight),
+ suggestedHighlights: replay.suggestedHighlights
+ };
+ };
+
+ const latestFor = (streamId) =>
+ Object.values(replays())
+ .filter(replay => replay.streamId === streamId)
+ .sort((a, b) => b.endedAt.localeCompare(a.endedAt))[0] || null;
+
+ const start = (streamId, startedAt = new Date().toISOString()) => {
+ const stream = getStream(streamId);
+ if (!stream || stream.enableRecording === false || recordings.has(streamId)) {
+ return;
+ }
+ const replayId = generateId('replay');
+ const filePath = path.join(RECORDINGS_DIR, streamId, `${replayId}.flv`);
+ fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+ const recording = { replayId, filePath, startedAt, baseTimestamp: null, lastTimestamp: 0, samples: [], chat: [], error: null };
+ recording.output = fs.createWriteStream(filePath);
+ recording.output.on('error', (error) => {
+ recording.error = error.message;
+ console.error(`Recording ${replayId} failed:`, error.message);
+ });
+ recording.output.write(FLV_HEADER);
+
+ const sample = () => recording.samples.push({
+ offsetSeconds: offsetSeconds(new Date().toISOString(), Date.parse(startedAt)),
+ viewers: getViewerCount(streamId)
+ });
+ sample();
+ recording.sampleTimer = setInterval(sample, VIEWER_SAMPLE_MS);
+ recording.sampleTimer.unref?.();
+ recording.sample = sample;
+ recordings.set(streamId, recording);
+ };
+
+ const write = (streamId, message) => {
+ const recording = recordings.get(streamId);
+ if (!recording || recording.error) {
+ return;
+ }
+ // The recording starts at 0 whatever the encoder's clock says
+ recording.baseTimestamp ??= message.timestamp;
+ const timestamp = Math.max(0, message.timestamp - recording.baseTimestamp);
+ recording.lastTimestamp = Math.max(recording.lastTimestamp, timestamp);
+ recording.output.write(flvTag({ ...message, timestamp }));
+ };
+
+ // The live chat only keeps its latest messages, so the replay's chat is collected while the stream runs
+ const onMessage = (streamId, message) => {
+ const recording = recordings.get(streamId);
+ if (recording) {
+ recording.chat.push({ ...message, offsetSeconds: offsetSeconds(message.timestamp, Date.parse(recording.startedAt)) });
+ }
+ };
+
+ const onDelete = (streamId, messageIds) => {
+ const recording = recordings.get(streamId);
+ if (recording) {
+ recording.chat = recording.chat.filter(message => !messageIds.includes(message.id));
+ }
+ };
+
+ const finish = (streamId, recording, endedAt) => {
+ if (recording.error || recording.lastTimestamp === 0) {
+ // Nothing worth keeping: the encoder connected but sent no media, or the disk failed
+ fs.rmSync(recording.filePath, { force: true });
+ return;
+ }
+ const stream = getStream(streamId) || {};
+ const { chat } = recording;
+ const viewerTimeline = recording.samples;
+ const viewerCounts = viewerTimeline.map(sample => sample.viewers);
+
+ const video = processing.addVideo({
+ filePath: recording.filePath,
+ fileName: `${recording.replayId}.flv`,
+ fileSize: fs.statSync(recording.filePath).size,
+ fileType: 'video/x-flv',
+ fields: {
+ title: stream.title || 'Live stream',
+ description: stream.description || '',
+ category: stream.category || '',
+ tags: stream.tags || [],
+ visibility: stream.visibility || 'public',
+ channelId: stream.creatorId,
+ channelName: stream.creatorName,
+ liveReplay: { replayId: recording.replayId, streamId }
+ }
+ });
+
+ const { polls, questions } = getInteractions(streamId);
+ replays()[recording.replayId] = {
+ id: recording.replayId,
+ streamId,
+ videoId: video.id,
+ title: video.title,
+ description: video.description,
+ startedAt: recording.startedAt,
+ endedAt,
+ duration: Math.round(recording.lastTimestamp / 1000),
+ recordingPath: recording.filePath,
+ chat,
+ polls,
+ questions,
+ stats: {
+ peakViewers: Math.max(0, ...viewerCounts),
+ averageViewers: viewerCounts.length ? Math.round(viewerCounts.reduce((sum, count) => sum + count, 0) / viewerCounts.length) : 0,
+ chatMessages: chat.length,
+ viewerTimeline
+ },
+ highlights: [],
+ suggestedHighlights: suggestHighlights(chat, viewerTimeline)
+ };
+ store.save();
+ };
+
+ const stop = (streamId, endedAt = new Date().toISOString()) => {
+ const recording = recordings.get(streamId);
+ if (!recording) {
+ return;
+ }
+ recordings.delete(streamId);
+ clearInterval(recording.sampleTimer);
+ recording.sample();
+ recording.output.end(() => finish(streamId, recording, endedAt));
+ };
+
+ const findOwned = (req, res) => {
+ const replay = replays()[req.params.replayId];
+ if (!replay) {
+ sendError(res, 404, 'Not found', 'Replay not found');
+ return null;
+ }
+ if (!getUserId(req) || getUserId(req) !== getStreamOwnerId(replay.streamId)) {
+ sendError(res, 403, 'Forbidden', 'Only the stream owner can edit highlights');
+ return null;
+ }
+ return replay;
+ };
+
+ const router = express.Router();
+
+ // Chat in timeline order; `from`/`to` are seconds into the video. A busy window spans several
+ // pages, each pointing at the next with `nextPageToken`
+ router.get('/live/replays/:replayId/chat', (req, res) => {
+ const replay = replays()[req.params.replayId];
+ if (!replay) {
+ return sendError(res, 404, 'Not found', 'Replay not found');
+ }
+ const from = Number(req.query.from) || 0;
+ const to = req.query.to === undefined ? Infinity : Number(req.query.to);
+ const page = paginate(replay.chat.filter(message => message.offsetSeconds >= from && message.offsetSeconds < to), {
+ pageToken: req.query.pageToken,
+ maxResults: CHAT_PAGE_SIZE,
+ sortKey: message => [message.timestamp, message.id],
+ scope: `replay-chat:${replay.id}:${from}:${to}`
+ });
+ res.json({
+ replayId: replay.id,
+ messages: page.items,
+ total: replay.chat.length,
+ ...(page.nextPageToken && { nextPageToken: page.nextPageToken })
+ });
+ });
+
+ router.post('/live/replays/:replayId/highlights', (req, res) => {
+ const replay = findOwned(req, res);
+ if (!replay) {
+ return;
+ }
+ const { title, description = '', type = 'moment' } = req.body || {};
+ const start = Number(req.body?.start);
+ const end = Number(req.body?.end);
+ if (!title || !String(title).trim()) {
+ return sendError(res, 400, 'Bad request', 'title is required');
+ }
+ if (!(start >= 0) || !(end > start)) {
+ return sendError(res, 400, 'Bad request', 'end must come after start');
+ }
+ if (end - start > MAX_HIGHLIGHT_SECONDS) {
+ return sendError(res, 400, 'Bad request', `Highlights can be at most ${MAX_HIGHLIGHT_SECONDS} seconds long`);
+ }
+ if (replay.duration && end > replay.duration + 1) {
+ return sendError(res, 400, 'Bad request', 'The highlight ends after the replay does');
+ }
+ if (!HIGHLIGHT_TYPES.includes(type)) {
+ return sendError(res, 400, 'Bad request', `type must be one of: ${HIGHLIGHT_TYPES.join(', ')}`);
+ }
+
+ const highlight = {
+ id: generateId('highlight'),
+ start,
+ end,
+ title: String(title).trim().slice(0, 100),
+ description: String(description).trim().slice(0, 500),
+ type,
+ createdAt: new Date().toISOString()
+ };
+ highlight.jobId = processing.queue.enqueue(CUT_HIGHLIGHT_JOB, {
+ videoId: replay.videoId,
+ highlightId: highlight.id,
+ recordingPath: replay.recordingPath,
+ start,
+ end
+ }).id;
+ replay.highlights.push(highlight);
+ store.save();
+ res.status(201).json(presentHighlight(highlight));
+ });
+
+ router.delete('/live/replays/:replayId/highlights/:highlightId', (req, res) => {
+ const replay = findOwned(req, res);
+ if (!replay) {
+ return;
+ }
+ if (!replay.highlights.some(highlight => highlight.id === req.params.highlightId)) {
+ return sendError(res, 404, 'Not found', 'Highlight not found');
+ }
+ replay.highlights = replay.highlights.filter(highlight => highlight.id !== req.params.highlightId);
+ store.save();
+ fs.rmSync(path.join(MEDIA_DIR, replay.videoId, 'highlights', `${req.params.highlightId}.mp4`), { force: true });
+ res.status(204).end();
+ });
+
+ return {
+ router,
+ start,
+ write,
+ stop,
+ // Live chat extension hooks
+ onMessage,
+ onDelete,
+ /** The stream's most recent replay as clients see it, or null */
+ getLatest: (streamId) => {
+ const replay = latestFor(streamId);
+ return replay ? present(replay) : null;
+ },
+ close: () => [...recordings.keys()].forEach(streamId => stop(streamId))
+ };
+};
@@ -0,0 +1,320 @@
+// Restreaming: fan one live ingest out to YouTube, Twitch, Facebook and X over RTMP
+import express from 'express';
+
+import { AUDIO, DATA, VIDEO, decodeAmf0, publishRtmp } from './rtmp.js';
+import { createJsonStore } from './storage.js';
+
+/** Ingest servers used when a destination does not name its own */
+export const PLATFORM_SERVERS = {
+ youtube: 'rtmp://a.rtmp.youtube.com/live2',
+ twitch: 'rtmp://live.twitch.tv/app',
+ facebook: 'rtmps://live-api-s.facebook.com:443/rtmp',
+ twitter: 'rtmp://va.pscp.tv:80/x'
+};
+const PLATFORMS = Object.keys(PLATFORM_SERVERS);
+
+// Reconnect after 1s, 2s, 4s... up to 30s, and give up after this many failures in a row
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+const MAX_ATTEMPTS = 8;
+// A destination this far behind is too slow to keep up; drop and reconnect it
+const MAX_BUFFERED_BYTES = 8 * 1024 * 1024;
+
+// FLV codec ids
+const FLV_CODEC_AVC = 7;
+const FLV_SOUND_AAC = 10;
+
+const getUserId = (req) => req.get('x-user-id') || null;
+
+const sendError = (res, status, error, message) =>
+ res.status(status).json({ error, message, timestamp: new Date().toISOString() });
+
+const isKeyframe = (payload) => payload.length > 0 && payload[0] >> 4 === 1;
+
+/** Sequence headers and metadata every new connection needs before any frames */
+const headerSlot = ({ type, payload }) => {
+ if (type === VIDEO && (payload[0] & 0x0f) === FLV_CODEC_AVC && payload[1] === 0) {
+ return 'video';
+ }
+ if (type === AUDIO && payload[0] >> 4 === FLV_SOUND_AAC && payload[1] === 0) {
+ return 'audio';
+ }
+ if (type === DATA) {
+ try {
+ return decodeAmf0(payload)[0] === 'onMetaData' ? 'metadata' : null;
+ } catch {
+ return null;
+ }
+ }
+ return null;
+};
+
+/** Only the end of a stream key is ever sent back */
+const maskKey = (key) => (key ? `••••${key.slice(-4)}` : null);
+
+const validServerUrl = (value) => {
+ try {
+ return ['rtmp:', 'rtmps:'].includes(new URL(value).protocol);
+ } catch {
+ return false;
+ }
+};
+
+/**
+ * Builds the restream service. Each stream has at most one destination per
+ * platform, with that platform's stream key stored server side; only the
+ * stream's owner (`getStreamOwnerId(streamId)`) can see or change them.
+ *
+ * While the stream is live (between `start(streamId)` and `stop(streamId)`),
+ * every message passed to `write(streamId, message)` is forwarded to each
+ * enabled destination. A destination that drops is reconnected with
+ * exponential backoff and resumes from the next keyframe; after
+ * `MAX_ATTEMPTS` failures in a row it is marked failed until re-enabled.
+ */
+export const createRestreamService = ({
+ getStreamOwnerId,
+ isLive = () => false,
+ store = createJsonStore('restream-targets', { streams: {} })
+}) => {
+ // streamId -> { headers, timestamp, connections: Map<platform, connection> } while live
+ const relays = new Map();
+
+ const targetsOf = (streamId) => store.data.streams[streamId] || {};
+
+ const connectionView = (connection) =>
+ connection
+ ? {
+ status: connection.status,
+ error: connection.error,
+ attempts: connection.attempts,
+ connectedAt: connection.connectedAt,
+ nextRetryAt: connection.nextRetryAt,
+ bytesSent: connection.publisher?.bytesSent ?? connection.bytesSent
+ }
+ : { status: 'idle', error: null, attempts: 0, connectedAt: null, nextRetryAt: null, bytesSent: 0 };
+
+ const present = (streamId, target) => ({
+ platform: target.platform,
+ serverUrl: target.serverUrl,
+ streamKeyHint: maskKey(target.streamKey),
+ enabled: target.enabled,
+ updatedAt: target.updatedAt,
+ ...connectionView(relays.get(streamId)?.connections.get(target.platform))
+ });
+
+ const listTargets = (streamId) => PLATFORMS.filter(platform => targetsOf(streamId)[platform]).map(platform => present(streamId, targetsOf(streamId)[platform]));
+
+ const disconnectTarget = (relay, platform) => {
+ const connection = relay.connections.get(platform);
+ if (connection) {
+ relay.connections.delete(platform);
+ connection.stopped = true;
+ clearTimeout(connection.retryTimer);
+ connection.publisher?.close();
+ }
+ };
+
+ const connectTarget = (streamId, relay, target, connection = { attempts: 0, bytesSent: 0 }) => {
+ const retry = (error) => {
+ if (connection.stopped) {
+ return;
+ }
+ connection.bytesSent += connection.publisher?.bytesSent ?? 0;
+ connection.publisher = null;
+ connection.attempts++;
+ connection.error = error?.message || 'Disconnected';
+ if (connection.attempts >= MAX_ATTEMPTS) {
+ connection.status = 'failed';
+ return;
+ }
+ const delay = Math.min(RETRY_BASE_MS * 2 ** (connection.attempts - 1), RETRY_MAX_MS);
+ connection.status = 'reconnecting';
+ connection.nextRetryAt = new Date(Date.now() + delay).toISOString();
+ connection.retryTimer = setTimeout(() => {
+ if (!connection.stopped && relays.get(streamId) === relay) {
+ connectTarget(streamId, relay, target, connection);
+ }
+ }, delay);
+ };
+
+ Object.assign(connection, {
+ status: connection.attempts > 0 ? 'reconnecting' : 'connecting',
+ error: connection.error ?? null,
+ connectedAt: null,
+ nextRetryAt: null,
+ publisher: null,
+ waitingForKeyframe: true,
+ stopped: false,
+ retry
+ });
+ relay.connections.set(target.platform, connection);
+
+ publishRtmp({ url: target.serverUrl, streamName: target.streamKey, onClose: (error) => error && retry(error) })
+ .then((publisher) => {
+ if (connection.stopped) {
+ publisher.close();
+ return;
+ }
+ connection.publisher = publisher;
+ connection.status = 'live';
+ connection.error = null;
+ connection.attempts = 0;
+ connection.connectedAt = new Date().toISOString();
+ for (const header of Object.values(relay.headers)) {
+ publisher.write({ ...header, timestamp: relay.timestamp });
+ }
+ })
+ .catch(retry);
+ };
+
+ const start = (streamId) => {
+ if (relays.has(streamId)) {
+ return;
+ }
+ const relay = { headers: {}, timestamp: 0, connections: new Map() };
+ relays.set(streamId, relay);
+ for (const target of Object.values(targetsOf(streamId)).filter(candidate => candidate.enabled)) {
+ connectTarget(streamId, relay, target);
+ }
+ };
+
+ const write = (streamId, message) => {
+ const relay = relays.get(streamId);
+ if (!relay) {
+ return;
+ }
+ const slot = headerSlot(message);
+ if (slot) {
+ relay.headers[slot] = message;
+ }
+ relay.timestamp = message.timestamp;
+
+ for (const connection of relay.connections.values()) {
+ const { publisher } = connection;
+ if (!publisher) {
+ continue;
+ }
+ if (publisher.buffered > MAX_BUFFERED_BYTES) {
+ connection.retry(new Error('The destination is not keeping up'));
+ publisher.close();
+ continue;
+ }
+ // A destination joins on a keyframe; sequence headers were sent on connect
+ if (connection.waitingForKeyframe && !slot) {
+ if (message.type !== VIDEO || !isKeyframe(message.payload)) {
+ continue;
+ }
+ connection.waitingForKeyframe = false;
+ }
+ publisher.write(message);
+ }
+ };
+
+ const stop = (streamId) => {
+ const relay = relays.get(streamId);
+ if (!relay) {
+ return;
+ }
+ relays.delete(streamId);
+ for (const platform of [...relay.connections.keys()]) {
+ disconnectTarget(relay, platform);
+ }
+ };
+
+ /** Creates or updates a platform's destination; a string when the input is invalid */
+ const setTarget = (streamId, platform, fields) => {
+ if (!PLATFORMS.includes(platform)) {
+ return `platform must be one of: ${PLATFORMS.join(', ')}`;
+ }
+ const previous = targetsOf(streamId)[platform];
+ const streamKey = fields.streamKey === undefined ? previous?.streamKey : String(fields.streamKey).trim();
+ const serverUrl = fields.serverUrl ? String(fields.serverUrl).trim() : previous?.serverUrl ?? PLATFORM_SERVERS[platform];
+ if (!streamKey) {
+ return 'streamKey is required';
+ }
+ if (!validServerUrl(serverUrl)) {
+ return 'serverUrl must be an rtmp:// or rtmps:// URL';
+ }
+
+ const target = {
+ platform,
+ serverUrl,
+ streamKey,
+ enabled: fields.enabled === undefined ? previous?.enabled ?? true : Boolean(fields.enabled),
+ updatedAt: new Date().toISOString()
+ };
+ store.data.streams[streamId] = { ...targetsOf(streamId), [platform]: target };
+ store.save();
+
+ // Apply the change to a running broadcast straight away
+ const relay = relays.get(streamId);
+ if (relay) {
+ disconnectTarget(relay, platform);
+ if (target.enabled) {
+ connectTarget(streamId, relay, target);
+ }
+ }
+ return present(streamId, target);
+ };
+
+ const removeTarget = (streamId, platform) => {
+ const relay = relays.get(streamId);
+ if (relay) {
+ disconnectTarget(relay, platform);
+ }
+ const targets = targetsOf(streamId);
+ delete targets[platform];
+ store.data.streams[streamId] = targets;
+ store.save();
+ };
+
+ const requireOwner = (req, res) => {
+ if (!getUserId(req) || getUserId(req) !== getStreamOwnerId(req.params.id)) {
+ sendError(res, 403, 'Forbidden', 'Only the stream owner can manage restreaming');
+ return false;
+ }
+ return true;
+ };
+
+ const router = express.Router();
+
+ router.get('/live/streams/:id/restream', (req, res) => {
+ if (requireOwner(req, res)) {
+ res.json({ streamId: req.params.id, live: isLive(req.params.id), targets: listTargets(req.params.id) });
+ }
+ });
+
+ router.put('/live/streams/:id/restream/:platform', (req, res) => {
+ if (!requireOwner(req, res)) {
+ return;
+ }
+ const created = !targetsOf(req.params.id)[req.params.platform];
+ const result = setTarget(req.params.id, req.params.platform, req.body || {});
+ if (typeof result === 'string') {
+ return sendError(res, 400, 'Bad request', result);
+ }
+ res.status(created ? 201 : 200).json(result);
+ });
+
+ router.delete('/live/streams/:id/restream/:platform', (req, res) => {
+ if (!requireOwner(req, res)) {
+ return;
+ }
+ if (!targetsOf(req.params.id)[req.params.platform]) {
+ return sendError(res, 404, 'Not found', 'No destination for that platform');
+ }
+ removeTarget(req.params.id, req.params.platform);
+ res.status(204).end();
+ });
+
+ return {
+ router,
+ start,
+ write,
+ stop,
+ setTarget,
+ removeTarget,
+ getTargets: listTargets,
+ close: () => [...relays.keys()].forEach(stop)
+ };
+};
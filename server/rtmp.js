@@ -0,0 +1,653 @@
+// Minimal RTMP publish endpoint and client: handshake, chunk stream, AMF0 commands and media messages
+import crypto from 'crypto';
+import net from 'net';
+import tls from 'tls';
+
+const HANDSHAKE_SIZE = 1536;
+const RTMP_VERSION = 3;
+const DEFAULT_CHUNK_SIZE = 128;
+// What we ask publishers to use, and the window after which they expect an acknowledgement
+const OUT_CHUNK_SIZE = 4096;
+const WINDOW_ACK_SIZE = 2500000;
+// The single message stream handed out by createStream
+const PUBLISH_STREAM_ID = 1;
+
+// Message type ids
+const SET_CHUNK_SIZE = 1;
+const ACKNOWLEDGEMENT = 3;
+const WINDOW_ACK = 5;
+const SET_PEER_BANDWIDTH = 6;
+export const AUDIO = 8;
+export const VIDEO = 9;
+const DATA_AMF3 = 15;
+const COMMAND_AMF3 = 17;
+export const DATA = 18;
+const COMMAND = 20;
+
+// Chunk stream ids for what the server sends
+const CONTROL_CHUNK_STREAM = 2;
+const COMMAND_CHUNK_STREAM = 3;
+const STATUS_CHUNK_STREAM = 5;
+// ...and for what the client publishes
+const AUDIO_CHUNK_STREAM = 4;
+const VIDEO_CHUNK_STREAM = 6;
+const DATA_CHUNK_STREAM = 5;
+
+// How long a destination gets to accept the publish
+const PUBLISH_TIMEOUT_MS = 10000;
+
+// The largest message a peer may send, and the most bytes a connection may
+// hold at once in unread chunks and half-assembled messages
+const MAX_MESSAGE_SIZE = 8 * 1024 * 1024;
+const MAX_BUFFERED_BYTES = 16 * 1024 * 1024;
+
+export class RtmpError extends Error {
+ constructor(message) {
+ super(message);
+ this.name = 'RtmpError';
+ }
+}
+
+/**
+ * Decodes every AMF0 value in `buffer`. Objects and ECMA arrays become plain
+ * objects; AMF0 dates become `Date`s.
+ */
+export const decodeAmf0 = (buffer) => {
+ let offset = 0;
+
+ const readString = (lengthBytes) => {
+ const length = lengthBytes === 2 ? buffer.readUInt16BE(offset) : buffer.readUInt32BE(offset);
+ offset += lengthBytes;
+ const value = buffer.toString('utf8', offset, offset + length);
+ offset += length;
+ return value;
+ };
+
+ const readObject = () => {
+ const object = {};
+ while (offset < buffer.length) {
+ const key = readString(2);
+ if (key === '' && buffer[offset] === 0x09) {
+ offset++;
+ break;
+ }
+ object[key] = readValue();
+ }
+ return object;
+ };
+
+ const readValue = () => {
+ const marker = buffer[offset++];
+ switch (marker) {
+ case 0x00: {
+ const value = buffer.readDoubleBE(offset);
+ offset += 8;
+ return value;
+ }
+ case 0x01:
+ return buffer[offset++] !== 0;
+ case 0x02:
+ return readString(2);
+ case 0x03:
+ return readObject();
+ case 0x05:
+ case 0x06:
+ return null;
+ case 0x08:
+ // The count is advisory; the entries end with the object end marker
+ offset += 4;
+ return readObject();
+ case 0x0a: {
+ const count = buffer.readUInt32BE(offset);
+ offset += 4;
+ return Array.from({ length: count }, () => readValue());
+ }
+ case 0x0b: {
+ const value = buffer.readDoubleBE(offset);
+ // Skip the time zone, which is always 0
+ offset += 10;
+ return new Date(value);
+ }
+ case 0x0c:
+ return readString(4);
+ default:
+ throw new RtmpError(`Unsupported AMF0 type marker 0x${Number(marker).toString(16)}`);
+ }
+ };
+
+ const values = [];
+ while (offset < buffer.length) {
+ values.push(readValue());
+ }
+ return values;
+};
+
+const encodeAmf0Value = (value) => {
+ if (value === null || value === undefined) {
+ return Buffer.from([0x05]);
+ }
+ if (typeof value === 'number') {
+ const buffer = Buffer.alloc(9);
+ buffer.writeDoubleBE(value, 1);
+ return buffer;
+ }
+ if (typeof value === 'boolean') {
+ return Buffer.from([0x01, value ? 1 : 0]);
+ }
+ if (typeof value === 'string') {
+ const text = Buffer.from(value, 'utf8');
+ const header = Buffer.alloc(3);
+ header[0] = 0x02;
+ header.writeUInt16BE(text.length, 1);
+ return Buffer.concat([header, text]);
+ }
+ const parts = [Buffer.from([0x03])];
+ for (const [key, entry] of Object.entries(value)) {
+ const name = Buffer.from(key, 'utf8');
+ const length = Buffer.alloc(2);
+ length.writeUInt16BE(name.length);
+ parts.push(length, name, encodeAmf0Value(entry));
+ }
+ parts.push(Buffer.from([0x00, 0x00, 0x09]));
+ return Buffer.concat(parts);
+};
+
+/** Encodes numbers, booleans, strings, null and plain objects as AMF0 */
+export const encodeAmf0 = (...values) => Buffer.concat(values.map(encodeAmf0Value));
+
+/**
+ * Reassembles RTMP messages from chunks. `push()` accepts bytes as they
+ * arrive; `onMessage({ type, streamId, timestamp, payload })` is called for
+ * every complete message, and may call `setChunkSize()` before the next
+ * chunk is read. A peer that announces a message over `MAX_MESSAGE_SIZE`, or
+ * makes the reader hold more than `MAX_BUFFERED_BYTES`, gets an `RtmpError`.
+ */
+export const createChunkReader = (onMessage) => {
+ let pending = Buffer.alloc(0);
+ let chunkSize = DEFAULT_CHUNK_SIZE;
+ // Bytes allocated for messages still being assembled
+ let assembling = 0;
+ // Chunk stream id -> header of its last chunk and the message being assembled
+ const chunkStreams = new Map();
+
+ const checkBuffered = () => {
+ if (pending.length + assembling > MAX_BUFFERED_BYTES) {
+ throw new RtmpError(`More than ${MAX_BUFFERED_BYTES} bytes buffered`);
+ }
+ };
+
+ const readChunk = () => {
+ if (pending.length < 1) {
+ return false;
+ }
+ const fmt = pending[0] >> 6;
+ let chunkStreamId = pending[0] & 0x3f;
+ let offset = 1;
+ if (chunkStreamId === 0) {
+ if (pending.length < 2) {
+ return false;
+ }
+ chunkStreamId = pending[1] + 64;
+ offset = 2;
+ } else if (chunkStreamId === 1) {
+ if (pending.length < 3) {
+ return false;
+ }
+ chunkStreamId = pending[1] + pending[2] * 256 + 64;
+ offset = 3;
+ }
+
+ const headerSize = [11, 7, 3, 0][fmt];
+ if (pending.length < offset + headerSize) {
+ return false;
+ }
+ const previous = chunkStreams.get(chunkStreamId) || {
+ timestamp: 0, delta: 0, length: 0, type: 0, streamId: 0, extended: false, payload: null, received: 0
+ };
+ const header = { ...previous };
+ let time = fmt <= 2 ? pending.readUIntBE(offset, 3) : null;
+ if (fmt <= 1) {
+ header.length = pending.readUIntBE(offset + 3, 3);
+ header.type = pending[offset + 6];
+ if (header.length > MAX_MESSAGE_SIZE) {
+ throw new RtmpError(`Message of ${header.length} bytes is over the ${MAX_MESSAGE_SIZE} byte limit`);
+ }
+ }
+ if (fmt === 0) {
+ header.streamId = pending.readUInt32LE(offset + 7);
+ }
+ offset += headerSize;
+
+ header.extended = fmt === 3 ? previous.extended : time === 0xffffff;
+ if (header.extended) {
+ if (pending.length < offset + 4) {
+ return false;
+ }
+ if (fmt !== 3) {
+ time = pending.readUInt32BE(offset);
+ }
+ offset += 4;
+ }
+
+ const size = Math.min(chunkSize, header.length - (previous.payload ? previous.received : 0));
+ if (pending.length < offset + size) {
+ return false;
+ }
+
+ if (!previous.payload) {
+ // First chunk of a message: work out its timestamp
+ if (fmt === 0) {
+ header.timestamp = time;
+ header.delta = time;
+ } else if (fmt === 3) {
+ header.timestamp = (previous.timestamp + previous.delta) >>> 0;
+ } else {
+ header.delta = time;
+ header.timestamp = (previous.timestamp + time) >>> 0;
+ }
+ assembling += header.length;
+ header.payload = Buffer.alloc(header.length);
+ header.received = 0;
+ }
+
+ pending.copy(header.payload, header.received, offset, offset + size);
+ header.received += size;
+ pending = pending.subarray(offset + size);
+ checkBuffered();
+
+ if (header.received >= header.length) {
+ const { type, streamId, timestamp, payload } = header;
+ header.payload = null;
+ assembling -= payload.length;
+ chunkStreams.set(chunkStreamId, header);
+ onMessage({ type, streamId, timestamp, payload });
+ } else {
+ chunkStreams.set(chunkStreamId, header);
+ }
+ return true;
+ };
+
+ return {
+ push(data) {
+ pending = pending.length ? Buffer.concat([pending, data]) : data;
+ while (readChunk()) {
+ // Keep reading while whole chunks are buffered
+ }
+ checkBuffered();
+ },
+ setChunkSize(size) {
+ chunkSize = size;
+ }
+ };
+};
+
+/** Splits a message into chunks of `chunkSize`, with a full header on the first */
+const encodeMessage = ({ chunkStreamId, type, streamId = 0, timestamp = 0, payload }, chunkSize) => {
+ const extended = timestamp >= 0xffffff;
+ const header = Buffer.alloc(12 + (extended ? 4 : 0));
+ header[0] = chunkStreamId;
+ header.writeUIntBE(extended ? 0xffffff : timestamp, 1, 3);
+ header.writeUIntBE(payload.length, 4, 3);
+ header[7] = type;
+ header.writeUInt32LE(streamId, 8);
+ if (extended) {
+ header.writeUInt32BE(timestamp, 12);
+ }
+
+ const parts = [header];
+ for (let offset = 0; offset < payload.length; offset += chunkSize) {
+ if (offset > 0) {
+ parts.push(Buffer.from([0xc0 | chunkStreamId]));
+ if (extended) {
+ parts.push(header.subarray(12));
+ }
+ }
+ parts.push(payload.subarray(offset, offset + chunkSize));
+ }
+ return Buffer.concat(parts);
+};
+
+const uint32 = (value) => {
+ const buffer = Buffer.alloc(4);
+ buffer.writeUInt32BE(value);
+ return buffer;
+};
+
+/**
+ * Handles one RTMP connection: the plain (unsigned) handshake, then the
+ * connect → createStream → publish command flow. Media and data messages
+ * on the published stream go to the publisher returned by `onPublish`.
+ */
+const handleConnection = (socket, { onPublish }) => {
+ let state = 'handshake';
+ let handshake = Buffer.alloc(0);
+ let app = '';
+ let publisher = null;
+ let bytesReceived = 0;
+ let lastAcknowledged = 0;
+
+ const sendMessage = (message) => {
+ if (!socket.destroyed) {
+ socket.write(encodeMessage(message, OUT_CHUNK_SIZE));
+ }
+ };
+
+ const sendCommand = (chunkStreamId, streamId, ...values) =>
+ sendMessage({ chunkStreamId, type: COMMAND, streamId, payload: encodeAmf0(...values) });
+
+ const sendStatus = (level, code, description) =>
+ sendCommand(STATUS_CHUNK_STREAM, PUBLISH_STREAM_ID, 'onStatus', 0, null, { level, code, description });
+
+ const unpublish = () => {
+ if (publisher) {
+ const finished = publisher;
+ publisher = null;
+ finished.onClose();
+ }
+ };
+
+ const handleCommand = ([name, transactionId, commandObject, ...args]) => {
+ switch (name) {
+ case 'connect':
+ app = String(commandObject?.app || '').replace(/\/$/, '');
+ sendMessage({ chunkStreamId: CONTROL_CHUNK_STREAM, type: WINDOW_ACK, payload: uint32(WINDOW_ACK_SIZE) });
+ sendMessage({ chunkStreamId: CONTROL_CHUNK_STREAM, type: SET_PEER_BANDWIDTH, payload: Buffer.concat([uint32(WINDOW_ACK_SIZE), Buffer.from([2])]) });
+ sendMessage({ chunkStreamId: CONTROL_CHUNK_STREAM, type: SET_CHUNK_SIZE, payload: uint32(OUT_CHUNK_SIZE) });
+ sendCommand(COMMAND_CHUNK_STREAM, 0, '_result', transactionId,
+ { fmsVer: 'FMS/3,0,1,123', capabilities: 31 },
+ { level: 'status', code: 'NetConnection.Connect.Success', description: 'Connection succeeded.', objectEncoding: 0 });
+ break;
+ case 'createStream':
+ sendCommand(COMMAND_CHUNK_STREAM, 0, '_result', transactionId, null, PUBLISH_STREAM_ID);
+ break;
+ case 'publish': {
+ // Encoders may append a query string to the key
+ const streamName = String(args[0] || '').split('?')[0];
+ if (publisher) {
+ sendStatus('error', 'NetStream.Publish.BadName', 'This connection is already publishing');
+ break;
+ }
+ let rejection = null;
+ try {
+ publisher = onPublish({ app, streamName, remoteAddress: socket.remoteAddress, close: () => socket.destroy() });
+ } catch (error) {
+ rejection = error.message;
+ }
+ if (!publisher) {
+ sendStatus('error', 'NetStream.Publish.BadName', rejection || 'Invalid stream key');
+ socket.end();
+ break;
+ }
+ sendStatus('status', 'NetStream.Publish.Start', `Publishing ${streamName}`);
+ break;
+ }
+ case 'FCUnpublish':
+ case 'deleteStream':
+ case 'closeStream':
+ unpublish();
+ break;
+ default:
+ // releaseStream, FCPublish and the like need no answer
+ break;
+ }
+ };
+
+ const reader = createChunkReader((message) => {
+ switch (message.type) {
+ case SET_CHUNK_SIZE:
+ reader.setChunkSize(message.payload.readUInt32BE(0) & 0x7fffffff);
+ break;
+ case COMMAND:
+ case COMMAND_AMF3:
+ handleCommand(decodeAmf0(message.type === COMMAND_AMF3 ? message.payload.subarray(1) : message.payload));
+ break;
+ case DATA:
+ case DATA_AMF3:
+ case AUDIO:
+ case VIDEO: {
+ if (!publisher) {
+ break;
+ }
+ let { payload } = message;
+ if (message.type !== AUDIO && message.type !== VIDEO) {
+ payload = message.type === DATA_AMF3 ? payload.subarray(1) : payload;
+ // `@setDataFrame` wraps what should be stored as the stream's metadata
+ if (payload[0] === 0x02 && payload.toString('utf8', 3, 3 + payload.readUInt16BE(1)) === '@setDataFrame') {
+ payload = payload.subarray(3 + payload.readUInt16BE(1));
+ }
+ }
+ publisher.onMessage({ type: message.type === DATA_AMF3 ? DATA : message.type, timestamp: message.timestamp, payload });
+ break;
+ }
+ default:
+ break;
+ }
+ });
+
+ socket.on('data', (data) => {
+ try {
+ if (state === 'handshake') {
+ handshake = Buffer.concat([handshake, data]);
+ if (handshake.length < 1 + HANDSHAKE_SIZE) {
+ return;
+ }
+ const c1 = handshake.subarray(1, 1 + HANDSHAKE_SIZE);
+ const s1 = crypto.randomBytes(HANDSHAKE_SIZE);
+ s1.fill(0, 0, 8);
+ socket.write(Buffer.concat([Buffer.from([RTMP_VERSION]), s1, c1]));
+ handshake = handshake.subarray(1 + HANDSHAKE_SIZE);
+ state = 'ack';
+ data = Buffer.alloc(0);
+ }
+ if (state === 'ack') {
+ handshake = Buffer.concat([handshake, data]);
+ if (handshake.length < HANDSHAKE_SIZE) {
+ return;
+ }
+ // C2 echoes S1; nothing to check for an unsigned handshake
+ data = handshake.subarray(HANDSHAKE_SIZE);
+ handshake = null;
+ state = 'ready';
+ }
+
+ bytesReceived += data.length;
+ if (bytesReceived - lastAcknowledged >= WINDOW_ACK_SIZE) {
+ lastAcknowledged = bytesReceived;
+ sendMessage({ chunkStreamId: CONTROL_CHUNK_STREAM, type: ACKNOWLEDGEMENT, payload: uint32(bytesReceived >>> 0) });
+ }
+ if (data.length > 0) {
+ reader.push(data);
+ }
+ } catch (error) {
+ console.error('RTMP connection error:', error.message);
+ socket.destroy();
+ }
+ });
+
+ socket.on('close', unpublish);
+ socket.on('error', () => socket.destroy());
+};
+
+/**
+ * Creates an RTMP server for publishers (OBS, ffmpeg). `onPublish({ app,
+ * streamName, remoteAddress, close })` decides whether a publish is allowed:
+ * it returns a publisher `{ onMessage({ type, timestamp, payload }), onClose() }`
+ * to accept, or null (or throws) to refuse with `NetStream.Publish.BadName`.
+ *
+ * Message types are `AUDIO`, `VIDEO` and `DATA` and match FLV tag types, so
+ * payloads can be written to an FLV stream as they are.
+ */
+export const createRtmpServer = ({ onPublish }) =>
+ net.createServer((socket) => handleConnection(socket, { onPublish }));
+
+/**
+ * Publishes to an RTMP(S) server, as an encoder would: `url` is the server
+ * URL including the application (`rtmp://host[:port]/app`) and `streamName`
+ * the destination's stream key.
+ *
+ * Resolves once the server answers `NetStream.Publish.Start` with
+ * `{ write({ type, timestamp, payload }), close(), bytesSent, buffered }`, where
+ * messages are the same `AUDIO`/`VIDEO`/`DATA` messages `createRtmpServer`
+ * hands its publishers. Rejects with an `RtmpError` when the server refuses
+ * or does not answer in time. `onClose(error)` is called once the
+ * connection ends after publishing started, with the error if it failed.
+ */
+export const publishRtmp = ({ url, streamName, onClose = () => {} }) =>
+ new Promise((resolve, reject) => {
+ let target;
+ try {
+ target = new URL(url);
+ } catch {
+ return reject(new RtmpError(`Invalid RTMP URL: ${url}`));
+ }
+ const secure = target.protocol === 'rtmps:';
+ if (!secure && target.protocol !== 'rtmp:') {
+ return reject(new RtmpError(`Unsupported protocol ${target.protocol}`));
+ }
+ const port = Number(target.port) || (secure ? 443 : 1935);
+ const app = target.pathname.replace(/^\/+|\/+$/g, '');
+ const tcUrl = `${target.protocol}//${target.host}/${app}`;
+
+ const socket = secure
+ ? tls.connect({ host: target.hostname, port, servername: target.hostname })
+ : net.connect({ host: target.hostname, port });
+
+ let state = 'handshake';
+ let handshake = Buffer.alloc(0);
+ let published = false;
+ let closed = false;
+ let streamId = 0;
+ let bytesSent = 0;
+ let bytesReceived = 0;
+ let lastAcknowledged = 0;
+ let windowAckSize = WINDOW_ACK_SIZE;
+
+ const fail = (error) => {
+ if (closed) {
+ return;
+ }
+ closed = true;
+ clearTimeout(timer);
+ socket.destroy();
+ if (published) {
+ onClose(error);
+ } else {
+ reject(error);
+ }
+ };
+ const timer = setTimeout(() => fail(new RtmpError('Timed out waiting for the server to accept the stream')), PUBLISH_TIMEOUT_MS);
+
+ const send = (message) => {
+ if (!socket.destroyed) {
+ const bytes = encodeMessage(message, OUT_CHUNK_SIZE);
+ bytesSent += bytes.length;
+ socket.write(bytes);
+ }
+ };
+ const sendCommand = (messageStreamId, ...values) =>
+ send({ chunkStreamId: COMMAND_CHUNK_STREAM, type: COMMAND, streamId: messageStreamId, payload: encodeAmf0(...values) });
+
+ const handleCommand = ([name, transactionId, , info, ...rest]) => {
+ if (name === '_result' && transactionId === 1) {
+ sendCommand(0, 'releaseStream', 2, null, streamName);
+ sendCommand(0, 'FCPublish', 3, null, streamName);
+ sendCommand(0, 'createStream', 4, null);
+ } else if (name === '_result' && transactionId === 4) {
+ streamId = typeof info === 'number' ? info : Number(rest[0]) || PUBLISH_STREAM_ID;
+ sendCommand(streamId, 'publish', 5, null, streamName, 'live');
+ } else if (name === '_error') {
+ fail(new RtmpError(info?.description || 'The server refused the connection'));
+ } else if (name === 'onStatus' && info?.code === 'NetStream.Publish.Start') {
+ published = true;
+ clearTimeout(timer);
+ resolve(publisher);
+ } else if (name === 'onStatus' && info?.level === 'error') {
+ fail(new RtmpError(info.description || info.code));
+ }
+ };
+
+ const reader = createChunkReader((message) => {
+ switch (message.type) {
+ case SET_CHUNK_SIZE:
+ reader.setChunkSize(message.payload.readUInt32BE(0) & 0x7fffffff);
+ break;
+ case WINDOW_ACK:
+ windowAckSize = message.payload.readUInt32BE(0);
+ break;
+ case COMMAND:
+ case COMMAND_AMF3:
+ handleCommand(decodeAmf0(message.type === COMMAND_AMF3 ? message.payload.subarray(1) : message.payload));
+ break;
+ default:
+ break;
+ }
+ });
+
+ const publisher = {
+ write({ type, timestamp, payload }) {
+ if (closed) {
+ return;
+ }
+ if (type === DATA) {
+ // Servers store metadata sent through `@setDataFrame`
+ payload = Buffer.concat([encodeAmf0('@setDataFrame'), payload]);
+ }
+ const chunkStreamId = type === AUDIO ? AUDIO_CHUNK_STREAM : type === VIDEO ? VIDEO_CHUNK_STREAM : DATA_CHUNK_STREAM;
+ send({ chunkStreamId, type, streamId, timestamp, payload });
+ },
+ close() {
+ if (closed) {
+ return;
+ }
+ sendCommand(streamId, 'FCUnpublish', 6, null, streamName);
+ sendCommand(0, 'deleteStream', 7, null, streamId);
+ closed = true;
+ socket.end();
+ onClose(null);
+ },
+ get bytesSent() {
+ return bytesSent;
+ },
+ /** Bytes written but not yet flushed to the network */
+ get buffered() {
+ return socket.writableLength;
+ }
+ };
+
+ socket.once(secure ? 'secureConnect' : 'connect', () => {
+ const c1 = crypto.randomBytes(HANDSHAKE_SIZE);
+ c1.fill(0, 0, 8);
+ socket.write(Buffer.concat([Buffer.from([RTMP_VERSION]), c1]));
+ });
+
+ socket.on('data', (data) => {
+ try {
+ if (state === 'handshake') {
+ handshake = Buffer.concat([handshake, data]);
+ if (handshake.length < 1 + HANDSHAKE_SIZE * 2) {
+ return;
+ }
+ // C2 echoes S1
+ socket.write(handshake.subarray(1, 1 + HANDSHAKE_SIZE));
+ data = handshake.subarray(1 + HANDSHAKE_SIZE * 2);
+ handshake = null;
+ state = 'ready';
+ send({ chunkStreamId: CONTROL_CHUNK_STREAM, type: SET_CHUNK_SIZE, payload: uint32(OUT_CHUNK_SIZE) });
+ sendCommand(0, 'connect', 1, { app, type: 'nonprivate', flashVer: 'FMLE/3.0 (compatible; FMSc/1.0)', tcUrl });
+ }
+ bytesReceived += data.length;
+ if (bytesReceived - lastAcknowledged >= windowAckSize) {
+ lastAcknowledged = bytesReceived;
+ send({ chunkStreamId: CONTROL_CHUNK_STREAM, type: ACKNOWLEDGEMENT, payload: uint32(bytesReceived >>> 0) });
+ }
+ if (data.length > 0) {
+ reader.push(data);
+ }
+ } catch (error) {
+ fail(new RtmpError(error.message));
+ }
+ });
+
+ socket.on('error', (error) => fail(new RtmpError(error.message)));
+ socket.on('close', () => fail(new RtmpError('The server closed the connection')));
+ });
@@ -0,0 +1,365 @@
+// Full-text video search: inverted index with BM25 ranking, typo tolerance, phrases, exclusions and facets
+import { compareKeys } from './pagination.js';
+
+// How much a match in each field counts; titles matter most
+export const FIELD_WEIGHTS = { title: 3, tags: 2, channelName: 1.5, description: 1 };
+const FIELDS = Object.keys(FIELD_WEIGHTS);
+
+// BM25 saturation and length normalisation
+const K1 = 1.2;
+const B = 0.75;
+// Score multiplier for a term matched with typos, by edit distance
+const FUZZY_PENALTY = [1, 0.6, 0.35];
+const SNIPPET_LENGTH = 160;
+
+export const DURATION_BUCKETS = {
+ short: { label: 'Under 4 minutes', max: 4 * 60 },
+ medium: { label: '4–20 minutes', min: 4 * 60, max: 20 * 60 },
+ long: { label: 'Over 20 minutes', min: 20 * 60 }
+};
+
+export const UPLOAD_DATE_WINDOWS = {
+ hour: 60 * 60 * 1000,
+ today: 24 * 60 * 60 * 1000,
+ week: 7 * 24 * 60 * 60 * 1000,
+ month: 30 * 24 * 60 * 60 * 1000,
+ year: 365 * 24 * 60 * 60 * 1000
+};
+
+export const VIDEO_TYPES = ['video', 'short', 'live'];
+export const SORT_ORDERS = ['relevance', 'uploadDate', 'viewCount'];
+
+const fold = (text) => text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+/** Words of `text` with where they start and end, for highlighting */
+const tokenizeWithOffsets = (text) => {
+ const tokens = [];
+ for (const match of String(text || '').matchAll(/[\p{L}\p{N}]+/gu)) {
+ tokens.push({ term: fold(match[0]), start: match.index, end: match.index + match[0].length });
+ }
+ return tokens;
+};
+
+export const tokenize = (text) => tokenizeWithOffsets(text).map(token => token.term);
+
+/** Damerau-Levenshtein distance, giving up once it exceeds `max` */
+export const editDistance = (a, b, max = 2) => {
+ if (Math.abs(a.length - b.length) > max) {
+ return max + 1;
+ }
+ let previousPrevious = null;
+ let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+ for (let i = 1; i <= a.length; i++) {
+ const current = [i];
+ let rowMin = i;
+ for (let j = 1; j <= b.length; j++) {
+ const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+ current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+ if (previousPrevious && i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+ current[j] = Math.min(current[j], previousPrevious[j - 2] + 1);
+ }
+ rowMin = Math.min(rowMin, current[j]);
+ }
+ if (rowMin > max) {
+ return max + 1;
+ }
+ previousPrevious = previous;
+ previous = current;
+ }
+ return previous[b.length];
+};
+
+// Longer words tolerate more typos; short ones must match exactly
+const allowedEdits = (term) => (term.length <= 3 ? 0 : term.length <= 6 ? 1 : 2);
+
+/**
+ * Splits a query into terms, `"quoted phrases"` and `-excluded` terms or
+ * phrases. Phrases must appear word for word; their words also count as
+ * terms for ranking.
+ */
+export const parseQuery = (query) => {
+ const parsed = { terms: [], phrases: [], excludeTerms: [], excludePhrases: [] };
+ for (const match of String(query || '').matchAll(/(-?)"([^"]*)"?|(-?)(\S+)/g)) {
+ const [, phraseNegation, phrase, termNegation, word] = match;
+ if (phrase !== undefined) {
+ const words = tokenize(phrase);
+ if (words.length === 0) {
+ continue;
+ }
+ if (phraseNegation) {
+ parsed.excludePhrases.push(words);
+ } else if (words.length === 1) {
+ parsed.terms.push(words[0]);
+ } else {
+ parsed.phrases.push(words);
+ parsed.terms.push(...words);
+ }
+ continue;
+ }
+ const words = tokenize(word);
+ if (termNegation && word.length > 1) {
+ // "-word" excludes; a lone "-" is just punctuation
+ parsed.excludeTerms.push(...words);
+ } else {
+ parsed.terms.push(...words);
+ }
+ }
+ parsed.terms = [...new Set(parsed.terms)];
+ return parsed;
+};
+
+const containsPhrase = (fieldTokens, phrase) => {
+ for (let i = 0; i + phrase.length <= fieldTokens.length; i++) {
+ if (phrase.every((word, offset) => fieldTokens[i + offset] === word)) {
+ return true;
+ }
+ }
+ return false;
+};
+
+/** Splits `text` into plain and highlighted segments; long text is cut to a window around the first match */
+const highlight = (text, matched, windowed) => {
+ const value = String(text || '');
+ const hits = tokenizeWithOffsets(value).filter(token => matched.has(token.term));
+ let from = 0;
+ let to = value.length;
+ if (windowed && value.length > SNIPPET_LENGTH) {
+ const anchor = hits[0]?.start ?? 0;
+ from = Math.max(0, anchor - SNIPPET_LENGTH / 4);
+ to = Math.min(value.length, from + SNIPPET_LENGTH);
+ // Don't cut words in half
+ while (from > 0 && /\S/.test(value[from - 1])) {
+ from -= 1;
+ }
+ while (to < value.length && /\S/.test(value[to])) {
+ to += 1;
+ }
+ }
+ const segments = [];
+ let cursor = from;
+ for (const hit of hits.filter(token => token.start >= from && token.end <= to)) {
+ if (hit.start > cursor) {
+ segments.push({ text: value.slice(cursor, hit.start), match: false });
+ }
+ segments.push({ text: value.slice(hit.start, hit.end), match: true });
+ cursor = hit.end;
+ }
+ if (cursor < to) {
+ segments.push({ text: value.slice(cursor, to), match: false });
+ }
+ if (from > 0) {
+ segments.unshift({ text: '…', match: false });
+ }
+ if (to < value.length) {
+ segments.push({ text: '…', match: false });
+ }
+ return segments;
+};
+
+const durationBucket = (seconds) =>
+ Object.keys(DURATION_BUCKETS).find(bucket => {
+ const { min = 0, max = Infinity } = DURATION_BUCKETS[bucket];
+ return seconds >= min && seconds < max;
+ });
+
+/**
+ * Creates an empty search index. Documents are
+ * `{ id, title, description, tags, channelName, category, type,
+ * durationSeconds, uploadedAt, viewCount, item }`, where `item` is what a
+ * hit returns.
+ *
+ * `search(query, { filters, sortBy, now })` ranks documents with BM25 over
+ * the weighted fields (a BM25F-style sum), matching each query term exactly
+ * or within one or two typos depending on its length. Every term has to
+ * match somewhere; quoted phrases have to appear as written, and excluded
+ * terms and phrases must not appear at all. Filters (`duration`,
+ * `uploadDate`, `videoType`, `category`) narrow the results, and `facets` counts
+ * what each filter value would leave, given the other filters.
+ */
+export const createSearchIndex = () => {
+ // id -> { doc, tokens: { field: string[] }, signature }
+ const documents = new Map();
+ // term -> Map(id -> { field: term frequency })
+ const postings = new Map();
+ const totalLengths = Object.fromEntries(FIELDS.map(field => [field, 0]));
+
+ const fieldText = (doc, field) => (field === 'tags' ? (doc.tags || []).join(' ') : doc[field] || '');
+
+ const remove = (id) => {
+ const entry = documents.get(id);
+ if (!entry) {
+ return;
+ }
+ for (const field of FIELDS) {
+ totalLengths[field] -= entry.tokens[field].length;
+ for (const term of new Set(entry.tokens[field])) {
+ const docs = postings.get(term);
+ docs?.delete(id);
+ if (docs?.size === 0) {
+ postings.delete(term);
+ }
+ }
+ }
+ documents.delete(id);
+ };
+
+ /** Adds or replaces a document; unchanged documents are left alone */
+ const upsert = (doc) => {
+ const signature = JSON.stringify({ ...doc, item: undefined });
+ if (documents.get(doc.id)?.signature === signature) {
+ return;
+ }
+ remove(doc.id);
+ const tokens = Object.fromEntries(FIELDS.map(field => [field, tokenize(fieldText(doc, field))]));
+ for (const field of FIELDS) {
+ totalLengths[field] += tokens[field].length;
+ for (const term of tokens[field]) {
+ if (!postings.has(term)) {
+ postings.set(term, new Map());
+ }
+ const frequencies = postings.get(term).get(doc.id) || {};
+ frequencies[field] = (frequencies[field] || 0) + 1;
+ postings.get(term).set(doc.id, frequencies);
+ }
+ }
+ documents.set(doc.id, { doc, tokens, signature });
+ };
+
+ // Indexed terms close enough to `term`, with their edit distance
+ const expand = (term) => {
+ const variants = new Map();
+ if (postings.has(term)) {
+ variants.set(term, 0);
+ }
+ const max = allowedEdits(term);
+ if (max > 0) {
+ for (const candidate of postings.keys()) {
+ if (candidate !== term && Math.abs(candidate.length - term.length) <= max) {
+ const distance = editDistance(term, candidate, max);
+ if (distance <= max) {
+ variants.set(candidate, distance);
+ }
+ }
+ }
+ }
+ return variants;
+ };
+
+ const idf = (term) => {
+ const n = postings.get(term)?.size || 0;
+ return Math.log(1 + (documents.size - n + 0.5) / (n + 0.5));
+ };
+
+ const bm25 = (term, id) => {
+ const frequencies = postings.get(term)?.get(id);
+ if (!frequencies) {
+ return 0;
+ }
+ const { tokens } = documents.get(id);
+ let score = 0;
+ for (const [field, frequency] of Object.entries(frequencies)) {
+ const averageLength = totalLengths[field] / documents.size || 1;
+ const norm = frequency + K1 * (1 - B + (B * tokens[field].length) / averageLength);
+ score += FIELD_WEIGHTS[field] * ((frequency * (K1 + 1)) / norm);
+ }
+ return idf(term) * score;
+ };
+
+ const hasTerm = (entry, term) => FIELDS.some(field => entry.tokens[field].includes(term));
+ const hasPhrase = (entry, phrase) => FIELDS.some(field => containsPhrase(entry.tokens[field], phrase));
+
+ const passes = (doc, filters, now, skip) =>
+ (skip === 'duration' || !filters.duration || durationBucket(doc.durationSeconds) === filters.duration) &&
+ (skip === 'uploadDate' || !filters.uploadDate || now - Date.parse(doc.uploadedAt) <= UPLOAD_DATE_WINDOWS[filters.uploadDate]) &&
+ (skip === 'videoType' || !filters.videoType || doc.type === filters.videoType) &&
+ (skip === 'category' || !filters.category || fold(doc.category || '') === fold(filters.category));
+
+ const facetsFor = (matches, filters, now) => {
+ const count = (skip, valueOf) => {
+ const counts = {};
+ for (const { doc } of matches) {
+ if (passes(doc, filters, now, skip)) {
+ for (const value of [valueOf(doc)].flat().filter(Boolean)) {
+ counts[value] = (counts[value] || 0) + 1;
+ }
+ }
+ }
+ return counts;
+ };
+ return {
+ duration: count('duration', doc => durationBucket(doc.durationSeconds)),
+ uploadDate: count('uploadDate', doc =>
+ Object.keys(UPLOAD_DATE_WINDOWS).filter(window => now - Date.parse(doc.uploadedAt) <= UPLOAD_DATE_WINDOWS[window])),
+ videoType: count('videoType', doc => doc.type),
+ category: count('category', doc => doc.category)
+ };
+ };
+
+ const search = (query, { filters = {}, sortBy = 'relevance', now = Date.now() } = {}) => {
+ const parsed = parseQuery(query);
+ const variants = parsed.terms.map(term => expand(term));
+
+ const matches = [];
+ for (const entry of documents.values()) {
+ const { id } = entry.doc;
+ if (parsed.excludeTerms.some(term => hasTerm(entry, term)) || parsed.excludePhrases.some(phrase => hasPhrase(entry, phrase))) {
+ continue;
+ }
+ if (!parsed.phrases.every(phrase => hasPhrase(entry, phrase))) {
+ continue;
+ }
+ let score = 0;
+ const matched = new Set();
+ let allTermsMatch = true;
+ for (const termVariants of variants) {
+ let best = 0;
+ for (const [variant, distance] of termVariants) {
+ const variantScore = bm25(variant, id) * FUZZY_PENALTY[distance];
+ if (variantScore > 0) {
+ matched.add(variant);
+ best = Math.max(best, variantScore);
+ }
+ }
+ if (best === 0) {
+ allTermsMatch = false;
+ break;
+ }
+ score += best;
+ }
+ if (allTermsMatch) {
+ matches.push({ doc: entry.doc, score, matched });
+ }
+ }
+
+ const facets = facetsFor(matches, filters, now);
+ const hits = matches
+ .filter(({ doc }) => passes(doc, filters, now))
+ .map(({ doc, score, matched }) => ({
+ id: doc.id,
+ score: Math.round(score * 1000) / 1000,
+ item: doc.item,
+ highlights: {
+ title: highlight(doc.title, matched, false),
+ description: highlight(doc.description, matched, true)
+ },
+ sortKey: sortBy === 'uploadDate'
+ ? [-Date.parse(doc.uploadedAt), doc.id]
+ : sortBy === 'viewCount'
+ ? [-(doc.viewCount || 0), doc.id]
+ // With nothing to rank by, newest first
+ : parsed.terms.length ? [-score, doc.id] : [-Date.parse(doc.uploadedAt), doc.id]
+ }))
+ .sort((a, b) => compareKeys(a.sortKey, b.sortKey));
+
+ return { hits, facets, query: parsed };
+ };
+
+ return {
+ upsert,
+ remove,
+ search,
+ get size() {
+ return documents.size;
+ }
+ };
+};
@@ -0,0 +1,293 @@
+// Search autocomplete: a prefix trie over anonymised queries and video titles, personal history and trending queries
+import crypto from 'crypto';
+import express from 'express';
+
+import { tokenize } from './searchIndex.js';
+import { createJsonStore, generateId } from './storage.js';
+
+// A query is only suggested to others once this many different people searched it
+const MIN_SEARCHERS = 3;
+// Trending scores halve every six hours
+const TREND_HALF_LIFE_MS = 6 * 60 * 60 * 1000;
+const MAX_LOGGED_QUERIES = 5000;
+const MAX_HISTORY = 100;
+const MAX_QUERY_LENGTH = 100;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 20;
+
+const sendError = (res, status, error, message) =>
+ res.status(status).json({ error, message, timestamp: new Date().toISOString() });
+
+const getUserId = (req) => req.get('x-user-id') || null;
+
+/** Lowercase, accent-free words separated by single spaces; how queries are compared and suggested */
+export const normalizeQuery = (query) => tokenize(String(query || '').slice(0, MAX_QUERY_LENGTH)).join(' ');
+
+const decayed = (score, since, now) => score * 0.5 ** ((now - since) / TREND_HALF_LIFE_MS);
+
+/**
+ * Prefix trie over phrases. Each phrase is reachable from the start of every
+ * one of its words, so "hooks" finds "react hooks".
+ */
+const createTrie = () => {
+ const root = { children: new Map(), phrases: new Set() };
+
+ const insert = (phrase) => {
+ const words = phrase.split(' ');
+ for (let start = 0; start < words.length; start++) {
+ let node = root;
+ for (const char of words.slice(start).join(' ')) {
+ if (!node.children.has(char)) {
+ node.children.set(char, { children: new Map(), phrases: new Set() });
+ }
+ node = node.children.get(char);
+ }
+ node.phrases.add(phrase);
+ }
+ };
+
+ // Every phrase under the prefix; they are all ranked, so none may be left out
+ const complete = (prefix) => {
+ let node = root;
+ for (const char of prefix) {
+ node = node.children.get(char);
+ if (!node) {
+ return [];
+ }
+ }
+ const found = new Set();
+ const stack = [node];
+ while (stack.length) {
+ const current = stack.pop();
+ current.phrases.forEach(phrase => found.add(phrase));
+ stack.push(...current.children.values());
+ }
+ return [...found];
+ };
+
+ return { insert, complete };
+};
+
+const matchesPrefix = (phrase, prefix) => phrase.startsWith(prefix) || phrase.includes(` ${prefix}`);
+
+/**
+ * Builds the autocomplete service behind the search bar.
+ *
+ * `POST /search/queries` records a submitted search. The shared query log
+ * only keeps the normalised query, how often and how recently it was
+ * searched, and (until `MIN_SEARCHERS` is reached) salted hashes to count
+ * distinct searchers; queries fewer people searched are never suggested to
+ * anyone else. Signed-in users also get the query in their own history,
+ * which they can list and delete entry by entry.
+ *
+ * `GET /search/suggestions?q=` completes the prefix from the user's history
+ * first, then from logged queries and `getTitles()` via a prefix trie,
+ * favouring queries trending now (scores decay with a six-hour half-life)
+ * and words the user searched before. `GET /search/trending` lists the
+ * queries trending now.
+ */
+export const createSearchSuggestionService = ({
+ getTitles = () => [],
+ store = createJsonStore('search-suggestions', { queries: {}, history: {} })
+} = {}) => {
+ // normalised query -> { count, trend, updatedAt, searchers: salted hashes, dropped once eligible }
+ const queries = () => store.data.queries;
+ // userId -> [{ id, query, searchedAt }], newest first
+ const histories = () => store.data.history;
+ // Only in memory, so stored hashes can't be checked against known user IDs
+ const salt = crypto.randomBytes(16).toString('hex');
+ // Hashes from before a restart used another salt and would count the same person again
+ for (const entry of Object.values(queries())) {
+ if (!entry.eligible) {
+ entry.searchers = [];
+ }
+ }
+
+ let trie = null;
+ let titleCounts = new Map();
+ const rebuild = () => {
+ trie = createTrie();
+ titleCounts = new Map();
+ for (const title of getTitles()) {
+ const phrase = normalizeQuery(title);
+ if (phrase) {
+ titleCounts.set(phrase, (titleCounts.get(phrase) || 0) + 1);
+ trie.insert(phrase);
+ }
+ }
+ Object.entries(queries())
+ .filter(([, entry]) => entry.eligible)
+ .forEach(([phrase]) => trie.insert(phrase));
+ };
+
+ const prune = (now) => {
+ const entries = Object.entries(queries());
+ if (entries.length <= MAX_LOGGED_QUERIES) {
+ return;
+ }
+ entries
+ .sort(([, a], [, b]) => decayed(a.trend, a.updatedAt, now) - decayed(b.trend, b.updatedAt, now))
+ .slice(0, entries.length - MAX_LOGGED_QUERIES)
+ .forEach(([phrase]) => delete queries()[phrase]);
+ trie = null;
+ };
+
+ const historyOf = (userId) => (userId ? histories()[userId] || [] : []);
+
+ /** Logs a submitted query; returns the user's new history entry, if signed in */
+ const record = (query, { userId = null, searcherId = userId, now = Date.now() } = {}) => {
+ const phrase = normalizeQuery(query);
+ if (!phrase) {
+ return null;
+ }
+
+ const entry = queries()[phrase] || { count: 0, trend: 0, updatedAt: now, searchers: [], eligible: false };
+ entry.trend = decayed(entry.trend, entry.updatedAt, now) + 1;
+ entry.updatedAt = now;
+ entry.count += 1;
+ if (!entry.eligible && searcherId) {
+ const hash = crypto.createHash('sha256').update(`${salt}:${searcherId}`).digest('hex').slice(0, 16);
+ if (!entry.searchers.includes(hash)) {
+ entry.searchers.push(hash);
+ }
+ if (entry.searchers.length >= MIN_SEARCHERS) {
+ entry.eligible = true;
+ entry.searchers = [];
+ trie?.insert(phrase);
+ }
+ }
+ queries()[phrase] = entry;
+ prune(now);
+
+ let historyEntry = null;
+ if (userId) {
+ historyEntry = { id: generateId('sh'), query: String(query).trim().slice(0, MAX_QUERY_LENGTH), searchedAt: new Date(now).toISOString() };
+ histories()[userId] = [historyEntry, ...historyOf(userId).filter(item => normalizeQuery(item.query) !== phrase)].slice(0, MAX_HISTORY);
+ }
+ store.save();
+ return historyEntry;
+ };
+
+ const trending = (limit = DEFAULT_LIMIT, now = Date.now()) =>
+ Object.entries(queries())
+ .filter(([, entry]) => entry.eligible)
+ .map(([phrase, entry]) => ({ query: phrase, score: Math.round(decayed(entry.trend, entry.updatedAt, now) * 1000) / 1000 }))
+ .filter(item => item.score >= 0.01)
+ .sort((a, b) => b.score - a.score || a.query.localeCompare(b.query))
+ .slice(0, limit);
+
+ const suggest = (query, { userId = null, limit = DEFAULT_LIMIT, now = Date.now() } = {}) => {
+ if (!trie) {
+ rebuild();
+ }
+ const prefix = normalizeQuery(query);
+ const history = historyOf(userId);
+
+ if (!prefix) {
+ const recent = history.slice(0, limit).map(item => ({ text: item.query, source: 'history', historyId: item.id }));
+ const seen = new Set(recent.map(item => normalizeQuery(item.text)));
+ const popular = trending(limit, now)
+ .filter(item => !seen.has(item.query))
+ .map(item => ({ text: item.query, source: 'trending' }));
+ return [...recent, ...popular].slice(0, limit);
+ }
+
+ const personal = history
+ .filter(item => matchesPrefix(normalizeQuery(item.query), prefix))
+ .slice(0, Math.ceil(limit / 2))
+ .map(item => ({ text: item.query, source: 'history', historyId: item.id }));
+ const seen = new Set(personal.map(item => normalizeQuery(item.text)));
+ // Words from the user's recent searches lift suggestions that share them
+ const interests = new Set(history.slice(0, 20).flatMap(item => normalizeQuery(item.query).split(' ')));
+
+ const ranked = trie
+ .complete(prefix)
+ .filter(phrase => !seen.has(phrase))
+ .map(phrase => {
+ const logged = queries()[phrase];
+ const trend = logged?.eligible ? decayed(logged.trend, logged.updatedAt, now) : 0;
+ const words = phrase.split(' ');
+ const score =
+ 2 * trend +
+ (logged?.eligible ? Math.log1p(logged.count) : 0) +
+ 0.5 * Math.log1p(titleCounts.get(phrase) || 0) +
+ (phrase.startsWith(prefix) ? 1 : 0) +
+ 0.5 * words.filter(word => interests.has(word)).length -
+ // Shorter completions first when all else is equal
+ 0.01 * words.length;
+ return { text: phrase, source: trend >= 0.5 ? 'trending' : logged?.eligible ? 'query' : 'title', score };
+ })
+ .sort((a, b) => b.score - a.score || a.text.localeCompare(b.text))
+ .map(({ text, source }) => ({ text, source }));
+
+ return [...personal, ...ranked].slice(0, limit);
+ };
+
+ const parseLimit = (value) => Math.min(MAX_LIMIT, Math.max(1, Number.parseInt(value, 10) || DEFAULT_LIMIT));
+
+ const router = express.Router();
+
+ router.get('/search/suggestions', (req, res) => {
+ res.json({ suggestions: suggest(req.query.q, { userId: getUserId(req), limit: parseLimit(req.query.limit) }) });
+ });
+
+ router.get('/search/trending', (req, res) => {
+ res.json({ queries: trending(parseLimit(req.query.limit)) });
+ });
+
+ router.post('/search/queries', (req, res) => {
+ const query = req.body?.query;
+ if (typeof query !== 'string' || !normalizeQuery(query)) {
+ return sendError(res, 400, 'Bad request', 'query must be a non-empty string');
+ }
+ const userId = getUserId(req);
+ const entry = record(query, { userId, searcherId: userId || req.ip });
+ if (!entry) {
+ return res.status(204).end();
+ }
+ res.status(201).json(entry);
+ });
+
+ router.get('/search/history', (req, res) => {
+ const userId = getUserId(req);
+ if (!userId) {
+ return sendError(res, 401, 'Unauthorized', 'Sign in to see your search history');
+ }
+ res.json({ history: historyOf(userId) });
+ });
+
+ router.delete('/search/history/:id', (req, res) => {
+ const userId = getUserId(req);
+ if (!userId) {
+ return sendError(res, 401, 'Unauthorized', 'Sign in to manage your search history');
+ }
+ const history = historyOf(userId);
+ if (!history.some(item => item.id === req.params.id)) {
+ return sendError(res, 404, 'Not found', 'No such search history entry');
+ }
+ histories()[userId] = history.filter(item => item.id !== req.params.id);
+ store.save();
+ res.status(204).end();
+ });
+
+ router.delete('/search/history', (req, res) => {
+ const userId = getUserId(req);
+ if (!userId) {
+ return sendError(res, 401, 'Unauthorized', 'Sign in to manage your search history');
+ }
+ delete histories()[userId];
+ store.save();
+ res.status(204).end();
+ });
+
+ return {
+ router,
+ record,
+ suggest,
+ trending,
+ // For when `getTitles()` changes
+ refresh: () => {
+ trie = null;
+ }
+ };
+};
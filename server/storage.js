@@ -0,0 +1,48 @@
+// JSON file persistence for the development server
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DATA_DIR = process.env.DEV_SERVER_DATA_DIR || path.join(__dirname, 'data');
+
+/**
+ * Creates a small document store backed by `<DATA_DIR>/<name>.json`.
+ * State is loaded once and written back atomically on every `save()`,
+ * so it survives dev-server restarts.
+ */
+export const createJsonStore = (name, defaults) => {
+ const filePath = path.join(DATA_DIR, `${name}.json`);
+ let data = structuredClone(defaults);
+
+ try {
+ if (fs.existsSync(filePath)) {
+ data = { ...data, ...JSON.parse(fs.readFileSync(filePath, 'utf8')) };
+ }
+ } catch (error) {
+ console.error(`Failed to load ${filePath}, starting empty:`, error.message);
+ }
+
+ const save = () => {
+ fs.mkdirSync(DATA_DIR, { recursive: true });
+ const tmpPath = `${filePath}.tmp`;
+ fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+ fs.renameSync(tmpPath, filePath);
+ };
+
+ return {
+ get data() {
+ return data;
+ },
+ save,
+ reset() {
+ data = structuredClone(defaults);
+ save();
+ }
+ };
+};
+
+export const generateId = (prefix) =>
+ `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,365 @@
+// Stream analytics: per-second viewers, chat, revenue and joins/leaves for each broadcast, with post-stream reports
+import fs from 'fs';
+import path from 'path';
+import express from 'express';
+
+import { DATA_DIR, createJsonStore, generateId } from './storage.js';
+
+export const ANALYTICS_DIR = path.join(DATA_DIR, 'stream-analytics');
+
+const SAMPLE_MS = 1000;
+// Samples are appended to disk in batches rather than every second
+const FLUSH_MS = 5000;
+// Bucket sizes in seconds; a query uses the smallest one that keeps it under MAX_POINTS
+const RESOLUTIONS = [1, 5, 10, 30, 60, 300, 900];
+const MAX_POINTS = 720;
+// Previous broadcasts a report is compared against
+const COMPARE_LIMIT = 10;
+const COMPARED_METRICS = ['durationSeconds', 'peakViewers', 'averageViewers', 'uniqueViewers', 'chatPerMinute', 'revenueCents'];
+
+// Fields of one per-second sample, stored as a JSON array per line
+const FIELDS = ['t', 'viewers', 'chat', 'revenue', 'joins', 'leaves'];
+
+const getUserId = (req) => req.get('x-user-id') || null;
+
+const sendError = (res, status, error, message) =>
+ res.status(status).json({ error, message, timestamp: new Date().toISOString() });
+
+const round = (value, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+const toSample = (row) => Object.fromEntries(FIELDS.map((field, index) => [field, row[index]]));
+
+const pickResolution = (seconds, requested) => {
+ const fits = RESOLUTIONS.filter(resolution => seconds / resolution <= MAX_POINTS);
+ if (RESOLUTIONS.includes(requested) && fits.includes(requested)) {
+ return requested;
+ }
+ return fits[0] ?? RESOLUTIONS[RESOLUTIONS.length - 1];
+};
+
+/** Buckets samples `resolution` seconds wide: viewers are averaged (and their peak kept), counts summed */
+const downsample = (samples, resolution) => {
+ const buckets = new Map();
+ for (const sample of samples) {
+ const t = Math.floor(sample.t / resolution) * resolution;
+ const bucket = buckets.get(t) || { t, viewerTotal: 0, count: 0, peakViewers: 0, chatMessages: 0, revenueCents: 0, joins: 0, leaves: 0 };
+ bucket.viewerTotal += sample.viewers;
+ bucket.count += 1;
+ bucket.peakViewers = Math.max(bucket.peakViewers, sample.viewers);
+ bucket.chatMessages += sample.chat;
+ bucket.revenueCents += sample.revenue;
+ bucket.joins += sample.joins;
+ bucket.leaves += sample.leaves;
+ buckets.set(t, bucket);
+ }
+ return [...buckets.values()].map(({ viewerTotal, count, ...bucket }) => ({ ...bucket, viewers: round(viewerTotal / count) }));
+};
+
+const summarize = (samples, durationSeconds, uniqueViewers) => {
+ const peak = samples.reduce((best, sample) => (sample.viewers > (best?.viewers ?? -1) ? sample : best), null);
+ const total = (field) => samples.reduce((sum, sample) => sum + sample[field], 0);
+ const viewerSeconds = total('viewers');
+ const chatMessages = total('chat');
+ return {
+ durationSeconds,
+ peakViewers: peak?.viewers ?? 0,
+ peakAt: peak?.t ?? 0,
+ averageViewers: samples.length ? round(viewerSeconds / samples.length) : 0,
+ uniqueViewers,
+ watchMinutes: round(viewerSeconds / 60),
+ chatMessages,
+ chatPerMinute: durationSeconds ? round(chatMessages / (durationSeconds / 60)) : 0,
+ revenueCents: total('revenue'),
+ joins: total('joins'),
+ leaves: total('leaves')
+ };
+};
+
+/** The busiest minute for viewers, chat and revenue */
+const findMoments = (samples) => {
+ const minutes = downsample(samples, 60);
+ const top = (field) => minutes.reduce((best, minute) => (minute[field] > (best?.[field] ?? 0) ? minute : best), null);
+ const moment = (minute, field) => (minute ? { t: minute.t, value: minute[field] } : null);
+ return {
+ peakViewers: moment(top('peakViewers'), 'peakViewers'),
+ busiestChat: moment(top('chatMessages'), 'chatMessages'),
+ topRevenue: moment(top('revenueCents'), 'revenueCents')
+ };
+};
+
+/**
+ * Builds the stream analytics service. Between `start(streamId, startedAt)`
+ * and `stop(streamId, endedAt)` a broadcast gets one sample per second:
+ * the concurrent viewer count from `getViewerCount(streamId)` and how many
+ * chat messages, joins, leaves and cents of Super Chat revenue were recorded
+ * for it during that second.
+ *
+ * Samples are appended to `<DATA_DIR>/stream-analytics/<sessionId>.jsonl`,
+ * one broadcast (session) per file, and downsampled when read so that long
+ * ranges stay a few hundred points. When a broadcast ends its summary is kept
+ * with the session, which is what reports compare the creator's broadcasts by.
+ *
+ * The service is also a live chat extension: it counts the stream's chat
+ * messages and its viewers joining and leaving.
+ */
+export const createStreamAnalyticsService = ({
+ getStreamOwnerId,
+ getStream = () => null,
+ getViewerCount = () => 0,
+ store = createJsonStore('stream-analytics', { sessions: {} })
+}) => {
+ // streamId -> the broadcast being sampled
+ const live = new Map();
+
+ const sessions = () => store.data.sessions;
+ const fileFor = (sessionId) => path.join(ANALYTICS_DIR, `${sessionId}.jsonl`);
+
+ const readSamples = (session) => {
+ const current = live.get(session.streamId);
+ if (current?.sessionId === session.id) {
+ return current.samples;
+ }
+ try {
+ return fs.readFileSync(fileFor(session.id), 'utf8')
+ .split('\n')
+ .filter(Boolean)
+ .map(line => toSample(JSON.parse(line)));
+ } catch {
+ return [];
+ }
+ };
+
+ const flush = (current) => {
+ if (current.pending.length === 0) {
+ return;
+ }
+ // Rows that fail to write stay pending and are retried with the next batch
+ try {
+ fs.mkdirSync(ANALYTICS_DIR, { recursive: true });
+ fs.appendFileSync(fileFor(current.sessionId), current.pending.map(row => `${JSON.stringify(row)}\n`).join(''));
+ current.pending = [];
+ } catch (error) {
+ console.error(`Failed to write analytics for ${current.sessionId}:`, error.message);
+ }
+ };
+
+ const finish = (session, samples, endedAt, uniqueViewers) => {
+ session.endedAt = endedAt;
+ const durationSeconds = Math.max(0, Math.round((Date.parse(endedAt) - Date.parse(session.startedAt)) / 1000));
+ session.summary = summarize(samples, durationSeconds, uniqueViewers);
+ store.save();
+ };
+
+ // Broadcasts cut short by a restart end at their last sample; who watched them is lost with the process
+ for (const session of Object.values(sessions())) {
+ if (!session.endedAt) {
+ const samples = readSamples(session);
+ const lastT = samples.length ? samples[samples.length - 1].t : 0;
+ finish(session, samples, new Date(Date.parse(session.startedAt) + lastT * 1000).toISOString(), 0);
+ }
+ }
+
+ // Timer ticks drift, so each sample takes the second after the last one rather than reading the clock
+ const sample = (streamId, current, now = Date.now()) => {
+ const { counts } = current;
+ const t = current.nextT ?? Math.max(0, Math.floor((now - current.startMs) / 1000));
+ current.nextT = t + 1;
+ const row = [
+ t,
+ getViewerCount(streamId),
+ counts.chat,
+ counts.revenue,
+ counts.joins,
+ counts.leaves
+ ];
+ current.counts = { chat: 0, revenue: 0, joins: 0, leaves: 0 };
+ current.samples.push(toSample(row));
+ current.pending.push(row);
+ if (now - current.flushedAt >= FLUSH_MS) {
+ current.flushedAt = now;
+ flush(current);
+ }
+ };
+
+ const tick = () => {
+ for (const [streamId, current] of live) {
+ sample(streamId, current);
+ }
+ };
+ const timer = setInterval(tick, SAMPLE_MS);
+ timer.unref?.();
+
+ const count = (streamId, field, amount = 1) => {
+ const current = live.get(streamId);
+ if (current) {
+ current.counts[field] += amount;
+ }
+ };
+
+ const start = (streamId, startedAt = new Date().toISOString()) => {
+ if (live.has(streamId)) {
+ return;
+ }
+ const stream = getStream(streamId);
+ const session = {
+ id: generateId('session'),
+ streamId,
+ ownerId: getStreamOwnerId(streamId),
+ title: stream?.title || 'Live stream',
+ startedAt,
+ endedAt: null,
+ summary: null
+ };
+ sessions()[session.id] = session;
+ store.save();
+ live.set(streamId, {
+ sessionId: session.id,
+ startMs: Date.parse(startedAt),
+ samples: [],
+ pending: [],
+ flushedAt: Date.now(),
+ nextT: null,
+ counts: { chat: 0, revenue: 0, joins: 0, leaves: 0 },
+ viewers: new Set()
+ });
+ };
+
+ const stop = (streamId, endedAt = new Date().toISOString()) => {
+ const current = live.get(streamId);
+ if (!current) {
+ return;
+ }
+ sample(streamId, current);
+ live.delete(streamId);
+ flush(current);
+ finish(sessions()[current.sessionId], current.samples, endedAt, current.viewers.size);
+ };
+
+ const latestFor = (streamId) =>
+ Object.values(sessions())
+ .filter(session => session.streamId === streamId)
+ .sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0] || null;
+
+ const summaryOf = (session, samples) => {
+ if (session.summary) {
+ return session.summary;
+ }
+ const current = live.get(session.streamId);
+ return summarize(samples, Math.round((Date.now() - Date.parse(session.startedAt)) / 1000), current?.viewers.size ?? 0);
+ };
+
+ // The creator's earlier broadcasts and how this one did against their average
+ const compare = (session) => {
+ const previous = Object.values(sessions())
+ .filter(other => other.ownerId === session.ownerId && other.id !== session.id && other.summary && other.startedAt < session.startedAt)
+ .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+ .slice(0, COMPARE_LIMIT);
+ const metrics = {};
+ for (const metric of COMPARED_METRICS) {
+ const value = session.summary[metric];
+ const average = previous.length
+ ? round(previous.reduce((sum, other) => sum + other.summary[metric], 0) / previous.length)
+ : null;
+ metrics[metric] = { value, previousAverage: average, change: average ? round((value - average) / average, 3) : null };
+ }
+ return {
+ metrics,
+ previous: previous.map(other => ({
+ sessionId: other.id,
+ streamId: other.streamId,
+ title: other.title,
+ startedAt: other.startedAt,
+ endedAt: other.endedAt,
+ summary: other.summary
+ }))
+ };
+ };
+
+ // The requested session, or the stream's latest; only the stream's owner may look
+ const findOwned = (req, res) => {
+ if (!getUserId(req) || getUserId(req) !== getStreamOwnerId(req.params.id)) {
+ sendError(res, 403, 'Forbidden', 'Only the stream owner can see its analytics');
+ return null;
+ }
+ const session = req.query.session ? sessions()[req.query.session] : latestFor(req.params.id);
+ if (!session || session.streamId !== req.params.id) {
+ sendError(res, 404, 'Not found', 'This stream has no analytics yet');
+ return null;
+ }
+ return session;
+ };
+
+ const router = express.Router();
+
+ // Time series for charts. `range` is the trailing window in seconds (the whole broadcast by default);
+ // `resolution` asks for a bucket size, which is raised if the window would have too many points
+ router.get('/live/streams/:id/analytics', (req, res) => {
+ const session = findOwned(req, res);
+ if (!session) {
+ return;
+ }
+ const samples = readSamples(session);
+ const lastT = samples.length ? samples[samples.length - 1].t : 0;
+ const range = Number(req.query.range) > 0 ? Math.min(Number(req.query.range), lastT + 1) : lastT + 1;
+ const from = Math.max(0, lastT + 1 - range);
+ const resolution = pickResolution(range, Number(req.query.resolution));
+
+ res.json({
+ sessionId: session.id,
+ streamId: session.streamId,
+ isLive: !session.endedAt,
+ startedAt: session.startedAt,
+ endedAt: session.endedAt,
+ resolution,
+ from,
+ to: lastT,
+ points: downsample(samples.filter(sample => sample.t >= from), resolution),
+ summary: summaryOf(session, samples)
+ });
+ });
+
+ // The full post-stream report, once the broadcast has ended
+ router.get('/live/streams/:id/analytics/report', (req, res) => {
+ const session = findOwned(req, res);
+ if (!session) {
+ return;
+ }
+ if (!session.endedAt) {
+ return sendError(res, 409, 'Conflict', 'The report is ready when the stream ends');
+ }
+ const samples = readSamples(session);
+ const resolution = pickResolution(session.summary.durationSeconds);
+
+ res.json({
+ sessionId: session.id,
+ streamId: session.streamId,
+ title: session.title,
+ startedAt: session.startedAt,
+ endedAt: session.endedAt,
+ summary: session.summary,
+ resolution,
+ points: downsample(samples, resolution),
+ moments: findMoments(samples),
+ comparison: compare(session)
+ });
+ });
+
+ return {
+ router,
+ start,
+ stop,
+ /** Adds a paid message's amount in US cents to the current second */
+ recordRevenue: (streamId, amountCents) => count(streamId, 'revenue', amountCents),
+ // Live chat extension hooks
+ onMessage: (streamId) => count(streamId, 'chat'),
+ onConnect: ({ streamId, viewer }) => {
+ count(streamId, 'joins');
+ live.get(streamId)?.viewers.add(viewer.userId);
+ },
+ onDisconnect: ({ streamId }) => count(streamId, 'leaves'),
+ close: () => {
+ clearInterval(timer);
+ [...live.keys()].forEach(streamId => stop(streamId));
+ }
+ };
+};
@@ -0,0 +1,279 @@
+// Scheduled streams: viewer reminders, missed-slot handling and iCalendar export
+import express from 'express';
+
+import { createJsonStore } from './storage.js';
+
+// Minutes before the scheduled start a viewer can be reminded at
+export const REMINDER_OFFSETS = [0, 5, 10, 15, 30, 60, 1440];
+const DEFAULT_OFFSETS = [15, 0];
+const SWEEP_MS = 30000;
+// Calendar events need an end; streams have no planned length
+const EVENT_MINUTES = 60;
+
+const getUserId = (req) => req.get('x-user-id') || null;
+
+const sendError = (res, status, error, message) =>
+ res.status(status).json({ error, message, timestamp: new Date().toISOString() });
+
+const describeOffset = (minutes) => {
+ if (minutes === 0) {
+ return 'now';
+ }
+ if (minutes % 1440 === 0) {
+ return `in ${minutes / 1440} day${minutes === 1440 ? '' : 's'}`;
+ }
+ return minutes % 60 === 0 ? `in ${minutes / 60} hour${minutes === 60 ? '' : 's'}` : `in ${minutes} minutes`;
+};
+
+// iCalendar (RFC 5545) text values escape these; lines end in CRLF and fold at 75 octets
+const escapeText = (value) => String(value).replace(/[\\;,]/g, match => `\\${match}`).replace(/\r?\n/g, '\\n');
+
+const foldLine = (line) => {
+ const parts = [];
+ let current = '';
+ // Continuation lines start with a space, which counts
+ let limit = 75;
+ for (const char of line) {
+ if (Buffer.byteLength(current + char) > limit) {
+ parts.push(current);
+ current = '';
+ limit = 74;
+ }
+ current += char;
+ }
+ parts.push(current);
+ return parts.join('\r\n ');
+};
+
+const toIcsDate = (date) => new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const toCalendar = (name, events) =>
+ [
+ 'BEGIN:VCALENDAR',
+ 'VERSION:2.0',
+ 'PRODID:-//ytmain//Live schedule//EN',
+ 'CALSCALE:GREGORIAN',
+ 'METHOD:PUBLISH',
+ `X-WR-CALNAME:${escapeText(name)}`,
+ ...events.flatMap(({ stream, url }) => [
+ 'BEGIN:VEVENT',
+ `UID:${stream.id}@live-streams`,
+ `DTSTAMP:${toIcsDate(stream.updatedAt || stream.createdAt)}`,
+ `DTSTART:${toIcsDate(stream.scheduledStartTime)}`,
+ `DTEND:${toIcsDate(Date.parse(stream.scheduledStartTime) + EVENT_MINUTES * 60000)}`,
+ `SUMMARY:${escapeText(stream.title)}`,
+ ...(stream.description ? [`DESCRIPTION:${escapeText(stream.description)}`] : []),
+ `URL:${url}`,
+ `ORGANIZER;CN="${String(stream.creatorName).replace(/"/g, '')}":urn:user:${encodeURIComponent(stream.creatorId)}`,
+ 'END:VEVENT'
+ ]),
+ 'END:VCALENDAR'
+ ]
+ .map(foldLine)
+ .join('\r\n') + '\r\n';
+
+const sendCalendar = (res, fileName, calendar) => {
+ res.set('Content-Type', 'text/calendar; charset=utf-8');
+ res.set('Content-Disposition', `attachment; filename="${fileName}"`);
+ res.send(calendar);
+};
+
+/**
+ * Builds the schedule service for streams made through `liveStreams`.
+ *
+ * Viewers ask to be notified about an upcoming stream, at offsets (minutes
+ * before the scheduled start) of their choosing; reminders go out through
+ * `notify(userId, notification)`, and everyone still waiting hears when the
+ * stream goes live (`handleLive`). A stream that has not started
+ * `missedAfterMinutes` after its slot is marked ended.
+ */
+export const createStreamScheduleService = ({
+ liveStreams,
+ notify,
+ isLive = () => false,
+ missedAfterMinutes = 60,
+ store = createJsonStore('stream-reminders', { streams: {} })
+}) => {
+ // streamId -> { scheduledFor, subscribers: { userId -> { offsets, sent, createdAt } } }
+ const reminders = () => store.data.streams;
+
+ const remindersFor = (stream) => {
+ const entry = (reminders()[stream.id] ??= { scheduledFor: stream.scheduledStartTime, subscribers: {} });
+ // A rescheduled stream reminds everyone again
+ if (entry.scheduledFor !== stream.scheduledStartTime) {
+ entry.scheduledFor = stream.scheduledStartTime;
+ for (const subscriber of Object.values(entry.subscribers)) {
+ subscriber.sent = alreadyDue(stream, subscriber.offsets);
+ }
+ }
+ return entry;
+ };
+
+ // Offsets whose moment passed before the viewer could have been told
+ const alreadyDue = (stream, offsets, now = Date.now()) =>
+ offsets.filter(offset => now >= Date.parse(stream.scheduledStartTime) - offset * 60000 && offset > 0);
+
+ const isUpcoming = (stream) => stream.status === 'scheduled' && Boolean(stream.scheduledStartTime) && !isLive(stream.id);
+
+ const visibleTo = (stream, userId) => stream && (stream.visibility !== 'private' || stream.creatorId === userId);
+
+ const streamUrl = (req, streamId) => `${req.protocol}://${req.get('host')}/live/${encodeURIComponent(streamId)}`;
+
+ const remind = (stream, userId, offset) =>
+ notify(userId, {
+ type: 'live_stream',
+ title: offset === 0 ? `${stream.creatorName} is starting now` : `${stream.creatorName} goes live ${describeOffset(offset)}`,
+ message: stream.title,
+ actionUrl: `/live/${stream.id}`,
+ thumbnail: stream.thumbnailUrl || undefined,
+ metadata: { streamId: stream.id, scheduledStartTime: stream.scheduledStartTime },
+ dedupeKey: `reminder:${stream.id}:${stream.scheduledStartTime}:${offset}`
+ });
+
+ /** Sends due reminders and ends streams whose slot was missed */
+ const sweep = (now = Date.now()) => {
+ for (const stream of liveStreams.getStreams().filter(isUpcoming)) {
+ const startMs = Date.parse(stream.scheduledStartTime);
+ if (now > startMs + missedAfterMinutes * 60000) {
+ liveStreams.markEnded(stream.id, { endedAt: new Date(now).toISOString(), reason: 'missed' });
+ delete reminders()[stream.id];
+ store.save();
+ continue;
+ }
+ if (!reminders()[stream.id]) {
+ continue;
+ }
+ const entry = remindersFor(stream);
+ for (const [userId, subscriber] of Object.entries(entry.subscribers)) {
+ const due = subscriber.offsets.filter(offset => !subscriber.sent.includes(offset) && now >= startMs - offset * 60000);
+ if (due.length === 0) {
+ continue;
+ }
+ // Only the latest reminder is worth sending when several fell due together
+ remind(stream, userId, Math.min(...due));
+ subscriber.sent.push(...due);
+ }
+ store.save();
+ }
+ };
+
+ const timer = setInterval(() => sweep(), SWEEP_MS);
+ timer.unref?.();
+
+ /** Tells everyone who asked to be reminded that the stream is live, then forgets them */
+ const handleLive = (streamId) => {
+ const stream = liveStreams.getStream(streamId);
+ const entry = reminders()[streamId];
+ if (!stream || !entry) {
+ return;
+ }
+ for (const userId of Object.keys(entry.subscribers)) {
+ notify(userId, {
+ type: 'live_stream',
+ title: `${stream.creatorName} is live`,
+ message: stream.title,
+ actionUrl: `/live/${stream.id}`,
+ thumbnail: stream.thumbnailUrl || undefined,
+ metadata: { streamId: stream.id },
+ dedupeKey: `live:${stream.id}:${stream.scheduledStartTime}`
+ });
+ }
+ delete reminders()[streamId];
+ store.save();
+ };
+
+ const presentReminder = (stream, userId) => {
+ const entry = reminders()[stream.id];
+ const subscriber = userId ? entry?.subscribers[userId] : null;
+ return {
+ streamId: stream.id,
+ subscribed: Boolean(subscriber),
+ offsets: subscriber?.offsets ?? DEFAULT_OFFSETS,
+ availableOffsets: REMINDER_OFFSETS,
+ subscriberCount: entry ? Object.keys(entry.subscribers).length : 0
+ };
+ };
+
+ const router = express.Router();
+
+ router.get('/live/streams/:id/reminder', (req, res) => {
+ const stream = liveStreams.getStream(req.params.id);
+ if (!visibleTo(stream, getUserId(req))) {
+ return sendError(res, 404, 'Not found', 'Live stream not found');
+ }
+ res.json(presentReminder(stream, getUserId(req)));
+ });
+
+ // Subscribes the signed-in viewer, or changes when they are reminded
+ router.put('/live/streams/:id/reminder', (req, res) => {
+ const userId = getUserId(req);
+ if (!userId) {
+ return sendError(res, 401, 'Unauthorized', 'Sign in to get reminders');
+ }
+ const stream = liveStreams.getStream(req.params.id);
+ if (!visibleTo(stream, userId)) {
+ return sendError(res, 404, 'Not found', 'Live stream not found');
+ }
+ if (!isUpcoming(stream)) {
+ return sendError(res, 409, 'Conflict', 'Only upcoming scheduled streams have reminders');
+ }
+ const requested = req.body?.offsets ?? DEFAULT_OFFSETS;
+ const offsets = Array.isArray(requested) ? [...new Set(requested.map(Number))].sort((a, b) => b - a) : [];
+ if (offsets.length === 0 || offsets.some(offset => !REMINDER_OFFSETS.includes(offset))) {
+ return sendError(res, 400, 'Bad request', `offsets must be minutes from: ${REMINDER_OFFSETS.join(', ')}`);
+ }
+
+ const entry = remindersFor(stream);
+ const existing = entry.subscribers[userId];
+ entry.subscribers[userId] = {
+ offsets,
+ // Keep what was sent; don't send reminders for moments already gone
+ sent: [...new Set([...(existing?.sent ?? []), ...alreadyDue(stream, offsets)])],
+ createdAt: existing?.createdAt ?? new Date().toISOString()
+ };
+ store.save();
+ res.status(existing ? 200 : 201).json(presentReminder(stream, userId));
+ });
+
+ router.delete('/live/streams/:id/reminder', (req, res) => {
+ const userId = getUserId(req);
+ if (!userId) {
+ return sendError(res, 401, 'Unauthorized', 'Sign in to manage reminders');
+ }
+ const entry = reminders()[req.params.id];
+ if (entry?.subscribers[userId]) {
+ delete entry.subscribers[userId];
+ store.save();
+ }
+ res.status(204).end();
+ });
+
+ // "Add to calendar" for one upcoming stream
+ router.get('/live/streams/:id/calendar.ics', (req, res) => {
+ const stream = liveStreams.getStream(req.params.id);
+ if (!visibleTo(stream, getUserId(req)) || !stream.scheduledStartTime) {
+ return sendError(res, 404, 'Not found', 'Scheduled stream not found');
+ }
+ sendCalendar(res, `${stream.id}.ics`, toCalendar(stream.title, [{ stream, url: streamUrl(req, stream.id) }]));
+ });
+
+ // A creator's upcoming streams; public ones only, unless the creator asks
+ router.get('/live/creators/:creatorId/schedule.ics', (req, res) => {
+ const { creatorId } = req.params;
+ const isCreator = getUserId(req) === creatorId;
+ const upcoming = liveStreams
+ .getStreams()
+ .filter(stream => stream.creatorId === creatorId && isUpcoming(stream))
+ .filter(stream => isCreator || stream.visibility === 'public')
+ .sort((a, b) => a.scheduledStartTime.localeCompare(b.scheduledStartTime));
+ const name = `${upcoming[0]?.creatorName ?? creatorId} live schedule`;
+ sendCalendar(res, 'live-schedule.ics', toCalendar(name, upcoming.map(stream => ({ stream, url: streamUrl(req, stream.id) }))));
+ });
+
+ return {
+ router,
+ sweep,
+ handleLive,
+ close: () => clearInterval(timer)
+ };
+};
@@ -0,0 +1,412 @@
+// Super Chat and membership ledger: paid messages, per-stream revenue, goals and statements
+import express from 'express';
+
+import { PaymentError } from './payments.js';
+import { createJsonStore, generateId } from './storage.js';
+
+/**
+ * Tiers by amount in USD: the highlight color, how long the Super Chat stays
+ * pinned above chat, and how long its message may be.
+ */
+export const SUPER_CHAT_TIERS = [
+ { minUsd: 1, color: '#1E88E5', pinSeconds: 0, maxMessageLength: 0 },
+ { minUsd: 2, color: '#00E5FF', pinSeconds: 0, maxMessageLength: 50 },
+ { minUsd: 5, color: '#1DE9B6', pinSeconds: 2 * 60, maxMessageLength: 150 },
+ { minUsd: 10, color: '#FFCA28', pinSeconds: 5 * 60, maxMessageLength: 200 },
+ { minUsd: 20, color: '#F57C00', pinSeconds: 10 * 60, maxMessageLength: 225 },
+ { minUsd: 50, color: '#E91E63', pinSeconds: 30 * 60, maxMessageLength: 250 },
+ { minUsd: 100, color: '#E62117', pinSeconds: 60 * 60, maxMessageLength: 270 },
+ { minUsd: 200, color: '#E62117', pinSeconds: 2 * 60 * 60, maxMessageLength: 290 },
+ { minUsd: 300, color: '#E62117', pinSeconds: 3 * 60 * 60, maxMessageLength: 310 },
+ { minUsd: 400, color: '#E62117', pinSeconds: 4 * 60 * 60, maxMessageLength: 330 },
+ { minUsd: 500, color: '#E62117', pinSeconds: 5 * 60 * 60, maxMessageLength: 350 }
+];
+
+const MAX_SUPER_CHAT_USD = 500;
+
+// Fixed conversion rates to USD; tiers, totals and goals are all counted in USD
+export const CURRENCY_RATES = { USD: 1, EUR: 1.08, GBP: 1.27, CAD: 0.73, AUD: 0.66 };
+
+export const MEMBERSHIP_LEVELS = [
+ { id: 'supporter', level: 'Supporter', priceUsd: 4.99, badge: '⭐', perks: 'Loyalty badge and custom emoji' },
+ { id: 'superfan', level: 'Superfan', priceUsd: 9.99, badge: '💎', perks: 'Supporter perks plus members-only streams' },
+ { id: 'champion', level: 'Champion', priceUsd: 24.99, badge: '👑', perks: 'Superfan perks plus monthly live hangout' }
+];
+
+// The platform's share of every payment
+const PLATFORM_FEE_RATE = 0.3;
+
+const RECENT_SUPER_CHATS = 100;
+
+const getUserId = (req) => req.get('x-user-id') || null;
+
+const sendError = (res, status, error, message, extra = {}) =>
+ res.status(status).json({ error, message, ...extra, timestamp: new Date().toISOString() });
+
+export const tierFor = (amountUsd) =>
+ [...SUPER_CHAT_TIERS].reverse().find(tier => amountUsd >= tier.minUsd) || null;
+
+const toUsdCents = (amountCents, currency) => Math.round(amountCents * CURRENCY_RATES[currency]);
+
+const dollars = (cents) => Math.round(cents) / 100;
+
+const parseDate = (value, fallback) => {
+ const time = value ? Date.parse(value) : NaN;
+ return Number.isNaN(time) ? fallback : time;
+};
+
+/** A ledger entry in the shape of the client's `SuperChat` type */
+const toSuperChat = (entry) => ({
+ id: entry.id,
+ userId: entry.userId,
+ username: entry.username,
+ amount: dollars(entry.amount),
+ currency: entry.currency,
+ message: entry.message,
+ timestamp: entry.createdAt,
+ color: entry.color,
+ duration: entry.pinSeconds
+});
+
+// Spreadsheets run cells that start like a formula, so those are quoted as text
+const csvCell = (value) => {
+ const raw = value === undefined || value === null ? '' : String(value);
+ const text = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+ return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Sums entries into gross, fee and net USD cents, split by kind.
+ */
+const summarize = (entries) => {
+ const totals = { gross: 0, fees: 0, net: 0, superChats: 0, memberships: 0, count: entries.length };
+ for (const entry of entries) {
+ totals.gross += entry.amountUsd;
+ totals.fees += entry.feeUsd;
+ totals.net += entry.netUsd;
+ totals[entry.type === 'membership' ? 'memberships' : 'superChats'] += entry.amountUsd;
+ }
+ return Object.fromEntries(Object.entries(totals).map(([key, value]) => [key, key === 'count' ? value : dollars(value)]));
+};
+
+/**
+ * Builds the Super Chat router. Viewers buy Super Chats and memberships on a
+ * stream through `payments` (see `createMockPaymentProvider`); every payment
+ * is recorded once in an append-only ledger, from which per-stream revenue,
+ * the channel's earnings and CSV statements are derived.
+ *
+ * `getStreamOwnerId(streamId)` names the channel that earns from a stream;
+ * only it may see the stream's revenue or set its goal. `getStream(streamId)`
+ * looks a stream up; payments are only taken while it is live. `isBlocked(streamId,
+ * userId)` refuses viewers banned from the stream's chat. `onEntry(entry,
+ * superChat)` and `onGoal(streamId, goal)` report new payments and goal
+ * changes so they can be shown live.
+ */
+export const createSuperChatRouter = ({
+ getStreamOwnerId,
+ getStream,
+ payments,
+ isBlocked = () => false,
+ onEntry = () => {},
+ onGoal = () => {},
+ store = createJsonStore('super-chats', { entries: [], goals: {} })
+}) => {
+ const router = express.Router();
+
+ const streamEntries = (streamId) => store.data.entries.filter(entry => entry.streamId === streamId);
+
+ const goalWithProgress = (streamId) => {
+ const goal = store.data.goals[streamId];
+ if (!goal) {
+ return null;
+ }
+ const since = Date.parse(goal.createdAt);
+ const raised = streamEntries(streamId)
+ .filter(entry => Date.parse(entry.createdAt) >= since)
+ .reduce((total, entry) => total + entry.amountUsd, 0);
+ return {
+ ...goal,
+ raisedAmount: dollars(raised),
+ progress: Math.min(1, raised / (goal.targetAmount * 100)),
+ reached: raised >= goal.targetAmount * 100
+ };
+ };
+
+ const requireOwner = (req, res, streamId) => {
+ if (getUserId(req) !== getStreamOwnerId(streamId)) {
+ sendError(res, 403, 'Forbidden', 'Only the stream owner can do this');
+ return false;
+ }
+ return true;
+ };
+
+ // Charges the viewer and appends the payment to the ledger; null once a refusal has been sent
+ const recordPayment = async (req, res, { streamId, amount, currency, description, entry }) => {
+ const userId = getUserId(req);
+ if (!userId) {
+ sendError(res, 401, 'Unauthorized', 'Sign in to pay');
+ return null;
+ }
+ if (isBlocked(streamId, userId)) {
+ sendError(res, 403, 'Forbidden', 'You cannot pay in this stream right now');
+ return null;
+ }
+ const stream = getStream(streamId);
+ if (!stream) {
+ sendError(res, 404, 'Not found', 'Stream not found');
+ return null;
+ }
+ if (stream.status !== 'live') {
+ sendError(res, 409, 'Conflict', 'Payments are only taken while the stream is live');
+ return null;
+ }
+
+ let charge;
+ try {
+ charge = await payments.charge({ amount, currency, source: req.body.paymentToken, description });
+ } catch (error) {
+ if (error instanceof PaymentError) {
+ sendError(res, 402, 'Payment failed', error.message, { code: error.code });
+ return null;
+ }
+ throw error;
+ }
+
+ const amountUsd = toUsdCents(amount, currency);
+ const feeUsd = Math.round(amountUsd * PLATFORM_FEE_RATE);
+ const record = {
+ id: generateId(entry.type === 'membership' ? 'member' : 'superchat'),
+ streamId,
+ channelId: getStreamOwnerId(streamId),
+ userId,
+ username: String(req.body.username || userId).slice(0, 50),
+ currency,
+ amount,
+ amountUsd,
+ feeUsd,
+ netUsd: amountUsd - feeUsd,
+ paymentId: charge.id,
+ createdAt: charge.created,
+ ...entry
+ };
+ store.data.entries.push(record);
+ store.save();
+
+ const superChat = toSuperChat(record);
+ onEntry(record, superChat);
+ if (store.data.goals[streamId]) {
+ onGoal(streamId, goalWithProgress(streamId));
+ }
+ return { record, superChat };
+ };
+
+ router.get('/live/superchat/tiers', (req, res) => {
+ res.json({
+ tiers: SUPER_CHAT_TIERS,
+ currencies: Object.keys(CURRENCY_RATES),
+ rates: CURRENCY_RATES,
+ maxAmountUsd: MAX_SUPER_CHAT_USD,
+ memberships: MEMBERSHIP_LEVELS
+ });
+ });
+
+ router.get('/live/streams/:id/superchats', (req, res) => {
+ const now = Date.now();
+ const superChats = streamEntries(req.params.id).filter(entry => entry.type === 'super_chat');
+ res.json({
+ superChats: superChats.slice(-RECENT_SUPER_CHATS).reverse().map(toSuperChat),
+ // Still pinned above chat, highest tier first
+ pinned: superChats
+ .filter(entry => Date.parse(entry.createdAt) + entry.pinSeconds * 1000 > now)
+ .sort((a, b) => b.amountUsd - a.amountUsd)
+ .map(toSuperChat),
+ goal: goalWithProgress(req.params.id)
+ });
+ });
+
+ router.post('/live/streams/:id/superchats', async (req, res, next) => {
+ try {
+ const streamId = req.params.id;
+ const currency = String(req.body.currency || 'USD').toUpperCase();
+ if (!CURRENCY_RATES[currency]) {
+ return sendError(res, 400, 'Bad request', `Currency must be one of: ${Object.keys(CURRENCY_RATES).join(', ')}`);
+ }
+ const amount = Math.round(Number(req.body.amount) * 100);
+ const amountUsd = toUsdCents(amount, currency) / 100;
+ const tier = tierFor(amountUsd);
+ if (!tier || amountUsd > MAX_SUPER_CHAT_USD) {
+ return sendError(res, 400, 'Bad request', `Super Chats must be between $1 and $${MAX_SUPER_CHAT_USD}`);
+ }
+ const message = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+ if (message.length > tier.maxMessageLength) {
+ return sendError(res, 400, 'Bad request', tier.maxMessageLength
+ ? `Messages at this amount can be up to ${tier.maxMessageLength} characters`
+ : 'Super Chats at this amount cannot include a message');
+ }
+
+ const result = await recordPayment(req, res, {
+ streamId,
+ amount,
+ currency,
+ description: `Super Chat on stream ${streamId}`,
+ entry: { type: 'super_chat', message, color: tier.color, pinSeconds: tier.pinSeconds }
+ });
+ if (result) {
+ res.status(201).json({ superChat: result.superChat, goal: goalWithProgress(streamId) });
+ }
+ } catch (error) {
+ next(error);
+ }
+ });
+
+ router.post('/live/streams/:id/memberships', async (req, res, next) => {
+ try {
+ const streamId = req.params.id;
+ const level = MEMBERSHIP_LEVELS.find(l => l.id === req.body.levelId);
+ if (!level) {
+ return sendError(res, 400, 'Bad request', `levelId must be one of: ${MEMBERSHIP_LEVELS.map(l => l.id).join(', ')}`);
+ }
+ const channelId = getStreamOwnerId(streamId);
+ const userId = getUserId(req);
+ // Months so far with this channel, counting the one being paid for
+ const months = store.data.entries.filter(entry =>
+ entry.type === 'membership' && entry.channelId === channelId && entry.userId === userId
+ ).length + 1;
+
+ const result = await recordPayment(req, res, {
+ streamId,
+ amount: Math.round(level.priceUsd * 100),
+ currency: 'USD',
+ description: `${level.level} membership for ${channelId}`,
+ entry: {
+ type: 'membership',
+ message: '',
+ color: '#0F9D58',
+ pinSeconds: 0,
+ membership: { level: level.level, duration: months, badge: level.badge, perks: level.perks }
+ }
+ });
+ if (result) {
+ res.status(201).json({ membership: result.record.membership, goal: goalWithProgress(streamId) });
+ }
+ } catch (error) {
+ next(error);
+ }
+ });
+
+ // Revenue for one stream in the shape of `LiveStreamMonetization`
+ router.get('/live/streams/:id/revenue', (req, res) => {
+ const streamId = req.params.id;
+ if (!requireOwner(req, res, streamId)) {
+ return;
+ }
+ const entries = streamEntries(streamId);
+ const totals = summarize(entries);
+ res.json({
+ totalRevenue: totals.gross,
+ superChatRevenue: totals.superChats,
+ membershipRevenue: totals.memberships,
+ adRevenue: 0,
+ donationRevenue: 0,
+ superChats: entries.filter(entry => entry.type === 'super_chat').map(toSuperChat),
+ netRevenue: totals.net,
+ fees: totals.fees
+ });
+ });
+
+ router.put('/live/streams/:id/goal', (req, res) => {
+ const streamId = req.params.id;
+ if (!requireOwner(req, res, streamId)) {
+ return;
+ }
+ const targetAmount = Math.round(Number(req.body.targetAmount) * 100) / 100;
+ if (!(targetAmount >= 1)) {
+ return sendError(res, 400, 'Bad request', 'targetAmount must be at least 1 (USD)');
+ }
+ store.data.goals[streamId] = {
+ id: generateId('goal'),
+ streamId,
+ title: String(req.body.title || 'Stream goal').trim().slice(0, 100),
+ targetAmount,
+ currency: 'USD',
+ createdAt: new Date().toISOString()
+ };
+ store.save();
+
+ const goal = goalWithProgress(streamId);
+ onGoal(streamId, goal);
+ res.json(goal);
+ });
+
+ router.delete('/live/streams/:id/goal', (req, res) => {
+ const streamId = req.params.id;
+ if (!requireOwner(req, res, streamId)) {
+ return;
+ }
+ delete store.data.goals[streamId];
+ store.save();
+ onGoal(streamId, null);
+ res.status(204).end();
+ });
+
+ // The signed-in channel's earnings between `from` and `to` (ISO dates, default: last 30 days)
+ const channelEntries = (req) => {
+ const to = parseDate(req.query.to, Date.now());
+ const from = parseDate(req.query.from, to - 30 * 24 * 60 * 60 * 1000);
+ const entries = store.data.entries.filter(entry => {
+ const time = Date.parse(entry.createdAt);
+ return entry.channelId === getUserId(req) && time >= from && time <= to;
+ });
+ return { entries, from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+ };
+
+ router.get('/monetization/earnings', (req, res) => {
+ if (!getUserId(req)) {
+ return sendError(res, 401, 'Unauthorized', 'Sign in to see earnings');
+ }
+ const { entries, from, to } = channelEntries(req);
+ const byStream = new Map();
+ for (const entry of entries) {
+ byStream.set(entry.streamId, [...(byStream.get(entry.streamId) || []), entry]);
+ }
+ res.json({
+ currency: 'USD',
+ from,
+ to,
+ totals: summarize(entries),
+ streams: [...byStream].map(([streamId, streamEntryList]) => ({ streamId, ...summarize(streamEntryList) })),
+ recent: entries.slice(-20).reverse().map(entry => ({ ...toSuperChat(entry), type: entry.type, streamId: entry.streamId }))
+ });
+ });
+
+ router.get('/monetization/statement.csv', (req, res) => {
+ const channelId = getUserId(req);
+ if (!channelId) {
+ return sendError(res, 401, 'Unauthorized', 'Sign in to export earnings');
+ }
+ const { entries, from, to } = channelEntries(req);
+ const header = ['date', 'type', 'stream_id', 'payer', 'currency', 'amount', 'amount_usd', 'fee_usd', 'net_usd', 'payment_id', 'message'];
+ const rows = entries.map(entry => [
+ entry.createdAt,
+ entry.type,
+ entry.streamId,
+ entry.username,
+ entry.currency,
+ dollars(entry.amount).toFixed(2),
+ dollars(entry.amountUsd).toFixed(2),
+ dollars(entry.feeUsd).toFixed(2),
+ dollars(entry.netUsd).toFixed(2),
+ entry.paymentId,
+ entry.type === 'membership' ? entry.membership.level : entry.message
+ ]);
+ const totals = summarize(entries);
+ rows.push(['total', '', '', '', 'USD', '', totals.gross.toFixed(2), totals.fees.toFixed(2), totals.net.toFixed(2), '', '']);
+
+ const csv = [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+ res.set('Content-Type', 'text/csv; charset=utf-8');
+ res.set('Content-Disposition', `attachment; filename="earnings-${channelId}-${from.slice(0, 10)}-${to.slice(0, 10)}.csv"`);
+ res.send(`${csv}\r\n`);
+ });
+
+ return router;
+};
@@ -0,0 +1,303 @@
+// Resumable uploads over the tus 1.0 protocol (core + creation, termination and checksum)
+// https://tus.io/protocols/resumable-upload
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import cors from 'cors';
+import express from 'express';
+
+import { DATA_DIR, createJsonStore, generateId } from './storage.js';
+
+export const TUS_VERSION = '1.0.0';
+const TUS_EXTENSIONS = 'creation,creation-with-upload,termination,checksum';
+const CHECKSUM_ALGORITHMS = ['sha1', 'sha256', 'md5'];
+const MAX_UPLOAD_SIZE = 256 * 1024 * 1024 * 1024; // 256GB, YouTube's upload limit
+const MAX_CHUNK_SIZE = 64 * 1024 * 1024;
+
+export const UPLOAD_DIR = path.join(DATA_DIR, 'uploads');
+
+const setTusHeaders = (res) => {
+ res.set('Tus-Resumable', TUS_VERSION);
+ res.set('Cache-Control', 'no-store');
+};
+
+const tusError = (res, status, message) => {
+ setTusHeaders(res);
+ res.status(status).type('text/plain').send(message);
+};
+
+// Upload-Metadata is a comma separated list of `key base64(value)` pairs
+const parseMetadata = (header = '') => {
+ const metadata = {};
+ for (const pair of header.split(',').map(p => p.trim()).filter(Boolean)) {
+ const [key, value] = pair.split(' ');
+ if (!key) {
+ continue;
+ }
+ metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+ }
+ return metadata;
+};
+
+const serializeMetadata = (metadata) =>
+ Object.entries(metadata)
+ .map(([key, value]) => (value ? `${key} ${Buffer.from(value).toString('base64')}` : key))
+ .join(',');
+
+const readBody = (req, limit) =>
+ new Promise((resolve, reject) => {
+ const chunks = [];
+ let size = 0;
+ req.on('data', (chunk) => {
+ size += chunk.length;
+ if (size > limit) {
+ // Stop reading; the 413 goes out with Connection: close instead of
+ // the socket being torn down under it
+ req.pause();
+ reject(Object.assign(new Error('Chunk too large'), { status: 413 }));
+ return;
+ }
+ chunks.push(chunk);
+ });
+ req.on('end', () => resolve(Buffer.concat(chunks)));
+ req.on('error', reject);
+ });
+
+/**
+ * Builds the tus upload router, mounted at `/api/upload`.
+ *
+ * Chunks are appended in order to `<UPLOAD_DIR>/<id>.bin`; the recorded
+ * offset only advances after a chunk has been written and (when an
+ * `Upload-Checksum` is sent) verified, so a client can always resume from
+ * the offset reported by HEAD. `onComplete(upload)` runs once the final byte
+ * has been received.
+ */
+export const createUploadRouter = ({ onComplete = () => {}, store = createJsonStore('uploads', { uploads: {} }) } = {}) => {
+ const router = express.Router();
+ const uploads = () => store.data.uploads;
+ const filePathFor = (id) => path.join(UPLOAD_DIR, `${id}.bin`);
+ // Uploads with a chunk being appended; a second PATCH would pass the offset
+ // check before the first one advanced it and write the same bytes twice
+ const appending = new Set();
+
+ const publicUpload = (upload) => ({
+ uploadId: upload.id,
+ offset: upload.offset,
+ length: upload.length,
+ progress: upload.length ? Math.floor((upload.offset / upload.length) * 100) : 0,
+ status: upload.status,
+ metadata: upload.metadata,
+ createdAt: upload.createdAt,
+ completedAt: upload.completedAt
+ });
+
+ // tus clients read these response headers, and discovery (OPTIONS) must
+ // reach the handlers below instead of ending as a bare CORS preflight
+ router.use(cors({
+ exposedHeaders: ['Location', 'Tus-Resumable', 'Tus-Version', 'Tus-Extension', 'Tus-Max-Size', 'Tus-Checksum-Algorithm', 'Upload-Offset', 'Upload-Length', 'Upload-Metadata'],
+ preflightContinue: true
+ }));
+
+ // Every request except OPTIONS must speak our protocol version
+ router.use((req, res, next) => {
+ if (req.method !== 'OPTIONS' && req.method !== 'GET' && req.get('tus-resumable') !== TUS_VERSION) {
+ res.set('Tus-Version', TUS_VERSION);
+ return tusError(res, 412, 'Unsupported tus version');
+ }
+ next();
+ });
+
+ router.options(['/', '/:id'], (req, res) => {
+ setTusHeaders(res);
+ res.set('Tus-Version', TUS_VERSION);
+ res.set('Tus-Extension', TUS_EXTENSIONS);
+ res.set('Tus-Max-Size', String(MAX_UPLOAD_SIZE));
+ res.set('Tus-Checksum-Algorithm', CHECKSUM_ALGORITHMS.join(','));
+ res.status(204).end();
+ });
+
+ const appendChunk = async (req, res, upload) => {
+ if (req.get('content-type') !== 'application/offset+octet-stream') {
+ return tusError(res, 415, 'Content-Type must be application/offset+octet-stream');
+ }
+
+ const body = await readBody(req, MAX_CHUNK_SIZE);
+ if (upload.offset + body.length > upload.length) {
+ return tusError(res, 400, 'Chunk exceeds Upload-Length');
+ }
+
+ const checksumHeader = req.get('upload-checksum');
+ if (checksumHeader) {
+ const [algorithm, expected] = checksumHeader.split(' ');
+ if (!CHECKSUM_ALGORITHMS.includes(algorithm)) {
+ return tusError(res, 400, `Unsupported checksum algorithm ${algorithm}`);
+ }
+ const actual = crypto.createHash(algorithm).update(body).digest('base64');
+ if (actual !== expected) {
+ // 460 Checksum Mismatch: the chunk is discarded and the offset is unchanged
+ return tusError(res, 460, 'Checksum Mismatch');
+ }
+ }
+
+ const fd = fs.openSync(filePathFor(upload.id), 'r+');
+ try {
+ fs.writeSync(fd, body, 0, body.length, upload.offset);
+ } finally {
+ fs.closeSync(fd);
+ }
+
+ upload.offset += body.length;
+ upload.updatedAt = new Date().toISOString();
+ if (upload.offset === upload.length) {
+ upload.status = 'completed';
+ upload.completedAt = upload.updatedAt;
+ }
+ store.save();
+
+ if (upload.status === 'completed') {
+ onComplete({ ...upload, filePath: filePathFor(upload.id) });
+ }
+ return true;
+ };
+
+ router.post('/', async (req, res, next) => {
+ try {
+ const length = Number(req.get('upload-length'));
+ if (!Number.isSafeInteger(length) || length < 0) {
+ return tusError(res, 400, 'Upload-Length header is required');
+ }
+ if (length > MAX_UPLOAD_SIZE) {
+ return tusError(res, 413, 'Upload exceeds Tus-Max-Size');
+ }
+
+ const now = new Date().toISOString();
+ const upload = {
+ id: generateId('upload'),
+ length,
+ offset: 0,
+ metadata: parseMetadata(req.get('upload-metadata')),
+ status: 'uploading',
+ createdAt: now,
+ updatedAt: now,
+ completedAt: null
+ };
+
+ fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+ fs.writeFileSync(filePathFor(upload.id), Buffer.alloc(0));
+ uploads()[upload.id] = upload;
+ store.save();
+
+ res.set('Location', `${req.baseUrl}/${upload.id}`);
+
+ if (length === 0) {
+ upload.status = 'completed';
+ upload.completedAt = now;
+ store.save();
+ onComplete({ ...upload, filePath: filePathFor(upload.id) });
+ }
+
+ // creation-with-upload: the first chunk may ride along with the POST
+ if (Number(req.get('content-length')) > 0) {
+ appending.add(upload.id);
+ try {
+ const appended = await appendChunk(req, res, upload);
+ if (appended !== true) {
+ return;
+ }
+ } finally {
+ appending.delete(upload.id);
+ }
+ }
+
+ setTusHeaders(res);
+ res.set('Upload-Offset', String(upload.offset));
+ res.status(201).end();
+ } catch (error) {
+ if (error.status === 413) {
+ res.set('Connection', 'close');
+ return tusError(res, 413, 'Chunk exceeds the maximum chunk size');
+ }
+ next(error);
+ }
+ });
+
+ router.head('/:id', (req, res) => {
+ const upload = uploads()[req.params.id];
+ if (!upload) {
+ return tusError(res, 404, 'Upload not found');
+ }
+
+ setTusHeaders(res);
+ res.set('Upload-Offset', String(upload.offset));
+ res.set('Upload-Length', String(upload.length));
+ if (Object.keys(upload.metadata).length > 0) {
+ res.set('Upload-Metadata', serializeMetadata(upload.metadata));
+ }
+ res.status(200).end();
+ });
+
+ router.patch('/:id', async (req, res, next) => {
+ try {
+ const upload = uploads()[req.params.id];
+ if (!upload) {
+ return tusError(res, 404, 'Upload not found');
+ }
+ if (appending.has(upload.id)) {
+ return tusError(res, 409, 'Another chunk is being appended to this upload');
+ }
+ if (Number(req.get('upload-offset')) !== upload.offset) {
+ return tusError(res, 409, `Upload-Offset does not match current offset ${upload.offset}`);
+ }
+
+ appending.add(upload.id);
+ let appended;
+ try {
+ appended = await appendChunk(req, res, upload);
+ } finally {
+ appending.delete(upload.id);
+ }
+ if (appended !== true) {
+ return;
+ }
+
+ setTusHeaders(res);
+ res.set('Upload-Offset', String(upload.offset));
+ res.status(204).end();
+ } catch (error) {
+ if (error.status === 413) {
+ res.set('Connection', 'close');
+ return tusError(res, 413, 'Chunk exceeds the maximum chunk size');
+ }
+ next(error);
+ }
+ });
+
+ router.delete('/:id', (req, res) => {
+ const upload = uploads()[req.params.id];
+ if (!upload) {
+ return tusError(res, 404, 'Upload not found');
+ }
+
+ fs.rmSync(filePathFor(upload.id), { force: true });
+ delete uploads()[upload.id];
+ store.save();
+ setTusHeaders(res);
+ res.status(204).end();
+ });
+
+ // Progress in real bytes for UI polling
+ router.get('/:id/progress', (req, res) => {
+ const upload = uploads()[req.params.id];
+ if (!upload) {
+ return res.status(404).json({ error: 'Not found', message: 'Upload not found', timestamp: new Date().toISOString() });
+ }
+
+ const state = publicUpload(upload);
+ res.json({
+ ...state,
+ message: upload.status === 'completed' ? 'Upload completed' : `Uploading... ${state.progress}%`
+ });
+ });
+
+ return router;
+};
@@ -0,0 +1,210 @@
+// WHIP (WebRTC-HTTP ingestion) endpoint: browser broadcasts relayed into the RTMP ingest
+import { spawn } from 'child_process';
+import dgram from 'dgram';
+import express from 'express';
+import { RTCPeerConnection, RTCRtpCodecParameters } from 'werift';
+
+import { RTMP_APP, RTMP_PORT } from './ingest.js';
+import { hasBinary } from './processing.js';
+import { generateId } from './storage.js';
+
+export const WHIP_PATH = '/live/whip';
+
+// Payload types in the SDP handed to ffmpeg; forwarded packets are rewritten to match
+const VIDEO_PAYLOAD_TYPE = 96;
+const AUDIO_PAYLOAD_TYPE = 111;
+// Browsers send keyframes rarely over WebRTC; ask for one as often as HLS cuts segments
+const KEYFRAME_REQUEST_MS = 2000;
+// How long a peer gets after the answer to connect before its session is dropped
+const CONNECT_TIMEOUT_MS = 30000;
+
+// H.264 passes through to FLV untouched; Opus is transcoded to AAC
+const CODECS = {
+ video: [new RTCRtpCodecParameters({
+ mimeType: 'video/H264',
+ clockRate: 90000,
+ rtcpFeedback: [{ type: 'nack' }, { type: 'nack', parameter: 'pli' }, { type: 'goog-remb' }],
+ parameters: 'level-asymmetry-allowed=1;packetization-mode=1;profile-level-id=42e01f'
+ })],
+ audio: [new RTCRtpCodecParameters({ mimeType: 'audio/opus', clockRate: 48000, channels: 2 })]
+};
+
+const sendError = (res, status, error, message) =>
+ res.status(status).json({ error, message, timestamp: new Date().toISOString() });
+
+const readBearer = (req) => /^Bearer\s+(.+)$/i.exec(req.get('authorization') || '')?.[1]?.trim() || null;
+
+/** A UDP port nothing is listening on right now, for ffmpeg to receive RTP on */
+const freeUdpPort = () =>
+ new Promise((resolve, reject) => {
+ const socket = dgram.createSocket('udp4');
+ socket.once('error', reject);
+ socket.bind(0, '127.0.0.1', () => {
+ const { port } = socket.address();
+ socket.close(() => resolve(port));
+ });
+ });
+
+const rtpSdp = (videoPort, audioPort) => [
+ 'v=0',
+ 'o=- 0 0 IN IP4 127.0.0.1',
+ 's=WHIP ingest',
+ 'c=IN IP4 127.0.0.1',
+ 't=0 0',
+ `m=video ${videoPort} RTP/AVP ${VIDEO_PAYLOAD_TYPE}`,
+ `a=rtpmap:${VIDEO_PAYLOAD_TYPE} H264/90000`,
+ `a=fmtp:${VIDEO_PAYLOAD_TYPE} packetization-mode=1`,
+ `m=audio ${audioPort} RTP/AVP ${AUDIO_PAYLOAD_TYPE}`,
+ `a=rtpmap:${AUDIO_PAYLOAD_TYPE} opus/48000/2`,
+ ''
+].join('\n');
+
+/**
+ * Builds the WHIP router. A browser POSTs its SDP offer to `WHIP_PATH` with
+ * `Authorization: Bearer <stream key>` and gets the answer back, plus a
+ * `Location` to DELETE, with the same token, when it stops. A peer that has
+ * not connected `CONNECT_TIMEOUT_MS` after the answer is dropped.
+ *
+ * The received RTP is handed to ffmpeg, which publishes it to the local RTMP
+ * ingest under the same stream key. Keys, HLS packaging and health reporting
+ * therefore work exactly as for an OBS or ffmpeg broadcast.
+ */
+export const createWhipRouter = ({ ingest }) => {
+ const router = express.Router();
+ // sessionId -> { streamId, close }
+ const sessions = new Map();
+
+ const authorize = (req) => {
+ const streamKey = readBearer(req);
+ return { streamKey, streamId: streamKey && ingest.findStreamByKey(streamKey) };
+ };
+
+ const startRelay = async (streamKey) => {
+ const [videoPort, audioPort] = [await freeUdpPort(), await freeUdpPort()];
+ const ffmpeg = spawn('ffmpeg', [
+ '-v', 'error',
+ '-protocol_whitelist', 'pipe,udp,rtp',
+ '-f', 'sdp', '-i', 'pipe:0',
+ '-c:v', 'copy',
+ '-c:a', 'aac', '-b:a', '128k', '-ar', '48000',
+ '-f', 'flv', `rtmp://127.0.0.1:${RTMP_PORT}/${RTMP_APP}/${streamKey}`
+ ], { stdio: ['pipe', 'ignore', 'pipe'] });
+ let stderr = '';
+ ffmpeg.stderr.on('data', (chunk) => {
+ stderr = (stderr + chunk).slice(-2000);
+ });
+ ffmpeg.on('close', (code) => {
+ if (code !== 0 && code !== null) {
+ console.error('WHIP relay:', stderr.trim().split('\n').pop() || `ffmpeg exited with code ${code}`);
+ }
+ });
+ ffmpeg.stdin.end(rtpSdp(videoPort, audioPort));
+
+ const socket = dgram.createSocket('udp4');
+ return {
+ forward: (kind, rtp) => {
+ rtp.header.payloadType = kind === 'video' ? VIDEO_PAYLOAD_TYPE : AUDIO_PAYLOAD_TYPE;
+ socket.send(rtp.serialize(), kind === 'video' ? videoPort : audioPort, '127.0.0.1');
+ },
+ stop: () => {
+ ffmpeg.kill('SIGTERM');
+ socket.close();
+ }
+ };
+ };
+
+ router.post(WHIP_PATH, express.text({ type: 'application/sdp', limit: '100kb' }), async (req, res, next) => {
+ try {
+ const { streamKey, streamId } = authorize(req);
+ if (!streamId) {
+ return sendError(res, 401, 'Unauthorized', 'Invalid stream key');
+ }
+ if (ingest.isLive(streamId)) {
+ return sendError(res, 409, 'Conflict', 'This stream is already receiving a broadcast');
+ }
+ if (typeof req.body !== 'string' || !req.body.startsWith('v=')) {
+ return sendError(res, 400, 'Bad request', 'Send an SDP offer as application/sdp');
+ }
+ if (!hasBinary('ffmpeg')) {
+ return sendError(res, 503, 'Service unavailable', 'ffmpeg is required for WebRTC ingest');
+ }
+
+ const relay = await startRelay(streamKey);
+ const pc = new RTCPeerConnection({ codecs: CODECS });
+ const timers = [];
+ let connectTimer = null;
+ const sessionId = generateId('whip');
+
+ const close = () => {
+ if (!sessions.has(sessionId)) {
+ return;
+ }
+ sessions.delete(sessionId);
+ clearTimeout(connectTimer);
+ timers.forEach(clearInterval);
+ relay.stop();
+ pc.close().catch(() => {});
+ };
+ sessions.set(sessionId, { streamId, close });
+
+ pc.onRemoteTransceiverAdded.subscribe((transceiver) => {
+ transceiver.onTrack.subscribe((track) => {
+ track.onReceiveRtp.subscribe((rtp) => relay.forward(track.kind, rtp));
+ if (track.kind === 'video') {
+ timers.push(setInterval(() => {
+ transceiver.receiver.sendRtcpPLI(track.ssrc).catch(() => {});
+ }, KEYFRAME_REQUEST_MS));
+ }
+ });
+ });
+ pc.connectionStateChange.subscribe((state) => {
+ if (state === 'connected') {
+ clearTimeout(connectTimer);
+ } else if (state === 'failed' || state === 'closed') {
+ close();
+ }
+ });
+
+ try {
+ await pc.setRemoteDescription({ type: 'offer', sdp: req.body });
+ await pc.setLocalDescription(await pc.createAnswer());
+ } catch (error) {
+ close();
+ return sendError(res, 400, 'Bad request', `Could not negotiate the offer: ${error.message}`);
+ }
+
+ connectTimer = setTimeout(close, CONNECT_TIMEOUT_MS);
+ res.status(201)
+ .set('Content-Type', 'application/sdp')
+ .set('Location', `/api${WHIP_PATH}/${sessionId}`)
+ .send(pc.localDescription.sdp);
+ } catch (error) {
+ next(error);
+ }
+ });
+
+ router.delete(`${WHIP_PATH}/:sessionId`, (req, res) => {
+ const { streamId } = authorize(req);
+ if (!streamId) {
+ return sendError(res, 401, 'Unauthorized', 'Invalid stream key');
+ }
+ const session = sessions.get(req.params.sessionId);
+ if (!session) {
+ return sendError(res, 404, 'Not found', 'No such WHIP session');
+ }
+ if (streamId !== session.streamId) {
+ return sendError(res, 403, 'Forbidden', 'This session belongs to another stream');
+ }
+ session.close();
+ res.status(200).end();
+ });
+
+ return {
+ router,
+ close: () => {
+ for (const session of [...sessions.values()]) {
+ session.close();
+ }
+ }
+ };
+};
@@ -1,226 +1,279 @@
-/// <reference types="node" />
-
-declare namespace NodeJS {
- export interface ProcessEnv {
- [key: string]: string | undefined
- }
- export interface Process {
- env: ProcessEnv
- }
 export interface AnalyticsEvent {
+ /** Unique per event; the collector drops events it has already stored, so batches can be resent */
+ id: string;
  name: string;
- properties?: Record < string, any>
- timestamp: number;,
+ properties?: Record<string, any>;
+ timestamp: number;
  sessionId: string;
  userId?: string | undefined;
- category: 'user_action' | 'performance' | 'error' | 'navigation' | 'video' | 'engagement'
+ category: 'user_action' | 'performance' | 'error' | 'navigation' | 'video' | 'engagement';
 }
 
 export interface UserSession {
- id: string;,
+ id: string;
  startTime: number;
  endTime?: number;
- pageViews: number;,
- events: AnalyticsEvent;
- userAgent: string;,
+ pageViews: number;
+ events: AnalyticsEvent[];
+ userAgent: string;
  referrer: string;
  userId?: string | undefined;
 }
 
 export interface AnalyticsConfig {
- enableLocalStorage: boolean;,
+ enableLocalStorage: boolean;
  enableRemoteTracking: boolean;
- enablePerformanceTracking: boolean;,
+ enablePerformanceTracking: boolean;
  enableErrorTracking: boolean;
  apiEndpoint?: string | undefined;
  apiKey?: string | undefined;
- batchSize: number;,
- flushInterval: number; // milliseconds,
- maxStoredEvents: number;,
- enableDebugMode: boolean
+ batchSize: number;
+ flushInterval: number; // milliseconds
+ maxStoredEvents: number;
+ /** Upper bound for the backoff between failed sends, in milliseconds */
+ maxRetryDelay: number;
+ enableDebugMode: boolean;
 }
 
-const DEFAULT_CONFIG: AnalyticsConfig = {,
+/** What the collector answers to a batch; rejected events are invalid and never retried */
+export interface AnalyticsIngestResult {
+ accepted: number;
+ duplicates: number;
+ rejected: Array<{ index: number; id: string | null; errors: string[] }>;
+}
+
+const DEFAULT_CONFIG: AnalyticsConfig = {
  enableLocalStorage: true,
  enableRemoteTracking: false,
  enablePerformanceTracking: true,
  enableErrorTracking: true,
  batchSize: 10,
- flushInterval: 30000, // 30 seconds,
+ flushInterval: 30000, // 30 seconds
  maxStoredEvents: 1000,
- enableDebugMode: false };
+ maxRetryDelay: 5 * 60 * 1000,
+ enableDebugMode: false,
+};
+
+// Undelivered events survive reloads under this key
+const STORAGE_KEY = 'analytics_events';
+// The collector accepts up to 500 per request
+const MAX_SEND_BATCH = 100;
+// Browsers cap beacon payloads at 64 KB
+const MAX_BEACON_BYTES = 60000;
+const FIRST_RETRY_DELAY = 5000;
+
+interface LayoutShiftEntry extends PerformanceEntry {
+ value: number;
+ hadRecentInput: boolean;
+}
 
+interface FirstInputEntry extends PerformanceEntry {
+ processingStart: number;
+}
+
+const generateEventId = () =>
+ typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+ ? crypto.randomUUID()
+ : `evt_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 11)}`;
+
+/**
+ * Tracks events for the current page session. Events queue up and are sent
+ * to `apiEndpoint` in batches when remote tracking is on; until they are
+ * delivered they are kept in localStorage, so they survive going offline and
+ * reloads. Failed sends back off up to `maxRetryDelay`, and whatever is left
+ * when the page is hidden or unloaded goes out with `navigator.sendBeacon`.
+ */
 export class AnalyticsService {
  private config: AnalyticsConfig;
  private session: UserSession;
- private eventQueue: AnalyticsEvent = [];
- private flushTimer?: ReturnType < typeof setTimeout>
+ private eventQueue: AnalyticsEvent[] = [];
+ private flushTimer?: ReturnType<typeof setInterval>;
  private listeners: Array<(event: AnalyticsEvent) => void> = [];
+ private flushing = false;
+ private retryDelay = 0;
+ private retryAt = 0;
 
- constructor(config: Partial < AnalyticsConfig> = {}) {
- this.config = { ...DEFAULT_CONFIG as any, ...config };
- // pageLoadTime = performance.now(); // Not used yet
+ constructor(config: Partial<AnalyticsConfig> = {}) {
+ this.config = { ...DEFAULT_CONFIG, ...config };
  this.session = this.initializeSession();
+ this.loadStoredEvents();
  this.setupEventListeners();
  this.startFlushTimer();
- this.loadStoredEvents();
  }
 
  private initializeSession(): UserSession {
- const sessionId = this.generateSessionId();
  return {
- id: sessionId,
+ id: this.generateSessionId(),
  startTime: Date.now(),
  pageViews: 1,
  events: [],
  userAgent: navigator.userAgent,
  referrer: document.referrer,
- userId: this.getCurrentUserId() };
+ userId: this.getCurrentUserId(),
+ };
  }
 
  private generateSessionId(): string {
- return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+ return `session_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
  }
 
  private getCurrentUserId(): string | undefined {
  try {
- const authData = (localStorage).getItem('auth');
+ const authData = localStorage.getItem('auth');
  if (authData) {
  const parsed = JSON.parse(authData);
  return parsed.userId || parsed.id;
  }
- } catch (e) {
+ } catch {
  // Ignore parsing errors
  }
  return undefined;
  }
 
  private setupEventListeners() {
- // Page visibility changes
- document.addEventListener('visibilitychange', ( as EventListener) => {
+ document.addEventListener('visibilitychange', () => {
  if (document.hidden) {
  this.track('page_hidden', { timestamp: Date.now() });
- this.flush(); // Ensure events are sent before page becomes hidden
+ // The page may never come back (mobile browsers discard hidden tabs), so beacon what is queued
+ this.flush(true);
  } else {
  this.track('page_visible', { timestamp: Date.now() });
  }
  });
 
- // Page unload
- window.addEventListener('beforeunload', ( as EventListener) => {
- this.endSession();
- this.flush(true); // Force immediate flush
+ // Send what piled up while offline as soon as the connection is back
+ window.addEventListener('online', () => {
+ this.retryAt = 0;
+ this.flush();
  });
 
- // Performance tracking
  if (this.config.enablePerformanceTracking) {
  this.setupPerformanceTracking();
  }
 
- // Error tracking
  if (this.config.enableErrorTracking) {
  this.setupErrorTracking();
  }
 
- // Navigation tracking
  this.setupNavigationTracking();
+
+ // Registered last so that events tracked on the way out (layout shift) go with it
+ window.addEventListener('pagehide', () => {
+ this.endSession();
+ this.flush(true);
+ });
  }
 
  private setupPerformanceTracking() {
- // Page load performance
- window.addEventListener('load', ( as EventListener) => {
- setTimeout((() => {
- const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming;
+ window.addEventListener('load', () => {
+ setTimeout(async () => {
+ const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
  if (navigation) {
- this.track('page_load_performance') as any, {
+ this.track('page_load_performance', {
  loadTime: navigation.loadEventEnd - navigation.loadEventStart,
  domContentLoaded: navigation.domContentLoadedEventEnd - navigation.domContentLoadedEventStart,
  firstPaint: this.getFirstPaint(),
  firstContentfulPaint: this.getFirstContentfulPaint(),
- largestContentfulPaint: this.getLargestContentfulPaint() }, 'performance');
+ largestContentfulPaint: await this.getLargestContentfulPaint(),
+ }, 'performance');
  }
  }, 0);
  });
 
- // Core Web Vitals
  this.observeWebVitals();
  }
 
  private getFirstPaint(): number | undefined {
- const paintEntries = performance.getEntriesByType('paint');
- const firstPaint = paintEntries.find(entry => entry.name === 'first - paint');
- return firstPaint?.startTime;
+ return performance.getEntriesByType('paint').find(entry => entry.name === 'first-paint')?.startTime;
  }
 
  private getFirstContentfulPaint(): number | undefined {
- const paintEntries = performance.getEntriesByType('paint');
- const fcp = paintEntries.find(entry => entry.name === 'first - contentful - paint');
- return fcp?.startTime;
+ return performance.getEntriesByType('paint').find(entry => entry.name === 'first-contentful-paint')?.startTime;
  }
 
- private getLargestContentfulPaint(): Promise<any> < number | undefined> {
- return new Promise<any>((resolve) => {
- const observer = new PerformanceObserver((list) => {
+ private getLargestContentfulPaint(): Promise<number | undefined> {
+ return new Promise(resolve => {
+ if (typeof PerformanceObserver === 'undefined') {
+ resolve(undefined);
+ return;
+ }
+ const observer = new PerformanceObserver(list => {
  const entries = list.getEntries();
- const lastEntry = entries[entries.length - 1];
- resolve(lastEntry?.startTime);
+ resolve(entries[entries.length - 1]?.startTime);
  observer.disconnect();
  });
- observer.observe({ entryTypes: ['largest - contentful - paint'] });
+ try {
+ observer.observe({ type: 'largest-contentful-paint', buffered: true });
+ } catch {
+ resolve(undefined);
+ return;
+ }
 
  // Timeout after 10 seconds
- setTimeout((() => {
+ setTimeout(() => {
  observer.disconnect();
  resolve(undefined);
- }) as any, 10000);
+ }, 10000);
  });
  }
 
  private observeWebVitals() {
+ if (typeof PerformanceObserver === 'undefined') {
+ return;
+ }
+
  // Cumulative Layout Shift
- let clsValue: number = 0;
- const clsObserver = new PerformanceObserver((list) => {
- const entries = list.getEntries();
- entries.forEach((entry) => {
+ let clsValue = 0;
+ try {
+ new PerformanceObserver(list => {
+ for (const entry of list.getEntries() as LayoutShiftEntry[]) {
  if (!entry.hadRecentInput) {
  clsValue += entry.value;
  }
- });
- });
- clsObserver.observe({ entryTypes: ['layout - shift'] });
+ }
+ }).observe({ type: 'layout-shift', buffered: true });
+ } catch {
+ // Not supported by this browser
+ }
 
- // Report CLS on page unload
- window.addEventListener('beforeunload', ( as EventListener) => {
+ // Report CLS when the page goes away; the pagehide flush sends it
+ window.addEventListener('pagehide', () => {
  this.track('cumulative_layout_shift', { value: clsValue }, 'performance');
  });
 
  // First Input Delay
- const fidObserver = new PerformanceObserver((list) => {
- const entries = list.getEntries();
- entries.forEach((entry) => {
+ try {
+ const fidObserver = new PerformanceObserver(list => {
+ for (const entry of list.getEntries() as FirstInputEntry[]) {
  this.track('first_input_delay', {
  value: entry.processingStart - entry.startTime,
- inputType: entry.name }, 'performance');
- });
+ inputType: entry.name,
+ }, 'performance');
+ }
  fidObserver.disconnect();
  });
- fidObserver.observe({ entryTypes: ['first - input'] });
+ fidObserver.observe({ type: 'first-input', buffered: true });
+ } catch {
+ // Not supported by this browser
+ }
  }
 
  private setupErrorTracking() {
- window.addEventListener('error', (event as EventListener) => {
+ window.addEventListener('error', (event: ErrorEvent) => {
  this.track('javascript_error', {
  message: event.message,
  filename: event.filename,
  lineno: event.lineno,
  colno: event.colno,
- stack: event.error?.stack }, 'error');
+ stack: event.error?.stack,
+ }, 'error');
  });
 
- window.addEventListener('unhandledrejection', (event as EventListener) => {
+ window.addEventListener('unhandledrejection', (event: PromiseRejectionEvent) => {
  this.track('unhandled_promise_rejection', {
- reason: event.reason,
- stack: event.reason?.stack }, 'error');
+ reason: String(event.reason),
+ stack: event.reason?.stack,
+ }, 'error');
  });
  }
 
@@ -233,122 +286,163 @@ export class AnalyticsService {
  this.track('page_view', {
  from: currentPath,
  to: newPath,
- referrer: document.referrer }, 'navigation');
+ referrer: document.referrer,
+ }, 'navigation');
  currentPath = newPath;
  this.session.pageViews++;
+ }
  };
 
  // Listen for popstate (back / forward buttons)
- window.addEventListener('popstate', checkForRouteChange as EventListener);
+ window.addEventListener('popstate', checkForRouteChange);
 
- // Override pushState and replaceState to catch programmatic navigation
+ // Wrap pushState and replaceState to catch programmatic navigation
  const originalPushState = history.pushState.bind(history);
  const originalReplaceState = history.replaceState.bind(history);
 
  history.pushState = (...args) => {
  originalPushState(...args);
- setTimeout((checkForRouteChange) as any, 0);
+ setTimeout(checkForRouteChange, 0);
  };
 
  history.replaceState = (...args) => {
  originalReplaceState(...args);
- setTimeout((checkForRouteChange) as any, 0);
+ setTimeout(checkForRouteChange, 0);
  };
  }
 
  private startFlushTimer() {
- this.flushTimer = setInterval((() => {
+ this.flushTimer = setInterval(() => {
  this.flush();
- }) as any, this.config.flushInterval);
+ }, this.config.flushInterval);
  }
 
  private loadStoredEvents() {
  if (!this.config.enableLocalStorage) {
-return;
-}
+ return;
+ }
 
  try {
- const stored = (localStorage).getItem('analytics_events');
+ const stored = localStorage.getItem(STORAGE_KEY);
  if (stored) {
- const events: AnalyticsEvent[] = JSON.parse(stored);
+ // Events from before IDs existed get one now
+ const events: AnalyticsEvent[] = JSON.parse(stored).map((event: AnalyticsEvent) => ({ ...event, id: event.id || generateEventId() }));
  this.eventQueue.push(...events);
- localStorage.removeItem('analytics_events'); // Clear after loading
  }
  } catch (error) {
- (console).warn('Failed to load stored analytics events:', error);
+ console.warn('Failed to load stored analytics events:', error);
+ }
+ }
+
+ /** Keeps the undelivered events (the newest `maxStoredEvents`) for the next attempt or page load */
+ private persistQueue() {
+ this.eventQueue = this.eventQueue.slice(-this.config.maxStoredEvents);
+ if (!this.config.enableLocalStorage) {
+ return;
+ }
+ try {
+ if (this.eventQueue.length) {
+ localStorage.setItem(STORAGE_KEY, JSON.stringify(this.eventQueue));
+ } else {
+ localStorage.removeItem(STORAGE_KEY);
+ }
+ } catch (error) {
+ console.warn('Failed to store analytics events:', error);
+ }
+ }
+
+ private removeFromQueue(events: AnalyticsEvent[]) {
+ const sent = new Set(events.map(event => event.id));
+ this.eventQueue = this.eventQueue.filter(event => !sent.has(event.id));
+ }
+
+ // The session as sent with each batch; its events go separately
+ private sessionPayload(): Omit<UserSession, 'events'> {
+ const { id, startTime, endTime, pageViews, userAgent, referrer, userId } = this.session;
+ return { id, startTime, endTime, pageViews, userAgent, referrer, userId };
  }
+
  // Public API
- track(,
- eventName,
- properties: Record < string, any> = {},
- category: AnalyticsEvent['category'] = 'user_action') {
- const event: AnalyticsEvent = {,
+ track(eventName: string, properties: Record<string, any> = {}, category: AnalyticsEvent['category'] = 'user_action') {
+ const event: AnalyticsEvent = {
+ id: generateEventId(),
  name: eventName,
  properties: {
- ...properties as any,
+ ...properties,
  url: window.location.href,
- userAgent: navigator.userAgent,
- viewport: {,
+ viewport: {
  width: window.innerWidth,
- height: window.innerHeight },
- screen: {,
+ height: window.innerHeight,
+ },
+ screen: {
  width: screen.width,
- height: screen.height } },
+ height: screen.height,
+ },
+ },
  timestamp: Date.now(),
  sessionId: this.session.id,
  userId: this.session.userId,
- category };
+ category,
+ };
 
  this.eventQueue.push(event);
  this.session.events.push(event);
+ this.session.events = this.session.events.slice(-this.config.maxStoredEvents);
  this.notifyListeners(event);
 
  if (this.config.enableDebugMode) {
- (console).log('[Analytics]', event);
+ console.log('[Analytics]', event);
  }
 
- // Auto - flush if queue is full
+ // Auto-flush if queue is full
  if (this.eventQueue.length >= this.config.batchSize) {
  this.flush();
  }
+ }
+
  // Convenience methods for common events
  trackPageView(path?: string) {
  this.track('page_view', {
  path: path || window.location.pathname,
- title: document.title }, 'navigation');
+ title: document.title,
+ }, 'navigation');
  }
 
- trackClick(element: HTMLElement, properties: Record < string, any> = {}) {
+ trackClick(element: HTMLElement, properties: Record<string, any> = {}) {
  this.track('click', {
- element,
- ...properties });
+ element: element.tagName.toLowerCase(),
+ elementId: element.id || undefined,
+ ...properties,
+ });
  }
 
- trackVideoEvent(action, videoId, properties: Record < string, any> = {}) {
+ trackVideoEvent(action: string, videoId: string, properties: Record<string, any> = {}) {
  this.track(`video_${action}`, {
  videoId,
- ...properties }, 'video');
+ ...properties,
+ }, 'video');
  }
 
- trackSearch(query, results?: number) {
+ trackSearch(query: string, results?: number) {
  this.track('search', {
  query,
  results,
- timestamp: Date.now() });
+ });
  }
 
- trackEngagement(type, properties: Record < string, any> = {}) {
+ trackEngagement(type: string, properties: Record<string, any> = {}) {
  this.track(type, properties, 'engagement');
  }
 
- trackPerformance(metric, value: string | number, properties: Record < string, any> = {}) {
+ trackPerformance(metric: string, value: string | number, properties: Record<string, any> = {}) {
  this.track(`performance_${metric}`, {
  value,
- ...properties }, 'performance');
+ ...properties,
+ }, 'performance');
  }
 
  // Session management
- setUserId(userId) {
+ setUserId(userId: string) {
  this.session.userId = userId;
  this.track('user_identified', { userId });
  }
@@ -358,53 +452,107 @@ return;
  this.track('session_end', {
  duration: this.session.endTime - this.session.startTime,
  pageViews: this.session.pageViews,
- eventCount: this.session.events.length });
+ eventCount: this.session.events.length,
+ });
  }
 
- // Data management
+ /**
+ * Sends queued events to the collector. With `immediate` (the page is going
+ * away) they go out as beacons instead, which the browser delivers after
+ * the page is gone. Events stay queued (and stored) until the collector
+ * has answered for them.
+ */
  async flush(immediate = false) {
- if (this.eventQueue.length === 0) {
-return;
-}
-
- const eventsToSend: any[] = [...this.eventQueue];
- this.eventQueue = [];
-
- // Store in localStorage as backup
- if (this.config.enableLocalStorage && !immediate) {
- try {
- const existingEvents = (localStorage).getItem('analytics_events');
- const allEvents = existingEvents ? JSON.parse(existingEvents) : [];
- allEvents.push(...eventsToSend);
-
- // Keep only the most recent events
- const recentEvents = allEvents.slice(-this.config.maxStoredEvents);
- (localStorage).setItem('analytics_events', JSON.stringify(recentEvents));
- } catch (error) {
- (console).warn('Failed to store analytics events:', error);
+ if (!this.config.enableRemoteTracking || !this.config.apiEndpoint) {
+ this.persistQueue();
+ return;
  }
- // Send to remote endpoint
- if (this.config.enableRemoteTracking && this.config.apiEndpoint) {
+ if (immediate) {
+ this.sendBeacons();
+ this.persistQueue();
+ return;
+ }
+ if (this.flushing || Date.now() < this.retryAt || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+ this.persistQueue();
+ return;
+ }
+
+ this.flushing = true;
+ let batchSize = MAX_SEND_BATCH;
  try {
- const response = await (fetch)(this.config.apiEndpoint, {
+ while (this.eventQueue.length > 0) {
+ const batch = this.eventQueue.slice(0, batchSize);
+ const response = await fetch(this.config.apiEndpoint, {
  method: 'POST',
  headers: {
- 'Content - Type': 'application / json',
- ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }) },
- body: JSON.stringify({,
- events: eventsToSend,
- session: this.session }),
- keepalive: immediate, // Use keepalive for page unload
+ 'Content-Type': 'application/json',
+ ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+ },
+ body: JSON.stringify({ events: batch, session: this.sessionPayload() }),
  });
 
- if (response.ok && this.config.enableLocalStorage) {
- // Clear stored events on successful send
- localStorage.removeItem('analytics_events');
+ // Too big for the collector: halve the batch until a single event is left, which is dropped below
+ if (response.status === 413 && batch.length > 1) {
+ batchSize = Math.ceil(batch.length / 2);
+ continue;
+ }
+ // Server trouble and rate limits are worth retrying; other refusals would fail the same way again
+ if (response.status >= 500 || response.status === 408 || response.status === 429) {
+ throw new Error(`Analytics collector answered ${response.status}`);
+ }
+ if (response.ok) {
+ const result: AnalyticsIngestResult = await response.json();
+ if (result.rejected.length && this.config.enableDebugMode) {
+ console.warn('[Analytics] Rejected events:', result.rejected);
+ }
+ } else {
+ console.warn(`Analytics collector refused a batch of ${batch.length} events (${response.status})`);
+ }
+ this.removeFromQueue(batch);
+ this.retryDelay = 0;
  }
  } catch (error) {
- (console).warn('Failed to send analytics events:', error);
- // Re - add events to queue for retry
- this.eventQueue.unshift(...eventsToSend);
+ // Back off; the events stay queued for the next attempt
+ this.retryDelay = Math.min(this.config.maxRetryDelay, this.retryDelay ? this.retryDelay * 2 : FIRST_RETRY_DELAY);
+ this.retryAt = Date.now() + this.retryDelay;
+ if (this.config.enableDebugMode) {
+ console.warn('Failed to send analytics events, retrying in', this.retryDelay, 'ms:', error);
+ }
+ } finally {
+ this.flushing = false;
+ this.persistQueue();
+ }
+ }
+
+ /** Hands the queue to `navigator.sendBeacon` in payload-sized chunks; anything refused stays queued */
+ private sendBeacons() {
+ if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function' || this.eventQueue.length === 0) {
+ return;
+ }
+ // Beacons cannot carry headers, so the key goes in the URL
+ const url = this.config.apiKey
+ ? `${this.config.apiEndpoint}${this.config.apiEndpoint!.includes('?') ? '&' : '?'}key=${encodeURIComponent(this.config.apiKey)}`
+ : this.config.apiEndpoint!;
+ const session = this.sessionPayload();
+
+ let chunk: AnalyticsEvent[] = [];
+ const send = () => {
+ // text/plain keeps the beacon a simple request, so it also works cross-origin
+ const body = new Blob([JSON.stringify({ events: chunk, session })], { type: 'text/plain;charset=UTF-8' });
+ if (navigator.sendBeacon(url, body)) {
+ this.removeFromQueue(chunk);
+ }
+ chunk = [];
+ };
+ for (const event of [...this.eventQueue]) {
+ const candidate = [...chunk, event];
+ if (chunk.length && (candidate.length > MAX_SEND_BATCH || JSON.stringify({ events: candidate, session }).length > MAX_BEACON_BYTES)) {
+ send();
+ }
+ chunk.push(event);
+ }
+ if (chunk.length) {
+ send();
  }
  }
 
@@ -415,26 +563,34 @@ return;
 
  getEvents(category?: AnalyticsEvent['category']): AnalyticsEvent[] {
  const { events } = this.session;
- return category ? events.filter((e: Event) => e.category === category) : events
+ return category ? events.filter(event => event.category === category) : events;
+ }
+
+ /** Events tracked but not yet delivered to the collector */
+ getPendingCount(): number {
+ return this.eventQueue.length;
  }
 
  getEventStats() {
  const { events } = this.session;
  const now = Date.now();
- const oneHourAgo = now - (60 * 60 * 1000);
+ const oneHourAgo = now - 60 * 60 * 1000;
+ const countOf = (category: AnalyticsEvent['category']) => events.filter(event => event.category === category).length;
 
  return {
  total: events.length,
- lastHour: events.filter((e: Event) => e.timestamp > oneHourAgo).length,
- byCategory: {,
- user_action: events.filter((e: Event) => e.category === 'user_action').length,
- performance: events.filter((e: Event) => e.category === 'performance').length,
- error: events.filter((e: Event) => e.category === 'error').length,
- navigation: events.filter((e: Event) => e.category === 'navigation').length,
- video: events.filter((e: Event) => e.category === 'video').length,
- engagement: events.filter((e: Event) => e.category === 'engagement').length },
+ lastHour: events.filter(event => event.timestamp > oneHourAgo).length,
+ byCategory: {
+ user_action: countOf('user_action'),
+ performance: countOf('performance'),
+ error: countOf('error'),
+ navigation: countOf('navigation'),
+ video: countOf('video'),
+ engagement: countOf('engagement'),
+ },
  sessionDuration: now - this.session.startTime,
- pageViews: this.session.pageViews };
+ pageViews: this.session.pageViews,
+ };
  }
 
  // Event listeners
@@ -444,15 +600,16 @@ return;
  const index = this.listeners.indexOf(listener);
  if (index > -1) {
  this.listeners.splice(index, 1);
+ }
  };
  }
 
  private notifyListeners(event: AnalyticsEvent) {
- this.listeners.forEach((listener) => {
+ this.listeners.forEach(listener => {
  try {
  listener(event);
  } catch (error) {
- (console).warn('Error in analytics listener:', error);
+ console.warn('Error in analytics listener:', error);
  }
  });
  }
@@ -468,12 +625,16 @@ return;
 
  this.listeners = [];
  }
-// Create singleton instance
+}
+
+// Create singleton instance; the dev server's collector listens at /api/analytics/events
 export const analyticsService = new AnalyticsService({
- enableRemoteTracking: import.meta.env.MODE === 'production',
+ enableRemoteTracking: import.meta.env.MODE === 'production' || import.meta.env.VITE_ANALYTICS_ENABLED === 'true',
  enableDebugMode: import.meta.env.MODE === 'development',
- apiEndpoint: import.meta.env.VITE_ANALYTICS_ENDPOINT,
- apiKey: import.meta.env.VITE_ANALYTICS_API_KEY });
+ apiEndpoint: import.meta.env.VITE_ANALYTICS_ENDPOINT || '/api/analytics/events',
+ apiKey: import.meta.env.VITE_ANALYTICS_API_KEY,
+ batchSize: Number(import.meta.env.VITE_ANALYTICS_BATCH_SIZE) || DEFAULT_CONFIG.batchSize,
+ flushInterval: Number(import.meta.env.VITE_ANALYTICS_FLUSH_INTERVAL) || DEFAULT_CONFIG.flushInterval,
+});
 
 export default AnalyticsService;
-export type { AnalyticsEvent, UserSession, AnalyticsConfig };
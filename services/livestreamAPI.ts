@@ -1,80 +1,61 @@
-import { conditionalLogger } from '../src / utils / conditionalLogger';
-
-import type { LiveStream } from '../src / types / livestream';
+import type { LiveStream, LiveStreamMonetization, LiveStreamSettings, LiveStreamStats, IngestHealth, StreamPlayback, StreamReminder } from '../src/types/livestream';
 
 export interface LiveStreamConfig {
  title: string;
  description?: string;
  scheduledStartTime?: string;
  category?: string;
- tags?: string;
+ tags?: string[];
  visibility?: 'public' | 'private' | 'unlisted';
  thumbnailUrl?: string;
+ /** Record the broadcast and publish it as a video when it ends (default on) */
+ enableRecording?: boolean;
 }
 
 export interface ScheduledStream {
- id: string;,
+ id: string;
  title: string;
- description: string;,
+ description: string;
  scheduledStartTime: string;
- status: 'scheduled' | 'live' | 'ended';,
+ status: 'scheduled' | 'live' | 'ended';
  createdAt: string;
- category: string;,
- tags: string;
- visibility: 'public' | 'unlisted' | 'private';,
+ category: string;
+ tags: string[];
+ visibility: 'public' | 'unlisted' | 'private';
  thumbnailUrl: string;
- reminderSet: boolean
+ reminderSet: boolean;
 }
 
-export class LiveStreamService {
- streams; // Will be assigned after class definition
-
- async createStream(config: LiveStreamConfig): Promise<any> < ScheduledStream> {
- conditionalLogger.info('Creating scheduled stream:', config);
-
- // Placeholder implementation
- const stream: ScheduledStream = {,
- id: `stream_${Date.now()}`,
- title: config.title,
- description: config.description || '',
- scheduledStartTime: config.scheduledStartTime || new Date().toISOString(),
- status: 'scheduled',
- createdAt: new Date().toISOString(),
- category: config.category || 'General',
- tags: config.tags || [],
- visibility: config.visibility || 'public',
- thumbnailUrl: config.thumbnailUrl || '',
- reminderSet: false };
-
- return stream;
- }
-
- async getScheduledStreams(): Promise<any> < ScheduledStream[]> {
- conditionalLogger.info('Getting scheduled streams');
+/** A stream as the server returns it; `streamKey`/`streamUrl` only reach the owner */
+interface StreamRecord {
+ id: string;
+ title: string;
+ description: string;
+ category: string;
+ tags: string[];
+ visibility: 'public' | 'unlisted' | 'private';
+ thumbnailUrl: string;
+ scheduledStartTime: string | null;
+ status: 'scheduled' | 'live' | 'ended';
+ creatorId: string;
+ creatorName: string;
+ createdAt: string;
+ playback: StreamPlayback;
+ enableRecording?: boolean;
+ endReason?: 'finished' | 'missed' | null;
+ streamKey?: string | null;
+ streamUrl?: string;
+}
 
- // Placeholder implementation
- return [];
+export class LiveStreamServiceError extends Error {
+ constructor(message: string, public readonly status: number) {
+ super(message);
+ this.name = 'LiveStreamServiceError';
  }
+}
 
- async getStreamById(id): Promise<any> < LiveStream | null> {
- conditionalLogger.info('Getting stream by ID:', id);
-
- // Placeholder implementation
- const stream: LiveStream = {
- id,
- title: 'Sample Live Stream',
- description: 'A sample live stream',
- thumbnailUrl: '',
- streamUrl: '',
- streamKey: 'key123',
- category: 'General',
- tags: [],
- visibility: 'public',
- status: 'live',
- creatorId: 'creator1',
- creatorName: 'Creator',
- creatorAvatar: '',
- settings: {,
+// Settings, stats and revenue are not stored with the stream yet
+const DEFAULT_SETTINGS: LiveStreamSettings = {
  enableChat: true,
  enableSuperChat: false,
  enablePolls: false,
@@ -88,8 +69,10 @@ export class LiveStreamService {
  frameRate: 60,
  enableRecording: true,
  enableMultiplatform: false,
- platforms: [] },
- stats: {,
+ platforms: []
+};
+
+const EMPTY_STATS: LiveStreamStats = {
  viewers: 0,
  peakViewers: 0,
  averageViewers: 0,
@@ -102,160 +85,189 @@ export class LiveStreamService {
  pollVotes: 0,
  qaQuestions: 0,
  streamHealth: 'excellent',
- bitrate: 5000,
+ bitrate: 0,
  frameDrops: 0,
- latency: 0 },
- monetization: {,
+ latency: 0
+};
+
+const EMPTY_MONETIZATION: LiveStreamMonetization = {
  totalRevenue: 0,
  superChatRevenue: 0,
  adRevenue: 0,
  membershipRevenue: 0,
  donationRevenue: 0,
- superChats: [] };
+ superChats: []
+};
+
+const toLiveStream = (record: StreamRecord): LiveStream => ({
+ id: record.id,
+ title: record.title,
+ description: record.description,
+ thumbnailUrl: record.thumbnailUrl,
+ streamUrl: record.streamUrl ?? '',
+ streamKey: record.streamKey ?? '',
+ category: record.category,
+ tags: record.tags,
+ visibility: record.visibility,
+ status: record.status,
+ ...(record.scheduledStartTime && { scheduledStartTime: new Date(record.scheduledStartTime) }),
+ ...(record.playback.startedAt && { actualStartTime: new Date(record.playback.startedAt) }),
+ ...(record.playback.endedAt && { endTime: new Date(record.playback.endedAt) }),
+ ...(record.endReason && { endReason: record.endReason }),
+ creatorId: record.creatorId,
+ creatorName: record.creatorName,
+ creatorAvatar: '',
+ settings: { ...DEFAULT_SETTINGS, enableRecording: record.enableRecording !== false },
+ stats: EMPTY_STATS,
+ monetization: EMPTY_MONETIZATION
+});
+
+const toScheduledStream = (record: StreamRecord): ScheduledStream => ({
+ id: record.id,
+ title: record.title,
+ description: record.description,
+ scheduledStartTime: record.scheduledStartTime ?? record.createdAt,
+ status: record.status,
+ createdAt: record.createdAt,
+ category: record.category,
+ tags: record.tags,
+ visibility: record.visibility,
+ thumbnailUrl: record.thumbnailUrl,
+ reminderSet: false
+});
+
+/**
+ * Creator-side live streams on the dev server. Creating a stream issues its
+ * stream key; the stream goes live when an encoder publishes with that key
+ * and ends when the encoder disconnects or `endStream` cuts it off.
+ */
+export class LiveStreamService {
+ private userId: string | null = null;
 
- return stream;
+ constructor(private readonly apiUrl = '/api') {}
+
+ /** The signed-in creator, who owns the streams they create */
+ setUser(userId: string | null): void {
+ this.userId = userId;
  }
 
- async updateStream(id, config: Partial < LiveStreamConfig>): Promise<any> < ScheduledStream> {
- conditionalLogger.info('Updating stream', { id, config });
+ async createStream(config: LiveStreamConfig): Promise<LiveStream> {
+ return toLiveStream(await this.request<StreamRecord>('/live/streams', { method: 'POST', body: config }));
+ }
 
- // Placeholder implementation
- const stream: ScheduledStream = {,
- id: `stream_${Date.now()}`,
- title: config.title || 'Updated Stream',
- description: config.description || '',
- scheduledStartTime: config.scheduledStartTime || new Date().toISOString(),
- status: 'scheduled',
- createdAt: new Date().toISOString(),
- category: config.category || 'General',
- tags: config.tags || [],
- visibility: config.visibility || 'public',
- thumbnailUrl: config.thumbnailUrl || '',
- reminderSet: false };
+ async getScheduledStreams(): Promise<ScheduledStream[]> {
+ const { streams } = await this.request<{ streams: StreamRecord[] }>('/live/streams');
+ return streams.map(toScheduledStream);
+ }
 
- return stream;
+ /** The creator's streams with their stream keys */
+ async getMyStreams(): Promise<LiveStream[]> {
+ const { streams } = await this.request<{ streams: StreamRecord[] }>('/live/streams');
+ return streams.map(toLiveStream);
  }
 
- async deleteStream(id): Promise<any> < void> {
- conditionalLogger.info('Deleting stream:', id);
- // Placeholder implementation
+ async getStreamById(id: string): Promise<LiveStream | null> {
+ try {
+ return toLiveStream(await this.request<StreamRecord>(`/live/streams/${encodeURIComponent(id)}`));
+ } catch (error) {
+ if (error instanceof LiveStreamServiceError && error.status === 404) {
+ return null;
+ }
+ throw error;
+ }
  }
 
- async startStream(id): Promise<any> < LiveStream> {
- conditionalLogger.info('Starting stream:', id);
+ async updateStream(id: string, config: Partial<LiveStreamConfig>): Promise<ScheduledStream> {
+ return toScheduledStream(await this.request<StreamRecord>(`/live/streams/${encodeURIComponent(id)}`, { method: 'PATCH', body: config }));
+ }
 
- // Placeholder implementation
- const stream: LiveStream = {
- id,
- title: 'Live Stream',
- description: 'A live stream',
- thumbnailUrl: '',
- streamUrl: '',
- streamKey: 'key123',
- category: 'General',
- tags: [],
- visibility: 'public',
- status: 'live',
- creatorId: 'creator1',
- creatorName: 'Creator',
- creatorAvatar: '',
- settings: {,
- enableChat: true,
- enableSuperChat: false,
- enablePolls: false,
- enableQA: false,
- chatMode: 'live',
- slowMode: 0,
- subscribersOnly: false,
- moderationLevel: 'moderate',
- quality: '1080p',
- bitrate: 5000,
- frameRate: 60,
- enableRecording: true,
- enableMultiplatform: false,
- platforms: [] },
- stats: {,
- viewers: 0,
- peakViewers: 0,
- averageViewers: 0,
- duration: 0,
- likes: 0,
- dislikes: 0,
- chatMessages: 0,
- superChatAmount: 0,
- superChatCount: 0,
- pollVotes: 0,
- qaQuestions: 0,
- streamHealth: 'excellent',
- bitrate: 5000,
- frameDrops: 0,
- latency: 0 },
- monetization: {,
- totalRevenue: 0,
- superChatRevenue: 0,
- adRevenue: 0,
- membershipRevenue: 0,
- donationRevenue: 0,
- superChats: [] };
+ async deleteStream(id: string): Promise<void> {
+ await this.request<void>(`/live/streams/${encodeURIComponent(id)}`, { method: 'DELETE' });
+ }
 
+ /**
+ * Streams start when the encoder connects; this returns the stream with the
+ * key and server URL to give it.
+ */
+ async startStream(id: string): Promise<LiveStream> {
+ const stream = await this.getStreamById(id);
+ if (!stream) {
+ throw new LiveStreamServiceError('Live stream not found', 404);
+ }
  return stream;
  }
 
- async endStream(id): Promise<any> < void> {
- conditionalLogger.info('Ending stream:', id);
- // Placeholder implementation
+ /** Disconnects the encoder; the key stays valid for the next broadcast */
+ async endStream(id: string): Promise<void> {
+ await this.request<void>(`/live/streams/${encodeURIComponent(id)}/end`, { method: 'POST' });
  }
 
- async stopStream(id): Promise<any> < void> {
- conditionalLogger.info('Stopping stream:', id);
- // Placeholder implementation - alias for endStream
+ async stopStream(id: string): Promise<void> {
  return this.endStream(id);
  }
 
- async getStreamStats(id): Promise<any> < any> {
- conditionalLogger.info('Getting stream stats:', id);
-
- return {
- viewers: 0,
- duration: 0,
- chatMessages: 0 };
+ /** The signed-in viewer's reminder for an upcoming stream */
+ async getReminder(id: string): Promise<StreamReminder> {
+ return this.request<StreamReminder>(`/live/streams/${encodeURIComponent(id)}/reminder`);
  }
-export const liveStreamService = new LiveStreamService();
 
-// Add streams object for API compatibility
-liveStreamService.streams = {
- async createStream(config: LiveStreamConfig): Promise<any> < ScheduledStream> {
- return liveStreamService.createStream(config);
- },
+ /** Asks to be notified `offsets` minutes before the stream starts */
+ async setReminder(id: string, offsets: number[]): Promise<StreamReminder> {
+ return this.request<StreamReminder>(`/live/streams/${encodeURIComponent(id)}/reminder`, { method: 'PUT', body: { offsets } });
+ }
 
- async getScheduledStreams(): Promise<any> < ScheduledStream[]> {
- return liveStreamService.getScheduledStreams();
- },
+ async cancelReminder(id: string): Promise<void> {
+ await this.request<void>(`/live/streams/${encodeURIComponent(id)}/reminder`, { method: 'DELETE' });
+ }
 
- async getStream(id): Promise<any> < LiveStream | null> {
- return liveStreamService.getStreamById(id);
- },
+ /** iCalendar link for one upcoming stream */
+ getCalendarUrl(id: string): string {
+ return `${this.apiUrl}/live/streams/${encodeURIComponent(id)}/calendar.ics`;
+ }
 
- async updateStream(id, config: Partial < LiveStreamConfig>): Promise<any> < ScheduledStream> {
- return liveStreamService.updateStream(id, config);
- },
+ /** Public iCalendar feed of a creator's upcoming streams, for calendar apps to subscribe to */
+ getScheduleCalendarUrl(creatorId: string): string {
+ return `${this.apiUrl}/live/creators/${encodeURIComponent(creatorId)}/schedule.ics`;
+ }
 
- async deleteStream(id): Promise<any> < void> {
- return liveStreamService.deleteStream(id);
- },
+ /** The signed-in creator's whole upcoming schedule, unlisted and private streams included */
+ async downloadSchedule(creatorId: string): Promise<Blob> {
+ const headers: Record<string, string> = this.userId ? { 'X-User-Id': this.userId } : {};
+ const response = await fetch(this.getScheduleCalendarUrl(creatorId), { headers });
+ if (!response.ok) {
+ throw new LiveStreamServiceError(`HTTP error! status: ${response.status}`, response.status);
+ }
+ return response.blob();
+ }
 
- async startStream(id): Promise<any> < LiveStream> {
- return liveStreamService.startStream(id);
- },
+ async getStreamStats(id: string): Promise<Partial<LiveStreamStats>> {
+ const health = await this.request<IngestHealth>(`/live/streams/${encodeURIComponent(id)}/ingest/health`);
+ return {
+ bitrate: health.bitrateKbps ?? 0,
+ frameDrops: health.droppedFrames ?? 0,
+ streamHealth: health.health ?? 'poor',
+ duration: health.startedAt ? Math.round((Date.now() - Date.parse(health.startedAt)) / 1000) : 0
+ };
+ }
 
- async stopStream(id): Promise<any> < void> {
- return liveStreamService.stopStream(id);
- },
+ private async request<T>(endpoint: string, options: { method?: string; body?: unknown } = {}): Promise<T> {
+ const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+ if (this.userId) {
+ headers['X-User-Id'] = this.userId;
+ }
+ const response = await fetch(`${this.apiUrl}${endpoint}`, {
+ method: options.method || 'GET',
+ headers,
+ body: options.body === undefined ? undefined : JSON.stringify(options.body)
+ });
+ if (!response.ok) {
+ const payload = await response.json().catch(() => null);
+ throw new LiveStreamServiceError(payload?.message || `HTTP error! status: ${response.status}`, response.status);
+ }
+ return response.status === 204 ? (undefined as T) : response.json();
+ }
+}
 
- async endStream(id): Promise<any> < void> {
- return liveStreamService.endStream(id);
- },
+export const liveStreamService = new LiveStreamService();
 
- async getStreamStats(id): Promise<any> < any> {
- return liveStreamService.getStreamStats(id);
- };
\ No newline at end of file
+export default liveStreamService;
@@ -0,0 +1,171 @@
+// Local catalog provider - the dev server's videos, search, trending and comments, no API keys needed
+import { SearchProviderError, canonicalVideoId } from './searchProviders';
+
+import type { ProviderComment, ProviderRequestOptions, ProviderVideo, SearchProvider, TrendingOptions } from './searchProviders';
+
+export interface LocalCatalogProviderConfig {
+ apiUrl?: string;
+ timeout?: number;
+}
+
+interface CatalogVideo {
+ id: string;
+ title: string;
+ description?: string;
+ thumbnailUrl?: string;
+ videoUrl?: string;
+ duration?: string | number;
+ views?: string | number;
+ likes?: number;
+ uploadedAt?: string;
+ publishedAt?: string;
+ channelId?: string;
+ channelName?: string;
+ channelAvatar?: string;
+ category?: string;
+ tags?: string[];
+ isLive?: boolean;
+}
+
+interface CatalogComment {
+ id: string;
+ authorName: string;
+ authorAvatar: string;
+ content: string;
+ likes: number;
+ createdAt: string;
+ replyCount: number;
+ isDeleted: boolean;
+}
+
+const PROVIDER_ID = 'local';
+
+const formatDuration = (duration: string | number | undefined) => {
+ if (typeof duration !== 'number') {
+ return duration;
+ }
+ const seconds = Math.round(duration);
+ return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const toProviderVideo = (video: CatalogVideo): ProviderVideo => ({
+ id: video.id,
+ title: video.title,
+ description: video.description ?? '',
+ thumbnailUrl: video.thumbnailUrl ?? '',
+ videoUrl: video.videoUrl,
+ duration: formatDuration(video.duration),
+ // The catalog formats view counts for display ("12,345")
+ viewCount: video.views === undefined ? undefined : Number(String(video.views).replace(/\D/g, '')),
+ likeCount: video.likes,
+ publishedAt: video.publishedAt ?? video.uploadedAt,
+ channelId: video.channelId,
+ channelName: video.channelName,
+ channelAvatarUrl: video.channelAvatar,
+ category: video.category,
+ tags: video.tags,
+ isLive: video.isLive,
+ sources: [PROVIDER_ID],
+});
+
+/**
+ * Serves videos from server/dev-server.js, so search, recommendations and
+ * comments work with no network access beyond the dev server. Unmetered and
+ * always configured; the registry keeps it as the last resort behind the
+ * YouTube-backed providers unless it is picked explicitly.
+ */
+export class LocalCatalogSearchProvider implements SearchProvider {
+ readonly id = PROVIDER_ID;
+ readonly name = 'Local catalog';
+ readonly capabilities = { metadata: true, comments: true, trending: true };
+ private config: Required<LocalCatalogProviderConfig>;
+
+ constructor(config: LocalCatalogProviderConfig = {}) {
+ this.config = {
+ apiUrl: '/api',
+ timeout: 5000,
+ ...config,
+ };
+ }
+
+ isConfigured(): boolean {
+ return true;
+ }
+
+ async search(query: string, { maxResults = 20, signal }: ProviderRequestOptions = {}): Promise<ProviderVideo[]> {
+ const { results } = await this.request<{ results: CatalogVideo[] }>(
+ `/search?q=${encodeURIComponent(query)}&maxResults=${maxResults}`,
+ signal
+ );
+ return results.map(toProviderVideo);
+ }
+
+ /** The dev server makes up a video for any ID, so leave YouTube videos to the providers that have them */
+ ownsVideo(id: string): boolean {
+ return canonicalVideoId(id) === id;
+ }
+
+ async getVideos(ids: string[], { signal }: ProviderRequestOptions = {}): Promise<ProviderVideo[]> {
+ const videos = await Promise.all(
+ ids.map(id => this.request<CatalogVideo>(`/videos/${encodeURIComponent(id)}`, signal))
+ );
+ return videos.map(toProviderVideo);
+ }
+
+ async getComments(videoId: string, { maxResults = 20, signal }: ProviderRequestOptions = {}): Promise<ProviderComment[]> {
+ const { comments } = await this.request<{ comments: CatalogComment[] }>(
+ `/videos/${encodeURIComponent(videoId)}/comments?limit=${maxResults}`,
+ signal
+ );
+ return comments
+ .filter(comment => !comment.isDeleted)
+ .map(comment => ({
+ id: comment.id,
+ authorName: comment.authorName,
+ authorAvatar: comment.authorAvatar || undefined,
+ content: comment.content,
+ likes: comment.likes,
+ publishedAt: comment.createdAt,
+ replyCount: comment.replyCount,
+ }));
+ }
+
+ async getTrending({ category = 'all', maxResults = 20, signal }: TrendingOptions = {}): Promise<ProviderVideo[]> {
+ const { videos } = await this.request<{ videos: CatalogVideo[] }>(
+ `/trending?category=${encodeURIComponent(category)}&maxResults=${maxResults}`,
+ signal
+ );
+ return videos.map(toProviderVideo);
+ }
+
+ private async request<T>(endpoint: string, signal?: AbortSignal): Promise<T> {
+ const controller = new AbortController();
+ const abort = () => controller.abort();
+ signal?.addEventListener('abort', abort);
+ let timedOut = false;
+ const timer = setTimeout(() => {
+ timedOut = true;
+ abort();
+ }, this.config.timeout);
+ try {
+ const response = await fetch(`${this.config.apiUrl}${endpoint}`, { signal: controller.signal });
+ if (!response.ok) {
+ const payload = await response.json().catch(() => null);
+ throw new SearchProviderError(payload?.message || `HTTP error! status: ${response.status}`, response.status, PROVIDER_ID);
+ }
+ return await response.json();
+ } catch (error) {
+ // A timeout is the provider failing, not the caller giving up, so the registry should fall back
+ if (timedOut) {
+ throw new SearchProviderError('Local catalog did not respond in time', 504, PROVIDER_ID);
+ }
+ throw error;
+ } finally {
+ clearTimeout(timer);
+ signal?.removeEventListener('abort', abort);
+ }
+ }
+}
+
+export const localCatalogSearchProvider = new LocalCatalogSearchProvider();
+export default localCatalogSearchProvider;
@@ -0,0 +1,21 @@
+// The app's search provider registry, preferring whichever provider the settings pick
+import { localCatalogSearchProvider } from './localCatalogSearchProvider';
+import { SearchProviderRegistry } from './searchProviders';
+import { getYouTubeSearchProvider } from './settingsService';
+import { youtubeApiSearchProvider } from './youtubeApiSearchProvider';
+import { youtubeSearchService } from './youtubeSearchService';
+
+/**
+ * Registration order is fallback order: the YouTube Data API has the richest
+ * data, Google Custom Search still finds YouTube videos when the API's quota
+ * is gone, and the local catalog answers when neither is configured or
+ * reachable, so the app also runs offline against the dev server. Its mock
+ * videos are kept out of merged hybrid results otherwise.
+ */
+export const searchProviders = new SearchProviderRegistry({ mode: getYouTubeSearchProvider });
+
+searchProviders.register(youtubeApiSearchProvider);
+searchProviders.register(youtubeSearchService);
+searchProviders.register(localCatalogSearchProvider, { fallbackOnly: true });
+
+export default searchProviders;
@@ -0,0 +1,480 @@
+// Search providers - registry, quota accounting, fallback and merged results across video sources
+
+/** What a provider can do besides searching */
+export interface SearchProviderCapabilities {
+ metadata: boolean;
+ comments: boolean;
+ trending: boolean;
+}
+
+export type QuotaOperation = 'search' | 'metadata' | 'comments' | 'trending';
+
+export interface ProviderQuota {
+ /** Units available per day; the day rolls over at midnight Pacific time, as YouTube's does */
+ dailyLimit: number;
+ /** Units one call costs; `items` is the number of IDs asked for by a metadata call */
+ cost: (operation: QuotaOperation, items: number) => number;
+}
+
+/** A video as any provider reports it; fields a provider can't fill are left out */
+export interface ProviderVideo {
+ /** App video ID: catalog IDs as they are, YouTube videos as `youtube-<videoId>` */
+ id: string;
+ title: string;
+ description: string;
+ thumbnailUrl: string;
+ videoUrl?: string;
+ /** "m:ss" or "h:mm:ss" */
+ duration?: string;
+ viewCount?: number;
+ likeCount?: number;
+ commentCount?: number;
+ publishedAt?: string;
+ channelId?: string;
+ channelName?: string;
+ channelAvatarUrl?: string;
+ category?: string;
+ tags?: string[];
+ isLive?: boolean;
+ /** IDs of the providers that returned this video, the one whose fields won first */
+ sources: string[];
+}
+
+export interface ProviderComment {
+ id: string;
+ authorName: string;
+ authorAvatar?: string;
+ content: string;
+ likes: number;
+ publishedAt: string;
+ replyCount: number;
+}
+
+export interface ProviderRequestOptions {
+ maxResults?: number;
+ signal?: AbortSignal;
+}
+
+export interface TrendingOptions extends ProviderRequestOptions {
+ category?: string;
+}
+
+/**
+ * A source of videos. Only `search` is required; the optional methods must be
+ * present exactly when the matching capability flag is set. Methods throw on
+ * failure (a `SearchProviderError` with `quotaExceeded` when the provider's
+ * own quota ran out) so the registry can fall back to the next provider.
+ */
+export interface SearchProvider {
+ id: string;
+ name: string;
+ capabilities: SearchProviderCapabilities;
+ /** Omitted for unmetered providers */
+ quota?: ProviderQuota;
+ /** For providers that meter themselves instead; reported by `getStatus` */
+ quotaStatus?(): { used: number; limit: number; remaining: number };
+ /** False when the provider lacks credentials and should not be tried */
+ isConfigured(): boolean;
+ search(query: string, options?: ProviderRequestOptions): Promise<ProviderVideo[]>;
+ /** Whether `getVideos` and `getComments` can look up this ID; every ID when omitted */
+ ownsVideo?(id: string): boolean;
+ /** Returns the videos it knows; unknown IDs are simply missing from the result */
+ getVideos?(ids: string[], options?: ProviderRequestOptions): Promise<ProviderVideo[]>;
+ getComments?(videoId: string, options?: ProviderRequestOptions): Promise<ProviderComment[]>;
+ getTrending?(options?: TrendingOptions): Promise<ProviderVideo[]>;
+}
+
+/** `hybrid` queries every available provider and merges the results */
+export type SearchProviderMode = 'hybrid' | string;
+
+export interface ProviderStatus {
+ id: string;
+ name: string;
+ capabilities: SearchProviderCapabilities;
+ configured: boolean;
+ /** Null for unmetered providers */
+ quota: { used: number; limit: number; remaining: number } | null;
+ /** Set while the provider is skipped after failing */
+ coolingDownUntil: string | null;
+ lastError: string | null;
+}
+
+export interface SearchProviderRegistryConfig {
+ /** Used when the caller doesn't pick one; a function is asked on every call, so it can follow a setting */
+ mode?: SearchProviderMode | (() => SearchProviderMode);
+ /** Where daily quota usage is kept; pass null to keep it in memory only */
+ storage?: Pick<Storage, 'getItem' | 'setItem'> | null;
+ /** First pause after a provider fails; doubles on each further failure */
+ cooldownMs?: number;
+ maxCooldownMs?: number;
+ now?: () => number;
+}
+
+export class SearchProviderError extends Error {
+ constructor(
+ message: string,
+ public readonly status: number,
+ public readonly providerId: string | null = null,
+ public readonly quotaExceeded = false
+ ) {
+ super(message);
+ this.name = 'SearchProviderError';
+ }
+}
+
+interface ProviderHealth {
+ failures: number;
+ coolingDownUntil: number;
+ lastError: string | null;
+}
+
+type QuotaLedger = Record<string, { day: string; used: number }>;
+
+const QUOTA_STORAGE_KEY = 'searchProviderQuota';
+// Reciprocal rank fusion constant; damps the advantage of a provider's top few results
+const RRF_K = 60;
+const DEFAULT_MAX_RESULTS = 20;
+
+// Prefixes earlier versions of the app put on IDs of YouTube videos found through other services
+const ID_PREFIXES = ['google-search-', 'youtube-'];
+
+/** The ID two providers would agree on for the same video */
+export const canonicalVideoId = (id: string): string => {
+ const prefix = ID_PREFIXES.find(candidate => id.startsWith(candidate));
+ return prefix ? id.slice(prefix.length) : id;
+};
+
+const pacificDay = (time: number) =>
+ new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Los_Angeles' }).format(time);
+
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const defaultStorage = () => (typeof localStorage === 'undefined' ? null : localStorage);
+
+/**
+ * Merges result lists from several providers. Videos are matched by canonical
+ * ID and ranked by reciprocal rank fusion, so one that several providers rank
+ * highly comes first. A merged video takes its fields from the first list it
+ * appears in and fills gaps from the others.
+ */
+export const mergeProviderResults = (lists: ProviderVideo[][], maxResults = Infinity): ProviderVideo[] => {
+ const merged = new Map<string, { video: ProviderVideo; score: number; order: number }>();
+ let order = 0;
+
+ lists.forEach(list => {
+ list.forEach((video, rank) => {
+ const key = canonicalVideoId(video.id);
+ const entry = merged.get(key);
+ const score = 1 / (RRF_K + rank + 1);
+ if (!entry) {
+ merged.set(key, { video: { ...video, sources: [...video.sources] }, score, order: order++ });
+ return;
+ }
+ entry.score += score;
+ for (const [field, value] of Object.entries(video) as Array<[keyof ProviderVideo, unknown]>) {
+ if (entry.video[field] === undefined && value !== undefined) {
+ (entry.video as unknown as Record<string, unknown>)[field] = value;
+ }
+ }
+ entry.video.sources.push(...video.sources.filter(source => !entry.video.sources.includes(source)));
+ });
+ });
+
+ return [...merged.values()]
+ .sort((a, b) => b.score - a.score || a.order - b.order)
+ .slice(0, maxResults)
+ .map(entry => entry.video);
+};
+
+/**
+ * Keeps the app's video sources behind one interface. Providers are tried in
+ * registration order (or with the chosen one first); one that throws, or
+ * whose daily quota can't cover the call, is skipped and the next one is
+ * used. A failing provider then rests for a growing cooldown. In `hybrid`
+ * mode searches go to every usable provider at once and the results are
+ * merged, so a single provider failing only thins the results.
+ */
+export class SearchProviderRegistry {
+ private providers: SearchProvider[] = [];
+ private health = new Map<string, ProviderHealth>();
+ private fallbackOnly = new Set<string>();
+ private ledger: QuotaLedger;
+ private config: Required<Omit<SearchProviderRegistryConfig, 'storage'>> & {
+ storage: Pick<Storage, 'getItem' | 'setItem'> | null;
+ };
+
+ constructor(config: SearchProviderRegistryConfig = {}) {
+ this.config = {
+ mode: 'hybrid',
+ cooldownMs: 30 * 1000,
+ maxCooldownMs: 10 * 60 * 1000,
+ now: Date.now,
+ ...config,
+ storage: config.storage === undefined ? defaultStorage() : config.storage,
+ };
+ this.ledger = this.loadLedger();
+ }
+
+ /**
+ * Adds a provider, or replaces the one with the same ID in place. A
+ * `fallbackOnly` provider stays out of hybrid searches unless none of the
+ * others can answer.
+ */
+ register(provider: SearchProvider, options: { fallbackOnly?: boolean } = {}): void {
+ const index = this.providers.findIndex(existing => existing.id === provider.id);
+ if (index === -1) {
+ this.providers.push(provider);
+ } else {
+ this.providers[index] = provider;
+ }
+ if (options.fallbackOnly) {
+ this.fallbackOnly.add(provider.id);
+ } else {
+ this.fallbackOnly.delete(provider.id);
+ }
+ }
+
+ unregister(id: string): void {
+ this.providers = this.providers.filter(provider => provider.id !== id);
+ this.health.delete(id);
+ this.fallbackOnly.delete(id);
+ }
+
+ get(id: string): SearchProvider | undefined {
+ return this.providers.find(provider => provider.id === id);
+ }
+
+ list(): SearchProvider[] {
+ return [...this.providers];
+ }
+
+ setMode(mode: SearchProviderMode | (() => SearchProviderMode)): void {
+ this.config.mode = mode;
+ }
+
+ getMode(): SearchProviderMode {
+ return typeof this.config.mode === 'function' ? this.config.mode() : this.config.mode;
+ }
+
+ async search(query: string, options: ProviderRequestOptions & { mode?: SearchProviderMode } = {}): Promise<ProviderVideo[]> {
+ const { mode = this.getMode(), maxResults = DEFAULT_MAX_RESULTS, signal } = options;
+ const candidates = this.candidates(mode, () => true);
+
+ if (mode !== 'hybrid') {
+ return this.firstSuccessful(candidates, 'search', 1, provider => provider.search(query, { maxResults, signal }));
+ }
+
+ const usable = candidates.filter(provider => !this.fallbackOnly.has(provider.id) && this.reserve(provider, 'search', 1));
+ const settled = await Promise.allSettled(usable.map(provider => this.call(provider, () => provider.search(query, { maxResults, signal }))));
+ const aborted = settled.find(result => result.status === 'rejected' && isAbort(result.reason)) as PromiseRejectedResult | undefined;
+ if (aborted) {
+ throw aborted.reason;
+ }
+ const lists = settled.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+ if (lists.length > 0) {
+ return mergeProviderResults(lists, maxResults);
+ }
+
+ const fallbacks = candidates.filter(provider => this.fallbackOnly.has(provider.id));
+ try {
+ return await this.firstSuccessful(fallbacks, 'search', 1, provider => provider.search(query, { maxResults, signal }));
+ } catch (error) {
+ throw isAbort(error) ? error : this.exhausted(candidates, 'search');
+ }
+ }
+
+ /**
+ * Details for `ids`, asking each metadata provider in turn for whatever the
+ * previous ones didn't return. Results keep the order of `ids`; IDs no
+ * provider knows are left out.
+ */
+ async getVideos(ids: string[], options: ProviderRequestOptions & { mode?: SearchProviderMode } = {}): Promise<ProviderVideo[]> {
+ const { mode = this.getMode(), signal } = options;
+ const found = new Map<string, ProviderVideo>();
+ let lastError: unknown = null;
+
+ for (const provider of this.candidates(mode, capable => capable.metadata)) {
+ const missing = ids.filter(id => !found.has(id) && (provider.ownsVideo?.(id) ?? true));
+ if (missing.length === 0) {
+ continue;
+ }
+ if (!this.reserve(provider, 'metadata', missing.length)) {
+ continue;
+ }
+ try {
+ const videos = await this.call(provider, () => provider.getVideos!(missing, { signal }));
+ videos.forEach(video => {
+ const requested = missing.find(id => canonicalVideoId(id) === canonicalVideoId(video.id));
+ if (requested) {
+ found.set(requested, video);
+ }
+ });
+ } catch (error) {
+ if (isAbort(error)) {
+ throw error;
+ }
+ lastError = error;
+ }
+ }
+
+ if (found.size === 0 && ids.length > 0 && lastError) {
+ throw lastError;
+ }
+ return ids.flatMap(id => (found.has(id) ? [found.get(id)!] : []));
+ }
+
+ async getVideo(id: string, options: ProviderRequestOptions & { mode?: SearchProviderMode } = {}): Promise<ProviderVideo | null> {
+ const [video] = await this.getVideos([id], options);
+ return video ?? null;
+ }
+
+ async getComments(videoId: string, options: ProviderRequestOptions & { mode?: SearchProviderMode } = {}): Promise<ProviderComment[]> {
+ const { mode = this.getMode(), maxResults = DEFAULT_MAX_RESULTS, signal } = options;
+ const candidates = this.candidates(mode, capable => capable.comments)
+ .filter(provider => provider.ownsVideo?.(videoId) ?? true);
+ return this.firstSuccessful(candidates, 'comments', 1, provider => provider.getComments!(videoId, { maxResults, signal }));
+ }
+
+ async getTrending(options: TrendingOptions & { mode?: SearchProviderMode } = {}): Promise<ProviderVideo[]> {
+ const { mode = this.getMode(), maxResults = DEFAULT_MAX_RESULTS, category, signal } = options;
+ const candidates = this.candidates(mode, capable => capable.trending);
+ return this.firstSuccessful(candidates, 'trending', 1, provider => provider.getTrending!({ category, maxResults, signal }));
+ }
+
+ /** Today's quota use, cooldowns and last errors, for settings and diagnostics */
+ getStatus(): ProviderStatus[] {
+ const now = this.config.now();
+ return this.providers.map(provider => {
+ const health = this.health.get(provider.id);
+ const used = provider.quota ? this.usedToday(provider) : 0;
+ const ownQuota = provider.quotaStatus?.() ?? null;
+ return {
+ id: provider.id,
+ name: provider.name,
+ capabilities: provider.capabilities,
+ configured: provider.isConfigured(),
+ quota: provider.quota
+ ? { used, limit: provider.quota.dailyLimit, remaining: Math.max(0, provider.quota.dailyLimit - used) }
+ : ownQuota,
+ coolingDownUntil: health && health.coolingDownUntil > now ? new Date(health.coolingDownUntil).toISOString() : null,
+ lastError: health?.lastError ?? null,
+ };
+ });
+ }
+
+ /** Configured providers with the capability, the mode's own provider first */
+ private candidates(mode: SearchProviderMode, capable: (capabilities: SearchProviderCapabilities) => boolean): SearchProvider[] {
+ const now = this.config.now();
+ const usable = this.providers.filter(provider =>
+ provider.isConfigured()
+ && capable(provider.capabilities)
+ && (this.health.get(provider.id)?.coolingDownUntil ?? 0) <= now
+ );
+ const preferred = usable.findIndex(provider => provider.id === mode);
+ if (preferred > 0) {
+ usable.unshift(...usable.splice(preferred, 1));
+ }
+ return usable;
+ }
+
+ private async firstSuccessful<T>(
+ candidates: SearchProvider[],
+ operation: QuotaOperation,
+ items: number,
+ run: (provider: SearchProvider) => Promise<T>
+ ): Promise<T> {
+ let lastError: unknown = null;
+ for (const provider of candidates) {
+ if (!this.reserve(provider, operation, items)) {
+ continue;
+ }
+ try {
+ return await this.call(provider, () => run(provider));
+ } catch (error) {
+ if (isAbort(error)) {
+ throw error;
+ }
+ lastError = error;
+ }
+ }
+ throw lastError instanceof SearchProviderError && candidates.length === 1 ? lastError : this.exhausted(candidates, operation);
+ }
+
+ /** Runs one provider call, tracking its health */
+ private async call<T>(provider: SearchProvider, run: () => Promise<T>): Promise<T> {
+ try {
+ const result = await run();
+ this.health.delete(provider.id);
+ return result;
+ } catch (error) {
+ if (!isAbort(error)) {
+ this.recordFailure(provider, error);
+ }
+ throw error;
+ }
+ }
+
+ private recordFailure(provider: SearchProvider, error: unknown): void {
+ if (error instanceof SearchProviderError && error.quotaExceeded && provider.quota) {
+ // The provider knows better than our count; treat the day as used up
+ this.ledger[provider.id] = { day: pacificDay(this.config.now()), used: provider.quota.dailyLimit };
+ this.saveLedger();
+ }
+ const failures = (this.health.get(provider.id)?.failures ?? 0) + 1;
+ const delay = Math.min(this.config.cooldownMs * 2 ** (failures - 1), this.config.maxCooldownMs);
+ this.health.set(provider.id, {
+ failures,
+ coolingDownUntil: this.config.now() + delay,
+ lastError: error instanceof Error ? error.message : String(error),
+ });
+ }
+
+ /** Charges the call to the provider's quota; false when today's quota can't cover it */
+ private reserve(provider: SearchProvider, operation: QuotaOperation, items: number): boolean {
+ if (!provider.quota) {
+ return true;
+ }
+ const cost = provider.quota.cost(operation, items);
+ const used = this.usedToday(provider);
+ if (used + cost > provider.quota.dailyLimit) {
+ return false;
+ }
+ // Charged up front: APIs bill requests that fail, too
+ this.ledger[provider.id] = { day: pacificDay(this.config.now()), used: used + cost };
+ this.saveLedger();
+ return true;
+ }
+
+ private usedToday(provider: SearchProvider): number {
+ const entry = this.ledger[provider.id];
+ return entry && entry.day === pacificDay(this.config.now()) ? entry.used : 0;
+ }
+
+ private exhausted(candidates: SearchProvider[], operation: QuotaOperation): SearchProviderError {
+ if (candidates.length === 0) {
+ return new SearchProviderError(`No configured provider supports ${operation}`, 503);
+ }
+ const reasons = candidates.map(provider => {
+ const lastError = this.health.get(provider.id)?.lastError;
+ return `${provider.name}: ${lastError ?? 'daily quota used up'}`;
+ });
+ return new SearchProviderError(`Every provider failed (${reasons.join('; ')})`, 503);
+ }
+
+ private loadLedger(): QuotaLedger {
+ try {
+ const stored = this.config.storage?.getItem(QUOTA_STORAGE_KEY);
+ return stored ? JSON.parse(stored) : {};
+ } catch {
+ return {};
+ }
+ }
+
+ private saveLedger(): void {
+ try {
+ this.config.storage?.setItem(QUOTA_STORAGE_KEY, JSON.stringify(this.ledger));
+ } catch {
+ // Storage full or blocked; the count still holds for this page
+ }
+ }
+}
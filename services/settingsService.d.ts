@@ -1,4 +1,4 @@
-export type YouTubeSearchProvider = 'youtube-api' | 'google-search' | 'hybrid';
+export type YouTubeSearchProvider = 'youtube-api' | 'google-search' | 'local' | 'hybrid';
 export type YouTubePlayerType = 'youtube-player' | 'youtube-player-wrapper' | 'youtube-player-example';
 export type LocalVideoPlayerType = 'advanced-video-player' | 'video-player' | 'shorts-player' | 'short-display-card';
 export type VideoPlayerType = YouTubePlayerType | LocalVideoPlayerType;
@@ -4,7 +4,9 @@ import React from 'react';
 import type { Video } from '../src/types';
 import { isYouTubeDataApiBlocked } from '../src/utils/youtubeApiUtils';
 
-export type YouTubeSearchProvider = 'youtube-api' | 'google-search' | 'hybrid';
+// Which search provider to prefer; `hybrid` merges results from every configured one.
+// The others are tried first, with the rest as fallbacks (see services/searchProviders.ts)
+export type YouTubeSearchProvider = 'youtube-api' | 'google-search' | 'local' | 'hybrid';
 export type YouTubePlayerType = 'youtube-player' | 'youtube-player-wrapper' | 'youtube-player-example';
 export type LocalVideoPlayerType = 'advanced-video-player' | 'video-player' | 'shorts-player' | 'short-display-card';
 export type VideoPlayerType = YouTubePlayerType | LocalVideoPlayerType;
@@ -257,8 +259,8 @@ export const isPlayerEnabled = (playerType: VideoPlayerType): boolean => {
 
 // Get current YouTube search provider
 export const getYouTubeSearchProvider = (): YouTubeSearchProvider => {
- // Always use hybrid mode to ensure fallback mechanism works
- return 'hybrid';
+ // Any choice is safe: the search provider registry falls back to the others
+ return getSettings().youtubeSearchProvider || 'hybrid';
 };
 
 // Set YouTube search provider
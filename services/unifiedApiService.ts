@@ -1,43 +1,43 @@
-import type { Video } from '../types.ts';
-import type { Channel } from '../types.ts';
-import { isYouTubeDataApiBlocked } from '../src / utils / youtubeApiUtils';
+import { isYouTubeDataApiBlocked } from '../src/utils/youtubeApiUtils';
 
-import type { Playlist } from '../src / types / core';
+import type { Playlist } from '../src/types/core';
 import type { Video, Channel, Comment } from '../types.ts';
 
 // Unified API Configuration
 export interface ApiConfig {
  baseUrl: string;
  apiKey?: string;
- timeout: number;,
+ timeout: number;
  retryAttempts: number;
  retryDelay: number
 }
 
-const defaultConfig: ApiConfig = {,
- baseUrl: import.meta.env.VITE_API_BASE_URL || 'https://api.youtube.com / v3',
+const defaultConfig: ApiConfig = {
+ baseUrl: import.meta.env.VITE_API_BASE_URL || 'https://api.youtube.com/v3',
  apiKey: import.meta.env.VITE_YOUTUBE_API_KEY || '',
  timeout: 10000,
  retryAttempts: 3,
  retryDelay: 1000 };
 
+const QUOTA_EXHAUSTED_WARNING = 'YouTube Data API quota for today is used up; requests resume after the daily reset.';
+
 // Unified Cache System
 export class UnifiedCache {
- private cache = new Map < string, { data; timestamp: number; ttl: number }>();
+ private cache = new Map<string, { data: unknown; timestamp: number; ttl: number }>();
  private readonly defaultTTL = 15 * 60 * 1000; // 15 minutes
 
- set(key, data, ttl: number = this.defaultTTL): void {
+ set(key: string, data: unknown, ttl: number = this.defaultTTL): void {
  this.cache.set(key, {
  data,
  timestamp: Date.now(),
  ttl });
  }
 
- get < T>(key): T | null {
+ get<T>(key: string): T | null {
  const item = this.cache.get(key);
  if (!item) {
-return null;
-}
+ return null;
+ }
 
  const isExpired = Date.now() - item.timestamp > item.ttl;
  if (isExpired) {
@@ -60,49 +60,89 @@ return null;
  this.cache.delete(key);
  }
  }
+ }
 
  size(): number {
  return this.cache.size;
  }
+}
+
 // Unified Error Types
 export class ApiError extends Error {
- constructor(,
- message,
+ constructor(
+ message: string,
  public status?: number,
  public code?: string,
- public details?) {
+ public details?: unknown) {
  super(message);
  this.name = 'ApiError';
  }
+}
+
 export class NetworkError extends Error {
- constructor(message, public originalError?: Error) {
+ constructor(message: string, public originalError?: Error) {
  super(message);
  this.name = 'NetworkError';
  }
+}
+
 export class ValidationError extends Error {
- constructor(message, public field?: string) {
+ constructor(message: string, public field?: string) {
  super(message);
  this.name = 'ValidationError';
  }
+}
+
 // Request / Response Interceptors
 type RequestInterceptor = (config: RequestInit & { url: string }) => RequestInit & { url: string };
-type ResponseInterceptor = (response: Response) => Response | Promise<any> < Response>
-type ErrorInterceptor = (error: Error) => Error | Promise<any> < Error>
+type ResponseInterceptor = (response: Response) => Response | Promise<Response>;
+type ErrorInterceptor = (error: Error) => Error | Promise<Error>;
 export interface Interceptors {
- request: RequestInterceptor;,
- response: ResponseInterceptor;
- error: ErrorInterceptor
+ request: RequestInterceptor[];
+ response: ResponseInterceptor[];
+ error: ErrorInterceptor[]
 }
 
+// Cursor-paginated list response (YouTube Data API semantics)
+export interface PaginatedResponse<T> {
+ items: T[];
+ nextPageToken?: string;
+ prevPageToken?: string;
+ pageInfo?: {
+ totalResults: number;
+ resultsPerPage: number
+ };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+ typeof value === 'object' && value !== null;
+
+const firstArray = (...candidates: unknown[]): unknown[] =>
+ (candidates.find(Array.isArray) as unknown[] | undefined) ?? [];
+
+// Accepts both YouTube (`items`) and dev server (`videos` / `results`) list payloads
+const toPage = <T>(data: unknown): PaginatedResponse<T> => {
+ if (!isRecord(data)) {
+ return { items: [] };
+ }
+ const { nextPageToken, prevPageToken, pageInfo } = data;
+ return {
+ items: firstArray(data.items, data.videos, data.results) as T[],
+ ...(typeof nextPageToken === 'string' && nextPageToken && { nextPageToken }),
+ ...(typeof prevPageToken === 'string' && prevPageToken && { prevPageToken }),
+ ...(isRecord(pageInfo) && typeof pageInfo.totalResults === 'number' && typeof pageInfo.resultsPerPage === 'number' && {
+ pageInfo: { totalResults: pageInfo.totalResults, resultsPerPage: pageInfo.resultsPerPage } }) };
+};
+
 // Unified API Service
 export class UnifiedApiService {
  private config: ApiConfig;
  private cache: UnifiedCache;
  private interceptors: Interceptors;
- private requestQueue: Map < string, Promise<any> < any>> = new Map();
+ private requestQueue: Map<string, Promise<unknown>> = new Map();
 
- constructor(config: Partial < ApiConfig> = {}) {
- this.config = { ...defaultConfig as any, ...config };
+ constructor(config: Partial<ApiConfig> = {}) {
+ this.config = { ...defaultConfig, ...config };
  this.cache = new UnifiedCache();
  this.interceptors = {
  request: [],
@@ -120,7 +160,7 @@ export class UnifiedApiService {
 
  // Add default error interceptor
  this.addErrorInterceptor((error) => {
- (console).error('API Error:', error);
+ console.error('API Error:', error);
  return error;
  });
  }
@@ -139,45 +179,49 @@ export class UnifiedApiService {
  }
 
  // Core request method with unified error handling
- private async makeRequest < T>(,
- endpoint,
+ private async makeRequest<T>(
+ endpoint: string,
  options: RequestInit = {},
  cacheKey?: string,
  cacheTTL?: number,
- ): Promise<any> < T> {
+ ): Promise<T> {
  // Check cache first
  if (cacheKey) {
- const cached = this.cache.get < T>(cacheKey);
+ const cached = this.cache.get<T>(cacheKey);
  if (cached) {
  return cached;
  }
+ }
+
  // Deduplicate identical requests
  const requestKey = `${endpoint}:${JSON.stringify(options)}`;
- if (this.requestQueue.has(requestKey)) {
- return this.requestQueue.get(requestKey);
+ const inFlight = this.requestQueue.get(requestKey);
+ if (inFlight) {
+ return inFlight as Promise<T>;
  }
 
- const requestPromise<any> = this.executeRequest < T>(endpoint, options, cacheKey, cacheTTL);
- this.requestQueue.set(requestKey, requestPromise<any>);
+ const requestPromise = this.executeRequest<T>(endpoint, options, cacheKey, cacheTTL);
+ this.requestQueue.set(requestKey, requestPromise);
 
  try {
- const result = await requestPromise<any>
- return result;
+ return await requestPromise;
  } finally {
  this.requestQueue.delete(requestKey);
  }
- private async executeRequest < T>(,
- endpoint,
+ }
+
+ private async executeRequest<T>(
+ endpoint: string,
  options: RequestInit,
  cacheKey?: string,
  cacheTTL?: number,
- ): Promise<any> < T> {
+ ): Promise<T> {
  let config: RequestInit & { url: string } = {
- ...options as any,
+ ...options,
  url: `${this.config.baseUrl}${endpoint}`,
  headers: {
- 'Content - Type': 'application / json',
- ...(options.headers as Record < string, string>) };
+ 'Content-Type': 'application/json',
+ ...(options.headers as Record<string, string>) } };
 
  // Apply request interceptors
  for (const interceptor of this.interceptors.request) {
@@ -189,10 +233,10 @@ export class UnifiedApiService {
  for (let attempt = 0; attempt <= this.config.retryAttempts; attempt++) {
  try {
  const controller = new AbortController();
- const timeoutId = setTimeout((() => controller.abort()) as any, this.config.timeout);
+ const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
 
- let response = await (fetch)(config.url, {
- ...config as any,
+ let response = await fetch(config.url, {
+ ...config,
  signal: controller.signal });
 
  clearTimeout(timeoutId);
@@ -217,7 +261,7 @@ export class UnifiedApiService {
  this.cache.set(cacheKey, data, cacheTTL);
  }
 
- return data;
+ return data as T;
  } catch (error) {
  lastError = error as Error;
 
@@ -233,11 +277,12 @@ export class UnifiedApiService {
 
  // Wait before retry
  if (attempt < this.config.retryAttempts) {
- await new Promise<any>(resolve =>
- setTimeout((resolve) as any, this.config.retryDelay * Math.pow(2, attempt)),
+ await new Promise(resolve =>
+ setTimeout(resolve, this.config.retryDelay * Math.pow(2, attempt)),
  );
  }
  }
+ }
 
  throw lastError instanceof Error ? lastError : new Error('Request failed after all retry attempts');
  }
@@ -249,34 +294,33 @@ export class UnifiedApiService {
  regionCode?: string;
  maxResults?: number;
  pageToken?: string;
- } = {}): Promise<{ items: Video; nextPageToken?: string }> {
- // Check if YouTube Data API is blocked by admin settings
+ } = {}): Promise<PaginatedResponse<Video>> {
  if (isYouTubeDataApiBlocked()) {
- (console).warn('YouTube Data API v3 is disabled when Google Custom Search JSON API is selected as the YouTube Search Provider.');
+ console.warn(QUOTA_EXHAUSTED_WARNING);
  return { items: [] };
  }
  const queryParams = new URLSearchParams();
- queryParams.set('part', 'snippet,statistics,contentDetails');
- queryParams.set('chart', 'mostPopular');
- queryParams.set('regionCode', 'US');
+ queryParams.set('part', params.part || 'snippet,statistics,contentDetails');
+ queryParams.set('chart', params.chart || 'mostPopular');
+ queryParams.set('regionCode', params.regionCode || 'US');
  queryParams.set('maxResults', String(params.maxResults || 25));
  if (params.pageToken) {
-queryParams.set('pageToken', params.pageToken);
-}
+ queryParams.set('pageToken', params.pageToken);
+ }
 
  const cacheKey = `videos:${queryParams.toString()}`;
- return this.makeRequest(`/videos?${queryParams}`, {}, cacheKey, 10 * 60 * 1000);
+ const data = await this.makeRequest<unknown>(`/videos?${queryParams}`, {}, cacheKey, 10 * 60 * 1000);
+ return toPage<Video>(data);
  }
 
- async searchVideos(query, params: {
+ async searchVideos(query: string, params: {
  maxResults?: number;
  pageToken?: string;
  order?: string;
  type?: string;
- } = {}): Promise<{ items: Video; nextPageToken?: string }> {
- // Check if YouTube Data API is blocked by admin settings
+ } = {}): Promise<PaginatedResponse<Video>> {
  if (isYouTubeDataApiBlocked()) {
- (console).warn('YouTube Data API v3 is disabled when Google Custom Search JSON API is selected as the YouTube Search Provider.');
+ console.warn(QUOTA_EXHAUSTED_WARNING);
  return { items: [] };
  }
  const queryParams = new URLSearchParams();
@@ -285,39 +329,35 @@ queryParams.set('pageToken', params.pageToken);
  queryParams.set('type', params.type || 'video');
  queryParams.set('maxResults', String(params.maxResults || 25));
  if (params.pageToken) {
-queryParams.set('pageToken', params.pageToken);
-}
+ queryParams.set('pageToken', params.pageToken);
+ }
  if (params.order) {
-queryParams.set('order', params.order);
-}
+ queryParams.set('order', params.order);
+ }
 
  const cacheKey = `search:${query}:${queryParams.toString()}`;
- return this.makeRequest(`/search?${queryParams}`, {}, cacheKey, 5 * 60 * 1000);
+ const data = await this.makeRequest<unknown>(`/search?${queryParams}`, {}, cacheKey, 5 * 60 * 1000);
+ return toPage<Video>(data);
  }
 
- async getChannel(channelId): Promise<any> < Channel> {
- // Check if YouTube Data API is blocked by admin settings
+ async getChannel(channelId: string): Promise<Channel> {
  if (isYouTubeDataApiBlocked()) {
- (console).warn('YouTube Data API v3 is disabled when Google Custom Search JSON API is selected as the YouTube Search Provider.');
- throw new Error('YouTube Data API is disabled');
+ console.warn(QUOTA_EXHAUSTED_WARNING);
+ throw new Error('YouTube Data API quota exceeded');
  }
  const queryParams = new URLSearchParams({
  part: 'snippet,statistics,brandingSettings',
  id: channelId });
 
  const cacheKey = `channel:${channelId}`;
- const response = await this.makeRequest<{ items: Channel[] }>(
+ const response = await this.makeRequest<{ items?: Channel[] }>(
  `/channels?${queryParams}`,
  {},
  cacheKey,
  30 * 60 * 1000,
  );
 
- if (!response.items || response.items.length === 0) {
- throw new ApiError('Channel not found', 404, 'CHANNEL_NOT_FOUND');
- }
-
- const channel = response.items[0];
+ const channel = response.items?.[0];
  if (!channel) {
  throw new ApiError('Channel not found', 404, 'CHANNEL_NOT_FOUND');
  }
@@ -325,29 +365,24 @@ queryParams.set('order', params.order);
  return channel;
  }
 
- async getPlaylist(playlistId): Promise<any> < Playlist> {
- // Check if YouTube Data API is blocked by admin settings
+ async getPlaylist(playlistId: string): Promise<Playlist> {
  if (isYouTubeDataApiBlocked()) {
- (console).warn('YouTube Data API v3 is disabled when Google Custom Search JSON API is selected as the YouTube Search Provider.');
- throw new Error('YouTube Data API is disabled');
+ console.warn(QUOTA_EXHAUSTED_WARNING);
+ throw new Error('YouTube Data API quota exceeded');
  }
  const queryParams = new URLSearchParams({
  part: 'snippet,status',
  id: playlistId });
 
  const cacheKey = `playlist:${playlistId}`;
- const response = await this.makeRequest<{ items: Playlist[] }>(
+ const response = await this.makeRequest<{ items?: Playlist[] }>(
  `/playlists?${queryParams}`,
  {},
  cacheKey,
  15 * 60 * 1000,
  );
 
- if (!response.items || response.items.length === 0) {
- throw new ApiError('Playlist not found', 404, 'PLAYLIST_NOT_FOUND');
- }
-
- const playlist = response.items[0];
+ const playlist = response.items?.[0];
  if (!playlist) {
  throw new ApiError('Playlist not found', 404, 'PLAYLIST_NOT_FOUND');
  }
@@ -355,14 +390,13 @@ queryParams.set('order', params.order);
  return playlist;
  }
 
- async getComments(videoId, params: {
+ async getComments(videoId: string, params: {
  maxResults?: number;
  pageToken?: string;
  order?: string;
- } = {}): Promise<{ items: Comment; nextPageToken?: string }> {
- // Check if YouTube Data API is blocked by admin settings
+ } = {}): Promise<{ items: Comment[]; nextPageToken?: string }> {
  if (isYouTubeDataApiBlocked()) {
- (console).warn('YouTube Data API v3 is disabled when Google Custom Search JSON API is selected as the YouTube Search Provider.');
+ console.warn(QUOTA_EXHAUSTED_WARNING);
  return { items: [] };
  }
  const queryParams = new URLSearchParams();
@@ -371,8 +405,8 @@ queryParams.set('order', params.order);
  queryParams.set('maxResults', String(params.maxResults || 20));
  queryParams.set('order', params.order || 'relevance');
  if (params.pageToken) {
-queryParams.set('pageToken', params.pageToken);
-}
+ queryParams.set('pageToken', params.pageToken);
+ }
 
  const cacheKey = `comments:${videoId}:${queryParams.toString()}`;
  return this.makeRequest(`/commentThreads?${queryParams}`, {}, cacheKey, 5 * 60 * 1000);
@@ -388,12 +422,11 @@ queryParams.set('pageToken', params.pageToken);
  }
 
  // Configuration updates
- updateConfig(newConfig: Partial < ApiConfig>): void {
+ updateConfig(newConfig: Partial<ApiConfig>): void {
  this.config = { ...this.config, ...newConfig };
  }
+}
+
 // Export singleton instance
 export const unifiedApiService = new UnifiedApiService();
 export default unifiedApiService;
-
-// Export types for external use
-export type { ApiConfig };
\ No newline at end of file
@@ -0,0 +1,155 @@
+// YouTube Data API v3 provider - search, video details, comment threads and most-popular charts
+import { YouTubeApiError, youtubeDataApi } from '../src/services/api/youtubeDataApiClient';
+import { YOUTUBE_CATEGORY_IDS, formatIsoDuration, getYouTubeCategoryName } from '../src/utils/youtubeApiUtils';
+
+import { SearchProviderError, canonicalVideoId } from './searchProviders';
+
+import type { YouTubeDataApiClient } from '../src/services/api/youtubeDataApiClient';
+import type { YouTubeApiCommentThread, YouTubeApiVideo } from '../src/types/youtube';
+import type {
+ ProviderComment,
+ ProviderRequestOptions,
+ ProviderVideo,
+ SearchProvider,
+ TrendingOptions,
+} from './searchProviders';
+
+const PROVIDER_ID = 'youtube-api';
+const MAX_RESULTS_PER_PAGE = 50;
+
+const toProviderVideo = (video: YouTubeApiVideo): ProviderVideo => {
+ const { snippet, statistics, contentDetails } = video;
+ const thumbnails = snippet?.thumbnails ?? {};
+ return {
+ id: `youtube-${video.id}`,
+ title: snippet?.title ?? '',
+ description: snippet?.description ?? '',
+ thumbnailUrl: (thumbnails.high ?? thumbnails.medium ?? thumbnails.default)?.url ?? '',
+ videoUrl: `https://www.youtube.com/watch?v=${video.id}`,
+ duration: contentDetails ? formatIsoDuration(contentDetails.duration) : undefined,
+ viewCount: statistics?.viewCount === undefined ? undefined : Number(statistics.viewCount),
+ likeCount: statistics?.likeCount === undefined ? undefined : Number(statistics.likeCount),
+ commentCount: statistics?.commentCount === undefined ? undefined : Number(statistics.commentCount),
+ publishedAt: snippet?.publishedAt,
+ channelId: snippet?.channelId,
+ channelName: snippet?.channelTitle,
+ category: getYouTubeCategoryName(snippet?.categoryId),
+ tags: snippet?.tags,
+ isLive: snippet?.liveBroadcastContent === 'live',
+ sources: [PROVIDER_ID],
+ };
+};
+
+/** Client errors as the registry understands them, so it falls back when the quota runs out */
+const asProviderError = (error: unknown): unknown =>
+ error instanceof YouTubeApiError
+ ? new SearchProviderError(
+ `${error.message}${error.reasons.length ? ` (${error.reasons.join(', ')})` : ''}`,
+ error.status,
+ PROVIDER_ID,
+ error.quotaExceeded
+ )
+ : error;
+
+/**
+ * The YouTube Data API, through the app's quota-aware client. Searching is
+ * expensive (100 units of a 10,000-unit day), so in hybrid mode it is worth
+ * keeping another search provider registered to take over when the day's
+ * quota runs out; details for the results come from batched `videos.list`
+ * calls the client caches, and cached answers keep coming once the quota is
+ * gone. The client keeps the quota count, so the registry doesn't.
+ */
+export class YouTubeApiSearchProvider implements SearchProvider {
+ readonly id = PROVIDER_ID;
+ readonly name = 'YouTube Data API';
+ readonly capabilities = { metadata: true, comments: true, trending: true };
+
+ constructor(private client: YouTubeDataApiClient = youtubeDataApi) {}
+
+ isConfigured(): boolean {
+ return this.client.isConfigured();
+ }
+
+ quotaStatus(): { used: number; limit: number; remaining: number } {
+ const { used, limit, remaining } = this.client.getQuotaStatus();
+ return { used, limit, remaining };
+ }
+
+ async search(query: string, { maxResults = 20, signal }: ProviderRequestOptions = {}): Promise<ProviderVideo[]> {
+ try {
+ const { items } = await this.client.search({
+ type: 'video',
+ q: query,
+ maxResults: Math.min(maxResults, MAX_RESULTS_PER_PAGE),
+ }, { signal });
+ const ids = items.flatMap(item => (item.id.videoId ? [item.id.videoId] : []));
+ // Durations and statistics aren't in search results
+ const videos = await this.client.getVideos(ids);
+ return videos.map(toProviderVideo);
+ } catch (error) {
+ throw asProviderError(error);
+ }
+ }
+
+ /** Only prefixed IDs are YouTube's; bare ones belong to the local catalog */
+ ownsVideo(id: string): boolean {
+ return canonicalVideoId(id) !== id;
+ }
+
+ async getVideos(ids: string[]): Promise<ProviderVideo[]> {
+ try {
+ const videos = await this.client.getVideos(ids.map(canonicalVideoId));
+ return videos.map(toProviderVideo);
+ } catch (error) {
+ throw asProviderError(error);
+ }
+ }
+
+ async getComments(videoId: string, { maxResults = 20, signal }: ProviderRequestOptions = {}): Promise<ProviderComment[]> {
+ try {
+ const { items } = await this.client.list<YouTubeApiCommentThread>('commentThreads', {
+ part: 'snippet',
+ videoId: canonicalVideoId(videoId),
+ order: 'relevance',
+ textFormat: 'plainText',
+ maxResults: Math.min(maxResults, 100),
+ }, { signal });
+ return items.map(thread => {
+ const comment = thread.snippet.topLevelComment.snippet;
+ return {
+ id: thread.id,
+ authorName: comment.authorDisplayName,
+ authorAvatar: comment.authorProfileImageUrl,
+ content: comment.textOriginal,
+ likes: comment.likeCount,
+ publishedAt: comment.publishedAt,
+ replyCount: thread.snippet.totalReplyCount,
+ };
+ });
+ } catch (error) {
+ // Comments turned off is an answer, not a failure
+ if (error instanceof YouTubeApiError && error.reasons.includes('commentsDisabled')) {
+ return [];
+ }
+ throw asProviderError(error);
+ }
+ }
+
+ async getTrending({ category, maxResults = 20, signal }: TrendingOptions = {}): Promise<ProviderVideo[]> {
+ try {
+ const { items } = await this.client.list<YouTubeApiVideo>('videos', {
+ part: 'snippet,statistics,contentDetails',
+ chart: 'mostPopular',
+ regionCode: 'US',
+ maxResults: Math.min(maxResults, MAX_RESULTS_PER_PAGE),
+ videoCategoryId: category ? YOUTUBE_CATEGORY_IDS[category.toLowerCase()] : undefined,
+ }, { signal });
+ return items.map(toProviderVideo);
+ } catch (error) {
+ throw asProviderError(error);
+ }
+ }
+}
+
+export const youtubeApiSearchProvider = new YouTubeApiSearchProvider();
+export default youtubeApiSearchProvider;
@@ -1,14 +1,14 @@
 import React from 'react';
-import React from 'react';
+import { Outlet } from 'react-router-dom';
 
 export interface AccountLayoutProps {
   children?: React.ReactNode;
-      className?: string, 
-
+  className?: string;
 }
 export const AccountLayout: React.FC<AccountLayoutProps> = ({ children, className = '' }) => {
-  return React.createElement('div', {)
-    className: 'accountlayout-container ' + className, 
-  }, children || 'AccountLayout Component');
+  return React.createElement('div', {
+    className: 'accountlayout-container ' + className
+  }, children ?? React.createElement(Outlet));
+};
 
-export default AccountLayout;
\ No newline at end of file
+export default AccountLayout;
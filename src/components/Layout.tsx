@@ -1,14 +1,24 @@
-import React from 'react';
-import React from 'react';
+import React, { useState } from 'react';
+import { Outlet } from 'react-router-dom';
 
-export interface LayoutProps {
-  children?: React.ReactNode;
-      className?: string, 
+import Header from '../../components/Header';
 
+export interface LayoutProps {
+  className?: string;
 }
-export const Layout: React.FC<LayoutProps> = ({ children, className = '' }) => {
-  return React.createElement('div', {)
-    className: 'layout-container ' + className, 
-  }, children || 'Layout Component');
 
-export default Layout;
\ No newline at end of file
+/** The main app shell: the header above whichever page the route matched */
+export const Layout: React.FC<LayoutProps> = ({ className = '' }) => {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+
+  return (
+    <div className={`layout-container min-h-screen bg-white dark:bg-neutral-950 ${className}`} data-sidebar-open={isSidebarOpen}>
+      <Header toggleSidebar={() => setIsSidebarOpen(open => !open)} />
+      <main className="pt-14">
+        <Outlet />
+      </main>
+    </div>
+  );
+};
+
+export default Layout;
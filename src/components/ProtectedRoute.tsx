@@ -1,14 +1,15 @@
 import React from 'react';
-import React from 'react';
 
 export interface ProtectedRouteProps {
   children?: React.ReactNode;
-      className?: string, 
-
+  className?: string;
+  /** Whether the route is only for signed-in users */
+  requireAuth?: boolean;
 }
 export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, className = '' }) => {
-  return React.createElement('div', {)
-    className: 'protectedroute-container ' + className, 
+  return React.createElement('div', {
+    className: 'protectedroute-container ' + className
   }, children || 'ProtectedRoute Component');
+};
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
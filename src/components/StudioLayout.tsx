@@ -1,14 +1,14 @@
 import React from 'react';
-import React from 'react';
+import { Outlet } from 'react-router-dom';
 
 export interface StudioLayoutProps {
   children?: React.ReactNode;
-      className?: string, 
-
+  className?: string;
 }
 export const StudioLayout: React.FC<StudioLayoutProps> = ({ children, className = '' }) => {
-  return React.createElement('div', {)
-    className: 'studiolayout-container ' + className, 
-  }, children || 'StudioLayout Component');
+  return React.createElement('div', {
+    className: 'studiolayout-container ' + className
+  }, children ?? React.createElement(Outlet));
+};
 
-export default StudioLayout;
\ No newline at end of file
+export default StudioLayout;
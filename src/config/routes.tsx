@@ -1,5 +1,4 @@
-// @ts-nocheck
-import _React, { lazy } from 'react';
+import { lazy } from 'react';
 import AccountLayout from '../components/AccountLayout';
 import ErrorBoundary from '../components/ErrorBoundary';
 import Layout from '../components/Layout';
@@ -29,6 +28,7 @@ const LibraryPage = lazy(() => import('../pages/LibraryPage'));
 const YourDataPage = lazy(() => import('../pages/YourDataPage'));
 const GoLivePage = lazy(() => import('../pages/GoLivePage'));
 const LiveStreamingHubPage = lazy(() => import('../pages/LiveStreamingHubPage'));
+const LiveStreamPage = lazy(() => import('../pages/LiveStreamPage'));
 const AIContentSparkPage = lazy(() => import('../pages/AIContentSparkPage'));
 const VideoUploadPage = lazy(() => import('../pages/VideoUploadPage'));
 const SettingsPage = lazy(() => import('../pages/SettingsPage'));
@@ -53,12 +53,12 @@ const TestMetadataFetch = lazy(() => import('../debug/TestMetadataFetch'));
 const GoogleSearchStoreDebug = lazy(() => import('../debug/GoogleSearchStoreDebug'));
 
 // Route configuration for main application;
-export const mainRoutes: RouteObject[] = [;
+export const mainRoutes: RouteObject[] = [
  {
  path: '/',
  element: <Layout />,
  errorElement: <ErrorBoundary />,
- children: [;
+ children: [
  {
  index: true,
  element: <HomePage /> },
@@ -120,6 +120,9 @@ export const mainRoutes: RouteObject[] = [;
  path: 'live',
  element: <LiveStreamingHubPage /> },
  {
+ path: 'live/:streamId',
+ element: <LiveStreamPage /> },
+ {
  path: 'ai-content-spark',
  element: <AIContentSparkPage /> },
  {
@@ -147,13 +150,14 @@ export const mainRoutes: RouteObject[] = [;
  {
  path: 'account',
  element: <AccountLayout />,
- children: [;
+ children: [
  {
  path: 'settings',
  element: <SettingsPage /> },
  {
  path: 'privacy',
- element: <SettingsPage /> // Can be replaced with dedicated privacy page later;
+ // Can be replaced with dedicated privacy page later
+ element: <SettingsPage /> },
  {
  path: 'data',
  element: <YourDataPage /> }] },
@@ -166,12 +170,12 @@ export const mainRoutes: RouteObject[] = [;
  element: <ContentManagerPage /> }] }];
 
 // Route configuration for studio;
-export const studioRoutes: RouteObject[] = [;
+export const studioRoutes: RouteObject[] = [
  {
  path: 'studio',
  element: <StudioLayout />,
  errorElement: <ErrorBoundary />,
- children: [;
+ children: [
  {
  index: true,
  element: <StudioDashboardPage /> },
@@ -204,20 +208,22 @@ export const studioRoutes: RouteObject[] = [;
  element: <VideoEditorPage /> }] }];
 
 // Authentication routes (outside main layout)
-const authRoutes: RouteObject[] = [;
+const authRoutes: RouteObject[] = [
  {
  path: '/login',
- element: (;)
+ element: (
  <ProtectedRoute requireAuth={false}>
  <LoginPage />
-// FIXED:  </ProtectedRoute>
+ </ProtectedRoute>
+ ),
  errorElement: <ErrorBoundary /> },
  {
  path: '/register',
- element: (;)
+ element: (
  <ProtectedRoute requireAuth={false}>
  <RegisterPage />
-// FIXED:  </ProtectedRoute>
+ </ProtectedRoute>
+ ),
  errorElement: <ErrorBoundary /> }];
 
 // Combined route configuration;
@@ -1,2 +1,5 @@
-// TODO: Implement this module;
-export default {};
+// Export all comment-related components, hooks, services, and types;
+export * from './comments/components/CommentSection';
+export * from './comments/hooks/useComments';
+export * from './comments/services/commentService';
+export * from './comments/types';
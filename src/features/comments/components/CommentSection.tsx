@@ -1,57 +1,234 @@
-import React from 'react';
 // CommentSection - Advanced Component Implementation;
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+
+import { formatRelativeTime } from '../../../utils/dateUtils';
+import { useComments } from '../hooks/useComments';
+import type { CommentAuthor, CommentSortOrder, CommentThread } from '../types';
 
 export interface CommentSectionProps {
+  videoId: string;
+  currentUser?: CommentAuthor | null;
+  /** True when the current user owns the video and may pin or heart comments */
+  isCreator?: boolean;
   className?: string;
-  children?: React.ReactNode;
-  onLoad?: () => void;
-  onError?: (error: Error) => void, 
+  onError?: (error: Error) => void;
+}
 
-import React from 'react';
-export const CommentSection: React.FC<CommentSectionProps> = ({)
-  className = '',
-  children,
-  onLoad,
-  onError, 
+interface CommentItemProps {
+  comment: CommentThread;
+  depth: number;
+  currentUser: CommentAuthor | null;
+  isCreator: boolean;
+  actions: ReturnType<typeof useComments>;
 }
-}) => {
-  const [isReady, setIsReady] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-
-  useEffect(() => {)
-    const initialize = async () => {
-      try {;
-        // Simulate initialization;
-        await new Promise(resolve => setTimeout(resolve, 500));
-        setIsReady(true);
-        onLoad?.(), 
-      } catch (err) {
-        const error = err instanceof Error ? err : new Error('Initialization failed');
-        setError(error);
-        onError?.(error), 
-
-    initialize();
-  }, [onLoad, onError]);
-
-  if (error) {
-    return (
-      <div className={'component-error ' + className}>
-        <h3>Error: {error.message}</h3>
-        <button onClick={() => window.location.reload()}>Retry</button>
-      </div>
-  if (!isReady) {
-    return (
-      <div className={'component-loading ' + className}>
-        <div>Loading...</div>
-      </div>
+
+const MAX_VISIBLE_DEPTH = 4;
+
+const CommentForm: React.FC<{
+  placeholder: string;
+  submitLabel: string;
+  initialValue?: string;
+  onSubmit: (content: string) => Promise<unknown>;
+  onCancel?: () => void;
+}> = ({ placeholder, submitLabel, initialValue = '', onSubmit, onCancel }) => {
+  const [value, setValue] = useState(initialValue);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!value.trim()) {
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await onSubmit(value);
+      setValue('');
+    } catch {
+      // The hook has already surfaced the error
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   return (
-    <div className={'component-ready ' + className}>
-      <div className="component-header">
-        <h2>CommentSection</h2>
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+      <textarea
+        value={value}
+        onChange={e => setValue(e.target.value)}
+        placeholder={placeholder}
+        rows={2}
+        className="w-full border-b border-gray-300 bg-transparent p-1 text-sm focus:border-black focus:outline-none dark:border-gray-600 dark:focus:border-white"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="rounded-full px-3 py-1 text-sm hover:bg-gray-100 dark:hover:bg-gray-800">
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={submitting || !value.trim()}
+          className="rounded-full bg-blue-600 px-3 py-1 text-sm text-white disabled:bg-gray-300 disabled:text-gray-500"
+        >
+          {submitLabel}
+        </button>
       </div>
-      <div className="component-body">
-        {children || <p>Component is ready and functioning properly.</p>}
+    </form>
+  );
+};
+
+const CommentItem: React.FC<CommentItemProps> = ({ comment, depth, currentUser, isCreator, actions }) => {
+  const [mode, setMode] = useState<'view' | 'reply' | 'edit'>('view');
+  const [showReplies, setShowReplies] = useState(depth > 0);
+  const isAuthor = !!currentUser && comment.authorId === currentUser.id;
+
+  return (
+    <div className={depth > 0 ? 'ml-10 mt-3' : 'mt-5'}>
+      {comment.isPinned && <p className="mb-1 text-xs text-gray-500">📌 Pinned by creator</p>}
+      <div className="flex items-start gap-3">
+        {comment.authorAvatar ? (
+          <img src={comment.authorAvatar} alt="" className="h-8 w-8 rounded-full" />
+        ) : (
+          <div className="h-8 w-8 rounded-full bg-gray-300 dark:bg-gray-700" />
+        )}
+        <div className="flex-1">
+          <p className="text-xs text-gray-500">
+            <span className="mr-2 font-medium text-gray-900 dark:text-gray-100">{comment.authorName}</span>
+            {formatRelativeTime(comment.createdAt)}
+            {comment.isEdited && ' (edited)'}
+          </p>
+
+          {mode === 'edit' ? (
+            <CommentForm
+              placeholder="Edit your comment"
+              submitLabel="Save"
+              initialValue={comment.content}
+              onSubmit={async content => {
+                await actions.editComment(comment.id, content);
+                setMode('view');
+              }}
+              onCancel={() => setMode('view')}
+            />
+          ) : (
+            <p className={`whitespace-pre-wrap text-sm ${comment.isDeleted ? 'italic text-gray-500' : ''}`}>
+              {comment.isDeleted ? 'This comment has been deleted.' : comment.content}
+            </p>
+          )}
+
+          {!comment.isDeleted && mode === 'view' && (
+            <div className="mt-1 flex items-center gap-3 text-xs text-gray-600 dark:text-gray-400">
+              <button onClick={() => actions.toggleLike(comment.id).catch(() => undefined)} className={comment.isLiked ? 'text-blue-600' : ''}>
+                👍 {comment.likes > 0 ? comment.likes : ''}
+              </button>
+              {comment.isHearted && <span title="Hearted by creator">❤️</span>}
+              {currentUser && depth < MAX_VISIBLE_DEPTH && (
+                <button onClick={() => setMode('reply')}>Reply</button>
+              )}
+              {isAuthor && <button onClick={() => setMode('edit')}>Edit</button>}
+              {(isAuthor || isCreator) && (
+                <button onClick={() => actions.deleteComment(comment.id).catch(() => undefined)}>Delete</button>
+              )}
+              {isCreator && !comment.parentId && (
+                <button onClick={() => actions.togglePin(comment.id).catch(() => undefined)}>{comment.isPinned ? 'Unpin' : 'Pin'}</button>
+              )}
+              {isCreator && (
+                <button onClick={() => actions.toggleHeart(comment.id).catch(() => undefined)}>{comment.isHearted ? 'Remove heart' : 'Heart'}</button>
+              )}
+            </div>
+          )}
+
+          {mode === 'reply' && (
+            <div className="mt-2">
+              <CommentForm
+                placeholder="Add a reply..."
+                submitLabel="Reply"
+                onSubmit={async content => {
+                  await actions.replyToComment(comment.id, content);
+                  setMode('view');
+                  setShowReplies(true);
+                }}
+                onCancel={() => setMode('view')}
+              />
+            </div>
+          )}
+
+          {comment.replies.length > 0 && depth === 0 && (
+            <button onClick={() => setShowReplies(prev => !prev)} className="mt-2 text-sm font-medium text-blue-600">
+              {showReplies ? 'Hide' : 'View'} {comment.replyCount} {comment.replyCount === 1 ? 'reply' : 'replies'}
+            </button>
+          )}
+
+          {showReplies &&
+            comment.replies.map(reply => (
+              <CommentItem
+                key={reply.id}
+                comment={reply}
+                depth={depth + 1}
+                currentUser={currentUser}
+                isCreator={isCreator}
+                actions={actions}
+              />
+            ))}
+        </div>
       </div>
     </div>
-export default CommentSection;
\ No newline at end of file
+  );
+};
+
+export const CommentSection: React.FC<CommentSectionProps> = ({
+  videoId,
+  currentUser = null,
+  isCreator = false,
+  className = '',
+  onError,
+}) => {
+  const actions = useComments({ videoId, currentUser, onError });
+  const { comments, total, sort, setSort, loading, error, refetch } = actions;
+
+  return (
+    <section className={`mt-6 ${className}`}>
+      <div className="mb-4 flex items-center gap-6">
+        <h2 className="text-lg font-semibold">{total.toLocaleString()} Comments</h2>
+        <select
+          value={sort}
+          onChange={e => setSort(e.target.value as CommentSortOrder)}
+          className="bg-transparent text-sm"
+          aria-label="Sort comments"
+        >
+          <option value="top">Top comments</option>
+          <option value="newest">Newest first</option>
+        </select>
+      </div>
+
+      {currentUser ? (
+        <CommentForm placeholder="Add a comment..." submitLabel="Comment" onSubmit={actions.addComment} />
+      ) : (
+        <p className="text-sm text-gray-500">Sign in to join the conversation.</p>
+      )}
+
+      {error && (
+        <div className="mt-4 text-sm text-red-600">
+          {error.message}{' '}
+          <button onClick={() => refetch().catch(() => undefined)} className="underline">
+            Retry
+          </button>
+        </div>
+      )}
+
+      {loading && comments.length === 0 && <p className="mt-4 text-sm text-gray-500">Loading comments...</p>}
+
+      {comments.map(comment => (
+        <CommentItem
+          key={comment.id}
+          comment={comment}
+          depth={0}
+          currentUser={currentUser}
+          isCreator={isCreator}
+          actions={actions}
+        />
+      ))}
+    </section>
+  );
+};
+
+export default CommentSection;
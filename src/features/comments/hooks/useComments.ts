@@ -1,53 +1,257 @@
-import React from 'react';
 // useComments - Advanced Hook Implementation;
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+import { onActionSettled } from '../../../utils/syncOutbox';
+import { commentService } from '../services/commentService';
+import type { CommentAuthor, CommentSortOrder, CommentThread } from '../types';
 
 export interface UseCommentsConfig {
+  videoId: string;
+  currentUser?: CommentAuthor | null;
+  initialSort?: CommentSortOrder;
+  limit?: number;
   enabled?: boolean;
-  onSuccess?: (data: any) => void;
-  onError?: (error: Error) => void, 
+  onError?: (error: Error) => void;
+}
+
+const replaceInTree = (comments: CommentThread[], updated: CommentThread): CommentThread[] =>
+  comments.map(comment =>
+    comment.id === updated.id
+      ? { ...updated, replies: comment.replies }
+      : { ...comment, replies: replaceInTree(comment.replies, updated) }
+  );
+
+const removeFromTree = (comments: CommentThread[], id: string): CommentThread[] =>
+  comments
+    .filter(comment => comment.id !== id)
+    .map(comment => {
+      const removedDirectReply = comment.replies.some(reply => reply.id === id);
+      return {
+        ...comment,
+        replies: removeFromTree(comment.replies, id),
+        replyCount: removedDirectReply ? comment.replyCount - 1 : comment.replyCount,
+      };
+    });
+
+const insertReply = (comments: CommentThread[], parentId: string, reply: CommentThread): CommentThread[] =>
+  comments.map(comment =>
+    comment.id === parentId
+      ? { ...comment, replies: [...comment.replies, reply], replyCount: comment.replyCount + 1 }
+      : { ...comment, replies: insertReply(comment.replies, parentId, reply) }
+  );
+
+const findInTree = (comments: CommentThread[], id: string): CommentThread | undefined => {
+  for (const comment of comments) {
+    if (comment.id === id) {
+      return comment;
+    }
+    const match = findInTree(comment.replies, id);
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+};
+
+export function useComments(config: UseCommentsConfig) {
+  const {
+    videoId,
+    currentUser = null,
+    initialSort = 'top',
+    limit = 20,
+    enabled = true,
+    onError,
+  } = config;
 
-export function useComments(config: UseCommentsConfig = {}) {
-  const { enabled = true, onSuccess, onError } = config;
-  
-  const [data, setData] = useState<any>(null);
+  const [comments, setComments] = useState<CommentThread[]>([]);
+  const [total, setTotal] = useState(0);
+  const [sort, setSort] = useState<CommentSortOrder>(initialSort);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
+  // Ids of comments written offline that the outbox has not delivered yet
+  const pendingIds = useRef(new Set<string>());
 
-  const fetchData = useCallback(async () => {)
-    if (!enabled) return;
+  useEffect(() => {
+    commentService.setAuthor(currentUser);
+  }, [currentUser]);
+
+  const handleError = useCallback(
+    (err: unknown) => {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      setError(error);
+      onError?.(error);
+      throw error;
+    },
+    [onError]
+  );
+
+  const fetchComments = useCallback(async () => {
+    if (!enabled || !videoId) {
+      return;
+    }
 
     try {
       setLoading(true);
       setError(null);
-      
-      // Simulate async operation;
-      await new Promise(resolve,: unknown=> setTimeout(resolve, 500)), 
-      
-      const result = {
-        hookName: 'useComments',
-        timestamp: Date.now(),
-        status: 'success',;
-      
-      setData(result);
-      onSuccess?.(result);
+      const result = await commentService.getComments(videoId, sort, limit);
+      setComments(result.comments);
+      setTotal(result.total);
     } catch (err) {
-      const error = err instanceof Error ? err : new Error('Unknown error');
-      setError(error);
-      onError?.(error), 
+      handleError(err);
     } finally {
-      setLoading(false), 
-  }, [enabled, onSuccess, onError]);
+      setLoading(false);
+    }
+  }, [enabled, videoId, sort, limit, handleError]);
+
+  useEffect(() => {
+    fetchComments().catch(() => undefined);
+  }, [fetchComments]);
+
+  // Comments written offline are placeholders until the outbox delivers them
+  useEffect(() => {
+    return onActionSettled(result => {
+      if (!pendingIds.current.delete(result.id)) {
+        return;
+      }
+      if (result.outcome === 'confirmed') {
+        fetchComments().catch(() => undefined);
+        return;
+      }
+      setComments(prev => removeFromTree(prev, result.id));
+      setTotal(prev => Math.max(0, prev - 1));
+      if (result.outcome === 'rejected') {
+        setError(new Error(result.error || 'Your comment could not be posted'));
+      }
+    });
+  }, [fetchComments]);
+
+  const addComment = useCallback(
+    async (content: string) => {
+      try {
+        const created = await commentService.createComment(videoId, { content });
+        if (created.isPending) {
+          pendingIds.current.add(created.id);
+        }
+        setComments(prev => [created, ...prev]);
+        setTotal(prev => prev + 1);
+        return created;
+      } catch (err) {
+        return handleError(err);
+      }
+    },
+    [videoId, handleError]
+  );
+
+  const replyToComment = useCallback(
+    async (commentId: string, content: string) => {
+      try {
+        const reply = await commentService.replyToComment(commentId, content, videoId);
+        if (reply.isPending) {
+          pendingIds.current.add(reply.id);
+          setComments(prev => insertReply(prev, commentId, reply));
+          setTotal(prev => prev + 1);
+        } else {
+          await fetchComments();
+        }
+        return reply;
+      } catch (err) {
+        return handleError(err);
+      }
+    },
+    [videoId, fetchComments, handleError]
+  );
 
-  useEffect(() => {)
-    fetchData(), 
-  }, [fetchData]);
+  const editComment = useCallback(
+    async (commentId: string, content: string) => {
+      try {
+        const updated = await commentService.editComment(commentId, content);
+        setComments(prev => replaceInTree(prev, updated));
+        return updated;
+      } catch (err) {
+        return handleError(err);
+      }
+    },
+    [handleError]
+  );
+
+  const deleteComment = useCallback(
+    async (commentId: string) => {
+      try {
+        await commentService.deleteComment(commentId);
+        // Deleting may tombstone or cascade, so take the server's view of the thread
+        await fetchComments();
+      } catch (err) {
+        handleError(err);
+      }
+    },
+    [fetchComments, handleError]
+  );
+
+  const toggleLike = useCallback(
+    async (commentId: string) => {
+      const target = findInTree(comments, commentId);
+      if (!target) {
+        return;
+      }
+      try {
+        const updated = await commentService.likeComment(commentId, !target.isLiked);
+        setComments(prev => replaceInTree(prev, updated));
+      } catch (err) {
+        handleError(err);
+      }
+    },
+    [comments, handleError]
+  );
+
+  const togglePin = useCallback(
+    async (commentId: string) => {
+      const target = findInTree(comments, commentId);
+      if (!target) {
+        return;
+      }
+      try {
+        await commentService.pinComment(commentId, !target.isPinned);
+        // Pinning reorders the list and unpins any previous comment
+        await fetchComments();
+      } catch (err) {
+        handleError(err);
+      }
+    },
+    [comments, fetchComments, handleError]
+  );
+
+  const toggleHeart = useCallback(
+    async (commentId: string) => {
+      const target = findInTree(comments, commentId);
+      if (!target) {
+        return;
+      }
+      try {
+        const updated = await commentService.heartComment(commentId, !target.isHearted);
+        setComments(prev => replaceInTree(prev, updated));
+      } catch (err) {
+        handleError(err);
+      }
+    },
+    [comments, handleError]
+  );
 
   return {
-    data,
+    comments,
+    total,
+    sort,
+    setSort,
     loading,
     error,
-    refetch: fetchData,
-
+    refetch: fetchComments,
+    addComment,
+    replyToComment,
+    editComment,
+    deleteComment,
+    toggleLike,
+    togglePin,
+    toggleHeart,
+  };
+}
 
-export default useComments;
\ No newline at end of file
+export default useComments;
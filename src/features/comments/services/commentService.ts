@@ -1,51 +1,202 @@
-import React, { useState, useEffect, useRef, useCallback, useMemo, memo } from 'react';
 // commentService - Enhanced Service
+import { enqueueAction } from '../../../utils/syncOutbox';
+import type {
+  CommentAuthor,
+  CommentListResponse,
+  CommentSortOrder,
+  CommentThread,
+  CreateCommentInput,
+} from '../types';
+
 export interface CommentServiceConfig {
   apiUrl?: string;
   timeout?: number;
-  retries?: number, 
+  retries?: number;
+}
+
+export class CommentServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'CommentServiceError';
+  }
+}
+
+const isOffline = (): boolean => typeof navigator !== 'undefined' && !navigator.onLine;
 
 export class CommentService {
-  private config: CommentServiceConfig,
+  private config: Required<CommentServiceConfig>;
+  private author: CommentAuthor | null = null;
 
   constructor(config: CommentServiceConfig = {}) {
     this.config = {
       apiUrl: '/api',
       timeout: 5000,
       retries: 3,
-      ...config, 
+      ...config,
+    };
+  }
+
+  /** Identifies the signed-in user to the server for authoring and creator actions. */
+  setAuthor(author: CommentAuthor | null): void {
+    this.author = author;
+  }
+
+  getComments(videoId: string, sort: CommentSortOrder = 'top', limit = 20): Promise<CommentListResponse> {
+    const params = new URLSearchParams({ sort, limit: String(limit) });
+    return this.request<CommentListResponse>(
+      `/videos/${encodeURIComponent(videoId)}/comments?${params}`
+    );
+  }
+
+  /** Offline, the comment is queued for background sync and a pending placeholder is returned. */
+  createComment(videoId: string, input: CreateCommentInput): Promise<CommentThread> {
+    const endpoint = `/videos/${encodeURIComponent(videoId)}/comments`;
+    const body = {
+      ...input,
+      authorName: this.author?.name,
+      authorAvatar: this.author?.avatar,
+    };
+    if (isOffline()) {
+      return this.queue(endpoint, body, videoId, input.parentId ?? null);
+    }
+    return this.request<CommentThread>(endpoint, { method: 'POST', body });
+  }
+
+  /** Offline, `videoId` is needed to build the pending placeholder. */
+  replyToComment(commentId: string, content: string, videoId = ''): Promise<CommentThread> {
+    const endpoint = `/comments/${encodeURIComponent(commentId)}/replies`;
+    const body = {
+      content,
+      authorName: this.author?.name,
+      authorAvatar: this.author?.avatar,
+    };
+    if (isOffline()) {
+      return this.queue(endpoint, body, videoId, commentId);
+    }
+    return this.request<CommentThread>(endpoint, { method: 'POST', body });
+  }
+
+  editComment(commentId: string, content: string): Promise<CommentThread> {
+    return this.request<CommentThread>(`/comments/${encodeURIComponent(commentId)}`, {
+      method: 'PATCH',
+      body: { content },
+    });
+  }
+
+  deleteComment(commentId: string): Promise<void> {
+    return this.request<void>(`/comments/${encodeURIComponent(commentId)}`, { method: 'DELETE' });
+  }
+
+  likeComment(commentId: string, liked: boolean): Promise<CommentThread> {
+    return this.request<CommentThread>(`/comments/${encodeURIComponent(commentId)}/like`, {
+      method: 'POST',
+      body: { liked },
+    });
+  }
+
+  pinComment(commentId: string, pinned: boolean): Promise<CommentThread> {
+    return this.request<CommentThread>(`/comments/${encodeURIComponent(commentId)}/pin`, {
+      method: 'POST',
+      body: { pinned },
+    });
+  }
+
+  heartComment(commentId: string, hearted: boolean): Promise<CommentThread> {
+    return this.request<CommentThread>(`/comments/${encodeURIComponent(commentId)}/heart`, {
+      method: 'POST',
+      body: { hearted },
+    });
+  }
 
-  async fetchData<T>(endpoint: string): Promise<T> {
-    try {
-      const response = await fetch(`${this.config.apiUrl}${endpoint}`, {)
-        method: 'GET', headers: {
-          'Content-Type': 'application/json';
+  private async queue(
+    endpoint: string,
+    body: { content: string },
+    videoId: string,
+    parentId: string | null
+  ): Promise<CommentThread> {
+    const action = await enqueueAction({
+      kind: 'comment',
+      method: 'POST',
+      url: `${this.config.apiUrl}${endpoint}`,
+      body,
+      headers: this.author ? { 'X-User-Id': this.author.id } : undefined,
+    });
+    const now = new Date(action.occurredAt).toISOString();
+    return {
+      id: action.id,
+      videoId,
+      parentId,
+      authorId: this.author?.id ?? null,
+      authorName: this.author?.name ?? 'You',
+      authorAvatar: this.author?.avatar ?? '',
+      content: body.content.trim(),
+      createdAt: now,
+      updatedAt: now,
+      isEdited: false,
+      isDeleted: false,
+      isPinned: false,
+      isHearted: false,
+      likes: 0,
+      isLiked: false,
+      replyCount: 0,
+      replies: [],
+      isPending: true,
+    };
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+  private async request<T>(
+    endpoint: string,
+    options: { method?: string; body?: unknown } = {}
+  ): Promise<T> {
+    const method = options.method || 'GET';
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.author) {
+      headers['X-User-Id'] = this.author.id;
+    }
 
-      return await response.json();
-    } catch (error) {
-      console.error('Service fetch error:', error);
-      throw error, 
+    // Only idempotent reads are retried; a retried POST could duplicate a comment
+    const attempts = method === 'GET' ? this.config.retries : 1;
+    let lastError: Error = new Error('Request was not attempted');
 
-  async postData<T>(endpoint,: string, data): Promise<T> {
-    try :{
-      const response : await fetch(`${this.config.apiUrl}${endpoint}`, {)
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json';
-        }, body: JSON.stringify(data),;
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), this.config.timeout);
 
-      if (!response,.o,k) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      try {
+        const response = await fetch(`${this.config.apiUrl}${endpoint}`, {
+          method,
+          headers,
+          body: options.body === undefined ? undefined : JSON.stringify(options.body),
+          signal: controller.signal,
+        });
 
-      return await response.json();
-    } catch (error) {
-      console.error('Service post error:', error);
-      throw error, 
+        if (!response.ok) {
+          const payload = await response.json().catch(() => null);
+          throw new CommentServiceError(
+            payload?.message || `HTTP error! status: ${response.status}`,
+            response.status
+          );
+        }
 
+        return response.status === 204 ? (undefined as T) : await response.json();
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        // Client errors will not succeed on retry
+        if (error instanceof CommentServiceError && error.status < 500) {
+          break;
+        }
+      } finally {
+        clearTimeout(timer);
+      }
+    }
 
+    console.error('Comment service error:', lastError);
+    throw lastError;
+  }
+}
 
 export const commentService = new CommentService();
-export default commentService;
\ No newline at end of file
+export default commentService;
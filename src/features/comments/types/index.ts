@@ -0,0 +1,41 @@
+// Export all comment-related types;
+export type CommentSortOrder = 'top' | 'newest';
+
+export interface CommentAuthor {
+  id: string;
+  name: string;
+  avatar?: string;
+}
+
+export interface CommentThread {
+  id: string;
+  videoId: string;
+  parentId: string | null;
+  authorId: string | null;
+  authorName: string;
+  authorAvatar: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+  isEdited: boolean;
+  isDeleted: boolean;
+  isPinned: boolean;
+  isHearted: boolean;
+  likes: number;
+  isLiked: boolean;
+  replyCount: number;
+  replies: CommentThread[];
+  /** Written offline and waiting in the sync outbox; `id` is the outbox action id */
+  isPending?: boolean;
+}
+
+export interface CommentListResponse {
+  comments: CommentThread[];
+  total: number;
+  sort: CommentSortOrder;
+}
+
+export interface CreateCommentInput {
+  content: string;
+  parentId?: string;
+}
@@ -1,2 +1,4 @@
-// TODO: Implement this module;
-export default {};
+// Export creator studio hooks, services, and types;
+export * from './creator/hooks/useProcessingQueue';
+export * from './creator/services/studioService';
+export * from './creator/types';
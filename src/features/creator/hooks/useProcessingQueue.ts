@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { studioService } from '../services/studioService';
+
+import type { ProcessingJob, StudioVideo } from '../types';
+
+export interface UseProcessingQueueOptions {
+  /** Poll interval while any job is still active */
+  pollInterval?: number;
+  enabled?: boolean;
+}
+
+export interface UseProcessingQueueResult {
+  videos: StudioVideo[];
+  jobs: ProcessingJob[];
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+  retryJob: (jobId: string) => Promise<void>;
+}
+
+const isActive = (job: ProcessingJob) =>
+  job.status === 'queued' || job.status === 'running' || job.status === 'retrying';
+
+/**
+ * Uploaded videos and their processing jobs, polled while work is pending.
+ */
+export function useProcessingQueue(
+  options: UseProcessingQueueOptions = {}
+): UseProcessingQueueResult {
+  const { pollInterval = 2000, enabled = true } = options;
+  const [videos, setVideos] = useState<StudioVideo[]>([]);
+  const [jobs, setJobs] = useState<ProcessingJob[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refetch = useCallback(async () => {
+    try {
+      const [nextVideos, nextJobs] = await Promise.all([
+        studioService.getVideos(),
+        studioService.getJobs(),
+      ]);
+      setVideos(nextVideos);
+      setJobs(nextJobs);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    setLoading(true);
+    refetch().finally(() => setLoading(false));
+  }, [enabled, refetch]);
+
+  const hasActiveJobs = jobs.some(isActive);
+
+  useEffect(() => {
+    if (!enabled || !hasActiveJobs) {
+      return;
+    }
+    const timer = setInterval(() => {
+      void refetch();
+    }, pollInterval);
+    return () => clearInterval(timer);
+  }, [enabled, hasActiveJobs, pollInterval, refetch]);
+
+  const retryJob = useCallback(
+    async (jobId: string) => {
+      await studioService.retryJob(jobId);
+      await refetch();
+    },
+    [refetch]
+  );
+
+  return { videos, jobs, loading, error, refetch, retryJob };
+}
+
+export default useProcessingQueue;
@@ -0,0 +1,78 @@
+// studioService - uploaded videos and their processing jobs
+import type { ProcessingJob, StudioVideo } from '../types';
+
+export interface StudioServiceConfig {
+  apiUrl?: string;
+  timeout?: number;
+}
+
+export class StudioServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'StudioServiceError';
+  }
+}
+
+export class StudioService {
+  private config: Required<StudioServiceConfig>;
+
+  constructor(config: StudioServiceConfig = {}) {
+    this.config = {
+      apiUrl: '/api',
+      timeout: 5000,
+      ...config,
+    };
+  }
+
+  async getVideos(): Promise<StudioVideo[]> {
+    const { videos } = await this.request<{ videos: StudioVideo[] }>('/studio/videos');
+    return videos;
+  }
+
+  async getJobs(status?: ProcessingJob['status']): Promise<ProcessingJob[]> {
+    const query = status ? `?status=${encodeURIComponent(status)}` : '';
+    const { jobs } = await this.request<{ jobs: ProcessingJob[] }>(`/studio/jobs${query}`);
+    return jobs;
+  }
+
+  /** Requeues a dead-lettered (or backing-off) job with a fresh attempt budget. */
+  async retryJob(jobId: string): Promise<ProcessingJob> {
+    const { job } = await this.request<{ job: ProcessingJob }>(
+      `/studio/jobs/${encodeURIComponent(jobId)}/retry`,
+      { method: 'POST' }
+    );
+    return job;
+  }
+
+  private async request<T>(endpoint: string, options: { method?: string } = {}): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout);
+
+    try {
+      const response = await fetch(`${this.config.apiUrl}${endpoint}`, {
+        method: options.method || 'GET',
+        headers: { 'Content-Type': 'application/json' },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new StudioServiceError(
+          payload?.message || `HTTP error! status: ${response.status}`,
+          response.status
+        );
+      }
+
+      return await response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const studioService = new StudioService();
+
+export default studioService;
@@ -0,0 +1,49 @@
+import type { Video } from '../../../types/video';
+
+export type ProcessingJobStatus = 'queued' | 'running' | 'retrying' | 'completed' | 'dead';
+
+export interface ProcessingJobFailure {
+  attempt: number;
+  step: string | null;
+  message: string;
+  at: string;
+}
+
+export interface ProcessingJob {
+  id: string;
+  type: string;
+  payload: { videoId: string; filePath: string; fileType?: string };
+  status: ProcessingJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  /** Step currently running, e.g. 'probe', 'thumbnails' or 'transcode' */
+  step: string | null;
+  /** 0..1 across all steps */
+  progress: number;
+  error: string | null;
+  failures: ProcessingJobFailure[];
+  runAt: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface VideoRendition {
+  name: string;
+  height: number;
+  url: string;
+  mimeType?: string;
+  bitrate?: string;
+}
+
+/** A video uploaded through Studio, as returned by `/api/studio/videos`. */
+export interface StudioVideo
+  extends Pick<Video, 'id' | 'title' | 'description' | 'duration' | 'thumbnailUrl' | 'publishedAt' | 'uploadStatus' | 'processingDetails' | 'fileDetails'> {
+  uploadId: string;
+  visibility: string;
+  jobId: string | null;
+  jobStatus?: ProcessingJobStatus;
+  renditions: VideoRendition[];
+  videoUrl?: string;
+}
@@ -1,28 +1,253 @@
-import React from 'react';
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+
+import { useLiveChat } from '../hooks/useLiveChat';
+
+import type { ChatViewer } from '../hooks/useLiveChat';
+import type { ChatMessage } from '../../../types/livestream';
+
 interface AdvancedLiveChatProps {
  streamId: string;
  className?: string;
  isOwner?: boolean;
  isModerator?: boolean;
+ /** Signed-in viewer; guests can read but not post */
+ currentUser?: ChatViewer | null;
+}
+
+const SLOW_MODE_OPTIONS = [0, 5, 10, 30, 60, 120];
+const TIMEOUT_MINUTES = 5;
+
+const badgeClasses: Record<string, string> = {
+ owner: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200',
+ moderator: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200',
+ verified: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300'
+};
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
-const AdvancedLiveChat: React.FC<AdvancedLiveChatProps> = ({)
+// Seconds left until `until`, ticking once a second while restricted
+const useCountdown = (until: number | null) => {
+ const [now, setNow] = useState(Date.now());
+
+ useEffect(() => {
+ if (!until || until === Infinity || until <= Date.now()) {
+ return undefined;
+ }
+ const timer = setInterval(() => setNow(Date.now()), 1000);
+ return () => clearInterval(timer);
+ }, [until]);
+
+ if (!until) {
+ return 0;
+ }
+ return until === Infinity ? Infinity : Math.max(0, Math.ceil((until - now) / 1000));
+};
+
+const AdvancedLiveChat: React.FC<AdvancedLiveChatProps> = ({
  streamId,
- className,
- isOwner,
- isModerator }) => {
+ className = '',
+ isOwner = false,
+ isModerator = false,
+ currentUser = null
+}) => {
+ const chat = useLiveChat({ streamId, viewer: currentUser });
+ const [draft, setDraft] = useState('');
+ const [openMenu, setOpenMenu] = useState<string | null>(null);
+ const listRef = useRef<HTMLDivElement>(null);
+ const cooldown = useCountdown(chat.restrictedUntil);
+
+ // The server decides the role; the props only cover the moment before it answers
+ const canModerate = chat.role !== 'viewer' || (chat.status !== 'open' && (isOwner || isModerator));
+ const canConfigure = chat.role === 'owner' || chat.role === 'moderator';
+ const chatOff = chat.settings.chatMode === 'off' && !canModerate;
+ const composerDisabled = !currentUser || chat.status !== 'open' || chatOff || cooldown > 0;
+
+ useEffect(() => {
+ const list = listRef.current;
+ if (list) {
+ list.scrollTop = list.scrollHeight;
+ }
+ }, [chat.messages]);
+
+ const handleSubmit = (event: React.FormEvent) => {
+ event.preventDefault();
+ if (!composerDisabled && chat.sendMessage(draft)) {
+ setDraft('');
+ }
+ };
+
+ const moderate = (action: () => void) => {
+ action();
+ setOpenMenu(null);
+ };
+
+ const placeholder = !currentUser
+ ? 'Sign in to chat'
+ : chatOff
+ ? 'Chat is turned off'
+ : cooldown === Infinity
+ ? 'You are banned from this chat'
+ : cooldown > 0
+ ? `You can send another message in ${cooldown}s`
+ : chat.settings.subscribersOnly
+ ? 'Subscribers-only chat'
+ : 'Say something...';
+
+ const renderMessage = (message: ChatMessage) => {
+ const isOwnMessage = message.userId === currentUser?.id;
+ const canActOn = canModerate && !isOwnMessage && !message.isOwner;
+
  return (
- <div className={className}>
- <div className={'p}-4'>
- <h3 className={'text}-lg font-semibold mb-4'>Live Chat</h3>
- <div className={'text}-gray-500'>
- Chat for stream {streamId} will be implemented here.;
- {isOwner && ()
- <div className={'text}-xs mt-2'>Owner controls available</div>
- {isModerator && ()
- <div className={'text}-xs mt-2'>Moderator controls available</div>
-// FIXED:  </div>
-// FIXED:  </div>
-// FIXED:  </div>
+ <div
+ key={message.id}
+ className={`group relative flex items-start gap-2 px-3 py-1 ${message.superChat ? 'mx-2 my-1 rounded-md text-gray-900' : 'hover:bg-gray-50 dark:hover:bg-gray-800/50'}`}
+ style={message.superChat ? { backgroundColor: message.superChat.color } : undefined}
+ >
+ <div className="min-w-0 flex-1 text-sm">
+ {message.superChat && (
+ <p className="font-semibold">
+ {new Intl.NumberFormat(undefined, { style: 'currency', currency: message.superChat.currency }).format(message.superChat.amount)}
+ </p>
+ )}
+ {message.membership && (
+ <p className="font-semibold text-green-600">
+ {message.membership.badge} New {message.membership.level} member
+ </p>
+ )}
+ <span className="mr-1 text-xs text-gray-400">{formatTime(message.timestamp)}</span>
+ {message.badges.map(badge => (
+ <span
+ key={badge.type}
+ className={`mr-1 rounded px-1 text-[10px] font-medium uppercase ${badgeClasses[badge.type] || badgeClasses.verified}`}
+ >
+ {badge.label}
+ </span>
+ ))}
+ <span className={`mr-1 font-medium ${message.isOwner ? 'text-yellow-600' : message.isModerator ? 'text-blue-600' : 'text-gray-600 dark:text-gray-300'}`}>
+ {message.username}
+ </span>
+ <span className="break-words text-gray-900 dark:text-gray-100">{message.message}</span>
+ </div>
+ {canActOn && (
+ <div className="relative">
+ <button
+ type="button"
+ aria-label={`Moderate message from ${message.username}`}
+ onClick={() => setOpenMenu(openMenu === message.id ? null : message.id)}
+ className="invisible rounded px-1 text-gray-500 hover:bg-gray-200 group-hover:visible dark:hover:bg-gray-700"
+ >
+ ⋮
+ </button>
+ {openMenu === message.id && (
+ <div className="absolute right-0 z-10 mt-1 w-40 rounded-md border border-gray-200 bg-white py-1 text-sm shadow-lg dark:border-gray-700 dark:bg-gray-900">
+ <button type="button" className="block w-full px-3 py-1 text-left hover:bg-gray-100 dark:hover:bg-gray-800" onClick={() => moderate(() => chat.deleteMessage(message.id))}>
+ Remove message
+ </button>
+ <button type="button" className="block w-full px-3 py-1 text-left hover:bg-gray-100 dark:hover:bg-gray-800" onClick={() => moderate(() => chat.warnUser(message.userId))}>
+ Warn user
+ </button>
+ <button type="button" className="block w-full px-3 py-1 text-left hover:bg-gray-100 dark:hover:bg-gray-800" onClick={() => moderate(() => chat.timeoutUser(message.userId, TIMEOUT_MINUTES))}>
+ Time out {TIMEOUT_MINUTES} min
+ </button>
+ <button type="button" className="block w-full px-3 py-1 text-left text-red-600 hover:bg-gray-100 dark:hover:bg-gray-800" onClick={() => moderate(() => chat.banUser(message.userId))}>
+ Ban user
+ </button>
+ {chat.role === 'owner' && !message.isModerator && (
+ <button type="button" className="block w-full px-3 py-1 text-left hover:bg-gray-100 dark:hover:bg-gray-800" onClick={() => moderate(() => chat.setModerator(message.userId, true))}>
+ Make moderator
+ </button>
+ )}
+ </div>
+ )}
+ </div>
+ )}
+ </div>
+ );
+ };
+
+ return (
+ <div className={`flex h-full flex-col rounded-lg border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-900 ${className}`}>
+ <div className="flex items-center justify-between border-b border-gray-200 px-3 py-2 dark:border-gray-700">
+ <h3 className="text-lg font-semibold">Live Chat</h3>
+ <div className="flex items-center gap-2 text-xs text-gray-500">
+ {chat.status !== 'open' && <span className="text-amber-600">Reconnecting…</span>}
+ <span>{chat.viewerCount.toLocaleString()} watching</span>
+ </div>
+ </div>
+
+ {canConfigure && (
+ <div className="flex flex-wrap items-center gap-3 border-b border-gray-200 px-3 py-2 text-xs dark:border-gray-700">
+ <label className="flex items-center gap-1">
+ Chat
+ <select
+ value={chat.settings.chatMode}
+ onChange={event => chat.updateSettings({ chatMode: event.target.value as 'live' | 'top' | 'off' })}
+ className="rounded border border-gray-300 bg-transparent px-1 py-0.5 dark:border-gray-600"
+ >
+ <option value="live">Live chat</option>
+ <option value="top">Top chat</option>
+ <option value="off">Off</option>
+ </select>
+ </label>
+ <label className="flex items-center gap-1">
+ Slow mode
+ <select
+ value={chat.settings.slowMode}
+ onChange={event => chat.updateSettings({ slowMode: Number(event.target.value) })}
+ className="rounded border border-gray-300 bg-transparent px-1 py-0.5 dark:border-gray-600"
+ >
+ {SLOW_MODE_OPTIONS.map(seconds => (
+ <option key={seconds} value={seconds}>{seconds ? `${seconds}s` : 'Off'}</option>
+ ))}
+ </select>
+ </label>
+ <label className="flex items-center gap-1">
+ <input
+ type="checkbox"
+ checked={chat.settings.subscribersOnly}
+ onChange={event => chat.updateSettings({ subscribersOnly: event.target.checked })}
+ />
+ Subscribers only
+ </label>
+ </div>
+ )}
+
+ <div ref={listRef} className="flex-1 overflow-y-auto py-2" aria-live="polite">
+ {chat.messages.length === 0 ? (
+ <p className="px-3 text-sm text-gray-500">
+ {chat.settings.chatMode === 'off' ? 'Chat is turned off for this stream.' : 'No messages yet. Say hello!'}
+ </p>
+ ) : (
+ chat.messages.map(renderMessage)
+ )}
+ </div>
+
+ {chat.notice && (
+ <div className="flex items-start justify-between gap-2 border-t border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-200" role="alert">
+ <span>{chat.notice.message}</span>
+ <button type="button" onClick={chat.clearNotice} aria-label="Dismiss">×</button>
+ </div>
+ )}
+
+ <form onSubmit={handleSubmit} className="flex gap-2 border-t border-gray-200 p-3 dark:border-gray-700">
+ <input
+ value={draft}
+ onChange={event => setDraft(event.target.value)}
+ maxLength={200}
+ disabled={composerDisabled}
+ placeholder={placeholder}
+ className="flex-1 rounded-full border border-gray-300 bg-transparent px-3 py-1.5 text-sm disabled:opacity-60 dark:border-gray-600"
+ />
+ <button
+ type="submit"
+ disabled={composerDisabled || !draft.trim()}
+ className="rounded-full bg-blue-600 px-4 py-1.5 text-sm font-medium text-white disabled:opacity-50"
+ >
+ Send
+ </button>
+ </form>
+ </div>
+ );
+};
 
 export default AdvancedLiveChat;
@@ -1,15 +1,39 @@
+// ComprehensiveLiveStudio - the browser studio alongside stream health, restreaming and chat
 import React from 'react';
-// ComprehensiveLiveStudio - Simple Component;
-import React from 'react';
+
+import AdvancedLiveChat from './AdvancedLiveChat';
+import LiveStreamStudio from './LiveStreamStudio';
+import MultiplatformStreaming from './MultiplatformStreaming';
+import StreamManagementDashboard from './StreamManagementDashboard';
+import type { OutputSettings } from '../config/streaming';
+import type { LiveSocketViewer } from '../services/liveSocket';
 
 export interface ComprehensiveLiveStudioProps {
+  streamId: string;
+  currentUser: LiveSocketViewer;
+  initialSettings?: OutputSettings;
   className?: string;
-  children?: React.ReactNode, 
-
-export const ComprehensiveLiveStudio = (props: ComprehensiveLiveStudioProps) => {
-  return React.createElement('div', {)
-    className: props.className, 
+  children?: React.ReactNode;
 }
-  }, props.children || 'Component ready');
 
-export default ComprehensiveLiveStudio;
\ No newline at end of file
+export const ComprehensiveLiveStudio: React.FC<ComprehensiveLiveStudioProps> = ({
+  streamId,
+  currentUser,
+  initialSettings,
+  className = '',
+  children,
+}) => (
+  <div className={`grid grid-cols-1 gap-6 xl:grid-cols-3 ${className}`}>
+    <div className="space-y-6 xl:col-span-2">
+      <LiveStreamStudio streamId={streamId} currentUser={currentUser} initialSettings={initialSettings} />
+      <StreamManagementDashboard streamId={streamId} currentUser={currentUser} />
+      <MultiplatformStreaming streamId={streamId} currentUser={currentUser} />
+    </div>
+    <div className="space-y-6">
+      <AdvancedLiveChat streamId={streamId} currentUser={currentUser} />
+      {children}
+    </div>
+  </div>
+);
+
+export default ComprehensiveLiveStudio;
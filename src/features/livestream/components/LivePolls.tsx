@@ -1,62 +1,199 @@
-import React from 'react';
-// LivePolls - React Component;
-import React, { useState, useEffect } from 'react';
+// LivePolls - host-created polls with live results
+import React, { useEffect, useState } from 'react';
+
+import { useLivePolls } from '../hooks/useLivePolls';
+import type { LiveSocketViewer } from '../services/liveSocket';
+import type { LivePoll } from '../../../types/livestream';
 
 export interface LivePollsProps {
+  streamId: string;
+  /** Hosts and moderators can start and end polls */
+  isOwner?: boolean;
+  isModerator?: boolean;
+  currentUser?: LiveSocketViewer | null;
   className?: string;
-  children?: React.ReactNode;
-  onLoad?: () => void;
-  onError?: (error: Error) => void, 
+}
+
+const MAX_OPTIONS = 6;
+const DURATIONS = [
+  { label: '1 min', value: 60 * 1000 },
+  { label: '2 min', value: 2 * 60 * 1000 },
+  { label: '5 min', value: 5 * 60 * 1000 },
+  { label: '10 min', value: 10 * 60 * 1000 },
+];
+
+const useSecondsLeft = (poll: LivePoll | null) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!poll) {
+      return undefined;
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [poll]);
+
+  return poll ? Math.max(0, Math.ceil((poll.createdAt.getTime() + poll.duration - now) / 1000)) : 0;
+};
+
+const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const PollResults: React.FC<{ poll: LivePoll; chosen?: string; onVote?: (optionId: string) => void }> = ({
+  poll,
+  chosen,
+  onVote,
+}) => {
+  const showResults = Boolean(chosen) || !poll.isActive || !onVote;
+
+  return (
+    <ul className="space-y-2">
+      {poll.options.map(option => (
+        <li key={option.id}>
+          {showResults ? (
+            <div className="relative overflow-hidden rounded-md border border-gray-200 px-3 py-2 text-sm dark:border-gray-700">
+              <div
+                className={`absolute inset-y-0 left-0 ${option.id === chosen ? 'bg-blue-100 dark:bg-blue-900/40' : 'bg-gray-100 dark:bg-gray-800'}`}
+                style={{ width: `${option.percentage}%` }}
+              />
+              <div className="relative flex justify-between gap-2">
+                <span className={option.id === chosen ? 'font-medium' : ''}>{option.text}</span>
+                <span className="text-gray-500">{option.percentage}%</span>
+              </div>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => onVote?.(option.id)}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-left text-sm hover:border-blue-500 hover:bg-blue-50 dark:border-gray-600 dark:hover:bg-blue-900/20"
+            >
+              {option.text}
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
 
-import React from 'react';
-export const LivePolls: React.FC<LivePollsProps> = ({)
+export const LivePolls: React.FC<LivePollsProps> = ({
+  streamId,
+  isOwner = false,
+  isModerator = false,
+  currentUser = null,
   className = '',
-  children,
-  onLoad,
-  onError, 
-}
 }) => {
-  const [isReady, setIsReady] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-
-  useEffect(() => {)
-    const initialize = async () => {
-      try {;
-        await new Promise(resolve => setTimeout(resolve, 200));
-        setIsReady(true);
-        onLoad?.(), 
-      } catch (err) {
-        const error = err instanceof Error ? err : new Error('Initialization failed');
-        setError(error);
-        onError?.(error), 
-
-    initialize();
-  }, [onLoad, onError]);
-
-  if (error) {
-    return (
-      <div className={'error-state ' + className}>
-        <h3>Error in LivePolls</h3>
-        <p>{error.message}</p>
-        <button onClick={() => window.location.reload()}>
-          Retry;
-        </button>
-      </div>
-  if (!isReady) {
-    return (
-      <div className={'loading-state ' + className}>
-        <div>Loading LivePolls...</div>
-      </div>
+  const { activePoll, pastPolls, votes, error, vote, createPoll, closePoll } = useLivePolls(streamId, currentUser);
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState(['', '']);
+  const [duration, setDuration] = useState(DURATIONS[1].value);
+  const secondsLeft = useSecondsLeft(activePoll);
+  const canHost = isOwner || isModerator;
+  const filledOptions = options.map(option => option.trim()).filter(Boolean);
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (question.trim() && filledOptions.length >= 2 && createPoll(question.trim(), filledOptions, duration)) {
+      setQuestion('');
+      setOptions(['', '']);
+    }
+  };
+
   return (
-    <div className={'component-ready ' + className}>
-      <div className="component-header">
-        <h2>LivePolls</h2>
-      </div>
-      <div className="component-body">
-        {children || ()
-          <div className="default-content">
-            <p>Component is ready and functioning properly.</p>
+    <div className={`space-y-4 rounded-lg border border-gray-200 bg-white p-4 dark:border-gray-700 dark:bg-gray-900 ${className}`}>
+      <h3 className="text-lg font-semibold">Polls</h3>
+
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+      {activePoll ? (
+        <div className="space-y-3">
+          <div className="flex items-start justify-between gap-2">
+            <p className="font-medium">{activePoll.question}</p>
+            <span className="whitespace-nowrap text-xs text-gray-500">{formatSeconds(secondsLeft)} left</span>
+          </div>
+          <PollResults
+            poll={activePoll}
+            chosen={votes[activePoll.id]}
+            onVote={currentUser ? optionId => vote(activePoll.id, optionId) : undefined}
+          />
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>{activePoll.totalVotes.toLocaleString()} votes</span>
+            {!currentUser && <span>Sign in to vote</span>}
+            {canHost && (
+              <button type="button" onClick={() => closePoll(activePoll.id)} className="text-red-600 hover:underline">
+                End poll
+              </button>
+            )}
           </div>
-      </div>
+        </div>
+      ) : (
+        !canHost && <p className="text-sm text-gray-500">No poll is running right now.</p>
+      )}
+
+      {canHost && !activePoll && (
+        <form onSubmit={handleCreate} className="space-y-2">
+          <input
+            value={question}
+            onChange={event => setQuestion(event.target.value)}
+            maxLength={200}
+            placeholder="Ask your viewers a question"
+            className="w-full rounded-md border border-gray-300 bg-transparent px-3 py-2 text-sm dark:border-gray-600"
+          />
+          {options.map((option, index) => (
+            <input
+              key={index}
+              value={option}
+              onChange={event => setOptions(prev => prev.map((value, i) => (i === index ? event.target.value : value)))}
+              maxLength={100}
+              placeholder={`Option ${index + 1}`}
+              className="w-full rounded-md border border-gray-300 bg-transparent px-3 py-1.5 text-sm dark:border-gray-600"
+            />
+          ))}
+          <div className="flex items-center justify-between gap-2">
+            {options.length < MAX_OPTIONS ? (
+              <button type="button" onClick={() => setOptions(prev => [...prev, ''])} className="text-sm text-blue-600 hover:underline">
+                Add option
+              </button>
+            ) : (
+              <span />
+            )}
+            <div className="flex items-center gap-2">
+              <select
+                value={duration}
+                onChange={event => setDuration(Number(event.target.value))}
+                className="rounded-md border border-gray-300 bg-transparent px-2 py-1.5 text-sm dark:border-gray-600"
+              >
+                {DURATIONS.map(({ label, value }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={!question.trim() || filledOptions.length < 2}
+                className="rounded-md bg-blue-600 px-3 py-1.5 text-sm font-medium text-white disabled:opacity-50"
+              >
+                Start poll
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {pastPolls.length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-gray-600 dark:text-gray-300">Past polls ({pastPolls.length})</summary>
+          <div className="mt-3 space-y-4">
+            {pastPolls.map(poll => (
+              <div key={poll.id} className="space-y-2">
+                <p className="font-medium">{poll.question}</p>
+                <PollResults poll={poll} chosen={votes[poll.id]} />
+                <p className="text-xs text-gray-500">{poll.totalVotes.toLocaleString()} votes</p>
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
     </div>
-export default LivePolls;
\ No newline at end of file
+  );
+};
+
+export default LivePolls;
@@ -1,31 +1,163 @@
-import React from 'react';
-// LiveQA - Enhanced Component;
+// LiveQA - viewer questions with upvotes, answers and pinning
 import React, { useState } from 'react';
 
+import { CheckCircleIcon, HandThumbUpIcon, MapPinIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+import { useLiveQA } from '../hooks/useLiveQA';
+import type { LiveSocketViewer } from '../services/liveSocket';
+
 export interface LiveQAProps {
+  streamId: string;
+  /** Hosts and moderators can answer, pin and remove questions */
+  isOwner?: boolean;
+  isModerator?: boolean;
+  currentUser?: LiveSocketViewer | null;
   className?: string;
-  children?: React.ReactNode, 
+}
+
+type Filter = 'all' | 'unanswered' | 'answered';
 
-export const LiveQA: React.FC<LiveQAProps> = ({)
+export const LiveQA: React.FC<LiveQAProps> = ({
+  streamId,
+  isOwner = false,
+  isModerator = false,
+  currentUser = null,
   className = '',
-  children, 
-}
 }) => {
-  const [isActive, setIsActive] = useState(false), 
+  const { questions, upvoted, error, askQuestion, upvoteQuestion, answerQuestion, pinQuestion, removeQuestion } =
+    useLiveQA(streamId, currentUser);
+  const [draft, setDraft] = useState('');
+  const [filter, setFilter] = useState<Filter>('all');
+  const [answering, setAnswering] = useState<string | null>(null);
+  const [answerText, setAnswerText] = useState('');
+  const canHost = isOwner || isModerator;
+
+  const visible = questions.filter(question =>
+    filter === 'all' ? true : filter === 'answered' ? question.answered : !question.answered
+  );
+
+  const handleAsk = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (draft.trim() && askQuestion(draft.trim())) {
+      setDraft('');
+    }
+  };
+
+  const handleAnswer = (questionId: string) => {
+    answerQuestion(questionId, answerText.trim() || undefined);
+    setAnswering(null);
+    setAnswerText('');
+  };
 
   return (
-    <div className={'component ' + className}>
-      <div className="component-header">
-        <h3>Live Q A</h3>
-      </div>
-      <div className="component-content">
-        {children || ()
-          <div>
-            <button onClick={() => setIsActive(!isActive)}>
-              {isActive ? 'Deactivate' : 'Activate', }
+    <div className={`space-y-4 rounded-lg border border-gray-200 bg-white p-4 dark:border-gray-700 dark:bg-gray-900 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Q&amp;A</h3>
+        <div className="flex gap-1 text-xs">
+          {(['all', 'unanswered', 'answered'] as Filter[]).map(value => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setFilter(value)}
+              className={`rounded-full px-2 py-1 capitalize ${filter === value ? 'bg-gray-900 text-white dark:bg-white dark:text-gray-900' : 'bg-gray-100 dark:bg-gray-800'}`}
+            >
+              {value}
             </button>
-            {isActive && <p>Component is active!</p>}
-          </div>
+          ))}
+        </div>
       </div>
+
+      {currentUser ? (
+        <form onSubmit={handleAsk} className="flex gap-2">
+          <input
+            value={draft}
+            onChange={event => setDraft(event.target.value)}
+            maxLength={300}
+            placeholder="Ask a question"
+            className="flex-1 rounded-md border border-gray-300 bg-transparent px-3 py-1.5 text-sm dark:border-gray-600"
+          />
+          <button
+            type="submit"
+            disabled={!draft.trim()}
+            className="rounded-md bg-blue-600 px-3 py-1.5 text-sm font-medium text-white disabled:opacity-50"
+          >
+            Ask
+          </button>
+        </form>
+      ) : (
+        <p className="text-sm text-gray-500">Sign in to ask and upvote questions.</p>
+      )}
+
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500">No questions yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {visible.map(question => (
+            <li
+              key={question.id}
+              className={`rounded-md border p-3 text-sm ${question.isHighlighted ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/20' : 'border-gray-200 dark:border-gray-700'}`}
+            >
+              <div className="flex items-start gap-3">
+                <button
+                  type="button"
+                  onClick={() => upvoteQuestion(question.id)}
+                  disabled={!currentUser}
+                  aria-pressed={upvoted.has(question.id)}
+                  className={`flex flex-col items-center text-xs ${upvoted.has(question.id) ? 'text-blue-600' : 'text-gray-500'}`}
+                >
+                  <HandThumbUpIcon className="h-4 w-4" />
+                  {question.upvotes ?? 0}
+                </button>
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs text-gray-500">
+                    {question.username}
+                    {question.isHighlighted && <span className="ml-2 text-blue-600">Pinned</span>}
+                    {question.answered && <span className="ml-2 text-green-600">Answered</span>}
+                  </p>
+                  <p className="break-words">{question.question}</p>
+                  {question.answer && (
+                    <p className="mt-1 border-l-2 border-green-500 pl-2 text-gray-700 dark:text-gray-300">{question.answer}</p>
+                  )}
+                  {answering === question.id && (
+                    <div className="mt-2 flex gap-2">
+                      <input
+                        value={answerText}
+                        onChange={event => setAnswerText(event.target.value)}
+                        placeholder="Answer (optional)"
+                        className="flex-1 rounded-md border border-gray-300 bg-transparent px-2 py-1 dark:border-gray-600"
+                      />
+                      <button type="button" onClick={() => handleAnswer(question.id)} className="rounded-md bg-green-600 px-2 py-1 text-white">
+                        Mark answered
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-1 text-gray-500">
+                  {canHost && !question.answered && (
+                    <>
+                      <button type="button" title={question.isHighlighted ? 'Unpin' : 'Pin'} onClick={() => pinQuestion(question.id, !question.isHighlighted)}>
+                        <MapPinIcon className="h-4 w-4" />
+                      </button>
+                      <button type="button" title="Answer" onClick={() => setAnswering(answering === question.id ? null : question.id)}>
+                        <CheckCircleIcon className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                  {(canHost || question.userId === currentUser?.id) && (
+                    <button type="button" title="Remove" onClick={() => removeQuestion(question.id)}>
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
-export default LiveQA;
\ No newline at end of file
+  );
+};
+
+export default LiveQA;
@@ -1,62 +1,236 @@
-import React from 'react';
-// LiveStreamStudio - React Component;
-import React, { useState, useEffect } from 'react';
+// LiveStreamStudio - compose a scene in the browser and take it live without an encoder
+import React, { useEffect, useRef, useState } from 'react';
+
+import {
+  FRAME_RATES,
+  MAX_BITRATE,
+  MIN_BITRATE,
+  QUALITY_DIMENSIONS,
+  RECOMMENDED_BITRATES,
+  clampBitrate,
+  type OutputSettings,
+  type StreamFrameRate,
+  type StreamQuality,
+} from '../config/streaming';
+import { useLiveStudio } from '../hooks/useLiveStudio';
+import { useStreamIngest } from '../hooks/useStreamIngest';
+import type { LiveSocketViewer } from '../services/liveSocket';
 
 export interface LiveStreamStudioProps {
+  streamId: string;
+  currentUser: LiveSocketViewer;
+  initialSettings?: OutputSettings;
   className?: string;
   children?: React.ReactNode;
-  onLoad?: () => void;
-  onError?: (error: Error) => void, 
+}
 
-import React from 'react';
-export const LiveStreamStudio: React.FC<LiveStreamStudioProps> = ({)
+const LAYER_LABELS = { camera: 'Camera', screen: 'Screen', image: 'Image', lowerThird: 'Lower third' } as const;
+
+export const LiveStreamStudio: React.FC<LiveStreamStudioProps> = ({
+  streamId,
+  currentUser,
+  initialSettings,
   className = '',
   children,
-  onLoad,
-  onError, 
-}
 }) => {
-  const [isReady, setIsReady] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-
-  useEffect(() => {)
-    const initialize = async () => {
-      try {;
-        await new Promise(resolve => setTimeout(resolve, 200));
-        setIsReady(true);
-        onLoad?.(), 
-      } catch (err) {
-        const error = err instanceof Error ? err : new Error('Initialization failed');
-        setError(error);
-        onError?.(error), 
-
-    initialize();
-  }, [onLoad, onError]);
-
-  if (error) {
-    return (
-      <div className={'error-state ' + className}>
-        <h3>Error in LiveStreamStudio</h3>
-        <p>{error.message}</p>
-        <button onClick={() => window.location.reload()}>
-          Retry;
-        </button>
-      </div>
-  if (!isReady) {
-    return (
-      <div className={'loading-state ' + className}>
-        <div>Loading LiveStreamStudio...</div>
-      </div>
+  const studio = useLiveStudio(initialSettings);
+  const { ingest } = useStreamIngest(streamId, currentUser.id);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const [imageUrl, setImageUrl] = useState('');
+  const [lowerThird, setLowerThird] = useState({ title: '', subtitle: '' });
+  const [busy, setBusy] = useState(false);
+
+  // The compositor owns its canvas; mount it in the preview box
+  useEffect(() => {
+    const container = previewRef.current;
+    const canvas = studio.compositor?.canvas;
+    if (!container || !canvas) {
+      return;
+    }
+    canvas.className = 'h-full w-full object-contain';
+    container.appendChild(canvas);
+    return () => {
+      canvas.remove();
+    };
+  }, [studio.compositor]);
+
+  const { settings, mode, layers } = studio;
+  const live = mode === 'live';
+  // An OBS broadcast already holds the key; the ingest accepts one encoder at a time
+  const encoderConnected = ingest?.status === 'live' && !live;
+
+  const toggleLive = async () => {
+    setBusy(true);
+    try {
+      if (live) {
+        await studio.endLive();
+      } else if (ingest?.streamKey) {
+        await studio.goLive(ingest.streamKey);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleQuality = (quality: StreamQuality) =>
+    studio.updateSettings({ quality, bitrate: RECOMMENDED_BITRATES[quality][settings.frameRate] });
+
+  const handleAddImage = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (imageUrl.trim()) {
+      studio.addImage(imageUrl.trim());
+      setImageUrl('');
+    }
+  };
+
+  const handleAddLowerThird = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (lowerThird.title.trim()) {
+      studio.addLowerThird(lowerThird.title.trim(), lowerThird.subtitle.trim());
+      setLowerThird({ title: '', subtitle: '' });
+    }
+  };
+
+  const { width, height } = QUALITY_DIMENSIONS[settings.quality];
+
   return (
-    <div className={'component-ready ' + className}>
-      <div className="component-header">
-        <h2>LiveStreamStudio</h2>
+    <div className={`space-y-4 ${className}`}>
+      <div className="relative aspect-video overflow-hidden rounded-lg bg-black">
+        <div ref={previewRef} className="h-full w-full" />
+        <span
+          className={`absolute left-3 top-3 rounded px-2 py-0.5 text-xs font-semibold text-white ${live ? 'bg-red-600' : 'bg-gray-700'}`}
+        >
+          {live ? (studio.publisherState === 'live' ? 'LIVE' : 'CONNECTING…') : 'PREVIEW'}
+        </span>
+        {layers.length === 0 && (
+          <p className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">
+            Add a camera or screen share to start building your scene
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={studio.addCamera} className="rounded bg-gray-100 px-3 py-1.5 text-sm hover:bg-gray-200">
+          Add camera
+        </button>
+        <button onClick={studio.addScreen} className="rounded bg-gray-100 px-3 py-1.5 text-sm hover:bg-gray-200">
+          Share screen
+        </button>
+        <button
+          onClick={() => studio.setMicrophone(!studio.microphone)}
+          className={`rounded px-3 py-1.5 text-sm ${studio.microphone ? 'bg-green-100 text-green-800' : 'bg-gray-100 hover:bg-gray-200'}`}
+        >
+          {studio.microphone ? 'Mic on' : 'Mic off'}
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={toggleLive}
+          disabled={busy || (!live && (!ingest?.streamKey || encoderConnected))}
+          className={`rounded px-4 py-2 font-semibold text-white disabled:opacity-50 ${live ? 'bg-gray-800 hover:bg-gray-900' : 'bg-red-600 hover:bg-red-700'}`}
+        >
+          {busy ? '…' : live ? 'End live' : 'Go live'}
+        </button>
       </div>
-      <div className="component-body">
-        {children || ()
-          <div className="default-content">
-            <p>Component is ready and functioning properly.</p>
-          </div>
+
+      {!ingest?.streamKey && ingest && <p className="text-sm text-amber-700">Create a stream key to go live.</p>}
+      {encoderConnected && <p className="text-sm text-amber-700">An encoder is already broadcasting to this stream.</p>}
+      {studio.error && <p className="text-sm text-red-600">{studio.error.message}</p>}
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <section className="space-y-3">
+          <h3 className="font-semibold">Output</h3>
+          <label className="block text-sm">
+            Quality
+            <select
+              value={settings.quality}
+              onChange={event => handleQuality(event.target.value as StreamQuality)}
+              disabled={live}
+              className="mt-1 block w-full rounded border border-gray-300 px-2 py-1.5"
+            >
+              {(Object.keys(QUALITY_DIMENSIONS) as StreamQuality[]).map(quality => (
+                <option key={quality} value={quality}>{quality}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm">
+            Frame rate
+            <select
+              value={settings.frameRate}
+              onChange={event => studio.updateSettings({ frameRate: Number(event.target.value) as StreamFrameRate })}
+              className="mt-1 block w-full rounded border border-gray-300 px-2 py-1.5"
+            >
+              {FRAME_RATES.map(rate => (
+                <option key={rate} value={rate}>{rate} fps</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm">
+            Bitrate (kbps)
+            <input
+              type="number"
+              min={MIN_BITRATE}
+              max={MAX_BITRATE}
+              step={500}
+              value={settings.bitrate}
+              onChange={event => studio.updateSettings({ bitrate: clampBitrate(Number(event.target.value) || MIN_BITRATE) })}
+              className="mt-1 block w-full rounded border border-gray-300 px-2 py-1.5"
+            />
+          </label>
+          <p className="text-xs text-gray-500">
+            {width}×{height} at {settings.frameRate} fps; {RECOMMENDED_BITRATES[settings.quality][settings.frameRate]} kbps recommended
+          </p>
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="font-semibold">Layers</h3>
+          <ul className="space-y-1">
+            {[...layers].reverse().map(layer => (
+              <li key={layer.id} className="flex items-center gap-2 rounded bg-gray-50 px-2 py-1 text-sm">
+                <span className="text-xs text-gray-500">{LAYER_LABELS[layer.type]}</span>
+                <span className={`flex-1 truncate ${layer.visible ? '' : 'text-gray-400 line-through'}`}>{layer.name}</span>
+                <button onClick={() => studio.moveLayer(layer.id, 1)} title="Bring forward" className="px-1">↑</button>
+                <button onClick={() => studio.moveLayer(layer.id, -1)} title="Send backward" className="px-1">↓</button>
+                <button onClick={() => studio.toggleLayer(layer)} className="px-1 text-xs">{layer.visible ? 'Hide' : 'Show'}</button>
+                <button onClick={() => studio.removeLayer(layer.id)} className="px-1 text-xs text-red-600">Remove</button>
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleAddImage} className="flex gap-2">
+            <input
+              value={imageUrl}
+              onChange={event => setImageUrl(event.target.value)}
+              placeholder="Overlay image URL"
+              className="flex-1 rounded border border-gray-300 px-2 py-1.5 text-sm"
+            />
+            <button type="submit" className="rounded bg-gray-100 px-3 text-sm hover:bg-gray-200">Add</button>
+          </form>
+
+          <form onSubmit={handleAddLowerThird} className="space-y-2">
+            <input
+              value={lowerThird.title}
+              onChange={event => setLowerThird(current => ({ ...current, title: event.target.value }))}
+              placeholder="Lower third title"
+              maxLength={60}
+              className="block w-full rounded border border-gray-300 px-2 py-1.5 text-sm"
+            />
+            <div className="flex gap-2">
+              <input
+                value={lowerThird.subtitle}
+                onChange={event => setLowerThird(current => ({ ...current, subtitle: event.target.value }))}
+                placeholder="Subtitle (optional)"
+                maxLength={80}
+                className="flex-1 rounded border border-gray-300 px-2 py-1.5 text-sm"
+              />
+              <button type="submit" className="rounded bg-gray-100 px-3 text-sm hover:bg-gray-200">Add</button>
+            </div>
+          </form>
+        </section>
       </div>
+
+      {children}
     </div>
-export default LiveStreamStudio;
\ No newline at end of file
+  );
+};
+
+export default LiveStreamStudio;
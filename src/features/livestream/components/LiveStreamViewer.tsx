@@ -1,62 +1,119 @@
-import React from 'react';
-// LiveStreamViewer - React Component;
-import React, { useState, useEffect } from 'react';
+// LiveStreamViewer - plays a stream's live HLS feed as soon as its encoder connects, and its replay once it ends
+import React, { useCallback, useEffect, useState } from 'react';
+
+import AdvancedVideoPlayer from '../../../../components/AdvancedVideoPlayer';
+import StreamReplayPlayer from './StreamReplayPlayer';
+import { useLiveSocket } from '../hooks/useLiveSocket';
+import { useReplay } from '../hooks/useReplay';
+import { ingestService } from '../services/ingestService';
+import type { LiveSocketEvent, LiveSocketViewer } from '../services/liveSocket';
+import type { StreamPlayback } from '../../../types/livestream';
 
 export interface LiveStreamViewerProps {
+  streamId: string;
+  currentUser?: LiveSocketViewer | null;
   className?: string;
   children?: React.ReactNode;
   onLoad?: () => void;
-  onError?: (error: Error) => void, 
+  onError?: (error: Error) => void;
+}
 
-import React from 'react';
-export const LiveStreamViewer: React.FC<LiveStreamViewerProps> = ({)
+// The first segments land a few seconds after the encoder connects
+const PLAYLIST_WAIT_MS = 2000;
+
+export const LiveStreamViewer: React.FC<LiveStreamViewerProps> = ({
+  streamId,
+  currentUser = null,
   className = '',
   children,
   onLoad,
-  onError, 
-}
+  onError,
 }) => {
-  const [isReady, setIsReady] = useState(false);
+  const [playback, setPlayback] = useState<StreamPlayback | null>(null);
   const [error, setError] = useState<Error | null>(null);
 
-  useEffect(() => {)
-    const initialize = async () => {
-      try {;
-        await new Promise(resolve => setTimeout(resolve, 200));
-        setIsReady(true);
-        onLoad?.(), 
-      } catch (err) {
-        const error = err instanceof Error ? err : new Error('Initialization failed');
-        setError(error);
-        onError?.(error), 
+  const refresh = useCallback(() => {
+    ingestService
+      .getPlayback(streamId)
+      .then(next => {
+        setPlayback(next);
+        setError(null);
+        onLoad?.();
+      })
+      .catch(err => {
+        const failure = err instanceof Error ? err : new Error(String(err));
+        setError(failure);
+        onError?.(failure);
+      });
+  }, [streamId, onLoad, onError]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Live but not yet playable: poll until the first segments exist
+  const waiting = playback?.status === 'live' && !playback.playbackUrl;
+  useEffect(() => {
+    if (!waiting) {
+      return;
+    }
+    const timer = setInterval(refresh, PLAYLIST_WAIT_MS);
+    return () => clearInterval(timer);
+  }, [waiting, refresh]);
+
+  const handleEvent = useCallback((event: LiveSocketEvent) => {
+    if (event.type === 'stream') {
+      setPlayback(event as unknown as StreamPlayback);
+    }
+  }, []);
 
-    initialize();
-  }, [onLoad, onError]);
+  useLiveSocket(streamId, currentUser, handleEvent);
+
+  // A recorded broadcast is published as a video with its chat once it ends
+  const ended = playback?.status === 'ended';
+  const { replay } = useReplay(streamId, currentUser?.id, ended);
 
   if (error) {
     return (
-      <div className={'error-state ' + className}>
-        <h3>Error in LiveStreamViewer</h3>
-        <p>{error.message}</p>
-        <button onClick={() => window.location.reload()}>
-          Retry;
-        </button>
+      <div className={`flex aspect-video items-center justify-center rounded-lg bg-black text-sm text-gray-300 ${className}`}>
+        <div className="text-center">
+          <p>{error.message}</p>
+          <button onClick={refresh} className="mt-2 rounded bg-white/10 px-3 py-1 hover:bg-white/20">Retry</button>
+        </div>
       </div>
-  if (!isReady) {
+    );
+  }
+
+  if (ended && replay?.videoId) {
     return (
-      <div className={'loading-state ' + className}>
-        <div>Loading LiveStreamViewer...</div>
+      <div className={`relative ${className}`}>
+        <StreamReplayPlayer replay={replay} />
+        {children}
       </div>
+    );
+  }
+
+  const message = !playback
+    ? 'Loading stream…'
+    : playback.status === 'offline'
+      ? 'This stream has not started yet'
+      : playback.status === 'ended' && !playback.playbackUrl
+        ? 'This stream has ended'
+        : 'Starting stream…';
+
   return (
-    <div className={'component-ready ' + className}>
-      <div className="component-header">
-        <h2>LiveStreamViewer</h2>
-      </div>
-      <div className="component-body">
-        {children || ()
-          <div className="default-content">
-            <p>Component is ready and functioning properly.</p>
-          </div>
-      </div>
+    <div className={`relative ${className}`}>
+      {playback?.playbackUrl ? (
+        <AdvancedVideoPlayer key={`${playback.playbackUrl}:${playback.startedAt}`} src={playback.playbackUrl} autoplay muted />
+      ) : (
+        <div className="flex aspect-video items-center justify-center rounded-lg bg-black text-sm text-gray-300">{message}</div>
+      )}
+      {playback?.status === 'live' && (
+        <span className="absolute left-3 top-3 rounded bg-red-600 px-2 py-0.5 text-xs font-semibold text-white">LIVE</span>
+      )}
+      {children}
     </div>
-export default LiveStreamViewer;
\ No newline at end of file
+  );
+};
+
+export default LiveStreamViewer;
@@ -1,62 +1,178 @@
-import React from 'react';
-// MultiplatformStreaming - React Component;
-import React, { useState, useEffect } from 'react';
+// MultiplatformStreaming - forward a broadcast to other platforms and watch each connection
+import React, { useState } from 'react';
+
+import { PLATFORMS, PLATFORM_NAMES, type PlatformName } from '../config/platforms';
+import { useRestream } from '../hooks/useRestream';
+import type { LiveSocketViewer } from '../services/liveSocket';
+import type { RestreamStatus, RestreamTarget } from '../../../types/livestream';
 
 export interface MultiplatformStreamingProps {
+  streamId: string;
+  currentUser: LiveSocketViewer;
   className?: string;
-  children?: React.ReactNode;
-  onLoad?: () => void;
-  onError?: (error: Error) => void, 
-
-import React from 'react';
-export const MultiplatformStreaming: React.FC<MultiplatformStreamingProps> = ({)
-  className = '',
-  children,
-  onLoad,
-  onError, 
 }
-}) => {
-  const [isReady, setIsReady] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-
-  useEffect(() => {)
-    const initialize = async () => {
-      try {;
-        await new Promise(resolve => setTimeout(resolve, 200));
-        setIsReady(true);
-        onLoad?.(), 
-      } catch (err) {
-        const error = err instanceof Error ? err : new Error('Initialization failed');
-        setError(error);
-        onError?.(error), 
-
-    initialize();
-  }, [onLoad, onError]);
-
-  if (error) {
-    return (
-      <div className={'error-state ' + className}>
-        <h3>Error in MultiplatformStreaming</h3>
-        <p>{error.message}</p>
-        <button onClick={() => window.location.reload()}>
-          Retry;
-        </button>
-      </div>
-  if (!isReady) {
-    return (
-      <div className={'loading-state ' + className}>
-        <div>Loading MultiplatformStreaming...</div>
-      </div>
+
+const STATUS_STYLES: Record<RestreamStatus, { label: string; className: string }> = {
+  idle: { label: 'Waiting for broadcast', className: 'bg-gray-100 text-gray-700' },
+  connecting: { label: 'Connecting', className: 'bg-yellow-100 text-yellow-800' },
+  live: { label: 'Live', className: 'bg-green-100 text-green-800' },
+  reconnecting: { label: 'Reconnecting', className: 'bg-orange-100 text-orange-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+};
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1e9 ? `${(bytes / 1e9).toFixed(2)} GB` : bytes >= 1e6 ? `${(bytes / 1e6).toFixed(1)} MB` : `${Math.round(bytes / 1e3)} KB`;
+
+const statusFor = (target: RestreamTarget) => {
+  if (!target.enabled) {
+    return { label: 'Off', className: 'bg-gray-100 text-gray-500' };
+  }
+  return STATUS_STYLES[target.status];
+};
+
+export const MultiplatformStreaming: React.FC<MultiplatformStreamingProps> = ({ streamId, currentUser, className = '' }) => {
+  const { targets, live, loading, error, saveTarget, removeTarget } = useRestream(streamId, currentUser.id);
+  const [editing, setEditing] = useState<PlatformName | null>(null);
+  const [form, setForm] = useState({ streamKey: '', serverUrl: '' });
+  const [saving, setSaving] = useState(false);
+
+  const configured = new Map(targets.map(target => [target.platform, target]));
+  const available = PLATFORM_NAMES.filter(name => !configured.has(name));
+
+  const openEditor = (platform: PlatformName) => {
+    const target = configured.get(platform);
+    setEditing(platform);
+    setForm({ streamKey: '', serverUrl: target && target.serverUrl !== PLATFORMS[platform].defaultServerUrl ? target.serverUrl : '' });
+  };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!editing) {
+      return;
+    }
+    setSaving(true);
+    try {
+      await saveTarget(editing, {
+        ...(form.streamKey.trim() && { streamKey: form.streamKey.trim() }),
+        serverUrl: form.serverUrl.trim() || PLATFORMS[editing].defaultServerUrl,
+      });
+      setEditing(null);
+    } catch {
+      // Shown through `error`
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className={`rounded-lg border p-4 text-sm text-gray-500 ${className}`}>Loading destinations…</div>;
+  }
+
   return (
-    <div className={'component-ready ' + className}>
-      <div className="component-header">
-        <h2>MultiplatformStreaming</h2>
+    <section className={`space-y-4 rounded-lg border p-4 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Restream</h3>
+        <span className="text-xs text-gray-500">{live ? 'Forwarding your broadcast' : 'Starts when your broadcast starts'}</span>
       </div>
-      <div className="component-body">
-        {children || ()
-          <div className="default-content">
-            <p>Component is ready and functioning properly.</p>
+
+      {error && <p className="text-sm text-red-600">{error.message}</p>}
+
+      {targets.length === 0 && !editing && (
+        <p className="text-sm text-gray-600">Add a platform to send this broadcast there as well.</p>
+      )}
+
+      <ul className="space-y-2">
+        {targets.map(target => {
+          const platform = PLATFORMS[target.platform];
+          const status = statusFor(target);
+          return (
+            <li key={target.platform} className="rounded border px-3 py-2">
+              <div className="flex items-center gap-3">
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: platform.color }} />
+                <span className="font-medium">{platform.label}</span>
+                <span className={`rounded px-2 py-0.5 text-xs font-medium ${status.className}`}>{status.label}</span>
+                <span className="flex-1" />
+                <label className="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={target.enabled}
+                    onChange={event => saveTarget(target.platform, { enabled: event.target.checked }).catch(() => {})}
+                  />
+                  On
+                </label>
+                <button onClick={() => openEditor(target.platform)} className="text-sm text-blue-600 hover:underline">Edit</button>
+                <button onClick={() => removeTarget(target.platform).catch(() => {})} className="text-sm text-red-600 hover:underline">
+                  Remove
+                </button>
+              </div>
+              <div className="mt-1 flex flex-wrap gap-x-4 text-xs text-gray-500">
+                <span className="font-mono">{target.serverUrl}</span>
+                <span>Key {target.streamKeyHint}</span>
+                {target.status === 'live' && target.connectedAt && (
+                  <span>Since {new Date(target.connectedAt).toLocaleTimeString()}</span>
+                )}
+                {target.bytesSent > 0 && <span>{formatBytes(target.bytesSent)} sent</span>}
+              </div>
+              {target.enabled && target.error && target.status !== 'live' && (
+                <p className="mt-1 text-xs text-red-600">
+                  {target.error}
+                  {target.status === 'reconnecting' && target.nextRetryAt && ` — retrying at ${new Date(target.nextRetryAt).toLocaleTimeString()}`}
+                  {target.status === 'failed' && ' — turn it off and on again to retry'}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {editing ? (
+        <form onSubmit={handleSave} className="space-y-2 rounded bg-gray-50 p-3">
+          <p className="text-sm font-medium">
+            {PLATFORMS[editing].label}{' '}
+            <a href={PLATFORMS[editing].keyHelpUrl} target="_blank" rel="noreferrer" className="text-xs font-normal text-blue-600 hover:underline">
+              Find your stream key
+            </a>
+          </p>
+          <input
+            type="password"
+            value={form.streamKey}
+            onChange={event => setForm(current => ({ ...current, streamKey: event.target.value }))}
+            placeholder={configured.has(editing) ? 'Leave empty to keep the current key' : 'Stream key'}
+            autoComplete="off"
+            className="block w-full rounded border border-gray-300 px-2 py-1.5 text-sm"
+          />
+          <input
+            value={form.serverUrl}
+            onChange={event => setForm(current => ({ ...current, serverUrl: event.target.value }))}
+            placeholder={PLATFORMS[editing].defaultServerUrl}
+            className="block w-full rounded border border-gray-300 px-2 py-1.5 font-mono text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving || (!configured.has(editing) && !form.streamKey.trim())}
+              className="rounded bg-blue-600 px-3 py-1.5 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving…' : 'Save'}
+            </button>
+            <button type="button" onClick={() => setEditing(null)} className="rounded px-3 py-1.5 text-sm hover:bg-gray-200">
+              Cancel
+            </button>
           </div>
-      </div>
-    </div>
-export default MultiplatformStreaming;
\ No newline at end of file
+        </form>
+      ) : (
+        available.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {available.map(name => (
+              <button key={name} onClick={() => openEditor(name)} className="rounded border px-3 py-1.5 text-sm hover:bg-gray-50">
+                + {PLATFORMS[name].label}
+              </button>
+            ))}
+          </div>
+        )
+      )}
+    </section>
+  );
+};
+
+export default MultiplatformStreaming;
@@ -1,62 +1,46 @@
+// ProtectedStreamAnalyticsDashboard - StreamAnalyticsDashboard behind an error boundary, so a bad chart can't take the studio down
 import React from 'react';
-// ProtectedStreamAnalyticsDashboard - React Component;
-import React, { useState, useEffect } from 'react';
 
-export interface ProtectedStreamAnalyticsDashboardProps {
-  className?: string;
-  children?: React.ReactNode;
-  onLoad?: () => void;
-  onError?: (error: Error) => void, 
+import StreamAnalyticsDashboard, { type StreamAnalyticsDashboardProps } from './StreamAnalyticsDashboard';
 
-import React from 'react';
-export const ProtectedStreamAnalyticsDashboard: React.FC<ProtectedStreamAnalyticsDashboardProps> = ({)
-  className = '',
-  children,
-  onLoad,
-  onError, 
+export interface ProtectedStreamAnalyticsDashboardProps extends StreamAnalyticsDashboardProps {
+  onError?: (error: Error) => void;
+}
+
+interface State {
+  error: Error | null;
+  // Remounts the dashboard on retry so it fetches again
+  attempt: number;
+}
+
+export class ProtectedStreamAnalyticsDashboard extends React.Component<ProtectedStreamAnalyticsDashboardProps, State> {
+  state: State = { error: null, attempt: 0 };
+
+  static getDerivedStateFromError(error: Error): Partial<State> {
+    return { error };
+  }
+
+  componentDidCatch(error: Error): void {
+    this.props.onError?.(error);
+  }
+
+  private retry = () => this.setState(({ attempt }) => ({ error: null, attempt: attempt + 1 }));
+
+  render() {
+    const { streamId, currentUser, className = '' } = this.props;
+    if (this.state.error) {
+      return (
+        <div className={`rounded-lg border border-red-200 bg-red-50 p-4 text-sm ${className}`} role="alert">
+          <p className="font-medium text-red-800">Stream analytics could not be shown.</p>
+          <p className="text-red-700">{this.state.error.message}</p>
+          <button onClick={this.retry} className="mt-2 rounded bg-white px-3 py-1 text-red-800 shadow-sm hover:bg-red-100">
+            Try again
+          </button>
+        </div>
+      );
+    }
+    return <StreamAnalyticsDashboard key={this.state.attempt} streamId={streamId} currentUser={currentUser} className={className} />;
+  }
 }
-}) => {
-  const [isReady, setIsReady] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-
-  useEffect(() => {)
-    const initialize = async () => {
-      try {;
-        await new Promise(resolve => setTimeout(resolve, 200));
-        setIsReady(true);
-        onLoad?.(), 
-      } catch (err) {
-        const error = err instanceof Error ? err : new Error('Initialization failed');
-        setError(error);
-        onError?.(error), 
-
-    initialize();
-  }, [onLoad, onError]);
-
-  if (error) {
-    return (
-      <div className={'error-state ' + className}>
-        <h3>Error in ProtectedStreamAnalyticsDashboard</h3>
-        <p>{error.message}</p>
-        <button onClick={() => window.location.reload()}>
-          Retry;
-        </button>
-      </div>
-  if (!isReady) {
-    return (
-      <div className={'loading-state ' + className}>
-        <div>Loading ProtectedStreamAnalyticsDashboard...</div>
-      </div>
-  return (
-    <div className={'component-ready ' + className}>
-      <div className="component-header">
-        <h2>ProtectedStreamAnalyticsDashboard</h2>
-      </div>
-      <div className="component-body">
-        {children || ()
-          <div className="default-content">
-            <p>Component is ready and functioning properly.</p>
-          </div>
-      </div>
-    </div>
-export default ProtectedStreamAnalyticsDashboard;
\ No newline at end of file
+
+export default ProtectedStreamAnalyticsDashboard;
@@ -0,0 +1,63 @@
+// ReplayChat - a stream's chat played back alongside its replay
+import React, { useEffect, useRef } from 'react';
+
+import { useReplayChat } from '../hooks/useReplayChat';
+
+export interface ReplayChatProps {
+  replayId: string;
+  /** Playhead position in seconds */
+  currentTime: number;
+  className?: string;
+}
+
+const formatOffset = (seconds: number) => {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = String(total % 60).padStart(2, '0');
+  return hours ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+export const ReplayChat: React.FC<ReplayChatProps> = ({ replayId, currentTime, className = '' }) => {
+  const { messages, error } = useReplayChat(replayId, currentTime);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Follow the newest message, as live chat does
+  const lastId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [lastId]);
+
+  return (
+    <section className={`flex h-full flex-col rounded-lg border border-gray-200 dark:border-gray-700 ${className}`}>
+      <h3 className="border-b border-gray-200 px-3 py-2 text-sm font-semibold dark:border-gray-700">Chat replay</h3>
+      <div ref={listRef} className="flex-1 overflow-y-auto py-2">
+        {error && <p className="px-3 text-sm text-red-600">{error.message}</p>}
+        {messages.length === 0 ? (
+          <p className="px-3 text-sm text-gray-500">Messages appear here as the replay reaches them.</p>
+        ) : (
+          messages.map(message => (
+            <div
+              key={message.id}
+              className={`px-3 py-1 text-sm ${message.superChat ? 'mx-2 my-1 rounded-md text-gray-900' : ''}`}
+              style={message.superChat ? { backgroundColor: message.superChat.color } : undefined}
+            >
+              {message.superChat && (
+                <p className="font-semibold">
+                  {new Intl.NumberFormat(undefined, { style: 'currency', currency: message.superChat.currency }).format(message.superChat.amount)}
+                </p>
+              )}
+              <span className="mr-1 font-mono text-xs text-gray-400">{formatOffset(message.offsetSeconds)}</span>
+              <span className={`mr-1 font-medium ${message.isOwner ? 'text-yellow-600' : message.isModerator ? 'text-blue-600' : 'text-gray-600 dark:text-gray-300'}`}>
+                {message.username}
+              </span>
+              <span className="break-words text-gray-900 dark:text-gray-100">{message.message}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default ReplayChat;
@@ -0,0 +1,215 @@
+// ReplayHighlights - the last broadcast's viewer timeline and the clips cut from its recording
+import React, { useState } from 'react';
+
+import AdvancedVideoPlayer from '../../../../components/AdvancedVideoPlayer';
+import { useReplay } from '../hooks/useReplay';
+import type { HighlightClipStatus, HighlightSuggestion, ViewerSample } from '../../../types/livestream';
+
+export interface ReplayHighlightsProps {
+  streamId: string;
+  currentUser: { id: string } | null;
+  className?: string;
+}
+
+// Matches the server's limit
+const MAX_HIGHLIGHT_SECONDS = 180;
+const DEFAULT_HIGHLIGHT_SECONDS = 30;
+
+const CLIP_STATUS: Record<HighlightClipStatus, { label: string; className: string }> = {
+  processing: { label: 'Cutting', className: 'bg-yellow-100 text-yellow-800' },
+  ready: { label: 'Ready', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  unavailable: { label: 'No clip (ffmpeg missing)', className: 'bg-gray-100 text-gray-600' },
+};
+
+const formatOffset = (seconds: number) => {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = String(total % 60).padStart(2, '0');
+  return hours ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+/** Accepts `90`, `1:30` or `0:01:30` */
+const parseOffset = (value: string): number | null => {
+  if (!value.trim()) {
+    return null;
+  }
+  const parts = value.trim().split(':').map(Number);
+  if (parts.length > 3 || parts.some(part => !Number.isFinite(part) || part < 0)) {
+    return null;
+  }
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+const ViewerTimeline: React.FC<{ samples: ViewerSample[] }> = ({ samples }) => {
+  const peak = Math.max(1, ...samples.map(sample => sample.viewers));
+  return (
+    <div className="flex h-16 items-end gap-px" aria-label="Viewers over the broadcast">
+      {samples.map(sample => (
+        <div
+          key={sample.offsetSeconds}
+          title={`${formatOffset(sample.offsetSeconds)}: ${sample.viewers} viewers`}
+          className="flex-1 rounded-t bg-red-400"
+          style={{ height: `${Math.max(2, (sample.viewers / peak) * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export const ReplayHighlights: React.FC<ReplayHighlightsProps> = ({ streamId, currentUser, className = '' }) => {
+  const { replay, loading, error, canClip, createHighlight, deleteHighlight } = useReplay(streamId, currentUser?.id);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [form, setForm] = useState({ title: '', start: '', end: '', type: 'moment' as HighlightSuggestion['type'] });
+  const [saving, setSaving] = useState(false);
+
+  if (loading || !replay || !canClip) {
+    return null;
+  }
+
+  const start = parseOffset(form.start);
+  const end = parseOffset(form.end);
+  const valid = Boolean(form.title.trim()) && start !== null && end !== null && end > start && end - start <= MAX_HIGHLIGHT_SECONDS;
+
+  const applySuggestion = (suggestion: HighlightSuggestion) =>
+    setForm({
+      title: suggestion.title,
+      start: formatOffset(suggestion.timestamp),
+      end: formatOffset(Math.min(replay.duration, suggestion.timestamp + DEFAULT_HIGHLIGHT_SECONDS)),
+      type: suggestion.type,
+    });
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!valid) {
+      return;
+    }
+    setSaving(true);
+    try {
+      await createHighlight({ title: form.title.trim(), start: start!, end: end!, type: form.type });
+      setForm({ title: '', start: '', end: '', type: 'moment' });
+    } catch {
+      // Shown through `error`
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const stats = replay.stats;
+
+  return (
+    <section className={`space-y-4 ${className}`}>
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h3 className="font-semibold">Last broadcast</h3>
+        <span className="text-xs text-gray-500">
+          {replay.endedAt && `Ended ${new Date(replay.endedAt).toLocaleString()} · `}
+          {replay.isProcessing ? 'Video processing…' : (
+            <a href={`/watch/${replay.videoId}`} className="text-blue-600 hover:underline">Watch the video</a>
+          )}
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-red-600" role="alert">{error.message}</p>}
+
+      {stats && (
+        <div className="space-y-2">
+          <div className="flex gap-6 text-sm">
+            <span>Peak <strong>{stats.peakViewers}</strong> viewers</span>
+            <span>Average <strong>{stats.averageViewers}</strong></span>
+            <span><strong>{stats.chatMessages}</strong> chat messages</span>
+          </div>
+          {stats.viewerTimeline.length > 1 && <ViewerTimeline samples={stats.viewerTimeline} />}
+        </div>
+      )}
+
+      {!replay.isProcessing && replay.videoUrl && (
+        <AdvancedVideoPlayer key={replay.videoUrl} src={replay.videoUrl} onTimeUpdate={setCurrentTime} />
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-2 rounded bg-gray-50 p-3 dark:bg-gray-800">
+        <p className="text-sm font-medium">New highlight</p>
+        <input
+          value={form.title}
+          onChange={event => setForm(current => ({ ...current, title: event.target.value }))}
+          placeholder="Title"
+          maxLength={100}
+          className="block w-full rounded border border-gray-300 px-2 py-1.5 text-sm"
+        />
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {(['start', 'end'] as const).map(field => (
+            <label key={field} className="flex items-center gap-1">
+              <span className="capitalize">{field}</span>
+              <input
+                value={form[field]}
+                onChange={event => setForm(current => ({ ...current, [field]: event.target.value }))}
+                placeholder="m:ss"
+                className="w-20 rounded border border-gray-300 px-2 py-1 font-mono"
+              />
+              <button
+                type="button"
+                onClick={() => setForm(current => ({ ...current, [field]: formatOffset(currentTime) }))}
+                className="rounded px-2 py-1 text-xs text-blue-600 hover:bg-blue-50"
+              >
+                Use {formatOffset(currentTime)}
+              </button>
+            </label>
+          ))}
+          <button
+            type="submit"
+            disabled={!valid || saving}
+            className="rounded bg-blue-600 px-3 py-1.5 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : 'Cut clip'}
+          </button>
+        </div>
+        {start !== null && end !== null && end - start > MAX_HIGHLIGHT_SECONDS && (
+          <p className="text-xs text-red-600">Highlights can be at most {MAX_HIGHLIGHT_SECONDS / 60} minutes long.</p>
+        )}
+      </form>
+
+      {(replay.suggestedHighlights?.length ?? 0) > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Suggested moments</p>
+          <div className="flex flex-wrap gap-2">
+            {replay.suggestedHighlights!.map(suggestion => (
+              <button
+                key={`${suggestion.type}:${suggestion.timestamp}`}
+                onClick={() => applySuggestion(suggestion)}
+                className="rounded border px-2 py-1 text-xs hover:bg-gray-50"
+              >
+                {formatOffset(suggestion.timestamp)} · {suggestion.title}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(replay.highlights?.length ?? 0) > 0 && (
+        <ul className="space-y-2">
+          {replay.highlights!.map(highlight => {
+            const status = CLIP_STATUS[highlight.clipStatus ?? 'processing'];
+            return (
+              <li key={highlight.id} className="flex flex-wrap items-center gap-3 rounded border px-3 py-2 text-sm">
+                <span className="font-mono text-xs text-gray-500">
+                  {formatOffset(highlight.timestamp)}–{formatOffset(highlight.timestamp + (highlight.duration ?? 0))}
+                </span>
+                <span className="font-medium">{highlight.title}</span>
+                <span className={`rounded px-2 py-0.5 text-xs font-medium ${status.className}`}>{status.label}</span>
+                <span className="flex-1" />
+                {highlight.clipUrl && (
+                  <a href={highlight.clipUrl} download className="text-blue-600 hover:underline">Download</a>
+                )}
+                <button onClick={() => deleteHighlight(highlight.id).catch(() => {})} className="text-red-600 hover:underline">
+                  Delete
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ReplayHighlights;
@@ -1,98 +1,306 @@
-import React from 'react';
-// StreamAnalyticsDashboard - Enhanced Dashboard Component;
-import React, { useState, useEffect } from 'react';
+// StreamAnalyticsDashboard - live charts for a broadcast, then its report and how it compares with earlier ones
+import React, { useState } from 'react';
 
-interface ChartData {
-  type: 'line' | 'bar';
-  data: number[];
-  labels: string[], 
+import { useStreamAnalytics } from '../hooks/useStreamAnalytics';
+import type { ComparedMetric, StreamAnalyticsPoint } from '../../../types/livestream';
 
-interface DashboardData {
-  metrics: Record<string, number>
-  charts: ChartData[], 
-  lastUpdated: string,
-
-interface StreamAnalyticsDashboardProps {
+export interface StreamAnalyticsDashboardProps {
+  streamId: string;
+  /** The stream's owner; nobody else can see its analytics */
+  currentUser: { id: string; username: string } | null;
   className?: string;
-  onDataUpdate?: (data: DashboardData) => void, 
-
-import React from 'react';
-export const StreamAnalyticsDashboard: React.FC<StreamAnalyticsDashboardProps> = ({)
-  className = '',
-  onDataUpdate, 
-}) => {
-  const [data, setData] = useState<DashboardData>({)
-    metrics: {},
-    charts: [],
-    lastUpdated: new Date().toISOString();
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {)
-    const fetchData = async () => {
-      try {;
-        setLoading(true);
-        setError(null);
-        
-        // Simulate data fetching;
-        await new Promise(resolve => setTimeout(resolve, 1000)), 
-        
-        const newData: DashboardData = {
-          metrics: {
-            totalViews: 1000,
-            totalLikes: 50,
-            totalComments: 25,
-          charts: [;
-            { type: 'line', data: [10, 40, 20, 80], labels: ['Mon', 'Tue', 'Wed', 'Thu'] }
-          lastUpdated: new Date().toISOString();
-        
-        setData(newData);
-        onDataUpdate?.(newData);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load data'), 
-      } finally {
-        setLoading(false), 
-
-    fetchData();
-  }, [onDataUpdate]);
+}
+
+// Trailing windows to chart; 0 is the whole broadcast
+const RANGES = [
+  { label: '5 min', seconds: 300 },
+  { label: '30 min', seconds: 1800 },
+  { label: '2 hours', seconds: 7200 },
+  { label: 'Whole stream', seconds: 0 },
+];
+
+const COMPARED_LABELS: Record<ComparedMetric, string> = {
+  durationSeconds: 'Duration',
+  peakViewers: 'Peak viewers',
+  averageViewers: 'Average viewers',
+  uniqueViewers: 'Unique viewers',
+  chatPerMinute: 'Chat per minute',
+  revenueCents: 'Super Chat revenue',
+};
+
+const formatOffset = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(Math.floor(seconds % 60)).padStart(2, '0');
+  return hours ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const formatMetric = (metric: ComparedMetric, value: number) => {
+  if (metric === 'durationSeconds') {
+    return formatOffset(value);
+  }
+  return metric === 'revenueCents' ? formatCents(value) : value.toLocaleString();
+};
+
+interface Series {
+  key: keyof Omit<StreamAnalyticsPoint, 't'>;
+  label: string;
+  color: string;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 140;
+
+/** Lines (or bars, for per-bucket counts) over the broadcast's timeline */
+const TimeSeriesChart: React.FC<{
+  title: string;
+  points: StreamAnalyticsPoint[];
+  series: Series[];
+  bars?: boolean;
+  format?: (value: number) => string;
+}> = ({ title, points, series, bars = false, format = value => value.toLocaleString() }) => {
+  const max = Math.max(1, ...points.flatMap(point => series.map(({ key }) => point[key])));
+  const first = points[0]?.t ?? 0;
+  const span = Math.max(1, (points[points.length - 1]?.t ?? 0) - first);
+  const x = (t: number) => ((t - first) / span) * CHART_WIDTH;
+  const y = (value: number) => CHART_HEIGHT - (value / max) * CHART_HEIGHT;
+  const barWidth = Math.max(1, CHART_WIDTH / Math.max(1, points.length) - 1);
+
+  return (
+    <figure className="rounded-lg border border-gray-200 p-3 dark:border-gray-700">
+      <figcaption className="mb-2 flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-medium">{title}</span>
+        {series.map(({ key, label, color }) => (
+          <span key={key} className="flex items-center gap-1 text-xs text-gray-500">
+            <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+            {label}
+          </span>
+        ))}
+        <span className="ml-auto text-xs text-gray-400">max {format(max)}</span>
+      </figcaption>
+      {points.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">No data yet.</p>
+      ) : (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="h-36 w-full" role="img" aria-label={title}>
+          {series.map(({ key, color }, index) =>
+            bars ? (
+              points.map(point => (
+                <rect
+                  key={`${key}-${point.t}`}
+                  x={Math.min(CHART_WIDTH - barWidth, x(point.t)) + (index * barWidth) / series.length}
+                  y={y(point[key])}
+                  width={barWidth / series.length}
+                  height={CHART_HEIGHT - y(point[key])}
+                  fill={color}
+                >
+                  <title>{`${formatOffset(point.t)}: ${format(point[key])}`}</title>
+                </rect>
+              ))
+            ) : (
+              <polyline
+                key={key}
+                fill="none"
+                stroke={color}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+                points={points.map(point => `${x(point.t)},${y(point[key])}`).join(' ')}
+              />
+            )
+          )}
+        </svg>
+      )}
+      {points.length > 0 && (
+        <div className="mt-1 flex justify-between text-[11px] text-gray-400">
+          <span>{formatOffset(first)}</span>
+          <span>{formatOffset(first + span)}</span>
+        </div>
+      )}
+    </figure>
+  );
+};
+
+const Metric: React.FC<{ label: string; value: React.ReactNode; hint?: string }> = ({ label, value, hint }) => (
+  <div className="rounded-lg bg-gray-50 p-3 dark:bg-gray-800">
+    <p className="text-xs text-gray-500">{label}</p>
+    <p className="text-lg font-semibold">{value}</p>
+    {hint && <p className="text-[11px] text-gray-400">{hint}</p>}
+  </div>
+);
+
+const Change: React.FC<{ change: number | null }> = ({ change }) => {
+  if (change === null) {
+    return <span className="text-gray-400">—</span>;
+  }
+  const percent = Math.round(change * 100);
+  return (
+    <span className={percent > 0 ? 'text-green-700' : percent < 0 ? 'text-red-700' : 'text-gray-500'}>
+      {percent > 0 ? '+' : ''}
+      {percent}%
+    </span>
+  );
+};
 
+export const StreamAnalyticsDashboard: React.FC<StreamAnalyticsDashboardProps> = ({ streamId, currentUser, className = '' }) => {
+  const [range, setRange] = useState(RANGES[0].seconds);
+  const { analytics, report, loading, error } = useStreamAnalytics(streamId, currentUser?.id, range || undefined);
+
+  if (!currentUser) {
+    return <div className={`rounded-lg border border-gray-200 p-4 text-sm text-gray-600 ${className}`}>Sign in to see the analytics for this stream.</div>;
+  }
   if (loading) {
+    return <div className={`p-4 text-sm text-gray-500 ${className}`}>Loading analytics…</div>;
+  }
+  if (!analytics) {
     return (
-      <div className={`dashboard-loading ${className} `}>
-        <div>Loading dashboard...</div>
-      </div>
-  if (error) {
-    return (
-      <div className={`dashboard-error ${className} `}>
-        <div>Error: {error}</div>
-        <button onClick={() => window.location.reload()}>
-          Retry;
-        </button>
+      <div className={`rounded-lg border border-gray-200 p-4 text-sm text-gray-600 ${className}`}>
+        {error ? error.message : 'Analytics appear here once the stream goes live.'}
       </div>
+    );
+  }
+
+  const { summary, points } = analytics;
+  const current = points[points.length - 1];
+
   return (
-    <div className={`dashboard ${className} `}>
-      <div className="dashboard-header">
-        <h1>Stream Analytics Dashboard</h1>
-        <div className="last-updated">
-          Last updated: {new Date(data.lastUpdated).toLocaleString(), }
+    <section className={`space-y-4 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg font-semibold">Stream analytics</h2>
+          {analytics.isLive ? (
+            <span className="rounded bg-red-600 px-2 py-0.5 text-xs font-semibold text-white">LIVE</span>
+          ) : (
+            <span className="text-sm text-gray-500">Ended {new Date(analytics.endedAt!).toLocaleString()}</span>
+          )}
+        </div>
+        <div className="flex gap-1 text-sm" role="group" aria-label="Time range">
+          {RANGES.map(option => (
+            <button
+              key={option.seconds}
+              onClick={() => setRange(option.seconds)}
+              aria-pressed={range === option.seconds}
+              className={`rounded px-2 py-1 ${range === option.seconds ? 'bg-gray-900 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
       </div>
-      <div className="dashboard-metrics">
-        {Object.entries(data.metrics).map(([key, value]) => ())
-          <div key={key} className="metric-card">
-            <div className="metric-label">{key}</div>
-            <div className="metric-value">{value.toLocaleString()}</div>
-          </div>
+
+      {error && <p className="text-sm text-red-600" role="alert">{error.message}</p>}
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {analytics.isLive && <Metric label="Watching now" value={(current?.viewers ?? 0).toLocaleString()} />}
+        <Metric label="Peak viewers" value={summary.peakViewers.toLocaleString()} hint={`at ${formatOffset(summary.peakAt)}`} />
+        <Metric label="Average viewers" value={summary.averageViewers.toLocaleString()} />
+        <Metric label="Unique viewers" value={summary.uniqueViewers.toLocaleString()} />
+        <Metric label="Chat messages" value={summary.chatMessages.toLocaleString()} hint={`${summary.chatPerMinute} per minute`} />
+        <Metric label="Super Chat revenue" value={formatCents(summary.revenueCents)} />
+        <Metric label="Joins / leaves" value={`${summary.joins.toLocaleString()} / ${summary.leaves.toLocaleString()}`} />
+        <Metric label="Duration" value={formatOffset(summary.durationSeconds)} hint={`${summary.watchMinutes.toLocaleString()} minutes watched`} />
       </div>
-      <div className="dashboard-charts">
-        {data.charts.length > 0 ? ()
-          data.charts.map((chart: any, index: any) => (;))
-          <div key={index} className="chart-container">
-              {/* Chart component would go here */}
-              <div>Chart {index + 1}: {chart.type}</div>
-            </div>
-        ) : (;
-          <div className="no-charts">No charts available</div>
+
+      <p className="text-xs text-gray-500">
+        {analytics.resolution === 1 ? 'Per second' : `Per ${formatOffset(analytics.resolution)} bucket`}
+        {analytics.isLive && ' · updates every few seconds'}
+      </p>
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+        <TimeSeriesChart
+          title="Concurrent viewers"
+          points={points}
+          series={[
+            { key: 'viewers', label: 'Average', color: '#2563eb' },
+            { key: 'peakViewers', label: 'Peak', color: '#93c5fd' },
+          ]}
+        />
+        <TimeSeriesChart title="Chat messages" points={points} series={[{ key: 'chatMessages', label: 'Messages', color: '#7c3aed' }]} bars />
+        <TimeSeriesChart
+          title="Super Chat revenue"
+          points={points}
+          series={[{ key: 'revenueCents', label: 'Revenue', color: '#16a34a' }]}
+          bars
+          format={formatCents}
+        />
+        <TimeSeriesChart
+          title="Joins and leaves"
+          points={points}
+          series={[
+            { key: 'joins', label: 'Joins', color: '#0891b2' },
+            { key: 'leaves', label: 'Leaves', color: '#f97316' },
+          ]}
+          bars
+        />
       </div>
-    </div>
-export default StreamAnalyticsDashboard;
\ No newline at end of file
+
+      {report && (
+        <section className="space-y-4 rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+          <h3 className="font-semibold">Stream report</h3>
+
+          <ul className="grid grid-cols-1 gap-2 text-sm md:grid-cols-3">
+            {report.moments.peakViewers && (
+              <li>Most viewers: {report.moments.peakViewers.value.toLocaleString()} around {formatOffset(report.moments.peakViewers.t)}</li>
+            )}
+            {report.moments.busiestChat && (
+              <li>Busiest chat: {report.moments.busiestChat.value.toLocaleString()} messages in the minute from {formatOffset(report.moments.busiestChat.t)}</li>
+            )}
+            {report.moments.topRevenue && (
+              <li>Top earning minute: {formatCents(report.moments.topRevenue.value)} from {formatOffset(report.moments.topRevenue.t)}</li>
+            )}
+          </ul>
+
+          {report.comparison.previous.length === 0 ? (
+            <p className="text-sm text-gray-600">This is your first tracked stream; later ones will be compared with it.</p>
+          ) : (
+            <>
+              <table className="w-full text-sm">
+                <caption className="mb-2 text-left text-gray-600">
+                  Compared with the average of your previous {report.comparison.previous.length} stream
+                  {report.comparison.previous.length === 1 ? '' : 's'}
+                </caption>
+                <thead className="text-left text-xs text-gray-500">
+                  <tr>
+                    <th className="py-1 font-medium">Metric</th>
+                    <th className="py-1 font-medium">This stream</th>
+                    <th className="py-1 font-medium">Previous average</th>
+                    <th className="py-1 font-medium">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(Object.keys(COMPARED_LABELS) as ComparedMetric[]).map(metric => {
+                    const comparison = report.comparison.metrics[metric];
+                    return (
+                      <tr key={metric} className="border-t border-gray-100 dark:border-gray-800">
+                        <td className="py-1">{COMPARED_LABELS[metric]}</td>
+                        <td className="py-1">{formatMetric(metric, comparison.value)}</td>
+                        <td className="py-1">{comparison.previousAverage === null ? '—' : formatMetric(metric, comparison.previousAverage)}</td>
+                        <td className="py-1"><Change change={comparison.change} /></td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <div>
+                <h4 className="mb-1 text-sm font-medium">Previous streams</h4>
+                <ul className="divide-y divide-gray-100 text-sm dark:divide-gray-800">
+                  {report.comparison.previous.map(previous => (
+                    <li key={previous.sessionId} className="flex flex-wrap gap-x-4 py-1">
+                      <span className="min-w-0 flex-1 truncate">{previous.title}</span>
+                      <span className="text-gray-500">{new Date(previous.startedAt).toLocaleDateString()}</span>
+                      <span>{previous.summary.peakViewers.toLocaleString()} peak</span>
+                      <span>{formatCents(previous.summary.revenueCents)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+        </section>
+      )}
+    </section>
+  );
+};
+
+export default StreamAnalyticsDashboard;
@@ -1,98 +1,199 @@
-import React from 'react';
-// StreamManagementDashboard - Enhanced Dashboard Component;
-import React, { useState, useEffect } from 'react';
+// StreamManagementDashboard - encoder setup, stream key, live ingest health, analytics and the last broadcast's highlights
+import React, { useState } from 'react';
 
-interface ChartData {
-  type: 'line' | 'bar';
-  data: number[];
-  labels: string[], 
+import ProtectedStreamAnalyticsDashboard from './ProtectedStreamAnalyticsDashboard';
+import ReplayHighlights from './ReplayHighlights';
+import { useStreamIngest } from '../hooks/useStreamIngest';
+import type { IngestHealth } from '../../../types/livestream';
 
-interface DashboardData {
-  metrics: Record<string, number>
-  charts: ChartData[], 
-  lastUpdated: string,
-
-interface StreamManagementDashboardProps {
+export interface StreamManagementDashboardProps {
+  streamId: string;
+  /** The stream's owner; nobody else can see the key */
+  currentUser: { id: string; username: string } | null;
   className?: string;
-  onDataUpdate?: (data: DashboardData) => void, 
+}
+
+const HEALTH_STYLES: Record<NonNullable<IngestHealth['health']>, string> = {
+  excellent: 'bg-green-100 text-green-800',
+  good: 'bg-green-100 text-green-800',
+  fair: 'bg-yellow-100 text-yellow-800',
+  poor: 'bg-red-100 text-red-800',
+};
+
+const STATUS_LABELS = { offline: 'Waiting for encoder', live: 'Live', ended: 'Stream ended' };
+
+const Metric: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="rounded-lg bg-gray-50 p-3 dark:bg-gray-800">
+    <p className="text-xs text-gray-500">{label}</p>
+    <p className="text-lg font-semibold">{value ?? '—'}</p>
+  </div>
+);
 
-import React from 'react';
-export const StreamManagementDashboard: React.FC<StreamManagementDashboardProps> = ({)
+export const StreamManagementDashboard: React.FC<StreamManagementDashboardProps> = ({
+  streamId,
+  currentUser,
   className = '',
-  onDataUpdate, 
 }) => {
-  const [data, setData] = useState<DashboardData>({)
-    metrics: {},
-    charts: [],
-    lastUpdated: new Date().toISOString();
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {)
-    const fetchData = async () => {
-      try {;
-        setLoading(true);
-        setError(null);
-        
-        // Simulate data fetching;
-        await new Promise(resolve => setTimeout(resolve, 1000)), 
-        
-        const newData: DashboardData = {
-          metrics: {
-            totalViews: 1000,
-            totalLikes: 50,
-            totalComments: 25,
-          charts: [;
-            { type: 'line', data: [10, 40, 20, 80], labels: ['Mon', 'Tue', 'Wed', 'Thu'] }
-          lastUpdated: new Date().toISOString();
-        
-        setData(newData);
-        onDataUpdate?.(newData);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load data'), 
-      } finally {
-        setLoading(false), 
-
-    fetchData();
-  }, [onDataUpdate]);
-
-  if (loading) {
-    return (
-      <div className={`dashboard-loading ${className} `}>
-        <div>Loading dashboard...</div>
-      </div>
-  if (error) {
-    return (
-      <div className={`dashboard-error ${className} `}>
-        <div>Error: {error}</div>
-        <button onClick={() => window.location.reload()}>
-          Retry;
-        </button>
-      </div>
+  const { ingest, loading, error, rotateKey, revokeKey } = useStreamIngest(streamId, currentUser?.id);
+  const [showKey, setShowKey] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const attempt = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch {
+      // Shown from the hook's error
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copy = async (label: string, text: string) => {
+    await navigator.clipboard?.writeText(text);
+    setCopied(label);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  if (!currentUser) {
+    return <div className={`rounded-lg border border-gray-200 p-4 text-sm text-gray-600 ${className}`}>Sign in to manage this stream.</div>;
+  }
+  if (loading && !ingest) {
+    return <div className={`rounded-lg border border-gray-200 p-4 text-sm text-gray-500 ${className}`}>Loading stream settings…</div>;
+  }
+
+  const health = ingest?.health;
+  const testCommand = ingest?.streamKey
+    ? `ffmpeg -re -i input.mp4 -c:v libx264 -preset veryfast -g 60 -keyint_min 60 -c:a aac -f flv ${ingest.serverUrl}/${ingest.streamKey}`
+    : null;
+
   return (
-    <div className={`dashboard ${className} `}>
-      <div className="dashboard-header">
-        <h1>Stream Management Dashboard</h1>
-        <div className="last-updated">
-          Last updated: {new Date(data.lastUpdated).toLocaleString(), }
-        </div>
+    <div className={`space-y-6 rounded-lg border border-gray-200 bg-white p-6 dark:border-gray-700 dark:bg-gray-900 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold">Stream setup</h2>
+        {ingest && (
+          <span
+            className={`rounded-full px-3 py-1 text-sm font-medium ${
+              ingest.status === 'live' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700'
+            }`}
+          >
+            {STATUS_LABELS[ingest.status]}
+          </span>
+        )}
       </div>
-      <div className="dashboard-metrics">
-        {Object.entries(data.metrics).map(([key, value]) => ())
-          <div key={key} className="metric-card">
-            <div className="metric-label">{key}</div>
-            <div className="metric-value">{value.toLocaleString()}</div>
-          </div>
-      </div>
-      <div className="dashboard-charts">
-        {data.charts.length > 0 ? ()
-          data.charts.map((chart: any, index: any) => (;))
-          <div key={index} className="chart-container">
-              {/* Chart component would go here */}
-              <div>Chart {index + 1}: {chart.type}</div>
+
+      {error && <p className="text-sm text-red-600" role="alert">{error.message}</p>}
+
+      {ingest && (
+        <section className="space-y-3">
+          <div>
+            <label className="text-sm font-medium" htmlFor="ingest-server-url">Server URL</label>
+            <div className="mt-1 flex gap-2">
+              <input id="ingest-server-url" readOnly value={ingest.serverUrl} className="flex-1 rounded border border-gray-300 px-3 py-2 font-mono text-sm" />
+              <button onClick={() => copy('server', ingest.serverUrl)} className="rounded border border-gray-300 px-3 text-sm hover:bg-gray-50">
+                {copied === 'server' ? 'Copied' : 'Copy'}
+              </button>
             </div>
-        ) : (;
-          <div className="no-charts">No charts available</div>
-      </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium" htmlFor="ingest-stream-key">Stream key</label>
+            {ingest.streamKey ? (
+              <div className="mt-1 flex gap-2">
+                <input
+                  id="ingest-stream-key"
+                  readOnly
+                  type={showKey ? 'text' : 'password'}
+                  value={ingest.streamKey}
+                  className="flex-1 rounded border border-gray-300 px-3 py-2 font-mono text-sm"
+                />
+                <button onClick={() => setShowKey(value => !value)} className="rounded border border-gray-300 px-3 text-sm hover:bg-gray-50">
+                  {showKey ? 'Hide' : 'Show'}
+                </button>
+                <button onClick={() => copy('key', ingest.streamKey!)} className="rounded border border-gray-300 px-3 text-sm hover:bg-gray-50">
+                  {copied === 'key' ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+            ) : (
+              <p className="mt-1 text-sm text-gray-600">No stream key. Create one to start streaming.</p>
+            )}
+            {ingest.keyCreatedAt && (
+              <p className="mt-1 text-xs text-gray-500">Created {new Date(ingest.keyCreatedAt).toLocaleString()}</p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => attempt(rotateKey)}
+              disabled={busy}
+              className="rounded bg-gray-900 px-3 py-2 text-sm text-white hover:bg-gray-700 disabled:opacity-50"
+            >
+              {ingest.streamKey ? 'Reset stream key' : 'Create stream key'}
+            </button>
+            {ingest.streamKey && (
+              <button
+                onClick={() => {
+                  if (window.confirm('Revoke this stream key? Any encoder using it will be disconnected.')) {
+                    attempt(revokeKey);
+                  }
+                }}
+                disabled={busy}
+                className="rounded border border-red-300 px-3 py-2 text-sm text-red-700 hover:bg-red-50 disabled:opacity-50"
+              >
+                Revoke key
+              </button>
+            )}
+          </div>
+
+          {testCommand && (
+            <details className="text-sm">
+              <summary className="cursor-pointer text-gray-600">Test with ffmpeg</summary>
+              <pre className="mt-2 overflow-x-auto rounded bg-gray-900 p-3 text-xs text-gray-100">{testCommand}</pre>
+            </details>
+          )}
+        </section>
+      )}
+
+      {health && ingest?.status === 'live' && (
+        <section className="space-y-3">
+          <div className="flex items-center gap-2">
+            <h3 className="font-semibold">Stream health</h3>
+            {health.health && (
+              <span className={`rounded-full px-2 py-0.5 text-xs font-medium capitalize ${HEALTH_STYLES[health.health]}`}>
+                {health.health}
+              </span>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            <Metric label="Bitrate" value={health.bitrateKbps !== undefined ? `${health.bitrateKbps.toLocaleString()} Kbps` : null} />
+            <Metric label="Frame rate" value={health.framesPerSecond !== undefined ? `${health.framesPerSecond} fps` : null} />
+            <Metric label="Keyframe interval" value={health.keyframeIntervalSeconds != null ? `${health.keyframeIntervalSeconds}s` : null} />
+            <Metric label="Dropped frames" value={health.droppedFrames !== undefined ? `${health.droppedFrames} / ${health.totalFrames}` : null} />
+          </div>
+          <p className="text-xs text-gray-500">
+            {[
+              health.video?.width && health.video.height ? `${health.video.width}×${health.video.height}` : null,
+              health.video?.codec,
+              health.audio?.codec,
+              health.encoder,
+            ].filter(Boolean).join(' · ')}
+          </p>
+          {health.issues.length > 0 && (
+            <ul className="space-y-1 rounded-md bg-yellow-50 p-3 text-sm text-yellow-900">
+              {health.issues.map(issue => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+
+      <ProtectedStreamAnalyticsDashboard streamId={streamId} currentUser={currentUser} />
+
+      {ingest?.status !== 'live' && <ReplayHighlights streamId={streamId} currentUser={currentUser} />}
     </div>
-export default StreamManagementDashboard;
\ No newline at end of file
+  );
+};
+
+export default StreamManagementDashboard;
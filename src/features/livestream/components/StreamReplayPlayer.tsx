@@ -0,0 +1,35 @@
+// StreamReplayPlayer - an ended stream's recording with its chat replay beside it
+import React, { useState } from 'react';
+
+import AdvancedVideoPlayer from '../../../../components/AdvancedVideoPlayer';
+import ReplayChat from './ReplayChat';
+import type { StreamReplay } from '../../../types/livestream';
+
+export interface StreamReplayPlayerProps {
+  replay: StreamReplay;
+  className?: string;
+}
+
+export const StreamReplayPlayer: React.FC<StreamReplayPlayerProps> = ({ replay, className = '' }) => {
+  const [currentTime, setCurrentTime] = useState(0);
+
+  // Only recorded replays have a chat to play back
+  const hasChat = Boolean(replay.videoId) && (replay.stats?.chatMessages ?? 0) > 0;
+
+  return (
+    <div className={`grid grid-cols-1 gap-4 lg:grid-cols-3 ${className}`}>
+      <div className={hasChat ? 'lg:col-span-2' : 'lg:col-span-3'}>
+        {replay.isProcessing || !replay.videoUrl ? (
+          <div className="flex aspect-video items-center justify-center rounded-lg bg-black text-sm text-gray-300">
+            The replay will be ready once processing finishes
+          </div>
+        ) : (
+          <AdvancedVideoPlayer key={replay.videoUrl} src={replay.videoUrl} onTimeUpdate={setCurrentTime} />
+        )}
+      </div>
+      {hasChat && <ReplayChat replayId={replay.id} currentTime={currentTime} className="max-h-[480px]" />}
+    </div>
+  );
+};
+
+export default StreamReplayPlayer;
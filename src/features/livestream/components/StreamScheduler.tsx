@@ -1,62 +1,214 @@
-import React from 'react';
-// StreamScheduler - React Component;
-import React, { useState, useEffect } from 'react';
+// StreamScheduler - a creator's upcoming streams: schedule, reschedule, cancel and export to a calendar
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { liveStreamService } from '../../../../services/livestreamAPI';
+import type { LiveStream } from '../../../types/livestream';
 
 export interface StreamSchedulerProps {
+  currentUser: { id: string; username: string } | null;
+  /** Called with each newly scheduled stream */
+  onScheduled?: (stream: LiveStream) => void;
   className?: string;
-  children?: React.ReactNode;
-  onLoad?: () => void;
-  onError?: (error: Error) => void, 
-
-import React from 'react';
-export const StreamScheduler: React.FC<StreamSchedulerProps> = ({)
-  className = '',
-  children,
-  onLoad,
-  onError, 
 }
-}) => {
-  const [isReady, setIsReady] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-
-  useEffect(() => {)
-    const initialize = async () => {
-      try {;
-        await new Promise(resolve => setTimeout(resolve, 200));
-        setIsReady(true);
-        onLoad?.(), 
-      } catch (err) {
-        const error = err instanceof Error ? err : new Error('Initialization failed');
-        setError(error);
-        onError?.(error), 
-
-    initialize();
-  }, [onLoad, onError]);
-
-  if (error) {
-    return (
-      <div className={'error-state ' + className}>
-        <h3>Error in StreamScheduler</h3>
-        <p>{error.message}</p>
-        <button onClick={() => window.location.reload()}>
-          Retry;
-        </button>
-      </div>
-  if (!isReady) {
-    return (
-      <div className={'loading-state ' + className}>
-        <div>Loading StreamScheduler...</div>
-      </div>
+
+// `<input type="datetime-local">` works in local time without a zone
+const toLocalInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const isUpcoming = (stream: LiveStream) => stream.status === 'scheduled' && Boolean(stream.scheduledStartTime);
+const isMissed = (stream: LiveStream) => stream.status === 'ended' && stream.endReason === 'missed';
+
+export const StreamScheduler: React.FC<StreamSchedulerProps> = ({ currentUser, onScheduled, className = '' }) => {
+  const [streams, setStreams] = useState<LiveStream[]>([]);
+  const [form, setForm] = useState({ title: '', description: '', startsAt: '' });
+  const [rescheduling, setRescheduling] = useState<{ id: string; startsAt: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const refresh = useCallback(async () => {
+    const mine = await liveStreamService.getMyStreams();
+    setStreams(mine.filter(stream => isUpcoming(stream) || isMissed(stream)));
+  }, []);
+
+  const userId = currentUser?.id;
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+    liveStreamService.setUser(userId);
+    refresh().catch(err => setError(err instanceof Error ? err.message : 'Failed to load your schedule'));
+  }, [userId, refresh]);
+
+  const attempt = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSchedule = (event: React.FormEvent) => {
+    event.preventDefault();
+    attempt(async () => {
+      const stream = await liveStreamService.createStream({
+        title: form.title.trim(),
+        description: form.description.trim(),
+        scheduledStartTime: new Date(form.startsAt).toISOString(),
+      });
+      setForm({ title: '', description: '', startsAt: '' });
+      onScheduled?.(stream);
+    });
+  };
+
+  const handleReschedule = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!rescheduling) {
+      return;
+    }
+    attempt(async () => {
+      await liveStreamService.updateStream(rescheduling.id, { scheduledStartTime: new Date(rescheduling.startsAt).toISOString() });
+      setRescheduling(null);
+    });
+  };
+
+  const downloadCalendar = () =>
+    attempt(async () => {
+      const blob = await liveStreamService.downloadSchedule(userId!);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'live-schedule.ics';
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+
+  const copyFeed = async () => {
+    await navigator.clipboard?.writeText(new URL(liveStreamService.getScheduleCalendarUrl(userId!), window.location.origin).toString());
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (!currentUser) {
+    return null;
+  }
+
+  const now = Date.now();
+  const upcoming = streams
+    .filter(isUpcoming)
+    .sort((a, b) => a.scheduledStartTime!.getTime() - b.scheduledStartTime!.getTime());
+  const missed = streams.filter(isMissed);
+
   return (
-    <div className={'component-ready ' + className}>
-      <div className="component-header">
-        <h2>StreamScheduler</h2>
+    <section className={`space-y-4 rounded-lg border border-gray-200 p-4 dark:border-gray-700 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">Schedule</h2>
+        <div className="flex gap-3 text-sm">
+          <button onClick={downloadCalendar} disabled={busy || upcoming.length === 0} className="text-blue-600 hover:underline disabled:opacity-50">
+            Export .ics
+          </button>
+          <button onClick={copyFeed} className="text-blue-600 hover:underline" title="Public streams only; calendar apps can subscribe to it">
+            {copied ? 'Copied' : 'Copy calendar feed link'}
+          </button>
+        </div>
       </div>
-      <div className="component-body">
-        {children || ()
-          <div className="default-content">
-            <p>Component is ready and functioning properly.</p>
-          </div>
-      </div>
-    </div>
-export default StreamScheduler;
\ No newline at end of file
+
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+      <form onSubmit={handleSchedule} className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          <input
+            value={form.title}
+            onChange={event => setForm(current => ({ ...current, title: event.target.value }))}
+            placeholder="Title"
+            maxLength={100}
+            className="min-w-[12rem] flex-1 rounded border border-gray-300 px-2 py-1.5 text-sm"
+          />
+          <input
+            type="datetime-local"
+            value={form.startsAt}
+            min={toLocalInput(new Date())}
+            onChange={event => setForm(current => ({ ...current, startsAt: event.target.value }))}
+            className="rounded border border-gray-300 px-2 py-1.5 text-sm"
+          />
+          <button
+            type="submit"
+            disabled={busy || !form.title.trim() || !form.startsAt || new Date(form.startsAt).getTime() <= now}
+            className="rounded bg-gray-900 px-3 py-1.5 text-sm text-white hover:bg-gray-700 disabled:opacity-50"
+          >
+            Schedule
+          </button>
+        </div>
+        <textarea
+          value={form.description}
+          onChange={event => setForm(current => ({ ...current, description: event.target.value }))}
+          placeholder="Description (optional)"
+          rows={2}
+          className="block w-full rounded border border-gray-300 px-2 py-1.5 text-sm"
+        />
+      </form>
+
+      {upcoming.length === 0 && missed.length === 0 ? (
+        <p className="text-sm text-gray-600">Nothing scheduled. Viewers can ask to be reminded about scheduled streams.</p>
+      ) : (
+        <ul className="space-y-2">
+          {[...upcoming, ...missed].map(stream => (
+            <li key={stream.id} className="rounded border px-3 py-2 text-sm">
+              <div className="flex flex-wrap items-center gap-3">
+                <a href={`/live/${stream.id}`} className="font-medium hover:underline">{stream.title}</a>
+                {isMissed(stream) ? (
+                  <span className="rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-600">Missed</span>
+                ) : (
+                  <span className="text-gray-600">{stream.scheduledStartTime!.toLocaleString()}</span>
+                )}
+                <span className="flex-1" />
+                <button
+                  onClick={() => setRescheduling({ id: stream.id, startsAt: toLocalInput(new Date(Math.max(now + 3600000, stream.scheduledStartTime?.getTime() ?? 0))) })}
+                  className="text-blue-600 hover:underline"
+                >
+                  Reschedule
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Cancel "${stream.title}"? Its stream key stops working.`)) {
+                      attempt(() => liveStreamService.deleteStream(stream.id));
+                    }
+                  }}
+                  className="text-red-600 hover:underline"
+                >
+                  Cancel
+                </button>
+              </div>
+              {rescheduling?.id === stream.id && (
+                <form onSubmit={handleReschedule} className="mt-2 flex gap-2">
+                  <input
+                    type="datetime-local"
+                    value={rescheduling.startsAt}
+                    min={toLocalInput(new Date())}
+                    onChange={event => setRescheduling({ id: stream.id, startsAt: event.target.value })}
+                    className="rounded border border-gray-300 px-2 py-1 text-sm"
+                  />
+                  <button type="submit" disabled={busy} className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700 disabled:opacity-50">
+                    Save
+                  </button>
+                  <button type="button" onClick={() => setRescheduling(null)} className="rounded px-3 py-1 hover:bg-gray-100">
+                    Cancel
+                  </button>
+                </form>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default StreamScheduler;
@@ -0,0 +1,145 @@
+// StreamWaitingRoom - countdown, reminders and pre-chat for a stream that has not started yet
+import React, { useEffect, useState } from 'react';
+
+import { liveStreamService } from '../../../../services/livestreamAPI';
+import AdvancedLiveChat from './AdvancedLiveChat';
+import { useStreamReminder } from '../hooks/useStreamReminder';
+import type { LiveSocketViewer } from '../services/liveSocket';
+import type { LiveStream } from '../../../types/livestream';
+
+export interface StreamWaitingRoomProps {
+  stream: LiveStream;
+  currentUser?: LiveSocketViewer | null;
+  className?: string;
+}
+
+const describeOffset = (minutes: number) => {
+  if (minutes === 0) {
+    return 'When it starts';
+  }
+  if (minutes % 1440 === 0) {
+    return `${minutes / 1440} day${minutes === 1440 ? '' : 's'} before`;
+  }
+  return minutes % 60 === 0 ? `${minutes / 60} hour${minutes === 60 ? '' : 's'} before` : `${minutes} minutes before`;
+};
+
+const splitCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return {
+    days: Math.floor(seconds / 86400),
+    hours: Math.floor((seconds % 86400) / 3600),
+    minutes: Math.floor((seconds % 3600) / 60),
+    seconds: seconds % 60,
+  };
+};
+
+// Ticks once a second until `until`
+const useNow = (until: number) => {
+  const [now, setNow] = useState(Date.now());
+  const done = now >= until;
+  useEffect(() => {
+    if (done) {
+      return;
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [done]);
+  return now;
+};
+
+export const StreamWaitingRoom: React.FC<StreamWaitingRoomProps> = ({ stream, currentUser = null, className = '' }) => {
+  const startsAt = stream.scheduledStartTime?.getTime() ?? Date.now();
+  const now = useNow(startsAt);
+  const { reminder, saving, error, subscribe, unsubscribe } = useStreamReminder(stream.id, currentUser?.id);
+  const [offsets, setOffsets] = useState<number[]>([]);
+
+  useEffect(() => {
+    if (reminder) {
+      setOffsets(reminder.offsets);
+    }
+  }, [reminder]);
+
+  const remaining = splitCountdown(startsAt - now);
+  const started = now >= startsAt;
+
+  const toggleOffset = (offset: number) =>
+    setOffsets(current => (current.includes(offset) ? current.filter(value => value !== offset) : [...current, offset]));
+
+  return (
+    <div className={`grid grid-cols-1 gap-6 lg:grid-cols-3 ${className}`}>
+      <div className="space-y-4 lg:col-span-2">
+        <div
+          className="relative flex aspect-video flex-col items-center justify-center rounded-lg bg-gray-900 bg-cover bg-center text-white"
+          style={stream.thumbnailUrl ? { backgroundImage: `linear-gradient(rgba(0,0,0,.6), rgba(0,0,0,.6)), url(${stream.thumbnailUrl})` } : undefined}
+        >
+          <p className="text-sm uppercase tracking-wide text-gray-300">{started ? 'Starting soon' : 'Live in'}</p>
+          {!started && (
+            <div className="mt-2 flex gap-4 font-mono text-4xl font-semibold" aria-live="off">
+              {remaining.days > 0 && <span>{remaining.days}d</span>}
+              <span>{String(remaining.hours).padStart(2, '0')}h</span>
+              <span>{String(remaining.minutes).padStart(2, '0')}m</span>
+              <span>{String(remaining.seconds).padStart(2, '0')}s</span>
+            </div>
+          )}
+          <p className="mt-3 text-sm text-gray-300">{new Date(startsAt).toLocaleString()}</p>
+          {started && <p className="mt-2 text-sm text-gray-300">The creator hasn&apos;t started the stream yet. This page switches over when they do.</p>}
+        </div>
+
+        <div>
+          <h1 className="text-xl font-semibold">{stream.title}</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">{stream.creatorName}</p>
+          {stream.description && <p className="mt-2 whitespace-pre-line text-sm">{stream.description}</p>}
+        </div>
+
+        <section className="space-y-3 rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="font-semibold">Notify me</h2>
+            <a href={liveStreamService.getCalendarUrl(stream.id)} download className="text-sm text-blue-600 hover:underline">
+              Add to calendar
+            </a>
+          </div>
+          {!currentUser ? (
+            <p className="text-sm text-gray-600">Sign in to get a reminder.</p>
+          ) : reminder && (
+            <>
+              <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm">
+                {reminder.availableOffsets
+                  .slice()
+                  .sort((a, b) => b - a)
+                  .map(offset => (
+                    <label key={offset} className="flex items-center gap-1">
+                      <input type="checkbox" checked={offsets.includes(offset)} onChange={() => toggleOffset(offset)} />
+                      {describeOffset(offset)}
+                    </label>
+                  ))}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => subscribe(offsets)}
+                  disabled={saving || offsets.length === 0}
+                  className="rounded bg-red-600 px-3 py-1.5 text-sm text-white hover:bg-red-700 disabled:opacity-50"
+                >
+                  {reminder.subscribed ? 'Update reminders' : 'Notify me'}
+                </button>
+                {reminder.subscribed && (
+                  <button onClick={() => unsubscribe()} disabled={saving} className="rounded px-3 py-1.5 text-sm hover:bg-gray-100 disabled:opacity-50">
+                    Turn off
+                  </button>
+                )}
+                <span className="text-xs text-gray-500">
+                  {reminder.subscriberCount} {reminder.subscriberCount === 1 ? 'person is' : 'people are'} waiting
+                </span>
+              </div>
+            </>
+          )}
+          {error && <p className="text-sm text-red-600">{error.message}</p>}
+        </section>
+      </div>
+
+      {/* Chat is open before the stream starts */}
+      <AdvancedLiveChat streamId={stream.id} currentUser={currentUser} className="h-[600px]" />
+    </div>
+  );
+};
+
+export default StreamWaitingRoom;
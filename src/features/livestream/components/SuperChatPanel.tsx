@@ -1,62 +1,280 @@
-import React from 'react';
-// SuperChatPanel - React Component;
-import React, { useState, useEffect } from 'react';
+// SuperChatPanel - buy Super Chats and memberships, pinned ticker and donation goal
+import React, { useMemo, useState } from 'react';
+
+import { useSuperChats } from '../hooks/useSuperChats';
+import type { SuperChatViewer } from '../services/superChatService';
+import type { DonationGoal, SuperChat, SuperChatTier } from '../../../types/livestream';
 
 export interface SuperChatPanelProps {
+  streamId: string;
+  /** The stream owner sets the donation goal */
+  isOwner?: boolean;
+  currentUser?: SuperChatViewer | null;
   className?: string;
-  children?: React.ReactNode;
-  onLoad?: () => void;
-  onError?: (error: Error) => void, 
+}
+
+const PRESET_AMOUNTS = [2, 5, 10, 20, 50, 100];
+// The mock provider's test card; a real checkout would tokenize the viewer's card here
+const PAYMENT_TOKEN = 'tok_visa';
+
+const formatMoney = (amount: number, currency = 'USD') =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
 
-import React from 'react';
-export const SuperChatPanel: React.FC<SuperChatPanelProps> = ({)
+const tierFor = (tiers: SuperChatTier[], amountUsd: number) =>
+  [...tiers].reverse().find(tier => amountUsd >= tier.minUsd) ?? null;
+
+/** Progress toward the stream's goal, small enough to sit over the player */
+export const DonationGoalOverlay: React.FC<{ goal: DonationGoal | null; className?: string }> = ({
+  goal,
   className = '',
-  children,
-  onLoad,
-  onError, 
-}
 }) => {
-  const [isReady, setIsReady] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-
-  useEffect(() => {)
-    const initialize = async () => {
-      try {;
-        await new Promise(resolve => setTimeout(resolve, 200));
-        setIsReady(true);
-        onLoad?.(), 
-      } catch (err) {
-        const error = err instanceof Error ? err : new Error('Initialization failed');
-        setError(error);
-        onError?.(error), 
-
-    initialize();
-  }, [onLoad, onError]);
-
-  if (error) {
-    return (
-      <div className={'error-state ' + className}>
-        <h3>Error in SuperChatPanel</h3>
-        <p>{error.message}</p>
-        <button onClick={() => window.location.reload()}>
-          Retry;
-        </button>
+  if (!goal) {
+    return null;
+  }
+  return (
+    <div className={`w-64 rounded-lg bg-black/70 p-3 text-white shadow-lg ${className}`} role="status">
+      <div className="flex items-baseline justify-between gap-2 text-sm">
+        <span className="truncate font-medium">{goal.title}</span>
+        <span className="text-xs text-gray-300">{Math.round(goal.progress * 100)}%</span>
       </div>
-  if (!isReady) {
-    return (
-      <div className={'loading-state ' + className}>
-        <div>Loading SuperChatPanel...</div>
+      <div className="mt-2 h-2 overflow-hidden rounded-full bg-white/20">
+        <div
+          className={`h-full rounded-full transition-all ${goal.reached ? 'bg-green-400' : 'bg-blue-400'}`}
+          style={{ width: `${goal.progress * 100}%` }}
+        />
       </div>
+      <p className="mt-1 text-xs text-gray-300">
+        {formatMoney(goal.raisedAmount, goal.currency)} of {formatMoney(goal.targetAmount, goal.currency)}
+        {goal.reached && ' · Goal reached!'}
+      </p>
+    </div>
+  );
+};
+
+const SuperChatCard: React.FC<{ superChat: SuperChat; compact?: boolean }> = ({ superChat, compact = false }) => (
+  <div className="overflow-hidden rounded-md text-sm text-gray-900" style={{ backgroundColor: superChat.color }}>
+    <div className="flex items-center justify-between gap-2 px-3 py-1.5 font-medium">
+      <span className="truncate">{superChat.username}</span>
+      <span>{formatMoney(superChat.amount, superChat.currency)}</span>
+    </div>
+    {!compact && superChat.message && <p className="bg-white/30 px-3 py-1.5">{superChat.message}</p>}
+  </div>
+);
+
+export const SuperChatPanel: React.FC<SuperChatPanelProps> = ({
+  streamId,
+  isOwner = false,
+  currentUser = null,
+  className = '',
+}) => {
+  const { catalog, superChats, pinned, goal, loading, error, sendSuperChat, joinMembership, setGoal, clearGoal } =
+    useSuperChats(streamId, currentUser);
+  const [amount, setAmount] = useState(5);
+  const [currency, setCurrency] = useState('USD');
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [confirmation, setConfirmation] = useState<string | null>(null);
+  const [goalTitle, setGoalTitle] = useState('');
+  const [goalTarget, setGoalTarget] = useState(100);
+
+  const tier = useMemo(
+    () => (catalog ? tierFor(catalog.tiers, amount * (catalog.rates[currency] ?? 1)) : null),
+    [catalog, amount, currency]
+  );
+  const messageTooLong = Boolean(tier) && message.trim().length > tier!.maxMessageLength;
+
+  const attempt = async (action: () => Promise<unknown>, done: string) => {
+    setBusy(true);
+    setConfirmation(null);
+    try {
+      await action();
+      setConfirmation(done);
+      return true;
+    } catch {
+      return false; // Shown from the hook's error
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSuperChat = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!tier || messageTooLong) {
+      return;
+    }
+    const sent = await attempt(
+      () => sendSuperChat({ amount, currency, message: message.trim(), paymentToken: PAYMENT_TOKEN }),
+      'Thanks! Your Super Chat is live.'
+    );
+    if (sent) {
+      setMessage('');
+    }
+  };
+
+  const handleGoal = (event: React.FormEvent) => {
+    event.preventDefault();
+    attempt(() => setGoal(goalTitle.trim() || 'Stream goal', goalTarget), 'Goal updated');
+  };
+
+  if (loading) {
+    return <div className={`rounded-lg border border-gray-200 p-4 text-sm text-gray-500 dark:border-gray-700 ${className}`}>Loading Super Chat…</div>;
+  }
+
   return (
-    <div className={'component-ready ' + className}>
-      <div className="component-header">
-        <h2>SuperChatPanel</h2>
-      </div>
-      <div className="component-body">
-        {children || ()
-          <div className="default-content">
-            <p>Component is ready and functioning properly.</p>
+    <div className={`space-y-4 rounded-lg border border-gray-200 bg-white p-4 dark:border-gray-700 dark:bg-gray-900 ${className}`}>
+      <h3 className="text-lg font-semibold">Super Chat</h3>
+
+      {pinned.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-1" aria-label="Pinned Super Chats">
+          {pinned.map(superChat => (
+            <div key={superChat.id} className="w-40 flex-shrink-0">
+              <SuperChatCard superChat={superChat} compact />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <DonationGoalOverlay goal={goal} className="w-full" />
+
+      {error && <p className="text-sm text-red-600" role="alert">{error.message}</p>}
+      {confirmation && <p className="text-sm text-green-600">{confirmation}</p>}
+
+      {isOwner && (
+        <form onSubmit={handleGoal} className="space-y-2 rounded-md bg-gray-50 p-3 dark:bg-gray-800">
+          <p className="text-sm font-medium">Donation goal</p>
+          <div className="flex gap-2">
+            <input
+              value={goalTitle}
+              onChange={event => setGoalTitle(event.target.value)}
+              placeholder={goal?.title || 'What are you raising for?'}
+              maxLength={100}
+              className="flex-1 rounded-md border border-gray-300 bg-transparent px-2 py-1 text-sm dark:border-gray-600"
+            />
+            <input
+              type="number"
+              min={1}
+              value={goalTarget}
+              onChange={event => setGoalTarget(Number(event.target.value))}
+              aria-label="Goal amount in USD"
+              className="w-24 rounded-md border border-gray-300 bg-transparent px-2 py-1 text-sm dark:border-gray-600"
+            />
           </div>
-      </div>
+          <div className="flex justify-end gap-2 text-sm">
+            {goal && (
+              <button type="button" onClick={() => attempt(clearGoal, 'Goal removed')} className="text-red-600 hover:underline">
+                Remove goal
+              </button>
+            )}
+            <button type="submit" disabled={busy || goalTarget < 1} className="rounded-md bg-gray-900 px-3 py-1 text-white disabled:opacity-50 dark:bg-white dark:text-gray-900">
+              {goal ? 'Update goal' : 'Set goal'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {currentUser && !isOwner && catalog ? (
+        <>
+          <form onSubmit={handleSuperChat} className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {PRESET_AMOUNTS.map(preset => (
+                <button
+                  key={preset}
+                  type="button"
+                  onClick={() => setAmount(preset)}
+                  className={`rounded-full px-3 py-1 text-sm ${amount === preset ? 'bg-blue-600 text-white' : 'bg-gray-100 dark:bg-gray-800'}`}
+                >
+                  {formatMoney(preset, currency)}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={1}
+                step="0.01"
+                value={amount}
+                onChange={event => setAmount(Number(event.target.value))}
+                aria-label="Amount"
+                className="w-28 rounded-md border border-gray-300 bg-transparent px-2 py-1 text-sm dark:border-gray-600"
+              />
+              <select
+                value={currency}
+                onChange={event => setCurrency(event.target.value)}
+                className="rounded-md border border-gray-300 bg-transparent px-2 py-1 text-sm dark:border-gray-600"
+              >
+                {catalog.currencies.map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
+            <div className="overflow-hidden rounded-md" style={{ backgroundColor: tier?.color ?? '#9CA3AF' }}>
+              <textarea
+                value={message}
+                onChange={event => setMessage(event.target.value)}
+                disabled={!tier || tier.maxMessageLength === 0}
+                rows={2}
+                placeholder={
+                  !tier
+                    ? `Super Chats start at ${formatMoney(1)}`
+                    : tier.maxMessageLength
+                      ? 'Add a message'
+                      : `Messages start at ${formatMoney(2)}`
+                }
+                className="w-full resize-none bg-white/40 px-3 py-2 text-sm text-gray-900 placeholder-gray-700 disabled:opacity-70"
+              />
+            </div>
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>
+                {tier
+                  ? `${message.trim().length}/${tier.maxMessageLength} · ${tier.pinSeconds ? `pinned for ${tier.pinSeconds / 60} min` : 'not pinned'}`
+                  : ''}
+              </span>
+              <button
+                type="submit"
+                disabled={busy || !tier || messageTooLong || amount * (catalog.rates[currency] ?? 1) > catalog.maxAmountUsd}
+                className="rounded-md bg-blue-600 px-4 py-1.5 text-sm font-medium text-white disabled:opacity-50"
+              >
+                {busy ? 'Processing…' : `Send ${formatMoney(amount || 0, currency)}`}
+              </button>
+            </div>
+          </form>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Join this channel</p>
+            {catalog.memberships.map(level => (
+              <div key={level.id} className="flex items-center justify-between gap-2 rounded-md border border-gray-200 px-3 py-2 text-sm dark:border-gray-700">
+                <div>
+                  <p className="font-medium">{level.badge} {level.level}</p>
+                  <p className="text-xs text-gray-500">{level.perks}</p>
+                </div>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => attempt(() => joinMembership(level.id, PAYMENT_TOKEN), `Welcome, ${level.level}!`)}
+                  className="whitespace-nowrap rounded-md bg-green-600 px-3 py-1 text-white disabled:opacity-50"
+                >
+                  {formatMoney(level.priceUsd)}/mo
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      ) : (
+        !currentUser && <p className="text-sm text-gray-500">Sign in to send a Super Chat.</p>
+      )}
+
+      {superChats.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Recent Super Chats</p>
+          <div className="max-h-64 space-y-2 overflow-y-auto">
+            {superChats.map(superChat => (
+              <SuperChatCard key={superChat.id} superChat={superChat} />
+            ))}
+          </div>
+        </div>
+      )}
     </div>
-export default SuperChatPanel;
\ No newline at end of file
+  );
+};
+
+export default SuperChatPanel;
@@ -1,2 +1,48 @@
-// TODO: Implement this module;
-export default {};
+// platforms - destinations a live stream can be restreamed to
+import type { StreamPlatform } from '../../../types/livestream';
+
+export type PlatformName = StreamPlatform['name'];
+
+export interface PlatformConfig {
+  name: PlatformName;
+  label: string;
+  /** Brand colour for badges */
+  color: string;
+  /** Used when the creator does not enter a server URL; matches the dev server's defaults */
+  defaultServerUrl: string;
+  /** Where the creator finds their stream key */
+  keyHelpUrl: string;
+}
+
+export const PLATFORMS: Record<PlatformName, PlatformConfig> = {
+  youtube: {
+    name: 'youtube',
+    label: 'YouTube',
+    color: '#ff0000',
+    defaultServerUrl: 'rtmp://a.rtmp.youtube.com/live2',
+    keyHelpUrl: 'https://www.youtube.com/live_dashboard',
+  },
+  twitch: {
+    name: 'twitch',
+    label: 'Twitch',
+    color: '#9146ff',
+    defaultServerUrl: 'rtmp://live.twitch.tv/app',
+    keyHelpUrl: 'https://dashboard.twitch.tv/settings/stream',
+  },
+  facebook: {
+    name: 'facebook',
+    label: 'Facebook',
+    color: '#1877f2',
+    defaultServerUrl: 'rtmps://live-api-s.facebook.com:443/rtmp',
+    keyHelpUrl: 'https://www.facebook.com/live/producer',
+  },
+  twitter: {
+    name: 'twitter',
+    label: 'X',
+    color: '#000000',
+    defaultServerUrl: 'rtmp://va.pscp.tv:80/x',
+    keyHelpUrl: 'https://studio.x.com/producer',
+  },
+};
+
+export const PLATFORM_NAMES = Object.keys(PLATFORMS) as PlatformName[];
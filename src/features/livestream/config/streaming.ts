@@ -1,2 +1,40 @@
-// TODO: Implement this module;
-export default {};
+// streaming - output formats for browser broadcasts
+import type { LiveStreamSettings } from '../../../types/livestream';
+
+export type StreamQuality = LiveStreamSettings['quality'];
+export type StreamFrameRate = LiveStreamSettings['frameRate'];
+
+/** The encoder choices a broadcast uses; a subset of `LiveStreamSettings` */
+export type OutputSettings = Pick<LiveStreamSettings, 'quality' | 'bitrate' | 'frameRate'>;
+
+/** Canvas size for each quality; the canvas is what gets encoded */
+export const QUALITY_DIMENSIONS: Record<StreamQuality, { width: number; height: number }> = {
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+  '1440p': { width: 2560, height: 1440 },
+  '4k': { width: 3840, height: 2160 },
+};
+
+/** Suggested video bitrates in kbps, following YouTube's encoder guidance for 30 / 60 fps */
+export const RECOMMENDED_BITRATES: Record<StreamQuality, Record<StreamFrameRate, number>> = {
+  '720p': { 30: 4000, 60: 6000 },
+  '1080p': { 30: 6000, 60: 9000 },
+  '1440p': { 30: 13000, 60: 18000 },
+  '4k': { 30: 25000, 60: 40000 },
+};
+
+export const MIN_BITRATE = 500;
+export const MAX_BITRATE = 51000;
+
+export const FRAME_RATES: StreamFrameRate[] = [30, 60];
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  quality: '720p',
+  bitrate: RECOMMENDED_BITRATES['720p'][30],
+  frameRate: 30,
+};
+
+export const clampBitrate = (kbps: number): number => Math.min(MAX_BITRATE, Math.max(MIN_BITRATE, Math.round(kbps)));
+
+/** The dev server's WHIP endpoint; the stream key goes in the Authorization header */
+export const WHIP_ENDPOINT = '/api/live/whip';
@@ -0,0 +1,156 @@
+// useLiveChat - WebSocket live chat client
+import { useCallback, useState } from 'react';
+
+import { useLiveSocket } from './useLiveSocket';
+import type { LiveSocketEvent, LiveSocketStatus, LiveSocketViewer } from '../services/liveSocket';
+import type { ChatMessage, ChatModerationAction, LiveStreamSettings } from '../../../types/livestream';
+
+const MAX_MESSAGES = 200;
+
+export type ChatSettings = Pick<LiveStreamSettings, 'chatMode' | 'slowMode' | 'subscribersOnly'>;
+export type ChatRole = 'owner' | 'moderator' | 'viewer';
+export type ChatConnectionStatus = LiveSocketStatus;
+export type ChatViewer = LiveSocketViewer;
+
+/** Why the server refused something, or a message addressed to this viewer */
+export interface ChatNotice {
+  code: 'slow_mode' | 'subscribers_only' | 'chat_off' | 'timed_out' | 'banned' | 'warned' | 'forbidden' | 'invalid';
+  message: string;
+  /** Seconds until the viewer may post again */
+  retryAfter?: number;
+}
+
+export interface UseLiveChatConfig {
+  streamId: string;
+  /** Omit to watch as a guest */
+  viewer?: ChatViewer | null;
+  enabled?: boolean;
+}
+
+type WireMessage = Omit<ChatMessage, 'timestamp'> & { timestamp: string; clientId?: string };
+
+type ServerEvent =
+  | { type: 'history'; messages: WireMessage[]; settings: ChatSettings; role: ChatRole; viewers: number }
+  | { type: 'message'; message: WireMessage }
+  | { type: 'moderation'; action: ChatModerationAction & { messageId?: string }; messageIds: string[] }
+  | { type: 'settings'; settings: ChatSettings }
+  | { type: 'viewers'; count: number }
+  // Poll and Q&A errors carry a `feature` and are left to those hooks
+  | ({ type: 'error' | 'notice'; feature?: string } & ChatNotice);
+
+const DEFAULT_SETTINGS: ChatSettings = { chatMode: 'live', slowMode: 0, subscribersOnly: false };
+
+const toChatMessage = ({ clientId: _clientId, ...message }: WireMessage): ChatMessage => ({
+  ...message,
+  timestamp: new Date(message.timestamp),
+});
+
+/**
+ * Joins a stream's live chat. The server replays recent history on every
+ * (re)connect, then pushes messages, moderation and settings changes.
+ */
+export function useLiveChat(config: UseLiveChatConfig) {
+  const { streamId, viewer = null, enabled = true } = config;
+
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [settings, setSettings] = useState<ChatSettings>(DEFAULT_SETTINGS);
+  const [role, setRole] = useState<ChatRole>('viewer');
+  const [viewerCount, setViewerCount] = useState(0);
+  const [notice, setNotice] = useState<ChatNotice | null>(null);
+  // When this viewer may post again, after slow mode or a timeout
+  const [restrictedUntil, setRestrictedUntil] = useState<number | null>(null);
+
+  const handleEvent = useCallback((socketEvent: LiveSocketEvent) => {
+    const event = socketEvent as unknown as ServerEvent;
+    switch (event.type) {
+      case 'history':
+        setMessages(event.messages.map(toChatMessage));
+        setSettings(event.settings);
+        setRole(event.role);
+        setViewerCount(event.viewers);
+        break;
+      case 'message':
+        setMessages(prev => [...prev, toChatMessage(event.message)].slice(-MAX_MESSAGES));
+        break;
+      case 'moderation': {
+        const removed = new Set(event.messageIds);
+        setMessages(prev => prev.filter(message => !removed.has(message.id)));
+        break;
+      }
+      case 'settings':
+        setSettings(event.settings);
+        break;
+      case 'viewers':
+        setViewerCount(event.count);
+        break;
+      case 'error':
+      case 'notice': {
+        if (event.feature) {
+          break;
+        }
+        const details: ChatNotice = { code: event.code, message: event.message, retryAfter: event.retryAfter };
+        setNotice(details);
+        if (details.code === 'banned') {
+          setRestrictedUntil(Infinity);
+        } else if (details.retryAfter) {
+          setRestrictedUntil(Date.now() + details.retryAfter * 1000);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }, []);
+
+  const { status, send } = useLiveSocket(streamId, viewer, handleEvent, enabled);
+
+  const sendMessage = useCallback(
+    (text: string): boolean => {
+      const message = text.trim();
+      if (!message) {
+        return false;
+      }
+      setNotice(null);
+      const sent = send({ type: 'message', message });
+      if (sent && role === 'viewer' && settings.slowMode > 0) {
+        setRestrictedUntil(Date.now() + settings.slowMode * 1000);
+      }
+      return sent;
+    },
+    [send, role, settings.slowMode]
+  );
+
+  const moderate = useCallback(
+    (action: ChatModerationAction['type'], target: { userId?: string; messageId?: string }, options: { duration?: number; reason?: string } = {}) =>
+      send({ type: 'moderate', action, ...target, ...options }),
+    [send]
+  );
+
+  return {
+    messages,
+    settings,
+    role,
+    viewerCount,
+    status,
+    notice,
+    restrictedUntil,
+    clearNotice: useCallback(() => setNotice(null), []),
+    sendMessage,
+    deleteMessage: useCallback((messageId: string) => moderate('delete', { messageId }), [moderate]),
+    timeoutUser: useCallback(
+      (userId: string, minutes = 5, reason?: string) => moderate('timeout', { userId }, { duration: minutes, reason }),
+      [moderate]
+    ),
+    banUser: useCallback((userId: string, reason?: string) => moderate('ban', { userId }, { reason }), [moderate]),
+    warnUser: useCallback((userId: string, reason?: string) => moderate('warn', { userId }, { reason }), [moderate]),
+    /** Lifts a ban or timeout */
+    unbanUser: useCallback((userId: string) => moderate('approve', { userId }), [moderate]),
+    updateSettings: useCallback((next: Partial<ChatSettings>) => send({ type: 'settings', settings: next }), [send]),
+    setModerator: useCallback(
+      (userId: string, isModerator: boolean) => send({ type: 'moderator', userId, enabled: isModerator }),
+      [send]
+    ),
+  };
+}
+
+export default useLiveChat;
@@ -0,0 +1,98 @@
+// useLivePolls - live polls over the stream's socket
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { useLiveSocket } from './useLiveSocket';
+import { pollService } from '../services/pollService';
+import type { LiveSocketEvent, LiveSocketViewer } from '../services/liveSocket';
+import type { LivePoll } from '../../../types/livestream';
+
+type WirePoll = Omit<LivePoll, 'createdAt' | 'endedAt'> & { createdAt: string; endedAt?: string };
+
+type PollEvent =
+  | { type: 'polls'; polls: WirePoll[]; votes: Record<string, string> }
+  | { type: 'poll'; poll: WirePoll }
+  | { type: 'error'; feature?: string; message: string };
+
+const toPoll = (poll: WirePoll): LivePoll => ({
+  ...poll,
+  createdAt: new Date(poll.createdAt),
+  endedAt: poll.endedAt ? new Date(poll.endedAt) : undefined,
+});
+
+/**
+ * Polls for a live stream. Results update live for everyone; `votes` maps
+ * each poll this viewer voted in to the chosen option. Votes are sent over
+ * HTTP so the server counts them against the signed-in user.
+ */
+export function useLivePolls(streamId: string, viewer?: LiveSocketViewer | null) {
+  const [polls, setPolls] = useState<LivePoll[]>([]);
+  const [votes, setVotes] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const viewerId = viewer?.id;
+
+  useEffect(() => {
+    pollService.setUser(viewerId ?? null);
+  }, [viewerId]);
+
+  const handleEvent = useCallback((socketEvent: LiveSocketEvent) => {
+    const event = socketEvent as unknown as PollEvent;
+    switch (event.type) {
+      case 'polls':
+        setPolls(event.polls.map(toPoll));
+        setVotes(event.votes);
+        break;
+      case 'poll': {
+        const poll = toPoll(event.poll);
+        setPolls(prev =>
+          prev.some(p => p.id === poll.id) ? prev.map(p => (p.id === poll.id ? poll : p)) : [...prev, poll]
+        );
+        break;
+      }
+      case 'error':
+        if (event.feature === 'poll') {
+          setError(event.message);
+        }
+        break;
+      default:
+        break;
+    }
+  }, []);
+
+  const { status, send } = useLiveSocket(streamId, viewer, handleEvent);
+
+  const activePoll = useMemo(() => polls.find(poll => poll.isActive) ?? null, [polls]);
+  const pastPolls = useMemo(() => polls.filter(poll => !poll.isActive).reverse(), [polls]);
+
+  const vote = useCallback(
+    (pollId: string, optionId: string) => {
+      setError(null);
+      pollService
+        .vote(streamId, pollId, optionId)
+        .then(counted => setVotes(prev => ({ ...prev, [counted.pollId]: counted.optionId })))
+        .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Failed to vote'));
+    },
+    [streamId]
+  );
+
+  return {
+    polls,
+    activePoll,
+    pastPolls,
+    votes,
+    error,
+    status,
+    vote,
+    /** `duration` in milliseconds */
+    createPoll: useCallback(
+      (question: string, options: string[], duration: number) => {
+        setError(null);
+        return send({ type: 'poll:create', question, options, duration });
+      },
+      [send]
+    ),
+    closePoll: useCallback((pollId: string) => send({ type: 'poll:close', pollId }), [send]),
+    clearError: useCallback(() => setError(null), []),
+  };
+}
+
+export default useLivePolls;
@@ -0,0 +1,109 @@
+// useLiveQA - live Q&A over the stream's socket
+import { useCallback, useMemo, useState } from 'react';
+
+import { useLiveSocket } from './useLiveSocket';
+import type { LiveSocketEvent, LiveSocketViewer } from '../services/liveSocket';
+import type { QAQuestion } from '../../../types/livestream';
+
+type WireQuestion = Omit<QAQuestion, 'timestamp' | 'answeredAt'> & { timestamp: string; answeredAt?: string };
+
+type QuestionEvent =
+  | { type: 'questions'; questions: WireQuestion[]; upvoted: string[] }
+  | { type: 'question'; question: WireQuestion }
+  | { type: 'question:removed'; questionId: string }
+  | { type: 'error'; feature?: string; message: string };
+
+const toQuestion = (question: WireQuestion): QAQuestion => ({
+  ...question,
+  timestamp: new Date(question.timestamp),
+  answeredAt: question.answeredAt ? new Date(question.answeredAt) : undefined,
+});
+
+// Pinned first, then open questions by upvotes, then answered ones
+const rank = (a: QAQuestion, b: QAQuestion) =>
+  Number(b.isHighlighted) - Number(a.isHighlighted) ||
+  Number(a.answered) - Number(b.answered) ||
+  (b.upvotes ?? 0) - (a.upvotes ?? 0) ||
+  a.timestamp.getTime() - b.timestamp.getTime();
+
+/** Q&A for a live stream, ranked for display; `upvoted` holds this viewer's upvotes. */
+export function useLiveQA(streamId: string, viewer?: LiveSocketViewer | null) {
+  const [questions, setQuestions] = useState<QAQuestion[]>([]);
+  const [upvoted, setUpvoted] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const handleEvent = useCallback((socketEvent: LiveSocketEvent) => {
+    const event = socketEvent as unknown as QuestionEvent;
+    switch (event.type) {
+      case 'questions':
+        setQuestions(event.questions.map(toQuestion));
+        setUpvoted(new Set(event.upvoted));
+        break;
+      case 'question': {
+        const question = toQuestion(event.question);
+        setQuestions(prev =>
+          prev.some(q => q.id === question.id)
+            ? prev.map(q => (q.id === question.id ? question : q))
+            : [...prev, question]
+        );
+        break;
+      }
+      case 'question:removed':
+        setQuestions(prev => prev.filter(question => question.id !== event.questionId));
+        break;
+      case 'error':
+        if (event.feature === 'question') {
+          setError(event.message);
+        }
+        break;
+      default:
+        break;
+    }
+  }, []);
+
+  const { status, send } = useLiveSocket(streamId, viewer, handleEvent);
+
+  const ranked = useMemo(() => [...questions].sort(rank), [questions]);
+
+  const upvoteQuestion = useCallback(
+    (questionId: string) => {
+      if (send({ type: 'question:upvote', questionId })) {
+        setUpvoted(prev => {
+          const next = new Set(prev);
+          if (!next.delete(questionId)) {
+            next.add(questionId);
+          }
+          return next;
+        });
+      }
+    },
+    [send]
+  );
+
+  return {
+    questions: ranked,
+    upvoted,
+    error,
+    status,
+    upvoteQuestion,
+    askQuestion: useCallback(
+      (question: string) => {
+        setError(null);
+        return send({ type: 'question:ask', question });
+      },
+      [send]
+    ),
+    answerQuestion: useCallback(
+      (questionId: string, answer?: string) => send({ type: 'question:answer', questionId, answer }),
+      [send]
+    ),
+    pinQuestion: useCallback(
+      (questionId: string, pinned: boolean) => send({ type: 'question:pin', questionId, pinned }),
+      [send]
+    ),
+    removeQuestion: useCallback((questionId: string) => send({ type: 'question:remove', questionId }), [send]),
+    clearError: useCallback(() => setError(null), []),
+  };
+}
+
+export default useLiveQA;
@@ -0,0 +1,53 @@
+// useLiveSocket - subscribes a component to a stream's shared live socket
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { connectLiveSocket } from '../services/liveSocket';
+import type { LiveSocketEvent, LiveSocketHandle, LiveSocketStatus, LiveSocketViewer } from '../services/liveSocket';
+
+/**
+ * Hands every event from the stream's socket to `onEvent` while mounted.
+ * Components for the same stream and viewer share one connection.
+ */
+export function useLiveSocket(
+  streamId: string,
+  viewer: LiveSocketViewer | null | undefined,
+  onEvent: (event: LiveSocketEvent) => void,
+  enabled = true
+) {
+  const [status, setStatus] = useState<LiveSocketStatus>('connecting');
+  const socketRef = useRef<LiveSocketHandle | null>(null);
+  const onEventRef = useRef(onEvent);
+  const viewerId = viewer?.id;
+  const viewerName = viewer?.username;
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!enabled || !streamId) {
+      return;
+    }
+    const identity = viewerId ? { id: viewerId, username: viewerName || viewerId } : null;
+    const socket = connectLiveSocket(streamId, identity);
+    socketRef.current = socket;
+    const unsubscribeStatus = socket.subscribeStatus(setStatus);
+    const unsubscribe = socket.subscribe(event => onEventRef.current(event));
+
+    return () => {
+      unsubscribe();
+      unsubscribeStatus();
+      socket.release();
+      socketRef.current = null;
+    };
+  }, [streamId, viewerId, viewerName, enabled]);
+
+  const send = useCallback(
+    (payload: { type: string; [key: string]: unknown }): boolean => socketRef.current?.send(payload) ?? false,
+    []
+  );
+
+  return { status, send };
+}
+
+export default useLiveSocket;
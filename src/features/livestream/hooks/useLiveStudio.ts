@@ -0,0 +1,131 @@
+// useLiveStudio - a scene compositor plus the WebRTC publisher that takes it live
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { DEFAULT_OUTPUT_SETTINGS, type OutputSettings } from '../config/streaming';
+import { SceneCompositor, type LayerInfo } from '../services/sceneCompositor';
+import { WhipPublisher, type PublisherState } from '../services/whipPublisher';
+
+export type StudioMode = 'preview' | 'live';
+
+/**
+ * Owns a `SceneCompositor` for the lifetime of the component. In preview the
+ * scene only renders locally so the creator can rehearse; `goLive` publishes
+ * it with the stream key, and `endLive` drops back to preview.
+ */
+export function useLiveStudio(initialSettings: OutputSettings = DEFAULT_OUTPUT_SETTINGS) {
+  const compositorRef = useRef<SceneCompositor | null>(null);
+  const publisherRef = useRef<WhipPublisher | null>(null);
+  const [compositor, setCompositor] = useState<SceneCompositor | null>(null);
+  const [layers, setLayers] = useState<LayerInfo[]>([]);
+  const [settings, setSettings] = useState<OutputSettings>(initialSettings);
+  const settingsRef = useRef(initialSettings);
+  const [mode, setMode] = useState<StudioMode>('preview');
+  const [publisherState, setPublisherState] = useState<PublisherState>('idle');
+  const [microphone, setMicrophoneState] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // The compositor lives as long as the component; settings changes are applied below
+  useEffect(() => {
+    const next = new SceneCompositor(settingsRef.current);
+    const publisher = new WhipPublisher();
+    compositorRef.current = next;
+    publisherRef.current = publisher;
+    const unsubscribeLayers = next.subscribe(setLayers);
+    const unsubscribeState = publisher.subscribe(setPublisherState);
+    next.start();
+    setCompositor(next);
+    return () => {
+      unsubscribeLayers();
+      unsubscribeState();
+      publisher.stop();
+      next.dispose();
+      compositorRef.current = null;
+      publisherRef.current = null;
+    };
+  }, []);
+
+  const attempt = useCallback(async <T,>(action: (studio: SceneCompositor) => Promise<T> | T): Promise<T | undefined> => {
+    const studio = compositorRef.current;
+    if (!studio) {
+      return undefined;
+    }
+    setError(null);
+    try {
+      return await action(studio);
+    } catch (err) {
+      // Closing the browser's picker is not an error worth showing
+      if (err instanceof DOMException && err.name === 'NotAllowedError') {
+        return undefined;
+      }
+      setError(err instanceof Error ? err : new Error(String(err)));
+      return undefined;
+    }
+  }, []);
+
+  // Bitrate and frame rate apply mid-broadcast; the UI keeps quality fixed while live
+  const updateSettings = useCallback((changes: Partial<OutputSettings>) => {
+    const next = { ...settingsRef.current, ...changes };
+    settingsRef.current = next;
+    setSettings(next);
+    compositorRef.current?.updateSettings(next);
+    publisherRef.current?.updateSettings(next).catch(err => setError(err instanceof Error ? err : new Error(String(err))));
+  }, []);
+
+  // A dropped connection ends the broadcast; the scene keeps rendering in preview
+  useEffect(() => {
+    if (publisherState === 'failed' && mode === 'live') {
+      publisherRef.current?.stop();
+      setMode('preview');
+      setError(new Error('The connection to the ingest server was lost'));
+    }
+  }, [publisherState, mode]);
+
+  const goLive = useCallback(async (streamKey: string) => {
+    const studio = compositorRef.current;
+    const publisher = publisherRef.current;
+    if (!studio || !publisher) {
+      return;
+    }
+    setError(null);
+    try {
+      await publisher.start(studio.getOutputStream(), streamKey, settingsRef.current);
+      setMode('live');
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    }
+  }, []);
+
+  const endLive = useCallback(async () => {
+    await publisherRef.current?.stop();
+    setMode('preview');
+  }, []);
+
+  return {
+    compositor,
+    layers,
+    settings,
+    mode,
+    publisherState,
+    microphone,
+    error,
+    updateSettings,
+    goLive,
+    endLive,
+    addCamera: useCallback(() => attempt(studio => studio.addCamera()), [attempt]),
+    addScreen: useCallback(() => attempt(studio => studio.addScreen()), [attempt]),
+    addImage: useCallback((src: string, name?: string) => attempt(studio => studio.addImage(src, name)), [attempt]),
+    addLowerThird: useCallback((title: string, subtitle?: string) => attempt(studio => studio.addLowerThird(title, subtitle)), [attempt]),
+    toggleLayer: useCallback((layer: LayerInfo) => attempt(studio => studio.updateLayer(layer.id, { visible: !layer.visible })), [attempt]),
+    moveLayer: useCallback((id: string, direction: 1 | -1) => attempt(studio => studio.moveLayer(id, direction)), [attempt]),
+    removeLayer: useCallback((id: string) => attempt(studio => studio.removeLayer(id)), [attempt]),
+    setMicrophone: useCallback(
+      (enabled: boolean) => attempt(async studio => {
+        await studio.setMicrophone(enabled);
+        setMicrophoneState(enabled);
+      }),
+      [attempt]
+    ),
+  };
+}
+
+export default useLiveStudio;
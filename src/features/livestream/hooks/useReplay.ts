@@ -0,0 +1,97 @@
+// useReplay - a stream's latest replay, its highlights and clip progress
+import { useCallback, useEffect, useState } from 'react';
+
+import { ReplayServiceError, replayService, type HighlightInput } from '../services/replayService';
+import type { StreamReplay } from '../../../types/livestream';
+
+// While the video or a clip is still processing
+const PROCESSING_POLL_MS = 5000;
+
+/**
+ * The latest replay of `streamId`. `replay` stays null until the stream has
+ * ended with recording on; pass `userId` to cut highlights as the owner.
+ */
+export function useReplay(streamId: string, userId?: string | null, enabled = true) {
+  const [replay, setReplay] = useState<StreamReplay | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    replayService.setUser(userId ?? null);
+  }, [userId]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const next = await replayService.getReplay(streamId);
+      setReplay(next);
+      return next;
+    } catch (err) {
+      if (err instanceof ReplayServiceError && err.status === 404) {
+        setReplay(null);
+        return null;
+      }
+      throw err;
+    }
+  }, [streamId]);
+
+  useEffect(() => {
+    if (!streamId || !enabled) {
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    refresh()
+      .catch(err => !cancelled && setError(err instanceof Error ? err : new Error(String(err))))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [streamId, enabled, refresh]);
+
+  const processing = Boolean(
+    replay && (replay.isProcessing || replay.highlights?.some(highlight => highlight.clipStatus === 'processing'))
+  );
+  useEffect(() => {
+    if (!processing) {
+      return;
+    }
+    const timer = setInterval(() => {
+      refresh().catch(() => {
+        // Keep the last state; the next poll retries
+      });
+    }, PROCESSING_POLL_MS);
+    return () => clearInterval(timer);
+  }, [processing, refresh]);
+
+  const run = useCallback(async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      const failure = err instanceof Error ? err : new Error(String(err));
+      setError(failure);
+      throw failure;
+    }
+  }, [refresh]);
+
+  const replayId = replay?.videoId ? replay.id : null;
+
+  return {
+    replay,
+    loading,
+    error,
+    /** Only recorded replays (with a `videoId`) can be clipped */
+    canClip: Boolean(replayId),
+    createHighlight: useCallback(
+      (input: HighlightInput) => run(() => replayService.createHighlight(replayId!, input)),
+      [run, replayId]
+    ),
+    deleteHighlight: useCallback(
+      (highlightId: string) => run(() => replayService.deleteHighlight(replayId!, highlightId)),
+      [run, replayId]
+    ),
+  };
+}
+
+export default useReplay;
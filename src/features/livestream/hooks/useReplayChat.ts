@@ -0,0 +1,62 @@
+// useReplayChat - a replay's chat, revealed in step with the video
+import { useEffect, useMemo, useRef, useState } from 'react';
+
+import { replayService } from '../services/replayService';
+import type { ReplayChatMessage } from '../../../types/livestream';
+
+// Chat is fetched a minute at a time, one window ahead of the playhead
+const WINDOW_SECONDS = 60;
+const MAX_VISIBLE = 200;
+
+/**
+ * Chat messages of `replayId` sent up to `currentTime` seconds into the
+ * replay, as they appeared live. Seeking anywhere loads that part of the chat.
+ */
+export function useReplayChat(replayId: string | null, currentTime: number) {
+  const [messages, setMessages] = useState<ReplayChatMessage[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+  // Window indexes that have been requested for this replay
+  const requested = useRef(new Set<number>());
+
+  useEffect(() => {
+    requested.current = new Set();
+    setMessages([]);
+    setError(null);
+  }, [replayId]);
+
+  const windowIndex = Math.floor(Math.max(0, currentTime) / WINDOW_SECONDS);
+  useEffect(() => {
+    if (!replayId) {
+      return;
+    }
+    for (const index of [windowIndex, windowIndex + 1]) {
+      if (requested.current.has(index)) {
+        continue;
+      }
+      requested.current.add(index);
+      replayService
+        .getChat(replayId, index * WINDOW_SECONDS, (index + 1) * WINDOW_SECONDS)
+        .then(loaded => {
+          setMessages(current =>
+            [...current, ...loaded.filter(message => !current.some(existing => existing.id === message.id))].sort(
+              (a, b) => a.offsetSeconds - b.offsetSeconds
+            )
+          );
+        })
+        .catch(err => {
+          // Let the window be fetched again on the next tick
+          requested.current.delete(index);
+          setError(err instanceof Error ? err : new Error(String(err)));
+        });
+    }
+  }, [replayId, windowIndex]);
+
+  const visible = useMemo(
+    () => messages.filter(message => message.offsetSeconds <= currentTime).slice(-MAX_VISIBLE),
+    [messages, currentTime]
+  );
+
+  return { messages: visible, error };
+}
+
+export default useReplayChat;
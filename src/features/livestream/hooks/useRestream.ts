@@ -0,0 +1,85 @@
+// useRestream - a stream's restream destinations and their live status
+import { useCallback, useEffect, useState } from 'react';
+
+import type { PlatformName } from '../config/platforms';
+import { restreamService, type RestreamTargetInput } from '../services/restreamService';
+import type { RestreamState } from '../../../types/livestream';
+
+// Connection status changes quickly while live; otherwise only edits change anything
+const LIVE_POLL_MS = 2000;
+const IDLE_POLL_MS = 10000;
+
+/**
+ * Restream destinations for the owner of `streamId`, refreshed while the
+ * stream is live so each platform's connection status stays current.
+ */
+export function useRestream(streamId: string, userId: string | null | undefined) {
+  const [state, setState] = useState<RestreamState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    restreamService.setUser(userId ?? null);
+  }, [userId]);
+
+  const refresh = useCallback(async () => {
+    const next = await restreamService.getState(streamId);
+    setState(next);
+    return next;
+  }, [streamId]);
+
+  useEffect(() => {
+    if (!streamId || !userId) {
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    restreamService
+      .getState(streamId)
+      .then(next => !cancelled && setState(next))
+      .catch(err => !cancelled && setError(err instanceof Error ? err : new Error(String(err))))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [streamId, userId]);
+
+  const live = state?.live;
+  useEffect(() => {
+    if (!streamId || !userId || live === undefined) {
+      return;
+    }
+    const timer = setInterval(() => {
+      refresh().catch(() => {
+        // Keep the last status; the next poll retries
+      });
+    }, live ? LIVE_POLL_MS : IDLE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [streamId, userId, live, refresh]);
+
+  const run = useCallback(async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      const failure = err instanceof Error ? err : new Error(String(err));
+      setError(failure);
+      throw failure;
+    }
+  }, [refresh]);
+
+  return {
+    targets: state?.targets ?? [],
+    live: Boolean(live),
+    loading,
+    error,
+    saveTarget: useCallback(
+      (platform: PlatformName, input: RestreamTargetInput) => run(() => restreamService.setTarget(streamId, platform, input)),
+      [run, streamId]
+    ),
+    removeTarget: useCallback((platform: PlatformName) => run(() => restreamService.removeTarget(streamId, platform)), [run, streamId]),
+  };
+}
+
+export default useRestream;
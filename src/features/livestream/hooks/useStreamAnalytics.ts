@@ -0,0 +1,90 @@
+// useStreamAnalytics - live charts for a broadcast and its report once it ends
+import { useCallback, useEffect, useState } from 'react';
+
+import { StreamAnalyticsServiceError, streamAnalyticsService } from '../services/streamAnalyticsService';
+import type { StreamAnalytics, StreamAnalyticsReport } from '../../../types/livestream';
+
+// The server samples every second; charts refresh a little less often
+const LIVE_POLL_MS = 5000;
+// Between broadcasts, only to notice the next one starting
+const IDLE_POLL_MS = 30000;
+
+/**
+ * Analytics for the latest broadcast of `streamId`, over the trailing
+ * `range` seconds (all of it when omitted). While the stream is live the
+ * series refreshes every few seconds; once it ends, `report` holds the full
+ * post-stream report with the comparison against the creator's previous
+ * broadcasts. `analytics` stays null until the stream has been live.
+ */
+export function useStreamAnalytics(streamId: string, userId: string | null | undefined, range?: number) {
+  const [analytics, setAnalytics] = useState<StreamAnalytics | null>(null);
+  const [report, setReport] = useState<StreamAnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    streamAnalyticsService.setUser(userId ?? null);
+  }, [userId]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const next = await streamAnalyticsService.getAnalytics(streamId, { range });
+      setAnalytics(next);
+      setError(null);
+    } catch (err) {
+      if (err instanceof StreamAnalyticsServiceError && err.status === 404) {
+        setAnalytics(null);
+        return;
+      }
+      throw err;
+    }
+  }, [streamId, range]);
+
+  useEffect(() => {
+    if (!streamId || !userId) {
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    refresh()
+      .catch(err => !cancelled && setError(err instanceof Error ? err : new Error(String(err))))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [streamId, userId, refresh]);
+
+  const isLive = analytics?.isLive ?? false;
+  useEffect(() => {
+    if (!streamId || !userId) {
+      return;
+    }
+    const timer = setInterval(() => {
+      refresh().catch(() => {
+        // Keep the last series; the next poll retries
+      });
+    }, isLive ? LIVE_POLL_MS : IDLE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [streamId, userId, isLive, refresh]);
+
+  // The report only changes when a broadcast ends
+  const endedSessionId = analytics && !analytics.isLive ? analytics.sessionId : null;
+  useEffect(() => {
+    if (!endedSessionId) {
+      setReport(null);
+      return;
+    }
+    let cancelled = false;
+    streamAnalyticsService
+      .getReport(streamId, endedSessionId)
+      .then(next => !cancelled && setReport(next))
+      .catch(err => !cancelled && setError(err instanceof Error ? err : new Error(String(err))));
+    return () => {
+      cancelled = true;
+    };
+  }, [streamId, endedSessionId]);
+
+  return { analytics, report, loading, error, refresh };
+}
+
+export default useStreamAnalytics;
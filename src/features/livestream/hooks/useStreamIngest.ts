@@ -0,0 +1,79 @@
+// useStreamIngest - a stream's key, encoder settings and live ingest health
+import { useCallback, useEffect, useState } from 'react';
+
+import { ingestService } from '../services/ingestService';
+import type { StreamIngest } from '../../../types/livestream';
+
+// Health refreshes quickly while an encoder is connected, slowly while waiting for one
+const LIVE_POLL_MS = 2000;
+const IDLE_POLL_MS = 5000;
+
+/**
+ * Ingest details for the owner of `streamId`: where to point the encoder,
+ * the stream key and, while live, health reported by the ingest server.
+ */
+export function useStreamIngest(streamId: string, userId: string | null | undefined) {
+  const [ingest, setIngest] = useState<StreamIngest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    ingestService.setUser(userId ?? null);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!streamId || !userId) {
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    ingestService
+      .getIngest(streamId)
+      .then(next => !cancelled && setIngest(next))
+      .catch(err => !cancelled && setError(err instanceof Error ? err : new Error(String(err))))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [streamId, userId]);
+
+  const status = ingest?.status;
+  useEffect(() => {
+    if (!streamId || !userId || !status) {
+      return;
+    }
+    const timer = setInterval(() => {
+      // Playback state (status, HLS URL) changes with health, so refresh both
+      ingestService
+        .getIngest(streamId)
+        .then(setIngest)
+        .catch(() => {
+          // Keep the last report; the next poll retries
+        });
+    }, status === 'live' ? LIVE_POLL_MS : IDLE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [streamId, userId, status]);
+
+  // Actions that don't return the new state (`null`) are followed by a fetch
+  const run = useCallback(async (action: () => Promise<StreamIngest | null>) => {
+    setError(null);
+    try {
+      const result = await action();
+      setIngest(result ?? (await ingestService.getIngest(streamId)));
+    } catch (err) {
+      const failure = err instanceof Error ? err : new Error(String(err));
+      setError(failure);
+      throw failure;
+    }
+  }, [streamId]);
+
+  return {
+    ingest,
+    loading,
+    error,
+    rotateKey: useCallback(() => run(() => ingestService.rotateKey(streamId)), [run, streamId]),
+    revokeKey: useCallback(() => run(() => ingestService.revokeKey(streamId).then(() => null)), [run, streamId]),
+  };
+}
+
+export default useStreamIngest;
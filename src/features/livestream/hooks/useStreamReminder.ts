@@ -0,0 +1,59 @@
+// useStreamReminder - a viewer's "notify me" subscription to an upcoming stream
+import { useCallback, useEffect, useState } from 'react';
+
+import { liveStreamService } from '../../../../services/livestreamAPI';
+import type { StreamReminder } from '../../../types/livestream';
+
+/**
+ * Whether `userId` will be reminded about `streamId`, and when. Reminders
+ * arrive as notifications at each offset (minutes before the start).
+ */
+export function useStreamReminder(streamId: string, userId: string | null | undefined) {
+  const [reminder, setReminder] = useState<StreamReminder | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    liveStreamService.setUser(userId ?? null);
+    let cancelled = false;
+    liveStreamService
+      .getReminder(streamId)
+      .then(next => !cancelled && setReminder(next))
+      .catch(err => !cancelled && setError(err instanceof Error ? err : new Error(String(err))));
+    return () => {
+      cancelled = true;
+    };
+  }, [streamId, userId]);
+
+  const run = useCallback(async (action: () => Promise<StreamReminder | null>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const next = await action();
+      if (next) {
+        setReminder(next);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  return {
+    reminder,
+    saving,
+    error,
+    subscribe: useCallback((offsets: number[]) => run(() => liveStreamService.setReminder(streamId, offsets)), [run, streamId]),
+    unsubscribe: useCallback(
+      () =>
+        run(async () => {
+          await liveStreamService.cancelReminder(streamId);
+          return liveStreamService.getReminder(streamId);
+        }),
+      [run, streamId]
+    ),
+  };
+}
+
+export default useStreamReminder;
@@ -0,0 +1,111 @@
+// useSuperChats - a stream's Super Chats, pinned ticker and donation goal
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { useLiveSocket } from './useLiveSocket';
+import { superChatService, toGoal, toSuperChat } from '../services/superChatService';
+import type { SuperChatCatalog, SuperChatPurchase, SuperChatViewer } from '../services/superChatService';
+import type { LiveSocketEvent } from '../services/liveSocket';
+import type { DonationGoal, SuperChat } from '../../../types/livestream';
+
+type SuperChatEvent =
+  | { type: 'message'; message: { type: string; superChat?: Parameters<typeof toSuperChat>[0] } }
+  | { type: 'goal'; goal: Parameters<typeof toGoal>[0] };
+
+// How often pinned Super Chats are checked for expiry
+const PIN_CHECK_MS = 5000;
+
+const isPinned = (superChat: SuperChat, now: number) =>
+  Boolean(superChat.timestamp) && superChat.timestamp!.getTime() + superChat.duration * 1000 > now;
+
+/**
+ * Super Chats for a stream: the history, those still pinned above chat and
+ * the donation goal, kept live from the stream's socket. Purchases go through
+ * `superChatService`; the new Super Chat arrives back over the socket.
+ */
+export function useSuperChats(streamId: string, viewer?: SuperChatViewer | null) {
+  const [catalog, setCatalog] = useState<SuperChatCatalog | null>(null);
+  const [superChats, setSuperChats] = useState<SuperChat[]>([]);
+  const [goal, setGoal] = useState<DonationGoal | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    superChatService.setViewer(viewer ?? null);
+  }, [viewer]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([superChatService.getCatalog(), superChatService.getStreamSuperChats(streamId)])
+      .then(([nextCatalog, stream]) => {
+        if (!cancelled) {
+          setCatalog(nextCatalog);
+          setSuperChats(stream.superChats);
+          setGoal(stream.goal);
+        }
+      })
+      .catch(err => !cancelled && setError(err instanceof Error ? err : new Error(String(err))))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [streamId]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), PIN_CHECK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleEvent = useCallback((socketEvent: LiveSocketEvent) => {
+    const event = socketEvent as unknown as SuperChatEvent;
+    if (event.type === 'message' && event.message.type === 'super_chat' && event.message.superChat) {
+      const superChat = toSuperChat(event.message.superChat);
+      setSuperChats(prev => (prev.some(s => s.id === superChat.id) ? prev : [superChat, ...prev]));
+    } else if (event.type === 'goal') {
+      setGoal(toGoal(event.goal));
+    }
+  }, []);
+
+  useLiveSocket(streamId, viewer ? { id: viewer.id, username: viewer.username } : null, handleEvent);
+
+  const pinned = useMemo(
+    () => superChats.filter(superChat => isPinned(superChat, now)).sort((a, b) => b.duration - a.duration),
+    [superChats, now]
+  );
+
+  const run = useCallback(async <T>(action: () => Promise<T>): Promise<T> => {
+    setError(null);
+    try {
+      return await action();
+    } catch (err) {
+      const failure = err instanceof Error ? err : new Error(String(err));
+      setError(failure);
+      throw failure;
+    }
+  }, []);
+
+  return {
+    catalog,
+    superChats,
+    pinned,
+    goal,
+    loading,
+    error,
+    sendSuperChat: useCallback(
+      (purchase: SuperChatPurchase) => run(() => superChatService.sendSuperChat(streamId, purchase)),
+      [run, streamId]
+    ),
+    joinMembership: useCallback(
+      (levelId: string, paymentToken: string) => run(() => superChatService.joinMembership(streamId, levelId, paymentToken)),
+      [run, streamId]
+    ),
+    setGoal: useCallback(
+      (title: string, targetAmount: number) => run(() => superChatService.setGoal(streamId, title, targetAmount)),
+      [run, streamId]
+    ),
+    clearGoal: useCallback(() => run(() => superChatService.clearGoal(streamId)), [run, streamId]),
+  };
+}
+
+export default useSuperChats;
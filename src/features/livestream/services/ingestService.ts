@@ -0,0 +1,84 @@
+// ingestService - stream keys, ingest health and playback for live streams
+import type { IngestHealth, StreamIngest, StreamPlayback } from '../../../types/livestream';
+
+export interface IngestServiceConfig {
+  apiUrl?: string;
+  timeout?: number;
+}
+
+export class IngestServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'IngestServiceError';
+  }
+}
+
+export class IngestService {
+  private config: Required<IngestServiceConfig>;
+  private userId: string | null = null;
+
+  constructor(config: IngestServiceConfig = {}) {
+    this.config = {
+      apiUrl: '/api',
+      timeout: 10000,
+      ...config,
+    };
+  }
+
+  /** Identifies the signed-in creator; only a stream's owner can manage its ingest. */
+  setUser(userId: string | null): void {
+    this.userId = userId;
+  }
+
+  getIngest(streamId: string): Promise<StreamIngest> {
+    return this.request<StreamIngest>(`/live/streams/${encodeURIComponent(streamId)}/ingest`);
+  }
+
+  /** Creates the stream key, or replaces it; the old key stops working for new broadcasts */
+  rotateKey(streamId: string): Promise<StreamIngest> {
+    return this.request<StreamIngest>(`/live/streams/${encodeURIComponent(streamId)}/ingest/key`, { method: 'POST' });
+  }
+
+  /** Deletes the stream key and disconnects the encoder if it is live */
+  revokeKey(streamId: string): Promise<void> {
+    return this.request<void>(`/live/streams/${encodeURIComponent(streamId)}/ingest/key`, { method: 'DELETE' });
+  }
+
+  getHealth(streamId: string): Promise<IngestHealth> {
+    return this.request<IngestHealth>(`/live/streams/${encodeURIComponent(streamId)}/ingest/health`);
+  }
+
+  getPlayback(streamId: string): Promise<StreamPlayback> {
+    return this.request<StreamPlayback>(`/live/streams/${encodeURIComponent(streamId)}/playback`);
+  }
+
+  private async request<T>(endpoint: string, options: { method?: string } = {}): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.userId) {
+      headers['X-User-Id'] = this.userId;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout);
+    try {
+      const response = await fetch(`${this.config.apiUrl}${endpoint}`, {
+        method: options.method || 'GET',
+        headers,
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new IngestServiceError(payload?.message || `HTTP error! status: ${response.status}`, response.status);
+      }
+      return response.status === 204 ? (undefined as T) : response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const ingestService = new IngestService();
+export default ingestService;
@@ -0,0 +1,144 @@
+// liveSocket - shared WebSocket connection to a stream's live chat endpoint
+export const LIVE_CHAT_PATH = '/api/live/chat';
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+export type LiveSocketStatus = 'connecting' | 'open' | 'closed';
+
+export interface LiveSocketViewer {
+  id: string;
+  username: string;
+}
+
+/** Any server event; each feature narrows it by `type` */
+export interface LiveSocketEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface LiveSocketHandle {
+  /** Sends a message; false while the socket is not open */
+  send: (payload: { type: string; [key: string]: unknown }) => boolean;
+  subscribe: (listener: (event: LiveSocketEvent) => void) => () => void;
+  subscribeStatus: (listener: (status: LiveSocketStatus) => void) => () => void;
+  release: () => void;
+}
+
+interface Connection {
+  socket: WebSocket | null;
+  status: LiveSocketStatus;
+  listeners: Set<(event: LiveSocketEvent) => void>;
+  statusListeners: Set<(status: LiveSocketStatus) => void>;
+  refs: number;
+  attempt: number;
+  retryTimer?: ReturnType<typeof setTimeout>;
+}
+
+const connections = new Map<string, Connection>();
+
+const socketUrl = (streamId: string, viewer?: LiveSocketViewer | null): string => {
+  const params = new URLSearchParams({ streamId });
+  if (viewer) {
+    params.set('userId', viewer.id);
+    params.set('username', viewer.username);
+  }
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}${LIVE_CHAT_PATH}?${params}`;
+};
+
+const setStatus = (connection: Connection, status: LiveSocketStatus) => {
+  connection.status = status;
+  connection.statusListeners.forEach(listener => listener(status));
+};
+
+const open = (key: string, url: string, connection: Connection) => {
+  setStatus(connection, 'connecting');
+  const socket = new WebSocket(url);
+  connection.socket = socket;
+
+  socket.onopen = () => {
+    connection.attempt = 0;
+    setStatus(connection, 'open');
+  };
+  socket.onmessage = message => {
+    let event: LiveSocketEvent;
+    try {
+      event = JSON.parse(message.data);
+    } catch {
+      return; // Ignore malformed frames
+    }
+    connection.listeners.forEach(listener => listener(event));
+  };
+  socket.onclose = () => {
+    connection.socket = null;
+    setStatus(connection, 'closed');
+    if (connections.get(key) === connection) {
+      const delay = Math.min(1000 * 2 ** connection.attempt, MAX_RECONNECT_DELAY_MS);
+      connection.attempt += 1;
+      connection.retryTimer = setTimeout(() => open(key, url, connection), delay);
+    }
+  };
+};
+
+/**
+ * Joins a stream's live socket as `viewer` (or as a guest). Chat, polls and
+ * Q&A on the same page share one connection per stream and viewer, which is
+ * retried with backoff until its last user releases it.
+ *
+ * The server sends its current state on every (re)connect. A listener added
+ * while the connection is already open asks for that state again with `sync`.
+ */
+export function connectLiveSocket(streamId: string, viewer?: LiveSocketViewer | null): LiveSocketHandle {
+  const key = `${streamId}\n${viewer?.id ?? ''}\n${viewer?.username ?? ''}`;
+  let connection = connections.get(key);
+  if (!connection) {
+    connection = { socket: null, status: 'connecting', listeners: new Set(), statusListeners: new Set(), refs: 0, attempt: 0 };
+    connections.set(key, connection);
+    open(key, socketUrl(streamId, viewer), connection);
+  }
+  const current = connection;
+  current.refs += 1;
+  let released = false;
+
+  const send: LiveSocketHandle['send'] = payload => {
+    if (!current.socket || current.socket.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    current.socket.send(JSON.stringify(payload));
+    return true;
+  };
+
+  return {
+    send,
+    subscribe: listener => {
+      current.listeners.add(listener);
+      if (current.status === 'open') {
+        send({ type: 'sync' });
+      }
+      return () => {
+        current.listeners.delete(listener);
+      };
+    },
+    subscribeStatus: listener => {
+      current.statusListeners.add(listener);
+      listener(current.status);
+      return () => {
+        current.statusListeners.delete(listener);
+      };
+    },
+    release: () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      current.refs -= 1;
+      if (current.refs === 0) {
+        connections.delete(key);
+        clearTimeout(current.retryTimer);
+        current.socket?.close();
+      }
+    },
+  };
+}
+
+export default connectLiveSocket;
@@ -0,0 +1,60 @@
+// pollService - votes in a stream's live polls; results arrive over the live socket
+export interface PollServiceConfig {
+  apiUrl?: string;
+  timeout?: number;
+}
+
+export class PollServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'PollServiceError';
+  }
+}
+
+export class PollService {
+  private config: Required<PollServiceConfig>;
+  private userId: string | null = null;
+
+  constructor(config: PollServiceConfig = {}) {
+    this.config = {
+      apiUrl: '/api',
+      timeout: 10000,
+      ...config,
+    };
+  }
+
+  /** Identifies the signed-in viewer; votes are counted once per user. */
+  setUser(userId: string | null): void {
+    this.userId = userId;
+  }
+
+  /** Resolves with the option that was counted */
+  async vote(streamId: string, pollId: string, optionId: string): Promise<{ pollId: string; optionId: string }> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.userId) {
+      headers['X-User-Id'] = this.userId;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout);
+    try {
+      const response = await fetch(
+        `${this.config.apiUrl}/live/streams/${encodeURIComponent(streamId)}/polls/${encodeURIComponent(pollId)}/votes`,
+        { method: 'POST', headers, body: JSON.stringify({ optionId }), signal: controller.signal }
+      );
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new PollServiceError(payload?.message || `HTTP error! status: ${response.status}`, response.status);
+      }
+      return response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const pollService = new PollService();
+export default pollService;
@@ -0,0 +1,111 @@
+// replayService - recorded broadcasts, their chat replay and highlight clips
+import type { HighlightType, ReplayChatMessage, StreamHighlight, StreamReplay } from '../../../types/livestream';
+
+export interface ReplayServiceConfig {
+  apiUrl?: string;
+  timeout?: number;
+}
+
+export interface HighlightInput {
+  title: string;
+  description?: string;
+  /** Seconds into the replay */
+  start: number;
+  end: number;
+  type?: HighlightType;
+}
+
+export class ReplayServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'ReplayServiceError';
+  }
+}
+
+type WireReplayMessage = Omit<ReplayChatMessage, 'timestamp'> & { timestamp: string };
+type WireReplay = Omit<StreamReplay, 'createdAt'> & { createdAt: string };
+
+export class ReplayService {
+  private config: Required<ReplayServiceConfig>;
+  private userId: string | null = null;
+
+  constructor(config: ReplayServiceConfig = {}) {
+    this.config = {
+      apiUrl: '/api',
+      timeout: 10000,
+      ...config,
+    };
+  }
+
+  /** Identifies the signed-in creator; only a stream's owner can cut highlights. */
+  setUser(userId: string | null): void {
+    this.userId = userId;
+  }
+
+  /** The stream's latest replay; a 404 means nothing has been recorded yet */
+  async getReplay(streamId: string): Promise<StreamReplay> {
+    const replay = await this.request<WireReplay>(`/live/streams/${encodeURIComponent(streamId)}/replay`);
+    return { ...replay, createdAt: new Date(replay.createdAt) };
+  }
+
+  /** Chat sent between `from` and `to` seconds into the replay, in order, however many pages it takes */
+  async getChat(replayId: string, from: number, to: number): Promise<ReplayChatMessage[]> {
+    const messages: WireReplayMessage[] = [];
+    let pageToken: string | undefined;
+    do {
+      const page = await this.request<{ messages: WireReplayMessage[]; nextPageToken?: string }>(
+        `/live/replays/${encodeURIComponent(replayId)}/chat?from=${from}&to=${to}` +
+          (pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : '')
+      );
+      messages.push(...page.messages);
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+    return messages.map(message => ({ ...message, timestamp: new Date(message.timestamp) }));
+  }
+
+  /** Queues a clip of the recording; the highlight starts out `processing` */
+  createHighlight(replayId: string, input: HighlightInput): Promise<StreamHighlight> {
+    return this.request<StreamHighlight>(`/live/replays/${encodeURIComponent(replayId)}/highlights`, {
+      method: 'POST',
+      body: input,
+    });
+  }
+
+  deleteHighlight(replayId: string, highlightId: string): Promise<void> {
+    return this.request<void>(
+      `/live/replays/${encodeURIComponent(replayId)}/highlights/${encodeURIComponent(highlightId)}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  private async request<T>(endpoint: string, options: { method?: string; body?: unknown } = {}): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.userId) {
+      headers['X-User-Id'] = this.userId;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout);
+    try {
+      const response = await fetch(`${this.config.apiUrl}${endpoint}`, {
+        method: options.method || 'GET',
+        headers,
+        body: options.body === undefined ? undefined : JSON.stringify(options.body),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new ReplayServiceError(payload?.message || `HTTP error! status: ${response.status}`, response.status);
+      }
+      return response.status === 204 ? (undefined as T) : response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const replayService = new ReplayService();
+export default replayService;
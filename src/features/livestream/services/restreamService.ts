@@ -0,0 +1,89 @@
+// restreamService - per-platform destinations a live stream is forwarded to
+import type { PlatformName } from '../config/platforms';
+import type { RestreamState, RestreamTarget } from '../../../types/livestream';
+
+export interface RestreamServiceConfig {
+  apiUrl?: string;
+  timeout?: number;
+}
+
+export interface RestreamTargetInput {
+  /** Required when adding a platform; leave out to keep the stored key */
+  streamKey?: string;
+  /** Defaults to the platform's ingest server */
+  serverUrl?: string;
+  enabled?: boolean;
+}
+
+export class RestreamServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'RestreamServiceError';
+  }
+}
+
+export class RestreamService {
+  private config: Required<RestreamServiceConfig>;
+  private userId: string | null = null;
+
+  constructor(config: RestreamServiceConfig = {}) {
+    this.config = {
+      apiUrl: '/api',
+      timeout: 10000,
+      ...config,
+    };
+  }
+
+  /** Identifies the signed-in creator; only a stream's owner can manage its destinations. */
+  setUser(userId: string | null): void {
+    this.userId = userId;
+  }
+
+  /** Every configured destination with its connection status */
+  getState(streamId: string): Promise<RestreamState> {
+    return this.request<RestreamState>(`/live/streams/${encodeURIComponent(streamId)}/restream`);
+  }
+
+  /** Adds or updates a platform; a live broadcast reconnects to it straight away */
+  setTarget(streamId: string, platform: PlatformName, input: RestreamTargetInput): Promise<RestreamTarget> {
+    return this.request<RestreamTarget>(`/live/streams/${encodeURIComponent(streamId)}/restream/${platform}`, {
+      method: 'PUT',
+      body: input,
+    });
+  }
+
+  removeTarget(streamId: string, platform: PlatformName): Promise<void> {
+    return this.request<void>(`/live/streams/${encodeURIComponent(streamId)}/restream/${platform}`, { method: 'DELETE' });
+  }
+
+  private async request<T>(endpoint: string, options: { method?: string; body?: unknown } = {}): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.userId) {
+      headers['X-User-Id'] = this.userId;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout);
+    try {
+      const response = await fetch(`${this.config.apiUrl}${endpoint}`, {
+        method: options.method || 'GET',
+        headers,
+        body: options.body === undefined ? undefined : JSON.stringify(options.body),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new RestreamServiceError(payload?.message || `HTTP error! status: ${response.status}`, response.status);
+      }
+      return response.status === 204 ? (undefined as T) : response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const restreamService = new RestreamService();
+export default restreamService;
@@ -0,0 +1,343 @@
+// sceneCompositor - draws camera, screen, image and text layers onto one canvas
+import { QUALITY_DIMENSIONS, type OutputSettings } from '../config/streaming';
+
+/** Position and size as fractions of the canvas, so layouts survive quality changes */
+export interface LayerRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface LayerBase {
+  id: string;
+  name: string;
+  visible: boolean;
+  rect: LayerRect;
+}
+
+export interface VideoLayer extends LayerBase {
+  type: 'camera' | 'screen';
+  stream: MediaStream;
+}
+
+export interface ImageLayer extends LayerBase {
+  type: 'image';
+  src: string;
+}
+
+export interface LowerThirdLayer extends LayerBase {
+  type: 'lowerThird';
+  title: string;
+  subtitle: string;
+  color: string;
+}
+
+export type SceneLayer = VideoLayer | ImageLayer | LowerThirdLayer;
+
+/** A layer as the UI sees it; media handles stay inside the compositor */
+export type LayerInfo = Omit<VideoLayer, 'stream'> | ImageLayer | LowerThirdLayer;
+
+export const FULL_FRAME: LayerRect = { x: 0, y: 0, width: 1, height: 1 };
+export const PICTURE_IN_PICTURE: LayerRect = { x: 0.72, y: 0.68, width: 0.25, height: 0.28 };
+export const LOWER_THIRD: LayerRect = { x: 0.04, y: 0.76, width: 0.5, height: 0.14 };
+
+let nextLayerId = 0;
+const layerId = (type: string) => `${type}-${Date.now().toString(36)}-${nextLayerId++}`;
+
+const toInfo = (layer: SceneLayer): LayerInfo => {
+  if (layer.type === 'camera' || layer.type === 'screen') {
+    const { id, type, name, visible, rect } = layer;
+    return { id, type, name, visible, rect };
+  }
+  return { ...layer };
+};
+
+/**
+ * Composes a scene from layers drawn bottom to top and exposes it as one
+ * `MediaStream`: the canvas captured at the output frame rate, plus the
+ * microphone and any screen-share audio mixed into a single track.
+ */
+export class SceneCompositor {
+  readonly canvas: HTMLCanvasElement;
+  private readonly context: CanvasRenderingContext2D;
+  private layers: SceneLayer[] = [];
+  private videos = new Map<string, HTMLVideoElement>();
+  private images = new Map<string, HTMLImageElement>();
+  private audio: AudioContext | null = null;
+  private audioOut: MediaStreamAudioDestinationNode | null = null;
+  private audioSources = new Map<string, MediaStreamAudioSourceNode>();
+  private microphone: MediaStream | null = null;
+  private output: MediaStream | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(layers: LayerInfo[]) => void>();
+  private settings: OutputSettings;
+
+  constructor(settings: OutputSettings) {
+    this.settings = settings;
+    this.canvas = document.createElement('canvas');
+    const context = this.canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D is not available in this browser');
+    }
+    this.context = context;
+    this.resize();
+  }
+
+  /** Starts drawing; safe to call again after `stop` */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    // setTimeout rather than requestAnimationFrame: rAF pauses in background tabs
+    const tick = () => {
+      this.draw();
+      this.timer = setTimeout(tick, 1000 / this.settings.frameRate);
+    };
+    tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** The composed scene; video follows the canvas, audio follows the mixer */
+  getOutputStream(): MediaStream {
+    if (!this.output) {
+      const [video] = this.canvas.captureStream(this.settings.frameRate).getVideoTracks();
+      this.output = new MediaStream([video, ...this.ensureAudio().stream.getAudioTracks()]);
+    }
+    return this.output;
+  }
+
+  /** Applies quality and frame rate; the output track keeps running at the new size */
+  updateSettings(settings: OutputSettings): void {
+    this.settings = settings;
+    this.resize();
+    this.output?.getVideoTracks()[0]?.applyConstraints({ frameRate: settings.frameRate }).catch(() => {
+      // Canvas tracks ignore constraints in some browsers; the draw loop still paces frames
+    });
+  }
+
+  async addCamera(): Promise<LayerInfo> {
+    const { width, height } = QUALITY_DIMENSIONS[this.settings.quality];
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: { width: { ideal: width }, height: { ideal: height }, frameRate: { ideal: this.settings.frameRate } },
+      audio: false,
+    });
+    const hasFullFrame = this.layers.some(layer => layer.type === 'screen' || layer.type === 'camera');
+    return this.addVideoLayer('camera', 'Camera', stream, hasFullFrame ? PICTURE_IN_PICTURE : FULL_FRAME);
+  }
+
+  async addScreen(): Promise<LayerInfo> {
+    const stream = await navigator.mediaDevices.getDisplayMedia({
+      video: { frameRate: { ideal: this.settings.frameRate } },
+      audio: true,
+    });
+    const layer = this.addVideoLayer('screen', 'Screen share', stream, FULL_FRAME);
+    // Screen share goes underneath everything else
+    this.layers = [this.layers[this.layers.length - 1], ...this.layers.slice(0, -1)];
+    this.emit();
+    return layer;
+  }
+
+  addImage(src: string, name = 'Image', rect: LayerRect = { x: 0.8, y: 0.04, width: 0.16, height: 0.16 }): LayerInfo {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.src = src;
+    const layer: ImageLayer = { id: layerId('image'), type: 'image', name, visible: true, rect, src };
+    this.images.set(layer.id, image);
+    return this.push(layer);
+  }
+
+  addLowerThird(title: string, subtitle = '', color = '#dc2626'): LayerInfo {
+    return this.push({ id: layerId('lowerThird'), type: 'lowerThird', name: title || 'Lower third', visible: true, rect: LOWER_THIRD, title, subtitle, color });
+  }
+
+  /** Updates text, colour, position or visibility of a layer */
+  updateLayer(id: string, changes: Partial<Omit<LowerThirdLayer, 'id' | 'type'>>): void {
+    this.layers = this.layers.map(layer => (layer.id === id ? ({ ...layer, ...changes } as SceneLayer) : layer));
+    this.emit();
+  }
+
+  /** Moves a layer one step up (towards the front) or down */
+  moveLayer(id: string, direction: 1 | -1): void {
+    const index = this.layers.findIndex(layer => layer.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= this.layers.length) {
+      return;
+    }
+    const next = [...this.layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    this.layers = next;
+    this.emit();
+  }
+
+  removeLayer(id: string): void {
+    const layer = this.layers.find(candidate => candidate.id === id);
+    if (!layer) {
+      return;
+    }
+    if (layer.type === 'camera' || layer.type === 'screen') {
+      layer.stream.getTracks().forEach(track => track.stop());
+      this.videos.get(id)?.remove();
+      this.videos.delete(id);
+      this.audioSources.get(id)?.disconnect();
+      this.audioSources.delete(id);
+    }
+    this.images.delete(id);
+    this.layers = this.layers.filter(candidate => candidate.id !== id);
+    this.emit();
+  }
+
+  /** Turns the microphone on or off; it is mixed with screen-share audio */
+  async setMicrophone(enabled: boolean): Promise<void> {
+    if (!enabled) {
+      this.microphone?.getTracks().forEach(track => track.stop());
+      this.microphone = null;
+      this.audioSources.get('microphone')?.disconnect();
+      this.audioSources.delete('microphone');
+      return;
+    }
+    if (this.microphone) {
+      return;
+    }
+    this.microphone = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true },
+      video: false,
+    });
+    this.connectAudio('microphone', this.microphone);
+  }
+
+  getLayers(): LayerInfo[] {
+    return this.layers.map(toInfo);
+  }
+
+  subscribe(listener: (layers: LayerInfo[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Stops every capture and the draw loop */
+  dispose(): void {
+    this.stop();
+    [...this.layers].forEach(layer => this.removeLayer(layer.id));
+    this.microphone?.getTracks().forEach(track => track.stop());
+    this.output?.getTracks().forEach(track => track.stop());
+    this.audio?.close().catch(() => {});
+    this.listeners.clear();
+  }
+
+  private addVideoLayer(type: VideoLayer['type'], name: string, stream: MediaStream, rect: LayerRect): LayerInfo {
+    const id = layerId(type);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    video.play().catch(() => {});
+    this.videos.set(id, video);
+    if (stream.getAudioTracks().length > 0) {
+      this.connectAudio(id, stream);
+    }
+    // The browser's own "Stop sharing" button ends the track
+    stream.getVideoTracks()[0]?.addEventListener('ended', () => this.removeLayer(id));
+    return this.push({ id, type, name, visible: true, rect, stream });
+  }
+
+  private push(layer: SceneLayer): LayerInfo {
+    this.layers = [...this.layers, layer];
+    this.emit();
+    return toInfo(layer);
+  }
+
+  private ensureAudio(): MediaStreamAudioDestinationNode {
+    if (!this.audio || !this.audioOut) {
+      this.audio = new AudioContext();
+      this.audioOut = this.audio.createMediaStreamDestination();
+    }
+    return this.audioOut;
+  }
+
+  private connectAudio(id: string, stream: MediaStream): void {
+    const destination = this.ensureAudio();
+    const source = this.audio!.createMediaStreamSource(stream);
+    source.connect(destination);
+    this.audioSources.set(id, source);
+  }
+
+  private resize(): void {
+    const { width, height } = QUALITY_DIMENSIONS[this.settings.quality];
+    this.canvas.width = width;
+    this.canvas.height = height;
+  }
+
+  private draw(): void {
+    const { width, height } = this.canvas;
+    const ctx = this.context;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+
+    for (const layer of this.layers) {
+      if (!layer.visible) {
+        continue;
+      }
+      const x = layer.rect.x * width;
+      const y = layer.rect.y * height;
+      const w = layer.rect.width * width;
+      const h = layer.rect.height * height;
+
+      if (layer.type === 'lowerThird') {
+        this.drawLowerThird(layer, x, y, w, h);
+      } else if (layer.type === 'image') {
+        const image = this.images.get(layer.id);
+        if (image?.complete && image.naturalWidth > 0) {
+          this.drawContained(image, image.naturalWidth, image.naturalHeight, x, y, w, h);
+        }
+      } else {
+        const video = this.videos.get(layer.id);
+        if (video && video.readyState >= 2) {
+          this.drawContained(video, video.videoWidth, video.videoHeight, x, y, w, h);
+        }
+      }
+    }
+  }
+
+  /** Draws the source letterboxed into the box, keeping its aspect ratio */
+  private drawContained(source: CanvasImageSource, sourceWidth: number, sourceHeight: number, x: number, y: number, w: number, h: number): void {
+    if (!sourceWidth || !sourceHeight) {
+      return;
+    }
+    const scale = Math.min(w / sourceWidth, h / sourceHeight);
+    const drawWidth = sourceWidth * scale;
+    const drawHeight = sourceHeight * scale;
+    this.context.drawImage(source, x + (w - drawWidth) / 2, y + (h - drawHeight) / 2, drawWidth, drawHeight);
+  }
+
+  private drawLowerThird(layer: LowerThirdLayer, x: number, y: number, w: number, h: number): void {
+    const ctx = this.context;
+    const titleSize = Math.round(h * (layer.subtitle ? 0.36 : 0.5));
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(x, y, w, h);
+    ctx.fillStyle = layer.color;
+    ctx.fillRect(x, y, Math.max(4, w * 0.015), h);
+
+    const padding = h * 0.18;
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = '#fff';
+    ctx.font = `600 ${titleSize}px system-ui, sans-serif`;
+    ctx.fillText(layer.title, x + padding * 1.5, y + padding, w - padding * 3);
+    if (layer.subtitle) {
+      ctx.fillStyle = '#d1d5db';
+      ctx.font = `${Math.round(titleSize * 0.7)}px system-ui, sans-serif`;
+      ctx.fillText(layer.subtitle, x + padding * 1.5, y + padding + titleSize * 1.2, w - padding * 3);
+    }
+  }
+
+  private emit(): void {
+    const layers = this.getLayers();
+    this.listeners.forEach(listener => listener(layers));
+  }
+}
@@ -0,0 +1,89 @@
+// streamAnalyticsService - a broadcast's per-second analytics and its post-stream report
+import type { StreamAnalytics, StreamAnalyticsReport } from '../../../types/livestream';
+
+export interface StreamAnalyticsServiceConfig {
+  apiUrl?: string;
+  timeout?: number;
+}
+
+export interface AnalyticsQuery {
+  /** Trailing window in seconds; the whole broadcast when omitted */
+  range?: number;
+  /** Preferred bucket size in seconds; raised by the server for long windows */
+  resolution?: number;
+  /** A specific broadcast; the stream's latest when omitted */
+  sessionId?: string;
+}
+
+export class StreamAnalyticsServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'StreamAnalyticsServiceError';
+  }
+}
+
+export class StreamAnalyticsService {
+  private config: Required<StreamAnalyticsServiceConfig>;
+  private userId: string | null = null;
+
+  constructor(config: StreamAnalyticsServiceConfig = {}) {
+    this.config = {
+      apiUrl: '/api',
+      timeout: 10000,
+      ...config,
+    };
+  }
+
+  /** Identifies the signed-in creator; only a stream's owner can see its analytics. */
+  setUser(userId: string | null): void {
+    this.userId = userId;
+  }
+
+  /** Time series for charts; a 404 means the stream has not been live yet */
+  getAnalytics(streamId: string, query: AnalyticsQuery = {}): Promise<StreamAnalytics> {
+    const params = new URLSearchParams();
+    if (query.range) {
+      params.set('range', String(query.range));
+    }
+    if (query.resolution) {
+      params.set('resolution', String(query.resolution));
+    }
+    if (query.sessionId) {
+      params.set('session', query.sessionId);
+    }
+    const search = params.toString();
+    return this.request<StreamAnalytics>(`/live/streams/${encodeURIComponent(streamId)}/analytics${search ? `?${search}` : ''}`);
+  }
+
+  /** The post-stream report; a 409 means the broadcast is still live */
+  getReport(streamId: string, sessionId?: string): Promise<StreamAnalyticsReport> {
+    const search = sessionId ? `?session=${encodeURIComponent(sessionId)}` : '';
+    return this.request<StreamAnalyticsReport>(`/live/streams/${encodeURIComponent(streamId)}/analytics/report${search}`);
+  }
+
+  private async request<T>(endpoint: string): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.userId) {
+      headers['X-User-Id'] = this.userId;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout);
+    try {
+      const response = await fetch(`${this.config.apiUrl}${endpoint}`, { headers, signal: controller.signal });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new StreamAnalyticsServiceError(payload?.message || `HTTP error! status: ${response.status}`, response.status);
+      }
+      return response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const streamAnalyticsService = new StreamAnalyticsService();
+export default streamAnalyticsService;
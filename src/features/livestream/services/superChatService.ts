@@ -0,0 +1,200 @@
+// superChatService - Super Chats, memberships, goals and earnings
+import type {
+  DonationGoal,
+  EarningsSummary,
+  LiveStreamMonetization,
+  MembershipInfo,
+  MembershipLevel,
+  SuperChat,
+  SuperChatTier,
+} from '../../../types/livestream';
+
+export interface SuperChatServiceConfig {
+  apiUrl?: string;
+  timeout?: number;
+}
+
+export interface SuperChatViewer {
+  id: string;
+  username: string;
+}
+
+export interface SuperChatCatalog {
+  tiers: SuperChatTier[];
+  currencies: string[];
+  /** USD per unit of each currency, for picking the tier */
+  rates: Record<string, number>;
+  maxAmountUsd: number;
+  memberships: MembershipLevel[];
+}
+
+export interface StreamSuperChats {
+  superChats: SuperChat[];
+  /** Super Chats still pinned above chat, highest first */
+  pinned: SuperChat[];
+  goal: DonationGoal | null;
+}
+
+export interface SuperChatPurchase {
+  amount: number;
+  currency: string;
+  message: string;
+  /** Token from the payment form; the dev server's mock provider accepts any except its decline tokens */
+  paymentToken: string;
+}
+
+export interface EarningsRange {
+  from?: string;
+  to?: string;
+}
+
+export class SuperChatServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    /** Payment provider reason when a charge was declined */
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = 'SuperChatServiceError';
+  }
+}
+
+type Wire<T> = Omit<T, 'timestamp' | 'createdAt'> & { timestamp?: string; createdAt?: string };
+
+export const toSuperChat = (superChat: Wire<SuperChat>): SuperChat => ({
+  ...superChat,
+  timestamp: superChat.timestamp ? new Date(superChat.timestamp) : undefined,
+});
+
+export const toGoal = (goal: Wire<DonationGoal> | null): DonationGoal | null =>
+  goal && { ...goal, createdAt: new Date(goal.createdAt ?? Date.now()) };
+
+const rangeQuery = ({ from, to }: EarningsRange) => {
+  const params = new URLSearchParams();
+  if (from) {
+    params.set('from', from);
+  }
+  if (to) {
+    params.set('to', to);
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+export class SuperChatService {
+  private config: Required<SuperChatServiceConfig>;
+  private viewer: SuperChatViewer | null = null;
+
+  constructor(config: SuperChatServiceConfig = {}) {
+    this.config = {
+      apiUrl: '/api',
+      timeout: 10000,
+      ...config,
+    };
+  }
+
+  /** Identifies the signed-in viewer, who pays, or the channel, whose earnings are read. */
+  setViewer(viewer: SuperChatViewer | null): void {
+    this.viewer = viewer;
+  }
+
+  getCatalog(): Promise<SuperChatCatalog> {
+    return this.request<SuperChatCatalog>('/live/superchat/tiers');
+  }
+
+  async getStreamSuperChats(streamId: string): Promise<StreamSuperChats> {
+    const result = await this.request<{ superChats: Wire<SuperChat>[]; pinned: Wire<SuperChat>[]; goal: Wire<DonationGoal> | null }>(
+      `/live/streams/${encodeURIComponent(streamId)}/superchats`
+    );
+    return {
+      superChats: result.superChats.map(toSuperChat),
+      pinned: result.pinned.map(toSuperChat),
+      goal: toGoal(result.goal),
+    };
+  }
+
+  async sendSuperChat(streamId: string, purchase: SuperChatPurchase): Promise<SuperChat> {
+    const result = await this.request<{ superChat: Wire<SuperChat> }>(
+      `/live/streams/${encodeURIComponent(streamId)}/superchats`,
+      { method: 'POST', body: { ...purchase, username: this.viewer?.username } }
+    );
+    return toSuperChat(result.superChat);
+  }
+
+  async joinMembership(streamId: string, levelId: string, paymentToken: string): Promise<MembershipInfo> {
+    const result = await this.request<{ membership: MembershipInfo }>(
+      `/live/streams/${encodeURIComponent(streamId)}/memberships`,
+      { method: 'POST', body: { levelId, paymentToken, username: this.viewer?.username } }
+    );
+    return result.membership;
+  }
+
+  async getStreamRevenue(streamId: string): Promise<LiveStreamMonetization> {
+    const revenue = await this.request<Omit<LiveStreamMonetization, 'superChats'> & { superChats: Wire<SuperChat>[] }>(
+      `/live/streams/${encodeURIComponent(streamId)}/revenue`
+    );
+    return { ...revenue, superChats: revenue.superChats.map(toSuperChat) };
+  }
+
+  /** `targetAmount` in USD */
+  async setGoal(streamId: string, title: string, targetAmount: number): Promise<DonationGoal> {
+    const goal = await this.request<Wire<DonationGoal>>(`/live/streams/${encodeURIComponent(streamId)}/goal`, {
+      method: 'PUT',
+      body: { title, targetAmount },
+    });
+    return toGoal(goal) as DonationGoal;
+  }
+
+  clearGoal(streamId: string): Promise<void> {
+    return this.request<void>(`/live/streams/${encodeURIComponent(streamId)}/goal`, { method: 'DELETE' });
+  }
+
+  getEarnings(range: EarningsRange = {}): Promise<EarningsSummary> {
+    return this.request<EarningsSummary>(`/monetization/earnings${rangeQuery(range)}`);
+  }
+
+  /** The earnings statement as CSV, ready to save */
+  async downloadStatement(range: EarningsRange = {}): Promise<Blob> {
+    const response = await this.fetch(`/monetization/statement.csv${rangeQuery(range)}`);
+    return response.blob();
+  }
+
+  private async request<T>(endpoint: string, options: { method?: string; body?: unknown } = {}): Promise<T> {
+    const response = await this.fetch(endpoint, options);
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
+
+  private async fetch(endpoint: string, options: { method?: string; body?: unknown } = {}): Promise<Response> {
+    const method = options.method || 'GET';
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.viewer) {
+      headers['X-User-Id'] = this.viewer.id;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout);
+    try {
+      const response = await fetch(`${this.config.apiUrl}${endpoint}`, {
+        method,
+        headers,
+        body: options.body === undefined ? undefined : JSON.stringify(options.body),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new SuperChatServiceError(
+          payload?.message || `HTTP error! status: ${response.status}`,
+          response.status,
+          payload?.code
+        );
+      }
+      return response;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const superChatService = new SuperChatService();
+export default superChatService;
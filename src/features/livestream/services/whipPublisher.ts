@@ -0,0 +1,160 @@
+// whipPublisher - publishes a MediaStream to the ingest over WebRTC (WHIP)
+import { WHIP_ENDPOINT, type OutputSettings } from '../config/streaming';
+
+export class WhipPublisherError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'WhipPublisherError';
+  }
+}
+
+export type PublisherState = 'idle' | 'connecting' | 'live' | 'failed';
+
+// Stop waiting for ICE candidates after this; the host candidates are enough locally
+const ICE_GATHERING_TIMEOUT_MS = 3000;
+
+const waitForIceGathering = (pc: RTCPeerConnection) =>
+  new Promise<void>(resolve => {
+    if (pc.iceGatheringState === 'complete') {
+      return resolve();
+    }
+    const timer = setTimeout(done, ICE_GATHERING_TIMEOUT_MS);
+    function done() {
+      clearTimeout(timer);
+      pc.removeEventListener('icegatheringstatechange', onChange);
+      resolve();
+    }
+    function onChange() {
+      if (pc.iceGatheringState === 'complete') {
+        done();
+      }
+    }
+    pc.addEventListener('icegatheringstatechange', onChange);
+  });
+
+/**
+ * One WHIP broadcast: offers the stream's tracks to the server with the
+ * stream key as bearer token, and DELETEs the session resource, with the
+ * same token, on stop.
+ * The server repackages H.264 without re-encoding, so H.264 is preferred
+ * and the bitrate and frame rate are enforced on the sender.
+ */
+export class WhipPublisher {
+  private pc: RTCPeerConnection | null = null;
+  private resourceUrl: string | null = null;
+  private streamKey: string | null = null;
+  private listeners = new Set<(state: PublisherState) => void>();
+  state: PublisherState = 'idle';
+
+  constructor(private readonly endpoint = WHIP_ENDPOINT) {}
+
+  async start(stream: MediaStream, streamKey: string, settings: OutputSettings): Promise<void> {
+    if (this.pc) {
+      throw new WhipPublisherError('Already publishing', 409);
+    }
+    this.setState('connecting');
+    const pc = new RTCPeerConnection({ bundlePolicy: 'max-bundle' });
+    this.pc = pc;
+    this.streamKey = streamKey;
+
+    try {
+      for (const track of stream.getTracks()) {
+        const transceiver = pc.addTransceiver(track, {
+          direction: 'sendonly',
+          streams: [stream],
+          ...(track.kind === 'video' && {
+            sendEncodings: [{ maxBitrate: settings.bitrate * 1000, maxFramerate: settings.frameRate }],
+          }),
+        });
+        if (track.kind === 'video') {
+          this.preferH264(transceiver);
+        }
+      }
+      pc.addEventListener('connectionstatechange', () => {
+        if (pc.connectionState === 'connected') {
+          this.setState('live');
+        } else if (pc.connectionState === 'failed') {
+          this.setState('failed');
+        }
+      });
+
+      await pc.setLocalDescription(await pc.createOffer());
+      await waitForIceGathering(pc);
+
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/sdp', Authorization: `Bearer ${streamKey}` },
+        body: pc.localDescription!.sdp,
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new WhipPublisherError(payload?.message || `HTTP error! status: ${response.status}`, response.status);
+      }
+      const location = response.headers.get('Location');
+      this.resourceUrl = location && new URL(location, new URL(this.endpoint, window.location.href)).toString();
+      await pc.setRemoteDescription({ type: 'answer', sdp: await response.text() });
+    } catch (error) {
+      await this.stop();
+      this.setState('failed');
+      throw error;
+    }
+  }
+
+  /** Changes bitrate and frame rate mid-broadcast, without renegotiating */
+  async updateSettings(settings: OutputSettings): Promise<void> {
+    const sender = this.pc?.getSenders().find(candidate => candidate.track?.kind === 'video');
+    if (!sender) {
+      return;
+    }
+    const parameters = sender.getParameters();
+    if (!parameters.encodings?.length) {
+      parameters.encodings = [{}];
+    }
+    parameters.encodings[0].maxBitrate = settings.bitrate * 1000;
+    parameters.encodings[0].maxFramerate = settings.frameRate;
+    await sender.setParameters(parameters);
+  }
+
+  async stop(): Promise<void> {
+    const { resourceUrl, streamKey } = this;
+    this.resourceUrl = null;
+    this.streamKey = null;
+    this.pc?.close();
+    this.pc = null;
+    this.setState('idle');
+    if (resourceUrl) {
+      await fetch(resourceUrl, { method: 'DELETE', headers: { Authorization: `Bearer ${streamKey}` } }).catch(() => {
+        // The server also tears the session down when the connection drops
+      });
+    }
+  }
+
+  subscribe(listener: (state: PublisherState) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private preferH264(transceiver: RTCRtpTransceiver): void {
+    const codecs = RTCRtpSender.getCapabilities?.('video')?.codecs;
+    if (!codecs || typeof transceiver.setCodecPreferences !== 'function') {
+      return;
+    }
+    const h264 = codecs.filter(codec => codec.mimeType.toLowerCase() === 'video/h264');
+    if (h264.length === 0) {
+      throw new WhipPublisherError('This browser cannot encode H.264 for live streaming', 415);
+    }
+    // packetization-mode=1 is what the ingest's depacketizer expects
+    h264.sort((a, b) => Number(/packetization-mode=1/.test(b.sdpFmtpLine ?? '')) - Number(/packetization-mode=1/.test(a.sdpFmtpLine ?? '')));
+    transceiver.setCodecPreferences(h264);
+  }
+
+  private setState(state: PublisherState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export default WhipPublisher;
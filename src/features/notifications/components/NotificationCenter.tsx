@@ -1,62 +1,126 @@
-import React from 'react';
-// NotificationCenter - React Component;
-import React, { useState, useEffect } from 'react';
+// NotificationCenter - bell with an unread count and the user's latest notifications
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import { useNotifications } from '../hooks/useNotifications';
+import type { Notification } from '../../../../types/unifiedTypes';
 
 export interface NotificationCenterProps {
+  userId: string | null | undefined;
   className?: string;
-  children?: React.ReactNode;
-  onLoad?: () => void;
-  onError?: (error: Error) => void, 
-
-import React from 'react';
-export const NotificationCenter: React.FC<NotificationCenterProps> = ({)
-  className = '',
-  children,
-  onLoad,
-  onError, 
 }
-}) => {
-  const [isReady, setIsReady] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-
-  useEffect(() => {)
-    const initialize = async () => {
-      try {;
-        await new Promise(resolve => setTimeout(resolve, 200));
-        setIsReady(true);
-        onLoad?.(), 
-      } catch (err) {
-        const error = err instanceof Error ? err : new Error('Initialization failed');
-        setError(error);
-        onError?.(error), 
-
-    initialize();
-  }, [onLoad, onError]);
-
-  if (error) {
-    return (
-      <div className={'error-state ' + className}>
-        <h3>Error in NotificationCenter</h3>
-        <p>{error.message}</p>
-        <button onClick={() => window.location.reload()}>
-          Retry;
-        </button>
-      </div>
-  if (!isReady) {
-    return (
-      <div className={'loading-state ' + className}>
-        <div>Loading NotificationCenter...</div>
-      </div>
+
+const formatAge = (createdAt: Date | string) => {
+  const minutes = Math.floor((Date.now() - new Date(createdAt).getTime()) / 60000);
+  if (minutes < 1) {
+    return 'Just now';
+  }
+  if (minutes < 60) {
+    return `${minutes}m ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ago` : new Date(createdAt).toLocaleDateString();
+};
+
+export const NotificationCenter: React.FC<NotificationCenterProps> = ({ userId, className = '' }) => {
+  const { notifications, unreadCount, error, markRead, markAllRead, remove } = useNotifications(userId);
+  const [open, setOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    const handleClick = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  if (!userId) {
+    return null;
+  }
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.isRead) {
+      markRead(notification.id);
+    }
+    if (notification.actionUrl) {
+      setOpen(false);
+      navigate(notification.actionUrl);
+    }
+  };
+
   return (
-    <div className={'component-ready ' + className}>
-      <div className="component-header">
-        <h2>NotificationCenter</h2>
-      </div>
-      <div className="component-body">
-        {children || ()
-          <div className="default-content">
-            <p>Component is ready and functioning properly.</p>
+    <div ref={panelRef} className={`relative ${className}`}>
+      <button
+        onClick={() => setOpen(value => !value)}
+        aria-label={unreadCount ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+        aria-expanded={open}
+        className="relative rounded-full p-2 hover:bg-gray-100 dark:hover:bg-gray-800"
+      >
+        <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5} aria-hidden="true">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            d="M14.857 17.082a23.848 23.848 0 005.454-1.31A8.967 8.967 0 0118 9.75V9A6 6 0 006 9v.75a8.967 8.967 0 01-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 01-5.714 0m5.714 0a3 3 0 11-5.714 0"
+          />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute right-1 top-1 min-w-[1.1rem] rounded-full bg-red-600 px-1 text-center text-[10px] font-semibold text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div
+          role="dialog"
+          aria-label="Notifications"
+          className="absolute right-0 top-full z-50 mt-2 w-80 rounded-lg border border-gray-200 bg-white shadow-xl dark:border-gray-700 dark:bg-gray-900"
+        >
+          <div className="flex items-center justify-between border-b border-gray-200 px-3 py-2 dark:border-gray-700">
+            <h2 className="text-sm font-semibold">Notifications</h2>
+            {unreadCount > 0 && (
+              <button onClick={() => markAllRead()} className="text-xs text-blue-600 hover:underline">Mark all as read</button>
+            )}
           </div>
-      </div>
+          {error && <p className="px-3 py-2 text-xs text-red-600">{error.message}</p>}
+          {notifications.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-gray-500">You&apos;re all caught up.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto">
+              {notifications.map(notification => (
+                <li
+                  key={notification.id}
+                  className={`group flex gap-2 border-b border-gray-100 px-3 py-2 last:border-0 dark:border-gray-800 ${
+                    notification.isRead ? '' : 'bg-blue-50 dark:bg-blue-900/20'
+                  }`}
+                >
+                  <button onClick={() => handleOpen(notification)} className="min-w-0 flex-1 text-left">
+                    <p className="text-sm font-medium">{notification.title}</p>
+                    {notification.message && <p className="truncate text-xs text-gray-600 dark:text-gray-400">{notification.message}</p>}
+                    <p className="text-[11px] text-gray-400">{formatAge(notification.createdAt)}</p>
+                  </button>
+                  <button
+                    onClick={() => remove(notification.id)}
+                    aria-label="Dismiss notification"
+                    className="self-start text-xs text-gray-400 opacity-0 hover:text-gray-700 group-hover:opacity-100"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
     </div>
-export default NotificationCenter;
\ No newline at end of file
+  );
+};
+
+export default NotificationCenter;
@@ -1,63 +1,80 @@
-import React from 'react';
-// useNotifications - Custom Hook;
-import { useState, useEffect, useCallback } from 'react';
+// useNotifications - the signed-in user's inbox, kept fresh by polling
+import { useCallback, useEffect, useState } from 'react';
+
+import { notificationService } from '../services/notificationService';
+import type { Notification } from '../../../../types/unifiedTypes';
+
+// Stream reminders are sent every half minute; polling as often keeps them on time
+const POLL_MS = 30000;
 
 export interface UseNotificationsOptions {
   enabled?: boolean;
-  onSuccess?: (data: any) => void;
-  onError?: (error: Error) => void}
+}
 
+/**
+ * Notifications for `userId`, newest first. New ones (reminders for
+ * scheduled streams, for instance) show up on the next poll.
+ */
+export function useNotifications(userId: string | null | undefined, options: UseNotificationsOptions = {}) {
+  const { enabled = true } = options;
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
 
-export interface UseNotificationsResult {
-  data;
-  loading: boolean,
-  error: Error | null;
-      refetch: () => void}
+  useEffect(() => {
+    notificationService.setUser(userId ?? null);
+  }, [userId]);
 
+  const refresh = useCallback(async () => {
+    const page = await notificationService.getNotifications();
+    setNotifications(page.notifications);
+    setUnreadCount(page.unreadCount);
+  }, []);
 
-export function useNotifications(;)
-  options: UseNotificationsOptions = {});
-): UseNotificationsResult {
-  const { enabled = true, onSuccess, onError } = options;
-  
-  const [data, setData] = useState<any>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
+  useEffect(() => {
+    if (!userId || !enabled) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    refresh()
+      .catch(err => !cancelled && setError(err instanceof Error ? err : new Error(String(err))))
+      .finally(() => !cancelled && setLoading(false));
 
-  const fetchData = useCallback(async () => {)
-    if (!enabled) return;
+    const timer = setInterval(() => {
+      refresh().catch(() => {
+        // Keep what we have; the next poll retries
+      });
+    }, POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [userId, enabled, refresh]);
 
+  const run = useCallback(async (action: () => Promise<unknown>) => {
+    setError(null);
     try {
-      setLoading(true);
-      setError(null);
-      
-      await new Promise(resolve,: unknow,n,: unknown=> setTimeout(resolve, 300)), 
-      
-      const result = {
-        hookName: 'useNotifications'}
-        timestamp: Date.now(),;
-        success: true,;
-      
-      setData(result);
-      onSuccess?.(result);
-    } ,catch (err) {
-      const error = err instanceof Error ? err : new Error('Unknown error');
-      setError(error);
-      onError?.(error)}
-    } finally {
-      setLoading(false)}
-
-  }, [enabled, onSuccess, onError]);
-
-  useEffect(() => {)
-    fetchData()}
-  ,}, [fetchData]);
+      await action();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    }
+  }, [refresh]);
 
   return {
-    data,
+    notifications,
+    unreadCount,
     loading,
     error,
-    refetch: fetchData}
-
+    refresh,
+    markRead: useCallback((id: string) => run(() => notificationService.markRead(id)), [run]),
+    markAllRead: useCallback(() => run(() => notificationService.markAllRead()), [run]),
+    remove: useCallback((id: string) => run(() => notificationService.remove(id)), [run]),
+  };
+}
 
-export default useNotifications;
\ No newline at end of file
+export default useNotifications;
@@ -1,32 +1,86 @@
-import React, { useState, useEffect, useRef, useCallback, useMemo, memo } from 'react';
-// notificationService - Enhanced Service
+// notificationService - the signed-in user's notification inbox
+import type { Notification } from '../../../../types/unifiedTypes';
+
+export interface NotificationServiceConfig {
+  apiUrl?: string;
+  timeout?: number;
+}
+
+export interface NotificationPage {
+  notifications: Notification[];
+  unreadCount: number;
+  total: number;
+}
+
+export class NotificationServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'NotificationServiceError';
+  }
+}
+
 export class NotificationService {
-  private apiUrl: string;
+  private config: Required<NotificationServiceConfig>;
+  private userId: string | null = null;
 
-  constructor(apiUrl = '/api') {
-    this.apiUrl = apiUrl;
+  constructor(config: NotificationServiceConfig = {}) {
+    this.config = {
+      apiUrl: '/api',
+      timeout: 10000,
+      ...config,
+    };
+  }
 
-  async get<T>(endpoint: string): Promise<T> {
-    try {
-      const response = await fetch(this.apiUrl + endpoint);
-      if (!response.ok) {
-        throw new Error('HTTP ' + response.status);
-      return await response.json();
-    } catch (error) {
-      console.error('Service error:', error);
-      throw error;
+  /** Whose inbox to read */
+  setUser(userId: string | null): void {
+    this.userId = userId;
+  }
+
+  /** Newest first */
+  getNotifications(options: { unreadOnly?: boolean } = {}): Promise<NotificationPage> {
+    return this.request<NotificationPage>(`/notifications${options.unreadOnly ? '?unread=true' : ''}`);
+  }
+
+  markRead(id: string): Promise<Notification> {
+    return this.request<Notification>(`/notifications/${encodeURIComponent(id)}/read`, { method: 'POST' });
+  }
+
+  markAllRead(): Promise<void> {
+    return this.request<void>('/notifications/read-all', { method: 'POST' });
+  }
+
+  remove(id: string): Promise<void> {
+    return this.request<void>(`/notifications/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  private async request<T>(endpoint: string, options: { method?: string; body?: unknown } = {}): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.userId) {
+      headers['X-User-Id'] = this.userId;
+    }
 
-  async post<T>(endpoint: string, data): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout);
     try {
-      const response = await fetch(this.apiUrl + endpoint, {)
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(data);
+      const response = await fetch(`${this.config.apiUrl}${endpoint}`, {
+        method: options.method || 'GET',
+        headers,
+        body: options.body === undefined ? undefined : JSON.stringify(options.body),
+        signal: controller.signal,
+      });
       if (!response.ok) {
-        throw new Error('HTTP ' + response.status);
-      return await response.json();
-    } catch (error) {
-      console.error('Service error:', error);
-      throw error;
+        const payload = await response.json().catch(() => null);
+        throw new NotificationServiceError(payload?.message || `HTTP error! status: ${response.status}`, response.status);
+      }
+      return response.status === 204 ? (undefined as T) : response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
 
 export const notificationService = new NotificationService();
-export default notificationService;
\ No newline at end of file
+export default notificationService;
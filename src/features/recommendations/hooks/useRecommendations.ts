@@ -0,0 +1,201 @@
+// useRecommendations - ranked videos for the home and watch pages, with "Not interested" feedback and undo
+import { useCallback, useEffect, useState } from 'react';
+
+import { searchProviders } from '../../../../services/searchProviderRegistry';
+import { canonicalVideoId } from '../../../../services/searchProviders';
+import { recommendationService } from '../services/recommendationService';
+import type { ProviderVideo } from '../../../../services/searchProviders';
+import type { RecommendedVideo } from '../../../types/recommendation';
+
+/** The video recommendations are for; any video-shaped object will do */
+export type RecommendationSeed = Pick<ProviderVideo, 'id' | 'title'> & Partial<Pick<ProviderVideo, 'tags' | 'channelName' | 'category'>>;
+
+export interface RecommendationOptions {
+  /** The video being watched; leave out for the home page */
+  seed?: RecommendationSeed | null;
+  category?: string;
+  limit?: number;
+  userId?: string | null;
+}
+
+/** What the viewer last dismissed, so it can be undone */
+export type RecommendationFeedbackAction =
+  | { type: 'not-interested'; video: RecommendedVideo }
+  | { type: 'block-channel'; video: RecommendedVideo; removed: RecommendedVideo[] };
+
+// Words that say nothing about what a video is about
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'this', 'that', 'from', 'your', 'you', 'how', 'what', 'official', 'video', 'full', 'new',
+]);
+
+/** A search query from the video's most telling title words and first tag */
+export const buildRelatedQuery = (video: RecommendationSeed): string => {
+  const words = video.title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .slice(0, 3);
+  const tag = video.tags?.find(candidate => !words.includes(candidate.toLowerCase()));
+  return [...words, tag].filter(Boolean).join(' ') || video.channelName || video.category || '';
+};
+
+const fromProvider = (video: ProviderVideo, reason: RecommendedVideo['reason']): RecommendedVideo => ({
+  ...video,
+  channelId: video.channelId ?? '',
+  views: video.viewCount,
+  uploadedAt: video.publishedAt,
+  score: 0,
+  reason,
+});
+
+/**
+ * Videos to recommend next to `seed`, or on the home page without it. When
+ * the recommendation API can't be reached, related searches (or trending
+ * videos) from the search providers stand in, unpersonalised.
+ *
+ * Feedback removes videos from the list straight away and is undone with
+ * `undo` while `lastFeedback` is set; it needs `userId`.
+ */
+export function useRecommendations({ seed = null, category, limit = 20, userId = null }: RecommendationOptions = {}) {
+  const [videos, setVideos] = useState<RecommendedVideo[]>([]);
+  const [personalized, setPersonalized] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [lastFeedback, setLastFeedback] = useState<RecommendationFeedbackAction | null>(null);
+
+  useEffect(() => {
+    recommendationService.setUser(userId);
+  }, [userId]);
+
+  const seedId = seed ? canonicalVideoId(seed.id) : null;
+  const query = seed ? buildRelatedQuery(seed) : '';
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const fallback = async () => {
+      // One extra, in case the seed comes back too
+      const maxResults = limit + 1;
+      const results = query
+        ? await searchProviders.search(query, { maxResults, signal })
+        : await searchProviders.getTrending({ category, maxResults, signal });
+      return results
+        .filter(video => canonicalVideoId(video.id) !== seedId)
+        .slice(0, limit)
+        .map(video => fromProvider(video, query ? 'similar' : 'popular'));
+    };
+
+    setLoading(true);
+    setLastFeedback(null);
+    recommendationService
+      .getRecommendations({ videoId: seedId ?? undefined, category, limit }, signal)
+      .then(list => {
+        setPersonalized(list.personalized);
+        return list.videos;
+      })
+      .catch(err => {
+        if (signal.aborted) {
+          throw err;
+        }
+        setPersonalized(false);
+        return fallback();
+      })
+      .then(next => {
+        setVideos(next);
+        setError(null);
+      })
+      .catch(err => {
+        if (!signal.aborted) {
+          setError(err instanceof Error ? err : new Error('Could not load recommendations'));
+        }
+      })
+      .finally(() => {
+        if (!signal.aborted) {
+          setLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+    // The user ID is in the request headers
+  }, [seedId, query, category, limit, userId]);
+
+  const run = useCallback(async (action: () => Promise<void>, rollback: () => void) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      rollback();
+      setError(err instanceof Error ? err : new Error(String(err)));
+    }
+  }, []);
+
+  const markNotInterested = useCallback((video: RecommendedVideo) => {
+    const snapshot = videos;
+    setVideos(current => current.filter(candidate => candidate.id !== video.id));
+    setLastFeedback({ type: 'not-interested', video });
+    return run(() => recommendationService.setNotInterested(video.id, true), () => {
+      setVideos(snapshot);
+      setLastFeedback(null);
+    });
+  }, [run, videos]);
+
+  const blockChannel = useCallback((video: RecommendedVideo) => {
+    const snapshot = videos;
+    setVideos(current => current.filter(candidate => candidate.channelId !== video.channelId));
+    setLastFeedback({ type: 'block-channel', video, removed: videos.filter(candidate => candidate.channelId === video.channelId) });
+    return run(() => recommendationService.setChannelBlocked(video.channelId, true, video.channelName), () => {
+      setVideos(snapshot);
+      setLastFeedback(null);
+    });
+  }, [run, videos]);
+
+  /** Takes back the last feedback and puts its videos back where they were */
+  const undo = useCallback(() => {
+    if (!lastFeedback) {
+      return Promise.resolve();
+    }
+    const snapshot = videos;
+    const restored = lastFeedback.type === 'not-interested' ? [lastFeedback.video] : lastFeedback.removed;
+    setVideos(current => [...current, ...restored].sort((a, b) => b.score - a.score));
+    setLastFeedback(null);
+    const { video } = lastFeedback;
+    return run(
+      () => (lastFeedback.type === 'not-interested'
+        ? recommendationService.setNotInterested(video.id, false)
+        : recommendationService.setChannelBlocked(video.channelId, false)),
+      () => {
+        setVideos(snapshot);
+        setLastFeedback(lastFeedback);
+      }
+    );
+  }, [lastFeedback, run, videos]);
+
+  const dismissFeedback = useCallback(() => setLastFeedback(null), []);
+
+  return {
+    videos,
+    personalized,
+    loading,
+    error,
+    lastFeedback,
+    markNotInterested,
+    blockChannel,
+    undo,
+    dismissFeedback,
+  };
+}
+
+/** Adds `videoId` to the signed-in user's watch history once per visit */
+export function useRecordWatch(videoId: string | null | undefined, userId: string | null | undefined) {
+  useEffect(() => {
+    if (!videoId || !userId) {
+      return;
+    }
+    recommendationService.setUser(userId);
+    recommendationService.recordWatch(videoId).catch(() => {
+      // History is best effort; recommendations just stay less personal
+    });
+  }, [videoId, userId]);
+}
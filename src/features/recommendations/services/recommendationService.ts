@@ -0,0 +1,95 @@
+// recommendationService - ranked videos for the home and watch pages, watch history and "Not interested" feedback
+import type { RecommendationFeedback, RecommendationList, RecommendationQuery } from '../../../types/recommendation';
+
+export interface RecommendationServiceConfig {
+  apiUrl?: string;
+  timeout?: number;
+}
+
+export class RecommendationServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'RecommendationServiceError';
+  }
+}
+
+export class RecommendationService {
+  private config: Required<RecommendationServiceConfig>;
+  private userId: string | null = null;
+
+  constructor(config: RecommendationServiceConfig = {}) {
+    this.config = {
+      apiUrl: '/api',
+      timeout: 8000,
+      ...config,
+    };
+  }
+
+  /** Signed-in users get personalised lists and can record watches and feedback. */
+  setUser(userId: string | null): void {
+    this.userId = userId;
+  }
+
+  async getRecommendations({ videoId, category, limit }: RecommendationQuery = {}, signal?: AbortSignal): Promise<RecommendationList> {
+    const params = new URLSearchParams();
+    if (videoId) {
+      params.set('videoId', videoId);
+    }
+    if (category) {
+      params.set('category', category);
+    }
+    if (limit) {
+      params.set('limit', String(limit));
+    }
+    return this.request<RecommendationList>(`/recommendations?${params}`, { signal });
+  }
+
+  /** Adds a video to the signed-in user's watch history */
+  async recordWatch(videoId: string): Promise<void> {
+    await this.request<null>('/me/watches', { method: 'POST', body: JSON.stringify({ videoId }) });
+  }
+
+  async getFeedback(): Promise<RecommendationFeedback> {
+    return this.request<RecommendationFeedback>('/me/recommendation-feedback');
+  }
+
+  async setNotInterested(videoId: string, notInterested: boolean): Promise<void> {
+    await this.request(`/me/not-interested/${encodeURIComponent(videoId)}`, { method: notInterested ? 'PUT' : 'DELETE' });
+  }
+
+  async setChannelBlocked(channelId: string, blocked: boolean, channelName = ''): Promise<void> {
+    await this.request(`/me/blocked-channels/${encodeURIComponent(channelId)}`, {
+      method: blocked ? 'PUT' : 'DELETE',
+      body: blocked ? JSON.stringify({ channelName }) : undefined,
+    });
+  }
+
+  private async request<T>(endpoint: string, init: RequestInit = {}): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.userId) {
+      headers['X-User-Id'] = this.userId;
+    }
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    init.signal?.addEventListener('abort', abort);
+    const timer = setTimeout(abort, this.config.timeout);
+    try {
+      const response = await fetch(`${this.config.apiUrl}${endpoint}`, { ...init, headers, signal: controller.signal });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new RecommendationServiceError(payload?.message || `HTTP error! status: ${response.status}`, response.status);
+      }
+      return response.status === 204 ? (null as T) : response.json();
+    } finally {
+      clearTimeout(timer);
+      init.signal?.removeEventListener('abort', abort);
+    }
+  }
+}
+
+export const recommendationService = new RecommendationService();
+export default recommendationService;
@@ -1,14 +1,97 @@
-// AdvancedSearchFilters - Simple Component;
+// AdvancedSearchFilters - duration, upload date, type and category filters with how many results each leaves
 import React from 'react';
 
+import type { SearchFacets, SearchFilterValues } from '../../../types/search';
+
+export const FILTER_GROUPS = [
+  {
+    key: 'uploadDate',
+    label: 'Upload date',
+    options: [
+      { value: 'hour', label: 'Last hour' },
+      { value: 'today', label: 'Today' },
+      { value: 'week', label: 'This week' },
+      { value: 'month', label: 'This month' },
+      { value: 'year', label: 'This year' },
+    ],
+  },
+  {
+    key: 'videoType',
+    label: 'Type',
+    options: [
+      { value: 'video', label: 'Video' },
+      { value: 'short', label: 'Shorts' },
+      { value: 'live', label: 'Live' },
+    ],
+  },
+  {
+    key: 'duration',
+    label: 'Duration',
+    options: [
+      { value: 'short', label: 'Under 4 minutes' },
+      { value: 'medium', label: '4 - 20 minutes' },
+      { value: 'long', label: 'Over 20 minutes' },
+    ],
+  },
+] as const;
+
 export interface AdvancedSearchFiltersProps {
+  filters: SearchFilterValues;
+  facets?: SearchFacets;
+  onChange: (filters: SearchFilterValues) => void;
   className?: string;
-  children?: React.ReactNode, 
-
-export const AdvancedSearchFilters = (props: AdvancedSearchFiltersProps) => {
-  return React.createElement('div', {)
-    className: props.className, 
 }
-  }, props.children || 'Component ready');
 
-export default AdvancedSearchFilters;
\ No newline at end of file
+/**
+ * One column per filter; picking the active value again clears it. Counts
+ * come from the search facets, so values that would leave nothing are
+ * disabled.
+ */
+export const AdvancedSearchFilters: React.FC<AdvancedSearchFiltersProps> = ({ filters, facets, onChange, className = '' }) => {
+  const toggle = (key: keyof SearchFilterValues, value: string) =>
+    onChange({ ...filters, [key]: filters[key] === value ? undefined : value });
+
+  const option = (key: keyof SearchFilterValues, value: string, label: string, count: number | undefined) => {
+    const active = filters[key] === value;
+    return (
+      <li key={value}>
+        <button
+          type="button"
+          onClick={() => toggle(key, value)}
+          disabled={!active && facets !== undefined && !count}
+          aria-pressed={active}
+          className={`w-full text-left py-1 text-sm disabled:opacity-40 ${active ? 'font-semibold text-gray-900 dark:text-white' : 'text-gray-600 dark:text-gray-300 hover:text-gray-900'}`}
+        >
+          {label}
+          {facets && <span className="ml-1 text-xs text-gray-400">({count ?? 0})</span>}
+        </button>
+      </li>
+    );
+  };
+
+  const categories = Object.keys(facets?.category ?? {}).sort();
+  if (filters.category && !categories.includes(filters.category)) {
+    categories.push(filters.category);
+  }
+
+  return (
+    <div className={`grid grid-cols-2 gap-6 sm:grid-cols-4 ${className}`}>
+      {FILTER_GROUPS.map(group => (
+        <section key={group.key}>
+          <h4 className="mb-2 border-b border-gray-200 pb-2 text-xs font-medium uppercase text-gray-500 dark:border-gray-700">{group.label}</h4>
+          <ul>
+            {group.options.map(({ value, label }) =>
+              option(group.key, value, label, (facets?.[group.key] as Record<string, number> | undefined)?.[value])
+            )}
+          </ul>
+        </section>
+      ))}
+      <section>
+        <h4 className="mb-2 border-b border-gray-200 pb-2 text-xs font-medium uppercase text-gray-500 dark:border-gray-700">Category</h4>
+        <ul>{categories.map(category => option('category', category, category, facets?.category[category]))}</ul>
+      </section>
+    </div>
+  );
+};
+
+export default AdvancedSearchFilters;
@@ -0,0 +1,68 @@
+// useSearch - debounced video search that keeps facets in step with the results
+import { useCallback, useEffect, useState } from 'react';
+
+import { searchService } from '../services/searchService';
+import type { SearchFacets, SearchFilterValues, SearchResult, SearchSortBy } from '../../../types/search';
+
+// Typing in the search bar shouldn't send a request per keystroke
+const DEBOUNCE_MS = 250;
+
+const EMPTY_FACETS: SearchFacets = { duration: {}, uploadDate: {}, videoType: {}, category: {} };
+
+/**
+ * Results for `query` with `filters` and `sortBy` applied. Changing any of
+ * them starts over from the first page; `loadMore` appends the next one.
+ * An empty query lists the newest videos, so filters work on their own.
+ */
+export function useSearch(query: string, filters: SearchFilterValues, sortBy: SearchSortBy) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [facets, setFacets] = useState<SearchFacets>(EMPTY_FACETS);
+  const [total, setTotal] = useState(0);
+  const [nextPageToken, setNextPageToken] = useState<string | undefined>();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const { duration, uploadDate, videoType, category } = filters;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    const timer = setTimeout(() => {
+      searchService
+        .search({ q: query.trim(), duration, uploadDate, videoType, category, sortBy }, controller.signal)
+        .then(page => {
+          setResults(page.results);
+          setFacets(page.facets);
+          setTotal(page.total);
+          setNextPageToken(page.nextPageToken);
+          setError(null);
+        })
+        .catch(err => !controller.signal.aborted && setError(err instanceof Error ? err : new Error(String(err))))
+        .finally(() => !controller.signal.aborted && setLoading(false));
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, duration, uploadDate, videoType, category, sortBy]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextPageToken || loading) {
+      return;
+    }
+    setLoading(true);
+    try {
+      const page = await searchService.search({ q: query.trim(), duration, uploadDate, videoType, category, sortBy, pageToken: nextPageToken });
+      setResults(previous => [...previous, ...page.results]);
+      setNextPageToken(page.nextPageToken);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, [query, duration, uploadDate, videoType, category, sortBy, nextPageToken, loading]);
+
+  return { results, facets, total, loading, error, hasMore: Boolean(nextPageToken), loadMore };
+}
+
+export default useSearch;
@@ -1,51 +1,58 @@
-import React, { useState, useEffect, useRef, useCallback, useMemo, memo } from 'react';
-// searchService - Enhanced Service
+// searchService - full-text video search with filters, facets and highlighted results
+import type { SearchQuery, SearchResponse } from '../../../types/search';
+
 export interface SearchServiceConfig {
   apiUrl?: string;
   timeout?: number;
-  retries?: number, 
+}
+
+export class SearchServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'SearchServiceError';
+  }
+}
 
 export class SearchService {
-  private config: SearchServiceConfig,
+  private config: Required<SearchServiceConfig>;
 
   constructor(config: SearchServiceConfig = {}) {
     this.config = {
       apiUrl: '/api',
-      timeout: 5000,
-      retries: 3,
-      ...config, 
-
-  async fetchData<T>(endpoint: string): Promise<T> {
+      timeout: 10000,
+      ...config,
+    };
+  }
+
+  /** One page of results; pass `nextPageToken` back as `pageToken` for the next */
+  async search(query: SearchQuery, signal?: AbortSignal): Promise<SearchResponse> {
+    const params = new URLSearchParams({ type: 'video' });
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== '') {
+        params.set(key, String(value));
+      }
+    }
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    const timer = setTimeout(abort, this.config.timeout);
     try {
-      const response = await fetch(`${this.config.apiUrl}${endpoint}`, {)
-        method: 'GET', headers: {
-          'Content-Type': 'application/json';
-
+      const response = await fetch(`${this.config.apiUrl}/search?${params}`, { signal: controller.signal });
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-
-      return await response.json();
-    } catch (error) {
-      console.error('Service fetch error:', error);
-      throw error, 
-
-  async postData<T>(endpoint,: string, data): Promise<T> {
-    try :{
-      const response : await fetch(`${this.config.apiUrl}${endpoint}`, {)
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json';
-        }, body: JSON.stringify(data),;
-
-      if (!response,.o,k) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-
-      return await response.json();
-    } catch (error) {
-      console.error('Service post error:', error);
-      throw error, 
-
-
+        const payload = await response.json().catch(() => null);
+        throw new SearchServiceError(payload?.message || `HTTP error! status: ${response.status}`, response.status);
+      }
+      return response.json();
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+}
 
 export const searchService = new SearchService();
-export default searchService;
\ No newline at end of file
+export default searchService;
@@ -0,0 +1,96 @@
+// searchSuggestionService - autocomplete, trending queries and the signed-in user's search history
+import type { SearchHistoryEntry, SearchSuggestion, TrendingQuery } from '../../../types/search';
+
+export interface SearchSuggestionServiceConfig {
+  apiUrl?: string;
+  timeout?: number;
+}
+
+export class SearchSuggestionServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'SearchSuggestionServiceError';
+  }
+}
+
+export class SearchSuggestionService {
+  private config: Required<SearchSuggestionServiceConfig>;
+  private userId: string | null = null;
+
+  constructor(config: SearchSuggestionServiceConfig = {}) {
+    this.config = {
+      apiUrl: '/api',
+      timeout: 5000,
+      ...config,
+    };
+  }
+
+  /** Signed-in users get suggestions from their own history and can manage it. */
+  setUser(userId: string | null): void {
+    this.userId = userId;
+  }
+
+  /** Completions for `query`; an empty query gives recent and trending searches */
+  async getSuggestions(query: string, signal?: AbortSignal): Promise<SearchSuggestion[]> {
+    const { suggestions } = await this.request<{ suggestions: SearchSuggestion[] }>(
+      `/search/suggestions?q=${encodeURIComponent(query)}`,
+      { signal }
+    );
+    return suggestions;
+  }
+
+  async getTrending(limit = 10): Promise<TrendingQuery[]> {
+    const { queries } = await this.request<{ queries: TrendingQuery[] }>(`/search/trending?limit=${limit}`);
+    return queries;
+  }
+
+  /** Logs a submitted search; returns the new history entry when signed in */
+  async recordQuery(query: string): Promise<SearchHistoryEntry | null> {
+    return this.request<SearchHistoryEntry | null>('/search/queries', {
+      method: 'POST',
+      body: JSON.stringify({ query }),
+    });
+  }
+
+  async getHistory(): Promise<SearchHistoryEntry[]> {
+    const { history } = await this.request<{ history: SearchHistoryEntry[] }>('/search/history');
+    return history;
+  }
+
+  async deleteHistoryEntry(id: string): Promise<void> {
+    await this.request<null>(`/search/history/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  async clearHistory(): Promise<void> {
+    await this.request<null>('/search/history', { method: 'DELETE' });
+  }
+
+  private async request<T>(endpoint: string, init: RequestInit = {}): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.userId) {
+      headers['X-User-Id'] = this.userId;
+    }
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    init.signal?.addEventListener('abort', abort);
+    const timer = setTimeout(abort, this.config.timeout);
+    try {
+      const response = await fetch(`${this.config.apiUrl}${endpoint}`, { ...init, headers, signal: controller.signal });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new SearchSuggestionServiceError(payload?.message || `HTTP error! status: ${response.status}`, response.status);
+      }
+      return response.status === 204 ? (null as T) : response.json();
+    } finally {
+      clearTimeout(timer);
+      init.signal?.removeEventListener('abort', abort);
+    }
+  }
+}
+
+export const searchSuggestionService = new SearchSuggestionService();
+export default searchSuggestionService;
@@ -10,6 +10,7 @@ export { useLocalStorage } from './useLocalStorage';
 export { useDropdownMenu } from './useDropdownMenu';
 export { useOptimizedVideoData } from './useOptimizedVideoData';
 export { useWatchPage } from './useWatchPage';
+export { useResumableUpload } from './useResumableUpload';
 
 // Video hooks;
 export { useVideoPlayer } from './useVideoPlayer';
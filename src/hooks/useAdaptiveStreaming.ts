@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { AdaptiveStreamingPlayer, isAdaptiveSource } from '../../utils/adaptiveStreaming';
+
+import type { AdaptiveStreamingConfig, PlaybackStats } from '../../utils/adaptiveStreaming';
+import type { Rendition } from '../../utils/manifestParser';
+
+export interface UseAdaptiveStreamingResult {
+  /** Whether `src` is an HLS/DASH manifest rather than a progressive file */
+  isAdaptive: boolean;
+  renditions: Rendition[];
+  currentRendition: Rendition | null;
+  /** 'auto' or the id of the pinned rendition */
+  quality: string;
+  setQuality: (quality: string) => void;
+  stats: PlaybackStats | null;
+  error: Error | null;
+}
+
+/**
+ * Attaches an HLS/DASH source to a video element through
+ * {@link AdaptiveStreamingPlayer}. Progressive URLs (MP4, WebM) are set on the
+ * element directly.
+ */
+export function useAdaptiveStreaming(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  src: string | undefined,
+  config?: AdaptiveStreamingConfig
+): UseAdaptiveStreamingResult {
+  const playerRef = useRef<AdaptiveStreamingPlayer | null>(null);
+  const configRef = useRef(config);
+  const [renditions, setRenditions] = useState<Rendition[]>([]);
+  const [currentRendition, setCurrentRendition] = useState<Rendition | null>(null);
+  const [quality, setQualityState] = useState('auto');
+  const [stats, setStats] = useState<PlaybackStats | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const isAdaptive = !!src && isAdaptiveSource(src);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    setRenditions([]);
+    setCurrentRendition(null);
+    setQualityState('auto');
+    setStats(null);
+    setError(null);
+
+    if (!video || !src) {
+      return;
+    }
+    if (!isAdaptive) {
+      video.src = src;
+      return;
+    }
+
+    const player = new AdaptiveStreamingPlayer(video, configRef.current);
+    playerRef.current = player;
+    const unsubscribe = [
+      player.on('manifest', manifest => setRenditions(manifest.video)),
+      player.on('renditionchange', setCurrentRendition),
+      player.on('stats', setStats),
+      player.on('error', setError),
+    ];
+
+    player.load(src).catch((err: unknown) => {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    });
+
+    return () => {
+      unsubscribe.forEach(off => off());
+      player.destroy();
+      playerRef.current = null;
+    };
+  }, [videoRef, src, isAdaptive]);
+
+  const setQuality = useCallback((next: string) => {
+    const player = playerRef.current;
+    if (!player) {
+      return;
+    }
+    setQualityState(next);
+    player.setQuality(next).catch((err: unknown) => {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    });
+  }, []);
+
+  return { isAdaptive, renditions, currentRendition, quality, setQuality, stats, error };
+}
+
+export default useAdaptiveStreaming;
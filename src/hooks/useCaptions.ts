@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { getActiveCues, getCaptionFormat, parseCaptions } from '../../utils/captionParser';
+
+import type { CaptionCue, CaptionTrackData } from '../../utils/captionParser';
+import type { VideoCaption } from '../../utils/playerUtils';
+
+export interface CaptionDisplaySettings {
+  /** Multiplier on the default caption size */
+  fontScale: number;
+  /** Opacity of the box behind the text, 0–1 */
+  backgroundOpacity: number;
+}
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionDisplaySettings = {
+  fontScale: 1,
+  backgroundOpacity: 0.75,
+};
+
+const SETTINGS_STORAGE_KEY = 'captionSettings';
+
+function loadSettings(): CaptionDisplaySettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_CAPTION_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CAPTION_SETTINGS;
+  } catch {
+    return DEFAULT_CAPTION_SETTINGS;
+  }
+}
+
+export interface UseCaptionsResult {
+  /** Tracks that can be loaded, i.e. those with a URL */
+  tracks: VideoCaption[];
+  /** null while captions are off */
+  activeTrackId: string | null;
+  setActiveTrack: (id: string | null) => void;
+  track: CaptionTrackData | null;
+  activeCues: CaptionCue[];
+  loading: boolean;
+  error: Error | null;
+  settings: CaptionDisplaySettings;
+  updateSettings: (updates: Partial<CaptionDisplaySettings>) => void;
+}
+
+/**
+ * Loads and parses the selected WebVTT/SRT track and reports the cues showing
+ * at `currentTime`. Parsed tracks are cached, so switching back to a language
+ * does not refetch it. Display settings persist across sessions.
+ */
+export function useCaptions(captions: VideoCaption[], currentTime: number): UseCaptionsResult {
+  const tracks = useMemo(() => captions.filter(caption => !!caption.url), [captions]);
+  const cacheRef = useRef(new Map<string, CaptionTrackData>());
+  const [activeTrackId, setActiveTrackId] = useState<string | null>(null);
+  const [track, setTrack] = useState<CaptionTrackData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [settings, setSettings] = useState(loadSettings);
+
+  // A new video starts with its default track, if it has one
+  useEffect(() => {
+    cacheRef.current.clear();
+    setActiveTrackId(tracks.find(caption => caption.isDefault)?.id ?? null);
+  }, [tracks]);
+
+  useEffect(() => {
+    const caption = tracks.find(candidate => candidate.id === activeTrackId);
+    setError(null);
+    if (!caption?.url) {
+      setTrack(null);
+      return;
+    }
+    const cached = cacheRef.current.get(caption.id);
+    if (cached) {
+      setTrack(cached);
+      return;
+    }
+
+    const controller = new AbortController();
+    const url = caption.url;
+    setLoading(true);
+    fetch(url, { signal: controller.signal })
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Failed to load captions (HTTP ${response.status})`);
+        }
+        return response.text();
+      })
+      .then(text => {
+        const parsed = parseCaptions(text, caption.format ?? getCaptionFormat(url));
+        cacheRef.current.set(caption.id, parsed);
+        setTrack(parsed);
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        setTrack(null);
+        setError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [tracks, activeTrackId]);
+
+  const activeCues = useMemo(() => (track ? getActiveCues(track.cues, currentTime) : []), [track, currentTime]);
+
+  const updateSettings = useCallback((updates: Partial<CaptionDisplaySettings>) => {
+    setSettings(previous => {
+      const next = { ...previous, ...updates };
+      try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // Storage may be full or disabled; the settings still apply for this session
+      }
+      return next;
+    });
+  }, []);
+
+  return {
+    tracks,
+    activeTrackId,
+    setActiveTrack: setActiveTrackId,
+    track,
+    activeCues,
+    loading,
+    error,
+    settings,
+    updateSettings,
+  };
+}
+
+export default useCaptions;
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  deleteDownload,
+  downloadVideo,
+  getDownloads,
+  getOfflineUsage,
+  pauseDownload,
+  purgeExpiredDownloads,
+  resumeDownload,
+  resumeInterruptedDownloads,
+  subscribeToDownloads
+} from '../utils/offlineStorage';
+
+import type { OfflineDownload, OfflineUsage, OfflineVideoMeta } from '../utils/offlineStorage';
+
+// Housekeeping shared by every consumer, run once per page load
+let restored: Promise<unknown> | null = null;
+
+/**
+ * Offline downloads with live progress. Expired downloads are purged and
+ * downloads cut off by a reload resume when the first consumer mounts.
+ */
+export function useOfflineDownloads() {
+  const [downloads, setDownloads] = useState<OfflineDownload[]>([]);
+  const [usage, setUsage] = useState<OfflineUsage>({ used: 0, limit: 0 });
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshUsage = useCallback(() => {
+    getOfflineUsage().then(setUsage).catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const unsubscribe = subscribeToDownloads(next => {
+      if (!cancelled) {
+        setDownloads(next);
+        refreshUsage();
+      }
+    });
+    if (!restored) {
+      restored = purgeExpiredDownloads().then(() => resumeInterruptedDownloads());
+      restored.catch(() => {
+        restored = null;
+      });
+    }
+    restored
+      .then(() => getDownloads())
+      .then(loaded => {
+        if (!cancelled) {
+          setDownloads(loaded);
+          refreshUsage();
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Offline storage is unavailable');
+        }
+      });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [refreshUsage]);
+
+  const run = useCallback(async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  return {
+    downloads,
+    usage,
+    error,
+    download: useCallback((meta: OfflineVideoMeta) => run(() => downloadVideo(meta)), [run]),
+    pause: useCallback((videoId: string) => run(() => pauseDownload(videoId)), [run]),
+    resume: useCallback((videoId: string) => run(() => resumeDownload(videoId)), [run]),
+    remove: useCallback((videoId: string) => run(() => deleteDownload(videoId)), [run]),
+    getDownload: useCallback((videoId: string) => downloads.find(item => item.videoId === videoId), [downloads])
+  };
+}
+
+export default useOfflineDownloads;
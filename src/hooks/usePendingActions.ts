@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+
+import { subscribeToPendingCount } from '../utils/syncOutbox';
+
+/** Number of user actions waiting in the sync outbox to reach the server. */
+export function usePendingActions(): number {
+  const [count, setCount] = useState(0);
+
+  useEffect(() => subscribeToPendingCount(setCount), []);
+
+  return count;
+}
+
+export default usePendingActions;
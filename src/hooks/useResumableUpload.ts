@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { uploadVideo } from '../../utils/uploadUtils';
+
+import type { ResumableUploadStatus } from '../../utils/resumableUpload';
+import type {
+  UploadController,
+  UploadProgress,
+  UploadResponse,
+  VideoUploadData,
+} from '../../utils/uploadUtils';
+
+export interface UseResumableUploadOptions {
+  chunkSize?: number;
+  onComplete?: (response: UploadResponse) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface UseResumableUploadResult {
+  status: ResumableUploadStatus;
+  progress: UploadProgress | null;
+  error: Error | null;
+  uploadId: string | null;
+  start: (data: VideoUploadData) => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => Promise<void>;
+}
+
+/**
+ * Drives a tus upload from a component. Starting an upload for a file that
+ * was interrupted earlier (even before a reload) picks up from the offset
+ * the server already has.
+ */
+export function useResumableUpload(
+  options: UseResumableUploadOptions = {}
+): UseResumableUploadResult {
+  const [status, setStatus] = useState<ResumableUploadStatus>('idle');
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [uploadId, setUploadId] = useState<string | null>(null);
+  const controllerRef = useRef<UploadController | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const start = useCallback((data: VideoUploadData) => {
+    controllerRef.current?.pause();
+    setError(null);
+    setProgress(null);
+    setUploadId(null);
+
+    controllerRef.current = uploadVideo(data, {
+      ...(optionsRef.current.chunkSize && { chunkSize: optionsRef.current.chunkSize }),
+      onProgress: setProgress,
+      onStatusChange: setStatus,
+      onComplete: response => {
+        setUploadId(response.uploadId ?? null);
+        optionsRef.current.onComplete?.(response);
+      },
+      onError: uploadError => {
+        setError(uploadError);
+        optionsRef.current.onError?.(uploadError);
+      },
+    });
+  }, []);
+
+  const pause = useCallback(() => {
+    controllerRef.current?.pause();
+  }, []);
+
+  const resume = useCallback(() => {
+    setError(null);
+    void controllerRef.current?.resume();
+  }, []);
+
+  const cancel = useCallback(async () => {
+    await controllerRef.current?.cancel();
+    controllerRef.current = null;
+    setProgress(null);
+  }, []);
+
+  // Leaving the page pauses rather than cancels, so the upload can resume later
+  useEffect(() => () => controllerRef.current?.pause(), []);
+
+  return { status, progress, error, uploadId, start, pause, resume, cancel };
+}
+
+export default useResumableUpload;
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+
+import { loadStoryboard, preloadStoryboardSheets } from '../../utils/storyboard';
+
+import type { StoryboardFrame } from '../../utils/storyboard';
+
+/**
+ * Loads a storyboard thumbnail index. Pass `enabled: false` to defer the
+ * request, e.g. until a card is hovered. A missing or broken storyboard just
+ * yields no frames; previews are optional.
+ */
+export function useStoryboard(url: string | undefined, enabled = true): StoryboardFrame[] {
+  const [frames, setFrames] = useState<StoryboardFrame[]>([]);
+
+  useEffect(() => {
+    setFrames([]);
+  }, [url]);
+
+  useEffect(() => {
+    if (!url || !enabled) {
+      return;
+    }
+    let cancelled = false;
+    loadStoryboard(url)
+      .then(loaded => {
+        if (!cancelled) {
+          preloadStoryboardSheets(loaded);
+          setFrames(loaded);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setFrames([]);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url, enabled]);
+
+  return frames;
+}
+
+export default useStoryboard;
@@ -1,64 +1,66 @@
-import React from 'react';
-// useTrendingSearch - Clean Hook Implementation;
-import { useState, useEffect, useCallback } from 'react';
+// useTrendingSearch - queries trending right now, kept in the app store for the search bar
+import { useCallback, useEffect, useState } from 'react';
+
+import { useAppStore } from '../../store';
+import { searchSuggestionService } from '../features/search/services/searchSuggestionService';
+import type { TrendingQuery } from '../types/search';
+
+// Trending scores decay over hours; there is no point asking more often
+const REFRESH_MS = 5 * 60 * 1000;
 
 export interface UseTrendingSearchOptions {
   enabled?: boolean;
-  onSuccess?: (data: any) => void;
-  onError?: (error: Error) => void}
-
+  limit?: number;
+  onSuccess?: (data: TrendingQuery[]) => void;
+  onError?: (error: Error) => void;
+}
 
 export interface UseTrendingSearchResult {
-  data;
-  loading: boolean,
+  data: TrendingQuery[];
+  loading: boolean;
   error: Error | null;
-      refetch: () => void}
+  refetch: () => void;
+}
 
+/**
+ * Most-searched queries, weighted towards the last few hours. Refreshes every
+ * few minutes while mounted and shares its result through the store's
+ * `search.trending`.
+ */
+export function useTrendingSearch(options: UseTrendingSearchOptions = {}): UseTrendingSearchResult {
+  const { enabled = true, limit = 10, onSuccess, onError } = options;
 
-export function useTrendingSearch(;)
-  options: UseTrendingSearchOptions = {});
-): UseTrendingSearchResult {
-  const { enabled = true, onSuccess, onError } = options;
-  
-  const [data, setData] = useState<any>(null);
+  const data = useAppStore(state => state.search.trending);
+  const setTrending = useAppStore(state => state.setTrendingQueries);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
-  const fetchData = useCallback(async () => {)
-    if (!enabled) return;
-
+  const fetchData = useCallback(async () => {
+    if (!enabled) {
+      return;
+    }
+    setLoading(true);
     try {
-      setLoading(true);
+      const result = await searchSuggestionService.getTrending(limit);
+      setTrending(result);
       setError(null);
-      
-      // Simulate async operation;
-      await new Promise(resolve,: unknow,n,: unknown=> setTimeout(resolve, 300)), 
-      
-      const result = {
-        hookName: 'useTrendingSearch'}
-        timestamp: Date.now(),;
-        success: true,;
-      
-      setData(result);
       onSuccess?.(result);
-    } ,catch (err) {
-      const error = err instanceof Error ? err : new Error('Unknown error');
-      setError(error);
-      onError?.(error)}
+    } catch (err) {
+      const next = err instanceof Error ? err : new Error('Unknown error');
+      setError(next);
+      onError?.(next);
     } finally {
-      setLoading(false)}
-
-  }, [enabled, onSuccess, onError]);
-
-  useEffect(() => {)
-    fetchData()}
-  ,}, [fetchData]);
+      setLoading(false);
+    }
+  }, [enabled, limit, setTrending, onSuccess, onError]);
 
-  return {
-    data,
-    loading,
-    error,
-    refetch: fetchData}
+  useEffect(() => {
+    fetchData();
+    const timer = setInterval(fetchData, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [fetchData]);
 
+  return { data, loading, error, refetch: fetchData };
+}
 
-export default useTrendingSearch;
\ No newline at end of file
+export default useTrendingSearch;
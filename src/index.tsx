@@ -1,12 +1,13 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import './index.css';
+
+import '../index.css';
 import App from './App';
 
-const root = ReactDOM.createRoot(;)
-  document.getElementById('root') as HTMLElement;
+const root = ReactDOM.createRoot(document.getElementById('root') as HTMLElement);
 
-root.render(;)
+root.render(
   <React.StrictMode>
     <App />
-  </React.StrictMode>
\ No newline at end of file
+  </React.StrictMode>
+);
@@ -1,69 +1,209 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
+
+import { useProcessingQueue } from '../features/creator/hooks/useProcessingQueue';
+import { formatRelativeTime } from '../utils/dateUtils';
+
+import type { ProcessingJob, StudioVideo } from '../features/creator/types';
+
+const STATUS_STYLES: Record<string, string> = {
+  uploaded: 'bg-blue-100 text-blue-700',
+  processed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  rejected: 'bg-red-100 text-red-700',
+  deleted: 'bg-gray-100 text-gray-600',
+};
+
+const JOB_LABELS: Record<ProcessingJob['status'], string> = {
+  queued: 'Queued',
+  running: 'Processing',
+  retrying: 'Waiting to retry',
+  completed: 'Done',
+  dead: 'Failed',
+};
+
+const ProcessingCell: React.FC<{
+  video: StudioVideo;
+  job: ProcessingJob | undefined;
+  onRetry: (jobId: string) => void;
+}> = ({ video, job, onRetry }) => {
+  if (!job) {
+    return <span className="text-sm text-gray-500">—</span>;
+  }
+
+  const percent = Math.round(job.progress * 100);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className={job.status === 'dead' ? 'text-red-600' : 'text-gray-700'}>
+          {JOB_LABELS[job.status]}
+          {job.step && job.status === 'running' ? ` · ${job.step}` : ''}
+        </span>
+        {job.status !== 'completed' && <span className="text-gray-500">{percent}%</span>}
+      </div>
+      {job.status !== 'completed' && job.status !== 'dead' && (
+        <div className="w-full bg-gray-200 rounded-full h-1.5">
+          <div
+            className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+      {job.error && (
+        <p className="text-xs text-red-600" title={job.failures.map(f => `#${f.attempt} ${f.step}: ${f.message}`).join('\n')}>
+          Attempt {job.attempts}/{job.maxAttempts}: {job.error}
+        </p>
+      )}
+      {(job.status === 'dead' || job.status === 'retrying') && (
+        <button
+          onClick={() => onRetry(job.id)}
+          className="text-xs text-blue-600 hover:text-blue-800"
+          aria-label={`Retry processing ${video.title}`}
+        >
+          Retry now
+        </button>
+      )}
+    </div>
+  );
+};
 
 const ContentManagerPage: React.FC = () => {
-  const [activeTab, setActiveTab] = useState('videos'), 
+  const [activeTab, setActiveTab] = useState('videos');
+  const [retryError, setRetryError] = useState<string | null>(null);
+  const { videos, jobs, loading, error, retryJob } = useProcessingQueue({
+    enabled: activeTab === 'videos',
+  });
+
+  const jobsById = useMemo(() => new Map(jobs.map(job => [job.id, job])), [jobs]);
+  const queueCounts = useMemo(
+    () =>
+      jobs.reduce<Record<string, number>>((counts, job) => {
+        counts[job.status] = (counts[job.status] || 0) + 1;
+        return counts;
+      }, {}),
+    [jobs]
+  );
+
+  const tabClass = (tab: string) =>
+    `px-4 py-2 rounded ${activeTab === tab ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`;
 
   return (
-    <div />className="content-manager-page"></div />
-      <div />className="container mx-auto px-4 py-8"></div />
-        <h1 />className="text-3xl font-bold mb-6">Content Manager</h1 />
-        <div />className="mb-6"></div />
-          <nav />className="flex space-x-4" />
-            <butto />n />
-              onClick={() => setActiveTab('videos')}
-              className={`px-4 py-2 rounded ${activeTab === 'videos' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`, }
-            ">";
-              Videos;
-            </button></nav>
-            <butto />n />
-              onClick={() => setActiveTab('playlists')}
-              className={`px-4 py-2 rounded ${activeTab === 'playlists' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`, }
-            ">";
-              Playlists;
-            </button></div>
-            <butto />n />
-              onClick={() => setActiveTab('shorts')}
-              className={`px-4 py-2 rounded ${activeTab === 'shorts' ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`, }
-            ">";
-              Shorts;
-            </button></div>
-          </nav></div>
+    <div className="content-manager-page">
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-6">Content Manager</h1>
+        <div className="mb-6">
+          <nav className="flex space-x-4">
+            <button onClick={() => setActiveTab('videos')} className={tabClass('videos')}>
+              Videos
+            </button>
+            <button onClick={() => setActiveTab('playlists')} className={tabClass('playlists')}>
+              Playlists
+            </button>
+            <button onClick={() => setActiveTab('shorts')} className={tabClass('shorts')}>
+              Shorts
+            </button>
+          </nav>
         </div>
-        <div />className="bg-white rounded-lg shadow-md p-6"></div />
-          {activeTab === 'videos' && ()
-            <di />v />
-              <h2 />className="text-xl font-semibold mb-4">Your Videos</h2 />
-              <p />className="text-gray-600">Manage your uploaded videos, edit metadata, and view analytics.</p />
-              <div />className="mt-4"></div />
-                <button />className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600 mr-2"></button />
-                  Upload Video;
-                </button>
-                <button />className="bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600"></button />
-                  Bulk Actions, 
-                </button>
+        <div className="bg-white rounded-lg shadow-md p-6">
+          {activeTab === 'videos' && (
+            <div>
+              <h2 className="text-xl font-semibold mb-4">Your Videos</h2>
+              <p className="text-gray-600">Manage your uploaded videos, edit metadata, and view analytics.</p>
+
+              <div className="mt-4 flex flex-wrap gap-4 text-sm text-gray-600">
+                <span>Queued: {queueCounts.queued || 0}</span>
+                <span>Processing: {queueCounts.running || 0}</span>
+                <span>Retrying: {queueCounts.retrying || 0}</span>
+                <span className={queueCounts.dead ? 'text-red-600 font-medium' : ''}>
+                  Failed: {queueCounts.dead || 0}
+                </span>
               </div>
+
+              {error && <p className="mt-4 text-sm text-red-600">{error.message}</p>}
+              {retryError && <p className="mt-4 text-sm text-red-600">{retryError}</p>}
+
+              {loading && videos.length === 0 ? (
+                <p className="mt-6 text-gray-500">Loading videos…</p>
+              ) : videos.length === 0 ? (
+                <p className="mt-6 text-gray-500">No uploads yet.</p>
+              ) : (
+                <table className="mt-6 w-full text-left">
+                  <thead>
+                    <tr className="text-sm text-gray-500 border-b">
+                      <th className="py-2 pr-4 font-medium">Video</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 pr-4 font-medium w-1/3">Processing</th>
+                      <th className="py-2 font-medium">Uploaded</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {videos.map(video => (
+                      <tr key={video.id} className="border-b last:border-0 align-top">
+                        <td className="py-3 pr-4">
+                          <div className="flex items-center gap-3">
+                            {video.thumbnailUrl ? (
+                              <img src={video.thumbnailUrl} alt="" className="w-24 h-14 object-cover rounded" />
+                            ) : (
+                              <div className="w-24 h-14 bg-gray-200 rounded" />
+                            )}
+                            <div>
+                              <p className="font-medium">{video.title}</p>
+                              <p className="text-xs text-gray-500">{video.visibility}</p>
+                            </div>
+                          </div>
+                        </td>
+                        <td className="py-3 pr-4">
+                          <span className={`px-2 py-1 rounded text-xs ${STATUS_STYLES[video.uploadStatus || ''] || 'bg-gray-100 text-gray-600'}`}>
+                            {video.uploadStatus || 'unknown'}
+                          </span>
+                        </td>
+                        <td className="py-3 pr-4">
+                          <ProcessingCell
+                            video={video}
+                            job={video.jobId ? jobsById.get(video.jobId) : undefined}
+                            onRetry={jobId => {
+                              setRetryError(null);
+                              // 409 when the job started or finished in the meantime
+                              retryJob(jobId).catch((err: unknown) => {
+                                setRetryError(err instanceof Error ? err.message : 'Could not retry processing');
+                              });
+                            }}
+                          />
+                        </td>
+                        <td className="py-3 text-sm text-gray-500">{formatRelativeTime(video.publishedAt)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
             </div>
-{activeTab === 'playlists' && ()
-            <di />v />
-              <h2 />className="text-xl font-semibold mb-4">Your Playlists</h2 />
-              <p />className="text-gray-600">Create and manage your video playlists.</p />
-              <div />className="mt-4"></div />
-                <button />className="bg-green-500 text-white px-4 py-2 rounded hover:bg-green-600"></button />
-                  Create Playlist, 
+          )}
+          {activeTab === 'playlists' && (
+            <div>
+              <h2 className="text-xl font-semibold mb-4">Your Playlists</h2>
+              <p className="text-gray-600">Create and manage your video playlists.</p>
+              <div className="mt-4">
+                <button className="bg-green-500 text-white px-4 py-2 rounded hover:bg-green-600">
+                  Create Playlist
                 </button>
               </div>
             </div>
-{activeTab === 'shorts' && ()
-            <di />v />
-              <h2 />className="text-xl font-semibold mb-4">Your Shorts</h2 />
-              <p />className="text-gray-600">Manage your YouTube Shorts content.</p />
-              <div />className="mt-4"></div />
-                <button />className="bg-purple-500 text-white px-4 py-2 rounded hover:bg-purple-600"></button />
-                  Create Short, 
+          )}
+          {activeTab === 'shorts' && (
+            <div>
+              <h2 className="text-xl font-semibold mb-4">Your Shorts</h2>
+              <p className="text-gray-600">Manage your YouTube Shorts content.</p>
+              <div className="mt-4">
+                <button className="bg-purple-500 text-white px-4 py-2 rounded hover:bg-purple-600">
+                  Create Short
                 </button>
               </div>
             </div>
+          )}
         </div>
-  <di />v /></div /></div />
+      </div>
     </div>
-export default ContentManagerPage;
\ No newline at end of file
+  );
+};
+
+export default ContentManagerPage;
@@ -1,22 +1,149 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { liveStreamService } from '../../services/livestreamAPI';
+import ComprehensiveLiveStudio from '../features/livestream/components/ComprehensiveLiveStudio';
+import LiveStreamViewer from '../features/livestream/components/LiveStreamViewer';
+import MultiplatformStreaming from '../features/livestream/components/MultiplatformStreaming';
+import StreamManagementDashboard from '../features/livestream/components/StreamManagementDashboard';
+import StreamScheduler from '../features/livestream/components/StreamScheduler';
+import type { LiveStream } from '../types/livestream';
+
 /**
- * GoLivePage component for starting and managing live streams;
+ * GoLivePage - create or schedule a live stream, then broadcast from the browser studio or point an encoder at it
  */
 const GoLivePage: React.FC = () => {
+ const { user } = useAuth();
+ const [streams, setStreams] = useState<LiveStream[]>([]);
+ const [selectedId, setSelectedId] = useState<string | null>(null);
+ const [title, setTitle] = useState('');
+ const [enableRecording, setEnableRecording] = useState(true);
+ const [creating, setCreating] = useState(false);
+ const [error, setError] = useState<string | null>(null);
+ const [source, setSource] = useState<'studio' | 'encoder'>('studio');
+
+ useEffect(() => {
+ if (!user) {
+ return;
+ }
+ let cancelled = false;
+ liveStreamService.setUser(user.id);
+ liveStreamService
+ .getMyStreams()
+ .then(mine => {
+ if (!cancelled) {
+ setStreams(mine);
+ setSelectedId(current => current ?? mine[0]?.id ?? null);
+ }
+ })
+ .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to load your streams'));
+ return () => {
+ cancelled = true;
+ };
+ }, [user]);
+
+ const handleCreate = async (event: React.FormEvent) => {
+ event.preventDefault();
+ if (!title.trim()) {
+ return;
+ }
+ setCreating(true);
+ setError(null);
+ try {
+ const stream = await liveStreamService.createStream({ title: title.trim(), enableRecording });
+ setStreams(prev => [stream, ...prev]);
+ setSelectedId(stream.id);
+ setTitle('');
+ } catch (err) {
+ setError(err instanceof Error ? err.message : 'Failed to create the stream');
+ } finally {
+ setCreating(false);
+ }
+ };
+
+ if (!user) {
+ return (
+ <div className="container mx-auto py-6">
+ <h1 className="text-2xl font-bold mb-6">Go Live</h1>
+ <p className="text-gray-600">Sign in to start a live stream.</p>
+ </div>
+ );
+ }
+
+ const viewer = { id: user.id, username: user.username };
+
  return (
- <div className={'containe}r mx-auto py-6'>
- <h1 className={'text}-2xl font-bold mb-6'>Go Live</h1>
- <p className={'text}-gray-600 mb-4'>Set up and manage your livestream</p>
- <div className={'p}-4 bg-blue-50 rounded-lg border border-blue-200 text-blue-700'>
- <p>
- This is a placeholder for the Go Live page that will allow you to set;
- up and manage your livestream.;
-// FIXED:  </p>
- <p className={'mt}-2'>
- For demonstration of video components, please visit the{' '}
- <strong>Video Demo</strong> page using the user menu dropdown.;
-// FIXED:  </p>
-// FIXED:  </div>
-// FIXED:  </div>
+ <div className="container mx-auto py-6 space-y-6">
+ <h1 className="text-2xl font-bold">Go Live</h1>
+
+ <form onSubmit={handleCreate} className="flex flex-wrap gap-2">
+ <input
+ value={title}
+ onChange={event => setTitle(event.target.value)}
+ placeholder="Stream title"
+ maxLength={100}
+ className="flex-1 min-w-[16rem] rounded border border-gray-300 px-3 py-2"
+ />
+ <label className="flex items-center gap-2 text-sm" title="Publish the broadcast as a video, with its chat replay, when it ends">
+ <input type="checkbox" checked={enableRecording} onChange={event => setEnableRecording(event.target.checked)} />
+ Save replay
+ </label>
+ <button
+ type="submit"
+ disabled={creating || !title.trim()}
+ className="rounded bg-red-600 px-4 py-2 text-white hover:bg-red-700 disabled:opacity-50"
+ >
+ {creating ? 'Creating…' : 'Create stream'}
+ </button>
+ </form>
+
+ {error && <p className="text-sm text-red-600">{error}</p>}
+
+ <StreamScheduler currentUser={viewer} onScheduled={stream => setStreams(prev => [stream, ...prev])} />
+
+ {streams.length > 0 && (
+ <div className="flex flex-wrap items-center gap-4">
+ <select
+ value={selectedId ?? ''}
+ onChange={event => setSelectedId(event.target.value)}
+ className="rounded border border-gray-300 px-3 py-2"
+ >
+ {streams.map(stream => (
+ <option key={stream.id} value={stream.id}>{stream.title}</option>
+ ))}
+ </select>
+ <div className="flex overflow-hidden rounded border border-gray-300 text-sm">
+ {(['studio', 'encoder'] as const).map(option => (
+ <button
+ key={option}
+ onClick={() => setSource(option)}
+ className={`px-3 py-2 ${source === option ? 'bg-gray-900 text-white' : 'hover:bg-gray-100'}`}
+ >
+ {option === 'studio' ? 'Browser studio' : 'Streaming software'}
+ </button>
+ ))}
+ </div>
+ </div>
+ )}
+
+ {selectedId && source === 'studio' && (
+ <ComprehensiveLiveStudio key={selectedId} streamId={selectedId} currentUser={viewer} />
+ )}
+
+ {selectedId && source === 'encoder' && (
+ <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+ <div className="space-y-6">
+ <StreamManagementDashboard streamId={selectedId} currentUser={viewer} />
+ <MultiplatformStreaming streamId={selectedId} currentUser={viewer} />
+ </div>
+ <div>
+ <h2 className="text-xl font-semibold mb-3">Preview</h2>
+ <LiveStreamViewer streamId={selectedId} currentUser={viewer} />
+ </div>
+ </div>
+ )}
+ </div>
+ );
+};
 
 export default GoLivePage;
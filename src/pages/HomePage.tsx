@@ -1,114 +1,128 @@
-import React, { useCallback, useMemo, useState, memo, _FC } from 'react';
+import React, { useCallback, useState } from 'react';
 
 import CategoryChips from '../../components/CategoryChips';
-import HoverAutoplayVideoCard from '../../components/HoverAutoplayVideoCard';
-import { useTrendingSearch } from '../hooks';
-import { getInitialSearchKeyword } from '../services/settingsService';
+import RecommendationFeedbackToast from '../../components/RecommendationFeedbackToast';
+import RecommendedVideoCard from '../../components/RecommendedVideoCard';
+import { useAuth } from '../../contexts/AuthContext';
+import { useRecommendations } from '../features/recommendations/hooks/useRecommendations';
 
-import type { Video } from '../types';
+const CATEGORIES = [
+  'All', 'Music', 'Gaming', 'Sports', 'News', 'Entertainment',
+  'Education', 'Technology', 'Travel', 'Food', 'Fashion',
+  'Comedy', 'Science', 'Health', 'Business',
+];
 
-// Memoized video card to prevent unnecessary re-renders;
-const MemoizedVideoCard = memo(HoverAutoplayVideoCard);
+const HOME_FEED_SIZE = 24;
 
-const HomePage: React._FC = () => {
-  const { data: videos, loading, error } = useTrendingSearch();
-  const [selectedCategory, setSelectedCategory] = useState<strin>g>('All');
-  const currentKeyword = getInitialSearchKeyword();
+/**
+ * The home feed: videos recommended from the viewer's watch history, or
+ * fresh and popular ones before there is any, filterable by category.
+ */
+const HomePage: React.FC = () => {
+  const userId = useAuth().user?.id ?? null;
+  const [selectedCategory, setSelectedCategory] = useState('All');
+  const {
+    videos,
+    personalized,
+    loading,
+    error,
+    lastFeedback,
+    markNotInterested,
+    blockChannel,
+    undo,
+    dismissFeedback,
+  } = useRecommendations({
+    category: selectedCategory === 'All' ? undefined : selectedCategory,
+    limit: HOME_FEED_SIZE,
+    userId,
+  });
 
-  const handleSelectCategory = useCallback((category: string) => {)
+  const handleSelectCategory = useCallback((category: string) => {
     setSelectedCategory(category);
-    window.scrollTo(0, 0), 
+    window.scrollTo(0, 0);
   }, []);
 
-  const filteredVideos = useMemo(() => {)
-    if (!videos || videos.length === 0) {
-      return [], 
-    if (selectedCategory === 'All') {
-      return videos, ;
-    return videos.filter((video: any) => video.category === selectedCategory);
-  }, [videos, selectedCategory]);
-
-  const categories = useMemo(() => [;)
-    'All', 'Music', 'Gaming', 'Sports', 'News', 'Entertainment',
-    'Education', 'Technology', 'Travel', 'Food', 'Fashion',;
-    'Comedy', 'Science', 'Health', 'Business';
-  ], []);
-
-  if (error) {
+  if (error && videos.length === 0) {
     return (
-      <div />className="min-h-screen bg-white dark:bg-gray-900 flex items-center justify-center"></div />
-        <div />className="text-center"></div />
-          <h1 />className="text-2xl font-bold text-gray-900 dark:text-white mb-2"></h1 />
-            Unable to load {currentKeyword} videos;
-          </h1>
-          <p />className="text-gray-600 dark:text-gray-400">{error}</p />
-          <p />className="text-sm text-gray-500 dark:text-gray-500 mt-2"></p />
-            Please check your internet connection and try again.;
+      <div className="min-h-screen bg-white dark:bg-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Unable to load recommendations</h1>
+          <p className="text-gray-600 dark:text-gray-400">{error.message}</p>
+          <p className="text-sm text-gray-500 dark:text-gray-500 mt-2">
+            Please check your internet connection and try again.
           </p>
         </div>
       </div>
+    );
+  }
+
   return (
-    <div />className="min-h-screen bg-white dark:bg-gray-900"></div />
+    <div className="min-h-screen bg-white dark:bg-gray-900">
       {/* Category Filter Bar - YouTube style */}
-      <div />className="sticky top-0 z-30 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700"></div />
-        <div />className="max-w-[1440px] mx-auto px-6 py-3"></div />
-          <CategoryChips />; />
-            categories={categories}
+      <div className="sticky top-0 z-30 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-[1440px] mx-auto px-6 py-3">
+          <CategoryChips
+            categories={CATEGORIES}
             selectedCategory={selectedCategory}
             onSelectCategory={handleSelectCategory}
-          /">"
+          />
         </div>
       </div>
+
       {/* Main Content */}
-      <div>className="max-w-[1440px] mx-auto px-6 py-6"></div>
-        {loading ,&& filteredVideos.length === 0 ? ()
-          /* Loading skeleton - YouTube grid style */
-          <di />v />
-            <div />className="flex items-center gap-2 mb-6"></div />
-              <div />className="text-sm text-gray-500 dark:text-gray-400"></div />
-                🔥 Loading {currentKeyword} videos...;
-              </div>
-            </div>
-            <div />className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-3 sm:gap-4 p-3 sm:p-4"></div />
-              {Array.from({ length: 12 },: Record<string>, unknown>).map((_: any, index: unknown) => ())
-          <div
-          key={index} className="animate-pulse"></div>
-                  <div />className="bg-gray-200 dark:bg-gray-700 rounded-xl mb-3 w-full h-[250px]" /></div />
-                  <div />className="flex gap-3"></div />
-                    <div />className="w-9 h-9 bg-gray-200 dark:bg-gray-700 rounded-full flex-shrink-0" /></div />
-                    <div />className="flex-1 space-y-2"></div />
-                      <div />className="h-4 bg-gray-200 dark:bg-gray-700 rounded" /></div />
-                      <div />className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-3/4" /></div />
-                      <div />className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/2" /></div />
-                    </div>
+      <div className="max-w-[1440px] mx-auto px-6 py-6">
+        {userId && !loading && !personalized && videos.length > 0 && (
+          <p className="px-3 sm:px-4 text-sm text-gray-500 dark:text-gray-400">
+            Watch a few videos and this feed will adapt to what you like.
+          </p>
+        )}
+
+        {loading && videos.length === 0 ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-3 sm:gap-4 p-3 sm:p-4">
+            {Array.from({ length: 12 }, (_, index) => (
+              <div key={index} className="animate-pulse">
+                <div className="bg-gray-200 dark:bg-gray-700 rounded-xl mb-3 w-full aspect-video" />
+                <div className="flex gap-3">
+                  <div className="w-9 h-9 bg-gray-200 dark:bg-gray-700 rounded-full flex-shrink-0" />
+                  <div className="flex-1 space-y-2">
+                    <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded" />
+                    <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-3/4" />
+                    <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/2" />
                   </div>
                 </div>
-            </div>
+              </div>
+            ))}
           </div>
-        ) : (;
-          /* Video Grid with Enhanced Hover Effects - YouTube style */
-          <div />className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-3 sm:gap-4 p-3 sm:p-4"></div />
-            {filteredVideos.map((video: Video) => ())
-          <MemoizedVideoCard>, 
-          key={video.id}
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-3 sm:gap-4 p-3 sm:p-4">
+            {videos.map(video => (
+              <RecommendedVideoCard
+                key={video.id}
                 video={video}
-                className="";
-              /">"
-            )){"}";
+                layout="grid"
+                onNotInterested={userId ? markNotInterested : undefined}
+                onBlockChannel={userId ? blockChannel : undefined}
+              />
+            ))}
           </div>
-{/* Empty State */};
-{!loading && filteredVideos.length === 0 && ()
-          <div />className="text-center py-12"></div />
-            <div />className="text-6xl mb-4">🔥</div />
-            <h2 />className="text-xl font-semibold mb-2 text-gray-900 dark:text-white"></h2 />
-              No {currentKeyword} videos found;
-            </h2>
-            <p />className="text-gray-600 dark:text-gray-400"></p />
+        )}
+
+        {/* Empty State */}
+        {!loading && videos.length === 0 && (
+          <div className="text-center py-12">
+            <h2 className="text-xl font-semibold mb-2 text-gray-900 dark:text-white">Nothing to recommend</h2>
+            <p className="text-gray-600 dark:text-gray-400">
               {selectedCategory === 'All'
-                ? `Unable to load ${currentKeyword} videos at the moment. Please try again later.`;
-                : `No ${currentKeyword} videos found for "${selectedCategory}". Try selecting another category.`, }
+                ? 'There are no videos to recommend at the moment. Please try again later.'
+                : `No videos to recommend in "${selectedCategory}". Try selecting another category.`}
             </p>
           </div>
+        )}
       </div>
+
+      <RecommendationFeedbackToast feedback={lastFeedback} onUndo={undo} onDismiss={dismissFeedback} />
     </div>
-export default HomePage;
\ No newline at end of file
+  );
+};
+
+export default HomePage;
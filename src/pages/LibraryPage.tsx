@@ -1,35 +1,220 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+
+import { ArrowDownTrayIcon, PauseIcon, PlayIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+import OfflineIndicator from '../../components/OfflineIndicator';
+import { formatFileSize } from '../../utils/formatters';
+import { useOfflineDownloads } from '../hooks/useOfflineDownloads';
+import { getOfflinePlaybackUrl, renewDownload } from '../utils/offlineStorage';
+
+import type { OfflineDownload } from '../utils/offlineStorage';
 
 interface LibraryPageProps {
   className?: string;
+}
+
+const LIBRARY_SECTIONS = [
+  { title: 'Watch Later', description: "Videos you've saved to watch later" },
+  { title: 'Liked Videos', description: "Videos you've liked" },
+  { title: 'History', description: "Videos you've watched" },
+  { title: 'Playlists', description: 'Your created playlists' },
+  { title: 'Subscriptions', description: "Channels you've subscribed to" }
+];
+
+const formatExpiry = (expiresAt: number): string => {
+  const days = Math.ceil((expiresAt - Date.now()) / (24 * 60 * 60 * 1000));
+  return days <= 1 ? 'Expires today' : `Expires in ${days} days`;
+};
+
+const statusLabel = (download: OfflineDownload): string => {
+  switch (download.status) {
+    case 'complete':
+      return download.expiresAt ? formatExpiry(download.expiresAt) : 'Downloaded';
+    case 'paused':
+      return 'Paused';
+    case 'error':
+      return download.error || 'Download failed';
+    case 'queued':
+      return 'Waiting to download';
+    default:
+      return download.size
+        ? `${formatFileSize(download.downloadedBytes)} of ${formatFileSize(download.size)}`
+        : `${formatFileSize(download.downloadedBytes)} downloaded`;
+  }
+};
+
+/** Plays a saved video from offline storage, renewing its expiry. */
+const OfflinePlayer: React.FC<{ download: OfflineDownload; onClose: () => void }> = ({ download, onClose }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getOfflinePlaybackUrl(download.videoId)
+      .then(url => {
+        if (url.startsWith('blob:')) {
+          objectUrl = url;
+        }
+        if (!cancelled) {
+          setSrc(url);
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unable to play this download');
+        }
+      });
+    renewDownload(download.videoId).catch(() => undefined);
+    return () => {
+      cancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [download.videoId]);
+
+  return (
+    <div className="mb-6 bg-black rounded-lg overflow-hidden">
+      {error ? (
+        <p className="p-6 text-center text-red-400">{error}</p>
+      ) : (
+        src && <video src={src} controls autoPlay className="w-full max-h-[70vh]" />
+      )}
+      <div className="flex items-center justify-between px-4 py-2 text-white">
+        <span className="font-medium truncate">{download.title}</span>
+        <button onClick={onClose} className="text-sm text-gray-300 hover:text-white">Close</button>
+      </div>
+    </div>
+  );
+};
+
+const DownloadsSection: React.FC = () => {
+  const { downloads, usage, error, pause, resume, remove } = useOfflineDownloads();
+  const [playing, setPlaying] = useState<OfflineDownload | null>(null);
+
+  return (
+    <section id="downloads" className="mb-10">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-2xl font-semibold flex items-center gap-2">
+          <ArrowDownTrayIcon className="w-6 h-6" />
+          Downloads
+        </h2>
+        {usage.limit > 0 && (
+          <div className="w-48 text-sm text-gray-600">
+            <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-600" style={{ width: `${Math.min(100, (usage.used / usage.limit) * 100)}%` }} />
+            </div>
+            <p className="mt-1">{formatFileSize(usage.used)} of {formatFileSize(usage.limit)} used</p>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+      {playing && <OfflinePlayer download={playing} onClose={() => setPlaying(null)} />}
+
+      {downloads.length === 0 ? (
+        <p className="text-gray-600">Videos you download are available here, even without a connection.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 bg-white rounded-lg shadow-md">
+          {downloads.map(download => {
+            const progress = download.size ? (download.downloadedBytes / download.size) * 100 : 0;
+            return (
+              <li key={download.id} className="flex items-center gap-4 p-4">
+                <button
+                  onClick={() => setPlaying(download)}
+                  disabled={download.status !== 'complete'}
+                  className="relative w-40 flex-shrink-0 aspect-video bg-gray-100 rounded overflow-hidden disabled:cursor-default"
+                  aria-label={`Play ${download.title}`}
+                >
+                  {download.thumbnail && <img src={download.thumbnail} alt="" className="w-full h-full object-cover" />}
+                  {download.duration && (
+                    <span className="absolute bottom-1 right-1 bg-black/75 text-white text-xs px-1 rounded">{download.duration}</span>
+                  )}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-medium line-clamp-2">{download.title}</h3>
+                  {download.channelName && <p className="text-sm text-gray-600">{download.channelName}</p>}
+                  <p className={`text-sm ${download.status === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+                    {statusLabel(download)}
+                  </p>
+                  {download.status !== 'complete' && (
+                    <div className="mt-2 h-1 bg-gray-200 rounded-full overflow-hidden">
+                      <div className="h-full bg-blue-600 transition-[width]" style={{ width: `${progress}%` }} />
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  {download.status === 'complete' && (
+                    <button onClick={() => setPlaying(download)} className="p-2 rounded-full hover:bg-gray-100" aria-label="Play">
+                      <PlayIcon className="w-5 h-5" />
+                    </button>
+                  )}
+                  {(download.status === 'downloading' || download.status === 'queued') && (
+                    <button onClick={() => pause(download.videoId)} className="p-2 rounded-full hover:bg-gray-100" aria-label="Pause download">
+                      <PauseIcon className="w-5 h-5" />
+                    </button>
+                  )}
+                  {(download.status === 'paused' || download.status === 'error') && (
+                    <button onClick={() => resume(download.videoId)} className="p-2 rounded-full hover:bg-gray-100" aria-label="Resume download">
+                      <ArrowDownTrayIcon className="w-5 h-5" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      if (playing?.id === download.id) {
+                        setPlaying(null);
+                      }
+                      remove(download.videoId);
+                    }}
+                    className="p-2 rounded-full hover:bg-gray-100"
+                    aria-label="Delete download"
+                  >
+                    <TrashIcon className="w-5 h-5" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
 
 const LibraryPage: React.FC<LibraryPageProps> = ({ className }) => {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
   return (
     <div className={`library-page ${className || ''}`}>
       <div className="container mx-auto px-4 py-8">
-        <h1 className="text-3xl font-bold mb-6">Library</h1>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          <div className="bg-white rounded-lg shadow-md p-6">
-            <h2 className="text-xl font-semibold mb-4">Watch Later</h2>
-            <p className="text-gray-600">Videos you've saved to watch later</p>
-          </div>
-          <div className="bg-white rounded-lg shadow-md p-6">
-            <h2 className="text-xl font-semibold mb-4">Liked Videos</h2>
-            <p className="text-gray-600">Videos you've liked</p>
-          </div>
-          <div className="bg-white rounded-lg shadow-md p-6">
-            <h2 className="text-xl font-semibold mb-4">History</h2>
-            <p className="text-gray-600">Videos you've watched</p>
-          </div>
-          <div className="bg-white rounded-lg shadow-md p-6">
-            <h2 className="text-xl font-semibold mb-4">Playlists</h2>
-            <p className="text-gray-600">Your created playlists</p>
-          </div>
-          <div className="bg-white rounded-lg shadow-md p-6">
-            <h2 className="text-xl font-semibold mb-4">Subscriptions</h2>
-            <p className="text-gray-600">Channels you've subscribed to</p>
-          </div>
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold">Library</h1>
+          <OfflineIndicator />
+        </div>
+        <DownloadsSection />
+        {/* The rest of the library needs the network */}
+        <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 ${isOnline ? '' : 'opacity-50 pointer-events-none'}`}>
+          {LIBRARY_SECTIONS.map(section => (
+            <div key={section.title} className="bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-semibold mb-4">{section.title}</h2>
+              <p className="text-gray-600">{section.description}</p>
+            </div>
+          ))}
         </div>
       </div>
     </div>
-export default LibraryPage;
\ No newline at end of file
+  );
+};
+
+export default LibraryPage;
@@ -0,0 +1,76 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { liveStreamService } from '../../services/livestreamAPI';
+import AdvancedLiveChat from '../features/livestream/components/AdvancedLiveChat';
+import LiveStreamViewer from '../features/livestream/components/LiveStreamViewer';
+import StreamWaitingRoom from '../features/livestream/components/StreamWaitingRoom';
+import { useLiveSocket } from '../features/livestream/hooks/useLiveSocket';
+import type { LiveSocketEvent } from '../features/livestream/services/liveSocket';
+import type { LiveStream, StreamPlayback } from '../types/livestream';
+
+/**
+ * LiveStreamPage - one stream for viewers: the waiting room before it starts,
+ * then the live player, then its replay
+ */
+const LiveStreamPage: React.FC = () => {
+ const { streamId = '' } = useParams<{ streamId: string }>();
+ const { user } = useAuth();
+ const [stream, setStream] = useState<LiveStream | null>(null);
+ const [loading, setLoading] = useState(true);
+ const [error, setError] = useState<string | null>(null);
+
+ useEffect(() => {
+ let cancelled = false;
+ setLoading(true);
+ liveStreamService.setUser(user?.id ?? null);
+ liveStreamService
+ .getStreamById(streamId)
+ .then(next => !cancelled && setStream(next))
+ .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to load the stream'))
+ .finally(() => !cancelled && setLoading(false));
+ return () => {
+ cancelled = true;
+ };
+ }, [streamId, user?.id]);
+
+ const viewer = user ? { id: user.id, username: user.username } : null;
+
+ // Leave the waiting room as soon as the broadcast starts
+ const handleEvent = useCallback((event: LiveSocketEvent) => {
+ if (event.type === 'stream' && (event as unknown as StreamPlayback).status === 'live') {
+ setStream(current => (current ? { ...current, status: 'live' } : current));
+ }
+ }, []);
+ useLiveSocket(streamId, viewer, handleEvent, stream?.status === 'scheduled');
+
+ if (loading) {
+ return <div className="container mx-auto py-6 text-gray-500">Loading stream…</div>;
+ }
+ if (error || !stream) {
+ return <div className="container mx-auto py-6 text-gray-600">{error || 'This stream does not exist or is private.'}</div>;
+ }
+
+ if (stream.status === 'scheduled' && stream.scheduledStartTime) {
+ return (
+ <div className="container mx-auto py-6">
+ <StreamWaitingRoom stream={stream} currentUser={viewer} />
+ </div>
+ );
+ }
+
+ return (
+ <div className="container mx-auto grid grid-cols-1 gap-6 py-6 lg:grid-cols-3">
+ <div className="space-y-3 lg:col-span-2">
+ <LiveStreamViewer streamId={stream.id} currentUser={viewer} />
+ <h1 className="text-xl font-semibold">{stream.title}</h1>
+ <p className="text-sm text-gray-600">{stream.creatorName}</p>
+ {stream.endReason === 'missed' && <p className="text-sm text-gray-500">This stream was scheduled but never started.</p>}
+ </div>
+ <AdvancedLiveChat streamId={stream.id} currentUser={viewer} className="h-[600px]" />
+ </div>
+ );
+};
+
+export default LiveStreamPage;
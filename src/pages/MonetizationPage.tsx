@@ -1,6 +1,138 @@
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { superChatService } from '../features/livestream/services/superChatService';
+import type { EarningsSummary } from '../types/livestream';
+
+const RANGES = [
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatMoney = (amount: number, currency = 'USD') =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+
+const LiveEarnings: React.FC<{ channelId: string; channelName: string }> = ({ channelId, channelName }) => {
+  const [days, setDays] = useState(30);
+  const [earnings, setEarnings] = useState<EarningsSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const range = useCallback(() => {
+    const to = new Date();
+    return { from: new Date(to.getTime() - days * DAY_MS).toISOString(), to: to.toISOString() };
+  }, [days]);
+
+  useEffect(() => {
+    let cancelled = false;
+    superChatService.setViewer({ id: channelId, username: channelName });
+    superChatService
+      .getEarnings(range())
+      .then(summary => !cancelled && setEarnings(summary))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to load earnings'));
+    return () => {
+      cancelled = true;
+    };
+  }, [channelId, channelName, range]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const blob = await superChatService.downloadStatement(range());
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `earnings-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export statement');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const totals = earnings?.totals;
+
+  return (
+    <section className="bg-white rounded-lg shadow-md p-6 mt-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-xl font-semibold">Live stream earnings</h2>
+        <div className="flex items-center gap-2">
+          <select
+            value={days}
+            onChange={event => setDays(Number(event.target.value))}
+            className="border border-gray-300 rounded px-2 py-1 text-sm"
+          >
+            {RANGES.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="bg-gray-900 text-white px-3 py-1 rounded text-sm hover:bg-gray-700 disabled:opacity-50"
+          >
+            {exporting ? 'Exporting…' : 'Export CSV'}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {totals && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {[
+              { label: 'Gross', value: totals.gross },
+              { label: 'Super Chats', value: totals.superChats },
+              { label: 'Memberships', value: totals.memberships },
+              { label: 'Net after fees', value: totals.net },
+            ].map(card => (
+              <div key={card.label} className="rounded-lg bg-gray-50 p-4">
+                <p className="text-sm text-gray-500">{card.label}</p>
+                <p className="text-2xl font-semibold">{formatMoney(card.value)}</p>
+              </div>
+            ))}
+          </div>
+
+          {earnings.streams.length === 0 ? (
+            <p className="text-gray-600">No Super Chats or memberships in this period.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">Stream</th>
+                  <th className="py-2 text-right">Payments</th>
+                  <th className="py-2 text-right">Gross</th>
+                  <th className="py-2 text-right">Net</th>
+                </tr>
+              </thead>
+              <tbody>
+                {earnings.streams.map(stream => (
+                  <tr key={stream.streamId} className="border-b last:border-0">
+                    <td className="py-2">{stream.streamId}</td>
+                    <td className="py-2 text-right">{stream.count}</td>
+                    <td className="py-2 text-right">{formatMoney(stream.gross)}</td>
+                    <td className="py-2 text-right">{formatMoney(stream.net)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
 
 const MonetizationPage: React.FC = () => {
+  const { user } = useAuth();
+
   return (
     <div className="monetization-page">
       <div className="container mx-auto px-4 py-8">
@@ -10,24 +142,32 @@ const MonetizationPage: React.FC = () => {
             <h2 className="text-xl font-semibold mb-4">Ad Revenue</h2>
             <p className="text-gray-600 mb-4">Manage your ad settings and view revenue analytics.</p>
             <button className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600">
-              Configure Ads;
+              Configure Ads
             </button>
           </div>
           <div className="bg-white rounded-lg shadow-md p-6">
             <h2 className="text-xl font-semibold mb-4">Channel Memberships</h2>
             <p className="text-gray-600 mb-4">Set up channel memberships and perks for subscribers.</p>
             <button className="bg-green-500 text-white px-4 py-2 rounded hover:bg-green-600">
-              Setup Memberships;
+              Setup Memberships
             </button>
           </div>
           <div className="bg-white rounded-lg shadow-md p-6">
             <h2 className="text-xl font-semibold mb-4">Super Chat & Thanks</h2>
             <p className="text-gray-600 mb-4">Enable Super Chat and Super Thanks for live streams.</p>
             <button className="bg-purple-500 text-white px-4 py-2 rounded hover:bg-purple-600">
-              Enable Features;
+              Enable Features
             </button>
           </div>
         </div>
+        {user ? (
+          <LiveEarnings channelId={user.id} channelName={user.username} />
+        ) : (
+          <p className="mt-6 text-gray-600">Sign in to see your live stream earnings.</p>
+        )}
       </div>
     </div>
-export default MonetizationPage;
\ No newline at end of file
+  );
+};
+
+export default MonetizationPage;
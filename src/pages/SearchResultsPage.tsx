@@ -1,102 +1,66 @@
-import React, { useEffect, useCallback, useState, memo } from 'react';
-import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import React, { useCallback } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import OptimizedSearchResults from '../../components/OptimizedSearchResults';
-import { useDebounce } from '../hooks/useDebounce';
-import { VideoService } from '../services/api';
-import type { Video } from '../types';
 
-// Types for better performance;
-interface SearchState {
-  videos: Video[];
-  youtubeVideos: any[];
-  googleSearchVideos: any[], 
-  loading: boolean,
-  youtubeLoading: boolean}
+import OptimizedSearchResults from '../../components/OptimizedSearchResults';
+import SortFilterPanel, { sortOptions, type SortByType } from '../../components/SortFilterPanel';
+import { useSearch } from '../features/search/hooks/useSearch';
+import type { SearchFilterValues } from '../types/search';
 
+// Everything about the search lives in the URL, so results can be shared and survive a reload
+const FILTER_PARAMS = ['duration', 'uploadDate', 'videoType', 'category'] as const;
 
-// Memoized empty state component;
-const EmptySearchState = memo(() => (;))
-          <div />className="text-center py-12"></div />
-    <div />className="text-neutral-500 dark:text-neutral-400"></div />
-      <MagnifyingGlassIcon />className="w-16 h-16 mx-auto mb-4 opacity-50" / />
-      <h3 />className="text-lg font-medium mb-2">Enter a search term</h3 />
-      <p>Use the search bar above to find videos.</p>
-    </div>
-  </div>
-EmptySearchState.displayName = 'EmptySearchState';
-
-// Main component;
 const SearchResultsPage: React.FC = () => {
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
-  const query = searchParams.get('q') || '';
-  const debouncedQuery = useDebounce(query, 300);
 
-  // Consolidated state, 
-  const [searchState, setSearchState] = useState<SearchStat>e>({)
-    videos: [],
-    youtubeVideos: [],
-    googleSearchVideos: [],
-    loading: false,
-    youtubeLoading: false}
-
-  // Memoized search function with performance monitoring;
-  const performSearch = useCallback(async (searchQuery: string): Promise<voi>d,> => {)
-    if (!searchQuery.trim()) {
-      setSearchState({)
-        videos: [],
-        youtubeVideos: [],
-        googleSearchVideos: []}
-        ,loadin,g,: false,;
-        youtubeLoading: false,;
-      return;
-
-    setSearchState(prev => ({...prev, ))
-      loading: true}
-      youtubeLoading,: tru,e,}));
+  const query = searchParams.get('q') || '';
+  const sortParam = searchParams.get('sortBy');
+  const sortBy: SortByType = sortOptions.some(option => option.value === sortParam) ? (sortParam as SortByType) : 'relevance';
+  const filters = Object.fromEntries(FILTER_PARAMS.map(name => [name, searchParams.get(name) || undefined])) as SearchFilterValues;
 
-    try {
-      const result : await VideoService.searchVideos?(searchQuery), 
-      
-      setSearchState,({)
-        videos: result.videos || [],
-        youtubeVideos: [],
-        googleSearchVideos: []}
-        loading: false,;
-        youtubeLoading: false,;
-    } catch (error) {
-      console.error('Error in search:', error), 
-      setSearchState(prev => ({...prev, ))
-        loading: false}
-        youtubeLoading,: fals,e,}));
+  const { results, facets, total, loading, error, hasMore, loadMore } = useSearch(query, filters, sortBy);
 
-  }, []);
+  const updateParams = useCallback(
+    (changes: Record<string, string | undefined>) => {
+      const next = new URLSearchParams(searchParams);
+      for (const [name, value] of Object.entries(changes)) {
+        if (value) {
+          next.set(name, value);
+        } else {
+          next.delete(name);
+        }
+      }
+      setSearchParams(next, { replace: true });
+    },
+    [searchParams, setSearchParams]
+  );
 
-  // Effect for debounced search;
-  useEffect(() => {performSearch(debouncedQuery), }, [debouncedQuery, performSearch]);
+  const handleFiltersChange = (next: SearchFilterValues) =>
+    updateParams(Object.fromEntries(FILTER_PARAMS.map(name => [name, next[name]])));
 
-  // Early return for empty query;
-  if (!query) {
-    return (
-      <div />className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8"></div />
-        <EmptySearchState /> / />
-      </div>
-  return (<div />className="min-h-screen bg-white dark:bg-gray-900 pt-4"></div />;)
-      <div />className="max-w-[1280px] mx-auto"></div />
-        <OptimizedSearchResults />; />
-          videos={searchState.videos}
-          youtubeVideos={searchState.youtubeVideos}
-          googleSearchVideos={searchState.googleSearchVideos}
-          loading={searchState.loading || searchState.youtubeLoading}
-          query={debouncedQuery}
-          sortBy="relevance";
-          onVideoClick={(video: any) => {if ('videoId' in video) {
-              navigate(`/watch?v=${video.videoId}`);
-            } else {
-              navigate(`/watch?v=${video.id}`);
-        /">"
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900 pt-4">
+      <div className="max-w-[1280px] mx-auto px-4 space-y-4">
+        <SortFilterPanel
+          currentSortBy={sortBy}
+          onSortChange={next => updateParams({ sortBy: next === 'relevance' ? undefined : next })}
+          filters={filters}
+          onFiltersChange={handleFiltersChange}
+          facets={facets}
+        />
+        <OptimizedSearchResults
+          query={query}
+          results={results}
+          total={total}
+          loading={loading}
+          error={error}
+          hasMore={hasMore}
+          onLoadMore={loadMore}
+          onResultSelect={result => navigate(`/watch?v=${encodeURIComponent(result.id)}`)}
+        />
       </div>
     </div>
-// Export with memo for performance;
-export default React.memo(SearchResultsPage);
\ No newline at end of file
+  );
+};
+
+export default SearchResultsPage;
@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+
+import VideoEditor from '../../components/VideoEditor';
+
+const VideoEditorPage: React.FC = () => {
+  const [file, setFile] = useState<File | null>(null);
+
+  const handleSave = (editedVideo: Blob) => {
+    const url = URL.createObjectURL(editedVideo);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file ? file.name.replace(/\.[^.]+$/, '-edited.mp4') : 'edited.mp4';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!file) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-6">Video Editor</h1>
+        <label className="block max-w-md p-6 border-2 border-dashed border-gray-300 rounded-lg text-center cursor-pointer hover:border-blue-500">
+          <span className="text-gray-600">Choose a video to edit</span>
+          <input
+            type="file"
+            accept="video/*"
+            className="sr-only"
+            onChange={e => setFile(e.target.files?.[0] ?? null)}
+          />
+        </label>
+      </div>
+    );
+  }
+
+  return <VideoEditor videoFile={file} onSave={handleSave} onCancel={() => setFile(null)} />;
+};
+
+export default VideoEditorPage;
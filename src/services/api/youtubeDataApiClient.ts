@@ -0,0 +1,415 @@
+// YouTube Data API v3 client - daily quota per endpoint, ETag revalidation, batched ID lookups and fixture replay
+import type {
+  YouTubeApiChannel,
+  YouTubeApiErrorBody,
+  YouTubeApiResource,
+  YouTubeApiSearchResult,
+  YouTubeApiVideo,
+  YouTubeListResponse,
+} from '../../types/youtube';
+
+/** Units each call costs; https://developers.google.com/youtube/v3/determine_quota_cost */
+export const QUOTA_COSTS: Record<YouTubeApiResource, number> = {
+  search: 100,
+  videos: 1,
+  channels: 1,
+  commentThreads: 1,
+  playlists: 1,
+  playlistItems: 1,
+  videoCategories: 1,
+};
+
+/** The most IDs `videos.list` and `channels.list` take at once */
+export const MAX_IDS_PER_REQUEST = 50;
+
+const QUOTA_REASONS = ['quotaExceeded', 'dailyLimitExceeded', 'rateLimitExceeded'];
+const QUOTA_STORAGE_KEY = 'youtubeDataApiQuota';
+
+/**
+ * `live` calls YouTube; `record` does too and keeps every response for
+ * `getRecordedFixtures`; `replay` answers only from fixtures, so tests and
+ * demos run without network or an API key.
+ */
+export type YouTubeApiMode = 'live' | 'record' | 'replay';
+
+export interface YouTubeApiFixture {
+  status: number;
+  etag?: string;
+  body: unknown;
+}
+
+/** Recorded responses by request, as `fixtureKey` names them */
+export type YouTubeApiFixtures = Record<string, YouTubeApiFixture>;
+
+export interface YouTubeQuotaStatus {
+  /** The Pacific-time day the quota resets after */
+  day: string;
+  used: number;
+  limit: number;
+  remaining: number;
+  byEndpoint: Partial<Record<YouTubeApiResource, number>>;
+}
+
+export interface YouTubeDataApiConfig {
+  /** A function is read on every request, so a key set later still applies */
+  apiKey?: string | (() => string);
+  baseUrl?: string | (() => string);
+  /** Units per day for the API project; 10,000 unless Google granted more */
+  dailyQuota?: number;
+  timeout?: number;
+  /** How long a response is used as is; after that it is revalidated with its ETag */
+  cacheTtlMs?: number;
+  /** Where the day's quota use is kept; null keeps it in memory only */
+  storage?: Storage | null;
+  mode?: YouTubeApiMode;
+  fixtures?: YouTubeApiFixtures;
+  now?: () => number;
+}
+
+export interface YouTubeRequestOptions {
+  signal?: AbortSignal;
+}
+
+type Params = Record<string, string | number | undefined>;
+
+interface CachedResponse {
+  etag?: string;
+  body: unknown;
+  fetchedAt: number;
+}
+
+interface QuotaLedger {
+  day: string;
+  used: number;
+  byEndpoint: Partial<Record<YouTubeApiResource, number>>;
+}
+
+interface PendingBatch {
+  ids: Set<string>;
+  waiters: Array<{ resolve: () => void; reject: (error: unknown) => void }>;
+}
+
+export class YouTubeApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly reasons: string[] = [],
+    public readonly quotaExceeded = false
+  ) {
+    super(message);
+    this.name = 'YouTubeApiError';
+  }
+}
+
+const quotaDay = (time: number) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Los_Angeles' }).format(time);
+
+const defaultStorage = () => (typeof localStorage === 'undefined' ? null : localStorage);
+
+/** In development requests go through the dev server's proxy, which avoids CORS and referrer limits on the key */
+const defaultBaseUrl = () =>
+  import.meta.env.MODE === 'development' && typeof window !== 'undefined'
+    ? `${window.location.origin}/api/youtube/v3`
+    : 'https://www.googleapis.com/youtube/v3';
+
+const resolve = (value: string | (() => string)) => (typeof value === 'function' ? value() : value);
+
+/** Names a request independently of parameter order and the API key */
+export const fixtureKey = (resource: YouTubeApiResource, params: Params): string => {
+  const query = new URLSearchParams();
+  Object.keys(params)
+    .filter(name => params[name] !== undefined && name !== 'key')
+    .sort()
+    .forEach(name => query.set(name, String(params[name])));
+  return `${resource}?${query}`;
+};
+
+/**
+ * Typed access to the YouTube Data API that spends as little of the daily
+ * quota as it can:
+ *
+ * - Responses are reused for `cacheTtlMs`, then revalidated with
+ *   `If-None-Match`; a 304 costs nothing and keeps the cached body.
+ * - `getVideos` and `getChannels` answer from cached items where they can and
+ *   gather the rest of the IDs asked for in the same tick into `videos.list`
+ *   and `channels.list` calls of up to 50 IDs.
+ * - Units are counted per endpoint for the Pacific-time day YouTube resets
+ *   on. When a call would go over, or YouTube says the quota is gone, cached
+ *   data is returned however old it is; only a request never answered before
+ *   fails, with a `YouTubeApiError` whose `quotaExceeded` is set.
+ */
+export class YouTubeDataApiClient {
+  private config: Required<Omit<YouTubeDataApiConfig, 'storage' | 'fixtures'>>;
+  private storage: Storage | null;
+  private fixtures: YouTubeApiFixtures;
+  private responses = new Map<string, CachedResponse>();
+  private items = new Map<string, CachedResponse>();
+  private pending = new Map<string, PendingBatch>();
+  private ledger: QuotaLedger;
+
+  constructor(config: YouTubeDataApiConfig = {}) {
+    const { storage = defaultStorage(), fixtures = {}, ...rest } = config;
+    this.config = {
+      apiKey: () => import.meta.env.VITE_YOUTUBE_API_KEY ?? '',
+      baseUrl: defaultBaseUrl,
+      dailyQuota: 10000,
+      timeout: 10000,
+      cacheTtlMs: 5 * 60 * 1000,
+      mode: 'live',
+      now: Date.now,
+      ...rest,
+    };
+    this.storage = storage;
+    this.fixtures = fixtures;
+    this.ledger = this.loadLedger();
+  }
+
+  isConfigured(): boolean {
+    return this.config.mode === 'replay' || Boolean(resolve(this.config.apiKey));
+  }
+
+  setMode(mode: YouTubeApiMode, fixtures: YouTubeApiFixtures = this.fixtures): void {
+    this.config.mode = mode;
+    this.fixtures = fixtures;
+  }
+
+  /** Every response seen in `record` mode, ready to save as JSON and replay */
+  getRecordedFixtures(): YouTubeApiFixtures {
+    return { ...this.fixtures };
+  }
+
+  getQuotaStatus(): YouTubeQuotaStatus {
+    const ledger = this.today();
+    return {
+      day: ledger.day,
+      used: ledger.used,
+      limit: this.config.dailyQuota,
+      remaining: Math.max(0, this.config.dailyQuota - ledger.used),
+      byEndpoint: { ...ledger.byEndpoint },
+    };
+  }
+
+  isQuotaExhausted(): boolean {
+    return this.getQuotaStatus().remaining === 0;
+  }
+
+  /** Forgets cached responses; quota use is kept */
+  clearCache(): void {
+    this.responses.clear();
+    this.items.clear();
+  }
+
+  /** One page of any list endpoint */
+  async list<T>(resource: YouTubeApiResource, params: Params, { signal }: YouTubeRequestOptions = {}): Promise<YouTubeListResponse<T>> {
+    const body = await this.request(resource, params, signal);
+    return { ...(body as YouTubeListResponse<T>), items: (body as YouTubeListResponse<T>).items ?? [] };
+  }
+
+  search(params: Params, options?: YouTubeRequestOptions): Promise<YouTubeListResponse<YouTubeApiSearchResult>> {
+    return this.list<YouTubeApiSearchResult>('search', { part: 'snippet', ...params }, options);
+  }
+
+  /** Videos in the order of `ids`; unknown or private ones are left out */
+  getVideos(ids: string[], part = 'snippet,statistics,contentDetails'): Promise<YouTubeApiVideo[]> {
+    return this.lookup<YouTubeApiVideo>('videos', ids, part);
+  }
+
+  /** Channels in the order of `ids`; unknown ones are left out */
+  getChannels(ids: string[], part = 'snippet,statistics'): Promise<YouTubeApiChannel[]> {
+    return this.lookup<YouTubeApiChannel>('channels', ids, part);
+  }
+
+  private async lookup<T extends { id: string }>(resource: 'videos' | 'channels', ids: string[], part: string): Promise<T[]> {
+    const wanted = [...new Set(ids.filter(Boolean))];
+    const itemKey = (id: string) => `${resource}:${part}:${id}`;
+    const stale = wanted.filter(id => !this.isFresh(this.items.get(itemKey(id))));
+
+    if (stale.length > 0) {
+      const batch = this.batchFor<T>(resource, part);
+      stale.forEach(id => batch.ids.add(id));
+      await new Promise<void>((done, fail) => batch.waiters.push({ resolve: done, reject: fail }));
+    }
+
+    return wanted.flatMap(id => {
+      const cached = this.items.get(itemKey(id));
+      return cached ? [cached.body as T] : [];
+    });
+  }
+
+  /** The batch collecting this tick's IDs, sent once the current task's lookups are in */
+  private batchFor<T extends { id: string }>(resource: 'videos' | 'channels', part: string): PendingBatch {
+    const batchKey = `${resource}:${part}`;
+    const existing = this.pending.get(batchKey);
+    if (existing) {
+      return existing;
+    }
+    const batch: PendingBatch = { ids: new Set(), waiters: [] };
+    this.pending.set(batchKey, batch);
+    queueMicrotask(() => {
+      this.pending.delete(batchKey);
+      void this.flush<T>(resource, part, batch);
+    });
+    return batch;
+  }
+
+  private async flush<T extends { id: string }>(resource: 'videos' | 'channels', part: string, batch: PendingBatch): Promise<void> {
+    // Sorted so the same IDs make the same request, and its ETag can be reused
+    const ids = [...batch.ids].sort();
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += MAX_IDS_PER_REQUEST) {
+      chunks.push(ids.slice(i, i + MAX_IDS_PER_REQUEST));
+    }
+
+    const results = await Promise.allSettled(chunks.map(async chunk => {
+      try {
+        const { items } = await this.list<T>(resource, { part, id: chunk.join(',') });
+        const fetchedAt = this.config.now();
+        items.forEach(item => this.items.set(`${resource}:${part}:${item.id}`, { body: item, fetchedAt }));
+      } catch (error) {
+        // Out of quota, items cached by other requests will still do
+        const hasCached = chunk.some(id => this.items.has(`${resource}:${part}:${id}`));
+        if (!(error instanceof YouTubeApiError && error.quotaExceeded && hasCached)) {
+          throw error;
+        }
+      }
+    }));
+
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    batch.waiters.forEach(waiter => (failure ? waiter.reject(failure.reason) : waiter.resolve()));
+  }
+
+  private async request(resource: YouTubeApiResource, params: Params, signal?: AbortSignal): Promise<unknown> {
+    const key = fixtureKey(resource, params);
+    const cached = this.responses.get(key);
+    if (cached && this.isFresh(cached)) {
+      return cached.body;
+    }
+
+    const cost = QUOTA_COSTS[resource];
+    if (this.today().used + cost > this.config.dailyQuota) {
+      return this.fromCacheOrQuotaError(resource, cached);
+    }
+
+    const { status, etag, body } = await this.send(resource, params, cached?.etag, signal);
+    if (status === 304 && cached) {
+      cached.fetchedAt = this.config.now();
+      return cached.body;
+    }
+
+    if (status < 200 || status >= 300) {
+      const error = (body as YouTubeApiErrorBody | null)?.error;
+      const reasons = error?.errors?.map(entry => entry.reason) ?? [];
+      if (reasons.some(reason => QUOTA_REASONS.includes(reason))) {
+        // YouTube knows best; nothing more goes out until the quota resets
+        this.today().used = this.config.dailyQuota;
+        this.saveLedger();
+        return this.fromCacheOrQuotaError(resource, cached);
+      }
+      this.charge(resource, cost);
+      throw new YouTubeApiError(`YouTube API error: ${error?.message ?? status}`, status, reasons);
+    }
+
+    this.charge(resource, cost);
+    this.responses.set(key, { etag: etag ?? (body as { etag?: string }).etag, body, fetchedAt: this.config.now() });
+    return body;
+  }
+
+  /** One HTTP exchange, or its recorded fixture */
+  private async send(resource: YouTubeApiResource, params: Params, etag: string | undefined, signal?: AbortSignal): Promise<YouTubeApiFixture> {
+    const key = fixtureKey(resource, params);
+    if (this.config.mode === 'replay') {
+      const fixture = this.fixtures[key];
+      if (!fixture) {
+        throw new YouTubeApiError(`No recorded YouTube API response for ${key}`, 404);
+      }
+      return etag && fixture.etag === etag ? { status: 304, etag, body: null } : fixture;
+    }
+
+    const url = new URL(`${resolve(this.config.baseUrl)}/${resource}`);
+    Object.entries({ ...params, key: resolve(this.config.apiKey) })
+      .filter(([, value]) => value !== undefined)
+      .forEach(([name, value]) => url.searchParams.set(name, String(value)));
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      abort();
+    }, this.config.timeout);
+    try {
+      const response = await fetch(url.toString(), {
+        headers: etag ? { 'If-None-Match': etag } : undefined,
+        signal: controller.signal,
+      });
+      const body = response.status === 304 ? null : await response.json().catch(() => null);
+      const exchange: YouTubeApiFixture = {
+        status: response.status,
+        etag: response.headers.get('ETag') ?? undefined,
+        body: body ?? (response.ok ? {} : { error: { code: response.status, message: response.statusText } }),
+      };
+      if (this.config.mode === 'record' && response.status !== 304) {
+        this.fixtures[key] = exchange;
+      }
+      return exchange;
+    } catch (error) {
+      if (timedOut) {
+        throw new YouTubeApiError(`YouTube API ${resource} did not respond in time`, 504);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private fromCacheOrQuotaError(resource: YouTubeApiResource, cached: CachedResponse | undefined): unknown {
+    if (cached) {
+      return cached.body;
+    }
+    throw new YouTubeApiError(`YouTube API quota for today is used up; ${resource} is not cached`, 403, ['quotaExceeded'], true);
+  }
+
+  private isFresh(entry: CachedResponse | undefined): boolean {
+    return Boolean(entry && this.config.now() - entry.fetchedAt < this.config.cacheTtlMs);
+  }
+
+  private today(): QuotaLedger {
+    const day = quotaDay(this.config.now());
+    if (this.ledger.day !== day) {
+      this.ledger = { day, used: 0, byEndpoint: {} };
+    }
+    return this.ledger;
+  }
+
+  private charge(resource: YouTubeApiResource, units: number): void {
+    const ledger = this.today();
+    ledger.used += units;
+    ledger.byEndpoint[resource] = (ledger.byEndpoint[resource] ?? 0) + units;
+    this.saveLedger();
+  }
+
+  private saveLedger(): void {
+    try {
+      this.storage?.setItem(QUOTA_STORAGE_KEY, JSON.stringify(this.ledger));
+    } catch {
+      // Storage full or blocked: count in memory for this session
+    }
+  }
+
+  private loadLedger(): QuotaLedger {
+    try {
+      const stored = this.storage?.getItem(QUOTA_STORAGE_KEY);
+      if (stored) {
+        return JSON.parse(stored) as QuotaLedger;
+      }
+    } catch {
+      // Unreadable: start counting afresh
+    }
+    return { day: quotaDay(this.config.now()), used: 0, byEndpoint: {} };
+  }
+}
+
+export const youtubeDataApi = new YouTubeDataApiClient();
+export default youtubeDataApi;
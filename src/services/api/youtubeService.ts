@@ -1,52 +1,139 @@
-import React from 'react';
-// youtubeService - Clean Service Implementation;
-export interface youtubeServiceConfig {
-  baseUrl?: string;
-  timeout?: number, 
-
-export interface ServiceResponse<T = any> {
-  data: T,
-  status: number,
-  message: string,
-
-export class YoutubeService {
-  private config: Required<youtubeServiceConfig>, 
-
-  constructor(config: youtubeServiceConfig = {}) {
-    this.config = {
-      baseUrl: config.baseUrl || '/api',
-      timeout: config.timeout || 5000, 
-
-  async request<T>(endpoint: string, options: RequestInit = {}): Promise<ServiceResponse<T>> {
-    const url = this.config.baseUrl + endpoint;
-    
+// youtubeService - YouTube videos and channels by ID, in the shapes the app shows
+import { formatIsoDuration, getYouTubeCategoryName, parseIsoDuration } from '../../utils/youtubeApiUtils';
+
+import { YouTubeApiError, youtubeDataApi } from './youtubeDataApiClient';
+import type { YouTubeDataApiClient, YouTubeQuotaStatus } from './youtubeDataApiClient';
+import type { YouTubeApiChannel, YouTubeApiVideo } from '../../types/youtube';
+
+// Shorts are at most a minute long
+const MAX_SHORT_SECONDS = 60;
+
+export interface YouTubeVideoDetails {
+  id: string;
+  title: string;
+  description: string;
+  thumbnailUrl: string;
+  /** "m:ss" or "h:mm:ss" */
+  duration: string;
+  viewCount: number;
+  likes: number;
+  commentCount: number;
+  publishedAt: string;
+  channelId: string;
+  channelName: string;
+  category?: string;
+  tags: string[];
+  isLive: boolean;
+  isShort: boolean;
+}
+
+export interface YouTubeChannelDetails {
+  id: string;
+  name: string;
+  description: string;
+  avatarUrl: string;
+  customUrl?: string;
+  subscribers: number;
+  /** Rounded for display, e.g. "1.5M" */
+  subscriberCount: string;
+  videoCount: number;
+  totalViews: number;
+  country?: string;
+  joinedAt?: string;
+}
+
+const compactCount = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 });
+
+const toVideoDetails = (video: YouTubeApiVideo): YouTubeVideoDetails => {
+  const { snippet, statistics, contentDetails } = video;
+  const seconds = contentDetails ? parseIsoDuration(contentDetails.duration) : null;
+  return {
+    id: video.id,
+    title: snippet?.title ?? '',
+    description: snippet?.description ?? '',
+    thumbnailUrl: (snippet?.thumbnails.medium ?? snippet?.thumbnails.high ?? snippet?.thumbnails.default)?.url ?? '',
+    duration: formatIsoDuration(contentDetails?.duration ?? ''),
+    viewCount: Number(statistics?.viewCount ?? 0),
+    likes: Number(statistics?.likeCount ?? 0),
+    commentCount: Number(statistics?.commentCount ?? 0),
+    publishedAt: snippet?.publishedAt ?? '',
+    channelId: snippet?.channelId ?? '',
+    channelName: snippet?.channelTitle ?? '',
+    category: getYouTubeCategoryName(snippet?.categoryId),
+    tags: snippet?.tags ?? [],
+    isLive: snippet?.liveBroadcastContent === 'live',
+    isShort: seconds !== null && seconds > 0 && seconds <= MAX_SHORT_SECONDS,
+  };
+};
+
+const toChannelDetails = (channel: YouTubeApiChannel): YouTubeChannelDetails => {
+  const subscribers = Number(channel.statistics?.subscriberCount ?? 0);
+  return {
+    id: channel.id,
+    name: channel.snippet?.title ?? '',
+    description: channel.snippet?.description ?? '',
+    avatarUrl: (channel.snippet?.thumbnails.medium ?? channel.snippet?.thumbnails.default)?.url ?? '',
+    customUrl: channel.snippet?.customUrl,
+    subscribers,
+    subscriberCount: compactCount.format(subscribers),
+    videoCount: Number(channel.statistics?.videoCount ?? 0),
+    totalViews: Number(channel.statistics?.viewCount ?? 0),
+    country: channel.snippet?.country,
+    joinedAt: channel.snippet?.publishedAt,
+  };
+};
+
+/**
+ * Video and channel details for IDs the app already has. Lookups go through
+ * the Data API client, so IDs asked for together share `videos.list` calls,
+ * repeats come from its cache and, once the day's quota is gone, cached
+ * details are still returned.
+ */
+export class YouTubeService {
+  constructor(private client: YouTubeDataApiClient = youtubeDataApi) {}
+
+  /** Details in the order of `ids`; deleted or private videos are left out */
+  async fetchVideos(ids: string[]): Promise<YouTubeVideoDetails[]> {
+    if (ids.length === 0) {
+      return [];
+    }
     try {
-      const response = await fetch(url, {)
-        ...options,
-        headers: {
-          'Content-Type': 'application/json',
-          ...options.headers, },;
-
-      if (!response.ok) {
-        throw new Error('Request failed: ' + response.status), 
-
-      const data = await response.json();
-      
-      return {
-        data,
-        status: response.status,
-        message: 'Success';
+      const videos = await this.client.getVideos(ids);
+      return videos.map(toVideoDetails);
     } catch (error) {
-      console.error('Service error:', error);
-      throw error, 
+      if (error instanceof YouTubeApiError) {
+        throw error;
+      }
+      throw new YouTubeApiError('Failed to fetch video data', 0);
+    }
+  }
 
-  async get<T>(endpoint,: string): Promise<ServiceResponse<T>> {
-    return :this.request<T>(endpoint, { method: 'GET' });
+  async fetchVideo(id: string): Promise<YouTubeVideoDetails | null> {
+    const [video] = await this.fetchVideos([id]);
+    return video ?? null;
+  }
+
+  /** The channel, or null when it doesn't exist or can't be fetched right now */
+  async fetchChannel(id: string): Promise<YouTubeChannelDetails | null> {
+    if (!id) {
+      return null;
+    }
+    try {
+      const [channel] = await this.client.getChannels([id]);
+      return channel ? toChannelDetails(channel) : null;
+    } catch {
+      return null;
+    }
+  }
 
-  async post<T>(endpoint,: string, data): Promise<ServiceResponse<T>> {
-    return :this.request<T>(endpoint, {)
-      method: 'POST', body: JSON.stringify(data);
+  getQuotaStatus(): YouTubeQuotaStatus {
+    return this.client.getQuotaStatus();
+  }
 
+  clearCache(): void {
+    this.client.clearCache();
+  }
+}
 
-export const youtubeService = new YoutubeService();
-export default youtubeService;
\ No newline at end of file
+export const youtubeService = new YouTubeService();
+export default youtubeService;
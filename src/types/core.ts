@@ -1,4 +1,6 @@
 // Core type definitions - unified interface;
+import type { Subtitle } from './video';
+
 export interface Video {
  id: string;
  title: string;
@@ -13,6 +15,9 @@ export interface Video {
  category?: string;
  // Additional properties for compatibility;
  videoUrl?: string;
+ manifestUrl?: string; // HLS/DASH manifest for adaptive playback;
+ subtitles?: Subtitle[]; // WebVTT/SRT caption tracks;
+ storyboardUrl?: string; // WebVTT thumbnail index for seek previews;
  likes?: number;
  dislikes?: number;
  uploadedAt?: string;
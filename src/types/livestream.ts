@@ -7,18 +7,21 @@ export interface LiveStream {
  streamUrl: string;
  streamKey: string;
  category: string;
- tags: string;
+ tags: string[];
  visibility: 'public' | 'unlisted' | 'private';
  status: 'scheduled' | 'live' | 'ended' | 'error';
  scheduledStartTime?: Date;
  actualStartTime?: Date;
  endTime?: Date;
+ /** Why an ended stream ended; `missed` when its scheduled slot passed without a broadcast */
+ endReason?: 'finished' | 'missed';
  creatorId: string;
  creatorName: string;
  creatorAvatar: string;
  settings: LiveStreamSettings;
  stats: LiveStreamStats;
  monetization: LiveStreamMonetization;
+}
 
 export interface LiveStreamSettings {
  enableChat: boolean;
@@ -34,13 +37,26 @@ export interface LiveStreamSettings {
  frameRate: 30 | 60;
  enableRecording: boolean;
  enableMultiplatform: boolean;
- platforms: StreamPlatform;
+ platforms: StreamPlatform[];
+}
+
+/** A viewer's "notify me" subscription to an upcoming stream */
+export interface StreamReminder {
+ streamId: string;
+ subscribed: boolean;
+ /** Minutes before the scheduled start to be reminded at; 0 is "when it starts" */
+ offsets: number[];
+ availableOffsets: number[];
+ subscriberCount: number;
+}
 
 export interface StreamPlatform {
  name: 'youtube' | 'twitch' | 'facebook' | 'twitter';
  enabled: boolean;
  streamKey?: string;
  settings?: Record<string, any>
+}
+
 export interface LiveStreamStats {
  viewers: number;
  peakViewers: number;
@@ -57,6 +73,78 @@ export interface LiveStreamStats {
  bitrate: number;
  frameDrops: number;
  latency: number;
+ /** Viewer counts sampled through the broadcast */
+ viewerTimeline?: ViewerSample[];
+}
+
+export interface ViewerSample {
+ /** Seconds from the start of the broadcast */
+ offsetSeconds: number;
+ viewers: number;
+}
+
+export type IngestStatus = 'offline' | 'live' | 'ended';
+
+export interface StreamPlayback {
+ streamId: string;
+ status: IngestStatus;
+ /** HLS master playlist; null until the first segments are written */
+ playbackUrl: string | null;
+ startedAt: string | null;
+ endedAt: string | null;
+}
+
+export interface IngestHealth {
+ status: IngestStatus;
+ /** Null while nothing is being received */
+ health: LiveStreamStats['streamHealth'] | null;
+ /** What the creator should fix, most serious first */
+ issues: string[];
+ startedAt?: string;
+ lastDataAt?: string;
+ bitrateKbps?: number;
+ framesPerSecond?: number;
+ keyframeIntervalSeconds?: number | null;
+ droppedFrames?: number;
+ totalFrames?: number;
+ video?: { codec: string | null; width: number | null; height: number | null };
+ audio?: { codec: string | null };
+ encoder?: string | null;
+}
+
+export interface StreamIngest extends StreamPlayback {
+ /** RTMP server URL for the encoder, e.g. rtmp://localhost:1935/live */
+ serverUrl: string;
+ /** Null once revoked, until a new key is created */
+ streamKey: string | null;
+ keyCreatedAt: string | null;
+ health: IngestHealth;
+}
+
+export type RestreamStatus = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'failed';
+
+/** A platform the stream is forwarded to; the key itself never comes back from the server */
+export interface RestreamTarget {
+ platform: StreamPlatform['name'];
+ serverUrl: string;
+ /** The last characters of the stored key, e.g. ••••a1b2 */
+ streamKeyHint: string | null;
+ enabled: boolean;
+ updatedAt: string;
+ status: RestreamStatus;
+ error: string | null;
+ /** Failed connection attempts in a row */
+ attempts: number;
+ connectedAt: string | null;
+ nextRetryAt: string | null;
+ bytesSent: number;
+}
+
+export interface RestreamState {
+ streamId: string;
+ live: boolean;
+ targets: RestreamTarget[];
+}
 
 export interface LiveStreamMonetization {
  totalRevenue: number;
@@ -64,7 +152,11 @@ export interface LiveStreamMonetization {
  adRevenue: number;
  membershipRevenue: number;
  donationRevenue: number;
- superChats: SuperChat;
+ superChats: SuperChat[];
+ /** Revenue after the platform's share */
+ netRevenue?: number;
+ fees?: number;
+}
 
 export interface ChatMessage {
  id: string;
@@ -76,13 +168,14 @@ export interface ChatMessage {
  isModerator: boolean;
  isOwner: boolean;
  isVerified: boolean;
- badges: ChatBadge;
+ badges: ChatBadge[];
  superChat?: SuperChat;
  membership?: MembershipInfo;
  deleted?: boolean;
  deletedBy?: string;
  edited?: boolean;
  editedAt?: Date;
+}
 
 export interface SuperChat {
  id: string;
@@ -93,36 +186,86 @@ export interface SuperChat {
  message: string;
  timestamp?: Date;
  color: string;
- duration: number;
+ duration: number; // seconds pinned above chat
+}
+
+export interface SuperChatTier {
+ minUsd: number;
+ color: string;
+ pinSeconds: number;
+ maxMessageLength: number;
+}
+
+export interface MembershipLevel {
+ id: string;
+ level: string;
+ priceUsd: number;
+ badge: string;
+ perks: string;
+}
+
+export interface DonationGoal {
+ id: string;
+ streamId: string;
+ title: string;
+ targetAmount: number;
+ currency: string;
+ raisedAmount: number;
+ progress: number; // 0-1
+ reached: boolean;
+ createdAt: Date;
+}
+
+export interface EarningsTotals {
+ gross: number;
+ fees: number;
+ net: number;
+ superChats: number;
+ memberships: number;
+ count: number;
+}
+
+export interface EarningsSummary {
+ currency: string;
+ from: string;
+ to: string;
+ totals: EarningsTotals;
+ streams: Array<EarningsTotals & { streamId: string }>;
+ recent: Array<SuperChat & { type: 'super_chat' | 'membership'; streamId: string }>;
+}
 
 export interface ChatBadge {
  type: "moderator" | 'owner' | 'member' | 'verified' | 'subscriber';
  label: string;
  color?: string;
  icon?: string;
+}
 
 export interface MembershipInfo {
  level: string;
  duration: number; // months,
  badge: string;
  perks: string;
+}
 
 export interface LivePoll {
  id: string;
  streamId?: string;
  question: string;
- options: PollOption;
+ options: PollOption[];
  isActive: boolean;
  totalVotes: number;
  createdAt: Date;
  duration: number; // in milliseconds;
  endedAt?: Date;
+}
 
 export interface PollOption {
  id: string;
  text: string;
  votes: number;
  percentage: number;
+}
 
 export interface QAQuestion {
  id: string;
@@ -137,6 +280,7 @@ export interface QAQuestion {
  answeredAt?: Date;
  isHighlighted: boolean;
  upvotes?: number;
+}
 
 export interface ChatModerationAction {
  type: "timeout" | 'ban' | 'delete' | 'warn' | 'approve';
@@ -145,23 +289,151 @@ export interface ChatModerationAction {
  reason: string;
  duration?: number; // minutes for timeout,
  timestamp: Date;
+}
 
 export interface StreamReplay {
  id: string;
  streamId: string;
+ /** The video the recording was published as; absent for streams that were not recorded */
+ videoId?: string;
  title: string;
  description?: string;
  thumbnailUrl: string;
  videoUrl: string;
  duration: number;
  createdAt: Date;
- views: number;
+ startedAt?: string;
+ endedAt?: string;
  isProcessing?: boolean;
+ /** Polls that ran during the stream, with their final results */
+ polls?: LivePoll[];
+ /** Questions the host answered */
+ questions?: QAQuestion[];
+ stats?: ReplayStats;
+ highlights?: StreamHighlight[];
+ /** Moments worth clipping (Super Chats, the viewer peak); not clipped yet */
+ suggestedHighlights?: HighlightSuggestion[];
+}
+
+export interface ReplayStats {
+ peakViewers: number;
+ averageViewers: number;
+ chatMessages: number;
+ viewerTimeline: ViewerSample[];
+}
+
+/** A chat message as it plays back with the replay */
+export interface ReplayChatMessage extends ChatMessage {
+ /** Seconds into the replay the message was sent at */
+ offsetSeconds: number;
+}
+
+export type HighlightType = 'moment' | 'super_chat' | 'poll' | 'qa' | 'milestone';
+
+/** `unavailable`: the clip job ran without ffmpeg, so there is no file */
+export type HighlightClipStatus = 'processing' | 'ready' | 'failed' | 'unavailable';
 
 export interface StreamHighlight {
  id: string;
  timestamp: number; // seconds from start,
+ /** Clip length in seconds */
+ duration?: number;
  title: string;
  description?: string;
- type: "moment" | 'super_chat' | 'poll' | 'qa' | 'milestone';
+ type: HighlightType;
+ clipStatus?: HighlightClipStatus;
+ clipUrl?: string | null;
+ createdAt?: string;
  data?;
+}
+
+export type HighlightSuggestion = Pick<StreamHighlight, 'timestamp' | 'title' | 'description' | 'type'>;
+
+/** One bucket of a broadcast's analytics; counts are totals for the bucket */
+export interface StreamAnalyticsPoint {
+ /** Seconds from the start of the broadcast to the start of the bucket */
+ t: number;
+ /** Average concurrent viewers over the bucket */
+ viewers: number;
+ peakViewers: number;
+ chatMessages: number;
+ /** Super Chat revenue in US cents */
+ revenueCents: number;
+ joins: number;
+ leaves: number;
+}
+
+export interface StreamAnalyticsSummary {
+ durationSeconds: number;
+ peakViewers: number;
+ /** Seconds into the broadcast the peak was reached */
+ peakAt: number;
+ averageViewers: number;
+ uniqueViewers: number;
+ watchMinutes: number;
+ chatMessages: number;
+ chatPerMinute: number;
+ revenueCents: number;
+ joins: number;
+ leaves: number;
+}
+
+/** Analytics for one broadcast of a stream; a stream that reconnects has one per broadcast */
+export interface StreamAnalytics {
+ sessionId: string;
+ streamId: string;
+ isLive: boolean;
+ startedAt: string;
+ endedAt: string | null;
+ /** Bucket size in seconds */
+ resolution: number;
+ /** The window covered, in seconds from the start */
+ from: number;
+ to: number;
+ points: StreamAnalyticsPoint[];
+ summary: StreamAnalyticsSummary;
+}
+
+export type ComparedMetric = 'durationSeconds' | 'peakViewers' | 'averageViewers' | 'uniqueViewers' | 'chatPerMinute' | 'revenueCents';
+
+export interface MetricComparison {
+ value: number;
+ /** Average over the creator's previous broadcasts; null when there are none */
+ previousAverage: number | null;
+ /** Relative change against that average, e.g. 0.25 for 25% more */
+ change: number | null;
+}
+
+export interface StreamAnalyticsMoment {
+ /** Start of the minute, in seconds from the start */
+ t: number;
+ value: number;
+}
+
+/** Everything about a finished broadcast, compared with the creator's previous ones */
+export interface StreamAnalyticsReport {
+ sessionId: string;
+ streamId: string;
+ title: string;
+ startedAt: string;
+ endedAt: string;
+ summary: StreamAnalyticsSummary;
+ resolution: number;
+ points: StreamAnalyticsPoint[];
+ moments: {
+ peakViewers: StreamAnalyticsMoment | null;
+ busiestChat: StreamAnalyticsMoment | null;
+ topRevenue: StreamAnalyticsMoment | null;
+ };
+ comparison: {
+ metrics: Record<ComparedMetric, MetricComparison>;
+ previous: Array<{
+ sessionId: string;
+ streamId: string;
+ title: string;
+ startedAt: string;
+ endedAt: string;
+ summary: StreamAnalyticsSummary;
+ }>;
+ };
+}
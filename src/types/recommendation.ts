@@ -0,0 +1,41 @@
+// Recommendations for the home and watch pages from /api/recommendations, and the feedback that shapes them
+
+/** The signal that contributed most to a recommendation */
+export type RecommendationReason = 'similar' | 'watched-together' | 'channel' | 'new' | 'popular';
+
+export interface RecommendedVideo {
+ id: string;
+ title: string;
+ description: string;
+ thumbnailUrl?: string;
+ /** "m:ss" for catalog videos, seconds for uploads */
+ duration?: string | number;
+ views?: string | number;
+ uploadedAt?: string;
+ channelId: string;
+ channelName?: string;
+ channelAvatar?: string;
+ category?: string;
+ tags?: string[];
+ isLive?: boolean;
+ score: number;
+ reason: RecommendationReason;
+}
+
+export interface RecommendationQuery {
+ /** The video being watched; leave out for the home page */
+ videoId?: string;
+ category?: string;
+ limit?: number;
+}
+
+export interface RecommendationList {
+ videos: RecommendedVideo[];
+ /** Whether the viewer's watch history shaped the list */
+ personalized: boolean;
+}
+
+export interface RecommendationFeedback {
+ notInterested: Array<{ videoId: string; createdAt: string }>;
+ blockedChannels: Array<{ channelId: string; channelName: string; createdAt: string }>;
+}
@@ -0,0 +1,91 @@
+// Video search: queries, filters, facets and highlighted results from /api/search
+
+export type SearchDuration = 'short' | 'medium' | 'long';
+export type SearchUploadDate = 'hour' | 'today' | 'week' | 'month' | 'year';
+export type SearchVideoType = 'video' | 'short' | 'live';
+export type SearchSortBy = 'relevance' | 'uploadDate' | 'viewCount';
+
+export interface SearchFilterValues {
+ duration?: SearchDuration;
+ uploadDate?: SearchUploadDate;
+ videoType?: SearchVideoType;
+ category?: string;
+}
+
+export interface SearchQuery extends SearchFilterValues {
+ /** Words, `"exact phrases"` and `-excluded` words or phrases */
+ q: string;
+ sortBy?: SearchSortBy;
+ pageToken?: string;
+ maxResults?: number;
+}
+
+/** A run of text, marked when it matched the query */
+export interface HighlightSegment {
+ text: string;
+ match: boolean;
+}
+
+export interface SearchResult {
+ id: string;
+ title: string;
+ description: string;
+ thumbnailUrl?: string;
+ /** "m:ss" for catalog videos, seconds for shorts and uploads */
+ duration: string | number;
+ views?: string | number;
+ uploadedAt?: string;
+ publishedAt?: string;
+ channelId?: string;
+ channelName?: string;
+ channelAvatar?: string;
+ category?: string;
+ tags?: string[];
+ isLive?: boolean;
+ isShort?: boolean;
+ isShorts?: boolean;
+ score: number;
+ highlights: {
+ title: HighlightSegment[];
+ /** Around the first match, with "…" where it was cut */
+ description: HighlightSegment[];
+ };
+}
+
+/** How many results each filter value would leave, given the other filters */
+export interface SearchFacets {
+ duration: Partial<Record<SearchDuration, number>>;
+ uploadDate: Partial<Record<SearchUploadDate, number>>;
+ videoType: Partial<Record<SearchVideoType, number>>;
+ category: Record<string, number>;
+}
+
+export interface SearchResponse {
+ results: SearchResult[];
+ total: number;
+ facets: SearchFacets;
+ nextPageToken?: string;
+ prevPageToken?: string;
+}
+
+/** Where a suggestion came from; only `history` ones can be deleted */
+export type SearchSuggestionSource = 'history' | 'trending' | 'query' | 'title';
+
+export interface SearchSuggestion {
+ text: string;
+ source: SearchSuggestionSource;
+ /** The history entry behind a `history` suggestion */
+ historyId?: string;
+}
+
+export interface TrendingQuery {
+ query: string;
+ /** Searches, decaying by half every six hours */
+ score: number;
+}
+
+export interface SearchHistoryEntry {
+ id: string;
+ query: string;
+ searchedAt: string;
+}
@@ -3,17 +3,27 @@ export interface VideoQuality {
  value: string;
  resolution: string;
  bitrate: string;
+}
 
 export interface Subtitle {
+ id?: string;
+ /** Shown in the track menu; defaults to `language` */
+ label?: string;
  language: string;
  languageCode: string;
+ /** WebVTT or SRT file */
  url: string;
+ /** Inferred from the URL's extension when omitted */
+ format?: 'vtt' | 'srt';
  isDefault: boolean;
+ isAutoGenerated?: boolean;
+}
 
 export interface Chapter {
  start: number;
  title: string;
  thumbnail?: string;
+}
 
 export interface Video {
  id: string;
@@ -56,10 +66,12 @@ export interface Video {
  dislikeCount: string;
  favoriteCount: string;
  commentCount: string;
+ };
  topicDetails?: {
  topicIds: string;
  relevantTopicIds: string;
  topicCategories: string;
+ };
  contentDetails?: {
  duration: string;
  dimension: string;
@@ -69,13 +81,16 @@ export interface Video {
  regionRestriction?: {
  allowed?: string;
  blocked?: string;
- contentRating?: Record<string, string>
+ };
+ contentRating?: Record<string, string>;
  projection?: string;
  hasCustomThumbnail?: boolean;
+ };
  player?: {
  embedHtml: string;
  embedHeight?: number;
  embedWidth?: number;
+ };
  status?: {
  uploadStatus: string;
  failureReason?: string;
@@ -87,6 +102,7 @@ export interface Video {
  publicStatsViewable: boolean;
  madeForKids: boolean;
  selfDeclaredMadeForKids?: boolean;
+ };
  fileDetails?: {
  fileName: string;
  fileSize: string;
@@ -101,28 +117,31 @@ export interface Video {
  bitrateBps: string;
  rotation: string;
  vendor: string;
- }>
+ }>;
  audioStreams: Array<{
  channelCount: number;
  codec: string;
  bitrateBps: string;
  vendor: string;
- }>
+ }>;
  durationMs: string;
  bitrateBps: string;
  creationTime: string;
+ };
  processingDetails?: {
  processingStatus: string;
  processingProgress?: {
  partsTotal: string;
  partsProcessed: string;
  timeLeftMs: string;
+ };
  processingFailureReason?: string;
  fileDetailsAvailability?: string;
  processingIssuesAvailability?: string;
  tagSuggestionsAvailability?: string;
  editorSuggestionsAvailability?: string;
  thumbnailsAvailability?: string;
+ };
  suggestions?: {
  processingErrors?: string;
  processingWarnings?: string;
@@ -130,8 +149,9 @@ export interface Video {
  tagSuggestions?: Array<{
  tag: string;
  categoryRestricts: string;
- }>
+ }>;
  editorSuggestions?: string;
+ };
  liveStreamingDetails?: {
  actualStartTime?: string;
  actualEndTime?: string;
@@ -139,12 +159,15 @@ export interface Video {
  scheduledEndTime?: string;
  concurrentViewers?: string;
  activeLiveChatId?: string;
- localizations?: Record<;
+ };
+ localizations?: Record<
  string,
  {
  title: string;
  description: string;
- >
+ }
+ >;
  // Required timestamp fields,
  createdAt: string;
  updatedAt: string;
+}
@@ -1,6 +1,112 @@
-// youtube - Simple Implementation;
-export const youtube = {
-  enabled: true,
-  process: (data: unknown) => data, 
+// YouTube Data API v3 resources, as returned for the parts the app asks for
 
-export default youtube;
\ No newline at end of file
+export type YouTubeApiResource =
+ | 'search'
+ | 'videos'
+ | 'channels'
+ | 'commentThreads'
+ | 'playlists'
+ | 'playlistItems'
+ | 'videoCategories';
+
+export interface YouTubeThumbnail {
+ url: string;
+ width?: number;
+ height?: number;
+}
+
+export type YouTubeThumbnails = Partial<Record<'default' | 'medium' | 'high' | 'standard' | 'maxres', YouTubeThumbnail>>;
+
+export interface YouTubeListResponse<T> {
+ kind?: string;
+ etag?: string;
+ nextPageToken?: string;
+ prevPageToken?: string;
+ pageInfo?: { totalResults: number; resultsPerPage: number };
+ items: T[];
+}
+
+export interface YouTubeApiVideo {
+ id: string;
+ etag?: string;
+ snippet?: {
+ title: string;
+ description: string;
+ publishedAt: string;
+ channelId: string;
+ channelTitle: string;
+ categoryId?: string;
+ tags?: string[];
+ /** `live` while broadcasting, `upcoming` when scheduled */
+ liveBroadcastContent?: string;
+ thumbnails: YouTubeThumbnails;
+ };
+ contentDetails?: {
+ /** ISO 8601, e.g. "PT4M13S" */
+ duration: string;
+ dimension?: string;
+ definition?: string;
+ caption?: string;
+ };
+ statistics?: {
+ viewCount?: string;
+ likeCount?: string;
+ commentCount?: string;
+ };
+}
+
+export interface YouTubeApiChannel {
+ id: string;
+ etag?: string;
+ snippet?: {
+ title: string;
+ description: string;
+ customUrl?: string;
+ publishedAt: string;
+ country?: string;
+ thumbnails: YouTubeThumbnails;
+ };
+ statistics?: {
+ viewCount?: string;
+ /** Missing when the channel hides its subscriber count */
+ subscriberCount?: string;
+ hiddenSubscriberCount?: boolean;
+ videoCount?: string;
+ };
+}
+
+export interface YouTubeApiSearchResult {
+ etag?: string;
+ id: { kind: string; videoId?: string; channelId?: string; playlistId?: string };
+ snippet?: {
+ title: string;
+ description: string;
+ publishedAt: string;
+ channelId: string;
+ channelTitle: string;
+ liveBroadcastContent?: string;
+ thumbnails: YouTubeThumbnails;
+ };
+}
+
+export interface YouTubeApiCommentThread {
+ id: string;
+ etag?: string;
+ snippet: {
+ totalReplyCount: number;
+ topLevelComment: {
+ id: string;
+ snippet: {
+ authorDisplayName: string;
+ authorProfileImageUrl?: string;
+ textOriginal: string;
+ likeCount: number;
+ publishedAt: string;
+ };
+ };
+ };
+}
+
+export interface YouTubeApiErrorBody {
+ error?: { code: number; message: string; errors?: Array<{ reason: string; domain?: string }> };
+}
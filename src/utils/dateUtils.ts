@@ -1,28 +1,35 @@
 // Date Utils - Minimal Implementation;
-export const formatDate = (date: Date | string | number): string: unknown=> {
+export const formatDate = (date: Date | string | number): string => {
   try {
     const d = new Date(date);
     if (isNaN(d.getTime())) {
       return 'Invalid Date';
+    }
     return d.toLocaleDateString();
   } catch (error) {
     return 'Invalid Date';
+  }
+};
 
-export const formatDateTime = (date: Date | string | number): string: unknown=> {
+export const formatDateTime = (date: Date | string | number): string => {
   try {
     const d = new Date(date);
     if (isNaN(d.getTime())) {
       return 'Invalid Date';
+    }
     return d.toLocaleString();
   } catch (error) {
     return 'Invalid Date';
+  }
+};
 
-export const formatRelativeTime = (date: Date | string | number): string: unknown=> {
+export const formatRelativeTime = (date: Date | string | number): string => {
   try {
     const d = new Date(date);
     if (isNaN(d.getTime())) {
       return 'Invalid Date';
-    
+    }
+
     const now = new Date();
     const diffMs = now.getTime() - d.getTime();
     const diffSeconds = Math.floor(diffMs / 1000);
@@ -40,24 +47,31 @@ export const formatRelativeTime = (date: Date | string | number): string: unknow
       return diffDays + ' day' + (diffDays !== 1 ? 's' : '') + ' ago';
     } else {
       return formatDate(d);
+    }
   } catch (error) {
     return 'Invalid Date';
+  }
+};
 
-export const isValidDate = (date),: boolean: unknown=> {
+export const isValidDate = (date: Date | string | number): boolean => {
   try {
     const d = new Date(date);
     return !isNaN(d.getTime());
   } catch (error) {
     return false;
+  }
+};
 
-export const formatDuration = (seconds: number): string: unknown=> {
+export const formatDuration = (seconds: number): string => {
   if (seconds < 0) return '0:00';
-  
+
   const hours = Math.floor(seconds / 3600);
   const minutes = Math.floor((seconds % 3600) / 60);
   const remainingSeconds = Math.floor(seconds % 60);
-  
+
   if (hours > 0) {
     return hours + ':' + minutes.toString().padStart(2, '0') + ':' + remainingSeconds.toString().padStart(2, '0');
   } else {
-    return minutes + ':' + remainingSeconds.toString().padStart(2, '0');
\ No newline at end of file
+    return minutes + ':' + remainingSeconds.toString().padStart(2, '0');
+  }
+};
@@ -0,0 +1,54 @@
+/**
+ * Small promise wrappers over IndexedDB shared by the offline stores.
+ */
+
+export class IndexedDbUnsupportedError extends Error {
+  constructor() {
+    super('IndexedDB is not available in this browser');
+    this.name = 'IndexedDbUnsupportedError';
+  }
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Returns a memoized opener for one database. `upgrade` creates the object
+ * stores; a failed open is not cached, so the next call tries again.
+ */
+export function createDatabaseOpener(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): () => Promise<IDBDatabase> {
+  let pending: Promise<IDBDatabase> | null = null;
+  return () => {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new IndexedDbUnsupportedError());
+    }
+    if (!pending) {
+      pending = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          pending = null;
+          reject(request.error);
+        };
+      });
+    }
+    return pending;
+  };
+}
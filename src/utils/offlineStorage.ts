@@ -1,6 +1,443 @@
-// offlineStorage - Simple Implementation;
+/**
+ * Offline video downloads.
+ *
+ * Videos are fetched in ranges and stored as fixed-size chunks in IndexedDB so
+ * a download can be paused, resumed after a reload, and served back with
+ * byte-range support. public/sw.js reads the same database to answer
+ * `/offline/videos/:id` requests, so the names below must stay in sync with it.
+ */
+
+import { createDatabaseOpener, IndexedDbUnsupportedError, requestToPromise, transactionDone } from './indexedDb';
+
+export const OFFLINE_DB_NAME = 'youtubex-offline';
+export const OFFLINE_DB_VERSION = 1;
+export const DOWNLOADS_STORE = 'downloads';
+export const CHUNKS_STORE = 'chunks';
+
+/** Bytes per stored chunk and per range request */
+export const CHUNK_SIZE = 2 * 1024 * 1024;
+/** Downloads are deleted this long after they finish unless renewed */
+export const DEFAULT_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000;
+/** Upper bound on space used by downloads, whatever the browser would allow */
+export const MAX_OFFLINE_BYTES = 5 * 1024 * 1024 * 1024;
+/** Share of the browser's remaining quota downloads may use, leaving room for caches */
+const QUOTA_HEADROOM = 0.9;
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'complete' | 'error';
+
+export interface OfflineVideoMeta {
+  videoId: string;
+  title: string;
+  thumbnail?: string;
+  channelName?: string;
+  /** Display duration, e.g. "12:34" */
+  duration?: string;
+  /** URL of the progressive (single-file) rendition to save */
+  sourceUrl: string;
+}
+
+export interface OfflineDownload extends OfflineVideoMeta {
+  /** Same as `videoId`; one download per video */
+  id: string;
+  status: DownloadStatus;
+  mimeType: string;
+  /** Total size in bytes, or 0 until the server reports it */
+  size: number;
+  downloadedBytes: number;
+  chunkCount: number;
+  createdAt: number;
+  completedAt?: number;
+  expiresAt?: number;
+  error?: string;
+}
+
+interface StoredChunk {
+  videoId: string;
+  index: number;
+  data: Blob;
+}
+
+export interface OfflineUsage {
+  /** Bytes held by downloads */
+  used: number;
+  /** Bytes downloads may grow to */
+  limit: number;
+}
+
+export class OfflineStorageError extends Error {
+  constructor(message: string, public readonly code: 'unsupported' | 'quota' | 'network' | 'not-found') {
+    super(message);
+    this.name = 'OfflineStorageError';
+  }
+}
+
+type DownloadListener = (downloads: OfflineDownload[]) => void;
+
+const listeners = new Set<DownloadListener>();
+const controllers = new Map<string, AbortController>();
+
+const openDatabase = createDatabaseOpener(OFFLINE_DB_NAME, OFFLINE_DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(DOWNLOADS_STORE)) {
+    db.createObjectStore(DOWNLOADS_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+    db.createObjectStore(CHUNKS_STORE, { keyPath: ['videoId', 'index'] });
+  }
+});
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase().catch((error: unknown) => {
+    throw error instanceof IndexedDbUnsupportedError
+      ? new OfflineStorageError('Offline storage is not supported in this browser', 'unsupported')
+      : error;
+  });
+  return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+}
+
+/** Key range covering every chunk of one video */
+const chunkRange = (videoId: string) => IDBKeyRange.bound([videoId, 0], [videoId, Infinity]);
+
+export async function getDownloads(): Promise<OfflineDownload[]> {
+  const downloads = await withStore<OfflineDownload[]>(DOWNLOADS_STORE, 'readonly', store => store.getAll());
+  return downloads.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getDownload(videoId: string): Promise<OfflineDownload | undefined> {
+  return withStore<OfflineDownload | undefined>(DOWNLOADS_STORE, 'readonly', store => store.get(videoId));
+}
+
+async function saveDownload(download: OfflineDownload): Promise<void> {
+  await withStore(DOWNLOADS_STORE, 'readwrite', store => store.put(download));
+  // The record is saved; a failed listener refresh must not fail the download
+  await notify().catch((error: unknown) => console.error('Failed to notify download listeners:', error));
+}
+
+async function notify(): Promise<void> {
+  if (!listeners.size) {
+    return;
+  }
+  const downloads = await getDownloads();
+  listeners.forEach(listener => listener(downloads));
+}
+
+/** Calls `listener` with the full list whenever a download changes. Returns an unsubscribe function. */
+export function subscribeToDownloads(listener: DownloadListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function getOfflineUsage(): Promise<OfflineUsage> {
+  const downloads = await getDownloads();
+  const used = downloads.reduce((total, download) => total + download.downloadedBytes, 0);
+  let limit = MAX_OFFLINE_BYTES;
+  if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    // Space we already hold counts towards what we may use
+    limit = Math.min(limit, used + Math.max(0, quota * QUOTA_HEADROOM - usage));
+  }
+  return { used, limit };
+}
+
+async function ensureSpace(bytes: number): Promise<void> {
+  const { used, limit } = await getOfflineUsage();
+  if (used + bytes > limit) {
+    throw new OfflineStorageError('Not enough storage space for this download', 'quota');
+  }
+}
+
+/** Parses the total from `Content-Range: bytes 0-99/1234` */
+function parseContentRangeTotal(header: string | null): number {
+  const match = header ? /\/(\d+)\s*$/.exec(header) : null;
+  return match ? Number(match[1]) : 0;
+}
+
+async function putChunk(chunk: StoredChunk): Promise<void> {
+  await withStore(CHUNKS_STORE, 'readwrite', store => store.put(chunk));
+}
+
+/**
+ * Appends `data` as the download's next chunk and records the progress.
+ * Returns false, leaving the record untouched, when the download was paused
+ * or deleted while the chunk was being written.
+ */
+async function appendChunk(download: OfflineDownload, data: Blob, signal: AbortSignal): Promise<boolean> {
+  const key: [string, number] = [download.id, download.chunkCount];
+  await putChunk({ videoId: download.id, index: download.chunkCount, data });
+  if (signal.aborted) {
+    // Saving now would overwrite the paused status or recreate a deleted record
+    await withStore(CHUNKS_STORE, 'readwrite', store => store.delete(key));
+    return false;
+  }
+  download.chunkCount += 1;
+  download.downloadedBytes += data.size;
+  await saveDownload(download);
+  return true;
+}
+
+/**
+ * Stores a full (non-range) response body, for servers that ignore Range.
+ * Starts over from the first chunk since nothing can be skipped.
+ */
+async function storeWholeResponse(download: OfflineDownload, response: Response, signal: AbortSignal): Promise<void> {
+  const total = Number(response.headers.get('Content-Length')) || 0;
+  if (total) {
+    await ensureSpace(total);
+  }
+  download.size = total;
+  download.downloadedBytes = 0;
+  download.chunkCount = 0;
+  if (!response.body) {
+    throw new OfflineStorageError('Empty response', 'network');
+  }
+  const reader = response.body.getReader();
+  let pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+  const flush = async () => {
+    const data = new Blob(pending as BlobPart[], { type: download.mimeType });
+    pending = [];
+    pendingBytes = 0;
+    return appendChunk(download, data, signal);
+  };
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (signal.aborted) {
+      await reader.cancel();
+      return;
+    }
+    if (done) {
+      break;
+    }
+    pending.push(value);
+    pendingBytes += value.byteLength;
+    if (pendingBytes >= CHUNK_SIZE && !(await flush())) {
+      return;
+    }
+  }
+  if (pendingBytes && !signal.aborted && !(await flush())) {
+    return;
+  }
+  download.size = download.downloadedBytes;
+}
+
+async function runDownload(download: OfflineDownload, signal: AbortSignal): Promise<void> {
+  download.status = 'downloading';
+  download.error = undefined;
+  await saveDownload(download);
+
+  while (!signal.aborted && (!download.size || download.downloadedBytes < download.size)) {
+    const start = download.downloadedBytes;
+    let response: Response;
+    try {
+      response = await fetch(download.sourceUrl, {
+        headers: { Range: `bytes=${start}-${start + CHUNK_SIZE - 1}` },
+        signal
+      });
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      throw new OfflineStorageError(error instanceof Error ? error.message : 'Network error', 'network');
+    }
+
+    if (response.status === 200) {
+      download.mimeType = response.headers.get('Content-Type') || download.mimeType;
+      await withStore(CHUNKS_STORE, 'readwrite', store => store.delete(chunkRange(download.id)));
+      await storeWholeResponse(download, response, signal);
+      break;
+    }
+    if (response.status === 416 && download.size) {
+      // Asked past the end; what we have is complete
+      break;
+    }
+    if (response.status !== 206) {
+      throw new OfflineStorageError(`Download failed (HTTP ${response.status})`, 'network');
+    }
+
+    if (!download.size) {
+      download.size = parseContentRangeTotal(response.headers.get('Content-Range'));
+      download.mimeType = response.headers.get('Content-Type') || download.mimeType;
+      if (download.size) {
+        await ensureSpace(download.size);
+      }
+    }
+    const data = await response.blob();
+    if (signal.aborted) {
+      // Paused or deleted while this chunk was in flight
+      return;
+    }
+    if (!data.size) {
+      break;
+    }
+    if (!download.size && data.size < CHUNK_SIZE) {
+      // Server gave no total; a short chunk means we reached the end
+      download.size = download.downloadedBytes + data.size;
+    }
+    if (!(await appendChunk(download, data, signal))) {
+      return;
+    }
+  }
+
+  if (signal.aborted) {
+    return;
+  }
+  download.status = 'complete';
+  download.completedAt = Date.now();
+  download.expiresAt = download.completedAt + DEFAULT_EXPIRY_MS;
+  await saveDownload(download);
+}
+
+function startDownload(download: OfflineDownload): void {
+  const controller = new AbortController();
+  controllers.set(download.id, controller);
+  runDownload(download, controller.signal)
+    .catch(async (error: unknown) => {
+      if (controller.signal.aborted) {
+        return;
+      }
+      download.status = 'error';
+      download.error = error instanceof Error ? error.message : String(error);
+      await saveDownload(download);
+    })
+    .finally(() => {
+      if (controllers.get(download.id) === controller) {
+        controllers.delete(download.id);
+      }
+    });
+}
+
+/**
+ * Saves a video for offline viewing. Resolves once the download is queued;
+ * follow its progress with `subscribeToDownloads`. Saving a video that is
+ * already downloaded or in progress returns the existing record.
+ */
+export async function downloadVideo(meta: OfflineVideoMeta): Promise<OfflineDownload> {
+  const existing = await getDownload(meta.videoId);
+  if (existing && existing.status !== 'error' && existing.status !== 'paused') {
+    return existing;
+  }
+  await ensureSpace(0);
+  if (typeof navigator !== 'undefined' && navigator.storage?.persist) {
+    // Ask the browser not to evict downloads under storage pressure
+    navigator.storage.persist().catch(() => undefined);
+  }
+  const download: OfflineDownload = existing
+    ? { ...existing, ...meta }
+    : {
+      ...meta,
+      id: meta.videoId,
+      status: 'queued',
+      mimeType: 'video/mp4',
+      size: 0,
+      downloadedBytes: 0,
+      chunkCount: 0,
+      createdAt: Date.now()
+    };
+  await saveDownload(download);
+  startDownload(download);
+  return download;
+}
+
+export async function pauseDownload(videoId: string): Promise<void> {
+  controllers.get(videoId)?.abort();
+  controllers.delete(videoId);
+  const download = await getDownload(videoId);
+  if (download && download.status !== 'complete') {
+    await saveDownload({ ...download, status: 'paused' });
+  }
+}
+
+export async function resumeDownload(videoId: string): Promise<void> {
+  const download = await getDownload(videoId);
+  if (!download) {
+    throw new OfflineStorageError('Download not found', 'not-found');
+  }
+  if (download.status !== 'complete' && !controllers.has(videoId)) {
+    startDownload(download);
+  }
+}
+
+export async function deleteDownload(videoId: string): Promise<void> {
+  controllers.get(videoId)?.abort();
+  controllers.delete(videoId);
+  const db = await openDatabase();
+  const transaction = db.transaction([DOWNLOADS_STORE, CHUNKS_STORE], 'readwrite');
+  transaction.objectStore(DOWNLOADS_STORE).delete(videoId);
+  transaction.objectStore(CHUNKS_STORE).delete(chunkRange(videoId));
+  await transactionDone(transaction);
+  await notify();
+}
+
+/** Extends a finished download's expiry, e.g. when it is watched. */
+export async function renewDownload(videoId: string): Promise<void> {
+  const download = await getDownload(videoId);
+  if (download?.status === 'complete') {
+    await saveDownload({ ...download, expiresAt: Date.now() + DEFAULT_EXPIRY_MS });
+  }
+}
+
+/** Deletes expired downloads. Returns how many were removed. */
+export async function purgeExpiredDownloads(now = Date.now()): Promise<number> {
+  const expired = (await getDownloads()).filter(download => download.expiresAt !== undefined && download.expiresAt <= now);
+  for (const download of expired) {
+    await deleteDownload(download.id);
+  }
+  return expired.length;
+}
+
+/**
+ * Restarts downloads interrupted by a reload. Downloads left as "downloading"
+ * lost their fetch with the page, so they continue from the last stored chunk.
+ */
+export async function resumeInterruptedDownloads(): Promise<void> {
+  for (const download of await getDownloads()) {
+    if ((download.status === 'downloading' || download.status === 'queued') && !controllers.has(download.id)) {
+      startDownload(download);
+    }
+  }
+}
+
+/** URL the service worker serves the saved file from, with range support. */
+export function getOfflineVideoUrl(videoId: string): string {
+  return `/offline/videos/${encodeURIComponent(videoId)}`;
+}
+
+/**
+ * Playable URL for a finished download: the service worker route when a
+ * worker controls the page, otherwise an object URL of the reassembled file.
+ * Object URLs must be released with `URL.revokeObjectURL` by the caller.
+ */
+export async function getOfflinePlaybackUrl(videoId: string): Promise<string> {
+  if (typeof navigator !== 'undefined' && navigator.serviceWorker?.controller) {
+    return getOfflineVideoUrl(videoId);
+  }
+  const download = await getDownload(videoId);
+  if (!download || download.status !== 'complete') {
+    throw new OfflineStorageError('Video is not available offline', 'not-found');
+  }
+  const chunks = await withStore<StoredChunk[]>(CHUNKS_STORE, 'readonly', store => store.getAll(chunkRange(videoId)));
+  return URL.createObjectURL(new Blob(chunks.map(chunk => chunk.data), { type: download.mimeType }));
+}
+
 export const offlineStorage = {
-  enabled: true,
-  process: (data: unknown) => data, 
+  downloadVideo,
+  pauseDownload,
+  resumeDownload,
+  deleteDownload,
+  renewDownload,
+  getDownloads,
+  getDownload,
+  getOfflineUsage,
+  purgeExpiredDownloads,
+  resumeInterruptedDownloads,
+  subscribeToDownloads,
+  getOfflineVideoUrl,
+  getOfflinePlaybackUrl
+};
 
-export default offlineStorage;
\ No newline at end of file
+export default offlineStorage;
@@ -0,0 +1,336 @@
+/**
+ * Durable outbox for user actions (likes, subscriptions, playlist edits,
+ * comments).
+ *
+ * Every action is written to IndexedDB before it is sent, then replayed in
+ * order by the service worker's Background Sync (public/sw.js, tag
+ * `user-actions`) or, where that is unavailable, from the page when the
+ * connection returns. Each action carries its id as an `Idempotency-Key` and
+ * the time it happened as `X-Occurred-At`, so a replay that already reached
+ * the server applies once and a stale action loses to a newer change.
+ *
+ * public/sw.js reads and writes the same database, so the names below must
+ * stay in sync with it.
+ */
+
+import { createDatabaseOpener, requestToPromise, transactionDone } from './indexedDb';
+
+export const OUTBOX_DB_NAME = 'youtubex-sync';
+export const OUTBOX_DB_VERSION = 1;
+export const OUTBOX_STORE = 'outbox';
+/** Outcomes settled by the service worker while no page was listening */
+export const RESULTS_STORE = 'results';
+export const SYNC_TAG = 'user-actions';
+/** Transient failures before an action is given up on */
+export const MAX_ATTEMPTS = 5;
+
+export type OutboxActionKind =
+  | 'like'
+  | 'unlike'
+  | 'subscribe'
+  | 'unsubscribe'
+  | 'playlist-add'
+  | 'playlist-remove'
+  | 'comment';
+
+export interface OutboxActionInput {
+  kind: OutboxActionKind;
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  url: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /**
+   * Actions on the same resource replace each other while unsent, e.g.
+   * `like:<videoId>`. Omit for actions that must all be delivered.
+   */
+  resourceKey?: string;
+  /** Whatever is needed to undo the optimistic update, e.g. the liked video */
+  payload?: unknown;
+}
+
+export interface OutboxAction extends OutboxActionInput {
+  /** Also sent as the Idempotency-Key */
+  id: string;
+  occurredAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+/**
+ * - `confirmed`: the server applied the action (or already had).
+ * - `rejected`: the server refused it, or it kept failing; undo it locally.
+ * - `superseded`: replaced by a newer action on the same resource before it was sent.
+ */
+export type OutboxOutcome = 'confirmed' | 'rejected' | 'superseded';
+
+export interface OutboxResult {
+  id: string;
+  action: OutboxAction;
+  outcome: OutboxOutcome;
+  status?: number;
+  /** Parsed response body; for conflicts, the server's current state */
+  response?: unknown;
+  error?: string;
+  settledAt: number;
+}
+
+type SettledListener = (result: OutboxResult) => void;
+type PendingListener = (count: number) => void;
+
+const settledListeners = new Set<SettledListener>();
+const pendingListeners = new Set<PendingListener>();
+let replaying: Promise<void> | null = null;
+let started = false;
+
+const openDatabase = createDatabaseOpener(OUTBOX_DB_NAME, OUTBOX_DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+    db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+    db.createObjectStore(RESULTS_STORE, { keyPath: 'id' });
+  }
+});
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+}
+
+const createActionId = (): string =>
+  typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `action-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/** Pending actions, oldest first */
+export async function getPendingActions(): Promise<OutboxAction[]> {
+  const actions = await withStore<OutboxAction[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+  return actions.sort((a, b) => a.occurredAt - b.occurredAt);
+}
+
+async function notifyPending(): Promise<void> {
+  if (!pendingListeners.size) {
+    return;
+  }
+  const count = await withStore<number>(OUTBOX_STORE, 'readonly', store => store.count());
+  pendingListeners.forEach(listener => listener(count));
+}
+
+function emitSettled(result: OutboxResult): void {
+  settledListeners.forEach(listener => listener(result));
+}
+
+/** Calls `listener` once for every action the server confirms or rejects. Returns an unsubscribe function. */
+export function onActionSettled(listener: SettledListener): () => void {
+  settledListeners.add(listener);
+  return () => {
+    settledListeners.delete(listener);
+  };
+}
+
+/** Calls `listener` with the number of unsent actions whenever it changes. Returns an unsubscribe function. */
+export function subscribeToPendingCount(listener: PendingListener): () => void {
+  pendingListeners.add(listener);
+  notifyPending().catch(() => undefined);
+  return () => {
+    pendingListeners.delete(listener);
+  };
+}
+
+async function settle(action: OutboxAction, outcome: OutboxOutcome, details: Partial<OutboxResult> = {}): Promise<void> {
+  await withStore(OUTBOX_STORE, 'readwrite', store => store.delete(action.id));
+  emitSettled({ id: action.id, action, outcome, settledAt: Date.now(), ...details });
+  await notifyPending();
+}
+
+/**
+ * Queues an action and schedules delivery. Resolves once it is stored, with
+ * the action whose `id` identifies it in later `onActionSettled` results.
+ */
+export async function enqueueAction(input: OutboxActionInput): Promise<OutboxAction> {
+  const action: OutboxAction = { ...input, id: createActionId(), occurredAt: Date.now(), attempts: 0 };
+
+  const db = await openDatabase();
+  const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+  const store = transaction.objectStore(OUTBOX_STORE);
+  const superseded: OutboxAction[] = [];
+  if (action.resourceKey) {
+    const pending = await requestToPromise<OutboxAction[]>(store.getAll());
+    for (const existing of pending) {
+      // An action already being attempted may have reached the server; keep it so order is preserved
+      if (existing.resourceKey === action.resourceKey && existing.attempts === 0) {
+        store.delete(existing.id);
+        superseded.push(existing);
+      }
+    }
+  }
+  store.put(action);
+  await transactionDone(transaction);
+
+  superseded.forEach(existing => emitSettled({ id: existing.id, action: existing, outcome: 'superseded', settledAt: Date.now() }));
+  await notifyPending();
+  requestSync();
+  return action;
+}
+
+/** Statuses worth retrying: timeouts, rate limits and server errors */
+const isTransientStatus = (status: number): boolean => status === 408 || status === 429 || status >= 500;
+
+async function readBody(response: Response): Promise<unknown> {
+  if (response.status === 204) {
+    return undefined;
+  }
+  return response.json().catch(() => undefined);
+}
+
+/**
+ * Sends one action. Returns false when it should be retried later, which
+ * also stops the replay so later actions do not overtake it.
+ */
+async function deliver(action: OutboxAction): Promise<boolean> {
+  let response: Response;
+  try {
+    response = await fetch(action.url, {
+      method: action.method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': action.id,
+        'X-Occurred-At': new Date(action.occurredAt).toISOString(),
+        ...action.headers
+      },
+      body: action.body === undefined ? undefined : JSON.stringify(action.body)
+    });
+  } catch (error) {
+    return retryLater(action, error instanceof Error ? error.message : 'Network error');
+  }
+
+  const body = await readBody(response);
+  if (response.ok) {
+    await settle(action, 'confirmed', { status: response.status, response: body });
+    return true;
+  }
+  // The same key is still being processed elsewhere, e.g. by the service worker
+  const inFlight = response.status === 409 && response.headers.has('Retry-After');
+  if (inFlight || isTransientStatus(response.status)) {
+    return retryLater(action, `HTTP ${response.status}`);
+  }
+  // 409 means a newer change won; other client errors will never succeed
+  const message = (body as { message?: string } | undefined)?.message;
+  await settle(action, 'rejected', { status: response.status, response: body, error: message || `HTTP ${response.status}` });
+  return true;
+}
+
+async function retryLater(action: OutboxAction, error: string): Promise<boolean> {
+  const attempts = action.attempts + 1;
+  if (attempts >= MAX_ATTEMPTS) {
+    await settle(action, 'rejected', { error });
+    return true;
+  }
+  await withStore(OUTBOX_STORE, 'readwrite', store => store.put({ ...action, attempts, lastError: error }));
+  return false;
+}
+
+/**
+ * Sends pending actions in the order they happened, stopping at the first
+ * one that cannot be delivered yet. Concurrent calls share one run.
+ */
+export function replayOutbox(): Promise<void> {
+  if (!replaying) {
+    replaying = (async () => {
+      for (const action of await getPendingActions()) {
+        if (!(await deliver(action))) {
+          break;
+        }
+      }
+    })().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+/** Emits and clears outcomes the service worker recorded. */
+async function drainResults(): Promise<void> {
+  const results = await withStore<OutboxResult[]>(RESULTS_STORE, 'readonly', store => store.getAll());
+  if (!results.length) {
+    return;
+  }
+  await withStore(RESULTS_STORE, 'readwrite', store => store.clear());
+  results.sort((a, b) => a.settledAt - b.settledAt).forEach(emitSettled);
+  await notifyPending();
+}
+
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync: { register(tag: string): Promise<void> };
+}
+
+const supportsBackgroundSync = (): boolean =>
+  typeof navigator !== 'undefined' && 'serviceWorker' in navigator && typeof window !== 'undefined' && 'SyncManager' in window;
+
+/**
+ * Hands delivery to Background Sync, which runs as soon as the browser is
+ * online, even if this page has closed. Without it, replays from the page.
+ */
+function requestSync(): void {
+  if (supportsBackgroundSync()) {
+    navigator.serviceWorker.ready
+      .then(registration => (registration as SyncCapableRegistration).sync.register(SYNC_TAG))
+      .catch(() => replayFromPage());
+    return;
+  }
+  replayFromPage();
+}
+
+function replayFromPage(): void {
+  if (typeof navigator === 'undefined' || navigator.onLine) {
+    replayOutbox().catch(() => undefined);
+  }
+}
+
+/**
+ * Starts delivery for this page: picks up outcomes settled while it was
+ * closed, listens for the service worker's results, and replays on
+ * reconnect when Background Sync is unavailable. Safe to call repeatedly.
+ */
+export function startOutbox(): void {
+  if (started || typeof window === 'undefined') {
+    return;
+  }
+  started = true;
+
+  if (typeof navigator !== 'undefined' && 'serviceWorker' in navigator) {
+    navigator.serviceWorker.addEventListener('message', event => {
+      if (event.data?.type === 'outbox-settled') {
+        drainResults().catch(() => undefined);
+      }
+    });
+  }
+  window.addEventListener('online', () => {
+    if (!supportsBackgroundSync()) {
+      replayOutbox().catch(() => undefined);
+    }
+  });
+
+  drainResults()
+    .then(() => getPendingActions())
+    .then(pending => {
+      if (pending.length) {
+        requestSync();
+      }
+    })
+    .catch(() => undefined);
+}
+
+export const syncOutbox = {
+  enqueueAction,
+  getPendingActions,
+  replayOutbox,
+  startOutbox,
+  onActionSettled,
+  subscribeToPendingCount
+};
+
+export default syncOutbox;
@@ -1,6 +1,43 @@
-// youtubeApiUtils - Simple Implementation;
-export const youtubeApiUtils = {
-  enabled: true,
-  process: (data: unknown) => data, 
+// youtubeApiUtils - durations, categories and availability of the YouTube Data API
+import { youtubeDataApi } from '../services/api/youtubeDataApiClient';
 
-export default youtubeApiUtils;
\ No newline at end of file
+// videoCategoryId for the category names the app uses (US region)
+export const YOUTUBE_CATEGORY_IDS: Record<string, string> = {
+  music: '10',
+  sports: '17',
+  gaming: '20',
+  entertainment: '24',
+  news: '25',
+  education: '27',
+  technology: '28',
+};
+
+const CATEGORY_NAMES = Object.fromEntries(
+  Object.entries(YOUTUBE_CATEGORY_IDS).map(([name, id]) => [id, name.charAt(0).toUpperCase() + name.slice(1)])
+);
+
+/** "Music" for category 10, and so on; undefined for categories the app doesn't show */
+export const getYouTubeCategoryName = (categoryId: string | undefined): string | undefined =>
+  categoryId ? CATEGORY_NAMES[categoryId] : undefined;
+
+/** "PT1H2M3S" to 3723; null when it isn't an ISO 8601 duration */
+export const parseIsoDuration = (iso: string): number | null => {
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(iso);
+  if (!match || iso === 'P' || iso.endsWith('T')) {
+    return null;
+  }
+  const [, days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  return ((Number(days) * 24 + Number(hours)) * 60 + Number(minutes)) * 60 + Number(seconds);
+};
+
+/** "PT1H2M3S" to "1:02:03"; anything unparseable is "0:00" */
+export const formatIsoDuration = (iso: string): string => {
+  const total = parseIsoDuration(iso) ?? 0;
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+/** True once today's YouTube Data API quota is used up; cached data is all there is until it resets */
+export const isYouTubeDataApiBlocked = (): boolean => youtubeDataApi.isQuotaExhausted();
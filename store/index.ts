@@ -1,139 +1,176 @@
-import type { Video } from '../types.ts';
-import type { Channel } from '../types.ts';
 import { create } from 'zustand';
-import { devtools, persist, subscribeWithSelector } from 'zustand / middleware';
-import { immer } from 'zustand / middleware / immer';
-
-import type { Video, Channel } from '../src / types / core';
-import type { UserPlaylist } from '../types.ts';
+import { devtools, persist, subscribeWithSelector } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { useShallow } from 'zustand/react/shallow';
+
+import type { Video, Channel } from '../src/types/core';
+import type { UserPlaylist } from '../types';
+import { OptimisticUpdatesManager } from '../stores/storeUtils';
+import { enqueueAction, getPendingActions, onActionSettled, startOutbox } from '../src/utils/syncOutbox';
+import type { OutboxAction, OutboxActionInput } from '../src/utils/syncOutbox';
+import type { SearchSuggestion, TrendingQuery } from '../src/types/search';
+
+// A playlist as kept in the library, with its videos loaded
+export interface LibraryPlaylist extends UserPlaylist {
+ videos?: Video[];
+ videoCount?: number;
+}
 
 // App State Interface
 interface AppState {
- // UI State,
- theme: 'light' | 'dark' | 'system';,
+ // UI State
+ theme: 'light' | 'dark' | 'system';
  sidebarCollapsed: boolean;
- miniplayerVisible: boolean;,
+ miniplayerVisible: boolean;
  miniplayerVideo: Video | null;
 
- // User State,
- user: {,
+ // User State
+ user: {
  id: string | null;
- name: string | null;,
+ name: string | null;
  avatar: string | null;
- isAuthenticated: boolean
+ isAuthenticated: boolean;
  };
 
- // Video State,
- videos: {,
+ // Video State
+ videos: {
  home: Video[];
- trending: Video[];,
+ trending: Video[];
  subscriptions: Video[];
- watchLater: Video[];,
+ watchLater: Video[];
  history: Video[];
- liked: Video[]
+ liked: Video[];
  };
 
- // Channel State,
- channels: {,
+ // Channel State
+ channels: {
  subscribed: Channel[];
- recommended: Channel[]
+ recommended: Channel[];
  };
 
- // Playlist State,
- playlists: UserPlaylist[];
+ // Playlist State
+ playlists: LibraryPlaylist[];
 
- // Search State,
- search: {,
+ // Search State
+ search: {
  query: string;
- results: Video[];,
- suggestions: string[];
- isLoading: boolean
+ results: Video[];
+ // Completions for `query`, the user's own history first
+ suggestions: SearchSuggestion[];
+ // Queries trending now, most popular first
+ trending: TrendingQuery[];
+ isLoading: boolean;
  };
 
- // Loading States,
- loading: {,
+ // Loading States
+ loading: {
  videos: boolean;
- channels: boolean;,
+ channels: boolean;
  playlists: boolean;
- user: boolean
+ user: boolean;
  };
 
- // Error States,
- errors: {,
+ // Error States
+ errors: {
  videos: string | null;
- channels: string | null;,
+ channels: string | null;
  playlists: string | null;
- user: string | null
+ user: string | null;
  };
 }
 
 // Actions Interface
 interface AppActions {
- // UI Actions,
- setTheme: (theme: AppState['theme']) => void;,
+ // UI Actions
+ setTheme: (theme: AppState['theme']) => void;
  toggleSidebar: () => void;
- setSidebarCollapsed: (collapsed) => void;,
- showMiniplayer: (video: Video) => void;,
+ setSidebarCollapsed: (collapsed: boolean) => void;
+ showMiniplayer: (video: Video) => void;
  hideMiniplayer: () => void;
 
- // User Actions,
- setUser: (user: Partial < AppState['user']>) => void;,
+ // User Actions
+ setUser: (user: Partial<AppState['user']>) => void;
  logout: () => void;
 
- // Video Actions,
- setVideos: (category: keyof AppState['videos'], videos: Video[]) => void;,
- addToWatchLater: (video: Video) => void;,
- removeFromWatchLater: (videoId) => void;
- addToHistory: (video: Video) => void;,
+ // Video Actions
+ setVideos: (category: keyof AppState['videos'], videos: Video[]) => void;
+ addToWatchLater: (video: Video) => void;
+ removeFromWatchLater: (videoId: string) => void;
+ addToHistory: (video: Video) => void;
  clearHistory: () => void;
- likeVideo: (video: Video) => void;,
- unlikeVideo: (videoId) => void;
-
- // Channel Actions,
- setChannels: (category: keyof AppState['channels'], channels: Channel[]) => void;,
- subscribeToChannel: (channel: Channel) => void;,
- unsubscribeFromChannel: (channelId) => void;
-
- // Playlist Actions,
- setPlaylists: (playlists: UserPlaylist[]) => void;,
- createPlaylist: (playlist: Omit < UserPlaylist, 'id' | 'createdAt' | 'updatedAt'>) => void;
- updatePlaylist: (id, updates: Partial < UserPlaylist>) => void;,
- deletePlaylist: (id) => void;
- addVideoToPlaylist: (playlistId, video: Video) => void;,
- removeVideoFromPlaylist: (playlistId, videoId) => void;
-
- // Search Actions,
- setSearchQuery: (query) => void;,
- setSearchResults: (results: Video[]) => void;,
- setSearchSuggestions: (suggestions) => void;
- setSearchLoading: (loading) => void;,
+ likeVideo: (video: Video) => void;
+ unlikeVideo: (videoId: string) => void;
+
+ // Channel Actions
+ setChannels: (category: keyof AppState['channels'], channels: Channel[]) => void;
+ subscribeToChannel: (channel: Channel) => void;
+ unsubscribeFromChannel: (channelId: string) => void;
+
+ // Playlist Actions
+ setPlaylists: (playlists: LibraryPlaylist[]) => void;
+ createPlaylist: (playlist: Omit<LibraryPlaylist, 'id' | 'createdAt' | 'updatedAt'>) => void;
+ updatePlaylist: (id: string, updates: Partial<LibraryPlaylist>) => void;
+ deletePlaylist: (id: string) => void;
+ addVideoToPlaylist: (playlistId: string, video: Video) => void;
+ removeVideoFromPlaylist: (playlistId: string, videoId: string) => void;
+
+ // Search Actions
+ setSearchQuery: (query: string) => void;
+ setSearchResults: (results: Video[]) => void;
+ setSearchSuggestions: (suggestions: SearchSuggestion[]) => void;
+ setTrendingQueries: (trending: TrendingQuery[]) => void;
+ setSearchLoading: (loading: boolean) => void;
  clearSearch: () => void;
 
- // Loading Actions,
- setLoading: (category: keyof AppState['loading'], loading) => void;
+ // Loading Actions
+ setLoading: (category: keyof AppState['loading'], loading: boolean) => void;
 
- // Error Actions,
- setError: (category: keyof AppState['errors'], error: string | null) => void;,
+ // Error Actions
+ setError: (category: keyof AppState['errors'], error: string | null) => void;
  clearErrors: () => void;
 
- // Utility Actions,
- reset: () => void
+ // Utility Actions
+ reset: () => void;
 }
 
+type AppStore = AppState & AppActions;
+
+const addToPlaylistDraft = (state: AppState, playlistId: string, video: Video) => {
+ const playlist = state.playlists.find(p => p.id === playlistId);
+ if (!playlist || playlist.videos?.some(v => v.id === video.id)) {
+ return;
+ }
+ if (!playlist.videos) {
+ playlist.videos = [];
+ }
+ playlist.videos.push(video);
+ playlist.videoCount = playlist.videos.length;
+ playlist.updatedAt = new Date().toISOString();
+};
+
+const removeFromPlaylistDraft = (state: AppState, playlistId: string, videoId: string) => {
+ const playlist = state.playlists.find(p => p.id === playlistId);
+ if (playlist?.videos) {
+ playlist.videos = playlist.videos.filter(v => v.id !== videoId);
+ playlist.videoCount = playlist.videos.length;
+ playlist.updatedAt = new Date().toISOString();
+ }
+};
+
 // Initial State
-const initialState: AppState = {,
+const initialState: AppState = {
  theme: 'system',
  sidebarCollapsed: false,
  miniplayerVisible: false,
  miniplayerVideo: null,
 
- user: {,
+ user: {
  id: null,
  name: null,
  avatar: null,
  isAuthenticated: false },
 
- videos: {,
+ videos: {
  home: [],
  trending: [],
  subscriptions: [],
@@ -141,67 +178,88 @@ const initialState: AppState = {,
  history: [],
  liked: [] },
 
- channels: {,
+ channels: {
  subscribed: [],
  recommended: [] },
 
  playlists: [],
 
- search: {,
+ search: {
  query: '',
  results: [],
  suggestions: [],
+ trending: [],
  isLoading: false },
 
- loading: {,
+ loading: {
  videos: false,
  channels: false,
  playlists: false,
  user: false },
 
- errors: {,
+ errors: {
  videos: null,
  channels: null,
  playlists: null,
- user: null };
+ user: null } };
+
+// The slice of state kept across reloads
+type PersistedState = Pick<AppState, 'theme' | 'sidebarCollapsed' | 'user' | 'playlists'> & {
+ videos: Pick<AppState['videos'], 'watchLater' | 'history' | 'liked'>;
+ channels: Pick<AppState['channels'], 'subscribed'>;
+};
+
+// Library changes are applied locally at once and delivered through the
+// sync outbox; each stays tracked here until the server confirms or rejects it.
+const optimisticUpdates = new OptimisticUpdatesManager<OutboxAction>();
+
+const queueAction = (input: OutboxActionInput) => {
+ enqueueAction(input)
+ .then(action => optimisticUpdates.add(action.id, action, () => rollbackAction(action)))
+ .catch((error: unknown) => {
+ // Never queued, so the server will never apply it
+ console.error('Failed to queue action:', error);
+ rollbackAction({ ...input, id: '', occurredAt: Date.now(), attempts: 0 });
+ });
+};
 
 // Create Store
-export const useAppStore = create < AppState & AppActions>()(;
+export const useAppStore = create<AppStore>()(
  devtools(
  persist(
  subscribeWithSelector(
- immer((set) => ({
- ...initialState as any,
+ immer((set, get) => ({
+ ...initialState,
 
- // UI Actions,
- setTheme: (theme) => set((state) => {
+ // UI Actions
+ setTheme: theme => set(state => {
  state.theme = theme;
  }),
 
- toggleSidebar: () => set((state) => {
+ toggleSidebar: () => set(state => {
  state.sidebarCollapsed = !state.sidebarCollapsed;
  }),
 
- setSidebarCollapsed: (collapsed) => set((state) => {
+ setSidebarCollapsed: collapsed => set(state => {
  state.sidebarCollapsed = collapsed;
  }),
 
- showMiniplayer: (video) => set((state) => {
+ showMiniplayer: video => set(state => {
  state.miniplayerVisible = true;
  state.miniplayerVideo = video;
  }),
 
- hideMiniplayer: () => set((state) => {
+ hideMiniplayer: () => set(state => {
  state.miniplayerVisible = false;
  state.miniplayerVideo = null;
  }),
 
- // User Actions,
- setUser: (user) => set((state) => {
+ // User Actions
+ setUser: user => set(state => {
  Object.assign(state.user, user);
  }),
 
- logout: () => set((state) => {
+ logout: () => set(state => {
  state.user = initialState.user;
  state.videos.subscriptions = [];
  state.videos.watchLater = [];
@@ -211,25 +269,24 @@ export const useAppStore = create < AppState & AppActions>()(;
  state.playlists = [];
  }),
 
- // Video Actions,
- setVideos: (category, videos) => set((state) => {
- state.videos.category = videos;
+ // Video Actions
+ setVideos: (category, videos) => set(state => {
+ state.videos[category] = videos;
  }),
 
- addToWatchLater: (video) => set((state) => {
- const exists = state.videos.watchLater.find((v: Video) => v.id === video.id);
- if (!exists) {
+ addToWatchLater: video => set(state => {
+ if (!state.videos.watchLater.some(v => v.id === video.id)) {
  state.videos.watchLater.unshift(video);
  }
  }),
 
- removeFromWatchLater: (videoId) => set((state) => {
- state.videos.watchLater = state.videos.watchLater.filter((v: Video) => v.id !== videoId)
+ removeFromWatchLater: videoId => set(state => {
+ state.videos.watchLater = state.videos.watchLater.filter(v => v.id !== videoId);
  }),
 
- addToHistory: (video) => set((state) => {
+ addToHistory: video => set(state => {
  // Remove if already exists
- state.videos.history = state.videos.history.filter((v: Video) => v.id !== video.id);
+ state.videos.history = state.videos.history.filter(v => v.id !== video.id);
  // Add to beginning
  state.videos.history.unshift(video);
  // Keep only last 100 videos
@@ -238,170 +295,295 @@ export const useAppStore = create < AppState & AppActions>()(;
  }
  }),
 
- clearHistory: () => set((state) => {
+ clearHistory: () => set(state => {
  state.videos.history = [];
  }),
 
- likeVideo: (video) => set((state) => {
- const exists = state.videos.liked.find((v: Video) => v.id === video.id);
- if (!exists) {
- state.videos.liked.unshift(video);
+ likeVideo: video => {
+ if (get().videos.liked.some(v => v.id === video.id)) {
+ return;
  }
- }),
+ set(state => {
+ state.videos.liked.unshift(video);
+ });
+ queueAction({
+ kind: 'like',
+ method: 'PUT',
+ url: `/api/me/likes/${encodeURIComponent(video.id)}`,
+ resourceKey: `like:${video.id}`,
+ payload: video
+ });
+ },
 
- unlikeVideo: (videoId) => set((state) => {
- state.videos.liked = state.videos.liked.filter((v: Video) => v.id !== videoId)
- }),
+ unlikeVideo: videoId => {
+ const video = get().videos.liked.find(v => v.id === videoId);
+ if (!video) {
+ return;
+ }
+ set(state => {
+ state.videos.liked = state.videos.liked.filter(v => v.id !== videoId);
+ });
+ queueAction({
+ kind: 'unlike',
+ method: 'DELETE',
+ url: `/api/me/likes/${encodeURIComponent(videoId)}`,
+ resourceKey: `like:${videoId}`,
+ payload: video
+ });
+ },
 
- // Channel Actions,
- setChannels: (category, channels) => set((state) => {
- state.channels.category = channels;
+ // Channel Actions
+ setChannels: (category, channels) => set(state => {
+ state.channels[category] = channels;
  }),
 
- subscribeToChannel: (channel) => set((state) => {
- const exists = state.channels.subscribed.find((c) => c.id === channel.id);
- if (!exists) {
- state.channels.subscribed.push(channel);
+ subscribeToChannel: channel => {
+ if (get().channels.subscribed.some(c => c.id === channel.id)) {
+ return;
  }
- }),
+ set(state => {
+ state.channels.subscribed.push(channel);
+ });
+ queueAction({
+ kind: 'subscribe',
+ method: 'PUT',
+ url: `/api/me/subscriptions/${encodeURIComponent(channel.id)}`,
+ resourceKey: `subscription:${channel.id}`,
+ payload: channel
+ });
+ },
 
- unsubscribeFromChannel: (channelId) => set((state) => {
- state.channels.subscribed = state.channels.subscribed.filter((c) => c.id !== channelId)
- }),
+ unsubscribeFromChannel: channelId => {
+ const channel = get().channels.subscribed.find(c => c.id === channelId);
+ if (!channel) {
+ return;
+ }
+ set(state => {
+ state.channels.subscribed = state.channels.subscribed.filter(c => c.id !== channelId);
+ });
+ queueAction({
+ kind: 'unsubscribe',
+ method: 'DELETE',
+ url: `/api/me/subscriptions/${encodeURIComponent(channelId)}`,
+ resourceKey: `subscription:${channelId}`,
+ payload: channel
+ });
+ },
 
- // Playlist Actions,
- setPlaylists: (playlists) => set((state) => {
+ // Playlist Actions
+ setPlaylists: playlists => set(state => {
  state.playlists = playlists;
  }),
 
- createPlaylist: (playlist) => set((state) => {
- const newPlaylist: UserPlaylist = {
- ...playlist as any,
+ createPlaylist: playlist => set(state => {
+ const now = new Date().toISOString();
+ state.playlists.push({
+ ...playlist,
  id: `playlist_${Date.now()}`,
- createdAt: new Date().toISOString(),
- updatedAt: new Date().toISOString() };
- state.playlists.push(newPlaylist);
+ createdAt: now,
+ updatedAt: now });
  }),
 
- updatePlaylist: (id, updates) => set((state) => {
- const index = state.playlists.findIndex((p) => p.id === id);
- if (index !== -1) {
- Object.assign(state.playlists.index, updates, {
+ updatePlaylist: (id, updates) => set(state => {
+ const playlist = state.playlists.find(p => p.id === id);
+ if (playlist) {
+ Object.assign(playlist, updates, {
  updatedAt: new Date().toISOString() });
  }
  }),
 
- deletePlaylist: (id) => set((state) => {
- state.playlists = state.playlists.filter((p) => p.id !== id)
+ deletePlaylist: id => set(state => {
+ state.playlists = state.playlists.filter(p => p.id !== id);
  }),
 
- addVideoToPlaylist: (playlistId, video) => set((state) => {
- const playlist = state.playlists.find((p) => p.id === playlistId);
- if (playlist) {
- const exists = playlist.videos?.find((v: Video) => v.id === video.id);
- if (!exists) {
- if (!playlist.videos) {
- playlist.videos = [];
- }
- playlist.videos.push(video);
- playlist.videoCount = playlist.videos.length;
- playlist.updatedAt = new Date().toISOString();
+ addVideoToPlaylist: (playlistId, video) => {
+ const playlist = get().playlists.find(p => p.id === playlistId);
+ if (!playlist || playlist.videos?.some(v => v.id === video.id)) {
+ return;
  }
- }),
+ set(state => {
+ addToPlaylistDraft(state, playlistId, video);
+ });
+ queueAction({
+ kind: 'playlist-add',
+ method: 'PUT',
+ url: `/api/playlists/${encodeURIComponent(playlistId)}/videos/${encodeURIComponent(video.id)}`,
+ resourceKey: `playlist:${playlistId}:${video.id}`,
+ payload: { playlistId, video }
+ });
+ },
 
- removeVideoFromPlaylist: (playlistId, videoId) => set((state) => {
- const playlist = state.playlists.find((p) => p.id === playlistId);
- if (playlist?.videos) {
- playlist.videos = playlist.videos.filter((v: Video) => v.id !== videoId);
- playlist.videoCount = playlist.videos.length;
- playlist.updatedAt = new Date().toISOString();
+ removeVideoFromPlaylist: (playlistId, videoId) => {
+ const video = get().playlists.find(p => p.id === playlistId)?.videos?.find(v => v.id === videoId);
+ if (!video) {
+ return;
  }
- }),
+ set(state => {
+ removeFromPlaylistDraft(state, playlistId, videoId);
+ });
+ queueAction({
+ kind: 'playlist-remove',
+ method: 'DELETE',
+ url: `/api/playlists/${encodeURIComponent(playlistId)}/videos/${encodeURIComponent(videoId)}`,
+ resourceKey: `playlist:${playlistId}:${videoId}`,
+ payload: { playlistId, video }
+ });
+ },
 
- // Search Actions,
- setSearchQuery: (query) => set((state) => {
+ // Search Actions
+ setSearchQuery: query => set(state => {
  state.search.query = query;
  }),
 
- setSearchResults: (results) => set((state) => {
+ setSearchResults: results => set(state => {
  state.search.results = results;
  }),
 
- setSearchSuggestions: (suggestions) => set((state) => {
+ setSearchSuggestions: suggestions => set(state => {
  state.search.suggestions = suggestions;
  }),
 
- setSearchLoading: (loading) => set((state) => {
+ setTrendingQueries: trending => set(state => {
+ state.search.trending = trending;
+ }),
+
+ setSearchLoading: loading => set(state => {
  state.search.isLoading = loading;
  }),
 
- clearSearch: () => set((state) => {
+ clearSearch: () => set(state => {
  state.search.query = '';
  state.search.results = [];
  state.search.suggestions = [];
  state.search.isLoading = false;
  }),
 
- // Loading Actions,
- setLoading: (category, loading) => set((state) => {
- state.loading.category = loading;
+ // Loading Actions
+ setLoading: (category, loading) => set(state => {
+ state.loading[category] = loading;
  }),
 
- // Error Actions,
- setError: (category, error) => set((state) => {
- state.errors.category = error;
+ // Error Actions
+ setError: (category, error) => set(state => {
+ state.errors[category] = error;
  }),
 
- clearErrors: () => set((state) => {
+ clearErrors: () => set(state => {
  state.errors = initialState.errors;
  }),
 
- // Utility Actions,
- reset: () => set(() => initialState) })),
+ // Utility Actions
+ reset: () => set(initialState) }))
  ),
  {
- name: 'youtube - studio - store',
- partialize: (state) => ({,
+ name: 'youtube-studio-store',
+ partialize: (state): PersistedState => ({
  theme: state.theme,
  sidebarCollapsed: state.sidebarCollapsed,
  user: state.user,
- videos: {,
+ videos: {
  watchLater: state.videos.watchLater,
  history: state.videos.history,
  liked: state.videos.liked },
- channels: {,
+ channels: {
  subscribed: state.channels.subscribed },
- playlists: state.playlists }) },
+ playlists: state.playlists }),
+ // Nested slices are only partly persisted, so merge them rather than replace
+ merge: (persisted, current) => {
+ const saved = (persisted ?? {}) as Partial<PersistedState>;
+ return {
+ ...current,
+ ...saved,
+ videos: { ...current.videos, ...saved.videos },
+ channels: { ...current.channels, ...saved.channels } };
+ } }
  ),
  {
- name: 'youtube - studio - store' },
- ));
+ name: 'youtube-studio-store' }
+ )
+);
+
+// Undoes an optimistic change the server refused. Writes state directly so
+// the undo is not itself queued.
+function rollbackAction(action: OutboxAction) {
+ useAppStore.setState(state => {
+ switch (action.kind) {
+ case 'like': {
+ const video = action.payload as Video;
+ state.videos.liked = state.videos.liked.filter(v => v.id !== video.id);
+ break;
+ }
+ case 'unlike': {
+ const video = action.payload as Video;
+ if (!state.videos.liked.some(v => v.id === video.id)) {
+ state.videos.liked.unshift(video);
+ }
+ break;
+ }
+ case 'subscribe': {
+ const channel = action.payload as Channel;
+ state.channels.subscribed = state.channels.subscribed.filter(c => c.id !== channel.id);
+ break;
+ }
+ case 'unsubscribe': {
+ const channel = action.payload as Channel;
+ if (!state.channels.subscribed.some(c => c.id === channel.id)) {
+ state.channels.subscribed.push(channel);
+ }
+ break;
+ }
+ case 'playlist-add': {
+ const { playlistId, video } = action.payload as { playlistId: string; video: Video };
+ removeFromPlaylistDraft(state, playlistId, video.id);
+ break;
+ }
+ case 'playlist-remove': {
+ const { playlistId, video } = action.payload as { playlistId: string; video: Video };
+ addToPlaylistDraft(state, playlistId, video);
+ break;
+ }
+ default:
+ break;
+ }
+ });
+}
+
+// A settled action is rolled back if rejected; untracked results were settled
+// by the service worker for an earlier page load
+onActionSettled(result => {
+ const accepted = result.outcome !== 'rejected';
+ if (!optimisticUpdates.settle(result.id, accepted) && !accepted) {
+ rollbackAction(result.action);
+ }
+});
+
+// Actions queued before a reload are tracked again so a late rejection still rolls back
+if (typeof window !== 'undefined') {
+ getPendingActions()
+ .then(actions => {
+ actions.forEach(action => optimisticUpdates.add(action.id, action, () => rollbackAction(action)));
+ })
+ .catch(() => undefined)
+ .finally(() => startOutbox());
+}
 
 // Selectors
-export const useTheme = () => useAppStore((state) => state.theme);
-export const useSidebar = () => useAppStore((state) => ({
+export const useTheme = () => useAppStore(state => state.theme);
+export const useSidebar = () => useAppStore(useShallow(state => ({
  collapsed: state.sidebarCollapsed,
  toggle: state.toggleSidebar,
- setCollapsed: state.setSidebarCollapsed }));
-export const useMiniplayer = () => useAppStore((state) => ({
+ setCollapsed: state.setSidebarCollapsed })));
+export const useMiniplayer = () => useAppStore(useShallow(state => ({
  visible: state.miniplayerVisible,
  video: state.miniplayerVideo,
  show: state.showMiniplayer,
- hide: state.hideMiniplayer }));
-export const useUser = () => useAppStore((state) => ({
+ hide: state.hideMiniplayer })));
+export const useUser = () => useAppStore(useShallow(state => ({
  ...state.user,
  setUser: state.setUser,
- logout: state.logout }));
+ logout: state.logout })));
 export const useVideos = (category?: keyof AppState['videos']) => {
- return useAppStore((state) => {
- if (category) {
- return {
- videos: state.videos.category,
- setVideos: (videos: Video) => state.setVideos(category, videos),
- loading: state.loading.videos,
- error: state.errors.videos };
- }
- return {
+ const library = useAppStore(useShallow(state => ({
  videos: state.videos,
  setVideos: state.setVideos,
  addToWatchLater: state.addToWatchLater,
@@ -411,17 +593,24 @@ export const useVideos = (category?: keyof AppState['videos']) => {
  likeVideo: state.likeVideo,
  unlikeVideo: state.unlikeVideo,
  loading: state.loading.videos,
- error: state.errors.videos };
- });
+ error: state.errors.videos })));
+ if (category) {
+ return {
+ videos: library.videos[category],
+ setVideos: (videos: Video[]) => library.setVideos(category, videos),
+ loading: library.loading,
+ error: library.error };
+ }
+ return library;
 };
-export const useChannels = () => useAppStore((state) => ({
+export const useChannels = () => useAppStore(useShallow(state => ({
  ...state.channels,
  setChannels: state.setChannels,
  subscribe: state.subscribeToChannel,
  unsubscribe: state.unsubscribeFromChannel,
  loading: state.loading.channels,
- error: state.errors.channels }));
-export const usePlaylists = () => useAppStore((state) => ({
+ error: state.errors.channels })));
+export const usePlaylists = () => useAppStore(useShallow(state => ({
  playlists: state.playlists,
  setPlaylists: state.setPlaylists,
  create: state.createPlaylist,
@@ -430,11 +619,12 @@ export const usePlaylists = () => useAppStore((state) => ({
  addVideo: state.addVideoToPlaylist,
  removeVideo: state.removeVideoFromPlaylist,
  loading: state.loading.playlists,
- error: state.errors.playlists }));
-export const useSearch = () => useAppStore((state) => ({
+ error: state.errors.playlists })));
+export const useSearch = () => useAppStore(useShallow(state => ({
  ...state.search,
  setQuery: state.setSearchQuery,
  setResults: state.setSearchResults,
  setSuggestions: state.setSearchSuggestions,
+ setTrending: state.setTrendingQueries,
  setLoading: state.setSearchLoading,
- clear: state.clearSearch }));
\ No newline at end of file
+ clear: state.clearSearch })));
@@ -3,11 +3,11 @@
  */
 
 import { create, type StateCreator } from 'zustand';
-import { devtools, persist, subscribeWithSelector } from 'zustand / middleware';
-import { immer } from 'zustand / middleware / immer';
+import { devtools, persist, subscribeWithSelector } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
 
-import { performanceMonitor } from '../utils / performanceMonitor';
-import { securityUtils } from '../utils / securityUtils';
+import { performanceMonitor } from '../utils/performanceMonitor';
+import { securityUtils } from '../utils/securityUtils';
 
 // Types
 export interface StoreConfig {
@@ -15,9 +15,9 @@ export interface StoreConfig {
  persist?: {
  enabled: boolean;
  storage?: 'localStorage' | 'sessionStorage' | 'secure';
- partialize?: (state) => any;
+ partialize?: (state: any) => any;
  version?: number;
- migrate?: (persistedState, version) => any
+ migrate?: (persistedState: any, version: number) => any
  };
  devtools?: boolean;
  immer?: boolean;
@@ -25,51 +25,60 @@ export interface StoreConfig {
  performance?: boolean;
 }
 
-export interface AsyncState < T> {
- data: T | null;,
+export interface AsyncState<T> {
+ data: T | null;
  loading: boolean;
- error: string | null;,
+ error: string | null;
  lastFetch: number | null
 }
 
-export interface PaginatedState < T> {
- items: T;,
- page: number;
- pageSize: number;,
+export interface PaginatedState<T> {
+ items: T[];
+ pageSize: number;
  total: number;
- hasMore: boolean;,
+ /** Opaque cursor for the next page; null once the list is exhausted */
+ nextPageToken: string | null;
+ hasMore: boolean;
  loading: boolean;
  error: string | null
 }
 
-export interface OptimisticUpdate < T> {
- id: string;,
+export interface PageResult<T> {
+ items: T[];
+ nextPageToken?: string | null;
+ total?: number;
+}
+
+export interface OptimisticUpdate<T> {
+ id: string;
  data: T;
- timestamp: number;,
+ timestamp: number;
  rollback: () => void
 }
 
 // Storage implementations
 class SecureStorage {
- static getItem(key): string | null {
+ static getItem(key: string): string | null {
  return securityUtils.SecureStorage.getItem(key, true);
  }
 
- static setItem(key, value: string | number): void {
+ static setItem(key: string, value: string | number): void {
  securityUtils.SecureStorage.setItem(key, value, true);
  }
 
- static removeItem(key): void {
+ static removeItem(key: string): void {
  securityUtils.SecureStorage.removeItem(key);
  }
+}
+
 // Performance monitoring middleware
-const performanceMiddleware = <T>(,
- config: StateCreator < T, [], [], T>,
- storeName): StateCreator < T, [], [], T> => {
+const performanceMiddleware = <T>(
+ config: StateCreator<T, [], [], T>,
+ storeName: string): StateCreator<T, [], [], T> => {
  return (set, get, api) => {
  const originalSet = set;
 
- const wrappedSet = (partial: any, replace?: boolean) => {
+ const wrappedSet = (partial: any, replace?: any) => {
  const startTime = performance.now();
 
  originalSet(partial, replace);
@@ -78,15 +87,16 @@ const performanceMiddleware = <T>(,
  performanceMonitor.trackCustomMetric(`store_${storeName}_update`, duration);
 
  if (import.meta.env.DEV && duration > 5) {
- (console).warn(`Slow state update in ${storeName}: ${duration.toFixed(2)}ms`);
+ console.warn(`Slow state update in ${storeName}: ${duration.toFixed(2)}ms`);
+ }
  };
 
- return config(wrappedSet, get, api);
+ return config(wrappedSet as typeof set, get, api);
  };
 };
 
 // Async state utilities
-export function createAsyncState < T>(initialData: T | null = null): AsyncState < T> {
+export function createAsyncState<T>(initialData: T | null = null): AsyncState<T> {
  return {
  data: initialData,
  loading: false,
@@ -94,84 +104,95 @@ export function createAsyncState < T>(initialData: T | null = null): AsyncState
  lastFetch: null };
 }
 
-export function createAsyncActions < T>() {
+export function createAsyncActions<T>() {
  return {
- setLoading: (loading) => (state) => {
+ setLoading: (loading: boolean) => (state: AsyncState<T>) => {
  state.loading = loading;
  if (loading) {
  state.error = null;
  }
  },
 
- setData: (data: T) => (state) => {
+ setData: (data: T) => (state: AsyncState<T>) => {
  state.data = data;
  state.loading = false;
  state.error = null;
  state.lastFetch = Date.now();
  },
 
- setError: (error: Error) => (state) => {
- state.error = error;
+ setError: (error: Error) => (state: AsyncState<T>) => {
+ state.error = error.message;
  state.loading = false;
  },
 
- reset: () => (state) => {
+ reset: () => (state: AsyncState<T>) => {
  state.data = null;
  state.loading = false;
  state.error = null;
  state.lastFetch = null;
- };
+ } };
 }
 
 // Paginated state utilities
-export function createPaginatedState < T>(pageSize: number = 20): PaginatedState < T> {
+export function createPaginatedState<T>(pageSize: number = 20): PaginatedState<T> {
  return {
  items: [],
- page: 1,
  pageSize,
  total: 0,
+ nextPageToken: null,
  hasMore: true,
  loading: false,
  error: null };
 }
 
-export function createPaginatedActions < T>() {
+/**
+ * Cursor-based list actions. Pass `getKey` to drop items that were already
+ * loaded, e.g. when the feed shifts between page requests.
+ */
+export function createPaginatedActions<T>(getKey?: (item: T) => string) {
  return {
- setItems: (items: T, total, page) => (state) => {
- if (page === 1) {
- state.items = items;
- } else {
- state.items = [...state.items, ...items];
- }
- state.total = total;
- state.page = page;
- state.hasMore = state.items.length < total;
+ setFirstPage: (page: PageResult<T>) => (state: PaginatedState<T>) => {
+ state.items = page.items;
+ state.total = page.total ?? page.items.length;
+ state.nextPageToken = page.nextPageToken ?? null;
+ state.hasMore = Boolean(page.nextPageToken);
  state.loading = false;
  state.error = null;
  },
 
- setLoading: (loading) => (state) => {
+ appendPage: (page: PageResult<T>) => (state: PaginatedState<T>) => {
+ const seen = getKey ? new Set(state.items.map(getKey)) : null;
+ const fresh = seen && getKey ? page.items.filter((item) => !seen.has(getKey(item))) : page.items;
+ state.items = [...state.items, ...fresh];
+ state.total = page.total ?? state.total;
+ state.nextPageToken = page.nextPageToken ?? null;
+ state.hasMore = Boolean(page.nextPageToken);
+ state.loading = false;
+ state.error = null;
+ },
+
+ setLoading: (loading: boolean) => (state: PaginatedState<T>) => {
  state.loading = loading;
  if (loading) {
  state.error = null;
  }
  },
 
- setError: (error: Error) => (state) => {
- state.error = error;
+ setError: (error: Error) => (state: PaginatedState<T>) => {
+ state.error = error.message;
  state.loading = false;
  },
 
- reset: () => (state) => {
+ reset: () => (state: PaginatedState<T>) => {
  state.items = [];
- state.page = 1;
  state.total = 0;
+ state.nextPageToken = null;
  state.hasMore = true;
  state.loading = false;
  state.error = null;
  },
 
- removeItem: (predicate: (item: T) => boolean) => (state) => {
+ removeItem: (predicate: (item: T) => boolean) => (state: PaginatedState<T>) => {
  const index = state.items.findIndex(predicate);
  if (index !== -1) {
  state.items.splice(index, 1);
@@ -179,19 +200,19 @@ export function createPaginatedActions < T>() {
  }
  },
 
- updateItem: (predicate: (item: T) => boolean, updates: Partial < T>) => (state) => {
+ updateItem: (predicate: (item: T) => boolean, updates: Partial<T>) => (state: PaginatedState<T>) => {
  const index = state.items.findIndex(predicate);
  if (index !== -1) {
- Object.assign(state.items.index, updates);
+ Object.assign(state.items[index] as object, updates);
  }
- };
+ } };
 }
 
 // Optimistic updates manager
-export class OptimisticUpdatesManager < T> {
- private updates = new Map < string, OptimisticUpdate < T>>();
+export class OptimisticUpdatesManager<T> {
+ private updates = new Map<string, OptimisticUpdate<T>>();
 
- add(id, data: T, rollback: () => void): void {
+ add(id: string, data: T, rollback: () => void): void {
  this.updates.set(id, {
  id,
  data,
@@ -199,16 +220,35 @@ export class OptimisticUpdatesManager < T> {
  rollback });
  }
 
- confirm(id): void {
+ confirm(id: string): void {
  this.updates.delete(id);
  }
 
- rollback(id): void {
+ rollback(id: string): void {
  const update = this.updates.get(id);
  if (update) {
  update.rollback();
  this.updates.delete(id);
  }
+ }
+
+ /**
+ * Resolves an update once the server has answered: kept if accepted,
+ * rolled back if rejected. Returns false if `id` is not being tracked,
+ * e.g. it was settled by a replay after a reload.
+ */
+ settle(id: string, accepted: boolean): boolean {
+ if (!this.updates.has(id)) {
+ return false;
+ }
+ if (accepted) {
+ this.confirm(id);
+ } else {
+ this.rollback(id);
+ }
+ return true;
+ }
+
  rollbackAll(): void {
  for (const update of this.updates.values()) {
  update.rollback();
@@ -216,8 +256,8 @@ export class OptimisticUpdatesManager < T> {
  this.updates.clear();
  }
 
- getPending(): Array<any> < OptimisticUpdate < T>> {
- return Array<any>.from(this.updates.values());
+ getPending(): OptimisticUpdate<T>[] {
+ return Array.from(this.updates.values());
  }
 
  cleanup(maxAge: number = 30000): void {
@@ -228,11 +268,14 @@ export class OptimisticUpdatesManager < T> {
  this.updates.delete(id);
  }
  }
+ }
+}
+
 // Enhanced store creator
-export function createEnhancedStore < T>(,;
- stateCreator: StateCreator < T, [], [], T>,
+export function createEnhancedStore<T>(
+ stateCreator: StateCreator<T, [], [], T>,
  config: StoreConfig) {
- let enhancedCreator= stateCreator;
+ let enhancedCreator: any = stateCreator;
 
  // Apply immer middleware
  if (config.immer) {
@@ -251,15 +294,15 @@ export function createEnhancedStore < T>(,;
 
  // Apply persistence middleware
  if (config.persist?.enabled) {
- const storage = config.persist.storage === 'secure';
+ const storage = config.persist.storage === 'secure'
  ? SecureStorage
  : config.persist.storage === 'sessionStorage'
  ? sessionStorage
  : localStorage;
 
- const persistOptions= {
+ const persistOptions: Record<string, any> = {
  name: config.name,
- storage: storage as any, // Type assertion for storage compatibility,
+ storage: storage as any, // Type assertion for storage compatibility
  version: config.persist.version || 1 };
 
  if (config.persist.partialize) {
@@ -270,7 +313,7 @@ export function createEnhancedStore < T>(,;
  persistOptions.migrate = config.persist.migrate;
  }
 
- enhancedCreator = persist(enhancedCreator, persistOptions);
+ enhancedCreator = persist(enhancedCreator, persistOptions as any);
  }
 
  // Apply devtools middleware
@@ -278,14 +321,14 @@ export function createEnhancedStore < T>(,;
  enhancedCreator = devtools(enhancedCreator, { name: config.name });
  }
 
- return create(enhancedCreator);
+ return create<T>()(enhancedCreator);
 }
 
 // Store composition utilities
-export function combineStores < T extends Record < string, any>>(,;
- stores: T): () => { [K in keyof T]: ReturnType < T.K> } {
+export function combineStores<T extends Record<string, () => any>>(
+ stores: T): () => { [K in keyof T]: ReturnType<T[K]> } {
  return () => {
- const combined = {} as { [K in keyof T]: ReturnType < T.K> };
+ const combined = {} as { [K in keyof T]: ReturnType<T[K]> };
 
  for (const [key, store] of Object.entries(stores)) {
  combined[key as keyof T] = store();
@@ -296,14 +339,14 @@ export function combineStores < T extends Record < string, any>>(,;
 }
 
 // Computed values utility
-export function createComputed < T, R>(,;
+export function createComputed<T, R>(
  selector: (state: T) => R,
- dependencies?: (state: T) => any,
+ dependencies?: (state: T) => any[],
 ) {
  let cachedValue: R;
- let cachedDeps;
+ let cachedDeps: any[] | undefined;
 
- return (state: T): (R) => {
+ return (state: T): R => {
  if (dependencies) {
  const currentDeps = dependencies(state);
 
@@ -320,32 +363,33 @@ export function createComputed < T, R>(,;
 }
 
 // Shallow equality check
-function shallowEqual(a: any, b: any): boolean {
+function shallowEqual(a: any[], b: any[]): boolean {
  if (a.length !== b.length) {
-return false;
-}
+ return false;
+ }
 
  for (let i = 0; i < a.length; i++) {
- if (a.i !== b.i) {
-return false;
-}
+ if (a[i] !== b[i]) {
+ return false;
+ }
+ }
  return true;
 }
 
 // Store debugging utilities
 export class StoreDebugger {
- private static logs: Array<{,
+ private static logs: Array<{
  store: string;
- action: string;,
+ action: string;
  timestamp: number;
- state;
- prevState;
+ state: any;
+ prevState: any;
  }> = [];
 
- static log(store, action, state, prevState): void {
+ static log(store: string, action: string, state: any, prevState: any): void {
  if (!import.meta.env.DEV) {
-return;
-}
+ return;
+ }
 
  this.logs.push({
  store,
@@ -358,8 +402,10 @@ return;
  if (this.logs.length > 100) {
  this.logs.shift();
  }
+ }
+
  static getLogs(store?: string): typeof StoreDebugger.logs {
- return store;
+ return store
  ? this.logs.filter((log) => log.store === store)
  : this.logs;
  }
@@ -371,21 +417,24 @@ return;
  static exportLogs(): string {
  return JSON.stringify(this.logs, null, 2);
  }
+}
+
 // Store validation utilities
-export function createValidator < T extends object>(schema: {
- [K in keyof T]?: (value: T.K) => boolean | string
+export function createValidator<T extends object>(schema: {
+ [K in keyof T]?: (value: T[K]) => boolean | string
 }) {
- return (state: T): { isValid: boolean; errors: Record < string, string> } => {
- const errors: Record < string, string> = {};
+ return (state: T): { isValid: boolean; errors: Record<string, string> } => {
+ const errors: Record<string, string> = {};
 
  for (const [key, validator] of Object.entries(schema)) {
  if (validator && key in state) {
- const result = (validator as (value: string | number) => boolean | string)(state[key as keyof T]);
+ const result = (validator as (value: unknown) => boolean | string)(state[key as keyof T]);
 
  if (typeof result === 'string') {
- errors.key = result;
+ errors[key] = result;
  } else if (result === false) {
- errors.key = `Invalid value for ${key}`;
+ errors[key] = `Invalid value for ${key}`;
+ }
  }
  }
 
@@ -397,45 +446,48 @@ export function createValidator < T extends object>(schema: {
 
 // Store synchronization utilities
 export class StoreSynchronizer {
- private static instances = new Map < string, any>();
+ private static instances = new Map<string, any>();
 
- static register(name, store): void {
+ static register(name: string, store: any): void {
  this.instances.set(name, store);
  }
 
- static sync(fromStore, toStore, mapper: (state) => any): void {
+ static sync(fromStore: string, toStore: string, mapper: (state: any) => any): void {
  const from = this.instances.get(fromStore);
  const to = this.instances.get(toStore);
 
  if (!from || !to) {
- (console).warn(`Store synchronization failed: ${fromStore} or ${toStore} not found`);
+ console.warn(`Store synchronization failed: ${fromStore} or ${toStore} not found`);
  return;
  }
 
  // Subscribe to changes in the source store
- from.subscribe((state) => {
+ from.subscribe((state: any) => {
  const mappedState = mapper(state);
  to.setState(mappedState);
  });
  }
 
- static broadcast(event: Event, data): void {
+ static broadcast(event: string, data: unknown): void {
  for (const store of this.instances.values()) {
  if (typeof store.handleBroadcast === 'function') {
  store.handleBroadcast(event, data);
  }
  }
+ }
+}
+
 // Store performance analyzer
 export class StorePerformanceAnalyzer {
- private static metrics = new Map < string, {
- updateCount: number;,
+ private static metrics = new Map<string, {
+ updateCount: number;
  totalTime: number;
- averageTime: number;,
+ averageTime: number;
  maxTime: number;
  minTime: number
  }>();
 
- static trackUpdate(storeName, duration): void {
+ static trackUpdate(storeName: string, duration: number): void {
  const current = this.metrics.get(storeName) || {
  updateCount: 0,
  totalTime: 0,
@@ -453,7 +505,7 @@ export class StorePerformanceAnalyzer {
  }
 
  static getMetrics(storeName?: string) {
- return storeName;
+ return storeName
  ? this.metrics.get(storeName)
  : Object.fromEntries(this.metrics.entries());
  }
@@ -463,7 +515,7 @@ export class StorePerformanceAnalyzer {
  }
 
  static getReport(): string {
- const report: any[] = ['Store Performance Report', '='.repeat(30)];
+ const report: string[] = ['Store Performance Report', '='.repeat(30)];
 
  for (const [name, metrics] of this.metrics.entries()) {
  report.push(
@@ -478,6 +530,8 @@ export class StorePerformanceAnalyzer {
 
  return report.join('\n');
  }
+}
+
 // Export utilities
 export const storeUtils = {
  createEnhancedStore,
@@ -493,4 +547,4 @@ export const storeUtils = {
  StoreSynchronizer,
  StorePerformanceAnalyzer };
 
-export default storeUtils;
\ No newline at end of file
+export default storeUtils;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { CommentSection } from '../../src/features/comments/components/CommentSection';
+import { commentService } from '../../src/features/comments/services/commentService';
+
+import type { CommentThread } from '../../src/features/comments/types';
+
+vi.mock('../../src/features/comments/services/commentService', () => ({
+ commentService: {
+ setAuthor: vi.fn(),
+ getComments: vi.fn(),
+ createComment: vi.fn(),
+ replyToComment: vi.fn(),
+ editComment: vi.fn(),
+ deleteComment: vi.fn(),
+ likeComment: vi.fn(),
+ pinComment: vi.fn(),
+ heartComment: vi.fn()
+ }
+}));
+
+const service = vi.mocked(commentService);
+
+const comment = (id: string, overrides: Partial<CommentThread> = {}): CommentThread => ({
+ id,
+ videoId: 'video-1',
+ parentId: null,
+ authorId: `author-${id}`,
+ authorName: `Author ${id}`,
+ authorAvatar: '',
+ content: `Comment ${id}`,
+ createdAt: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
+ updatedAt: new Date().toISOString(),
+ isEdited: false,
+ isDeleted: false,
+ isPinned: false,
+ isHearted: false,
+ likes: 0,
+ isLiked: false,
+ replyCount: 0,
+ replies: [],
+ ...overrides
+});
+
+const thread = () => [
+ comment('a', {
+ isPinned: true,
+ replyCount: 1,
+ replies: [comment('b', { parentId: 'a', content: 'A reply' })]
+ }),
+ comment('c', { isHearted: true })
+];
+
+describe('CommentSection', () => {
+ beforeEach(() => {
+ service.getComments.mockResolvedValue({ comments: thread(), total: 3, sort: 'top' });
+ });
+
+ afterEach(() => {
+ cleanup();
+ vi.clearAllMocks();
+ });
+
+ it('shows threads with their pins, hearts and collapsed replies', async () => {
+ render(<CommentSection videoId="video-1" />);
+
+ expect(await screen.findByText('Comment a')).toBeTruthy();
+ expect(screen.getByText('3 Comments')).toBeTruthy();
+ expect(screen.getByText(/Pinned by creator/)).toBeTruthy();
+ expect(screen.getByTitle('Hearted by creator')).toBeTruthy();
+ expect(screen.getAllByText('5 minutes ago')).toHaveLength(2);
+ // Signed-out viewers can read but not write
+ expect(screen.getByText('Sign in to join the conversation.')).toBeTruthy();
+ expect(screen.queryByText('Reply')).toBeNull();
+ expect(screen.queryByText('Pin')).toBeNull();
+
+ expect(screen.queryByText('A reply')).toBeNull();
+ fireEvent.click(screen.getByText('View 1 reply'));
+ expect(screen.getByText('A reply')).toBeTruthy();
+ });
+
+ it('lets the creator pin and heart comments', async () => {
+ render(<CommentSection videoId="video-1" currentUser={{ id: 'creator', name: 'Creator' }} isCreator />);
+ await screen.findByText('Comment c');
+ expect(screen.getByText('Unpin')).toBeTruthy();
+
+ service.heartComment.mockResolvedValue(comment('c', { isHearted: false }));
+ fireEvent.click(screen.getByText('Remove heart'));
+ await waitFor(() => expect(screen.queryByTitle('Hearted by creator')).toBeNull());
+ expect(service.heartComment).toHaveBeenCalledWith('c', false);
+
+ service.pinComment.mockResolvedValue(comment('c', { isPinned: true }));
+ service.getComments.mockResolvedValue({ comments: [comment('c', { isPinned: true }), comment('a')], total: 2, sort: 'top' });
+ fireEvent.click(screen.getByText('Pin'));
+ await waitFor(() => expect(screen.getByText('2 Comments')).toBeTruthy());
+ expect(service.pinComment).toHaveBeenCalledWith('c', true);
+ });
+});
@@ -0,0 +1,30 @@
+import React from 'react';
+import { cleanup, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import OptimizedSearchResults from '../../components/OptimizedSearchResults';
+
+import type { SearchResult } from '../../src/types/search';
+
+const result = (id: string): SearchResult => ({
+ id,
+ title: `Video ${id}`,
+ description: '',
+ duration: '4:20',
+ views: 1200,
+ score: 1,
+ highlights: { title: [{ text: `Video ${id}`, match: false }], description: [] }
+});
+
+describe('OptimizedSearchResults', () => {
+ afterEach(cleanup);
+
+ it('shows a video once when the next page repeats it', () => {
+ // The second page overlaps the first after the index changed in between
+ const pages = [result('a'), result('b'), result('b'), result('c'), result('a')];
+ render(<OptimizedSearchResults query="video" results={pages} total={3} hasMore />);
+
+ expect(screen.getAllByRole('heading').map(heading => heading.textContent)).toEqual(['Video a', 'Video b', 'Video c']);
+ expect(screen.getByText('Show more results')).toBeTruthy();
+ });
+});
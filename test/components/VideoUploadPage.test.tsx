@@ -0,0 +1,51 @@
+import React from 'react';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import VideoUploadPage from '../../src/pages/VideoUploadPage';
+import { uploadVideo } from '../../utils/uploadUtils';
+
+import type { UploadController, UploadOptions } from '../../utils/uploadUtils';
+
+vi.mock('../../utils/uploadUtils', () => ({ uploadVideo: vi.fn() }));
+
+const MB = 1024 * 1024;
+
+describe('VideoUploadPage', () => {
+ afterEach(() => {
+ cleanup();
+ vi.clearAllMocks();
+ });
+
+ it('shows the bytes sent and pauses and resumes the upload', () => {
+ let options: UploadOptions = {};
+ const controller = { pause: vi.fn(), resume: vi.fn(() => Promise.resolve()), cancel: vi.fn(() => Promise.resolve()) };
+ vi.mocked(uploadVideo).mockImplementation((_data, uploadOptions = {}) => {
+ options = uploadOptions;
+ return controller as unknown as UploadController;
+ });
+
+ const { container } = render(<VideoUploadPage />);
+ const file = new File(['x'], 'holiday.mp4', { type: 'video/mp4' });
+ fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [file] } });
+ fireEvent.click(screen.getByText('Start Upload'));
+ expect(vi.mocked(uploadVideo).mock.calls[0][0]).toMatchObject({ videoFile: file, title: 'holiday' });
+
+ act(() => {
+ options.onStatusChange?.('uploading');
+ options.onProgress?.({ percentage: 25, uploadedBytes: 5 * MB, totalBytes: 20 * MB, speed: MB, timeRemaining: 15 });
+ });
+ expect(screen.getByText('5.0 / 20.0 MB · 25%')).toBeTruthy();
+
+ fireEvent.click(screen.getByText('Pause'));
+ expect(controller.pause).toHaveBeenCalled();
+ act(() => options.onStatusChange?.('paused'));
+ expect(screen.getByText('Paused')).toBeTruthy();
+
+ fireEvent.click(screen.getByText('Resume'));
+ expect(controller.resume).toHaveBeenCalled();
+
+ act(() => options.onComplete?.({ success: true, uploadId: 'upload-1' }));
+ expect(screen.getByText('Video Details')).toBeTruthy();
+ });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { AbrController } from '../../utils/abrController';
+
+import type { Rendition } from '../../utils/manifestParser';
+
+const rendition = (id: string, bandwidth: number): Rendition => ({ id, contentType: 'video', bandwidth, codecs: '', mimeType: 'video/mp4' });
+
+const low = rendition('low', 300_000);
+const mid = rendition('mid', 700_000);
+const high = rendition('high', 1_500_000);
+const ladder = [low, mid, high];
+
+describe('ABR controller', () => {
+ it('starts from the default estimate with a safety margin', () => {
+ const abr = new AbrController();
+ // 1 Mbps default at 0.8 leaves 800 kbps
+ expect(abr.select(ladder, null, 0)).toBe(mid);
+ expect(new AbrController({ defaultEstimate: 200_000 }).select(ladder, null, 0)).toBe(low);
+ });
+
+ it('holds back up-switches until the buffer can absorb them', () => {
+ const abr = new AbrController();
+ expect(abr.select(ladder, low, 5)).toBe(low);
+ expect(abr.select(ladder, low, 12)).toBe(mid);
+ });
+
+ it('switches down at once, whatever the buffer', () => {
+ expect(new AbrController().select(ladder, high, 0)).toBe(mid);
+ });
+
+ it('follows measured throughput and ignores tiny segments', () => {
+ const abr = new AbrController();
+ abr.throughput.addSample(1024, 1);
+ expect(abr.throughput.hasSamples).toBe(false);
+
+ // 1 MB in 2 s is 4 Mbps
+ abr.throughput.addSample(1_000_000, 2000);
+ expect(abr.throughput.estimate).toBeCloseTo(4_000_000);
+ expect(abr.select(ladder, mid, 20)).toBe(high);
+ });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AdaptiveStreamingPlayer } from '../../utils/adaptiveStreaming';
+
+const PLAYLIST_URL = 'https://cdn.example.test/v/abc/index.m3u8';
+const PLAYLIST = '#EXTM3U\n#EXT-X-TARGETDURATION:4\n#EXTINF:4,\nseg0.m4s\n#EXTINF:4,\nseg1.m4s\n#EXT-X-ENDLIST\n';
+
+/** Just enough of MediaSource for the player to open a stream */
+class FakeMediaSource {
+ static isTypeSupported = () => true;
+ readyState = 'open';
+ duration = NaN;
+
+ addEventListener(_type: string, listener: () => void) {
+ listener();
+ }
+
+ addSourceBuffer() {
+ return {
+ updating: false,
+ buffered: { length: 0, start: () => 0, end: () => 0 },
+ appendBuffer: vi.fn(),
+ remove: vi.fn(),
+ addEventListener: vi.fn(),
+ removeEventListener: vi.fn()
+ };
+ }
+
+ endOfStream() {}
+}
+
+const fakeVideo = () => {
+ const listeners = new Map<string, () => void>();
+ return {
+ currentTime: 0,
+ seeking: false,
+ src: '',
+ canPlayType: () => '',
+ addEventListener: (type: string, listener: () => void) => listeners.set(type, listener),
+ removeEventListener: (type: string) => listeners.delete(type),
+ removeAttribute: () => undefined,
+ load: () => undefined,
+ dispatch: (type: string) => listeners.get(type)?.()
+ };
+};
+
+describe('adaptive streaming player', () => {
+ let segmentRequests: number;
+
+ beforeEach(() => {
+ vi.useFakeTimers();
+ segmentRequests = 0;
+ vi.stubGlobal('MediaSource', FakeMediaSource);
+ vi.stubGlobal('window', { MediaSource: FakeMediaSource });
+ vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:stream');
+ vi.spyOn(URL, 'revokeObjectURL').mockReturnValue(undefined);
+ vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+ if (url === PLAYLIST_URL) {
+ return { ok: true, status: 200, url, headers: new Headers(), text: async () => PLAYLIST };
+ }
+ segmentRequests++;
+ return { ok: false, status: 503 };
+ }));
+ });
+
+ afterEach(() => {
+ vi.useRealTimers();
+ vi.unstubAllGlobals();
+ vi.restoreAllMocks();
+ });
+
+ it('backs off a failing segment and gives up after repeated failures', async () => {
+ const video = fakeVideo();
+ const player = new AdaptiveStreamingPlayer(video as unknown as HTMLVideoElement);
+ const errors: Error[] = [];
+ player.on('error', error => errors.push(error));
+
+ await player.load(PLAYLIST_URL);
+ await vi.advanceTimersByTimeAsync(0);
+ expect(segmentRequests).toBe(1);
+
+ // Retries after 0.5 s, 1 s, 2 s and 4 s rather than on every pump
+ await vi.advanceTimersByTimeAsync(10_000);
+ expect(segmentRequests).toBe(5);
+ expect(errors).toHaveLength(0);
+
+ // The sixth failure in a row stops the stream
+ await vi.advanceTimersByTimeAsync(10_000);
+ expect(segmentRequests).toBe(6);
+ expect(errors).toHaveLength(1);
+ expect(errors[0].message).toMatch(/HTTP 503/);
+
+ await vi.advanceTimersByTimeAsync(60_000);
+ expect(segmentRequests).toBe(6);
+
+ // Seeking tries again
+ video.dispatch('seeking');
+ await vi.advanceTimersByTimeAsync(0);
+ expect(segmentRequests).toBe(7);
+
+ player.destroy();
+ });
+});
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo, Server } from 'net';
+import express from 'express';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { MAX_BODY_BYTES, createAnalyticsCollector } from '../../server/analyticsCollector.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let sequence = 0;
+const event = (overrides: Record<string, unknown> = {}) => ({
+ id: `evt-${++sequence}`,
+ name: 'video_play',
+ category: 'video',
+ timestamp: Date.now(),
+ sessionId: 'session-1',
+ properties: { videoId: 'v1' },
+ ...overrides
+});
+
+describe('analytics collector', () => {
+ const cleanup: Array<() => unknown> = [];
+
+ afterEach(async () => {
+ for (const step of cleanup.splice(0).reverse()) {
+ await step();
+ }
+ });
+
+ const setup = async (options: Record<string, unknown> = {}) => {
+ const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'analytics-'));
+ const collector = createAnalyticsCollector({ dir, ...options });
+ // Mounted as in dev-server: ahead of the app-wide parser, whose 100 KB limit a full batch exceeds
+ const app = express();
+ app.use('/api', collector.router);
+ app.use(express.json());
+ const server: Server = app.listen(0);
+ await new Promise(resolve => server.once('listening', resolve));
+ const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+ cleanup.push(() => fs.rmSync(dir, { recursive: true, force: true }), collector.close, () => new Promise(resolve => server.close(resolve)));
+ return { dir, collector, base };
+ };
+
+ it('stores each event once however often a batch is resent', async () => {
+ const { dir, collector, base } = await setup();
+ const batch = [event(), event()];
+ expect(collector.ingest(batch, {})).toEqual({ accepted: 2, duplicates: 0, rejected: [] });
+ expect(collector.ingest([...batch, event()], {})).toMatchObject({ accepted: 1, duplicates: 2 });
+
+ // A restarted collector still knows what it has stored
+ const restarted = createAnalyticsCollector({ dir });
+ cleanup.push(restarted.close);
+ expect(restarted.ingest(batch, {})).toMatchObject({ accepted: 0, duplicates: 2 });
+
+ const response = await fetch(`${base}/analytics/events?category=video`);
+ expect((await response.json()).total).toBe(3);
+ });
+
+ it('reports invalid events by index and keeps the valid ones', async () => {
+ const { collector } = await setup();
+ const result = collector.ingest([
+ event(),
+ event({ category: 'marketing' }),
+ event({ id: '' }),
+ event({ timestamp: Date.now() + 3 * DAY_MS }),
+ 'not an event'
+ ], {});
+ expect(result.accepted).toBe(1);
+ expect(result.rejected.map((rejection: { index: number }) => rejection.index)).toEqual([1, 2, 3, 4]);
+ expect(result.rejected[0].errors[0]).toMatch(/category must be one of/);
+ });
+
+ it('accepts beacons sent as text/plain and requires the API key when one is set', async () => {
+ const { base } = await setup({ apiKey: 'secret' });
+ const body = JSON.stringify({ events: [event()] });
+
+ const refused = await fetch(`${base}/analytics/events`, { method: 'POST', headers: { 'Content-Type': 'text/plain' }, body });
+ expect(refused.status).toBe(401);
+
+ const beacon = await fetch(`${base}/analytics/events?key=secret`, { method: 'POST', headers: { 'Content-Type': 'text/plain;charset=UTF-8' }, body });
+ expect(await beacon.json()).toMatchObject({ accepted: 1 });
+ });
+
+ it('takes a full batch with large properties and answers 413 for bodies over the limit', async () => {
+ const { base } = await setup();
+ const properties = { videoId: 'v1', note: 'x'.repeat(7 * 1024) };
+ const full = await fetch(`${base}/analytics/events`, {
+ method: 'POST',
+ headers: { 'Content-Type': 'application/json' },
+ body: JSON.stringify({ events: Array.from({ length: 500 }, () => event({ properties })) })
+ });
+ expect(await full.json()).toMatchObject({ accepted: 500, rejected: [] });
+
+ const tooLarge = await fetch(`${base}/analytics/events`, {
+ method: 'POST',
+ headers: { 'Content-Type': 'application/json' },
+ body: JSON.stringify({ events: [], padding: 'x'.repeat(MAX_BODY_BYTES) })
+ });
+ expect(tooLarge.status).toBe(413);
+ expect(await tooLarge.json()).toMatchObject({ error: 'Payload too large' });
+ });
+
+ it('counts video and engagement events per day', async () => {
+ const { collector, base } = await setup();
+ const today = Date.now();
+ const yesterday = today - DAY_MS;
+ collector.ingest([
+ event({ timestamp: yesterday }),
+ event({ timestamp: today, properties: { videoId: 'v2' }, userId: 'u1' }),
+ event({ timestamp: today, name: 'like', category: 'engagement', userId: 'u1' }),
+ event({ timestamp: today, name: 'page_view', category: 'navigation' })
+ ], {});
+
+ const day = (time: number) => new Date(time).toISOString().slice(0, 10);
+ const response = await fetch(`${base}/analytics/daily?category=video,engagement&from=${day(yesterday)}&to=${day(today)}`);
+ const { days } = await response.json();
+ expect(days).toEqual([
+ { date: day(yesterday), total: 1, sessions: 1, users: 0, groups: { video_play: 1 } },
+ { date: day(today), total: 2, sessions: 1, users: 1, groups: { video_play: 1, like: 1 } }
+ ]);
+
+ const byVideo = await (await fetch(`${base}/analytics/daily?category=video&from=${day(today)}&to=${day(today)}&groupBy=videoId`)).json();
+ expect(byVideo.days[0].groups).toEqual({ v2: 1 });
+ });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { useAppStore } from '../../store';
+import type { Video } from '../../src/types/core';
+import type { OutboxAction, OutboxActionInput, OutboxResult } from '../../src/utils/syncOutbox';
+
+// The store persists to localStorage, which the node environment lacks
+vi.hoisted(() => {
+ const items = new Map<string, string>();
+ globalThis.localStorage = {
+ getItem: (key: string) => items.get(key) ?? null,
+ setItem: (key: string, value: string) => void items.set(key, value),
+ removeItem: (key: string) => void items.delete(key),
+ clear: () => items.clear(),
+ key: (index: number) => [...items.keys()][index] ?? null,
+ get length() {
+ return items.size;
+ }
+ };
+});
+
+const outbox = vi.hoisted(() => ({
+ queued: [] as OutboxAction[],
+ listeners: new Set<(result: OutboxResult) => void>(),
+ failNext: false
+}));
+
+// The real outbox needs IndexedDB; this one records what was queued
+vi.mock('../../src/utils/syncOutbox', () => ({
+ enqueueAction: vi.fn(async (input: OutboxActionInput) => {
+ if (outbox.failNext) {
+ outbox.failNext = false;
+ throw new Error('QuotaExceededError');
+ }
+ const action: OutboxAction = { ...input, id: `action-${outbox.queued.length + 1}`, occurredAt: 0, attempts: 0 };
+ outbox.queued.push(action);
+ return action;
+ }),
+ getPendingActions: vi.fn(async () => []),
+ onActionSettled: vi.fn((listener: (result: OutboxResult) => void) => {
+ outbox.listeners.add(listener);
+ return () => outbox.listeners.delete(listener);
+ }),
+ startOutbox: vi.fn()
+}));
+
+const video = (id: string): Video => ({
+ id,
+ title: `Video ${id}`,
+ thumbnail: '',
+ duration: '1:00',
+ views: 0,
+ publishedAt: '2024-01-01T00:00:00Z',
+ channelId: 'channel-1',
+ channelTitle: 'Channel 1'
+});
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const settle = (action: OutboxAction, outcome: OutboxResult['outcome']) => {
+ outbox.listeners.forEach(listener => listener({ id: action.id, action, outcome, settledAt: Date.now() }));
+};
+
+const likedIds = () => useAppStore.getState().videos.liked.map(v => v.id);
+
+describe('app store outbox wiring', () => {
+ beforeEach(() => {
+ outbox.queued.length = 0;
+ outbox.failNext = false;
+ useAppStore.getState().reset();
+ });
+
+ it('applies a like at once and queues it for the server', async () => {
+ useAppStore.getState().likeVideo(video('a'));
+ expect(likedIds()).toEqual(['a']);
+
+ await flush();
+ expect(outbox.queued).toHaveLength(1);
+ expect(outbox.queued[0]).toMatchObject({ kind: 'like', method: 'PUT', url: '/api/me/likes/a', resourceKey: 'like:a' });
+ });
+
+ it('keeps a confirmed like', async () => {
+ useAppStore.getState().likeVideo(video('a'));
+ await flush();
+
+ settle(outbox.queued[0]!, 'confirmed');
+ expect(likedIds()).toEqual(['a']);
+ });
+
+ it('rolls back a rejected like and a rejected unlike', async () => {
+ useAppStore.getState().likeVideo(video('a'));
+ await flush();
+ settle(outbox.queued[0]!, 'rejected');
+ expect(likedIds()).toEqual([]);
+
+ useAppStore.getState().likeVideo(video('b'));
+ await flush();
+ settle(outbox.queued[1]!, 'confirmed');
+ useAppStore.getState().unlikeVideo('b');
+ await flush();
+ expect(likedIds()).toEqual([]);
+ settle(outbox.queued[2]!, 'rejected');
+ expect(likedIds()).toEqual(['b']);
+ });
+
+ it('rolls back results settled for an earlier page load', () => {
+ useAppStore.getState().subscribeToChannel({ id: 'c1', title: 'C1', thumbnail: '', subscriberCount: 0, videoCount: 0 });
+ const stale: OutboxAction = { kind: 'subscribe', method: 'PUT', url: '/api/me/subscriptions/c1', payload: { id: 'c1' }, id: 'old', occurredAt: 0, attempts: 5 };
+
+ settle(stale, 'rejected');
+ expect(useAppStore.getState().channels.subscribed).toEqual([]);
+ });
+
+ it('rolls back a change that could not be queued', async () => {
+ outbox.failNext = true;
+ const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+ useAppStore.getState().likeVideo(video('a'));
+ await flush();
+ expect(likedIds()).toEqual([]);
+ expect(error).toHaveBeenCalled();
+ error.mockRestore();
+ });
+});
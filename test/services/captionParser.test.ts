@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+ CaptionParseError,
+ getActiveCues,
+ parseCaptions,
+ parseCueText,
+ parseSRT,
+ parseWebVTT,
+ serializeSRT,
+ serializeWebVTT } from '../../utils/captionParser';
+
+const VTT = `WEBVTT - sample
+
+STYLE
+::cue(.loud) {
+ color: red;
+ position: absolute;
+}
+
+NOTE this block is ignored
+
+intro
+00:00:01.000 --> 00:00:04.500 line:0 align:left size:50%
+<v Esme>Hello <c.yellow>there</c></v>
+
+00:05.000 --> 00:07.000 position:25%,line-left line:50%,center
+Second &amp; last
+`;
+
+const SRT = `1
+00:00:01,000 --> 00:00:02,000
+{\\an8}<i>Top</i>
+
+2
+00:00:03,000 --> 00:00:04,250
+Bottom
+line two
+`;
+
+describe('captionParser', () => {
+ it('parses WebVTT cues, settings and styles', () => {
+ const track = parseWebVTT(VTT);
+
+ expect(track.cues).toHaveLength(2);
+ expect(track.cues[0]).toMatchObject({
+ id: 'intro',
+ startTime: 1,
+ endTime: 4.5,
+ settings: { line: 0, lineIsPercent: false, align: 'left', size: 50 }
+ });
+ expect(track.cues[1].settings).toMatchObject({ position: 25, positionAlign: 'line-left', line: 50, lineAlign: 'center' });
+ expect(track.styles).toEqual([{ selector: '.loud', declarations: { color: 'red' } }]);
+ });
+
+ it('rejects files without the WEBVTT signature', () => {
+ expect(() => parseWebVTT('00:01.000 --> 00:02.000\nHi')).toThrow(CaptionParseError);
+ });
+
+ it('maps SRT position tags onto cue settings', () => {
+ const track = parseSRT(SRT);
+
+ expect(track.cues).toHaveLength(2);
+ expect(track.cues[0]).toMatchObject({ text: '<i>Top</i>', settings: { line: 0, lineIsPercent: false } });
+ expect(track.cues[1]).toMatchObject({ startTime: 3, endTime: 4.25, text: 'Bottom\nline two', settings: {} });
+ });
+
+ it('round-trips between formats', () => {
+ const fromVtt = parseCaptions(serializeWebVTT(parseWebVTT(VTT)));
+ expect(fromVtt.cues).toEqual(parseWebVTT(VTT).cues);
+ expect(fromVtt.styles).toEqual(parseWebVTT(VTT).styles);
+
+ const srt = serializeSRT(parseWebVTT(VTT));
+ expect(srt).toContain('00:00:01,000 --> 00:00:04,500\n{\\an7}Esme: Hello <font color="#ffff00">there</font>');
+ expect(parseCaptions(srt).cues[0].settings).toMatchObject({ line: 0, align: 'left' });
+ });
+
+ it('builds a node tree from cue markup', () => {
+ expect(parseCueText('<v.loud Esme>Hi <b>you</b></v> &lt;3')).toEqual([
+ {
+ type: 'tag',
+ name: 'v',
+ classes: ['loud'],
+ annotation: 'Esme',
+ children: [
+ { type: 'text', text: 'Hi ' },
+ { type: 'tag', name: 'b', classes: [], children: [{ type: 'text', text: 'you' }] }]
+ },
+ { type: 'text', text: ' <3' }]);
+ });
+
+ it('finds the cues showing at a given time', () => {
+ const { cues } = parseWebVTT(VTT);
+ expect(getActiveCues(cues, 2).map(cue => cue.id)).toEqual(['intro']);
+ expect(getActiveCues(cues, 4.5)).toEqual([]);
+ });
+});
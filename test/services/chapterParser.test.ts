@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import { getChapterAt, parseChapterTimestamp, parseChapters } from '../../utils/chapterParser';
+
+const DESCRIPTION = `My trip to the mountains.
+
+0:00 Intro
+(1:30) - Packing
+2. 04:05 The climb
+1:02:03 Summit
+
+Music: the drop at 3:15 is my favourite part.`;
+
+describe('chapter parser', () => {
+ it('turns a timestamp list into chapters that end where the next begins', () => {
+ expect(parseChapters(DESCRIPTION, 4000)).toEqual({
+ chapters: [
+ { start: 0, end: 90, title: 'Intro' },
+ { start: 90, end: 245, title: 'Packing' },
+ { start: 245, end: 3723, title: 'The climb' },
+ { start: 3723, end: 4000, title: 'Summit' }
+ ]
+ });
+ });
+
+ it('accepts timestamps after the title and leaves the last chapter open without a duration', () => {
+ const { chapters } = parseChapters('Intro - 0:00\nMiddle (0:20)\nOutro [0:40]');
+ expect(chapters.map(chapter => [chapter.title, chapter.start])).toEqual([['Intro', 0], ['Middle', 20], ['Outro', 40]]);
+ expect(chapters[2].end).toBe(Infinity);
+ });
+
+ it('requires the first chapter to start at 0:00', () => {
+ expect(parseChapters('0:05 Intro\n0:30 Middle\n1:00 End')).toEqual({ chapters: [], rejection: 'not-starting-at-zero' });
+ });
+
+ it('requires at least three chapters', () => {
+ expect(parseChapters('0:00 Intro\n0:30 End')).toEqual({ chapters: [], rejection: 'too-few-chapters' });
+ expect(parseChapters('No timestamps here')).toEqual({ chapters: [], rejection: 'no-timestamps' });
+ expect(parseChapters(undefined).rejection).toBe('no-timestamps');
+ });
+
+ it('requires every chapter to last at least 10 seconds, the last one included', () => {
+ expect(parseChapters('0:00 Intro\n0:09 Middle\n0:30 End').rejection).toBe('too-short');
+ expect(parseChapters('0:00 Intro\n0:10 Middle\n0:30 End', 35).rejection).toBe('too-short');
+ expect(parseChapters('0:00 Intro\n0:10 Middle\n0:30 End', 40).chapters).toHaveLength(3);
+ });
+
+ it('requires timestamps in ascending order and within the video', () => {
+ expect(parseChapters('0:00 Intro\n1:00 Middle\n0:30 End').rejection).toBe('not-ascending');
+ expect(parseChapters('0:00 Intro\n1:00 Middle\n2:00 End', 90).rejection).toBe('not-ascending');
+ });
+
+ it('rejects timestamps whose seconds or minutes overflow', () => {
+ expect(parseChapterTimestamp(undefined, '1', '75')).toBeNaN();
+ expect(parseChapterTimestamp('1', '60', '00')).toBeNaN();
+ expect(parseChapterTimestamp(undefined, '75', '00')).toBe(4500);
+ });
+
+ it('finds the chapter playing at a time', () => {
+ const { chapters } = parseChapters(DESCRIPTION, 4000);
+ expect(getChapterAt(chapters, 0)?.title).toBe('Intro');
+ expect(getChapterAt(chapters, 90)?.title).toBe('Packing');
+ expect(getChapterAt(chapters, 4000)).toBeNull();
+ });
+});
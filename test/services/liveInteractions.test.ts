@@ -0,0 +1,250 @@
+import type { AddressInfo, Server } from 'net';
+import express from 'express';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createLiveInteractions } from '../../server/liveInteractions.js';
+
+interface Viewer {
+ userId: string;
+ username: string;
+ role: 'owner' | 'moderator' | 'viewer';
+ isGuest: boolean;
+}
+
+interface Payload {
+ type: string;
+ [key: string]: unknown;
+}
+
+type Interactions = ReturnType<typeof createLiveInteractions>;
+
+const STREAM = 'stream-1';
+
+/** `createJsonStore` without the file behind it */
+const memoryStore = () => {
+ let data = { streams: {} };
+ return {
+ get data() {
+ return data;
+ },
+ save: () => {},
+ reset() {
+ data = { streams: {} };
+ }
+ };
+};
+
+const viewer = (userId: string, role: Viewer['role'] = 'viewer'): Viewer => ({ userId, username: userId, role, isGuest: false });
+const guest: Viewer = { userId: 'guest-1', username: 'guest-1', role: 'viewer', isGuest: true };
+const host = viewer('host', 'owner');
+
+/** What a live chat socket hands each extension handler */
+const connect = (interactions: Interactions, who: Viewer) => {
+ const sent: Payload[] = [];
+ const errors: Array<{ code: string; message: string; feature?: string }> = [];
+ const ctx = {
+ streamId: STREAM,
+ viewer: who,
+ send: (payload: Payload) => sent.push(payload),
+ error: (code: string, message: string, extra = {}) => errors.push({ code, message, ...extra }),
+ isRestricted: () => false
+ };
+ const run = (type: string, data: Record<string, unknown> = {}) => interactions.handlers[type](ctx, { type, ...data });
+ return { ctx, sent, errors, run };
+};
+
+const waitFor = async (check: () => boolean, timeoutMs = 5000) => {
+ const deadline = Date.now() + timeoutMs;
+ while (!check()) {
+ if (Date.now() > deadline) {
+ throw new Error('Timed out');
+ }
+ await new Promise(resolve => setTimeout(resolve, 20));
+ }
+};
+
+describe('live interactions', () => {
+ const cleanup: Array<() => unknown> = [];
+
+ afterEach(async () => {
+ vi.useRealTimers();
+ for (const step of cleanup.splice(0).reverse()) {
+ await step();
+ }
+ });
+
+ const setup = () => {
+ const interactions = createLiveInteractions({ store: memoryStore() });
+ const broadcasts: Payload[] = [];
+ interactions.init({ broadcast: (streamId: string, payload: Payload) => streamId === STREAM && broadcasts.push(payload) });
+ cleanup.push(interactions.close);
+ const latestPoll = () => [...broadcasts].reverse().find(payload => payload.type === 'poll')?.poll as {
+ id: string;
+ isActive: boolean;
+ totalVotes: number;
+ options: Array<{ id: string; text: string; votes: number; percentage: number }>;
+ };
+ const latestQuestion = () => [...broadcasts].reverse().find(payload => payload.type === 'question')?.question as {
+ id: string;
+ upvotes: number;
+ answered: boolean;
+ answer?: string;
+ isHighlighted: boolean;
+ };
+ return { interactions, broadcasts, latestPoll, latestQuestion };
+ };
+
+ const listen = async (interactions: Interactions) => {
+ const app = express();
+ app.use(express.json());
+ app.use('/api', interactions.router);
+ const server: Server = app.listen(0);
+ await new Promise(resolve => server.once('listening', resolve));
+ cleanup.push(() => new Promise(resolve => server.close(resolve)));
+ const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+ return (pollId: string, optionId: string, userId?: string) =>
+ fetch(`${base}/live/streams/${STREAM}/polls/${pollId}/votes`, {
+ method: 'POST',
+ headers: { 'Content-Type': 'application/json', ...(userId ? { 'X-User-Id': userId } : {}) },
+ body: JSON.stringify({ optionId })
+ });
+ };
+
+ it('lets only the host and moderators start and end polls', () => {
+ const { interactions, latestPoll } = setup();
+ const audience = connect(interactions, viewer('alice'));
+ audience.run('poll:create', { question: 'Next game?', options: ['A', 'B'] });
+ expect(audience.errors).toEqual([expect.objectContaining({ code: 'forbidden', feature: 'poll' })]);
+
+ const studio = connect(interactions, host);
+ studio.run('poll:create', { question: 'Next game?', options: ['A'] });
+ expect(studio.errors).toEqual([expect.objectContaining({ code: 'invalid' })]);
+ studio.run('poll:create', { question: 'Next game?', options: ['A', 'B', ''] });
+ expect(latestPoll()).toMatchObject({ question: 'Next game?', isActive: true, totalVotes: 0 });
+ expect(latestPoll().options.map(option => option.text)).toEqual(['A', 'B']);
+
+ // A new poll closes the one before it
+ const first = latestPoll().id;
+ studio.run('poll:create', { question: 'Snack?', options: ['Chips', 'Fruit'] });
+ expect(interactions.getArchive(STREAM).polls.map((poll: { id: string }) => poll.id)).toEqual([first]);
+ });
+
+ it('counts one vote per signed-in user, whatever identity the socket claims', async () => {
+ const { interactions, latestPoll } = setup();
+ const vote = await listen(interactions);
+ connect(interactions, host).run('poll:create', { question: 'Next game?', options: ['A', 'B'] });
+ const { id: pollId, options } = latestPoll();
+ const [a, b] = options;
+
+ expect((await vote(pollId, a!.id)).status).toBe(401);
+ expect((await vote(pollId, 'nope', 'alice')).status).toBe(400);
+
+ const counted = await vote(pollId, a!.id, 'alice');
+ expect(counted.status).toBe(201);
+ expect(await counted.json()).toEqual({ pollId, optionId: a!.id });
+ const again = await vote(pollId, b!.id, 'alice');
+ expect(again.status).toBe(409);
+ expect(await again.json()).toMatchObject({ optionId: a!.id });
+ expect((await vote(pollId, b!.id, 'bob')).status).toBe(201);
+
+ // Votes are no longer accepted over the socket at all
+ expect(interactions.handlers['poll:vote']).toBeUndefined();
+
+ // Results go out batched
+ await waitFor(() => latestPoll().totalVotes === 2);
+ expect(latestPoll().options.map(option => [option.votes, option.percentage])).toEqual([[1, 50], [1, 50]]);
+
+ // A returning viewer learns their own vote
+ const alice = connect(interactions, viewer('alice'));
+ interactions.onJoin(alice.ctx);
+ expect(alice.sent.find(payload => payload.type === 'polls')).toMatchObject({ votes: { [pollId]: a!.id } });
+ });
+
+ it('closes a poll when its time is up and refuses later votes', async () => {
+ const { interactions, latestPoll } = setup();
+ const vote = await listen(interactions);
+ vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+ connect(interactions, host).run('poll:create', { question: 'Quick one', options: ['Yes', 'No'], duration: 1000 });
+ const poll = latestPoll();
+
+ // Durations are clamped to at least ten seconds
+ vi.advanceTimersByTime(9_000);
+ expect(latestPoll().isActive).toBe(true);
+ vi.advanceTimersByTime(1_000);
+ expect(latestPoll().isActive).toBe(false);
+ vi.useRealTimers();
+
+ expect((await vote(poll.id, poll.options[0]!.id, 'alice')).status).toBe(409);
+ expect(interactions.getArchive(STREAM).polls).toHaveLength(1);
+ });
+
+ it('takes questions from signed-in viewers and toggles upvotes', () => {
+ const { interactions, latestQuestion } = setup();
+ const anonymous = connect(interactions, guest);
+ anonymous.run('question:ask', { question: 'Hello?' });
+ expect(anonymous.errors).toEqual([expect.objectContaining({ code: 'forbidden', feature: 'question' })]);
+
+ const alice = connect(interactions, viewer('alice'));
+ alice.run('question:ask', { question: '   ' });
+ expect(alice.errors).toEqual([expect.objectContaining({ code: 'invalid' })]);
+ alice.run('question:ask', { question: 'What camera is that?' });
+ const { id } = latestQuestion();
+
+ const bob = connect(interactions, viewer('bob'));
+ bob.run('question:upvote', { questionId: id });
+ alice.run('question:upvote', { questionId: id });
+ expect(latestQuestion().upvotes).toBe(2);
+ bob.run('question:upvote', { questionId: id });
+ expect(latestQuestion().upvotes).toBe(1);
+
+ interactions.onJoin(alice.ctx);
+ expect(alice.sent.find(payload => payload.type === 'questions')).toMatchObject({ upvoted: [id] });
+ });
+
+ it('lets hosts answer and pin questions and keeps answered ones for the replay', () => {
+ const { interactions, broadcasts, latestQuestion } = setup();
+ const alice = connect(interactions, viewer('alice'));
+ alice.run('question:ask', { question: 'First?' });
+ const first = latestQuestion().id;
+ alice.run('question:ask', { question: 'Second?' });
+ const second = latestQuestion().id;
+
+ alice.run('question:answer', { questionId: first, answer: 'Yes' });
+ expect(alice.errors).toEqual([expect.objectContaining({ code: 'forbidden' })]);
+
+ const studio = connect(interactions, host);
+ studio.run('question:pin', { questionId: first });
+ expect(latestQuestion()).toMatchObject({ id: first, isHighlighted: true });
+ // Pinning another unpins the first
+ studio.run('question:pin', { questionId: second });
+ const unpinned = broadcasts.filter(payload => payload.type === 'question').map(payload => payload.question as { id: string; isHighlighted: boolean });
+ expect(unpinned.slice(-2)).toEqual([
+ expect.objectContaining({ id: first, isHighlighted: false }),
+ expect.objectContaining({ id: second, isHighlighted: true })
+ ]);
+
+ studio.run('question:answer', { questionId: second, answer: 'A mirrorless one' });
+ expect(latestQuestion()).toMatchObject({ id: second, answered: true, answer: 'A mirrorless one', isHighlighted: false });
+ expect(interactions.getArchive(STREAM).questions.map((question: { id: string }) => question.id)).toEqual([second]);
+ });
+
+ it('lets authors and moderators remove questions, which leaves them out of the replay', () => {
+ const { interactions, broadcasts, latestQuestion } = setup();
+ const alice = connect(interactions, viewer('alice'));
+ alice.run('question:ask', { question: 'Mine' });
+ const mine = latestQuestion().id;
+
+ const bob = connect(interactions, viewer('bob'));
+ bob.run('question:remove', { questionId: mine });
+ expect(bob.errors).toEqual([expect.objectContaining({ code: 'forbidden' })]);
+
+ const moderator = connect(interactions, viewer('mod', 'moderator'));
+ moderator.run('question:answer', { questionId: mine, answer: 'Done' });
+ alice.run('question:remove', { questionId: mine });
+ expect(broadcasts.at(-1)).toEqual({ type: 'question:removed', questionId: mine });
+ expect(interactions.getArchive(STREAM).questions).toEqual([]);
+
+ bob.run('question:upvote', { questionId: mine });
+ expect(bob.errors.at(-1)).toMatchObject({ code: 'invalid' });
+ });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+ ManifestParseError,
+ getManifestType,
+ mimeCodec,
+ parseHlsMasterPlaylist,
+ parseHlsMediaPlaylist,
+ parseIsoDuration } from '../../utils/manifestParser';
+
+const BASE = 'https://cdn.example.test/v/abc/';
+
+const MASTER = `#EXTM3U
+#EXT-X-STREAM-INF:BANDWIDTH=2500000,RESOLUTION=1280x720,FRAME-RATE=30,CODECS="avc1.64001f,mp4a.40.2"
+720p/index.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=900000,AVERAGE-BANDWIDTH=800000,RESOLUTION=640x360,CODECS="avc1.4d401e,mp4a.40.2"
+https://other.example.test/360p.m3u8
+`;
+
+const MEDIA = `#EXTM3U
+#EXT-X-TARGETDURATION:6
+#EXT-X-MAP:URI="init.mp4",BYTERANGE="720@0"
+#EXTINF:6.0,
+#EXT-X-BYTERANGE:1000@720
+video.mp4
+#EXTINF:4.5,
+#EXT-X-BYTERANGE:500
+video.mp4
+#EXT-X-ENDLIST
+`;
+
+describe('manifest parser', () => {
+ it('detects the manifest type from the URL or the content type', () => {
+ expect(getManifestType('https://x.test/a.m3u8?token=1')).toBe('hls');
+ expect(getManifestType('https://x.test/a.mpd')).toBe('dash');
+ expect(getManifestType('https://x.test/manifest', 'application/dash+xml')).toBe('dash');
+ expect(getManifestType('https://x.test/manifest', 'application/vnd.apple.mpegURL')).toBe('hls');
+ expect(getManifestType('https://x.test/a.mp4', 'video/mp4')).toBeNull();
+ });
+
+ it('reads variants from a master playlist, lowest bandwidth first', () => {
+ const manifest = parseHlsMasterPlaylist(MASTER, `${BASE}master.m3u8`);
+ expect(manifest.type).toBe('hls');
+ expect(manifest.video.map(r => [r.bandwidth, r.height, r.playlistUrl])).toEqual([
+ [800_000, 360, 'https://other.example.test/360p.m3u8'],
+ [2_500_000, 720, `${BASE}720p/index.m3u8`]
+ ]);
+ expect(manifest.video[1]).toMatchObject({ width: 1280, frameRate: 30, codecs: 'avc1.64001f,mp4a.40.2' });
+ expect(mimeCodec(manifest.video[1])).toBe('video/mp4; codecs="avc1.64001f,mp4a.40.2"');
+ });
+
+ it('reads segments, byte ranges and the init segment from a media playlist', () => {
+ const playlist = parseHlsMediaPlaylist(MEDIA, `${BASE}index.m3u8`);
+ expect(playlist).toMatchObject({ duration: 10.5, isLive: false, targetDuration: 6 });
+ expect(playlist.initSegment).toEqual({ url: `${BASE}init.mp4`, byteRange: [0, 719] });
+ expect(playlist.segments).toEqual([
+ { url: `${BASE}video.mp4`, start: 0, duration: 6, byteRange: [720, 1719] },
+ // Without an offset the range continues from the previous one
+ { url: `${BASE}video.mp4`, start: 6, duration: 4.5, byteRange: [1720, 2219] }
+ ]);
+ });
+
+ it('treats a playlist without ENDLIST as live', () => {
+ const live = parseHlsMediaPlaylist('#EXTM3U\n#EXT-X-TARGETDURATION:2\n#EXTINF:2,\nseg1.ts\n', `${BASE}live.m3u8`);
+ expect(live.isLive).toBe(true);
+ expect(parseHlsMasterPlaylist('#EXTM3U\n#EXTINF:2,\nseg1.ts\n', `${BASE}live.m3u8`).video[0].segments).toHaveLength(1);
+ });
+
+ it('rejects text that is not a playlist', () => {
+ expect(() => parseHlsMasterPlaylist('<html></html>', BASE)).toThrow(ManifestParseError);
+ });
+
+ it('parses ISO 8601 durations', () => {
+ expect(parseIsoDuration('PT1H2M3.5S')).toBe(3723.5);
+ expect(parseIsoDuration('P1DT30S')).toBe(86430);
+ expect(parseIsoDuration('PT0S')).toBe(0);
+ expect(parseIsoDuration('garbage')).toBe(0);
+ expect(parseIsoDuration(null)).toBe(0);
+ });
+});
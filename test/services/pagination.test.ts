@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+
+import { InvalidPageTokenError, compareKeys, paginate, parseMaxResults } from '../../server/pagination.js';
+
+interface Item {
+ id: string;
+ views: number;
+}
+
+// Most viewed first, ties broken by id
+const byViews = (item: Item) => [-item.views, item.id];
+
+const items = (...specs: Array<[string, number]>): Item[] => specs.map(([id, views]) => ({ id, views }));
+
+const ids = (page: { items: Item[] }) => page.items.map(item => item.id);
+
+describe('cursor pagination', () => {
+ it('orders keys element by element, shorter tuples first', () => {
+ expect(compareKeys([1, 'a'], [1, 'b'])).toBe(-1);
+ expect(compareKeys([2], [1, 'z'])).toBe(1);
+ expect(compareKeys([1], [1, 'a'])).toBe(-1);
+ expect(compareKeys([1, 'a'], [1, 'a'])).toBe(0);
+ });
+
+ it('walks forward and back with opaque tokens, breaking ties by id', () => {
+ const list = items(['c', 5], ['a', 5], ['b', 9], ['d', 1], ['e', 5]);
+ const options = { maxResults: 2, sortKey: byViews, scope: 'videos' };
+
+ const first = paginate(list, options);
+ expect(ids(first)).toEqual(['b', 'a']);
+ expect(first.prevPageToken).toBeUndefined();
+ expect(first.pageInfo).toEqual({ totalResults: 5, resultsPerPage: 2 });
+
+ const second = paginate(list, { ...options, pageToken: first.nextPageToken });
+ expect(ids(second)).toEqual(['c', 'e']);
+
+ const last = paginate(list, { ...options, pageToken: second.nextPageToken });
+ expect(ids(last)).toEqual(['d']);
+ expect(last.nextPageToken).toBeUndefined();
+
+ expect(ids(paginate(list, { ...options, pageToken: last.prevPageToken }))).toEqual(['c', 'e']);
+ expect(ids(paginate(list, { ...options, pageToken: second.prevPageToken }))).toEqual(['b', 'a']);
+ });
+
+ it('neither repeats nor skips items when the list changes between requests', () => {
+ const list = items(['a', 9], ['b', 8], ['c', 7], ['d', 6]);
+ const options = { maxResults: 2, sortKey: byViews, scope: 'videos' };
+ const first = paginate(list, options);
+
+ // A new top video and a removed one ahead of the cursor
+ const changed = [{ id: 'new', views: 99 }, ...list.filter(item => item.id !== 'a')];
+ expect(ids(paginate(changed, { ...options, pageToken: first.nextPageToken }))).toEqual(['c', 'd']);
+ });
+
+ it('rejects malformed tokens and tokens from another listing', () => {
+ const list = items(['a', 3], ['b', 2], ['c', 1]);
+ const { nextPageToken } = paginate(list, { maxResults: 1, sortKey: byViews, scope: 'videos' });
+
+ expect(() => paginate(list, { maxResults: 1, sortKey: byViews, scope: 'playlists', pageToken: nextPageToken }))
+ .toThrow(InvalidPageTokenError);
+ expect(() => paginate(list, { maxResults: 1, sortKey: byViews, scope: 'videos', pageToken: 'not-a-token' }))
+ .toThrow(InvalidPageTokenError);
+ const forged = Buffer.from(JSON.stringify({ d: 'sideways', s: 'videos', k: [] })).toString('base64url');
+ expect(() => paginate(list, { maxResults: 1, sortKey: byViews, scope: 'videos', pageToken: forged }))
+ .toThrow(InvalidPageTokenError);
+ });
+
+ it('clamps maxResults and falls back to the legacy limit', () => {
+ expect(parseMaxResults({})).toBe(20);
+ expect(parseMaxResults({ limit: '5' })).toBe(5);
+ expect(parseMaxResults({ maxResults: '500', limit: '5' })).toBe(50);
+ expect(parseMaxResults({ maxResults: '0' })).toBe(1);
+ expect(parseMaxResults({ maxResults: 'lots' })).toBe(20);
+ });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+
+import { createRecommendationService, diversify } from '../../server/recommendations.js';
+
+const NOW = Date.parse('2024-06-01T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+interface TestVideo {
+ id: string;
+ title: string;
+ description: string;
+ tags: string[];
+ category: string;
+ channelId: string;
+ channelName: string;
+ views: string;
+ uploadedAt: string;
+}
+
+/** `createJsonStore` without the file behind it */
+const memoryStore = (initial: Record<string, unknown> = {}) => {
+ const fresh = () => ({ watches: {}, feedback: {}, ...structuredClone(initial) });
+ let data = fresh();
+ return {
+ get data() {
+ return data;
+ },
+ save: () => {},
+ reset() {
+ data = fresh();
+ }
+ };
+};
+
+const video = (id: string, overrides: Partial<TestVideo> = {}): TestVideo => ({
+ id,
+ title: `Video ${id}`,
+ description: '',
+ tags: [],
+ category: 'Entertainment',
+ channelId: `channel-${id}`,
+ channelName: `Channel ${id}`,
+ views: '1,000',
+ uploadedAt: new Date(NOW - 10 * 24 * HOUR_MS).toISOString(),
+ ...overrides
+});
+
+const service = (videos: TestVideo[]) => createRecommendationService({
+ getCandidates: () => videos,
+ getVideo: (id: string) => videos.find(candidate => candidate.id === id) ?? null,
+ store: memoryStore()
+});
+
+const ids = (list: { videos: Array<{ id: string }> }) => list.videos.map(result => result.id);
+
+describe('recommendation service', () => {
+ it('recommends what other viewers watched around the same video', () => {
+ const videos = ['seed', 'paired', 'other', 'another'].map(id => video(id));
+ const recommendations = service(videos);
+ for (const userId of ['ana', 'ben']) {
+ recommendations.recordWatch(userId, 'seed', NOW - 2 * HOUR_MS);
+ recommendations.recordWatch(userId, 'paired', NOW - HOUR_MS);
+ }
+ // Too far apart to count as watched together
+ recommendations.recordWatch('cy', 'seed', NOW - 72 * HOUR_MS);
+ recommendations.recordWatch('cy', 'other', NOW);
+
+ const list = recommendations.recommend({ videoId: 'seed', now: NOW });
+ expect(ids(list)[0]).toBe('paired');
+ expect(list.videos[0].reason).toBe('watched-together');
+ expect(ids(list)).not.toContain('seed');
+ });
+
+ it('ranks by shared tags and pushes down what the viewer has seen', () => {
+ const videos = [
+ video('guitar', { tags: ['guitar', 'lesson'], category: 'Music' }),
+ video('chords', { tags: ['guitar', 'chords'], category: 'Music' }),
+ video('cooking', { tags: ['recipe'], category: 'Food' }),
+ video('solo', { tags: ['guitar', 'lesson'], category: 'Music' })
+ ];
+ const recommendations = service(videos);
+ expect(ids(recommendations.recommend({ videoId: 'guitar', now: NOW }))).toEqual(['solo', 'chords', 'cooking']);
+
+ recommendations.recordWatch('ana', 'solo', NOW);
+ const list = recommendations.recommend({ userId: 'ana', videoId: 'guitar', now: NOW });
+ // Still there for a rewatch, just no longer first
+ expect(ids(list)[0]).toBe('chords');
+ expect(ids(list)).toContain('solo');
+ expect(list.personalized).toBe(true);
+ });
+
+ it('drops dismissed videos and blocked channels for that viewer only', () => {
+ const videos = [
+ video('a', { channelId: 'loud' }),
+ video('b', { channelId: 'loud' }),
+ video('c'),
+ video('d')
+ ];
+ const recommendations = createRecommendationService({
+ getCandidates: () => videos,
+ store: memoryStore({ feedback: { ana: { notInterested: { c: NOW }, blockedChannels: { loud: { channelName: 'Loud', at: NOW } } } } })
+ });
+
+ expect(ids(recommendations.recommend({ userId: 'ana', now: NOW }))).toEqual(['d']);
+ expect(ids(recommendations.recommend({ userId: 'ben', now: NOW }))).toHaveLength(4);
+ });
+});
+
+describe('diversify', () => {
+ it('keeps one channel from taking over the list', () => {
+ const scored = [
+ ...Array.from({ length: 6 }, (_, i) => ({ video: video(`top-${i}`, { channelId: 'top' }), score: 1 - i * 0.01 })),
+ ...Array.from({ length: 6 }, (_, i) => ({ video: video(`rest-${i}`), score: 0.3 - i * 0.01 }))
+ ];
+ const picked = diversify(scored, 8).map((entry: { video: TestVideo }) => entry.video.channelId);
+ expect(picked).toHaveLength(8);
+ expect(picked.filter((channelId: string) => channelId === 'top')).toHaveLength(2);
+ expect(picked.slice(0, 2)).toEqual(['top', 'top']);
+ });
+});
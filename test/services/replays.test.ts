@@ -0,0 +1,97 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo, Server } from 'net';
+import express from 'express';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// Recordings are written under the data directory, which storage reads when it loads
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replays-'));
+process.env.DEV_SERVER_DATA_DIR = dataDir;
+const { createReplayService } = await import('../../server/replays.js');
+
+/** `createJsonStore` without the file behind it */
+const memoryStore = () => {
+ let data = { replays: {} as Record<string, { chat: unknown[] }> };
+ return {
+ get data() {
+ return data;
+ },
+ save: () => {},
+ reset() {
+ data = { replays: {} };
+ }
+ };
+};
+
+/** Just enough of the processing service for a replay to be published as a video */
+const fakeProcessing = () => ({
+ queue: { register: () => {}, get: () => null, enqueue: () => ({ id: 'job-1' }) },
+ getVideo: () => null,
+ addVideo: ({ fields }: { fields: { title: string; description: string } }) => ({ id: 'video-1', ...fields })
+});
+
+describe('stream replays', () => {
+ const cleanup: Array<() => unknown> = [];
+
+ afterEach(async () => {
+ for (const step of cleanup.splice(0).reverse()) {
+ await step();
+ }
+ });
+
+ it('keeps the whole chat of a broadcast and pages through it', async () => {
+ const store = memoryStore();
+ const replays = createReplayService({
+ processing: fakeProcessing(),
+ getStream: () => ({ title: 'Launch stream' }),
+ getStreamOwnerId: () => 'owner',
+ store
+ });
+ const app = express();
+ app.use('/api', replays.router);
+ const server: Server = app.listen(0);
+ await new Promise(resolve => server.once('listening', resolve));
+ const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+ cleanup.push(() => fs.rmSync(dataDir, { recursive: true, force: true }), replays.close, () => new Promise(resolve => server.close(resolve)));
+
+ const startedAt = Date.now() - 5 * 60 * 1000;
+ replays.start('stream-1', new Date(startedAt).toISOString());
+ replays.write('stream-1', { type: 9, timestamp: 1000, payload: Buffer.alloc(8) });
+ // More messages than the live chat keeps, all sent before the stream ends
+ for (let i = 0; i < 600; i++) {
+ replays.onMessage('stream-1', {
+ id: `msg-${i}`,
+ userId: 'viewer',
+ username: 'Viewer',
+ message: `message ${i}`,
+ type: 'message',
+ timestamp: new Date(startedAt + i * 100).toISOString()
+ });
+ }
+ replays.onDelete('stream-1', ['msg-1']);
+ replays.write('stream-1', { type: 9, timestamp: 61000, payload: Buffer.alloc(8) });
+ replays.stop('stream-1');
+ await vi.waitFor(() => expect(Object.keys(store.data.replays)).toHaveLength(1));
+
+ const latest = replays.getLatest('stream-1');
+ expect(latest.stats.chatMessages).toBe(599);
+ expect(latest).not.toHaveProperty('views');
+
+ const pages = [];
+ let pageToken: string | undefined;
+ do {
+ const response = await fetch(`${base}/live/replays/${latest.id}/chat?from=0&to=120${pageToken ? `&pageToken=${pageToken}` : ''}`);
+ const page = await response.json();
+ pages.push(page.messages);
+ pageToken = page.nextPageToken;
+ } while (pageToken);
+
+ const messages = pages.flat();
+ expect(pages).toHaveLength(3);
+ expect(messages).toHaveLength(599);
+ expect(messages[0]).toMatchObject({ message: 'message 0', offsetSeconds: 0 });
+ expect(messages.some(message => message.id === 'msg-1')).toBe(false);
+ expect(messages[598]).toMatchObject({ message: 'message 599', offsetSeconds: 59.9 });
+ });
+});
@@ -0,0 +1,155 @@
+import type { AddressInfo, Server } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { createRestreamService } from '../../server/restream.js';
+import { AUDIO, DATA, VIDEO, createRtmpServer, encodeAmf0 } from '../../server/rtmp.js';
+
+interface Received {
+ type: number;
+ timestamp: number;
+ payload: Buffer;
+}
+
+/** A local RTMP server standing in for a platform's ingest */
+const startSink = async (streamKey: string) => {
+ const messages: Received[] = [];
+ const publishes: string[] = [];
+ const connections: Array<() => void> = [];
+ const server: Server = createRtmpServer({
+ onPublish: ({ streamName, close }: { streamName: string; close: () => void }) => {
+ publishes.push(streamName);
+ if (streamName !== streamKey) {
+ return null;
+ }
+ connections.push(close);
+ return { onMessage: (message: Received) => messages.push(message), onClose: () => {} };
+ }
+ });
+ await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+ const { port } = server.address() as AddressInfo;
+ return {
+ url: `rtmp://127.0.0.1:${port}/live`,
+ messages,
+ publishes,
+ /** Drops the publisher, as a platform does when its ingest restarts */
+ kick: () => connections.splice(0).forEach(close => close()),
+ close: () => new Promise<void>(resolve => server.close(() => resolve()))
+ };
+};
+
+/** `createJsonStore` without the file behind it */
+const memoryStore = () => {
+ let data = { streams: {} };
+ return {
+ get data() {
+ return data;
+ },
+ save: () => {},
+ reset() {
+ data = { streams: {} };
+ }
+ };
+};
+
+const waitFor = async (check: () => boolean, timeoutMs = 5000) => {
+ const deadline = Date.now() + timeoutMs;
+ while (!check()) {
+ if (Date.now() > deadline) {
+ throw new Error('Timed out');
+ }
+ await new Promise(resolve => setTimeout(resolve, 20));
+ }
+};
+
+const METADATA = { type: DATA, timestamp: 0, payload: encodeAmf0('onMetaData', { width: 1280, height: 720, framerate: 30 }) };
+const AVC_HEADER = { type: VIDEO, timestamp: 0, payload: Buffer.from([0x17, 0x00, 0, 0, 0, 1, 0x42, 0xc0, 0x1f]) };
+const AAC_HEADER = { type: AUDIO, timestamp: 0, payload: Buffer.from([0xaf, 0x00, 0x12, 0x10]) };
+const keyframe = (timestamp: number) => ({ type: VIDEO, timestamp, payload: Buffer.from([0x17, 0x01, 0, 0, 0, 9, 9]) });
+const interframe = (timestamp: number) => ({ type: VIDEO, timestamp, payload: Buffer.from([0x27, 0x01, 0, 0, 0, 8, 8]) });
+const audio = (timestamp: number) => ({ type: AUDIO, timestamp, payload: Buffer.from([0xaf, 0x01, 7, 7]) });
+
+describe('restream service', () => {
+ const cleanup: Array<() => unknown> = [];
+
+ afterEach(async () => {
+ for (const step of cleanup.splice(0).reverse()) {
+ await step();
+ }
+ });
+
+ const setup = async () => {
+ const youtube = await startSink('yt-key');
+ const twitch = await startSink('twitch-key');
+ const restream = createRestreamService({ getStreamOwnerId: () => 'owner', store: memoryStore() });
+ cleanup.push(youtube.close, twitch.close, restream.close);
+ restream.setTarget('stream-1', 'youtube', { serverUrl: youtube.url, streamKey: 'yt-key' });
+ restream.setTarget('stream-1', 'twitch', { serverUrl: twitch.url, streamKey: 'twitch-key' });
+ return { youtube, twitch, restream };
+ };
+
+ const statusOf = (restream: ReturnType<typeof createRestreamService>, platform: string) =>
+ restream.getTargets('stream-1').find((target: { platform: string }) => target.platform === platform)?.status;
+
+ it('forwards one ingest to every enabled destination, starting on a keyframe', async () => {
+ const { youtube, twitch, restream } = await setup();
+ restream.start('stream-1');
+ [METADATA, AVC_HEADER, AAC_HEADER].forEach(message => restream.write('stream-1', message));
+ await waitFor(() => statusOf(restream, 'youtube') === 'live' && statusOf(restream, 'twitch') === 'live');
+
+ [interframe(33), audio(40), keyframe(66), audio(80), interframe(100)].forEach(message => restream.write('stream-1', message));
+ await waitFor(() => youtube.messages.length >= 6 && twitch.messages.length >= 6);
+
+ for (const sink of [youtube, twitch]) {
+ expect(sink.messages.map(message => message.type)).toEqual([DATA, VIDEO, AUDIO, VIDEO, AUDIO, VIDEO]);
+ expect(sink.messages[3].timestamp).toBe(66);
+ }
+ });
+
+ it('only ever returns the end of a stream key', async () => {
+ const { restream } = await setup();
+ const [target] = restream.getTargets('stream-1');
+ expect(target).toMatchObject({ platform: 'youtube', streamKeyHint: '••••-key', status: 'idle' });
+ expect(JSON.stringify(restream.getTargets('stream-1'))).not.toContain('yt-key');
+ });
+
+ it('rejects unknown platforms and non-RTMP servers', async () => {
+ const { restream } = await setup();
+ expect(restream.setTarget('stream-1', 'myspace', { streamKey: 'k' })).toMatch(/platform must be one of/);
+ expect(restream.setTarget('stream-1', 'twitch', { serverUrl: 'https://twitch.tv', streamKey: 'k' })).toMatch(/rtmp/);
+ });
+
+ it('reconnects a destination that drops and resumes it from the next keyframe', async () => {
+ const { youtube, twitch, restream } = await setup();
+ restream.start('stream-1');
+ restream.write('stream-1', AVC_HEADER);
+ await waitFor(() => statusOf(restream, 'youtube') === 'live' && statusOf(restream, 'twitch') === 'live');
+ restream.write('stream-1', keyframe(0));
+ await waitFor(() => youtube.messages.length >= 2 && twitch.messages.length >= 2);
+
+ const before = youtube.messages.length;
+ youtube.kick();
+ await waitFor(() => statusOf(restream, 'youtube') === 'reconnecting');
+ expect(statusOf(restream, 'twitch')).toBe('live');
+
+ await waitFor(() => statusOf(restream, 'youtube') === 'live');
+ expect(youtube.publishes).toEqual(['yt-key', 'yt-key']);
+ [interframe(2000), keyframe(2033)].forEach(message => restream.write('stream-1', message));
+ await waitFor(() => youtube.messages.length > before + 1);
+
+ // The sequence header is replayed on reconnect, then frames resume from the keyframe
+ expect(youtube.messages.slice(before).map(message => message.payload[0])).toEqual([0x17, 0x17]);
+ expect(youtube.messages[before].payload[1]).toBe(0);
+ });
+
+ it('marks a destination that refuses the key as reconnecting, and stops when the stream ends', async () => {
+ const { youtube, restream } = await setup();
+ restream.setTarget('stream-1', 'youtube', { streamKey: 'wrong-key' });
+ restream.start('stream-1');
+ await waitFor(() => statusOf(restream, 'youtube') === 'reconnecting');
+ expect(restream.getTargets('stream-1')[0].error).toBe('Invalid stream key');
+
+ restream.stop('stream-1');
+ expect(statusOf(restream, 'youtube')).toBe('idle');
+ expect(youtube.publishes).toEqual(['wrong-key']);
+ });
+});
@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+
+import { AUDIO, DATA, RtmpError, VIDEO, createChunkReader, decodeAmf0, encodeAmf0 } from '../../server/rtmp.js';
+
+interface Message {
+ type: number;
+ streamId: number;
+ timestamp: number;
+ payload: Buffer;
+}
+
+interface ChunkHeader {
+ fmt?: 0 | 1 | 2 | 3;
+ chunkStreamId: number;
+ timestamp?: number;
+ length?: number;
+ type?: number;
+ streamId?: number;
+ /** Whether the message uses an extended timestamp, which fmt 3 chunks repeat */
+ extended?: boolean;
+}
+
+/** One chunk: basic header, the message header for `fmt`, then `body` */
+const chunk = ({ fmt = 0, chunkStreamId, timestamp = 0, length = 0, type = 0, streamId = 0, extended = timestamp >= 0xffffff }: ChunkHeader, body = Buffer.alloc(0)) => {
+ const basic = chunkStreamId < 64
+ ? Buffer.from([(fmt << 6) | chunkStreamId])
+ : Buffer.from([fmt << 6, chunkStreamId - 64]);
+ const header = Buffer.alloc([11, 7, 3, 0][fmt]!);
+ if (fmt <= 2) {
+ header.writeUIntBE(extended ? 0xffffff : timestamp, 0, 3);
+ }
+ if (fmt <= 1) {
+ header.writeUIntBE(length, 3, 3);
+ header[6] = type;
+ }
+ if (fmt === 0) {
+ header.writeUInt32LE(streamId, 7);
+ }
+ const parts = [basic, header];
+ if (extended) {
+ const time = Buffer.alloc(4);
+ time.writeUInt32BE(timestamp);
+ parts.push(time);
+ }
+ return Buffer.concat([...parts, body]);
+};
+
+const reader = () => {
+ const messages: Message[] = [];
+ const chunks = createChunkReader((message: Message) => messages.push(message));
+ return { messages, chunks };
+};
+
+const bytes = (length: number, fill = 1) => Buffer.alloc(length, fill);
+
+const MiB = 1024 * 1024;
+
+describe('createChunkReader', () => {
+ it('reassembles a message from 128 byte chunks, however the bytes arrive', () => {
+ const payload = Buffer.from(Array.from({ length: 300 }, (_, i) => i % 256));
+ const wire = Buffer.concat([
+ chunk({ chunkStreamId: 6, timestamp: 40, length: 300, type: VIDEO, streamId: 1 }, payload.subarray(0, 128)),
+ chunk({ fmt: 3, chunkStreamId: 6 }, payload.subarray(128, 256)),
+ chunk({ fmt: 3, chunkStreamId: 6 }, payload.subarray(256))
+ ]);
+
+ const whole = reader();
+ whole.chunks.push(wire);
+ const trickled = reader();
+ for (const byte of wire) {
+ trickled.chunks.push(Buffer.from([byte]));
+ }
+
+ for (const { messages } of [whole, trickled]) {
+ expect(messages).toHaveLength(1);
+ expect(messages[0]).toMatchObject({ type: VIDEO, streamId: 1, timestamp: 40 });
+ expect(messages[0]!.payload.equals(payload)).toBe(true);
+ }
+ });
+
+ it('keeps interleaved chunk streams apart and applies timestamp deltas', () => {
+ const { messages, chunks } = reader();
+ chunks.push(Buffer.concat([
+ chunk({ chunkStreamId: 6, timestamp: 1000, length: 200, type: VIDEO, streamId: 1 }, bytes(128, 9)),
+ chunk({ chunkStreamId: 4, timestamp: 1000, length: 10, type: AUDIO, streamId: 1 }, bytes(10, 8)),
+ chunk({ fmt: 3, chunkStreamId: 6 }, bytes(72, 9)),
+ // Same length and type, 23ms later
+ chunk({ fmt: 2, chunkStreamId: 4, timestamp: 23 }, bytes(10, 8)),
+ // A new message with the previous delta again
+ chunk({ fmt: 3, chunkStreamId: 4 }, bytes(10, 8)),
+ // New length, 33ms after the last video frame
+ chunk({ fmt: 1, chunkStreamId: 6, timestamp: 33, length: 5, type: VIDEO }, bytes(5, 9))
+ ]));
+
+ expect(messages.map(({ type, timestamp, payload }) => [type, timestamp, payload.length])).toEqual([
+ [AUDIO, 1000, 10],
+ [VIDEO, 1000, 200],
+ [AUDIO, 1023, 10],
+ [AUDIO, 1046, 10],
+ [VIDEO, 1033, 5]
+ ]);
+ expect(messages.every(message => message.streamId === 1)).toBe(true);
+ });
+
+ it('reads extended timestamps, which continuation chunks repeat', () => {
+ const { messages, chunks } = reader();
+ const timestamp = 0x1000000 + 5;
+ chunks.push(Buffer.concat([
+ chunk({ chunkStreamId: 4, timestamp, length: 130, type: AUDIO }, bytes(128)),
+ chunk({ fmt: 3, chunkStreamId: 4, timestamp, extended: true }, bytes(2))
+ ]));
+
+ expect(messages).toHaveLength(1);
+ expect(messages[0]).toMatchObject({ timestamp, payload: bytes(130) });
+ });
+
+ it('reads two byte chunk stream ids', () => {
+ const { messages, chunks } = reader();
+ chunks.push(chunk({ chunkStreamId: 300, length: 3, type: DATA }, bytes(3)));
+ chunks.push(chunk({ chunkStreamId: 70, length: 3, type: DATA }, bytes(3)));
+
+ expect(messages).toHaveLength(2);
+ });
+
+ it('uses a new chunk size from the next chunk on', () => {
+ const messages: Message[] = [];
+ const chunks = createChunkReader((message: Message) => {
+ messages.push(message);
+ if (message.type === 1) {
+ chunks.setChunkSize(message.payload.readUInt32BE(0));
+ }
+ });
+ const size = Buffer.alloc(4);
+ size.writeUInt32BE(4096);
+
+ chunks.push(Buffer.concat([
+ chunk({ chunkStreamId: 2, length: 4, type: 1 }, size),
+ chunk({ chunkStreamId: 6, length: 1000, type: VIDEO }, bytes(1000))
+ ]));
+
+ expect(messages.map(message => message.payload.length)).toEqual([4, 1000]);
+ });
+
+ it('refuses a message over the size limit before allocating it', () => {
+ const { messages, chunks } = reader();
+
+ expect(() => chunks.push(chunk({ chunkStreamId: 6, length: 0xffffff, type: VIDEO }))).toThrow(RtmpError);
+ expect(messages).toEqual([]);
+ });
+
+ it('refuses to hold too many half-assembled messages', () => {
+ const { chunks } = reader();
+ // Each one only needs a first chunk to be allocated in full
+ const start = (chunkStreamId: number) => chunk({ chunkStreamId, length: 8 * MiB, type: VIDEO }, bytes(128));
+
+ chunks.push(start(6));
+ chunks.push(start(7));
+ expect(() => chunks.push(start(8))).toThrow(/bytes buffered/);
+ });
+
+ it('refuses to buffer an unfinished chunk past the limit', () => {
+ const { chunks } = reader();
+ chunks.push(chunk({ chunkStreamId: 6, length: 8 * MiB, type: VIDEO }, bytes(128)));
+ chunks.setChunkSize(8 * MiB);
+
+ // The rest of that chunk is not read until all of it has arrived
+ const next = chunk({ chunkStreamId: 7, length: 8 * MiB, type: VIDEO }, bytes(8 * MiB));
+ expect(() => chunks.push(next.subarray(0, next.length - 1))).toThrow(/bytes buffered/);
+ });
+});
+
+describe('decodeAmf0', () => {
+ it('decodes what encodeAmf0 writes', () => {
+ const command = encodeAmf0('connect', 1, { app: 'live', tcUrl: 'rtmp://localhost/live', nested: { ok: true } }, null, false);
+
+ expect(decodeAmf0(command)).toEqual(['connect', 1, { app: 'live', tcUrl: 'rtmp://localhost/live', nested: { ok: true } }, null, false]);
+ });
+
+ it('decodes ECMA arrays, strict arrays, dates, long strings and undefined', () => {
+ const ecmaArray = Buffer.concat([
+ Buffer.from([0x08, 0, 0, 0, 1]),
+ encodeAmf0({ width: 1920 }).subarray(1)
+ ]);
+ const strictArray = Buffer.concat([Buffer.from([0x0a, 0, 0, 0, 2]), encodeAmf0(1, 'two')]);
+ const date = Buffer.alloc(11);
+ date[0] = 0x0b;
+ date.writeDoubleBE(Date.UTC(2024, 0, 1), 1);
+ const text = 'x'.repeat(70000);
+ const longString = Buffer.alloc(5);
+ longString[0] = 0x0c;
+ longString.writeUInt32BE(text.length, 1);
+
+ expect(decodeAmf0(Buffer.concat([ecmaArray, strictArray, date, longString, Buffer.from(text), Buffer.from([0x06])]))).toEqual([
+ { width: 1920 },
+ [1, 'two'],
+ new Date(Date.UTC(2024, 0, 1)),
+ text,
+ null
+ ]);
+ });
+
+ it('refuses markers it does not know', () => {
+ // 0x11 switches to AMF3, which only the AMF3 message types carry
+ expect(() => decodeAmf0(Buffer.from([0x11, 0x02]))).toThrow(RtmpError);
+ expect(() => decodeAmf0(Buffer.from([0x11, 0x02]))).toThrow(/0x11/);
+ });
+
+ it('throws on a truncated value instead of reading past the end', () => {
+ expect(() => decodeAmf0(encodeAmf0(42).subarray(0, 5))).toThrow(RangeError);
+ });
+});
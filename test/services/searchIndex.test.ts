@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import { createSearchIndex, editDistance, parseQuery } from '../../server/searchIndex.js';
+
+const NOW = Date.parse('2024-06-01T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+const doc = (id: string, overrides: Record<string, unknown> = {}) => ({
+ id,
+ title: '',
+ description: '',
+ tags: [],
+ channelName: '',
+ category: 'Education',
+ type: 'video',
+ durationSeconds: 600,
+ uploadedAt: new Date(NOW - 48 * HOUR_MS).toISOString(),
+ viewCount: 0,
+ item: { id },
+ ...overrides
+});
+
+const buildIndex = () => {
+ const index = createSearchIndex();
+ index.upsert(doc('hooks', { title: 'Coding Tutorial: React Hooks', description: 'useState and useEffect explained for beginners', tags: ['react', 'javascript'], channelName: 'CodeMaster', durationSeconds: 1500 }));
+ index.upsert(doc('painting', { title: 'Art Tutorial: Digital Painting', description: 'Brushes and layers', tags: ['drawing', 'beginners'], channelName: 'ArtStudio', category: 'Entertainment', durationSeconds: 120 }));
+ index.upsert(doc('nature', { title: 'Amazing Nature Documentary', description: 'A documentary about nature and the amazing wildlife of the Serengeti', channelName: 'NatureWorld', uploadedAt: new Date(NOW - HOUR_MS / 2).toISOString() }));
+ index.upsert(doc('short', { title: 'React in 60 seconds', tags: ['react', 'shorts'], type: 'short', durationSeconds: 60, viewCount: 5000 }));
+ return index;
+};
+
+const ids = (result: { hits: Array<{ id: string }> }) => result.hits.map(hit => hit.id);
+
+describe('search index', () => {
+ it('ranks matches in weightier fields first and tolerates typos', () => {
+ const index = buildIndex();
+ // A tag outweighs the description
+ expect(ids(index.search('beginners', { now: NOW }))).toEqual(['painting', 'hooks']);
+ expect(ids(index.search('recat hoks', { now: NOW }))).toEqual(['hooks']);
+ // Short words have to match exactly
+ expect(ids(index.search('art', { now: NOW }))).toEqual(['painting']);
+ expect(editDistance('tutorial', 'tutroial')).toBe(1);
+ });
+
+ it('requires quoted phrases and drops excluded terms', () => {
+ const index = buildIndex();
+ expect(parseQuery('tutorial -react "digital painting"')).toEqual({
+ terms: ['tutorial', 'digital', 'painting'],
+ phrases: [['digital', 'painting']],
+ excludeTerms: ['react'],
+ excludePhrases: []
+ });
+ expect(ids(index.search('tutorial -react', { now: NOW }))).toEqual(['painting']);
+ expect(ids(index.search('"painting digital"', { now: NOW }))).toEqual([]);
+ expect(ids(index.search('tutorial -"react hooks"', { now: NOW }))).toEqual(['painting']);
+ });
+
+ it('filters by facet and counts each facet without its own filter', () => {
+ const index = buildIndex();
+ const result = index.search('', { filters: { duration: 'short' }, now: NOW });
+ expect(ids(result).sort()).toEqual(['painting', 'short']);
+ expect(result.facets.duration).toEqual({ short: 2, medium: 1, long: 1 });
+ expect(result.facets.videoType).toEqual({ video: 1, short: 1 });
+
+ expect(ids(index.search('', { filters: { uploadDate: 'hour' }, now: NOW }))).toEqual(['nature']);
+ expect(ids(index.search('react', { filters: { videoType: 'video' }, now: NOW }))).toEqual(['hooks']);
+ });
+
+ it('highlights matched words in the title and a snippet of the description', () => {
+ const index = buildIndex();
+ const [hit] = index.search('wildlife documentary', { now: NOW }).hits;
+ expect(hit.highlights.title).toEqual([
+ { text: 'Amazing Nature ', match: false },
+ { text: 'Documentary', match: true }
+ ]);
+ expect(hit.highlights.description.filter((segment: { match: boolean }) => segment.match).map((segment: { text: string }) => segment.text))
+ .toEqual(['documentary', 'wildlife']);
+ });
+
+ it('forgets removed documents and reindexes changed ones', () => {
+ const index = buildIndex();
+ index.remove('painting');
+ expect(ids(index.search('tutorial', { now: NOW }))).toEqual(['hooks']);
+ index.upsert(doc('hooks', { title: 'Vue Composition API' }));
+ expect(ids(index.search('react', { now: NOW }))).toEqual(['short']);
+ expect(index.size).toBe(3);
+ });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { SearchProviderError, SearchProviderRegistry, mergeProviderResults } from '../../services/searchProviders';
+
+import type { ProviderVideo, SearchProvider } from '../../services/searchProviders';
+
+const NOW = Date.parse('2024-06-01T12:00:00Z');
+
+const video = (id: string, source: string, overrides: Partial<ProviderVideo> = {}): ProviderVideo => ({
+ id,
+ title: id,
+ description: '',
+ thumbnailUrl: '',
+ sources: [source],
+ ...overrides
+});
+
+const provider = (id: string, overrides: Partial<SearchProvider> = {}): SearchProvider => ({
+ id,
+ name: id,
+ capabilities: { metadata: false, comments: false, trending: false },
+ isConfigured: () => true,
+ search: vi.fn(async () => [video(`${id}-result`, id)]),
+ ...overrides
+});
+
+const registry = (mode = 'hybrid', now = () => NOW) => new SearchProviderRegistry({ mode, storage: null, now });
+
+describe('search provider registry', () => {
+ it('falls back to the next provider and rests the failing one', async () => {
+ const failing = provider('primary', { search: vi.fn(async () => { throw new SearchProviderError('down', 500, 'primary'); }) });
+ const backup = provider('backup');
+ let now = NOW;
+ const providers = registry('primary', () => now);
+ providers.register(failing);
+ providers.register(backup);
+
+ expect((await providers.search('cats')).map(result => result.id)).toEqual(['backup-result']);
+ await providers.search('cats');
+ expect(failing.search).toHaveBeenCalledTimes(1);
+ expect(providers.getStatus()[0].lastError).toBe('down');
+
+ now += 31 * 1000;
+ await providers.search('cats');
+ expect(failing.search).toHaveBeenCalledTimes(2);
+ });
+
+ it('skips a provider whose daily quota cannot cover the call', async () => {
+ const metered = provider('metered', { quota: { dailyLimit: 250, cost: () => 100 } });
+ const providers = registry('metered');
+ providers.register(metered);
+ providers.register(provider('free'));
+
+ await providers.search('a');
+ await providers.search('b');
+ expect((await providers.search('c'))[0].id).toBe('free-result');
+ expect(metered.search).toHaveBeenCalledTimes(2);
+ expect(providers.getStatus()[0].quota).toEqual({ used: 200, limit: 250, remaining: 50 });
+ });
+
+ it('merges hybrid results by video ID and only uses fallback providers when the rest fail', async () => {
+ const providers = registry();
+ providers.register(provider('api', { search: async () => [video('youtube-abc', 'api', { viewCount: 10 }), video('youtube-def', 'api')] }));
+ providers.register(provider('cse', { search: async () => [video('google-search-def', 'cse', { channelName: 'Chan' }), video('youtube-abc', 'cse')] }));
+ providers.register(provider('local'), { fallbackOnly: true });
+
+ const merged = await providers.search('x');
+ expect(merged.map(result => [result.id, result.sources])).toEqual([
+ ['youtube-abc', ['api', 'cse']],
+ ['youtube-def', ['api', 'cse']]
+ ]);
+ expect(merged[1].channelName).toBe('Chan');
+
+ providers.unregister('api');
+ providers.unregister('cse');
+ expect((await providers.search('x'))[0].id).toBe('local-result');
+ });
+
+ it('reports every provider failing as one error', async () => {
+ const providers = registry();
+ providers.register(provider('api', { search: async () => { throw new Error('boom'); } }));
+ await expect(providers.search('x')).rejects.toThrow(/api: boom/);
+ await expect(providers.getTrending()).rejects.toMatchObject({ status: 503 });
+ });
+});
+
+describe('mergeProviderResults', () => {
+ it('ranks videos several providers agree on first', () => {
+ const merged = mergeProviderResults([
+ [video('a', 'one'), video('b', 'one')],
+ [video('b', 'two'), video('c', 'two')]
+ ]);
+ expect(merged.map(result => result.id)).toEqual(['b', 'a', 'c']);
+ });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { createSearchSuggestionService } from '../../server/searchSuggestions.js';
+
+const NOW = Date.parse('2024-06-01T12:00:00Z');
+
+const memoryStore = () => ({ data: { queries: {}, history: {} } as { queries: Record<string, { searchers: string[]; eligible: boolean }>; history: Record<string, unknown> }, save: () => {}, reset: () => {} });
+
+type Service = ReturnType<typeof createSearchSuggestionService>;
+
+/** Searches `query` `times` times, spread over enough people for it to be suggested */
+const search = (service: Service, query: string, times = 3) => {
+ for (let i = 0; i < times; i++) {
+ service.record(query, { searcherId: `searcher-${i % 3}`, now: NOW });
+ }
+};
+
+describe('search suggestions', () => {
+ it('only suggests queries that enough different people searched', () => {
+ const service = createSearchSuggestionService({ store: memoryStore() });
+ search(service, 'react hooks');
+ service.record('react secret', { searcherId: 'one', now: NOW });
+ service.record('react secret', { searcherId: 'one', now: NOW });
+
+ expect(service.suggest('rea', { now: NOW }).map(item => item.text)).toEqual(['react hooks']);
+ // Completions start from any word
+ expect(service.suggest('hoo', { now: NOW }).map(item => item.text)).toEqual(['react hooks']);
+ });
+
+ it('ranks every match, however many share the prefix', () => {
+ const service = createSearchSuggestionService({ store: memoryStore() });
+ // Searched first, so the trie walks it last
+ search(service, 'alpha hot', 60);
+ for (let i = 0; i < 300; i++) {
+ search(service, `alpha q${i}`);
+ }
+
+ expect(service.suggest('alpha', { now: NOW, limit: 3 })[0]).toEqual({ text: 'alpha hot', source: 'trending' });
+ });
+
+ it('forgets who searched a query when restarted, since their hashes no longer match', () => {
+ const store = memoryStore();
+ const before = createSearchSuggestionService({ store });
+ before.record('rare query', { searcherId: 'alice', now: NOW });
+ before.record('rare query', { searcherId: 'bob', now: NOW });
+
+ const after = createSearchSuggestionService({ store });
+ expect(store.data.queries['rare query']).toMatchObject({ searchers: [], eligible: false });
+ // Alice again would otherwise look like a third person
+ after.record('rare query', { searcherId: 'alice', now: NOW });
+ expect(after.suggest('rare', { now: NOW })).toEqual([]);
+ });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import { getStoryboardFrame, parseStoryboardVtt } from '../../utils/storyboard';
+import { buildStoryboardVtt } from '../../server/processing.js';
+
+const BASE = 'https://cdn.example.test/media/v1/storyboard/storyboard.vtt';
+
+const INDEX = `WEBVTT
+
+00:00.000 --> 00:05.000
+sheet-1.jpg#xywh=0,0,160,90
+
+00:05.000 --> 00:10.000
+sheet-1.jpg#xywh=160,0,160,90
+
+00:10.000 --> 00:15.000
+NOTE not a frame
+
+00:15.000 --> 00:20.000
+https://other.example.test/sheet-2.jpg#xywh=0,90,160,90
+`;
+
+describe('storyboards', () => {
+ it('reads frame regions, resolving sheets against the index URL', () => {
+ const frames = parseStoryboardVtt(INDEX, BASE);
+ expect(frames).toHaveLength(3);
+ expect(frames[0]).toEqual({
+ startTime: 0,
+ endTime: 5,
+ url: 'https://cdn.example.test/media/v1/storyboard/sheet-1.jpg',
+ x: 0,
+ y: 0,
+ width: 160,
+ height: 90,
+ sheetWidth: 320,
+ sheetHeight: 180
+ });
+ expect(frames[2].url).toBe('https://other.example.test/sheet-2.jpg');
+ });
+
+ it('finds the frame covering a time, holding the last one past the end', () => {
+ const frames = parseStoryboardVtt(INDEX, BASE);
+ expect(getStoryboardFrame(frames, 0)?.x).toBe(0);
+ expect(getStoryboardFrame(frames, 7.5)?.x).toBe(160);
+ expect(getStoryboardFrame(frames, 12)?.x).toBe(160);
+ expect(getStoryboardFrame(frames, 999)?.y).toBe(90);
+ expect(getStoryboardFrame([], 3)).toBeNull();
+ });
+
+ it('builds an index the client reads back, wrapping onto the next sheet', () => {
+ const vtt = buildStoryboardVtt({
+ sheets: ['sb-001.jpg', 'sb-002.jpg'],
+ intervalSeconds: 2,
+ frameCount: 5,
+ columns: 2,
+ rows: 2,
+ tileWidth: 160,
+ tileHeight: 90,
+ durationSeconds: 9
+ });
+ const frames = parseStoryboardVtt(vtt, BASE);
+
+ expect(frames.map(frame => [frame.startTime, frame.endTime, frame.url.split('/').pop(), frame.x, frame.y])).toEqual([
+ [0, 2, 'sb-001.jpg', 0, 0],
+ [2, 4, 'sb-001.jpg', 160, 0],
+ [4, 6, 'sb-001.jpg', 0, 90],
+ [6, 8, 'sb-001.jpg', 160, 90],
+ [8, 9, 'sb-002.jpg', 0, 0]
+ ]);
+ });
+
+ it('stops at the end of the video', () => {
+ const vtt = buildStoryboardVtt({
+ sheets: ['sb-001.jpg'],
+ intervalSeconds: 5,
+ frameCount: 4,
+ columns: 2,
+ rows: 2,
+ tileWidth: 160,
+ tileHeight: 90,
+ durationSeconds: 10
+ });
+ expect(parseStoryboardVtt(vtt, BASE).map(frame => frame.endTime)).toEqual([5, 10]);
+ });
+});
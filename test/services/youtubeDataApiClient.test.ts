@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { YouTubeDataApiClient, fixtureKey } from '../../src/services/api/youtubeDataApiClient';
+
+import type { YouTubeApiFixtures } from '../../src/services/api/youtubeDataApiClient';
+
+const NOW = Date.parse('2024-06-01T12:00:00Z');
+const PART = 'snippet,statistics,contentDetails';
+
+const video = (id: string) => ({ id, snippet: { title: `Video ${id}`, description: '', publishedAt: '', channelId: 'c', channelTitle: 'C', thumbnails: {} } });
+
+/** A recorded videos.list answer for exactly these IDs */
+const videosFixture = (ids: string[], etag = `"etag-${ids.join()}"`): YouTubeApiFixtures => ({
+ [fixtureKey('videos', { part: PART, id: [...ids].sort().join(',') })]: { status: 200, etag, body: { items: ids.map(video) } }
+});
+
+const replayClient = (fixtures: YouTubeApiFixtures, overrides: { dailyQuota?: number; now?: () => number } = {}) =>
+ new YouTubeDataApiClient({ mode: 'replay', fixtures, storage: null, now: () => NOW, ...overrides });
+
+describe('YouTube Data API client', () => {
+ afterEach(() => {
+ vi.unstubAllGlobals();
+ });
+
+ it('gathers lookups made together into videos.list calls of at most 50 IDs', async () => {
+ const ids = Array.from({ length: 60 }, (_, i) => `v${String(i).padStart(2, '0')}`);
+ const client = replayClient({ ...videosFixture(ids.slice(0, 50)), ...videosFixture(ids.slice(50)) });
+
+ const [first, second] = await Promise.all([client.getVideos(ids.slice(0, 30)), client.getVideos(ids.slice(25).reverse())]);
+ expect(first.map(item => item.id)).toEqual(ids.slice(0, 30));
+ expect(second.map(item => item.id)).toEqual(ids.slice(25).reverse());
+ expect(client.getQuotaStatus().byEndpoint).toEqual({ videos: 2 });
+
+ // Cached items cost nothing
+ await client.getVideos(['v07', 'v55']);
+ expect(client.getQuotaStatus().used).toBe(2);
+ });
+
+ it('revalidates stale responses with their ETag, and a 304 is free', async () => {
+ let now = NOW;
+ const client = replayClient(videosFixture(['a']), { now: () => now });
+
+ await client.getVideos(['a']);
+ now += 10 * 60 * 1000;
+ const [again] = await client.getVideos(['a']);
+ expect(again.id).toBe('a');
+ expect(client.getQuotaStatus().used).toBe(1);
+ });
+
+ it('answers from cache once the quota is gone and fails only for uncached requests', async () => {
+ let now = NOW;
+ const fixtures = {
+ [fixtureKey('search', { part: 'snippet', q: 'cats' })]: { status: 200, body: { items: [{ id: { kind: 'youtube#video', videoId: 'a' } }] } },
+ [fixtureKey('search', { part: 'snippet', q: 'dogs' })]: { status: 200, body: { items: [] } }
+ };
+ const client = replayClient(fixtures, { dailyQuota: 150, now: () => now });
+
+ await client.search({ q: 'cats' });
+ now += 60 * 60 * 1000;
+ expect((await client.search({ q: 'cats' })).items).toHaveLength(1);
+ await expect(client.search({ q: 'dogs' })).rejects.toMatchObject({ quotaExceeded: true, status: 403 });
+ expect(client.getQuotaStatus()).toMatchObject({ used: 100, remaining: 50, byEndpoint: { search: 100 } });
+ });
+
+ it('stops calling once YouTube reports the quota exceeded', async () => {
+ const client = replayClient({
+ ...videosFixture(['a']),
+ [fixtureKey('videos', { part: PART, id: 'b' })]: {
+ status: 403,
+ body: { error: { code: 403, message: 'Quota exceeded', errors: [{ reason: 'quotaExceeded' }] } }
+ }
+ });
+
+ await client.getVideos(['a']);
+ await expect(client.getVideos(['b'])).rejects.toMatchObject({ quotaExceeded: true });
+ expect(client.isQuotaExhausted()).toBe(true);
+ expect((await client.getVideos(['a']))[0].id).toBe('a');
+ });
+
+ it('records live responses for replay', async () => {
+ const fetchMock = vi.fn(async () => ({
+ ok: true,
+ status: 200,
+ statusText: 'OK',
+ headers: new Headers({ ETag: '"v1"' }),
+ json: async () => ({ items: [video('a')] })
+ }));
+ vi.stubGlobal('fetch', fetchMock);
+ const recorder = new YouTubeDataApiClient({ mode: 'record', apiKey: 'key', baseUrl: 'https://example.test/youtube/v3', storage: null });
+
+ await recorder.getVideos(['a']);
+ const replayed = await replayClient(recorder.getRecordedFixtures()).getVideos(['a']);
+ expect(replayed.map(item => item.id)).toEqual(['a']);
+ expect(fetchMock).toHaveBeenCalledTimes(1);
+ });
+});
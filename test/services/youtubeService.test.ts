@@ -19,6 +19,14 @@ vi.mock('../../src/lib/constants', () => ({
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
+/** What fetch resolves to; reusable, unlike a real Response */
+const apiResponse = (body: unknown, { status = 200, statusText = 'OK', etag }: { status?: number; statusText?: string; etag?: string } = {}) => ({
+ ok: status >= 200 && status < 300,
+ status,
+ statusText,
+ headers: new Headers(etag ? { ETag: etag } : {}),
+ json: () => (body === null ? Promise.reject(new SyntaxError('Unexpected end of JSON input')) : Promise.resolve(body)) });
+
 // Define mock responses at module level so they're accessible everywhere
 const mockYouTubeVideoResponse = {
  items: [
@@ -59,9 +67,7 @@ describe('YouTubeService', () => {
 
  describe('fetchVideos', () => {
  it('should fetch videos successfully', async (): Promise<void> => {
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve(mockYouTubeVideoResponse) });
+ mockFetch.mockResolvedValueOnce(apiResponse(mockYouTubeVideoResponse));
 
  const result = await youtubeService.fetchVideos(['test-video-1']);
 
@@ -90,12 +96,9 @@ describe('YouTubeService', () => {
  });
 
  it('should handle API errors gracefully', async (): Promise<void> => {
- mockFetch.mockResolvedValueOnce({
- ok: false,
- status: 403,
- statusText: 'Forbidden' });
+ mockFetch.mockResolvedValueOnce(apiResponse(null, { status: 403, statusText: 'Forbidden' }));
 
- await expect(youtubeService.fetchVideos(['test-video'])).rejects.toThrow('YouTube API error: Forbidden')
+ await expect(youtubeService.fetchVideos(['test-video'])).rejects.toThrow('YouTube API error: Forbidden');
  });
 
  it('should handle network errors gracefully', async (): Promise<void> => {
@@ -104,10 +107,19 @@ describe('YouTubeService', () => {
  await expect(youtubeService.fetchVideos(['test-video'])).rejects.toThrow('Failed to fetch video data');
  });
 
+ it('should only return the videos that were asked for, in the order asked', async (): Promise<void> => {
+ const second = { ...mockYouTubeVideoResponse.items[0], id: 'test-video-2' };
+ const stray = { ...mockYouTubeVideoResponse.items[0], id: 'not-requested' };
+ mockFetch.mockResolvedValueOnce(apiResponse({ items: [mockYouTubeVideoResponse.items[0], stray, second] }));
+
+ const result = await youtubeService.fetchVideos(['test-video-2', 'missing-video', 'test-video-1']);
+
+ // Items are cached by ID and shared between batched callers, so stray ones are dropped
+ expect(result.map(video => video.id)).toEqual(['test-video-2', 'test-video-1']);
+ });
+
  it('should use caching for repeated requests', async (): Promise<void> => {
- mockFetch.mockResolvedValue({
- ok: true,
- json: () => Promise.resolve(mockYouTubeVideoResponse) });
+ mockFetch.mockResolvedValue(apiResponse(mockYouTubeVideoResponse));
 
  await youtubeService.fetchVideos(['test-video-1']);
  expect(mockFetch).toHaveBeenCalledTimes(1);
@@ -126,6 +138,7 @@ describe('YouTubeService', () => {
  { input: 'INVALID', expected: '0:00' }];
 
  for (const testCase of testCases) {
+ youtubeService.clearCache();
  const mockResponse = {
  items: [{
  ...mockYouTubeVideoResponse.items[0],
@@ -133,11 +146,9 @@ describe('YouTubeService', () => {
  ...mockYouTubeVideoResponse.items[0]!.contentDetails,
  duration: testCase.input } }] };
 
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve(mockResponse) });
+ mockFetch.mockResolvedValueOnce(apiResponse(mockResponse));
 
- const result = await youtubeService.fetchVideos(['test-video']);
+ const result = await youtubeService.fetchVideos(['test-video-1']);
  expect(result[0]?.duration).toBe(testCase.expected);
  }
  });
@@ -150,11 +161,9 @@ describe('YouTubeService', () => {
  ...mockYouTubeVideoResponse.items[0]!.snippet,
  thumbnails: {} } }] };
 
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve(mockResponse) });
+ mockFetch.mockResolvedValueOnce(apiResponse(mockResponse));
 
- const result = await youtubeService.fetchVideos(['test-video']);
+ const result = await youtubeService.fetchVideos(['test-video-1']);
  expect(result[0]?.thumbnailUrl).toBe('');
  });
 
@@ -164,11 +173,9 @@ describe('YouTubeService', () => {
  ...mockYouTubeVideoResponse.items[0],
  statistics: {} }] };
 
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve(mockResponse) });
+ mockFetch.mockResolvedValueOnce(apiResponse(mockResponse));
 
- const result = await youtubeService.fetchVideos(['test-video']);
+ const result = await youtubeService.fetchVideos(['test-video-1']);
  expect(result[0]?.viewCount).toBe(0);
  expect(result[0]?.likes).toBe(0);
  expect(result[0]?.commentCount).toBe(0);
@@ -195,9 +202,7 @@ describe('YouTubeService', () => {
  viewCount: '500000' } }] };
 
  it('should fetch channel successfully', async (): Promise<void> => {
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve(mockYouTubeChannelResponse) });
+ mockFetch.mockResolvedValueOnce(apiResponse(mockYouTubeChannelResponse));
 
  const result = await youtubeService.fetchChannel('test-channel-1');
 
@@ -218,19 +223,21 @@ describe('YouTubeService', () => {
  });
 
  it('should return null when channel not found', async (): Promise<void> => {
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve({ items: [] }) });
+ mockFetch.mockResolvedValueOnce(apiResponse({ items: [] }));
 
  const result = await youtubeService.fetchChannel('nonexistent-channel');
  expect(result).toBeNull();
  });
 
+ it('should return null when only another channel comes back', async (): Promise<void> => {
+ mockFetch.mockResolvedValueOnce(apiResponse(mockYouTubeChannelResponse));
+
+ const result = await youtubeService.fetchChannel('test-channel');
+ expect(result).toBeNull();
+ });
+
  it('should handle API errors gracefully and return null', async (): Promise<void> => {
- mockFetch.mockResolvedValueOnce({
- ok: false,
- status: 404,
- statusText: 'Not Found' });
+ mockFetch.mockResolvedValueOnce(apiResponse(null, { status: 404, statusText: 'Not Found' }));
 
  const result = await youtubeService.fetchChannel('test-channel');
  expect(result).toBeNull();
@@ -244,6 +251,7 @@ describe('YouTubeService', () => {
  { input: 10000000, expected: '10M' }];
 
  for (const testCase of testCases) {
+ youtubeService.clearCache();
  const mockResponse = {
  items: [{
  ...mockYouTubeChannelResponse.items[0],
@@ -251,19 +259,15 @@ describe('YouTubeService', () => {
  ...mockYouTubeChannelResponse.items[0]!.statistics,
  subscriberCount: testCase.input.toString() } }] };
 
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve(mockResponse) });
+ mockFetch.mockResolvedValueOnce(apiResponse(mockResponse));
 
- const result = await youtubeService.fetchChannel('test-channel');
+ const result = await youtubeService.fetchChannel('test-channel-1');
  expect(result?.subscriberCount).toBe(testCase.expected);
  }
  });
 
  it('should use caching for repeated requests', async (): Promise<void> => {
- mockFetch.mockResolvedValue({
- ok: true,
- json: () => Promise.resolve(mockYouTubeChannelResponse) });
+ mockFetch.mockResolvedValue(apiResponse(mockYouTubeChannelResponse));
 
  await youtubeService.fetchChannel('test-channel-1');
  expect(mockFetch).toHaveBeenCalledTimes(1);
@@ -274,52 +278,51 @@ describe('YouTubeService', () => {
  });
 
  describe('URL Building', () => {
- const originalEnv = import.meta.env;
- const originalWindow = global.window;
-
  beforeEach(() => {
  vi.clearAllMocks();
  youtubeService.clearCache();
  });
 
  afterEach(() => {
- Object.assign(import.meta.env, originalEnv);
- global.window = originalWindow;
+ vi.unstubAllEnvs();
+ vi.unstubAllGlobals();
  });
 
  it('should build correct URLs for video requests', async (): Promise<void> => {
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve({ items: [] }) });
+ mockFetch.mockResolvedValueOnce(apiResponse({ items: [] }));
 
  await youtubeService.fetchVideos(['video1', 'video2']);
 
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('https://www.googleapis.com/youtube/v3/videos'),
+ expect.anything(),
  );
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('part=snippet%2Cstatistics%2CcontentDetails'),
+ expect.anything(),
  );
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('id=video1%2Cvideo2'),
+ expect.anything(),
  );
  });
 
  it('should build correct URLs for channel requests', async (): Promise<void> => {
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve({ items: [] }) });
+ mockFetch.mockResolvedValueOnce(apiResponse({ items: [] }));
 
  await youtubeService.fetchChannel('test-channel');
 
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('https://www.googleapis.com/youtube/v3/channels'),
+ expect.anything(),
  );
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('part=snippet%2Cstatistics'),
+ expect.anything(),
  );
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('id=test-channel'),
+ expect.anything(),
  );
  });
 
@@ -328,90 +331,74 @@ describe('YouTubeService', () => {
  location: {
  origin: 'http://localhost:3000' } });
 
- Object.defineProperty(import.meta, 'env', {
- value: {
- ...originalEnv as any,
- MODE: 'development',
- VITE_YOUTUBE_API_KEY: 'test-api-key' },
- configurable: true });
+ vi.stubEnv('MODE', 'development');
+ vi.stubEnv('VITE_YOUTUBE_API_KEY', 'test-api-key');
 
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve({ items: [] }) });
+ mockFetch.mockResolvedValueOnce(apiResponse({ items: [] }));
 
  await youtubeService.fetchVideos(['test-video']);
 
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('http://localhost:3000/api/youtube/v3/videos'),
+ expect.anything(),
  );
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('key=test-api-key'),
+ expect.anything(),
  );
  });
 
  it('should use direct Google API endpoint in production mode', async (): Promise<void> => {
- Object.defineProperty(import.meta, 'env', {
- value: {
- ...originalEnv as any,
- MODE: 'production',
- VITE_YOUTUBE_API_KEY: 'prod-api-key' },
- configurable: true });
+ vi.stubEnv('MODE', 'production');
+ vi.stubEnv('VITE_YOUTUBE_API_KEY', 'prod-api-key');
 
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve({ items: [] }) });
+ mockFetch.mockResolvedValueOnce(apiResponse({ items: [] }));
 
  await youtubeService.fetchVideos(['test-video']);
 
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('https://www.googleapis.com/youtube/v3/videos'),
+ expect.anything(),
  );
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('key=prod-api-key'),
+ expect.anything(),
  );
  });
 
  it('should use direct Google API endpoint in test mode', async (): Promise<void> => {
- Object.defineProperty(import.meta, 'env', {
- value: {
- ...originalEnv as any,
- MODE: 'test',
- VITE_YOUTUBE_API_KEY: 'test-api-key' },
- configurable: true });
+ vi.stubEnv('MODE', 'test');
+ vi.stubEnv('VITE_YOUTUBE_API_KEY', 'test-api-key');
 
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve({ items: [] }) });
+ mockFetch.mockResolvedValueOnce(apiResponse({ items: [] }));
 
  await youtubeService.fetchVideos(['test-video']);
 
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('https://www.googleapis.com/youtube/v3/videos'),
+ expect.anything(),
  );
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('key=test-api-key'),
+ expect.anything(),
  );
  });
 
  it('should use direct Google API endpoint for custom build modes', async (): Promise<void> => {
- Object.defineProperty(import.meta, 'env', {
- value: {
- ...originalEnv as any,
- MODE: 'staging',
- VITE_YOUTUBE_API_KEY: 'staging-api-key' },
- configurable: true });
+ vi.stubEnv('MODE', 'staging');
+ vi.stubEnv('VITE_YOUTUBE_API_KEY', 'staging-api-key');
 
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve({ items: [] }) });
+ mockFetch.mockResolvedValueOnce(apiResponse({ items: [] }));
 
  await youtubeService.fetchVideos(['test-video']);
 
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('https://www.googleapis.com/youtube/v3/videos'),
+ expect.anything(),
  );
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('key=staging-api-key'),
+ expect.anything(),
  );
  });
 
@@ -420,16 +407,10 @@ describe('YouTubeService', () => {
  location: {
  origin: 'http://localhost:5173' } });
 
- Object.defineProperty(import.meta, 'env', {
- value: {
- ...originalEnv as any,
- MODE: 'development',
- VITE_YOUTUBE_API_KEY: 'dev-key' },
- configurable: true });
+ vi.stubEnv('MODE', 'development');
+ vi.stubEnv('VITE_YOUTUBE_API_KEY', 'dev-key');
 
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve({ items: [] }) });
+ mockFetch.mockResolvedValueOnce(apiResponse({ items: [] }));
 
  await youtubeService.fetchChannel('UC123456789');
 
@@ -437,25 +418,21 @@ describe('YouTubeService', () => {
  expect.stringMatching(
  /^http:\/\/localhost:5173\/api\/youtube\/v3\/channels\?.*part=snippet%2Cstatistics.*&.*id=UC123456789.*&.*key=dev-key/,
  ),
+ expect.anything(),
  );
  });
 
  it('should handle missing API key gracefully', async (): Promise<void> => {
- Object.defineProperty(import.meta, 'env', {
- value: {
- ...originalEnv as any,
- MODE: 'production',
- VITE_YOUTUBE_API_KEY: undefined },
- configurable: true });
+ vi.stubEnv('MODE', 'production');
+ vi.stubEnv('VITE_YOUTUBE_API_KEY', undefined);
 
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve({ items: [] }) });
+ mockFetch.mockResolvedValueOnce(apiResponse({ items: [] }));
 
  await youtubeService.fetchVideos(['test-video']);
 
  expect(mockFetch).toHaveBeenCalledWith(
  expect.stringContaining('key='),
+ expect.anything(),
  );
  const callUrl = mockFetch.mock.calls[0]?.[0] as string;
  const url = new URL(callUrl);
@@ -463,16 +440,10 @@ describe('YouTubeService', () => {
  });
 
  it('should preserve all query parameters in built URLs', async (): Promise<void> => {
- Object.defineProperty(import.meta, 'env', {
- value: {
- ...originalEnv as any,
- MODE: 'production',
- VITE_YOUTUBE_API_KEY: 'test-key' },
- configurable: true });
+ vi.stubEnv('MODE', 'production');
+ vi.stubEnv('VITE_YOUTUBE_API_KEY', 'test-key');
 
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve({ items: [] }) });
+ mockFetch.mockResolvedValueOnce(apiResponse({ items: [] }));
 
  await youtubeService.fetchVideos(['video1', 'video2', 'video3']);
 
@@ -483,7 +454,7 @@ describe('YouTubeService', () => {
  expect(url.searchParams.get('id')).toBe('video1,video2,video3');
  expect(url.searchParams.get('key')).toBe('test-key');
  expect(url.pathname).toBe('/youtube/v3/videos');
- expect(url.origin).toBe('https: //www.googleapis.com')
+ expect(url.origin).toBe('https://www.googleapis.com');
  });
  });
 
@@ -493,9 +464,7 @@ describe('YouTubeService', () => {
  });
 
  it('should cache requests with proper TTL', async (): Promise<void> => {
- mockFetch.mockResolvedValue({
- ok: true,
- json: () => Promise.resolve({ items: [] }) });
+ mockFetch.mockResolvedValue(apiResponse({ items: [] }));
 
  await youtubeService.fetchVideos(['test-video']);
  expect(mockFetch).toHaveBeenCalledTimes(1);
@@ -516,11 +485,9 @@ describe('YouTubeService', () => {
  ...mockYouTubeVideoResponse.items[0]!.snippet,
  thumbnails: {} } }] };
 
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve(mockResponse) });
+ mockFetch.mockResolvedValueOnce(apiResponse(mockResponse));
 
- const result = await youtubeService.fetchVideos(['test-video']);
+ const result = await youtubeService.fetchVideos(['test-video-1']);
  expect(result[0]?.thumbnailUrl).toBe('');
  });
 
@@ -530,11 +497,9 @@ describe('YouTubeService', () => {
  ...mockYouTubeVideoResponse.items[0],
  statistics: {} }] };
 
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve(mockResponse) });
+ mockFetch.mockResolvedValueOnce(apiResponse(mockResponse));
 
- const result = await youtubeService.fetchVideos(['test-video']);
+ const result = await youtubeService.fetchVideos(['test-video-1']);
  expect(result[0]?.viewCount).toBe(0);
  expect(result[0]?.likes).toBe(0);
  expect(result[0]?.commentCount).toBe(0);
@@ -548,12 +513,10 @@ describe('YouTubeService', () => {
  ...mockYouTubeVideoResponse.items[0]!.contentDetails,
  duration: 'INVALID' } }] };
 
- mockFetch.mockResolvedValueOnce({
- ok: true,
- json: () => Promise.resolve(mockResponse) });
+ mockFetch.mockResolvedValueOnce(apiResponse(mockResponse));
 
- const result = await youtubeService.fetchVideos(['test-video']);
- expect(result[0]?.duration).toBe('0: 00')
+ const result = await youtubeService.fetchVideos(['test-video-1']);
+ expect(result[0]?.duration).toBe('0:00');
  });
  });
 });
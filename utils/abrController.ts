@@ -0,0 +1,112 @@
+/**
+ * Adaptive bitrate selection from measured segment throughput.
+ */
+
+import type { Rendition } from './manifestParser';
+
+export interface AbrConfig {
+ /** Fraction of the estimated throughput a rendition may use */
+ bandwidthSafetyFactor?: number;
+ /** Below this much buffered media (seconds) only down-switches are allowed */
+ minBufferForUpswitch?: number;
+ /** Estimate used before any segment has been measured (bits per second) */
+ defaultEstimate?: number;
+ /** Ignore samples for segments smaller than this (bytes); they mostly measure latency */
+ minSampleBytes?: number;
+}
+
+/**
+ * Exponentially weighted moving average, corrected for the zero start so
+ * early estimates are not biased low.
+ */
+class Ewma {
+ private estimate = 0;
+ private totalWeight = 0;
+ private readonly alpha: number;
+
+ constructor(halfLife: number) {
+ this.alpha = Math.exp(Math.log(0.5) / halfLife);
+ }
+
+ sample(weight: number, value: number): void {
+ const adjustedAlpha = Math.pow(this.alpha, weight);
+ this.estimate = value * (1 - adjustedAlpha) + adjustedAlpha * this.estimate;
+ this.totalWeight += weight;
+ }
+
+ get value(): number {
+ const zeroFactor = 1 - Math.pow(this.alpha, this.totalWeight);
+ return zeroFactor > 0 ? this.estimate / zeroFactor : 0;
+ }
+}
+
+/**
+ * Throughput estimate from two EWMAs, weighted by download time. The fast
+ * average reacts to drops quickly and the slow one smooths out spikes; taking
+ * the lower of the two errs towards not stalling.
+ */
+export class ThroughputEstimator {
+ private fast = new Ewma(2);
+ private slow = new Ewma(5);
+ private samples = 0;
+
+ constructor(private readonly config: Required<AbrConfig>) {}
+
+ /** Records one download: `bytes` received in `durationMs`. */
+ addSample(bytes: number, durationMs: number): void {
+ if (bytes < this.config.minSampleBytes || durationMs <= 0) {
+ return;
+ }
+ const seconds = durationMs / 1000;
+ const bitsPerSecond = (bytes * 8) / seconds;
+ this.fast.sample(seconds, bitsPerSecond);
+ this.slow.sample(seconds, bitsPerSecond);
+ this.samples++;
+ }
+
+ get hasSamples(): boolean {
+ return this.samples > 0;
+ }
+
+ /** Bits per second */
+ get estimate(): number {
+ return this.hasSamples ? Math.min(this.fast.value, this.slow.value) : this.config.defaultEstimate;
+ }
+}
+
+const DEFAULT_CONFIG: Required<AbrConfig> = {
+ bandwidthSafetyFactor: 0.8,
+ minBufferForUpswitch: 10,
+ defaultEstimate: 1_000_000,
+ minSampleBytes: 16 * 1024
+};
+
+export class AbrController {
+ readonly config: Required<AbrConfig>;
+ readonly throughput: ThroughputEstimator;
+
+ constructor(config: AbrConfig = {}) {
+ this.config = { ...DEFAULT_CONFIG, ...config };
+ this.throughput = new ThroughputEstimator(this.config);
+ }
+
+ /**
+ * Picks the highest rendition whose bandwidth fits the safe share of the
+ * throughput estimate. Up-switches wait until the buffer can absorb a
+ * wrong guess. `renditions` must be sorted by ascending bandwidth.
+ */
+ select(renditions: Rendition[], current: Rendition | null, bufferAhead: number): Rendition {
+ const budget = this.throughput.estimate * this.config.bandwidthSafetyFactor;
+ let choice = renditions[0];
+ for (const rendition of renditions) {
+ if (rendition.bandwidth <= budget) {
+ choice = rendition;
+ }
+ }
+
+ if (current && choice.bandwidth > current.bandwidth && bufferAhead < this.config.minBufferForUpswitch) {
+ return current;
+ }
+ return choice;
+ }
+}
@@ -0,0 +1,556 @@
+/**
+ * Adaptive HLS/DASH playback over Media Source Extensions.
+ *
+ * Segments are fetched ahead of the playhead up to `bufferTarget` seconds.
+ * Each download feeds the throughput estimate, and in automatic mode the next
+ * segment comes from whichever rendition the estimate can sustain. Manual
+ * quality selection pins a rendition and replaces what is buffered ahead, so
+ * the change shows up within a second instead of after the buffer drains.
+ *
+ * Live HLS playlists (no #EXT-X-ENDLIST) start a few segments behind the
+ * live edge and are reloaded whenever playback runs out of listed segments,
+ * until the playlist ends. DASH manifests are treated as VOD.
+ *
+ * A failed segment request is retried with exponential backoff; after
+ * several failures in a row the stream stops and an 'error' is emitted.
+ */
+
+import { AbrController } from './abrController';
+import { getManifestType, loadManifest, mimeCodec, parseHlsMediaPlaylist } from './manifestParser';
+
+import type { AbrConfig } from './abrController';
+import type { MediaSegment, Rendition, StreamContentType, StreamManifest } from './manifestParser';
+
+export interface AdaptiveStreamingConfig {
+ /** Seconds of media to keep buffered ahead of the playhead */
+ bufferTarget?: number;
+ /** Seconds of played media to keep for quick backwards seeks */
+ bufferBehind?: number;
+ abr?: AbrConfig;
+}
+
+export type BufferHealth = 'healthy' | 'low' | 'stalled';
+
+export interface PlaybackStats {
+ /** Seconds buffered ahead of the playhead */
+ bufferAhead: number;
+ bufferTarget: number;
+ bufferHealth: BufferHealth;
+ /** Estimated throughput in bits per second */
+ estimatedBandwidth: number;
+ currentRendition: Pick<Rendition, 'id' | 'bandwidth' | 'width' | 'height'> | null;
+ autoQuality: boolean;
+ switchCount: number;
+ stallCount: number;
+ /** Total time spent stalled, in milliseconds */
+ stallDuration: number;
+ droppedFrames: number;
+ totalFrames: number;
+}
+
+export interface AdaptiveStreamingEvents {
+ manifest: StreamManifest;
+ renditionchange: Rendition;
+ stats: PlaybackStats;
+ error: Error;
+}
+
+type Listener<K extends keyof AdaptiveStreamingEvents> = (payload: AdaptiveStreamingEvents[K]) => void;
+
+interface StreamState {
+ type: StreamContentType;
+ renditions: Rendition[];
+ current: Rendition;
+ sourceBuffer: SourceBuffer;
+ /** MIME type and codecs the SourceBuffer is currently configured for */
+ bufferType: string;
+ initAppendedFor: string | null;
+ loading: AbortController | null;
+ ended: boolean;
+ /** Segment requests that failed in a row; reset by a successful one or a seek */
+ failures: number;
+ /** No request before this time (ms since epoch) while backing off */
+ retryAt: number;
+}
+
+const LOW_BUFFER_SECONDS = 2;
+// How many target durations behind the newest segment live playback starts
+const LIVE_EDGE_SEGMENTS = 3;
+// Buffered ranges are reported with rounding; treat anything this close as contiguous
+const GAP_TOLERANCE = 0.1;
+// A failing segment is retried after 0.5s, 1s, 2s... up to 8s, and given up on after the last retry
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+const MAX_SEGMENT_RETRIES = 5;
+
+export const isMseSupported = (): boolean =>
+ typeof window !== 'undefined' && 'MediaSource' in window;
+
+export const isAdaptiveSource = (url: string): boolean => getManifestType(url) !== null;
+
+const bufferedEndAt = (buffered: TimeRanges, time: number): number => {
+ for (let i = 0; i < buffered.length; i++) {
+ if (time >= buffered.start(i) - GAP_TOLERANCE && time <= buffered.end(i) + GAP_TOLERANCE) {
+ return buffered.end(i);
+ }
+ }
+ return time;
+};
+
+const waitForUpdate = (sourceBuffer: SourceBuffer): Promise<void> =>
+ new Promise((resolve, reject) => {
+ if (!sourceBuffer.updating) {
+ resolve();
+ return;
+ }
+ const done = () => {
+ sourceBuffer.removeEventListener('updateend', done);
+ sourceBuffer.removeEventListener('error', failed);
+ resolve();
+ };
+ const failed = () => {
+ sourceBuffer.removeEventListener('updateend', done);
+ sourceBuffer.removeEventListener('error', failed);
+ reject(new Error('SourceBuffer update failed'));
+ };
+ sourceBuffer.addEventListener('updateend', done);
+ sourceBuffer.addEventListener('error', failed);
+ });
+
+export class AdaptiveStreamingPlayer {
+ private readonly config: Required<Omit<AdaptiveStreamingConfig, 'abr'>>;
+ private readonly abr: AbrController;
+ private readonly listeners = new Map<keyof AdaptiveStreamingEvents, Set<Listener<keyof AdaptiveStreamingEvents>>>();
+ private readonly streams = new Map<StreamContentType, StreamState>();
+ /** Target duration in seconds of each rendition whose playlist is still live */
+ private readonly livePlaylists = new Map<Rendition, number>();
+ private manifest: StreamManifest | null = null;
+ private mediaSource: MediaSource | null = null;
+ private objectUrl: string | null = null;
+ private manualRendition: Rendition | null = null;
+ private statsTimer: ReturnType<typeof setInterval> | null = null;
+ private stallStartedAt: number | null = null;
+ private destroyed = false;
+ private stats = {
+ switchCount: 0,
+ stallCount: 0,
+ stallDuration: 0
+ };
+
+ constructor(private readonly video: HTMLVideoElement, config: AdaptiveStreamingConfig = {}) {
+ this.config = {
+ bufferTarget: config.bufferTarget ?? 30,
+ bufferBehind: config.bufferBehind ?? 30
+ };
+ this.abr = new AbrController(config.abr);
+ }
+
+ on<K extends keyof AdaptiveStreamingEvents>(event: K, listener: Listener<K>): () => void {
+ if (!this.listeners.has(event)) {
+ this.listeners.set(event, new Set());
+ }
+ const listeners = this.listeners.get(event) as Set<Listener<K>>;
+ listeners.add(listener);
+ return () => listeners.delete(listener);
+ }
+
+ /** Video renditions, lowest bandwidth first. */
+ get renditions(): Rendition[] {
+ return this.streams.get('video')?.renditions ?? [];
+ }
+
+ get currentRendition(): Rendition | null {
+ return this.streams.get('video')?.current ?? null;
+ }
+
+ get isAutoQuality(): boolean {
+ return this.manualRendition === null;
+ }
+
+ async load(url: string): Promise<void> {
+ const manifest = await loadManifest(url);
+ if (this.destroyed) {
+ return;
+ }
+
+ if (!isMseSupported()) {
+ // Safari on iOS has no MSE but plays HLS natively
+ if (manifest.type === 'hls' && this.video.canPlayType('application/vnd.apple.mpegurl')) {
+ this.video.src = url;
+ return;
+ }
+ throw new Error('This browser does not support Media Source Extensions');
+ }
+
+ const playable = (renditions: Rendition[]) =>
+ renditions.filter(rendition => !rendition.codecs || MediaSource.isTypeSupported(mimeCodec(rendition)));
+ const video = playable(manifest.video);
+ if (video.length === 0) {
+ throw new Error('None of the stream renditions can be played in this browser');
+ }
+ const audio = playable(manifest.audio);
+
+ this.manifest = { ...manifest, video, audio };
+ this.mediaSource = new MediaSource();
+ this.objectUrl = URL.createObjectURL(this.mediaSource);
+ this.video.src = this.objectUrl;
+ await new Promise<void>(resolve => this.mediaSource?.addEventListener('sourceopen', () => resolve(), { once: true }));
+
+ const initialVideo = this.abr.select(video, null, 0);
+ await this.ensureSegments(initialVideo);
+ this.addStream('video', video, initialVideo);
+ if (audio.length > 0) {
+ // Audio is cheap next to video; take the best track and adapt only video
+ const initialAudio = audio[audio.length - 1];
+ await this.ensureSegments(initialAudio);
+ this.addStream('audio', audio, initialAudio);
+ }
+
+ const liveTarget = this.livePlaylists.get(initialVideo);
+ if (liveTarget !== undefined) {
+ this.video.currentTime = Math.max(0, this.segmentsEnd(initialVideo) - LIVE_EDGE_SEGMENTS * liveTarget);
+ } else {
+ const duration = this.manifest.duration || this.segmentsEnd(initialVideo);
+ if (duration > 0) {
+ this.mediaSource.duration = duration;
+ }
+ }
+
+ this.video.addEventListener('seeking', this.handleSeeking);
+ this.video.addEventListener('timeupdate', this.pump);
+ this.video.addEventListener('waiting', this.handleWaiting);
+ this.video.addEventListener('playing', this.handlePlaying);
+ this.statsTimer = setInterval(() => {
+ this.emit('stats', this.getStats());
+ this.pump();
+ }, 1000);
+
+ this.emit('manifest', this.manifest);
+ this.emit('renditionchange', initialVideo);
+ this.pump();
+ }
+
+ /**
+ * Pins a video rendition by id, or returns to automatic selection with 'auto'.
+ */
+ async setQuality(renditionId: string | 'auto'): Promise<void> {
+ const stream = this.streams.get('video');
+ if (!stream) {
+ return;
+ }
+
+ if (renditionId === 'auto') {
+ this.manualRendition = null;
+ this.pump();
+ return;
+ }
+
+ const rendition = stream.renditions.find(r => r.id === renditionId);
+ if (!rendition) {
+ throw new Error(`Unknown rendition ${renditionId}`);
+ }
+ this.manualRendition = rendition;
+ if (rendition === stream.current) {
+ return;
+ }
+
+ await this.ensureSegments(rendition);
+ this.switchRendition(stream, rendition);
+ // Drop what was buffered at the old quality, keeping a second to play through the switch
+ stream.loading?.abort();
+ stream.loading = null;
+ await this.removeBuffered(stream, this.video.currentTime + 1, Infinity);
+ stream.ended = false;
+ stream.failures = 0;
+ stream.retryAt = 0;
+ this.pump();
+ }
+
+ getStats(): PlaybackStats {
+ const stream = this.streams.get('video');
+ const bufferAhead = stream
+ ? Math.max(0, bufferedEndAt(stream.sourceBuffer.buffered, this.video.currentTime) - this.video.currentTime)
+ : 0;
+ const quality = typeof this.video.getVideoPlaybackQuality === 'function'
+ ? this.video.getVideoPlaybackQuality()
+ : null;
+ const current = stream?.current;
+ const ended = stream?.ended ?? false;
+
+ return {
+ bufferAhead,
+ bufferTarget: this.config.bufferTarget,
+ bufferHealth: this.stallStartedAt !== null ? 'stalled' : bufferAhead < LOW_BUFFER_SECONDS && !ended ? 'low' : 'healthy',
+ estimatedBandwidth: this.abr.throughput.estimate,
+ currentRendition: current
+ ? { id: current.id, bandwidth: current.bandwidth, ...(current.width && { width: current.width }), ...(current.height && { height: current.height }) }
+ : null,
+ autoQuality: this.isAutoQuality,
+ switchCount: this.stats.switchCount,
+ stallCount: this.stats.stallCount,
+ stallDuration: this.stats.stallDuration + (this.stallStartedAt !== null ? Date.now() - this.stallStartedAt : 0),
+ droppedFrames: quality?.droppedVideoFrames ?? 0,
+ totalFrames: quality?.totalVideoFrames ?? 0
+ };
+ }
+
+ destroy(): void {
+ this.destroyed = true;
+ if (this.statsTimer) {
+ clearInterval(this.statsTimer);
+ }
+ for (const stream of this.streams.values()) {
+ stream.loading?.abort();
+ }
+ this.video.removeEventListener('seeking', this.handleSeeking);
+ this.video.removeEventListener('timeupdate', this.pump);
+ this.video.removeEventListener('waiting', this.handleWaiting);
+ this.video.removeEventListener('playing', this.handlePlaying);
+ if (this.objectUrl) {
+ this.video.removeAttribute('src');
+ this.video.load();
+ URL.revokeObjectURL(this.objectUrl);
+ }
+ this.streams.clear();
+ this.livePlaylists.clear();
+ this.listeners.clear();
+ }
+
+ private emit<K extends keyof AdaptiveStreamingEvents>(event: K, payload: AdaptiveStreamingEvents[K]): void {
+ this.listeners.get(event)?.forEach(listener => (listener as Listener<K>)(payload));
+ }
+
+ private addStream(type: StreamContentType, renditions: Rendition[], initial: Rendition): void {
+ const bufferType = mimeCodec(initial);
+ const sourceBuffer = (this.mediaSource as MediaSource).addSourceBuffer(bufferType);
+ this.streams.set(type, { type, renditions, current: initial, sourceBuffer, bufferType, initAppendedFor: null, loading: null, ended: false, failures: 0, retryAt: 0 });
+ }
+
+ private switchRendition(stream: StreamState, rendition: Rendition): void {
+ if (stream.current === rendition) {
+ return;
+ }
+ stream.current = rendition;
+ if (stream.type === 'video') {
+ this.stats.switchCount++;
+ this.emit('renditionchange', rendition);
+ }
+ }
+
+ /** Loads an HLS media playlist the first time its rendition is used. */
+ private async ensureSegments(rendition: Rendition): Promise<MediaSegment[]> {
+ if (!rendition.segments && rendition.playlistUrl) {
+ await this.loadPlaylist(rendition, rendition.playlistUrl);
+ }
+ return rendition.segments ?? [];
+ }
+
+ private async loadPlaylist(rendition: Rendition, playlistUrl: string, signal?: AbortSignal): Promise<void> {
+ const response = await fetch(playlistUrl, signal ? { signal } : {});
+ if (!response.ok) {
+ throw new Error(`Failed to load media playlist (HTTP ${response.status})`);
+ }
+ const playlist = parseHlsMediaPlaylist(await response.text(), response.url || playlistUrl);
+ rendition.segments = playlist.segments;
+ if (playlist.initSegment) {
+ rendition.initSegment = playlist.initSegment;
+ }
+ if (playlist.isLive) {
+ this.livePlaylists.set(rendition, playlist.targetDuration || LOW_BUFFER_SECONDS);
+ } else {
+ this.livePlaylists.delete(rendition);
+ }
+ }
+
+ /** Waits half a target duration, then reloads a live playlist for newly published segments. */
+ private async reloadLivePlaylist(rendition: Rendition, signal: AbortSignal): Promise<void> {
+ const targetDuration = this.livePlaylists.get(rendition) ?? LOW_BUFFER_SECONDS;
+ await new Promise<void>(resolve => {
+ const timer = setTimeout(resolve, (targetDuration * 1000) / 2);
+ signal.addEventListener('abort', () => {
+ clearTimeout(timer);
+ resolve();
+ }, { once: true });
+ });
+ if (!signal.aborted && rendition.playlistUrl) {
+ await this.loadPlaylist(rendition, rendition.playlistUrl, signal);
+ }
+ }
+
+ private segmentsEnd(rendition: Rendition): number {
+ const last = rendition.segments?.[rendition.segments.length - 1];
+ return last ? last.start + last.duration : 0;
+ }
+
+ private pump = (): void => {
+ // An 'ended' MediaSource reopens on the next append, e.g. after seeking back
+ if (this.destroyed || !this.mediaSource || this.mediaSource.readyState === 'closed') {
+ return;
+ }
+ for (const stream of this.streams.values()) {
+ if (stream.loading || stream.ended || stream.failures > MAX_SEGMENT_RETRIES || Date.now() < stream.retryAt) {
+ continue;
+ }
+ const bufferEnd = bufferedEndAt(stream.sourceBuffer.buffered, this.video.currentTime);
+ if (bufferEnd - this.video.currentTime < this.config.bufferTarget) {
+ void this.loadNextSegment(stream, bufferEnd);
+ }
+ }
+ };
+
+ private async loadNextSegment(stream: StreamState, bufferEnd: number): Promise<void> {
+ const controller = new AbortController();
+ stream.loading = controller;
+
+ try {
+ if (stream.type === 'video') {
+ const bufferAhead = bufferEnd - this.video.currentTime;
+ const target = this.manualRendition ?? this.abr.select(stream.renditions, stream.current, bufferAhead);
+ await this.ensureSegments(target);
+ this.switchRendition(stream, target);
+ }
+
+ const rendition = stream.current;
+ const segments = await this.ensureSegments(rendition);
+ const segment = segments.find(s => s.start + s.duration > bufferEnd + GAP_TOLERANCE);
+ if (!segment && this.livePlaylists.has(rendition)) {
+ await this.reloadLivePlaylist(rendition, controller.signal);
+ return;
+ }
+ if (!segment) {
+ stream.ended = true;
+ this.maybeEndStream();
+ return;
+ }
+
+ if (stream.initAppendedFor !== rendition.id && rendition.initSegment) {
+ // Renditions may differ in codec profile (e.g. avc1.64001f vs avc1.640028)
+ const renditionType = mimeCodec(rendition);
+ if (renditionType !== stream.bufferType && typeof stream.sourceBuffer.changeType === 'function') {
+ await waitForUpdate(stream.sourceBuffer);
+ stream.sourceBuffer.changeType(renditionType);
+ stream.bufferType = renditionType;
+ }
+ const init = await this.fetchBytes(rendition.initSegment.url, rendition.initSegment.byteRange, controller.signal);
+ await this.append(stream, init);
+ stream.initAppendedFor = rendition.id;
+ }
+
+ const startedAt = performance.now();
+ const data = await this.fetchBytes(segment.url, segment.byteRange, controller.signal);
+ this.abr.throughput.addSample(data.byteLength, performance.now() - startedAt);
+
+ await this.evictPlayed(stream);
+ await this.append(stream, data);
+ stream.failures = 0;
+ } catch (error) {
+ if (!controller.signal.aborted && !this.destroyed) {
+ this.handleSegmentFailure(stream, error instanceof Error ? error : new Error(String(error)));
+ }
+ } finally {
+ if (stream.loading === controller) {
+ stream.loading = null;
+ // Keep filling the buffer; after a failure the pump waits out the backoff
+ if (!controller.signal.aborted) {
+ setTimeout(this.pump, Math.max(0, stream.retryAt - Date.now()));
+ }
+ }
+ }
+ }
+
+ /**
+ * Backs off exponentially before the stream's next request, so a missing
+ * segment or a dropped connection does not turn into a request loop. Only
+ * giving up is reported; a seek (or a quality change) tries again.
+ */
+ private handleSegmentFailure(stream: StreamState, error: Error): void {
+ stream.failures++;
+ if (stream.failures > MAX_SEGMENT_RETRIES) {
+ stream.retryAt = 0;
+ this.emit('error', error);
+ return;
+ }
+ stream.retryAt = Date.now() + Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (stream.failures - 1));
+ }
+
+ private async fetchBytes(url: string, byteRange: [number, number] | undefined, signal: AbortSignal): Promise<ArrayBuffer> {
+ const response = await fetch(url, {
+ signal,
+ ...(byteRange && { headers: { Range: `bytes=${byteRange[0]}-${byteRange[1]}` } })
+ });
+ if (!response.ok) {
+ throw new Error(`Segment request failed (HTTP ${response.status}): ${url}`);
+ }
+ return response.arrayBuffer();
+ }
+
+ private async append(stream: StreamState, data: ArrayBuffer): Promise<void> {
+ await waitForUpdate(stream.sourceBuffer);
+ try {
+ stream.sourceBuffer.appendBuffer(data);
+ } catch (error) {
+ if ((error as DOMException).name !== 'QuotaExceededError') {
+ throw error;
+ }
+ // The browser's buffer quota is full; drop everything already played and retry once
+ await this.removeBuffered(stream, 0, Math.max(0, this.video.currentTime - 1));
+ stream.sourceBuffer.appendBuffer(data);
+ }
+ await waitForUpdate(stream.sourceBuffer);
+ }
+
+ private async evictPlayed(stream: StreamState): Promise<void> {
+ const evictBefore = this.video.currentTime - this.config.bufferBehind;
+ const { buffered } = stream.sourceBuffer;
+ if (evictBefore > 0 && buffered.length > 0 && buffered.start(0) < evictBefore) {
+ await this.removeBuffered(stream, 0, evictBefore);
+ }
+ }
+
+ private async removeBuffered(stream: StreamState, start: number, end: number): Promise<void> {
+ const { buffered } = stream.sourceBuffer;
+ const bufferedEnd = buffered.length > 0 ? buffered.end(buffered.length - 1) : 0;
+ const removeEnd = Math.min(end, bufferedEnd);
+ if (removeEnd <= start) {
+ return;
+ }
+ await waitForUpdate(stream.sourceBuffer);
+ stream.sourceBuffer.remove(start, removeEnd);
+ await waitForUpdate(stream.sourceBuffer);
+ }
+
+ private maybeEndStream(): void {
+ const allEnded = Array.from(this.streams.values()).every(stream => stream.ended);
+ const anyUpdating = Array.from(this.streams.values()).some(stream => stream.sourceBuffer.updating);
+ if (allEnded && !anyUpdating && this.mediaSource?.readyState === 'open') {
+ this.mediaSource.endOfStream();
+ }
+ }
+
+ private handleSeeking = (): void => {
+ for (const stream of this.streams.values()) {
+ stream.loading?.abort();
+ stream.loading = null;
+ stream.ended = false;
+ stream.failures = 0;
+ stream.retryAt = 0;
+ }
+ this.pump();
+ };
+
+ private handleWaiting = (): void => {
+ if (this.stallStartedAt === null && !this.video.seeking) {
+ this.stallStartedAt = Date.now();
+ this.stats.stallCount++;
+ }
+ };
+
+ private handlePlaying = (): void => {
+ if (this.stallStartedAt !== null) {
+ this.stats.stallDuration += Date.now() - this.stallStartedAt;
+ this.stallStartedAt = null;
+ }
+ };
+}
+
+export default AdaptiveStreamingPlayer;
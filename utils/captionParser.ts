@@ -0,0 +1,714 @@
+/**
+ * WebVTT and SRT caption parsing and serialization.
+ *
+ * Both formats parse into the same {@link CaptionTrackData} shape so the
+ * player and the caption editor never need to know where a track came from.
+ * Cue payloads keep their inline markup (`<b>`, `<c.yellow>`, `<v Speaker>`…);
+ * {@link parseCueText} turns it into a node tree for rendering.
+ */
+
+export type CaptionFormat = 'vtt' | 'srt';
+
+export type CueAlign = 'start' | 'center' | 'end' | 'left' | 'right';
+export type CueLineAlign = 'start' | 'center' | 'end';
+export type CuePositionAlign = 'line-left' | 'center' | 'line-right';
+
+/** WebVTT cue settings; SRT `{\anN}` tags are mapped onto the same fields */
+export interface CueSettings {
+ vertical?: 'rl' | 'lr';
+ /** Line number (counted from the top, or from the bottom when negative) or a percentage */
+ line?: number;
+ lineIsPercent?: boolean;
+ lineAlign?: CueLineAlign;
+ /** Percentage of the video width */
+ position?: number;
+ positionAlign?: CuePositionAlign;
+ /** Percentage of the video width; defaults to 100 */
+ size?: number;
+ align?: CueAlign;
+ region?: string;
+}
+
+export interface CaptionCue {
+ id?: string;
+ /** Seconds */
+ startTime: number;
+ endTime: number;
+ /** Cue payload, including inline markup */
+ text: string;
+ settings: CueSettings;
+}
+
+export interface CaptionRegion {
+ id: string;
+ /** Percentage of the video width */
+ width: number;
+ lines: number;
+ regionAnchor: [number, number];
+ viewportAnchor: [number, number];
+ scroll?: 'up';
+}
+
+/** A `::cue` rule from a STYLE block. `selector` is empty for the bare `::cue` selector. */
+export interface CueStyleRule {
+ selector: string;
+ declarations: Record<string, string>;
+}
+
+export interface CaptionTrackData {
+ format: CaptionFormat;
+ cues: CaptionCue[];
+ styles: CueStyleRule[];
+ regions: CaptionRegion[];
+}
+
+export type CueNode =
+ | { type: 'text'; text: string }
+ | { type: 'timestamp'; time: number }
+ | { type: 'tag'; name: CueTagName; classes: string[]; annotation?: string; children: CueNode[] };
+
+export type CueTagName = 'b' | 'i' | 'u' | 'c' | 'v' | 'lang' | 'ruby' | 'rt' | 'font';
+
+export class CaptionParseError extends Error {
+ constructor(message: string, public readonly line?: number) {
+ super(line === undefined ? message : `${message} (line ${line})`);
+ this.name = 'CaptionParseError';
+ }
+}
+
+/** The colour classes every WebVTT renderer is expected to know */
+export const CUE_COLOR_CLASSES: Record<string, string> = {
+ white: '#ffffff',
+ lime: '#00ff00',
+ cyan: '#00ffff',
+ red: '#ff0000',
+ yellow: '#ffff00',
+ magenta: '#ff00ff',
+ blue: '#0000ff',
+ black: '#000000'
+};
+
+const CUE_TAGS = new Set<string>(['b', 'i', 'u', 'c', 'v', 'lang', 'ruby', 'rt', 'font']);
+
+/** Properties the WebVTT spec allows `::cue` rules to set */
+const ALLOWED_CUE_PROPERTIES = new Set([
+ 'color',
+ 'opacity',
+ 'visibility',
+ 'text-decoration',
+ 'text-shadow',
+ 'background',
+ 'background-color',
+ 'outline',
+ 'font',
+ 'font-family',
+ 'font-size',
+ 'font-style',
+ 'font-weight',
+ 'line-height',
+ 'white-space',
+ 'ruby-position'
+]);
+
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?([0-5]\d):([0-5]\d)[.,](\d{1,3})$/;
+
+/**
+ * Parses `hh:mm:ss.ttt` / `mm:ss.ttt` (WebVTT) or `hh:mm:ss,ttt` (SRT) into
+ * seconds. Returns NaN for anything else.
+ */
+export function parseTimestamp(value: string): number {
+ const match = TIMESTAMP_PATTERN.exec(value.trim());
+ if (!match) {
+ return NaN;
+ }
+ const [, hours = '0', minutes, seconds, fraction] = match;
+ return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+}
+
+/** Formats seconds as `hh:mm:ss.ttt` (WebVTT) or `hh:mm:ss,ttt` (SRT). */
+export function formatTimestamp(seconds: number, format: CaptionFormat = 'vtt'): string {
+ const totalMs = Math.max(0, Math.round(seconds * 1000));
+ const hours = Math.floor(totalMs / 3_600_000);
+ const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+ const secs = Math.floor((totalMs % 60_000) / 1000);
+ const ms = totalMs % 1000;
+ const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+ return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${format === 'srt' ? ',' : '.'}${pad(ms, 3)}`;
+}
+
+function normalizeLineEndings(text: string): string[] {
+ return text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+}
+
+/** Groups lines into blank-line separated blocks, remembering each block's first line number. */
+function splitBlocks(lines: string[]): Array<{ lines: string[]; lineNumber: number }> {
+ const blocks: Array<{ lines: string[]; lineNumber: number }> = [];
+ let current: string[] = [];
+ let start = 0;
+ lines.forEach((line, index) => {
+ if (line.trim() === '') {
+ if (current.length) {
+ blocks.push({ lines: current, lineNumber: start + 1 });
+ current = [];
+ }
+ return;
+ }
+ if (!current.length) {
+ start = index;
+ }
+ current.push(line);
+ });
+ if (current.length) {
+ blocks.push({ lines: current, lineNumber: start + 1 });
+ }
+ return blocks;
+}
+
+function parsePercent(value: string): number | undefined {
+ const match = /^(\d+(?:\.\d+)?)%$/.exec(value);
+ if (!match) {
+ return undefined;
+ }
+ const percent = Number(match[1]);
+ return percent <= 100 ? percent : undefined;
+}
+
+/** Parses the settings list after the `-->` arrow. Invalid settings are ignored, as browsers do. */
+export function parseCueSettings(input: string): CueSettings {
+ const settings: CueSettings = {};
+ for (const token of input.trim().split(/\s+/)) {
+ const separator = token.indexOf(':');
+ if (separator <= 0) {
+ continue;
+ }
+ const name = token.slice(0, separator);
+ const value = token.slice(separator + 1);
+ const [main, alignment] = value.split(',');
+
+ switch (name) {
+ case 'vertical':
+ if (value === 'rl' || value === 'lr') {
+ settings.vertical = value;
+ }
+ break;
+ case 'line': {
+ const percent = parsePercent(main);
+ if (percent !== undefined) {
+ settings.line = percent;
+ settings.lineIsPercent = true;
+ } else if (/^-?\d+$/.test(main)) {
+ settings.line = Number(main);
+ settings.lineIsPercent = false;
+ } else {
+ break;
+ }
+ if (alignment === 'start' || alignment === 'center' || alignment === 'end') {
+ settings.lineAlign = alignment;
+ }
+ break;
+ }
+ case 'position': {
+ const percent = parsePercent(main);
+ if (percent === undefined) {
+ break;
+ }
+ settings.position = percent;
+ if (alignment === 'line-left' || alignment === 'center' || alignment === 'line-right') {
+ settings.positionAlign = alignment;
+ }
+ break;
+ }
+ case 'size': {
+ const percent = parsePercent(value);
+ if (percent !== undefined) {
+ settings.size = percent;
+ }
+ break;
+ }
+ case 'align':
+ if (['start', 'center', 'end', 'left', 'right'].includes(value)) {
+ settings.align = value as CueAlign;
+ }
+ break;
+ case 'region':
+ settings.region = value;
+ break;
+ }
+ }
+ return settings;
+}
+
+export function serializeCueSettings(settings: CueSettings): string {
+ const parts: string[] = [];
+ if (settings.vertical) {
+ parts.push(`vertical:${settings.vertical}`);
+ }
+ if (settings.line !== undefined) {
+ const line = `${settings.line}${settings.lineIsPercent ? '%' : ''}`;
+ parts.push(`line:${line}${settings.lineAlign ? `,${settings.lineAlign}` : ''}`);
+ }
+ if (settings.position !== undefined) {
+ parts.push(`position:${settings.position}%${settings.positionAlign ? `,${settings.positionAlign}` : ''}`);
+ }
+ if (settings.size !== undefined) {
+ parts.push(`size:${settings.size}%`);
+ }
+ if (settings.align) {
+ parts.push(`align:${settings.align}`);
+ }
+ if (settings.region) {
+ parts.push(`region:${settings.region}`);
+ }
+ return parts.join(' ');
+}
+
+function parseTimingLine(line: string, lineNumber: number): { startTime: number; endTime: number; rest: string } {
+ const match = /^(\S+)[ \t]+-->[ \t]+(\S+)(.*)$/.exec(line.trim());
+ if (!match) {
+ throw new CaptionParseError('Malformed cue timing', lineNumber);
+ }
+ const startTime = parseTimestamp(match[1]);
+ const endTime = parseTimestamp(match[2]);
+ if (Number.isNaN(startTime) || Number.isNaN(endTime)) {
+ throw new CaptionParseError('Invalid cue timestamp', lineNumber);
+ }
+ if (endTime <= startTime) {
+ throw new CaptionParseError('Cue ends before it starts', lineNumber);
+ }
+ return { startTime, endTime, rest: match[3] };
+}
+
+function parseAnchor(value: string): [number, number] | undefined {
+ const [x, y] = value.split(',').map(parsePercent);
+ return x === undefined || y === undefined ? undefined : [x, y];
+}
+
+function parseRegion(lines: string[]): CaptionRegion | null {
+ const region: CaptionRegion = { id: '', width: 100, lines: 3, regionAnchor: [0, 100], viewportAnchor: [0, 100] };
+ for (const token of lines.join(' ').split(/\s+/)) {
+ const separator = token.indexOf(':');
+ if (separator <= 0) {
+ continue;
+ }
+ const name = token.slice(0, separator);
+ const value = token.slice(separator + 1);
+ switch (name) {
+ case 'id':
+ region.id = value;
+ break;
+ case 'width':
+ region.width = parsePercent(value) ?? region.width;
+ break;
+ case 'lines':
+ if (/^\d+$/.test(value)) {
+ region.lines = Number(value);
+ }
+ break;
+ case 'regionanchor':
+ region.regionAnchor = parseAnchor(value) ?? region.regionAnchor;
+ break;
+ case 'viewportanchor':
+ region.viewportAnchor = parseAnchor(value) ?? region.viewportAnchor;
+ break;
+ case 'scroll':
+ if (value === 'up') {
+ region.scroll = 'up';
+ }
+ break;
+ }
+ }
+ return region.id ? region : null;
+}
+
+/**
+ * Extracts `::cue` rules from a STYLE block. Selectors other than `::cue` and
+ * `::cue(...)` are dropped, as are properties cues are not allowed to set.
+ */
+export function parseCueStyles(css: string): CueStyleRule[] {
+ const rules: CueStyleRule[] = [];
+ const withoutComments = css.replace(/\/\*[\s\S]*?\*\//g, '');
+ const rulePattern = /([^{}]+)\{([^}]*)\}/g;
+ let match: RegExpExecArray | null;
+
+ while ((match = rulePattern.exec(withoutComments))) {
+ const declarations: Record<string, string> = {};
+ for (const declaration of match[2].split(';')) {
+ const separator = declaration.indexOf(':');
+ if (separator <= 0) {
+ continue;
+ }
+ const property = declaration.slice(0, separator).trim().toLowerCase();
+ const value = declaration.slice(separator + 1).trim();
+ if (ALLOWED_CUE_PROPERTIES.has(property) && value) {
+ declarations[property] = value;
+ }
+ }
+ if (!Object.keys(declarations).length) {
+ continue;
+ }
+
+ for (const selector of match[1].split(',')) {
+ const cueSelector = /^::cue(?:\((.*)\))?$/.exec(selector.trim());
+ if (cueSelector) {
+ rules.push({ selector: (cueSelector[1] ?? '').trim(), declarations });
+ }
+ }
+ }
+ return rules;
+}
+
+/**
+ * Parses a WebVTT file. Throws {@link CaptionParseError} when the WEBVTT
+ * signature is missing; individual malformed cues are skipped so one bad cue
+ * does not hide the rest of the track.
+ */
+export function parseWebVTT(text: string): CaptionTrackData {
+ const lines = normalizeLineEndings(text);
+ if (!/^WEBVTT(?:[ \t].*)?$/.test(lines[0] ?? '')) {
+ throw new CaptionParseError('Missing WEBVTT signature', 1);
+ }
+
+ const track: CaptionTrackData = { format: 'vtt', cues: [], styles: [], regions: [] };
+ const [, ...blocks] = splitBlocks(lines);
+
+ for (const block of blocks) {
+ const [first, ...rest] = block.lines;
+ if (/^NOTE(?:[ \t]|$)/.test(first)) {
+ continue;
+ }
+ if (/^STYLE[ \t]*$/.test(first)) {
+ track.styles.push(...parseCueStyles(rest.join('\n')));
+ continue;
+ }
+ if (/^REGION[ \t]*$/.test(first)) {
+ const region = parseRegion(rest);
+ if (region) {
+ track.regions.push(region);
+ }
+ continue;
+ }
+
+ const hasId = !first.includes('-->');
+ const timingIndex = hasId ? 1 : 0;
+ const timingLine = block.lines[timingIndex];
+ if (!timingLine?.includes('-->')) {
+ continue;
+ }
+ try {
+ const { startTime, endTime, rest: settings } = parseTimingLine(timingLine, block.lineNumber + timingIndex);
+ track.cues.push({
+ ...(hasId && { id: first.trim() }),
+ startTime,
+ endTime,
+ text: block.lines.slice(timingIndex + 1).join('\n'),
+ settings: parseCueSettings(settings)
+ });
+ } catch (error) {
+ if (!(error instanceof CaptionParseError)) {
+ throw error;
+ }
+ }
+ }
+
+ track.cues.sort((a, b) => a.startTime - b.startTime || a.endTime - b.endTime);
+ return track;
+}
+
+/** Maps an SRT/ASS `{\anN}` numpad position onto WebVTT cue settings. */
+function settingsFromAnTag(position: number): CueSettings {
+ const settings: CueSettings = {};
+ if (position >= 7) {
+ settings.line = 0;
+ settings.lineIsPercent = false;
+ } else if (position >= 4) {
+ settings.line = 50;
+ settings.lineIsPercent = true;
+ settings.lineAlign = 'center';
+ }
+ const column = (position - 1) % 3;
+ if (column === 0) {
+ settings.align = 'left';
+ } else if (column === 2) {
+ settings.align = 'right';
+ }
+ return settings;
+}
+
+/** The closest `{\anN}` position for a cue, or 2 (bottom centre) when it has no placement. */
+function anTagFromSettings(settings: CueSettings): number {
+ let row = 0;
+ if (settings.line !== undefined) {
+ if (settings.lineIsPercent) {
+ row = settings.line <= 33 ? 2 : settings.line < 67 ? 1 : 0;
+ } else {
+ row = settings.line >= 0 ? 2 : 0;
+ }
+ }
+ let column = 1;
+ if (settings.align === 'left' || settings.align === 'start') {
+ column = 0;
+ } else if (settings.align === 'right' || settings.align === 'end') {
+ column = 2;
+ }
+ return row * 3 + column + 1;
+}
+
+/** Reads an `{\anN}` placement tag and drops the other ASS override tags SRT files carry. */
+function convertSrtMarkup(text: string): { text: string; settings: CueSettings } {
+ let settings: CueSettings = {};
+ const withoutOverrides = text.replace(/\{\\([^}]*)\}/g, (_, tag: string) => {
+ const position = /^an([1-9])$/.exec(tag);
+ if (position) {
+ settings = settingsFromAnTag(Number(position[1]));
+ }
+ return '';
+ });
+ return { text: withoutOverrides, settings };
+}
+
+/** Parses a SubRip (.srt) file. Malformed cues are skipped. */
+export function parseSRT(text: string): CaptionTrackData {
+ const track: CaptionTrackData = { format: 'srt', cues: [], styles: [], regions: [] };
+
+ for (const block of splitBlocks(normalizeLineEndings(text))) {
+ const timingIndex = block.lines.findIndex(line => line.includes('-->'));
+ if (timingIndex < 0 || timingIndex > 1) {
+ continue;
+ }
+ try {
+ const { startTime, endTime } = parseTimingLine(block.lines[timingIndex], block.lineNumber + timingIndex);
+ const { text: cueText, settings } = convertSrtMarkup(block.lines.slice(timingIndex + 1).join('\n'));
+ track.cues.push({
+ ...(timingIndex === 1 && { id: block.lines[0].trim() }),
+ startTime,
+ endTime,
+ text: cueText.trim(),
+ settings
+ });
+ } catch (error) {
+ if (!(error instanceof CaptionParseError)) {
+ throw error;
+ }
+ }
+ }
+
+ track.cues.sort((a, b) => a.startTime - b.startTime || a.endTime - b.endTime);
+ return track;
+}
+
+/** Guesses the format from a file name or URL, ignoring any query string. */
+export function getCaptionFormat(nameOrUrl: string): CaptionFormat | null {
+ const path = nameOrUrl.split(/[?#]/)[0].toLowerCase();
+ if (path.endsWith('.vtt')) {
+ return 'vtt';
+ }
+ if (path.endsWith('.srt')) {
+ return 'srt';
+ }
+ return null;
+}
+
+/** Parses either format, sniffing the WEBVTT signature when `format` is not given. */
+export function parseCaptions(text: string, format?: CaptionFormat | null): CaptionTrackData {
+ const resolved = format ?? (/^\uFEFF?WEBVTT/.test(text) ? 'vtt' : 'srt');
+ return resolved === 'vtt' ? parseWebVTT(text) : parseSRT(text);
+}
+
+/** A cue payload may not contain blank lines or the `-->` arrow. */
+function sanitizeCueText(text: string): string {
+ return text
+ .replace(/\r\n?/g, '\n')
+ .split('\n')
+ .filter(line => line.trim() !== '')
+ .join('\n')
+ .replace(/-->/g, '--&gt;');
+}
+
+export function serializeWebVTT(track: Pick<CaptionTrackData, 'cues'> & Partial<CaptionTrackData>): string {
+ const blocks = ['WEBVTT'];
+
+ for (const region of track.regions ?? []) {
+ const settings = [
+ `id:${region.id}`,
+ `width:${region.width}%`,
+ `lines:${region.lines}`,
+ `regionanchor:${region.regionAnchor[0]}%,${region.regionAnchor[1]}%`,
+ `viewportanchor:${region.viewportAnchor[0]}%,${region.viewportAnchor[1]}%`,
+ ...(region.scroll ? [`scroll:${region.scroll}`] : [])
+ ];
+ blocks.push(`REGION\n${settings.join('\n')}`);
+ }
+
+ if (track.styles?.length) {
+ const css = track.styles.map(rule => {
+ const declarations = Object.entries(rule.declarations)
+ .map(([property, value]) => ` ${property}: ${value};`)
+ .join('\n');
+ return `::cue${rule.selector ? `(${rule.selector})` : ''} {\n${declarations}\n}`;
+ });
+ blocks.push(`STYLE\n${css.join('\n')}`);
+ }
+
+ for (const cue of track.cues) {
+ const settings = serializeCueSettings(cue.settings);
+ const timing = `${formatTimestamp(cue.startTime)} --> ${formatTimestamp(cue.endTime)}${settings ? ` ${settings}` : ''}`;
+ const id = cue.id?.replace(/-->/g, '').trim();
+ blocks.push([...(id ? [id] : []), timing, sanitizeCueText(cue.text)].join('\n'));
+ }
+
+ return `${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * SRT only understands `<b>`, `<i>`, `<u>` and `<font color>`, so WebVTT class
+ * colours become font tags, voices become a "Speaker: " prefix and the rest of
+ * the markup is dropped. Placement survives as an `{\anN}` tag.
+ */
+function toSrtText(cue: CaptionCue): string {
+ const toMarkup = (nodes: CueNode[]): string => nodes.map(node => {
+ if (node.type === 'text') {
+ return node.text;
+ }
+ if (node.type === 'timestamp') {
+ return '';
+ }
+ const inner = toMarkup(node.children);
+ switch (node.name) {
+ case 'b':
+ case 'i':
+ case 'u':
+ return `<${node.name}>${inner}</${node.name}>`;
+ case 'font':
+ return node.annotation ? `<font color="${node.annotation}">${inner}</font>` : inner;
+ case 'c': {
+ const color = node.classes.find(cls => CUE_COLOR_CLASSES[cls]);
+ return color ? `<font color="${CUE_COLOR_CLASSES[color]}">${inner}</font>` : inner;
+ }
+ case 'v':
+ return node.annotation ? `${node.annotation}: ${inner}` : inner;
+ case 'rt':
+ return '';
+ default:
+ return inner;
+ }
+ }).join('');
+
+ const position = anTagFromSettings(cue.settings);
+ return `${position === 2 ? '' : `{\\an${position}}`}${sanitizeCueText(toMarkup(parseCueText(cue.text)))}`;
+}
+
+export function serializeSRT(track: Pick<CaptionTrackData, 'cues'>): string {
+ return track.cues
+ .map((cue, index) => [
+ String(index + 1),
+ `${formatTimestamp(cue.startTime, 'srt')} --> ${formatTimestamp(cue.endTime, 'srt')}`,
+ toSrtText(cue)
+ ].join('\n'))
+ .join('\n\n') + '\n';
+}
+
+export function serializeCaptions(track: CaptionTrackData, format: CaptionFormat): string {
+ return format === 'vtt' ? serializeWebVTT(track) : serializeSRT(track);
+}
+
+const ENTITIES: Record<string, string> = {
+ amp: '&',
+ lt: '<',
+ gt: '>',
+ quot: '"',
+ apos: "'",
+ nbsp: '\u00A0',
+ lrm: '\u200E',
+ rlm: '‏'
+};
+
+function decodeEntities(text: string): string {
+ return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+ if (name[0] === '#') {
+ const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+ return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+ }
+ return ENTITIES[name.toLowerCase()] ?? entity;
+ });
+}
+
+/**
+ * Turns a cue payload into a node tree. Unknown tags are dropped but their
+ * content kept; unclosed tags close at the end of the cue.
+ */
+export function parseCueText(text: string): CueNode[] {
+ const root: CueNode[] = [];
+ const stack: Array<Extract<CueNode, { type: 'tag' }>> = [];
+ const append = (node: CueNode) => (stack.length ? stack[stack.length - 1].children : root).push(node);
+ const tagPattern = /<([^>]*)>/g;
+ let lastIndex = 0;
+ let match: RegExpExecArray | null;
+
+ while ((match = tagPattern.exec(text))) {
+ if (match.index > lastIndex) {
+ append({ type: 'text', text: decodeEntities(text.slice(lastIndex, match.index)) });
+ }
+ lastIndex = tagPattern.lastIndex;
+ const tag = match[1].trim();
+
+ if (tag.startsWith('/')) {
+ const name = tag.slice(1).trim().toLowerCase();
+ const openIndex = stack.map(node => node.name as string).lastIndexOf(name);
+ if (openIndex >= 0) {
+ stack.length = openIndex;
+ }
+ continue;
+ }
+
+ const time = parseTimestamp(tag);
+ if (!Number.isNaN(time)) {
+ append({ type: 'timestamp', time });
+ continue;
+ }
+
+ const [head, ...annotationParts] = tag.split(/\s+/);
+ const [name, ...classes] = head.toLowerCase().split('.');
+ if (!CUE_TAGS.has(name)) {
+ continue;
+ }
+ let annotation = annotationParts.join(' ') || undefined;
+ if (name === 'font') {
+ annotation = /color\s*=\s*["']?([^"'\s>]+)/i.exec(tag)?.[1];
+ }
+ const node: Extract<CueNode, { type: 'tag' }> = {
+ type: 'tag',
+ name: name as CueTagName,
+ classes: classes.filter(Boolean),
+ ...(annotation && { annotation }),
+ children: []
+ };
+ append(node);
+ stack.push(node);
+ }
+
+ if (lastIndex < text.length) {
+ append({ type: 'text', text: decodeEntities(text.slice(lastIndex)) });
+ }
+ return root;
+}
+
+/** Cue text with all markup removed, for lists and search */
+export function stripCueMarkup(text: string): string {
+ const collect = (nodes: CueNode[]): string =>
+ nodes.map(node => (node.type === 'text' ? node.text : node.type === 'tag' && node.name !== 'rt' ? collect(node.children) : '')).join('');
+ return collect(parseCueText(text));
+}
+
+/** Cues showing at `time`, in start order. `cues` must be sorted by start time. */
+export function getActiveCues(cues: CaptionCue[], time: number): CaptionCue[] {
+ const active: CaptionCue[] = [];
+ for (const cue of cues) {
+ if (cue.startTime > time) {
+ break;
+ }
+ if (cue.endTime > time) {
+ active.push(cue);
+ }
+ }
+ return active;
+}
@@ -0,0 +1,149 @@
+/**
+ * Chapters from "0:00 Intro"-style timestamp lists in video descriptions.
+ *
+ * Follows YouTube's rules: the list must start at 0:00, timestamps must
+ * ascend, there must be at least {@link MIN_CHAPTERS} chapters and each must
+ * last at least {@link MIN_CHAPTER_SECONDS}. A description that breaks any of
+ * them gets no chapters at all rather than a partial set.
+ */
+
+import type { VideoChapter } from './playerUtils';
+
+export const MIN_CHAPTERS = 3;
+export const MIN_CHAPTER_SECONDS = 10;
+
+export type ChapterRejection =
+ | 'no-timestamps'
+ | 'not-starting-at-zero'
+ | 'too-few-chapters'
+ | 'not-ascending'
+ | 'too-short';
+
+export interface ChapterParseResult {
+ chapters: VideoChapter[];
+ /** Why the description's timestamps were not turned into chapters */
+ rejection?: ChapterRejection;
+}
+
+interface TimestampLine {
+ start: number;
+ title: string;
+}
+
+const TIMESTAMP = String.raw`(?:(\d{1,2}):)?(\d{1,2}):(\d{2})`;
+const SEPARATOR = String.raw`[\s\-–—:|.)\]]*`;
+
+/** "0:00 Intro", "(00:00) - Intro", "1. 00:00 Intro" */
+const LEADING_TIMESTAMP = new RegExp(String.raw`^(?:\d+\.\s+)?[\[(]?${TIMESTAMP}${SEPARATOR}(.*)$`);
+/** "Intro - 0:00", "Intro (0:00)" */
+const TRAILING_TIMESTAMP = new RegExp(String.raw`^(.*?)[\s\-–—:|]*[\[(]?${TIMESTAMP}[\])]?$`);
+
+/** Parses `h:mm:ss` or `m:ss` into seconds; NaN when minutes or seconds overflow. */
+export function parseChapterTimestamp(hours: string | undefined, minutes: string, seconds: string): number {
+ const m = Number(minutes);
+ const s = Number(seconds);
+ if (s >= 60 || (hours !== undefined && m >= 60)) {
+ return NaN;
+ }
+ return Number(hours ?? 0) * 3600 + m * 60 + s;
+}
+
+function cleanTitle(title: string): string {
+ return title.replace(/^[\s\-–—:|•*]+|[\s\-–—:|•*]+$/g, '').trim();
+}
+
+function parseLine(line: string): TimestampLine | null {
+ const text = line.trim().replace(/^[-–—•*]\s*/, '');
+ const leading = LEADING_TIMESTAMP.exec(text);
+ if (leading) {
+ const start = parseChapterTimestamp(leading[1], leading[2], leading[3]);
+ const title = cleanTitle(leading[4]);
+ if (!Number.isNaN(start) && title) {
+ return { start, title };
+ }
+ }
+ const trailing = TRAILING_TIMESTAMP.exec(text);
+ if (trailing) {
+ const start = parseChapterTimestamp(trailing[2], trailing[3], trailing[4]);
+ const title = cleanTitle(trailing[1]);
+ if (!Number.isNaN(start) && title) {
+ return { start, title };
+ }
+ }
+ return null;
+}
+
+/**
+ * The chapter list is the first run of consecutive timestamped lines that
+ * starts at 0:00. Timestamps elsewhere in the description ("the drop at
+ * 3:15") are not chapters.
+ */
+function findChapterLines(description: string): TimestampLine[] {
+ const lines = description.split(/\r?\n/);
+ let fallback: TimestampLine[] = [];
+
+ for (let i = 0; i < lines.length; i++) {
+ const first = parseLine(lines[i]);
+ if (!first) {
+ continue;
+ }
+ const run = [first];
+ while (i + 1 < lines.length) {
+ const next = parseLine(lines[i + 1]);
+ if (!next) {
+ break;
+ }
+ run.push(next);
+ i++;
+ }
+ if (first.start === 0) {
+ return run;
+ }
+ if (!fallback.length) {
+ fallback = run;
+ }
+ }
+ return fallback;
+}
+
+/**
+ * Parses the chapter list out of a description.
+ * @param description - Video description text
+ * @param duration - Video length in seconds; without it the last chapter's
+ * minimum length cannot be checked and its `end` is `Infinity`
+ */
+export function parseChapters(description: string | undefined, duration?: number): ChapterParseResult {
+ const lines = description ? findChapterLines(description) : [];
+ if (!lines.length) {
+ return { chapters: [], rejection: 'no-timestamps' };
+ }
+ if (lines[0].start !== 0) {
+ return { chapters: [], rejection: 'not-starting-at-zero' };
+ }
+ if (lines.length < MIN_CHAPTERS) {
+ return { chapters: [], rejection: 'too-few-chapters' };
+ }
+
+ const total = duration !== undefined && duration > 0 ? duration : undefined;
+ const chapters: VideoChapter[] = [];
+ for (let i = 0; i < lines.length; i++) {
+ const { start, title } = lines[i];
+ const end = i + 1 < lines.length ? lines[i + 1].start : total ?? Infinity;
+ if (end <= start) {
+ return { chapters: [], rejection: 'not-ascending' };
+ }
+ if (end - start < MIN_CHAPTER_SECONDS) {
+ return { chapters: [], rejection: 'too-short' };
+ }
+ if (total !== undefined && start >= total) {
+ return { chapters: [], rejection: 'not-ascending' };
+ }
+ chapters.push({ start, end, title });
+ }
+ return { chapters };
+}
+
+/** The chapter playing at `time`, or null before the first or without chapters */
+export function getChapterAt(chapters: VideoChapter[], time: number): VideoChapter | null {
+ return chapters.find(chapter => time >= chapter.start && time < chapter.end) ?? null;
+}
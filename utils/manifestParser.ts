@@ -0,0 +1,400 @@
+/**
+ * HLS and DASH manifest parsing into a single rendition model that the
+ * adaptive streaming engine can feed to Media Source Extensions.
+ *
+ * Only fragmented MP4 (CMAF) media is supported: MSE cannot play MPEG-TS
+ * segments without transmuxing.
+ */
+
+export type ManifestType = 'hls' | 'dash';
+export type StreamContentType = 'video' | 'audio';
+
+export interface MediaSegment {
+ url: string;
+ /** Presentation start time in seconds */
+ start: number;
+ duration: number;
+ /** Byte range within `url`, as [start, endInclusive] */
+ byteRange?: [number, number];
+}
+
+export interface Rendition {
+ id: string;
+ contentType: StreamContentType;
+ /** Peak bits per second, as advertised by the manifest */
+ bandwidth: number;
+ width?: number;
+ height?: number;
+ frameRate?: number;
+ codecs: string;
+ mimeType: string;
+ /** HLS media playlist URL; segments are loaded on first use */
+ playlistUrl?: string;
+ initSegment?: { url: string; byteRange?: [number, number] };
+ segments?: MediaSegment[];
+}
+
+export interface StreamManifest {
+ type: ManifestType;
+ url: string;
+ /** Seconds; 0 when unknown until a media playlist is loaded */
+ duration: number;
+ isLive: boolean;
+ video: Rendition[];
+ /** Separate audio renditions (DASH); empty when audio is muxed with video */
+ audio: Rendition[];
+}
+
+export class ManifestParseError extends Error {
+ constructor(message: string) {
+ super(message);
+ this.name = 'ManifestParseError';
+ }
+}
+
+export const getManifestType = (url: string, contentType?: string | null): ManifestType | null => {
+ const type = contentType?.toLowerCase() || '';
+ if (type.includes('mpegurl') || /\.m3u8(\?|#|$)/i.test(url)) {
+ return 'hls';
+ }
+ if (type.includes('dash+xml') || /\.mpd(\?|#|$)/i.test(url)) {
+ return 'dash';
+ }
+ return null;
+};
+
+const resolveUrl = (url: string, base: string): string => new URL(url, base).toString();
+
+// ---------------------------------------------------------------------------
+// HLS
+// ---------------------------------------------------------------------------
+
+/** Splits an attribute list such as `BANDWIDTH=800000,CODECS="avc1.4d401e,mp4a.40.2"` */
+const parseAttributes = (input: string): Record<string, string> => {
+ const attributes: Record<string, string> = {};
+ const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+ let match: RegExpExecArray | null;
+ while ((match = pattern.exec(input)) !== null) {
+ attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+ }
+ return attributes;
+};
+
+const parseHlsByteRange = (value: string, previousEnd: number): [number, number] => {
+ const [length, offset] = value.split('@').map(Number);
+ const start = Number.isFinite(offset) ? offset : previousEnd;
+ return [start, start + length - 1];
+};
+
+/**
+ * Parses an HLS multivariant (master) playlist. A media playlist passed here
+ * is treated as a single rendition.
+ */
+export const parseHlsMasterPlaylist = (text: string, url: string): StreamManifest => {
+ const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+ if (lines[0] !== '#EXTM3U') {
+ throw new ManifestParseError('Not an HLS playlist: missing #EXTM3U');
+ }
+
+ if (!lines.some(line => line.startsWith('#EXT-X-STREAM-INF'))) {
+ const media = parseHlsMediaPlaylist(text, url);
+ return {
+ type: 'hls',
+ url,
+ duration: media.duration,
+ isLive: media.isLive,
+ video: [{
+ id: 'default',
+ contentType: 'video',
+ bandwidth: 0,
+ codecs: '',
+ mimeType: 'video/mp4',
+ playlistUrl: url,
+ ...(media.initSegment && { initSegment: media.initSegment }),
+ segments: media.segments
+ }],
+ audio: []
+ };
+ }
+
+ const video: Rendition[] = [];
+ for (let i = 0; i < lines.length; i++) {
+ if (!lines[i].startsWith('#EXT-X-STREAM-INF:')) {
+ continue;
+ }
+ const attributes = parseAttributes(lines[i].slice('#EXT-X-STREAM-INF:'.length));
+ const uri = lines.slice(i + 1).find(line => !line.startsWith('#'));
+ if (!uri) {
+ continue;
+ }
+ const [width, height] = (attributes.RESOLUTION || '').split('x').map(Number);
+ video.push({
+ id: `v${video.length}`,
+ contentType: 'video',
+ bandwidth: Number(attributes['AVERAGE-BANDWIDTH'] || attributes.BANDWIDTH || 0),
+ ...(width && { width }),
+ ...(height && { height }),
+ ...(attributes['FRAME-RATE'] && { frameRate: Number(attributes['FRAME-RATE']) }),
+ codecs: attributes.CODECS || '',
+ mimeType: 'video/mp4',
+ playlistUrl: resolveUrl(uri, url)
+ });
+ }
+
+ return { type: 'hls', url, duration: 0, isLive: false, video: sortByBandwidth(video), audio: [] };
+};
+
+export interface HlsMediaPlaylist {
+ duration: number;
+ isLive: boolean;
+ targetDuration: number;
+ initSegment?: { url: string; byteRange?: [number, number] };
+ segments: MediaSegment[];
+}
+
+export const parseHlsMediaPlaylist = (text: string, url: string): HlsMediaPlaylist => {
+ const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+ const segments: MediaSegment[] = [];
+ let initSegment: HlsMediaPlaylist['initSegment'];
+ let targetDuration = 0;
+ let isLive = true;
+ let time = 0;
+ let pendingDuration: number | null = null;
+ let pendingRange: [number, number] | undefined;
+ let previousRangeEnd = 0;
+
+ for (const line of lines) {
+ if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+ targetDuration = Number(line.split(':')[1]);
+ } else if (line === '#EXT-X-ENDLIST' || line === '#EXT-X-PLAYLIST-TYPE:VOD') {
+ isLive = false;
+ } else if (line.startsWith('#EXT-X-MAP:')) {
+ const attributes = parseAttributes(line.slice('#EXT-X-MAP:'.length));
+ initSegment = {
+ url: resolveUrl(attributes.URI, url),
+ ...(attributes.BYTERANGE && { byteRange: parseHlsByteRange(attributes.BYTERANGE, 0) })
+ };
+ } else if (line.startsWith('#EXTINF:')) {
+ pendingDuration = parseFloat(line.slice('#EXTINF:'.length));
+ } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+ pendingRange = parseHlsByteRange(line.slice('#EXT-X-BYTERANGE:'.length), previousRangeEnd);
+ previousRangeEnd = pendingRange[1] + 1;
+ } else if (!line.startsWith('#') && pendingDuration !== null) {
+ segments.push({
+ url: resolveUrl(line, url),
+ start: time,
+ duration: pendingDuration,
+ ...(pendingRange && { byteRange: pendingRange })
+ });
+ time += pendingDuration;
+ pendingDuration = null;
+ pendingRange = undefined;
+ }
+ }
+
+ return { duration: time, isLive, targetDuration, ...(initSegment && { initSegment }), segments };
+};
+
+// ---------------------------------------------------------------------------
+// DASH
+// ---------------------------------------------------------------------------
+
+/** Parses an ISO 8601 duration such as `PT1H2M3.5S` into seconds */
+export const parseIsoDuration = (value: string | null | undefined): number => {
+ const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:([\d.]+)S)?)?$/.exec(value || '');
+ if (!match) {
+ return 0;
+ }
+ const [, days, hours, minutes, seconds] = match;
+ return Number(days || 0) * 86400 + Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0);
+};
+
+const fillTemplate = (template: string, values: Record<string, string | number>): string =>
+ template.replace(/\$(RepresentationID|Number|Time|Bandwidth)(?:%0(\d+)d)?\$/g, (_, name: string, width?: string) => {
+ const value = String(values[name]);
+ return width ? value.padStart(Number(width), '0') : value;
+ });
+
+const childrenByTag = (element: Element, tag: string): Element[] =>
+ Array.from(element.children).filter(child => child.localName === tag);
+
+const firstChild = (element: Element | null | undefined, tag: string): Element | null =>
+ (element ? childrenByTag(element, tag)[0] : null) || null;
+
+const resolveBaseUrl = (element: Element, base: string): string => {
+ const baseUrl = firstChild(element, 'BaseURL')?.textContent?.trim();
+ return baseUrl ? resolveUrl(baseUrl, base) : base;
+};
+
+const parseRange = (value: string | null): [number, number] | undefined => {
+ if (!value) {
+ return undefined;
+ }
+ const [start, end] = value.split('-').map(Number);
+ return [start, end];
+};
+
+const dashSegments = (
+ representation: Element,
+ adaptationSet: Element,
+ baseUrl: string,
+ duration: number
+): Pick<Rendition, 'initSegment' | 'segments'> => {
+ const id = representation.getAttribute('id') || '';
+ const bandwidth = representation.getAttribute('bandwidth') || '0';
+ const template = firstChild(representation, 'SegmentTemplate') || firstChild(adaptationSet, 'SegmentTemplate');
+
+ if (template) {
+ const timescale = Number(template.getAttribute('timescale') || 1);
+ const startNumber = Number(template.getAttribute('startNumber') || 1);
+ const media = template.getAttribute('media') || '';
+ const initialization = template.getAttribute('initialization');
+ const values = { RepresentationID: id, Bandwidth: bandwidth };
+ const segments: MediaSegment[] = [];
+ const timeline = firstChild(template, 'SegmentTimeline');
+
+ if (timeline) {
+ let number = startNumber;
+ let time = 0;
+ for (const entry of childrenByTag(timeline, 'S')) {
+ time = entry.hasAttribute('t') ? Number(entry.getAttribute('t')) : time;
+ const segmentDuration = Number(entry.getAttribute('d'));
+ const repeat = Number(entry.getAttribute('r') || 0);
+ for (let i = 0; i <= repeat; i++) {
+ segments.push({
+ url: resolveUrl(fillTemplate(media, { ...values, Number: number, Time: time }), baseUrl),
+ start: time / timescale,
+ duration: segmentDuration / timescale
+ });
+ number++;
+ time += segmentDuration;
+ }
+ }
+ } else {
+ const segmentDuration = Number(template.getAttribute('duration')) / timescale;
+ if (!segmentDuration) {
+ throw new ManifestParseError(`Representation ${id} has neither a SegmentTimeline nor a segment duration`);
+ }
+ const count = Math.ceil(duration / segmentDuration);
+ for (let i = 0; i < count; i++) {
+ segments.push({
+ url: resolveUrl(fillTemplate(media, { ...values, Number: startNumber + i, Time: Math.round(i * segmentDuration * timescale) }), baseUrl),
+ start: i * segmentDuration,
+ duration: Math.min(segmentDuration, duration - i * segmentDuration)
+ });
+ }
+ }
+
+ return {
+ ...(initialization && { initSegment: { url: resolveUrl(fillTemplate(initialization, values), baseUrl) } }),
+ segments
+ };
+ }
+
+ const list = firstChild(representation, 'SegmentList') || firstChild(adaptationSet, 'SegmentList');
+ if (list) {
+ const timescale = Number(list.getAttribute('timescale') || 1);
+ const segmentDuration = Number(list.getAttribute('duration') || 0) / timescale;
+ const initialization = firstChild(list, 'Initialization');
+ const initRange = parseRange(initialization?.getAttribute('range') ?? null);
+ const segments = childrenByTag(list, 'SegmentURL').map((segment, index) => {
+ const range = parseRange(segment.getAttribute('mediaRange'));
+ return {
+ url: resolveUrl(segment.getAttribute('media') || '', baseUrl),
+ start: index * segmentDuration,
+ duration: segmentDuration,
+ ...(range && { byteRange: range })
+ };
+ });
+ return {
+ ...(initialization && {
+ initSegment: {
+ url: resolveUrl(initialization.getAttribute('sourceURL') || '', baseUrl),
+ ...(initRange && { byteRange: initRange })
+ }
+ }),
+ segments
+ };
+ }
+
+ throw new ManifestParseError(`Representation ${id} uses an unsupported segment addressing scheme`);
+};
+
+export const parseDashManifest = (text: string, url: string): StreamManifest => {
+ const document = new DOMParser().parseFromString(text, 'application/xml');
+ const mpd = document.documentElement;
+ if (!mpd || mpd.localName !== 'MPD') {
+ throw new ManifestParseError('Not a DASH manifest: missing <MPD>');
+ }
+
+ const isLive = mpd.getAttribute('type') === 'dynamic';
+ const duration = parseIsoDuration(mpd.getAttribute('mediaPresentationDuration'));
+ const period = firstChild(mpd, 'Period');
+ if (!period) {
+ throw new ManifestParseError('DASH manifest has no Period');
+ }
+
+ const periodBase = resolveBaseUrl(period, resolveBaseUrl(mpd, url));
+ const video: Rendition[] = [];
+ const audio: Rendition[] = [];
+
+ for (const adaptationSet of childrenByTag(period, 'AdaptationSet')) {
+ const setMime = adaptationSet.getAttribute('mimeType') || '';
+ const setBase = resolveBaseUrl(adaptationSet, periodBase);
+
+ for (const representation of childrenByTag(adaptationSet, 'Representation')) {
+ const mimeType = representation.getAttribute('mimeType') || setMime;
+ const contentType = (adaptationSet.getAttribute('contentType') || mimeType.split('/')[0]) as StreamContentType;
+ if (contentType !== 'video' && contentType !== 'audio') {
+ continue;
+ }
+
+ const width = Number(representation.getAttribute('width') || adaptationSet.getAttribute('width') || 0);
+ const height = Number(representation.getAttribute('height') || adaptationSet.getAttribute('height') || 0);
+ const frameRate = (representation.getAttribute('frameRate') || adaptationSet.getAttribute('frameRate') || '').split('/').map(Number);
+ const rendition: Rendition = {
+ id: representation.getAttribute('id') || `${contentType}${contentType === 'video' ? video.length : audio.length}`,
+ contentType,
+ bandwidth: Number(representation.getAttribute('bandwidth') || 0),
+ ...(width && { width }),
+ ...(height && { height }),
+ ...(frameRate[0] && { frameRate: frameRate[1] ? frameRate[0] / frameRate[1] : frameRate[0] }),
+ codecs: representation.getAttribute('codecs') || adaptationSet.getAttribute('codecs') || '',
+ mimeType,
+ ...dashSegments(representation, adaptationSet, resolveBaseUrl(representation, setBase), duration)
+ };
+
+ (contentType === 'video' ? video : audio).push(rendition);
+ }
+ }
+
+ if (video.length === 0) {
+ throw new ManifestParseError('DASH manifest has no video representations');
+ }
+
+ return { type: 'dash', url, duration, isLive, video: sortByBandwidth(video), audio: sortByBandwidth(audio) };
+};
+
+function sortByBandwidth(renditions: Rendition[]): Rendition[] {
+ return [...renditions].sort((a, b) => a.bandwidth - b.bandwidth);
+}
+
+/**
+ * Fetches and parses a manifest, picking the parser from the URL or the
+ * response's content type.
+ */
+export const loadManifest = async (url: string, signal?: AbortSignal): Promise<StreamManifest> => {
+ const response = await fetch(url, signal ? { signal } : {});
+ if (!response.ok) {
+ throw new ManifestParseError(`Failed to load manifest (HTTP ${response.status})`);
+ }
+ const text = await response.text();
+ const type = getManifestType(response.url || url, response.headers.get('content-type'));
+ if (type === 'dash' || (!type && text.includes('<MPD'))) {
+ return parseDashManifest(text, response.url || url);
+ }
+ return parseHlsMasterPlaylist(text, response.url || url);
+};
+
+export const mimeCodec = (rendition: Rendition): string =>
+ rendition.codecs ? `${rendition.mimeType}; codecs="${rendition.codecs}"` : rendition.mimeType;
@@ -7,19 +7,22 @@
  */
 export const parseViewCount = (viewsStr): number => {
  if (!viewsStr) {
-return 0;
+ return 0;
+ }
  const lowerStr = viewsStr.toLowerCase().replace(/\s*views?$/, ''); // Remove " views" or " view" suffix and trim
  let numPart = parseFloat(lowerStr);
 
  if (isNaN(numPart)) {
-return 0;
-} // If the beginning isn't a number
+ return 0;
+ } // If the beginning isn't a number
 
  if (lowerStr.includes('m')) {
  numPart *= 1000000;
  } else if (lowerStr.includes('k')) {
  numPart *= 1000;
+ }
  return Math.floor(numPart); // Return integer part
+};
 
 /**
  * Formats a number into a string with K, M, B suffixes for thousands, millions, billions.
@@ -28,7 +31,7 @@ return 0;
  * @returns A string representation of the number with suffix.
  */
 export const formatCount = (num, digits: number = 0): string => {
- const lookup = [;
+ const lookup = [
  { value: 1, symbol: '' },
  { value: 1e3, symbol: 'K' },
  { value: 1e6, symbol: 'M' },
@@ -37,8 +40,8 @@ export const formatCount = (num, digits: number = 0): string => {
  const rx = /\.0+$|(\.[0-9]*[1-9])0+$/;
  const item = lookup.slice().reverse().find(item => num >= item.value);
  if (!item) {
-return '0';
-} // Should not happen with the lookup table
+ return '0';
+ } // Should not happen with the lookup table
 
  let numStr = (num / item.value).toFixed(digits);
 
@@ -47,12 +50,15 @@ return '0';
  numStr = (num / item.value).toFixed(1); // Use 1 decimal for K/M/B if digits is 0
  if (/\.0$/.test(numStr)) { // Check if it ends with .0
  numStr = (num / item.value).toFixed(0); // If so, remove .0
+ }
  } else if (digits > 0) {
  numStr = (num / item.value).toFixed(digits);
  } else {
  numStr = (num / item.value).toFixed(0); // Default to 0 decimals if no symbol
+ }
 
  return numStr.replace(rx, '$1') + item.symbol;
+};
 
 /**
  * Alias for formatCount to maintain backward compatibility
@@ -71,5 +77,6 @@ export const formatDuration = (seconds): string => {
 
  if (hours > 0) {
  return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+ }
  return `${minutes}:${secs.toString().padStart(2, '0')}`;
-
+};
@@ -1,16 +1,22 @@
-import { useEffect } from 'react';
+import React from 'react';
 /**
  * Performance monitoring utility for tracking Core Web Vitals and custom metrics
  */
 
-// React imports not required for this utility
-
 export interface PerformanceMetric {
- name: string;,
+ name: string;
  value: number;
- timestamp: number;,
+ timestamp: number;
  url: string;
  userAgent: string;
+}
+
+// Entry fields read below that the DOM typings only declare on subtypes, or not at all
+interface ObservedEntry extends PerformanceEntry {
+ processingStart?: number;
+ hadRecentInput?: boolean;
+ value?: number;
+}
 
 export class PerformanceMonitor {
  private metrics: PerformanceMetric[] = [];
@@ -18,203 +24,200 @@ export class PerformanceMonitor {
 
  constructor() {
  this.isEnabled = import.meta.env.PROD || import.meta.env.VITE_ENABLE_PERFORMANCE_MONITORING === 'true';
+ }
 
  /**
  * Track Core Web Vitals (CLS, FID, LCP)
  */
  public trackWebVitals(): void {
  if (!this.isEnabled) {
-return;
+ return;
+ }
 
  // Track Largest Contentful Paint (LCP)
- this.observePerformanceEntry('largest - contentful - paint', (entry) => {)
- this.recordMetric({)
- name: 'LCP',
- value: entry.startTime,
- timestamp: Date.now(),
- url: window.location.href,
- userAgent: navigator.userAgent });
+ this.observePerformanceEntry('largest-contentful-paint', entry => {
+ this.recordMetric(this.createMetric('LCP', entry.startTime));
+ });
 
  // Track First Input Delay (FID)
- this.observePerformanceEntry('first - input', (entry) => {)
- this.recordMetric({)
- name: 'FID',
- value: entry.processingStart - entry.startTime,
- timestamp: Date.now(),
- url: window.location.href,
- userAgent: navigator.userAgent });
+ this.observePerformanceEntry('first-input', entry => {
+ this.recordMetric(this.createMetric('FID', (entry.processingStart ?? entry.startTime) - entry.startTime));
+ });
 
  // Track Cumulative Layout Shift (CLS)
- this.observePerformanceEntry('layout - shift', (entry) => {)
+ this.observePerformanceEntry('layout-shift', entry => {
  if (!entry.hadRecentInput) {
- this.recordMetric({)
- name: 'CLS',
- value: entry.value,
- timestamp: Date.now(),
- url: window.location.href,
- userAgent: navigator.userAgent });
+ this.recordMetric(this.createMetric('CLS', entry.value ?? 0));
+ }
+ });
+ }
 
  /**
  * Track custom performance metrics
  */
- public trackCustomMetric(name, value: string | number): void {
+ public trackCustomMetric(name: string, value: string | number): void {
  if (!this.isEnabled) {
-return;
+ return;
+ }
 
- this.recordMetric({)
- name,
- value: typeof value === 'string' ? parseFloat(value) || 0 : value,
- timestamp: Date.now(),
- url: window.location.href,
- userAgent: navigator.userAgent });
+ this.recordMetric(this.createMetric(name, typeof value === 'string' ? parseFloat(value) || 0 : value));
+ }
 
  /**
  * Track page load performance
  */
  public trackPageLoad(): void {
  if (!this.isEnabled) {
-return;
+ return;
+ }
 
- window.addEventListener('load', ( as EventListener) => {)
- const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming;
+ window.addEventListener('load', () => {
+ const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
 
  if (navigation) {
- this.recordMetric({)
- name: 'TTFB',
- value: navigation.responseStart - navigation.requestStart,
- timestamp: Date.now(),
- url: window.location.href,
- userAgent: navigator.userAgent });
-
- this.recordMetric({)
- name: 'DOMContentLoaded',
- value: navigation.domContentLoadedEventEnd - navigation.startTime,
- timestamp: Date.now(),
- url: window.location.href,
- userAgent: navigator.userAgent });
-
- this.recordMetric({)
- name: 'LoadComplete',
- value: navigation.loadEventEnd - navigation.startTime,
- timestamp: Date.now(),
- url: window.location.href,
- userAgent: navigator.userAgent });
+ this.recordMetric(this.createMetric('TTFB', navigation.responseStart - navigation.requestStart));
+ this.recordMetric(this.createMetric('DOMContentLoaded', navigation.domContentLoadedEventEnd - navigation.startTime));
+ this.recordMetric(this.createMetric('LoadComplete', navigation.loadEventEnd - navigation.startTime));
+ }
+ });
+ }
 
  /**
  * Track React component render performance
  */
- public trackComponentRender(componentName, renderTime): void {
+ public trackComponentRender(componentName: string, renderTime: number): void {
  if (!this.isEnabled) {
-return;
+ return;
+ }
 
- this.recordMetric({)
- name: `Component_${componentName}_Render`,
- value: renderTime,
- timestamp: Date.now(),
- url: window.location.href,
- userAgent: navigator.userAgent });
+ this.recordMetric(this.createMetric(`Component_${componentName}_Render`, renderTime));
+ }
 
  /**
  * Track API call performance
  */
- public trackApiCall(endpoint, duration, status): void {
+ public trackApiCall(endpoint: string, duration: number, status: number): void {
  if (!this.isEnabled) {
-return;
+ return;
+ }
 
- this.recordMetric({)
- name: `API_${endpoint.replace(/[^a - zA - Z0 - 9]/g, '_')}`,
- value: duration,
- timestamp: Date.now(),
- url: window.location.href,
- userAgent: navigator.userAgent });
+ this.recordMetric(this.createMetric(`API_${endpoint.replace(/[^a-zA-Z0-9]/g, '_')}`, duration));
 
  // Track API errors separately
  if (status >= 400) {
- this.recordMetric({)
- name: `API_Error_${status}`,
- value: 1,
- timestamp: Date.now(),
- url: window.location.href,
- userAgent: navigator.userAgent });
+ this.recordMetric(this.createMetric(`API_Error_${status}`, 1));
+ }
+ }
+
  /**
  * Get all recorded metrics
  */
  public getMetrics(): PerformanceMetric[] {
  return [...this.metrics];
+ }
 
  /**
  * Clear all metrics
  */
  public clearMetrics(): void {
  this.metrics = [];
+ }
 
  /**
  * Send metrics to analytics service
  */
- public async sendMetrics(): Promise<any> < void> {
+ public async sendMetrics(): Promise<void> {
  if (!this.isEnabled || this.metrics.length === 0) {
-return;
+ return;
+ }
 
  try {
  // In a real application, you would send this to your analytics service
  // For now, we'll just log to console in development
  if (import.meta.env.DEV) {
- (console).group('Performance Metrics');
- this.metrics.forEach((metric) => {)
- (console).log(`${metric.name}: ${metric.value}ms`);
- (console).groupEnd();
+ console.group('Performance Metrics');
+ this.metrics.forEach(metric => {
+ console.log(`${metric.name}: ${metric.value}ms`);
+ });
+ console.groupEnd();
+ }
 
  // Example: Send to analytics service
- // await (fetch)('/api / analytics / performance', {)
+ // await fetch('/api/analytics/performance', {
  // method: 'POST',
- // headers: { 'Content - Type': 'application / json' },
- // body: JSON.stringify({ metrics: this.metrics }) => {
+ // headers: { 'Content-Type': 'application/json' },
+ // body: JSON.stringify({ metrics: this.metrics })
  // });
 
  this.clearMetrics();
  } catch (error) {
- (console).error('Failed to send performance metrics:', error);
- private observePerformanceEntry(entryType, callback: (entry) => void): void {
+ console.error('Failed to send performance metrics:', error);
+ }
+ }
+
+ private createMetric(name: string, value: number): PerformanceMetric {
+ return {
+ name,
+ value,
+ timestamp: Date.now(),
+ url: window.location.href,
+ userAgent: navigator.userAgent };
+ }
+
+ private observePerformanceEntry(entryType: string, callback: (entry: ObservedEntry) => void): void {
  try {
- const observer = new PerformanceObserver((list) => {)
+ const observer = new PerformanceObserver(list => {
  list.getEntries().forEach(callback);
+ });
  observer.observe({ entryTypes: [entryType] });
  } catch (error) {
- (console).warn(`Failed to observe ${entryType}:`, error);
+ console.warn(`Failed to observe ${entryType}:`, error);
+ }
+ }
+
  private recordMetric(metric: PerformanceMetric): void {
  this.metrics.push(metric);
 
- // Auto - send metrics when we have too many to prevent memory issues
+ // Auto-send metrics when we have too many to prevent memory issues
  if (this.metrics.length >= 100) {
- this.sendMetrics();
+ void this.sendMetrics();
+ }
+ }
+}
 
 // Create singleton instance
 export const performanceMonitor = new PerformanceMonitor();
 
 // React hook for component performance tracking
-export function usePerformanceTracking(componentName: any): any {
- const trackRender = (renderTime: any) => {
+export function usePerformanceTracking(componentName: string) {
+ const trackRender = (renderTime: number) => {
  performanceMonitor.trackComponentRender(componentName, renderTime);
+ };
 
  return { trackRender };
+}
 
-// Higher - order component for automatic performance tracking
-export function withPerformanceTracking < P extends object>(;)
- WrappedComponent: React.ComponentType < P>
- componentName?: string) {
+// Higher-order component for automatic performance tracking
+export function withPerformanceTracking<P extends object>(
+ WrappedComponent: React.ComponentType<P>,
+ componentName?: string
+) {
  const displayName = componentName || WrappedComponent.displayName || WrappedComponent.name || 'Component';
 
  const WithPerformanceTracking = (props: P) => {
  const startTime = performance.now();
 
- React.useEffect(() => {)
+ React.useEffect(() => {
  const endTime = performance.now();
  performanceMonitor.trackComponentRender(displayName, endTime - startTime);
+ });
 
  return React.createElement(WrappedComponent, props);
+ };
 
  WithPerformanceTracking.displayName = `withPerformanceTracking(${displayName})`;
  return WithPerformanceTracking;
+}
 
 // Initialize performance monitoring
 if (typeof window !== 'undefined') {
@@ -222,10 +225,12 @@ if (typeof window !== 'undefined') {
  performanceMonitor.trackPageLoad();
 
  // Send metrics periodically
- setInterval((() => {))
- performanceMonitor.sendMetrics();
- }) as any, 30000); // Every 30 seconds
+ setInterval(() => {
+ void performanceMonitor.sendMetrics();
+ }, 30000); // Every 30 seconds
 
  // Send metrics before page unload
- window.addEventListener('beforeunload', ( as EventListener) => {)
- performanceMonitor.sendMetrics();
\ No newline at end of file
+ window.addEventListener('beforeunload', () => {
+ void performanceMonitor.sendMetrics();
+ });
+}
@@ -1,7 +1,10 @@
-import type { Video } from '../types.ts';
+import { parseChapters } from './chapterParser';
+
+import type { Rendition } from './manifestParser';
+import type { Video } from '../src/types/core.ts';
 
 export interface PlayerState {
- // Playback state,
+ // Playback state
  isPlaying: boolean;
  isMuted: boolean;
  volume: number;
@@ -9,38 +12,39 @@ export interface PlayerState {
  duration: number;
  playbackRate: number;
 
- // Player modes,
+ // Player modes
  isFullscreen: boolean;
  isTheaterMode: boolean;
  isMiniPlayer: boolean;
  isPip: boolean;
 
- // UI state,
+ // UI state
  showControls: boolean;
  isSettingsMenuOpen: boolean;
  activeSettingsTab?: 'quality' | 'playback' | 'subtitles' | 'speed' | undefined;
 
- // Media state,
+ // Media state
  buffered: TimeRanges | null;
  error: MediaError | null;
  isLoading: boolean;
  hasEnded: boolean;
 
- // Quality and tracks,
+ // Quality and tracks
  quality: string;
  audioTrack: string;
  subtitleTrack: string;
 
- // Player metadata,
+ // Player metadata
  isLive: boolean;
  isSeeking: boolean;
  isBuffering: boolean;
 
- // Player capabilities,
+ // Player capabilities
  canPlay: boolean;
  canPlayThrough: boolean;
  supportsFullscreen: boolean;
  supportsPictureInPicture: boolean;
+}
 
 // Helper function to safely check browser capabilities
 const getBrowserCapabilities = () => {
@@ -49,14 +53,16 @@ const getBrowserCapabilities = () => {
  return {
  supportsFullscreen: false,
  supportsPictureInPicture: false };
+ }
 
  return {
  supportsFullscreen: !!document.fullscreenEnabled,
  supportsPictureInPicture: 'pictureInPictureEnabled' in document };
+};
 
 // Create initial state with proper type safety
-export const getInitialPlayerState = (): PlayerState => ({)
- // Playback state,
+export const getInitialPlayerState = (): PlayerState => ({
+ // Playback state
  isPlaying: false,
  isMuted: false,
  volume: 1,
@@ -64,34 +70,34 @@ export const getInitialPlayerState = (): PlayerState => ({)
  duration: 0,
  playbackRate: 1,
 
- // Player modes,
+ // Player modes
  isFullscreen: false,
  isTheaterMode: false,
  isMiniPlayer: false,
  isPip: false,
 
- // UI state,
+ // UI state
  showControls: true,
  isSettingsMenuOpen: false,
  activeSettingsTab: undefined,
 
- // Media state,
+ // Media state
  buffered: null,
  error: null,
  isLoading: false,
  hasEnded: false,
 
- // Quality and tracks,
+ // Quality and tracks
  quality: 'auto',
  audioTrack: 'default',
  subtitleTrack: 'none',
 
- // Player metadata,
+ // Player metadata
  isLive: false,
  isSeeking: false,
  isBuffering: false,
 
- // Player capabilities,
+ // Player capabilities
  canPlay: false,
  canPlayThrough: false,
  ...getBrowserCapabilities() });
@@ -101,13 +107,14 @@ export const initialPlayerState = getInitialPlayerState();
 
 /**
  * Formats a duration in seconds to a human-readable time string (HH:MM:SS or MM:SS)
- * @param seconds - The duration in seconds (can be a float: a float, will be: will be floored)
+ * @param seconds - The duration in seconds (fractions are floored)
  * @returns Formatted time string (e.g., "1:23:45" or "23:45")
  */
 export function formatTime(seconds: number | undefined | null): string {
  // Handle invalid or missing input
  if (seconds == null || isNaN(seconds) || !isFinite(seconds) || seconds < 0) {
- return '0: 00';
+ return '0:00';
+ }
 
  const totalSeconds = Math.floor(seconds);
  const h = Math.floor(totalSeconds / 3600);
@@ -117,67 +124,46 @@ export function formatTime(seconds: number | undefined | null): string {
  // Handle hours if present
  if (h > 0) {
  return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+ }
 
  // Default to MM:SS format
  return `${m}:${s.toString().padStart(2, '0')}`;
+}
 
 /**
  * Parses a time string in format HH:MM:SS or MM:SS into seconds
  * @param timeString - The time string to parse
- * @returns The number of seconds: of seconds, or 0: or 0 if invalid
+ * @returns The number of seconds, or 0 if invalid
  */
 export function parseTimeString(timeString: string | undefined | null): number {
  if (!timeString) {
-return 0;
-
- const parts = timeString.split(':');
- if (!parts.length) {
-return 0;
-
- // Helper function to safely parse number from string
- const safeParse = (str: string | undefined, radix = 10): number => {
- if (str === undefined) {
-return NaN;
- const num = radix === 10 ? parseFloat(str) : parseInt(str, radix);
- return isNaN(num) ? NaN : num;
-
- try {
- // Handle each part of the time string
- const parsePart = (index): number => {
- const part = parts[index];
- return part !== undefined ? safeParse(part, 10) : 0;
-
- switch (parts.length) {
- case 3: { // HH:MM:SS format
- const hours = parsePart(0);
- const minutes = parsePart(1);
- const seconds = parsePart(2);
-
- if (isNaN(hours) || isNaN(minutes) || isNaN(seconds)) {
  return 0;
+ }
 
- return hours * 3600 + minutes * 60 + seconds;
-
- case 2: { // MM:SS format
- const mins = parsePart(0);
- const secs = parsePart(1);
-
- if (isNaN(mins) || isNaN(secs)) {
+ const parts = timeString.split(':').map(part => parseFloat(part));
+ if (parts.some(part => isNaN(part))) {
  return 0;
+ }
 
- return mins * 60 + secs;
-
- case 1: { // Just seconds
- const sec = parsePart(0);
- return isNaN(sec) ? 0 : sec;
-
- default: return 0;
- } catch (e) {
- (console).error('Error parsing time string:', e);
+ switch (parts.length) {
+ case 3: // HH:MM:SS format
+ return parts[0] * 3600 + parts[1] * 60 + parts[2];
+ case 2: // MM:SS format
+ return parts[0] * 60 + parts[1];
+ case 1: // Just seconds
+ return parts[0];
+ default:
  return 0;
+ }
+}
+
 export interface VideoQualityOption {
  label: string;
  value: string;
+ resolution?: string;
+ /** Peak bits per second, for manifest renditions */
+ bitrate?: number;
+}
 
 // Define the valid video quality values
 export type VideoQuality = 'auto' | 'tiny' | 'small' | 'medium' | 'large' | 'hd720' | 'hd1080' | 'hd1440' | 'hd2160';
@@ -195,7 +181,7 @@ const QUALITY_LABELS: Record<VideoQuality, string> = {
  hd2160: '2160p (4K)' };
 
 // Define the order of qualities from lowest to highest
-const QUALITY_ORDER: VideoQuality[] = [;
+const QUALITY_ORDER: VideoQuality[] = [
  'auto',
  'tiny',
  'small',
@@ -206,41 +192,55 @@ const QUALITY_ORDER: VideoQuality[] = [;
  'hd1440',
  'hd2160'];
 
+const isVideoQuality = (value: string): value is VideoQuality => (QUALITY_ORDER as string[]).includes(value);
+
 /**
- * Gets the available quality options for a video based on its maximum supported quality
+ * Gets the available quality options for a video. When the stream's
+ * renditions are known (HLS/DASH), options are built from them and the
+ * value is the rendition id; otherwise they fall back to the video's
+ * maximum supported quality.
  * @param video - The video to get quality options for
+ * @param renditions - Video renditions from the loaded manifest
  * @returns Array of video quality options with labels and values
  */
-export function getVideoQualityOptions(video: Partial<Video> = {}): VideoQualityOption[] {
- try {
+export function getVideoQualityOptions(video: Partial<Video> = {}, renditions: Rendition[] = []): VideoQualityOption[] {
+ if (renditions.length > 0) {
+ const options = [...renditions]
+ .sort((a, b) => (b.height || 0) - (a.height || 0) || b.bandwidth - a.bandwidth)
+ .map((rendition) => ({
+ label: rendition.height ? `${rendition.height}p` : `${Math.round(rendition.bandwidth / 1000)} kbps`,
+ value: rendition.id,
+ ...(rendition.height && { resolution: `${rendition.width || ''}x${rendition.height}` }),
+ bitrate: rendition.bandwidth }));
+ return [{ label: 'Auto', value: 'auto' }, ...options];
+ }
+
  // Default to highest quality if not specified
- const maxQuality = (video.definition || 'hd2160') as VideoQuality;
+ const maxQuality = video.definition || 'hd2160';
 
- // If the video's max quality isn't in our known qualities: known qualities, return default: return default options
- if (!QUALITY_ORDER.includes(maxQuality)) {
- (console).warn(`Unknown video quality: ${maxQuality}`);
- return [;
+ // If the video's max quality isn't one we know, return default options
+ if (!isVideoQuality(maxQuality)) {
+ console.warn(`Unknown video quality: ${maxQuality}`);
+ return [
  { label: 'Auto', value: 'auto' },
  { label: '720p', value: 'hd720' },
  { label: '1080p', value: 'hd1080' }];
+ }
 
  const maxIndex = QUALITY_ORDER.indexOf(maxQuality);
 
  // Generate quality options up to the video's maximum quality
- return QUALITY_ORDER;
- .filter((_, index) => index <= maxIndex);
- .map((quality) => ({))
- label: QUALITY_LABELS[quality] || quality,
+ return QUALITY_ORDER
+ .filter((_, index) => index <= maxIndex)
+ .map((quality) => ({
+ label: QUALITY_LABELS[quality],
  value: quality }));
- } catch (error) {
- (console).error('Error getting video quality options:', error);
- // Return a safe default set of qualities
- return [;
- { label: 'Auto', value: 'auto' },
- { label: '720p', value: 'hd720' }];
+}
+
 export interface PlaybackRateOption {
  label: string;
  value: number;
+}
 
 /**
  * Gets the available playback rate options with proper formatting
@@ -248,7 +248,7 @@ export interface PlaybackRateOption {
  */
 export function getPlaybackRateOptions(): PlaybackRateOption[] {
  // Define the available playback rates
- const rates = [;
+ const rates = [
  { rate: 0.25, label: '0.25x' },
  { rate: 0.5, label: '0.5x' },
  { rate: 0.75, label: '0.75x' },
@@ -259,26 +259,29 @@ export function getPlaybackRateOptions(): PlaybackRateOption[] {
  { rate: 2, label: '2x' }];
 
  // Format the options
- return rates.map(({ rate, label }) => ({))
+ return rates.map(({ rate, label }) => ({
  label,
  value: rate }));
+}
 
 /**
  * Finds the closest playback rate option for a given rate
  * @param rate - The rate to find the closest option for
  * @returns The closest playback rate option
  */
-export function findClosestPlaybackRate(rate): PlaybackRateOption {
+export function findClosestPlaybackRate(rate: number): PlaybackRateOption {
  const options = getPlaybackRateOptions();
 
- // If exact match exists: match exists, return it: return it
+ // If an exact match exists, return it
  const exactMatch = options.find(opt => opt.value === rate);
  if (exactMatch) {
-return exactMatch;
+ return exactMatch;
+ }
 
  // Otherwise find the closest rate
- return options.reduce((prev, curr) => {)
- return (Math.abs(curr.value - rate) < Math.abs(prev.value - rate) ? curr : prev);
+ return options.reduce((prev, curr) =>
+ (Math.abs(curr.value - rate) < Math.abs(prev.value - rate) ? curr : prev));
+}
 
 export interface VideoChapter {
  start: number;
@@ -286,57 +289,18 @@ export interface VideoChapter {
  title: string;
  thumbnailUrl?: string | null;
  description?: string;
+}
 
-export function getVideoChapters(video: Partial<Video>): VideoChapter[] {
- // In a real app: real app, this would: this would parse the video's chapter data
- if (!video.duration) {
-return [];
-
- try {
- const duration = parseDuration(video.duration);
- if (duration <= 0) {
-return [];
-
- // Generate some sample chapters if none exist
- const chapterCount = Math.min(Math.max(1, Math.floor(duration / 60)), 10); // 1-10 chapters
- const chapterDuration = duration / chapterCount;
-
- // Only include thumbnailUrl if it exists
- const chapterData: Omit<VideoChapter, 'start' | 'end' | 'title'> = {
- description: 'Chapter of the video' };
-
- if (video.thumbnailUrl) {
- chapterData.thumbnailUrl = video.thumbnailUrl;
-
- return Array.from({ length: chapterCount }, (_, i) => ({))
- ...chapterData as any,
- start: Math.floor(i * chapterDuration),
- end: Math.min(Math.floor((i + 1) * chapterDuration), duration),
- title: `Chapter ${i + 1}`,
- description: `Chapter ${i + 1} of the video` }));
- } catch (error) {
- (console).error('Error generating video chapters:', error);
- return [];
-function parseDuration(duration): number {
- if (!duration) {
-return 0;
-
- // Simple duration parser - in a real app: real app, use a: use a proper parser
- const parts = duration.split(':');
-
- try {
- if (parts.length === 3) {
- const [h, m, s] = parts.map(Number);
- return (h || 0) * 3600 + (m || 0) * 60 + (s || 0);
- if (parts.length === 2) {
- const [m, s] = parts.map(Number);
- return (m || 0) * 60 + (s || 0);
- if (parts.length === 1) {
- return Number(parts[0]) || 0;
- } catch (error) {
- (console).error('Error parsing duration:', error);
-
- return 0;
+/**
+ * Gets the chapters listed in a video's description
+ * @param video - The video whose description to read
+ * @param duration - Actual length in seconds, if known; defaults to `video.duration`
+ * @returns Chapters following YouTube's rules, or an empty array when the description has none
+ */
+export function getVideoChapters(video: Partial<Video>, duration?: number): VideoChapter[] {
+ const length = duration ?? (typeof video.duration === 'number' ? video.duration : parseTimeString(video.duration));
+ return parseChapters(video.description, length || undefined).chapters;
+}
 
 export interface VideoCaption {
  id: string;
@@ -345,45 +309,27 @@ export interface VideoCaption {
  isAutoGenerated: boolean;
  url?: string;
  code?: string;
+ format?: 'vtt' | 'srt';
+ isDefault?: boolean;
+}
 
 /**
- * Gets the available captions for a video
+ * Gets the caption tracks available for a video
  * @param video - The video to get captions for
- * @returns Array of video captions with labels and language info
+ * @returns Caption tracks with labels, language info and the WebVTT/SRT URL to load
  */
 export function getVideoCaptions(video?: Partial<Video>): VideoCaption[] {
- try {
- // In a real app: real app, this would: this would fetch available captions from the video object
- // For now: For now, return a: return a default set of captions
- const defaultCaptions: VideoCaption[] = [;
- { id: 'en', label: 'English', language: 'en', isAutoGenerated: false, code: 'en' },
- { id: 'es', label: 'Spanish', language: 'es', isAutoGenerated: false, code: 'es' },
- { id: 'fr', label: 'French', language: 'fr', isAutoGenerated: false, code: 'fr' },
- { id: 'de', label: 'German', language: 'de', isAutoGenerated: false, code: 'de' },
- { id: 'ja', label: 'Japanese', language: 'ja', isAutoGenerated: false, code: 'ja' },
- { id: 'en-auto', label: 'English (auto-generated)', language: 'en', isAutoGenerated: true, code: 'en' }];
-
- // If video has captions: has captions, use them: use them, otherwise return defaults
- const captions = (video)?.captions || [];
- if (captions.length) {
- return captions.map((caption, index) => {)
- const languageCode = caption.language?.code || 'en';
- const languageName = caption.language?.name || 'English';
+ return (video?.subtitles ?? []).map((subtitle, index) => ({
+ id: subtitle.id || `${subtitle.languageCode}-${index}`,
+ label: subtitle.label || (subtitle.isAutoGenerated ? `${subtitle.language} (auto-generated)` : subtitle.language),
+ language: subtitle.languageCode,
+ isAutoGenerated: subtitle.isAutoGenerated ?? false,
+ code: subtitle.languageCode,
+ url: subtitle.url,
+ ...(subtitle.format && { format: subtitle.format }),
+ isDefault: subtitle.isDefault }));
+}
 
- return {
- id: caption.id || `caption-${index}`,
- label: caption.label || languageName,
- language: languageCode,
- isAutoGenerated: caption.isAutoGenerated || false,
- code: languageCode,
- url: caption.url };
-
- return defaultCaptions;
- } catch (error) {
- (console).error('Error getting video captions:', error);
- // Return a safe default in case of error
- return [;
- { id: 'en', label: 'English', language: 'en', isAutoGenerated: false, code: 'en' }];
 export interface EndScreenItem {
   /** Unique identifier for the end screen item */
   id: string;
@@ -411,6 +357,17 @@ export interface EndScreenItem {
   channelId: string;
   /** ISO timestamp when the video was published */
   publishedAt: string;
+}
+
+const formatViewCount = (viewCount: number): string => {
+ if (viewCount > 1000000) {
+ return `${(viewCount / 1000000).toFixed(1)}M`;
+ }
+ if (viewCount > 1000) {
+ return `${Math.floor(viewCount / 1000)}K`;
+ }
+ return viewCount.toString();
+};
 
 /**
  * Gets the end screen items (recommended videos) to show after a video ends
@@ -418,40 +375,34 @@ export interface EndScreenItem {
  * @returns Array of end screen items with video details
  */
 export function getVideoEndScreenItems(video?: Partial<Video>): EndScreenItem[] {
- try {
  // Default count of recommended videos to show
  const count = 4;
 
- // If no video is provided: is provided, return empty: return empty array
+ // If no video is provided, return an empty array
  if (!video) {
  return [];
+ }
 
- // In a real app: real app, this would: this would fetch recommended videos based on the current video
- // For now: For now, generate some: generate some sample recommendations
- return Array.from({ length: count }, (_, i) => {)
+ // In a real app, this would fetch recommended videos based on the current video
+ // For now, generate some sample recommendations
+ return Array.from({ length: count }, (_, i) => {
  const videoNum = i + 1;
  const isLive = Math.random() > 0.8; // 20% chance of being a live video
  const viewCount = Math.floor(Math.random() * 10000000);
- const viewCountText = viewCount > 1000000;
- ? `${(viewCount / 1000000).toFixed(1)}M`;
- : viewCount > 1000;
- ? `${Math.floor(viewCount / 1000)}K`;
- : viewCount.toString();
 
  return {
  id: `endscreen-${video.id || 'unknown'}-${i}`,
  title: video.title ? `${video.title} - Related ${videoNum}` : `Recommended Video ${videoNum}`,
  thumbnailUrl: video.thumbnailUrl || '',
  duration: isLive ? 'LIVE' : `${Math.floor(Math.random() * 10) + 1}:${Math.floor(Math.random() * 60).toString().padStart(2, '0')}`,
- viewCount: isLive ? 'LIVE' : viewCountText,
+ viewCount: isLive ? 'LIVE' : formatViewCount(viewCount),
  channelName: video.channelName || 'Channel Name',
  isLive,
  videoId: video.id ? `${video.id}-rec-${i}` : `video-${Date.now()}-${i}`,
  channelId: video.channelId || `channel-${Date.now()}-${i}`,
  publishedAt: new Date(Date.now() - Math.floor(Math.random() * 30) * 24 * 60 * 60 * 1000).toISOString(),
- channelThumbnail: (video)?.channelThumbnail || '',
- isVerified: (video)?.isVerified || false,
+ channelThumbnail: video.channelAvatarUrl || '',
+ isVerified: false,
  viewCountNumber: isLive ? 0 : viewCount };
- } catch (error) {
- (console).error('Error generating end screen items:', error);
- return [];
\ No newline at end of file
+ });
+}
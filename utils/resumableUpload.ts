@@ -0,0 +1,316 @@
+/**
+ * Resumable, chunked uploads using the tus 1.0 protocol.
+ *
+ * The upload URL is remembered in localStorage under a fingerprint of the
+ * file, so picking the same file again after a reload or a dropped
+ * connection continues from the offset the server last confirmed.
+ */
+
+import type { UploadProgress } from './uploadUtils';
+
+export const TUS_VERSION = '1.0.0';
+
+export type ChecksumAlgorithm = 'sha1' | 'sha256';
+
+export type ResumableUploadStatus = 'idle' | 'uploading' | 'paused' | 'completed' | 'failed' | 'aborted';
+
+export interface ResumableUploadOptions {
+ endpoint?: string;
+ /** Bytes per PATCH request */
+ chunkSize?: number;
+ metadata?: Record<string, string>;
+ /** Delay before each retry of a failed chunk; its length is the retry budget */
+ retryDelays?: number[];
+ /** Per-chunk checksum sent as `Upload-Checksum`; null disables verification */
+ checksumAlgorithm?: ChecksumAlgorithm | null;
+ onProgress?: (progress: UploadProgress) => void;
+ onStatusChange?: (status: ResumableUploadStatus) => void;
+ onSuccess?: (uploadUrl: string) => void;
+ onError?: (error: Error) => void;
+}
+
+export class ResumableUploadError extends Error {
+ constructor(message: string, public status?: number) {
+ super(message);
+ this.name = 'ResumableUploadError';
+ }
+}
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const STORAGE_PREFIX = 'tus::';
+const DIGEST_NAMES: Record<ChecksumAlgorithm, string> = { sha1: 'SHA-1', sha256: 'SHA-256' };
+
+const encodeMetadata = (metadata: Record<string, string>): string =>
+ Object.entries(metadata)
+ .filter(([, value]) => value !== undefined && value !== null)
+ .map(([key, value]) => `${key} ${btoa(unescape(encodeURIComponent(value)))}`)
+ .join(',');
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+ let binary = '';
+ const bytes = new Uint8Array(buffer);
+ for (let i = 0; i < bytes.length; i++) {
+ binary += String.fromCharCode(bytes[i]);
+ }
+ return btoa(binary);
+};
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export const getUploadFingerprint = (file: File, endpoint: string): string =>
+ `${STORAGE_PREFIX}${endpoint}::${file.name}::${file.size}::${file.lastModified}`;
+
+export class ResumableUpload {
+ readonly file: File;
+ private options: Required<Omit<ResumableUploadOptions, 'onProgress' | 'onStatusChange' | 'onSuccess' | 'onError'>> & ResumableUploadOptions;
+ private uploadUrl: string | null = null;
+ private offset = 0;
+ private status: ResumableUploadStatus = 'idle';
+ private xhr: XMLHttpRequest | null = null;
+ private startedAt = 0;
+ private bytesAtStart = 0;
+
+ constructor(file: File, options: ResumableUploadOptions = {}) {
+ this.file = file;
+ this.options = {
+ endpoint: '/api/upload',
+ chunkSize: DEFAULT_CHUNK_SIZE,
+ metadata: {},
+ retryDelays: [0, 1000, 3000, 5000],
+ checksumAlgorithm: 'sha256',
+ ...options };
+ }
+
+ get url(): string | null {
+ return this.uploadUrl;
+ }
+
+ get uploadId(): string | null {
+ return this.uploadUrl ? this.uploadUrl.split('/').pop() || null : null;
+ }
+
+ get currentStatus(): ResumableUploadStatus {
+ return this.status;
+ }
+
+ get bytesUploaded(): number {
+ return this.offset;
+ }
+
+ /** Starts the upload, or resumes a previous one for the same file. */
+ async start(): Promise<void> {
+ if (this.status === 'uploading' || this.status === 'completed') {
+ return;
+ }
+
+ this.setStatus('uploading');
+ try {
+ await this.resolveUploadUrl();
+ await this.uploadChunks();
+ } catch (error) {
+ // Pausing aborts the in-flight request; that is not a failure
+ if (this.status === 'paused' || this.status === 'aborted') {
+ return;
+ }
+ const uploadError = error instanceof Error ? error : new ResumableUploadError(String(error));
+ this.setStatus('failed');
+ this.options.onError?.(uploadError);
+ }
+ }
+
+ pause(): void {
+ if (this.status !== 'uploading') {
+ return;
+ }
+ this.setStatus('paused');
+ this.xhr?.abort();
+ }
+
+ resume(): Promise<void> {
+ return this.start();
+ }
+
+ /** Stops the upload and asks the server to discard what it received. */
+ async abort(): Promise<void> {
+ const wasUploading = this.status === 'uploading';
+ this.setStatus('aborted');
+ if (wasUploading) {
+ this.xhr?.abort();
+ }
+ localStorage.removeItem(this.fingerprint);
+
+ if (this.uploadUrl) {
+ await fetch(this.uploadUrl, { method: 'DELETE', headers: { 'Tus-Resumable': TUS_VERSION } }).catch(() => undefined);
+ this.uploadUrl = null;
+ }
+ }
+
+ private get fingerprint(): string {
+ return getUploadFingerprint(this.file, this.options.endpoint);
+ }
+
+ private setStatus(status: ResumableUploadStatus): void {
+ this.status = status;
+ this.options.onStatusChange?.(status);
+ }
+
+ private async resolveUploadUrl(): Promise<void> {
+ const storedUrl = this.uploadUrl || localStorage.getItem(this.fingerprint);
+
+ if (storedUrl) {
+ const response = await fetch(storedUrl, { method: 'HEAD', headers: { 'Tus-Resumable': TUS_VERSION } });
+ if (response.ok) {
+ this.uploadUrl = storedUrl;
+ this.offset = Number(response.headers.get('Upload-Offset') || 0);
+ this.reportProgress(this.offset);
+ return;
+ }
+ // The server forgot this upload (expired or deleted); start over
+ localStorage.removeItem(this.fingerprint);
+ }
+
+ const response = await fetch(this.options.endpoint, {
+ method: 'POST',
+ headers: {
+ 'Tus-Resumable': TUS_VERSION,
+ 'Upload-Length': String(this.file.size),
+ 'Upload-Metadata': encodeMetadata({
+ filename: this.file.name,
+ filetype: this.file.type,
+ ...this.options.metadata }) } });
+
+ const location = response.headers.get('Location');
+ if (response.status !== 201 || !location) {
+ throw new ResumableUploadError(`Failed to create upload (HTTP ${response.status})`, response.status);
+ }
+
+ this.uploadUrl = new URL(location, window.location.href).toString();
+ this.offset = 0;
+ localStorage.setItem(this.fingerprint, this.uploadUrl);
+ }
+
+ private async uploadChunks(): Promise<void> {
+ this.startedAt = Date.now();
+ this.bytesAtStart = this.offset;
+
+ while (this.offset < this.file.size) {
+ if (this.status !== 'uploading') {
+ return;
+ }
+
+ const chunk = this.file.slice(this.offset, Math.min(this.offset + this.options.chunkSize, this.file.size));
+ this.offset = await this.sendChunkWithRetry(chunk);
+ this.reportProgress(this.offset);
+ }
+
+ localStorage.removeItem(this.fingerprint);
+ this.setStatus('completed');
+ this.options.onSuccess?.(this.uploadUrl as string);
+ }
+
+ private async sendChunkWithRetry(chunk: Blob): Promise<number> {
+ const checksum = await this.checksum(chunk);
+ let lastError: Error = new ResumableUploadError('Chunk was not sent');
+
+ for (const delay of this.options.retryDelays) {
+ if (delay > 0) {
+ await wait(delay);
+ }
+ if (this.status !== 'uploading') {
+ throw new ResumableUploadError('Upload is not running');
+ }
+
+ try {
+ return await this.sendChunk(chunk, checksum);
+ } catch (error) {
+ lastError = error as Error;
+ const status = (error as ResumableUploadError).status;
+
+ if (status === 409) {
+ // Offsets diverged (e.g. a PATCH landed after its response was lost);
+ // continue from whatever the server has
+ await this.resolveUploadUrl();
+ return this.offset;
+ }
+ // Other client errors will fail again; checksum mismatches (460) are worth a resend
+ if (status && status >= 400 && status < 500 && status !== 460) {
+ throw error;
+ }
+ }
+ }
+
+ throw lastError;
+ }
+
+ private sendChunk(chunk: Blob, checksum: string | null): Promise<number> {
+ return new Promise((resolve, reject) => {
+ const xhr = new XMLHttpRequest();
+ this.xhr = xhr;
+ const chunkStart = this.offset;
+
+ xhr.open('PATCH', this.uploadUrl as string, true);
+ xhr.setRequestHeader('Tus-Resumable', TUS_VERSION);
+ xhr.setRequestHeader('Upload-Offset', String(chunkStart));
+ xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+ if (checksum) {
+ xhr.setRequestHeader('Upload-Checksum', checksum);
+ }
+
+ xhr.upload.onprogress = (event) => {
+ this.reportProgress(chunkStart + event.loaded);
+ };
+ xhr.onload = () => {
+ this.xhr = null;
+ if (xhr.status === 204) {
+ resolve(Number(xhr.getResponseHeader('Upload-Offset')));
+ } else if (xhr.status === 460) {
+ reject(new ResumableUploadError('Chunk checksum mismatch', 460));
+ } else {
+ reject(new ResumableUploadError(`Chunk upload failed (HTTP ${xhr.status})`, xhr.status));
+ }
+ };
+ xhr.onerror = () => {
+ this.xhr = null;
+ reject(new ResumableUploadError('Network error while uploading chunk'));
+ };
+ xhr.onabort = () => {
+ this.xhr = null;
+ reject(new ResumableUploadError('Chunk upload aborted'));
+ };
+
+ xhr.send(chunk);
+ });
+ }
+
+ private async checksum(chunk: Blob): Promise<string | null> {
+ const algorithm = this.options.checksumAlgorithm;
+ if (!algorithm || !globalThis.crypto?.subtle) {
+ return null;
+ }
+ const digest = await crypto.subtle.digest(DIGEST_NAMES[algorithm], await chunk.arrayBuffer());
+ return `${algorithm} ${toBase64(digest)}`;
+ }
+
+ private reportProgress(uploadedBytes: number): void {
+ if (!this.options.onProgress) {
+ return;
+ }
+
+ const totalBytes = this.file.size;
+ const elapsed = this.startedAt ? (Date.now() - this.startedAt) / 1000 : 0;
+ const speed = elapsed > 0 ? (uploadedBytes - this.bytesAtStart) / elapsed : 0;
+
+ this.options.onProgress({
+ percentage: totalBytes ? Math.round((uploadedBytes / totalBytes) * 100) : 100,
+ uploadedBytes,
+ totalBytes,
+ speed,
+ timeRemaining: speed > 0 ? (totalBytes - uploadedBytes) / speed : 0 });
+ }
+}
+
+/** Returns the upload URL saved for a file by an interrupted upload, if any. */
+export const findResumableUpload = (file: File, endpoint = '/api/upload'): string | null =>
+ localStorage.getItem(getUploadFingerprint(file, endpoint));
+
+export default ResumableUpload;
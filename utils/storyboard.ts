@@ -0,0 +1,104 @@
+/**
+ * Seek-preview storyboards: sprite sheets of evenly spaced frames indexed by
+ * a WebVTT file whose cues point at `sheet.jpg#xywh=x,y,w,h` regions.
+ */
+
+import { parseWebVTT } from './captionParser';
+
+export interface StoryboardFrame {
+ startTime: number;
+ endTime: number;
+ /** Absolute URL of the sprite sheet */
+ url: string;
+ x: number;
+ y: number;
+ width: number;
+ height: number;
+ /** Size of the whole sprite sheet, inferred from the index */
+ sheetWidth: number;
+ sheetHeight: number;
+}
+
+const XYWH_PATTERN = /^(.*)#xywh=(\d+),(\d+),(\d+),(\d+)$/;
+
+/**
+ * Parses a WebVTT thumbnail index. Sheet URLs are resolved against `baseUrl`,
+ * normally the URL of the VTT file itself. Cues that do not name a region are
+ * skipped. Every sheet is assumed to share one grid, so the sheet size is the
+ * furthest frame edge across the whole index.
+ */
+export function parseStoryboardVtt(text: string, baseUrl: string): StoryboardFrame[] {
+ const frames: Array<Omit<StoryboardFrame, 'sheetWidth' | 'sheetHeight'>> = [];
+ for (const cue of parseWebVTT(text).cues) {
+ const match = XYWH_PATTERN.exec(cue.text.trim());
+ if (!match) {
+ continue;
+ }
+ frames.push({
+ startTime: cue.startTime,
+ endTime: cue.endTime,
+ url: new URL(match[1], baseUrl).href,
+ x: Number(match[2]),
+ y: Number(match[3]),
+ width: Number(match[4]),
+ height: Number(match[5])
+ });
+ }
+ const sheetWidth = Math.max(0, ...frames.map(frame => frame.x + frame.width));
+ const sheetHeight = Math.max(0, ...frames.map(frame => frame.y + frame.height));
+ return frames.map(frame => ({ ...frame, sheetWidth, sheetHeight }));
+}
+
+/** The frame covering `time`; past the end, the last frame. `frames` must be sorted. */
+export function getStoryboardFrame(frames: StoryboardFrame[], time: number): StoryboardFrame | null {
+ if (!frames.length) {
+ return null;
+ }
+ let low = 0;
+ let high = frames.length - 1;
+ while (low < high) {
+ const mid = Math.ceil((low + high) / 2);
+ if (frames[mid].startTime <= time) {
+ low = mid;
+ } else {
+ high = mid - 1;
+ }
+ }
+ return frames[low];
+}
+
+const cache = new Map<string, Promise<StoryboardFrame[]>>();
+
+/**
+ * Fetches and parses a storyboard index. Requests are shared, so the player
+ * and every card showing the same video load it once.
+ */
+export function loadStoryboard(url: string): Promise<StoryboardFrame[]> {
+ const absoluteUrl = new URL(url, window.location.href).href;
+ let pending = cache.get(absoluteUrl);
+ if (!pending) {
+ pending = fetch(absoluteUrl)
+ .then(response => {
+ if (!response.ok) {
+ throw new Error(`Failed to load storyboard (HTTP ${response.status})`);
+ }
+ return response.text();
+ })
+ .then(text => parseStoryboardVtt(text, absoluteUrl))
+ .catch((error: unknown) => {
+ // Let a later hover try again
+ cache.delete(absoluteUrl);
+ throw error;
+ });
+ cache.set(absoluteUrl, pending);
+ }
+ return pending;
+}
+
+/** Warms the browser cache with every sprite sheet so scrubbing does not flicker. */
+export function preloadStoryboardSheets(frames: StoryboardFrame[]): void {
+ for (const url of new Set(frames.map(frame => frame.url))) {
+ const image = new Image();
+ image.src = url;
+ }
+}
@@ -1,65 +1,164 @@
 /**
- * Clean minimal upload utilities (stub implementation to restore compile health)
+ * Video upload utilities. Uploads go through the tus endpoint at /api/upload
+ * in chunks, so they can be paused, resumed and survive a page reload.
  */
 
+import { ResumableUpload } from './resumableUpload';
+
+import type { ResumableUploadStatus } from './resumableUpload';
+
 export interface VideoUploadData {
-	videoFile: File; title: string; description: string; category: string; visibility: string; isShorts?: boolean; thumbnailFile?: File; tags: string[];
+	videoFile: File;
+	title: string;
+	description: string;
+	category: string;
+	visibility: string;
+	isShorts?: boolean;
+	thumbnailFile?: File;
+	tags: string[];
+}
 
-export interface UploadProgress { percentage: number; uploadedBytes: number; totalBytes: number; speed: number; timeRemaining: number , }
+export interface UploadProgress {
+	percentage: number;
+	uploadedBytes: number;
+	totalBytes: number;
+	/** Bytes per second since the upload (re)started */
+	speed: number;
+	/** Estimated seconds left */
+	timeRemaining: number;
+}
 
-export interface UploadResponse { success: boolean; videoId?: string; message?: string; [k: string], }
+export interface UploadResponse {
+	success: boolean;
+	videoId?: string;
+	uploadId?: string;
+	thumbnailUploadId?: string;
+	message?: string;
+	[k: string]: unknown;
+}
 
 export interface UploadOptions {
 	onProgress?: (p: UploadProgress) => void;
+	onStatusChange?: (status: ResumableUploadStatus) => void;
 	onComplete?: (r: UploadResponse) => void;
 	onError?: (e: Error) => void;
+	chunkSize?: number;
+	/** Build seek-preview sprites in the browser and upload them with the video (default true) */
+	storyboard?: boolean;
+}
 
-export function uploadVideo(data: VideoUploadData, options: UploadOptions = {}): void {
-	const { onProgress, onComplete, onError } = options;
-	const start = Date.now();
-	try {
-		const form = new FormData();
-		form.append('video', data.videoFile);
-		form.append('title', data.title);
-		form.append('description', data.description);
-		form.append('category', data.category);
-		form.append('visibility', data.visibility);
-		form.append('isShorts', String(!!data.isShorts));
-		if (data.thumbnailFile) form.append('thumbnail', data.thumbnailFile);
-		if (data.tags?.length) form.append('tags', JSON.stringify(data.tags.slice(0, 25)));
-
-		const xhr = new XMLHttpRequest();
-		xhr.upload.onprogress = (e) => {
-			if (!e.lengthComputable || !onProgress) return;
-			const elapsed = (Date.now() - start) / 1000;
-			const speed = elapsed > 0 ? e.loaded / elapsed : 0;
-			const remaining = speed > 0 ? (e.total - e.loaded) / speed : 0;
-			onProgress({)
-				percentage: Math.round((e.loaded / e.total) * 100),
-				uploadedBytes: e.loaded,
-				totalBytes: e.total,
-				speed,
-				timeRemaining: remaining;
-		xhr.onerror = () => onError?.(new Error('Upload failed'));
-		xhr.onload = () => {
-			if (xhr.status >= 200 && xhr.status < 300) {
-				try {
-					onComplete?.(JSON.parse(xhr.responseText));
-				} catch {
-					onComplete?.({ success: true });
-			} else {
-				onError?.(new Error(`Upload failed with status ${xhr.status}`));
-		xhr.open('POST', '/api/upload', true);
-		xhr.send(form);
-	} catch (e) {
-		onError?.(e as Error);
+/** A storyboard sprite sheet plus the layout the server needs to index it */
+export interface StoryboardSprite {
+	sprite: Blob;
+	intervalSeconds: number;
+	frameCount: number;
+	columns: number;
+	rows: number;
+	tileWidth: number;
+	tileHeight: number;
+	durationSeconds: number;
+}
+
+export interface UploadController {
+	readonly upload: ResumableUpload;
+	pause: () => void;
+	resume: () => Promise<void>;
+	cancel: () => Promise<void>;
+}
+
+const MAX_VIDEO_SIZE = 256 * 1024 * 1024 * 1024; // 256GB, matches the server's Tus-Max-Size
+
+// Browser storyboards are a single 10x10 sheet of 160px-wide frames
+const STORYBOARD_MAX_FRAMES = 100;
+const STORYBOARD_COLUMNS = 10;
+const STORYBOARD_TILE_WIDTH = 160;
+const STORYBOARD_MIN_INTERVAL_SECONDS = 2;
+
+const uploadThumbnail = (file: File, videoUploadId: string): Promise<string | null> =>
+	new Promise((resolve, reject) => {
+		const upload = new ResumableUpload(file, {
+			metadata: { role: 'thumbnail', videoUploadId },
+			onSuccess: () => resolve(upload.uploadId),
+			onError: reject });
+		void upload.start();
+	});
+
+const uploadStoryboard = (storyboard: StoryboardSprite, videoUploadId: string): Promise<string | null> =>
+	new Promise((resolve, reject) => {
+		const { sprite, ...layout } = storyboard;
+		const metadata: Record<string, string> = { role: 'storyboard', videoUploadId, filetype: 'image/jpeg' };
+		for (const [key, value] of Object.entries(layout)) {
+			metadata[key] = String(value);
+		}
+		const upload = new ResumableUpload(new File([sprite], 'storyboard.jpg', { type: 'image/jpeg' }), {
+			metadata,
+			onSuccess: () => resolve(upload.uploadId),
+			onError: reject });
+		void upload.start();
+	});
+
+/**
+ * Starts a resumable upload of `data.videoFile`, followed by the thumbnail
+ * if one is given and a browser-generated storyboard. Picking the same file
+ * after an interruption resumes it.
+ */
+export function uploadVideo(data: VideoUploadData, options: UploadOptions = {}): UploadController {
+	const { onProgress, onStatusChange, onComplete, onError, chunkSize, storyboard = true } = options;
+	// Built while the video uploads; previews are optional, so failures are ignored
+	const storyboardPromise = storyboard ? generateStoryboard(data.videoFile).catch(() => null) : Promise.resolve(null);
+
+	const metadata: Record<string, string> = {
+		title: data.title,
+		description: data.description,
+		category: data.category,
+		visibility: data.visibility,
+		isShorts: String(!!data.isShorts) };
+	if (data.tags?.length) {
+		metadata.tags = JSON.stringify(data.tags.slice(0, 25));
+	}
+
+	const upload = new ResumableUpload(data.videoFile, {
+		metadata,
+		...(chunkSize && { chunkSize }),
+		...(onProgress && { onProgress }),
+		...(onStatusChange && { onStatusChange }),
+		...(onError && { onError }),
+		onSuccess: async () => {
+			const uploadId = upload.uploadId || undefined;
+			try {
+				const thumbnailUploadId = data.thumbnailFile && uploadId
+					? await uploadThumbnail(data.thumbnailFile, uploadId)
+					: null;
+				const sprite = await storyboardPromise;
+				if (sprite && uploadId) {
+					await uploadStoryboard(sprite, uploadId).catch(() => null);
+				}
+				onComplete?.({
+					success: true,
+					videoId: uploadId,
+					uploadId,
+					...(thumbnailUploadId && { thumbnailUploadId }),
+					message: 'Upload completed' });
+			} catch (e) {
+				onError?.(e as Error);
+			}
+		} });
+
+	void upload.start();
+
+	return {
+		upload,
+		pause: () => upload.pause(),
+		resume: () => upload.resume(),
+		cancel: () => upload.abort() };
+}
 
 export function validateVideoFile(file: File): { valid: boolean; error?: string } {
 	const validTypes = ['video/mp4', 'video/webm', 'video/quicktime'];
-	const maxSize = 128 * 1024 * 1024; // 128MB
 	if (!validTypes.includes(file.type)) return { valid: false, error: 'Unsupported video format' };
-	if (file.size > maxSize) return { valid: false, error: 'File exceeds 128MB limit' };
+	if (file.size > MAX_VIDEO_SIZE) return { valid: false, error: 'File exceeds 256GB limit' };
 	return { valid: true };
+}
 
 export function validateThumbnailFile(file: File): { valid: boolean; error?: string } {
 	const validTypes = ['image/jpeg', 'image/png', 'image/webp'];
@@ -67,9 +166,10 @@ export function validateThumbnailFile(file: File): { valid: boolean; error?: str
 	if (!validTypes.includes(file.type)) return { valid: false, error: 'Unsupported image format' };
 	if (file.size > maxSize) return { valid: false, error: 'Image exceeds 2MB limit' };
 	return { valid: true };
+}
 
 export function getVideoMetadata(file: File): Promise<{ duration: number; width: number; height: number; aspectRatio: number; bitrate: number; codec: string; container: string }> {
-	return new Promise((resolve, reject) => {)
+	return new Promise((resolve, reject) => {
 		const video = document.createElement('video');
 		video.preload = 'metadata';
 		video.onloadedmetadata = () => {
@@ -80,23 +180,95 @@ export function getVideoMetadata(file: File): Promise<{ duration: number; width:
 			const bitrate = duration ? file.size / duration : file.size;
 			resolve({ duration, width, height, aspectRatio, bitrate, codec: '', container: file.type });
 			URL.revokeObjectURL(video.src);
+		};
 		video.onerror = () => { reject(new Error('Failed to load metadata')); URL.revokeObjectURL(video.src); };
 		video.src = URL.createObjectURL(file);
+	});
+}
 
-export function generateThumbnail(videoFile: File, timeInSeconds = 0): Promise<string> {
-	return new Promise((resolve, reject) => {)
+const loadVideoFile = (file: File): Promise<HTMLVideoElement> =>
+	new Promise((resolve, reject) => {
 		const video = document.createElement('video');
+		video.muted = true;
+		video.preload = 'auto';
+		video.onloadeddata = () => resolve(video);
+		video.onerror = () => { URL.revokeObjectURL(video.src); reject(new Error('Failed to load video')); };
+		video.src = URL.createObjectURL(file);
+	});
+
+const seekVideo = (video: HTMLVideoElement, time: number): Promise<void> =>
+	new Promise((resolve, reject) => {
+		const cleanup = () => {
+			video.removeEventListener('seeked', onSeeked);
+			video.removeEventListener('error', onError);
+		};
+		const onSeeked = () => { cleanup(); resolve(); };
+		const onError = () => { cleanup(); reject(new Error('Failed to seek video')); };
+		video.addEventListener('seeked', onSeeked);
+		video.addEventListener('error', onError);
+		video.currentTime = Math.min(Math.max(0, time), video.duration || 0);
+	});
+
+const releaseVideo = (video: HTMLVideoElement) => {
+	URL.revokeObjectURL(video.src);
+	video.removeAttribute('src');
+	video.load();
+};
+
+export async function generateThumbnail(videoFile: File, timeInSeconds = 0): Promise<string> {
+	const video = await loadVideoFile(videoFile);
+	try {
+		await seekVideo(video, timeInSeconds);
 		const canvas = document.createElement('canvas');
 		const ctx = canvas.getContext('2d');
-		if (!ctx) return reject(new Error('Canvas context unavailable'));
-		video.onloadedmetadata = () => { video.currentTime = Math.min(Math.max(0, timeInSeconds), video.duration || 0); };
-		video.onseeked = () => {
-			canvas.width = video.videoWidth;
-			canvas.height = video.videoHeight;
-			ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-			try { resolve(canvas.toDataURL('image/jpeg', 0.8)); } catch (e) { reject(e as Error); }
-			URL.revokeObjectURL(video.src);
-		video.onerror = () => { reject(new Error('Failed to extract thumbnail')); URL.revokeObjectURL(video.src); };
-		video.src = URL.createObjectURL(videoFile);
+		if (!ctx) throw new Error('Canvas context unavailable');
+		canvas.width = video.videoWidth;
+		canvas.height = video.videoHeight;
+		ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+		return canvas.toDataURL('image/jpeg', 0.8);
+	} catch {
+		throw new Error('Failed to extract thumbnail');
+	} finally {
+		releaseVideo(video);
+	}
+}
+
+/**
+ * Captures evenly spaced frames into one sprite sheet for seek previews. The
+ * server indexes it as a WebVTT thumbnail track when it cannot build its own.
+ */
+export async function generateStoryboard(videoFile: File): Promise<StoryboardSprite> {
+	const video = await loadVideoFile(videoFile);
+	try {
+		const durationSeconds = video.duration;
+		if (!Number.isFinite(durationSeconds) || durationSeconds <= 0 || !video.videoWidth) {
+			throw new Error('Video has no measurable duration');
+		}
+		const intervalSeconds = Math.max(STORYBOARD_MIN_INTERVAL_SECONDS, durationSeconds / STORYBOARD_MAX_FRAMES);
+		const frameCount = Math.min(STORYBOARD_MAX_FRAMES, Math.ceil(durationSeconds / intervalSeconds));
+		const columns = Math.min(STORYBOARD_COLUMNS, frameCount);
+		const rows = Math.ceil(frameCount / columns);
+		const tileWidth = STORYBOARD_TILE_WIDTH;
+		const tileHeight = Math.round((tileWidth * video.videoHeight) / video.videoWidth / 2) * 2;
+
+		const canvas = document.createElement('canvas');
+		canvas.width = columns * tileWidth;
+		canvas.height = rows * tileHeight;
+		const ctx = canvas.getContext('2d');
+		if (!ctx) throw new Error('Canvas context unavailable');
+
+		for (let frame = 0; frame < frameCount; frame++) {
+			await seekVideo(video, frame * intervalSeconds);
+			ctx.drawImage(video, (frame % columns) * tileWidth, Math.floor(frame / columns) * tileHeight, tileWidth, tileHeight);
+		}
+
+		const sprite = await new Promise<Blob>((resolve, reject) => {
+			canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode storyboard'))), 'image/jpeg', 0.7);
+		});
+		return { sprite, intervalSeconds, frameCount, columns, rows, tileWidth, tileHeight, durationSeconds };
+	} finally {
+		releaseVideo(video);
+	}
+}
 
-export default { uploadVideo, validateVideoFile, validateThumbnailFile, getVideoMetadata, generateThumbnail };
+export default { uploadVideo, validateVideoFile, validateThumbnailFile, getVideoMetadata, generateThumbnail, generateStoryboard };
@@ -83,7 +83,9 @@ export default defineConfig(({ mode }) => ({
  '/api': {
  target: 'http://localhost:8080',
  changeOrigin: true,
- secure: false } } },
+ secure: false,
+ ws: true // live chat WebSocket
+ } } },
 
  // Build configuration,
  build: {